@@ -199,6 +199,30 @@ function doPost(e) {
         });
         break;
 
+      case 'getSubmissionsForGrading':
+        result = getSubmissionsForGrading(params.assignmentId);
+        break;
+
+      case 'saveRubricGrade':
+        result = saveRubricGrade(params.assignmentId, params.gradeData, studentEmail);
+        break;
+
+      case 'getSubjectGradebook':
+        result = getSubjectGradebook(params.batch, params.term, params.subject);
+        break;
+
+      case 'getStudentGradebook':
+        result = getStudentGradebook(studentEmail);
+        break;
+
+      case 'getGradebookWeights':
+        result = getGradebookWeights(params.batch, params.term, params.subject);
+        break;
+
+      case 'saveGradebookWeights':
+        result = saveGradebookWeights(params.batch, params.term, params.subject, params.config, studentEmail);
+        break;
+
       case 'saveSubjectTermEntry':
         result = saveSubjectTermEntry(
           params.batch,
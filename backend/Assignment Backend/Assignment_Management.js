@@ -130,7 +130,8 @@ function createAssignment(assignmentData) {
       JSON.stringify(instructorFilesUrls),             // 66 - InstructorFiles (JSON array)
       JSON.stringify(assignmentURLsData),              // 67 - AssignmentURLs (JSON array of {name, url} pairs)
       assignmentData.groupRatingRemarkEnabled || (assignmentData.groupAssignment === 'Yes' ? 'Yes' : 'No'), // 68 - GroupRatingRemarkEnabled (BQ column)
-      assignmentData.maximumGroupMembers || ''         // 69 - MaximumGroupMembers (BR column)
+      assignmentData.maximumGroupMembers || '',        // 69 - MaximumGroupMembers (BR column)
+      assignmentData.rubric ? JSON.stringify(assignmentData.rubric) : '' // 70 - RubricJSON (BS column)
     ];
 
     // Append to sheet
@@ -723,6 +724,9 @@ function getAssignments(filters, studentEmail, isAdmin) {
         assignmentURLs = [];
       }
 
+      // Parse rubric
+      const rubric = parseRubricJson(row[70]);
+
       // Build assignment object
       const assignment = {
         assignmentId: row[0],
@@ -755,6 +759,7 @@ function getAssignments(filters, studentEmail, isAdmin) {
         assignmentURLs: assignmentURLs,
         groupRatingRemarkEnabled: row[68] || 'No',
         maximumGroupMembers: row[69] || '',
+        rubric: rubric,
         ...questionFields // Spread individual q1, q1Mandatory, q2, q2Mandatory, etc.
       };
 
@@ -913,7 +918,8 @@ function updateAssignment(assignmentId, assignmentData) {
       JSON.stringify(instructorFilesUrls),                    // 66 - InstructorFiles (JSON array)
       JSON.stringify(assignmentURLsData),                     // 67 - AssignmentURLs (JSON array of {name, url} pairs)
       assignmentData.groupRatingRemarkEnabled !== undefined ? assignmentData.groupRatingRemarkEnabled : (existingRow[68] || (assignmentData.groupAssignment === 'Yes' ? 'Yes' : 'No')), // 68 - GroupRatingRemarkEnabled (BQ column)
-      assignmentData.maximumGroupMembers !== undefined ? assignmentData.maximumGroupMembers : (existingRow[69] || '') // 69 - MaximumGroupMembers (BR column)
+      assignmentData.maximumGroupMembers !== undefined ? assignmentData.maximumGroupMembers : (existingRow[69] || ''), // 69 - MaximumGroupMembers (BR column)
+      assignmentData.rubric !== undefined ? (assignmentData.rubric ? JSON.stringify(assignmentData.rubric) : '') : (existingRow[70] || '') // 70 - RubricJSON (BS column)
     ];
 
     Logger.log('🔍 DEBUG - updatedRow array length: ' + updatedRow.length);
@@ -1792,75 +1798,12 @@ function getStudentSubmissions(assignmentId, studentEmail) {
     const headerRow = responseSheet.getRange(1, 1, 1, responseSheet.getLastColumn()).getValues()[0];
     const allData = responseSheet.getDataRange().getValues();
 
-    // Parse submissions
+    // Parse submissions and attach any rubric grade recorded by faculty
+    const rubricGrades = getRubricGradesMap(responseSpreadsheet);
     const submissions = [];
     for (const sub of statusResult.data.allSubmissions) {
-      const rowData = sub.rowData;
-      const parsedSubmission = {
-        timestamp: rowData[0],
-        responseUpdated: rowData[1],
-        submissionId: '',
-        submitterEmail: '',
-        submitterName: '',
-        answers: {},
-        files: [],
-        urls: [],
-        groupName: '',
-        groupMembers: []
-      };
-
-      // Parse each column based on header
-      for (let col = 0; col < headerRow.length; col++) {
-        const header = headerRow[col];
-        const value = rowData[col];
-
-        if (header === 'Submission ID') {
-          parsedSubmission.submissionId = value || '';
-        } else if (header === 'Student Email') {
-          parsedSubmission.submitterEmail = value || '';
-        } else if (header === 'Student Name') {
-          parsedSubmission.submitterName = value || '';
-        } else if (header === 'Group Members') {
-          parsedSubmission.groupMembers = value ? value.split(',').map(m => m.trim()) : [];
-        } else if (header === 'Group Name') {
-          parsedSubmission.groupName = value || '';
-        } else if (header.startsWith('File Name ') && value) {
-          const fileIndex = parseInt(header.replace('File Name ', '')) - 1;
-          if (!parsedSubmission.files[fileIndex]) {
-            parsedSubmission.files[fileIndex] = {};
-          }
-          parsedSubmission.files[fileIndex].name = value;
-        } else if (header.startsWith('File Url ') && value) {
-          const fileIndex = parseInt(header.replace('File Url ', '')) - 1;
-          if (!parsedSubmission.files[fileIndex]) {
-            parsedSubmission.files[fileIndex] = {};
-          }
-          parsedSubmission.files[fileIndex].url = value;
-        } else if (header.startsWith('URL Name ') && value) {
-          const urlIndex = parseInt(header.replace('URL Name ', '')) - 1;
-          if (!parsedSubmission.urls[urlIndex]) {
-            parsedSubmission.urls[urlIndex] = {};
-          }
-          parsedSubmission.urls[urlIndex].name = value;
-        } else if (header.startsWith('URL Link ') && value) {
-          const urlIndex = parseInt(header.replace('URL Link ', '')) - 1;
-          if (!parsedSubmission.urls[urlIndex]) {
-            parsedSubmission.urls[urlIndex] = {};
-          }
-          parsedSubmission.urls[urlIndex].link = value;
-        } else if (header !== 'Timestamp' && header !== 'Response Updated' && header !== 'Assignment Updated?' &&
-                   header !== 'Submission ID' && header !== 'Student Email' && header !== 'Student Name' &&
-                   header !== 'Group Name' && header !== 'Group Members Emails' && header !== 'Group Members') {
-          // It's a question answer
-          parsedSubmission.answers[header] = value;
-        }
-      }
-
-      // Filter out empty file objects
-      parsedSubmission.files = parsedSubmission.files.filter(f => f && f.name);
-      // Filter out empty URL objects
-      parsedSubmission.urls = parsedSubmission.urls.filter(u => u && u.name && u.link);
-
+      const parsedSubmission = parseSubmissionRow(headerRow, sub.rowData);
+      parsedSubmission.rubricGrade = rubricGrades[parsedSubmission.submissionId] || null;
       submissions.push(parsedSubmission);
     }
 
@@ -1883,6 +1826,84 @@ function getStudentSubmissions(assignmentId, studentEmail) {
   }
 }
 
+/**
+ * Parse a Response Sheet row into a submission object using the header row
+ * @param {Array} headerRow - Response Sheet header row
+ * @param {Array} rowData - Response Sheet data row
+ * @returns {Object} Parsed submission
+ */
+function parseSubmissionRow(headerRow, rowData) {
+  const parsedSubmission = {
+    timestamp: rowData[0],
+    responseUpdated: rowData[1],
+    submissionId: '',
+    submitterEmail: '',
+    submitterName: '',
+    answers: {},
+    files: [],
+    urls: [],
+    groupName: '',
+    groupMembers: [],
+    groupMembersEmails: []
+  };
+
+  // Parse each column based on header
+  for (let col = 0; col < headerRow.length; col++) {
+    const header = headerRow[col];
+    const value = rowData[col];
+
+    if (header === 'Submission ID') {
+      parsedSubmission.submissionId = value || '';
+    } else if (header === 'Student Email') {
+      parsedSubmission.submitterEmail = value || '';
+    } else if (header === 'Student Name') {
+      parsedSubmission.submitterName = value || '';
+    } else if (header === 'Group Members') {
+      parsedSubmission.groupMembers = value ? value.split(',').map(m => m.trim()) : [];
+    } else if (header === 'Group Members Emails') {
+      parsedSubmission.groupMembersEmails = value ? value.split(',').map(m => m.trim()).filter(m => m) : [];
+    } else if (header === 'Group Name') {
+      parsedSubmission.groupName = value || '';
+    } else if (header.startsWith('File Name ') && value) {
+      const fileIndex = parseInt(header.replace('File Name ', '')) - 1;
+      if (!parsedSubmission.files[fileIndex]) {
+        parsedSubmission.files[fileIndex] = {};
+      }
+      parsedSubmission.files[fileIndex].name = value;
+    } else if (header.startsWith('File Url ') && value) {
+      const fileIndex = parseInt(header.replace('File Url ', '')) - 1;
+      if (!parsedSubmission.files[fileIndex]) {
+        parsedSubmission.files[fileIndex] = {};
+      }
+      parsedSubmission.files[fileIndex].url = value;
+    } else if (header.startsWith('URL Name ') && value) {
+      const urlIndex = parseInt(header.replace('URL Name ', '')) - 1;
+      if (!parsedSubmission.urls[urlIndex]) {
+        parsedSubmission.urls[urlIndex] = {};
+      }
+      parsedSubmission.urls[urlIndex].name = value;
+    } else if (header.startsWith('URL Link ') && value) {
+      const urlIndex = parseInt(header.replace('URL Link ', '')) - 1;
+      if (!parsedSubmission.urls[urlIndex]) {
+        parsedSubmission.urls[urlIndex] = {};
+      }
+      parsedSubmission.urls[urlIndex].link = value;
+    } else if (header !== 'Timestamp' && header !== 'Response Updated' && header !== 'Assignment Updated?' &&
+               header !== 'Submission ID' && header !== 'Student Email' && header !== 'Student Name' &&
+               header !== 'Group Name' && header !== 'Group Members Emails' && header !== 'Group Members') {
+      // It's a question answer
+      parsedSubmission.answers[header] = value;
+    }
+  }
+
+  // Filter out empty file objects
+  parsedSubmission.files = parsedSubmission.files.filter(f => f && f.name);
+  // Filter out empty URL objects
+  parsedSubmission.urls = parsedSubmission.urls.filter(u => u && u.name && u.link);
+
+  return parsedSubmission;
+}
+
 /**
  * Extract sheet ID from Google Sheets URL
  */
@@ -3271,3 +3292,629 @@ function saveSubjectTermEntry(batch, term, domain, subject) {
     };
   }
 }
+
+// ==================== RUBRIC GRADING ====================
+
+const RUBRIC_GRADES_SHEET = 'Rubric Grades';
+const RUBRIC_GRADES_HEADERS = [
+  'Submission ID',
+  'Student Email',
+  'Student Name',
+  'Criterion Scores',
+  'Criterion Feedback',
+  'Total Score',
+  'Max Score',
+  'Overall Feedback',
+  'Graded By',
+  'Graded At'
+];
+
+/**
+ * Parse the RubricJSON column of an assignment row
+ * @param {string} value - Raw cell value
+ * @returns {Object|null} Rubric {id, criteria[]} or null when not set
+ */
+function parseRubricJson(value) {
+  if (!value) return null;
+  try {
+    const rubric = JSON.parse(value);
+    return rubric && Array.isArray(rubric.criteria) && rubric.criteria.length > 0 ? rubric : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Maximum achievable score for an assignment - rubric total if present, else TotalMarks
+ */
+function getAssignmentMaxScore(rubric, totalMarks) {
+  if (rubric) {
+    return rubric.criteria.reduce((sum, c) => sum + (parseFloat(c.maxScore) || 0), 0);
+  }
+  return parseFloat(totalMarks) || 0;
+}
+
+/**
+ * Get or create the Rubric Grades sub-sheet within the Response Spreadsheet
+ * @param {Spreadsheet} ss - The Response Spreadsheet object
+ * @returns {Sheet} The Rubric Grades sheet
+ */
+function getOrCreateRubricGradesSheet(ss) {
+  let sheet = ss.getSheetByName(RUBRIC_GRADES_SHEET);
+  if (sheet) return sheet;
+
+  sheet = ss.insertSheet(RUBRIC_GRADES_SHEET);
+  sheet.getRange(1, 1, 1, RUBRIC_GRADES_HEADERS.length).setValues([RUBRIC_GRADES_HEADERS]);
+
+  const headerRange = sheet.getRange(1, 1, 1, RUBRIC_GRADES_HEADERS.length);
+  headerRange.setBackground('#3F51B5'); // Indigo to distinguish from submissions and peer ratings
+  headerRange.setFontColor('#FFFFFF');
+  headerRange.setFontWeight('bold');
+  sheet.setFrozenRows(1);
+
+  Logger.log('✅ Rubric Grades sheet created');
+  return sheet;
+}
+
+/**
+ * Read all rubric grades of a Response Spreadsheet keyed by Submission ID
+ * @param {Spreadsheet} ss - The Response Spreadsheet object
+ * @returns {Object} {submissionId: grade}
+ */
+function getRubricGradesMap(ss) {
+  const grades = {};
+  const sheet = ss.getSheetByName(RUBRIC_GRADES_SHEET);
+  if (!sheet) return grades;
+
+  const data = sheet.getDataRange().getValues();
+  const headers = data[0];
+  const col = {};
+  RUBRIC_GRADES_HEADERS.forEach(h => { col[h] = headers.indexOf(h); });
+
+  const parseJson = (value) => {
+    try {
+      return value ? JSON.parse(value) : {};
+    } catch (e) {
+      return {};
+    }
+  };
+
+  for (let i = 1; i < data.length; i++) {
+    const row = data[i];
+    const submissionId = row[col['Submission ID']];
+    if (!submissionId) continue;
+
+    grades[submissionId] = {
+      submissionId: submissionId,
+      criterionScores: parseJson(row[col['Criterion Scores']]),
+      criterionFeedback: parseJson(row[col['Criterion Feedback']]),
+      totalScore: parseFloat(row[col['Total Score']]) || 0,
+      maxScore: parseFloat(row[col['Max Score']]) || 0,
+      feedback: row[col['Overall Feedback']] || '',
+      gradedBy: row[col['Graded By']] || '',
+      gradedAt: row[col['Graded At']] || ''
+    };
+  }
+
+  return grades;
+}
+
+/**
+ * Find an assignment row and open its Response Spreadsheet
+ * @returns {Object} {success, assignmentRow, responseSpreadsheet} or {success: false, error}
+ */
+function openAssignmentResponses(assignmentId) {
+  const ss = SpreadsheetApp.openById(ASSIGNMENT_CONFIG.SHEET_ID);
+  const assignmentSheet = ss.getSheetByName(ASSIGNMENT_CONFIG.ASSIGNMENT_SHEET);
+  const data = assignmentSheet.getDataRange().getValues();
+
+  let assignmentRow = null;
+  for (let i = 1; i < data.length; i++) {
+    if (data[i][0] === assignmentId) {
+      assignmentRow = data[i];
+      break;
+    }
+  }
+
+  if (!assignmentRow) {
+    return { success: false, error: 'Assignment not found' };
+  }
+
+  const sheetId = assignmentRow[21] ? extractSheetIdFromUrl(assignmentRow[21]) : null;
+  if (!sheetId) {
+    return { success: false, error: 'Assignment has no response sheet' };
+  }
+
+  return {
+    success: true,
+    assignmentRow: assignmentRow,
+    responseSpreadsheet: SpreadsheetApp.openById(sheetId)
+  };
+}
+
+/**
+ * Get the latest submission per Submission ID for an assignment, with rubric grades
+ * Resubmissions reuse the same Submission ID, so only the newest row is graded
+ * @param {string} assignmentId - Assignment ID
+ * @returns {Object} {success, data: {assignmentId, rubric, maxScore, submissions[]}}
+ */
+function getSubmissionsForGrading(assignmentId) {
+  try {
+    Logger.log('📝 Getting submissions for grading: ' + assignmentId);
+
+    const opened = openAssignmentResponses(assignmentId);
+    if (!opened.success) {
+      return opened;
+    }
+
+    const assignmentRow = opened.assignmentRow;
+    const rubric = parseRubricJson(assignmentRow[70]);
+    const responseSheet = opened.responseSpreadsheet.getSheets()[0];
+    const responseData = responseSheet.getDataRange().getValues();
+    const headerRow = responseData[0];
+    const rubricGrades = getRubricGradesMap(opened.responseSpreadsheet);
+
+    const latestById = {};
+    const order = [];
+    for (let i = 1; i < responseData.length; i++) {
+      const parsed = parseSubmissionRow(headerRow, responseData[i]);
+      const key = parsed.submissionId || ('row_' + (i + 1));
+      if (!latestById[key]) {
+        order.push(key);
+      }
+      latestById[key] = parsed;
+    }
+
+    const submissions = order.map(key => {
+      const submission = latestById[key];
+      submission.rubricGrade = rubricGrades[submission.submissionId] || null;
+      return submission;
+    });
+
+    Logger.log('✅ Found ' + submissions.length + ' submissions to grade');
+
+    return {
+      success: true,
+      data: {
+        assignmentId: assignmentId,
+        assignmentHeader: assignmentRow[5],
+        batch: assignmentRow[1],
+        term: assignmentRow[2],
+        subject: assignmentRow[3],
+        totalMarks: assignmentRow[11],
+        rubric: rubric,
+        maxScore: getAssignmentMaxScore(rubric, assignmentRow[11]),
+        submissions: submissions
+      }
+    };
+
+  } catch (error) {
+    Logger.log('❌ Error getting submissions for grading: ' + error.message);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Save (insert or update) the rubric grade for a submission
+ * Criterion scores are clamped to each criterion's maxScore and the total is recomputed here
+ * @param {string} assignmentId - Assignment ID
+ * @param {Object} gradeData - {submissionId, studentEmail, studentName, criterionScores, criterionFeedback, feedback}
+ * @param {string} graderEmail - Faculty email
+ * @returns {Object} {success, data: grade}
+ */
+function saveRubricGrade(assignmentId, gradeData, graderEmail) {
+  try {
+    Logger.log('💾 Saving rubric grade - Assignment: ' + assignmentId + ', Submission: ' + (gradeData && gradeData.submissionId));
+
+    if (!gradeData || !gradeData.submissionId) {
+      return { success: false, error: 'Submission ID is required' };
+    }
+
+    const opened = openAssignmentResponses(assignmentId);
+    if (!opened.success) {
+      return opened;
+    }
+
+    const rubric = parseRubricJson(opened.assignmentRow[70]);
+    const maxScore = getAssignmentMaxScore(rubric, opened.assignmentRow[11]);
+    const rawScores = gradeData.criterionScores || {};
+    const criterionScores = {};
+    let totalScore = 0;
+
+    if (rubric) {
+      rubric.criteria.forEach(criterion => {
+        const raw = parseFloat(rawScores[criterion.id]);
+        if (isNaN(raw)) return;
+        const score = Math.max(0, Math.min(raw, parseFloat(criterion.maxScore) || 0));
+        criterionScores[criterion.id] = score;
+        totalScore += score;
+      });
+    } else {
+      // No rubric - a single overall score against TotalMarks
+      const raw = parseFloat(gradeData.totalScore);
+      totalScore = isNaN(raw) ? 0 : Math.max(0, maxScore > 0 ? Math.min(raw, maxScore) : raw);
+    }
+
+    const sheet = getOrCreateRubricGradesSheet(opened.responseSpreadsheet);
+    const data = sheet.getDataRange().getValues();
+    const headers = data[0];
+    const submissionIdCol = headers.indexOf('Submission ID');
+    const gradedAt = formatTimestamp();
+
+    const grade = {
+      submissionId: gradeData.submissionId,
+      criterionScores: criterionScores,
+      criterionFeedback: gradeData.criterionFeedback || {},
+      totalScore: totalScore,
+      maxScore: maxScore,
+      feedback: gradeData.feedback || '',
+      gradedBy: graderEmail || '',
+      gradedAt: gradedAt
+    };
+
+    const rowData = headers.map(header => {
+      switch (header) {
+        case 'Submission ID': return grade.submissionId;
+        case 'Student Email': return gradeData.studentEmail || '';
+        case 'Student Name': return gradeData.studentName || '';
+        case 'Criterion Scores': return JSON.stringify(grade.criterionScores);
+        case 'Criterion Feedback': return JSON.stringify(grade.criterionFeedback);
+        case 'Total Score': return grade.totalScore;
+        case 'Max Score': return grade.maxScore;
+        case 'Overall Feedback': return grade.feedback;
+        case 'Graded By': return grade.gradedBy;
+        case 'Graded At': return grade.gradedAt;
+        default: return '';
+      }
+    });
+
+    let existingRowIndex = -1;
+    for (let i = 1; i < data.length; i++) {
+      if (data[i][submissionIdCol] === gradeData.submissionId) {
+        existingRowIndex = i + 1; // 1-indexed for sheet
+        break;
+      }
+    }
+
+    if (existingRowIndex !== -1) {
+      sheet.getRange(existingRowIndex, 1, 1, rowData.length).setValues([rowData]);
+      Logger.log('✅ Rubric grade updated at row ' + existingRowIndex);
+    } else {
+      sheet.appendRow(rowData);
+      Logger.log('✅ Rubric grade saved');
+    }
+
+    return {
+      success: true,
+      data: grade
+    };
+
+  } catch (error) {
+    Logger.log('❌ Error saving rubric grade: ' + error.message);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Average peer rating received per member name from a Response Spreadsheet's Peer Ratings sheet
+ * @param {Spreadsheet} ss - The Response Spreadsheet object
+ * @returns {Object} {memberName: averageRating}
+ */
+function getPeerRatingAveragesByName(ss) {
+  const averages = {};
+  const sheet = ss.getSheetByName('Peer Ratings');
+  if (!sheet) return averages;
+
+  const data = sheet.getDataRange().getValues();
+  const headers = data[0];
+  const totals = {};
+
+  for (let i = 1; i < data.length; i++) {
+    for (let col = 0; col < headers.length; col++) {
+      const memberMatch = String(headers[col]).match(/^Group Member (\d+)$/);
+      const memberName = memberMatch && data[i][col] ? data[i][col].toString().trim() : '';
+      if (!memberName) continue;
+
+      const ratingCol = headers.indexOf('Group Member ' + memberMatch[1] + ' Rating');
+      const rating = ratingCol !== -1 ? data[i][ratingCol] : '';
+      if (rating === '' || isNaN(rating)) continue;
+
+      if (!totals[memberName]) totals[memberName] = { sum: 0, count: 0 };
+      totals[memberName].sum += parseFloat(rating);
+      totals[memberName].count++;
+    }
+  }
+
+  Object.keys(totals).forEach(name => {
+    averages[name] = parseFloat((totals[name].sum / totals[name].count).toFixed(2));
+  });
+
+  return averages;
+}
+
+/**
+ * Build a student x assignment gradebook for one subject
+ * Every enrolled student gets a row; group grades are credited to every member listed in
+ * Group Members Emails, and peer rating averages (0-5) are included for peer-rated assignments
+ * @param {string} batch - Batch
+ * @param {string} term - Term (optional)
+ * @param {string} subject - Subject
+ * @param {string} onlyStudentEmail - Restrict rows to one student (optional)
+ * @returns {Object} {success, data: {assignments[], students[]}}
+ */
+function getSubjectGradebook(batch, term, subject, onlyStudentEmail) {
+  try {
+    Logger.log('📊 Building gradebook - Batch: ' + batch + ', Term: ' + term + ', Subject: ' + subject);
+
+    const ss = SpreadsheetApp.openById(ASSIGNMENT_CONFIG.SHEET_ID);
+    const assignmentSheet = ss.getSheetByName(ASSIGNMENT_CONFIG.ASSIGNMENT_SHEET);
+    const data = assignmentSheet.getDataRange().getValues();
+    const onlyEmail = onlyStudentEmail ? onlyStudentEmail.toString().trim().toLowerCase() : '';
+
+    const assignments = [];
+    const studentsByEmail = {};
+    const emailByName = {};
+
+    const getStudentEntry = (email, name) => {
+      const key = email.toString().trim().toLowerCase();
+      if (onlyEmail && key !== onlyEmail) return null;
+      if (!studentsByEmail[key]) {
+        studentsByEmail[key] = { studentEmail: key, studentName: name || '', rollNo: '', scores: {}, peerRatings: {} };
+      }
+      if (name && !studentsByEmail[key].studentName) {
+        studentsByEmail[key].studentName = name;
+      }
+      return studentsByEmail[key];
+    };
+
+    // Seed with every enrolled student so ungraded students still appear
+    const enrolled = getStudentsBySubject(batch, subject);
+    if (enrolled.success) {
+      enrolled.data.forEach(st => {
+        emailByName[st.fullName] = st.email;
+        const entry = getStudentEntry(st.email, st.fullName);
+        if (entry) entry.rollNo = st.rollNo;
+      });
+    }
+
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (row[1] !== batch || row[3] !== subject) continue;
+      if (term && row[2] !== term) continue;
+      if (row[15] === ASSIGNMENT_CONFIG.STATUS.DELETED) continue;
+
+      const rubric = parseRubricJson(row[70]);
+      const assignmentId = row[0];
+      const peerRatingEnabled = row[22] === 'Yes' && row[68] === 'Yes';
+      assignments.push({
+        assignmentId: assignmentId,
+        assignmentHeader: row[5],
+        term: row[2],
+        maxScore: getAssignmentMaxScore(rubric, row[11]),
+        hasRubric: !!rubric,
+        peerRatingEnabled: peerRatingEnabled
+      });
+
+      const sheetId = row[21] ? extractSheetIdFromUrl(row[21]) : null;
+      if (!sheetId) continue;
+
+      try {
+        const responseSpreadsheet = SpreadsheetApp.openById(sheetId);
+
+        if (peerRatingEnabled) {
+          const peerAverages = getPeerRatingAveragesByName(responseSpreadsheet);
+          Object.keys(peerAverages).forEach(name => {
+            const email = emailByName[name];
+            const entry = email ? getStudentEntry(email, name) : null;
+            if (entry) entry.peerRatings[assignmentId] = peerAverages[name];
+          });
+        }
+
+        const grades = getRubricGradesMap(responseSpreadsheet);
+        if (Object.keys(grades).length === 0) continue;
+
+        const responseData = responseSpreadsheet.getSheets()[0].getDataRange().getValues();
+        const headerRow = responseData[0];
+
+        for (let r = 1; r < responseData.length; r++) {
+          const submission = parseSubmissionRow(headerRow, responseData[r]);
+          const grade = grades[submission.submissionId];
+          if (!grade) continue;
+
+          const emails = [submission.submitterEmail].concat(submission.groupMembersEmails);
+          emails.forEach(email => {
+            if (!email) return;
+            const entry = getStudentEntry(email, email === submission.submitterEmail ? submission.submitterName : '');
+            if (entry) entry.scores[assignmentId] = grade.totalScore;
+          });
+        }
+      } catch (sheetError) {
+        Logger.log('⚠️ Could not read grades for ' + assignmentId + ': ' + sheetError.message);
+      }
+    }
+
+    const students = Object.keys(studentsByEmail).sort().map(key => studentsByEmail[key]);
+
+    Logger.log('✅ Gradebook built: ' + assignments.length + ' assignments, ' + students.length + ' students');
+
+    return {
+      success: true,
+      data: {
+        batch: batch,
+        term: term || '',
+        subject: subject,
+        assignments: assignments,
+        students: students
+      }
+    };
+
+  } catch (error) {
+    Logger.log('❌ Error building gradebook: ' + error.message);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Get a student's own assignment grades for every subject they are enrolled in (My Grades)
+ * @param {string} studentEmail - Student email
+ * @returns {Object} {success, data: {batch, subjects[]}} - one gradebook (single row) per subject
+ */
+function getStudentGradebook(studentEmail) {
+  try {
+    Logger.log('📊 Building My Grades for: ' + studentEmail);
+
+    const ss = SpreadsheetApp.openById(ASSIGNMENT_CONFIG.SHEET_ID);
+    const groupMembersSheet = ss.getSheetByName('Group Members');
+    if (!groupMembersSheet) {
+      return { success: false, error: 'Group Members sheet not found' };
+    }
+
+    const data = groupMembersSheet.getDataRange().getValues();
+    const headers = data[0];
+    const emailCol = headers.indexOf('Student Email');
+    const batchCol = headers.indexOf('Batch');
+
+    let batch = '';
+    const subjects = [];
+    for (let i = 1; i < data.length; i++) {
+      if (data[i][emailCol] && data[i][emailCol].toString().trim().toLowerCase() === studentEmail.toLowerCase()) {
+        batch = data[i][batchCol] ? data[i][batchCol].toString().trim() : '';
+        for (let col = 0; col < headers.length; col++) {
+          if (headers[col] && headers[col].toString().match(/^Subject \d+$/) && data[i][col] && data[i][col].toString().trim() !== '') {
+            subjects.push(data[i][col].toString().trim());
+          }
+        }
+        break;
+      }
+    }
+
+    if (!batch) {
+      return { success: false, error: 'Student not found in Group Members sheet' };
+    }
+
+    const gradebooks = [];
+    subjects.forEach(subject => {
+      const result = getSubjectGradebook(batch, '', subject, studentEmail);
+      if (result.success && result.data.assignments.length > 0) {
+        gradebooks.push(result.data);
+      }
+    });
+
+    return {
+      success: true,
+      data: {
+        batch: batch,
+        subjects: gradebooks,
+        weights: getGradebookWeightsForBatch(batch)
+      }
+    };
+
+  } catch (error) {
+    Logger.log('❌ Error building My Grades: ' + error.message);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+// ==================== GRADEBOOK WEIGHTS ====================
+
+const GRADEBOOK_WEIGHTS_SHEET = 'Gradebook Weights';
+
+/**
+ * Get or create the Gradebook Weights sheet
+ * Format: Batch | Term | Subject | Config JSON | Updated By | Updated At
+ */
+function getOrCreateGradebookWeightsSheet() {
+  const ss = SpreadsheetApp.openById(ASSIGNMENT_CONFIG.SHEET_ID);
+  let sheet = ss.getSheetByName(GRADEBOOK_WEIGHTS_SHEET);
+  if (!sheet) {
+    sheet = ss.insertSheet(GRADEBOOK_WEIGHTS_SHEET);
+    sheet.getRange(1, 1, 1, 6).setValues([['Batch', 'Term', 'Subject', 'Config JSON', 'Updated By', 'Updated At']]);
+    sheet.getRange(1, 1, 1, 6).setFontWeight('bold');
+    sheet.setFrozenRows(1);
+  }
+  return sheet;
+}
+
+/**
+ * Get every saved weighting config for a batch, keyed "term|subject"
+ */
+function getGradebookWeightsForBatch(batch) {
+  const configs = {};
+  const data = getOrCreateGradebookWeightsSheet().getDataRange().getValues();
+  for (let i = 1; i < data.length; i++) {
+    if (data[i][0] !== batch) continue;
+    try {
+      configs[data[i][1] + '|' + data[i][2]] = JSON.parse(data[i][3]);
+    } catch (e) {
+      Logger.log('⚠️ Invalid gradebook config at row ' + (i + 1));
+    }
+  }
+  return configs;
+}
+
+/**
+ * Get the weighting config for a batch/term/subject
+ * @returns {Object} {success, data: config or null when not configured}
+ */
+function getGradebookWeights(batch, term, subject) {
+  try {
+    const configs = getGradebookWeightsForBatch(batch);
+    return {
+      success: true,
+      data: configs[(term || '') + '|' + subject] || null
+    };
+  } catch (error) {
+    Logger.log('❌ Error getting gradebook weights: ' + error.message);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Save (insert or update) the weighting config for a batch/term/subject
+ * @param {Object} config - {categoryWeights, assessmentWeights, gradeScale}
+ */
+function saveGradebookWeights(batch, term, subject, config, updatedBy) {
+  try {
+    Logger.log('💾 Saving gradebook weights - Batch: ' + batch + ', Term: ' + term + ', Subject: ' + subject);
+
+    if (!batch || !subject || !config) {
+      return { success: false, error: 'Batch, subject and config are required' };
+    }
+
+    const sheet = getOrCreateGradebookWeightsSheet();
+    const data = sheet.getDataRange().getValues();
+    const row = [batch, term || '', subject, JSON.stringify(config), updatedBy || '', formatTimestamp()];
+
+    for (let i = 1; i < data.length; i++) {
+      if (data[i][0] === batch && data[i][1] === (term || '') && data[i][2] === subject) {
+        sheet.getRange(i + 1, 1, 1, row.length).setValues([row]);
+        return { success: true, data: config };
+      }
+    }
+
+    sheet.appendRow(row);
+    return { success: true, data: config };
+
+  } catch (error) {
+    Logger.log('❌ Error saving gradebook weights: ' + error.message);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
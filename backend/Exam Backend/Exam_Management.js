@@ -220,7 +220,8 @@ function createExam(examData) {
       showCorrectAnswers: examData.settings?.showCorrectAnswers || false,
       autoSubmitOnTimeUp: examData.settings?.autoSubmitOnTimeUp !== false,
       gracePeriod: examData.settings?.gracePeriod || 10,
-      proctoring: examData.settings?.proctoring || {}
+      proctoring: examData.settings?.proctoring || {},
+      questionDraw: examData.settings?.questionDraw || { enabled: false, rules: [] }
     };
 
     // Calculate total questions
@@ -272,42 +273,9 @@ function createExam(examData) {
       debug.push('Number of questions: ' + examData.questions.length);
       const questionsSheet = ss.getSheetByName('Exam_Questions');
       if (questionsSheet) {
+        const questionHeaders = ensureSheetColumns(questionsSheet, ['Bank Question ID', 'Tags', 'Answer Config JSON']);
         examData.questions.forEach(function(q, index) {
-          const questionId = q.questionId || ('Q_' + Date.now() + '_' + index);
-          questionsSheet.appendRow([
-            questionId,
-            examId,
-            q.questionNumber || (index + 1),
-            q.questionType || 'MCQ',
-            q.questionText || '',
-            q.allowUpdateAfterSubmit !== false,
-            q.allowSeeQuestionAfterSubmit !== false,
-            q.questionImageUrl || '',
-            q.optionA || '',
-            q.optionB || '',
-            q.optionC || '',
-            q.optionD || '',
-            q.optionE || '',
-            q.optionF || '',
-            q.optionG || '',
-            q.optionH || '',
-            q.optionI || '',
-            q.optionJ || '',
-            q.hasMultipleAnswers ? 'Yes' : 'No',
-            q.correctAnswer || '',
-            q.marks || 1,
-            q.negativeMarks || 0,
-            q.difficulty || 'Medium',
-            q.explanation || '',
-            q.enableRoughSpace !== false,
-            q.wordLimit || '',
-            q.enableCalculator ? 'Yes' : 'No',
-            q.enableScientificCalculator ? 'Yes' : 'No',
-            q.enableTable ? 'Yes' : 'No',
-            q.enableSpreadsheet ? 'Yes' : 'No',
-            timestamp,
-            timestamp  // Updated At
-          ]);
+          appendExamQuestionRow(questionsSheet, questionHeaders, examId, q, index, timestamp);
         });
         debug.push('✓ Questions saved successfully');
       } else {
@@ -324,6 +292,55 @@ function createExam(examData) {
   }
 }
 
+/**
+ * Helper: Append one exam question row
+ * Bank link columns are filled by header name since they were added after the original layout
+ */
+function appendExamQuestionRow(questionsSheet, headers, examId, q, index, timestamp) {
+  const questionId = q.questionId || ('Q_' + Date.now() + '_' + index);
+  const row = [
+    questionId,
+    examId,
+    q.questionNumber || (index + 1),
+    q.questionType || 'MCQ',
+    q.questionText || '',
+    q.allowUpdateAfterSubmit !== false,
+    q.allowSeeQuestionAfterSubmit !== false,
+    q.questionImageUrl || '',
+    q.optionA || '',
+    q.optionB || '',
+    q.optionC || '',
+    q.optionD || '',
+    q.optionE || '',
+    q.optionF || '',
+    q.optionG || '',
+    q.optionH || '',
+    q.optionI || '',
+    q.optionJ || '',
+    q.hasMultipleAnswers ? 'Yes' : 'No',
+    q.correctAnswer || '',
+    q.marks || 1,
+    q.negativeMarks || 0,
+    q.difficulty || 'Medium',
+    q.explanation || '',
+    q.enableRoughSpace !== false,
+    q.wordLimit || '',
+    q.enableCalculator ? 'Yes' : 'No',
+    q.enableScientificCalculator ? 'Yes' : 'No',
+    q.enableTable ? 'Yes' : 'No',
+    q.enableSpreadsheet ? 'Yes' : 'No',
+    timestamp,
+    timestamp  // Updated At
+  ];
+
+  while (row.length < headers.length) row.push('');
+  row[headers.indexOf('Bank Question ID')] = q.bankQuestionId || '';
+  row[headers.indexOf('Tags')] = Array.isArray(q.tags) ? q.tags.join(', ') : (q.tags || '');
+  row[headers.indexOf('Answer Config JSON')] = q.answerConfig ? JSON.stringify(q.answerConfig) : '';
+
+  questionsSheet.appendRow(row);
+}
+
 function createExamDriveFolder(examId, examTitle, batch, term, domain, subject) {
   try {
 
@@ -436,8 +453,23 @@ function createExamResponseSheet(examTitle, examFolderUrl) {
   }
 }
 
+/**
+ * Accommodations list other students' emails, names, extra time and notes. Admin views get them
+ * all; anyone else gets at most the entry for their own email.
+ */
+function scopeAccommodations(exam, studentEmail, isAdminView) {
+  if (isAdminView || !exam.settings || !Array.isArray(exam.settings.accommodations)) return exam;
+
+  const email = String(studentEmail || '').trim().toLowerCase();
+  exam.settings.accommodations = email
+    ? exam.settings.accommodations.filter(a => String(a.studentEmail || '').trim().toLowerCase() === email)
+    : [];
+  return exam;
+}
+
 /**
  * Get all exams with filters
+ * Pass filters.view = 'admin' for every student's accommodations, otherwise filters.studentEmail
  */
 function getAllExams(filters) {
   try {
@@ -504,6 +536,10 @@ function getAllExams(filters) {
       }
     }
 
+    exams = exams.map(function(exam) {
+      return scopeAccommodations(exam, filters && filters.studentEmail, filters && filters.view === 'admin');
+    });
+
     return { success: true, data: exams };
   } catch (error) {
     return { success: false, error: error.toString() };
@@ -512,8 +548,11 @@ function getAllExams(filters) {
 
 /**
  * Get exam by ID with questions
+ * @param {string} examId - The exam ID
+ * @param {string} studentEmail - Student the exam is loaded for; only their accommodation is returned
+ * @param {boolean} isAdminView - Return every student's accommodation instead
  */
-function getExamById(examId) {
+function getExamById(examId, studentEmail, isAdminView) {
   try {
     const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
     const masterSheet = ss.getSheetByName('Exams_Master');
@@ -541,6 +580,7 @@ function getExamById(examId) {
         exam[h] = examRow[i];
       }
     });
+    scopeAccommodations(exam, studentEmail, isAdminView);
 
     // Get questions
     const questionsSheet = ss.getSheetByName('Exam_Questions');
@@ -584,7 +624,10 @@ function getExamById(examId) {
               'Enable Calculator': 'enableCalculator',
               'Enable Scientific Calculator': 'enableScientificCalculator',
               'Enable Table': 'enableTable',
-              'Enable Spreadsheet': 'enableSpreadsheet'
+              'Enable Spreadsheet': 'enableSpreadsheet',
+              'Bank Question ID': 'bankQuestionId',
+              'Tags': 'tags',
+              'Answer Config JSON': 'answerConfig'
             };
             const fieldName = fieldMapping[h] || h;
             let value = qData[i][idx];
@@ -596,6 +639,16 @@ function getExamById(examId) {
               value = value === 'Yes';
             }
 
+            // Tags are stored comma-separated
+            if (fieldName === 'tags') {
+              value = value ? value.toString().split(',').map(t => t.trim()).filter(t => t) : [];
+            }
+
+            // Answer key for NUMERIC / FILL_BLANK / MATCHING / ORDERING
+            if (fieldName === 'answerConfig') {
+              value = parseAnswerConfig(value) || undefined;
+            }
+
             // Convert wordLimit to number if present
             if (fieldName === 'wordLimit' && value !== '' && value !== null) {
               value = parseInt(value, 10) || null;
@@ -879,42 +932,9 @@ function updateExam(examId, updates) {
         debug.push('  ✓ Deleted existing questions');
 
         // Add updated questions
+        const questionHeaders = ensureSheetColumns(questionsSheet, ['Bank Question ID', 'Tags', 'Answer Config JSON']);
         updates.questions.forEach(function(q, index) {
-          const questionId = q.questionId || ('Q_' + Date.now() + '_' + index);
-          questionsSheet.appendRow([
-            questionId,
-            examId,
-            q.questionNumber || (index + 1),
-            q.questionType || 'MCQ',
-            q.questionText || '',
-            q.allowUpdateAfterSubmit !== false,
-            q.allowSeeQuestionAfterSubmit !== false,
-            q.questionImageUrl || '',
-            q.optionA || '',
-            q.optionB || '',
-            q.optionC || '',
-            q.optionD || '',
-            q.optionE || '',
-            q.optionF || '',
-            q.optionG || '',
-            q.optionH || '',
-            q.optionI || '',
-            q.optionJ || '',
-            q.hasMultipleAnswers ? 'Yes' : 'No',
-            q.correctAnswer || '',
-            q.marks || 1,
-            q.negativeMarks || 0,
-            q.difficulty || 'Medium',
-            q.explanation || '',
-            q.enableRoughSpace !== false,
-            q.wordLimit || '',
-            q.enableCalculator ? 'Yes' : 'No',
-            q.enableScientificCalculator ? 'Yes' : 'No',
-            q.enableTable ? 'Yes' : 'No',
-            q.enableSpreadsheet ? 'Yes' : 'No',
-            timestamp,
-            timestamp  // Updated At
-          ]);
+          appendExamQuestionRow(questionsSheet, questionHeaders, examId, q, index, timestamp);
         });
         debug.push('  ✓ Added ' + updates.questions.length + ' questions');
 
@@ -1694,6 +1714,7 @@ function getSavedAnswersForAttempt(ss, attemptId) {
   const questionIdIndex = headers.indexOf('Question ID');
   const answerIndex = headers.indexOf('Answer');
   const submittedIndex = headers.indexOf('Submitted');
+  const versionIndex = headers.indexOf('Client Version');
 
   const savedAnswers = [];
   for (let i = 1; i < data.length; i++) {
@@ -1701,7 +1722,8 @@ function getSavedAnswersForAttempt(ss, attemptId) {
       savedAnswers.push({
         questionId: data[i][questionIdIndex],
         answer: data[i][answerIndex] || '',
-        submitted: data[i][submittedIndex] === true || data[i][submittedIndex] === 'TRUE'
+        submitted: data[i][submittedIndex] === true || data[i][submittedIndex] === 'TRUE',
+        version: versionIndex !== -1 ? Number(data[i][versionIndex]) || 0 : 0
       });
     }
   }
@@ -1709,6 +1731,23 @@ function getSavedAnswersForAttempt(ss, attemptId) {
   return savedAnswers;
 }
 
+/**
+ * Get the saved version of every answer in an attempt (used by the offline queue before submitting)
+ * @param {string} attemptId - The attempt ID
+ */
+function getAnswerVersions(attemptId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const versions = {};
+    getSavedAnswersForAttempt(ss, attemptId).forEach(saved => {
+      versions[saved.questionId] = saved.version;
+    });
+    return { success: true, data: versions };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
 /**
  * Start exam attempt (or resume existing one)
  */
@@ -1762,7 +1801,8 @@ function startExamAttempt(examId, studentEmail, studentName) {
           startTime: attemptsData[i][startTimeColIndex],
           proctoringFolderLink: attemptsData[i][proctoringFolderColIndex] || '',
           screenshotsFolderLink: attemptsData[i][screenshotsFolderColIndex] || '',
-          cameraFolderLink: attemptsData[i][cameraFolderColIndex] || ''
+          cameraFolderLink: attemptsData[i][cameraFolderColIndex] || '',
+          assignedQuestionIds: getAssignedQuestionIds(attemptsHeaders, attemptsData[i])
         };
         break;
       }
@@ -1838,6 +1878,7 @@ function startExamAttempt(examId, studentEmail, studentName) {
         screenshotsFolderLink: existingAttempt.screenshotsFolderLink,
         cameraFolderLink: existingAttempt.cameraFolderLink,
         savedAnswers: savedAnswers,
+        assignedQuestionIds: existingAttempt.assignedQuestionIds,
         webcamUploadUris: webcamUploadUris,
         screenUploadUris: screenUploadUris
       };
@@ -1853,6 +1894,7 @@ function startExamAttempt(examId, studentEmail, studentName) {
     let cameraFolderLink = '';
     let webcamUploadUris = [];
     let screenUploadUris = [];
+    let examSettings = {};
 
     if (masterSheet) {
       const data = masterSheet.getDataRange().getValues();
@@ -1863,6 +1905,12 @@ function startExamAttempt(examId, studentEmail, studentName) {
       const examRow = data.findIndex(row => row[examIdIndex] === examId);
 
       if (examRow !== -1) {
+        try {
+          examSettings = JSON.parse(data[examRow][headers.indexOf('Settings JSON')] || '{}');
+        } catch (e) {
+          examSettings = {};
+        }
+
         const driveFolderUrl = data[examRow][driveLinkIndex];
         if (driveFolderUrl) {
           const folderIdMatch = driveFolderUrl.match(/[-\w]{25,}/);
@@ -1937,7 +1985,10 @@ function startExamAttempt(examId, studentEmail, studentName) {
       }
     }
 
-    attemptsSheet.appendRow([
+    // Draw this student's paper when the exam uses random draw rules
+    const assignedQuestionIds = drawQuestionsForAttempt(ss, examId, examSettings, examId + '|' + studentEmail.toLowerCase());
+
+    const attemptRowData = [
       attemptId,
       examId,
       studentEmail,
@@ -1954,12 +2005,19 @@ function startExamAttempt(examId, studentEmail, studentName) {
       screenshotsFolderLink,
       cameraFolderLink,
       timestamp
-    ]);
+    ];
+    if (assignedQuestionIds) {
+      const drawHeaders = ensureSheetColumns(attemptsSheet, ['Assigned Question IDs']);
+      while (attemptRowData.length < drawHeaders.length) attemptRowData.push('');
+      attemptRowData[drawHeaders.indexOf('Assigned Question IDs')] = JSON.stringify(assignedQuestionIds);
+    }
+    attemptsSheet.appendRow(attemptRowData);
 
     return {
       success: true,
       attemptId: attemptId,
       startTime: timestamp,
+      assignedQuestionIds: assignedQuestionIds,
       proctoringFolderLink: proctoringFolderLink,
       screenshotsFolderLink: screenshotsFolderLink,
       cameraFolderLink: cameraFolderLink,
@@ -1979,14 +2037,17 @@ function startExamAttempt(examId, studentEmail, studentName) {
  * @param {string} questionId - The question ID
  * @param {string} answer - The student's answer
  * @param {boolean} submitted - Whether the answer is submitted (final) or just saved as progress
+ * @param {number} clientVersion - Monotonic version from the browser's offline queue (optional)
  */
-function saveAnswer(attemptId, examId, questionId, answer, submitted) {
+function saveAnswer(attemptId, examId, questionId, answer, submitted, clientVersion) {
   try {
     const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
     const answersSheet = getOrCreateSheet(ss, 'Exam_Answers', [
       'Attempt ID', 'Exam ID', 'Question ID', 'Answer', 'Submitted',
       'Is Correct', 'Marks Awarded', 'Timestamp'
     ]);
+    const version = Number(clientVersion) || 0;
+    if (version) ensureSheetColumns(answersSheet, ['Client Version']);
 
     const timestamp = formatTimestampForSheets();
     const isSubmitted = submitted === true;
@@ -1999,6 +2060,7 @@ function saveAnswer(attemptId, examId, questionId, answer, submitted) {
     const answerIndex = headers.indexOf('Answer');
     const submittedIndex = headers.indexOf('Submitted');
     const timestampIndex = headers.indexOf('Timestamp');
+    const versionIndex = headers.indexOf('Client Version');
 
     let rowIndex = -1;
     for (let i = 1; i < data.length; i++) {
@@ -2008,9 +2070,18 @@ function saveAnswer(attemptId, examId, questionId, answer, submitted) {
       }
     }
 
+    // A replayed save older than what the server already holds (e.g. from another device) is ignored
+    const serverVersion = rowIndex > 0 && versionIndex !== -1 ? Number(data[rowIndex - 1][versionIndex]) || 0 : 0;
+    if (version && serverVersion > version) {
+      return { success: true, stale: true, message: 'A newer answer is already saved', version: serverVersion };
+    }
+
     if (rowIndex > 0) {
       // Update existing answer
       answersSheet.getRange(rowIndex, answerIndex + 1).setValue(answer);
+      if (version) {
+        answersSheet.getRange(rowIndex, versionIndex + 1).setValue(version);
+      }
       // Only update submitted to TRUE, never back to FALSE (once submitted, always submitted)
       if (isSubmitted && submittedIndex !== -1) {
         answersSheet.getRange(rowIndex, submittedIndex + 1).setValue(true);
@@ -2028,9 +2099,12 @@ function saveAnswer(attemptId, examId, questionId, answer, submitted) {
         '', // Marks Awarded - to be filled on final exam submission
         timestamp
       ]);
+      if (version) {
+        answersSheet.getRange(answersSheet.getLastRow(), versionIndex + 1).setValue(version);
+      }
     }
 
-    return { success: true, message: 'Answer saved', submitted: isSubmitted };
+    return { success: true, message: 'Answer saved', submitted: isSubmitted, version: version };
   } catch (error) {
     return { success: false, error: error.toString() };
   }
@@ -2392,7 +2466,7 @@ function submitExam(attemptId, examId, studentEmail, answers, violations, timeSp
       return { success: false, message: 'Exam not found' };
     }
 
-    const totalMarks = masterData[examRow][totalMarksIndex] || 0;
+    let totalMarks = masterData[examRow][totalMarksIndex] || 0;
     const settingsJson = masterData[examRow][settingsIndex];
     let settings = {};
     try {
@@ -2411,63 +2485,123 @@ function submitExam(attemptId, examId, studentEmail, answers, violations, timeSp
     const qMarksIndex = questionsHeaders.indexOf('Marks');
     const qNegativeMarksIndex = questionsHeaders.indexOf('Negative Marks');
     const qHasMultipleAnswersIndex = questionsHeaders.indexOf('More than 1 Answer?');
+    const qAnswerConfigIndex = questionsHeaders.indexOf('Answer Config JSON');
+
+    let examQuestions = questionsData.slice(1).filter(row => row[qExamIdIndex] === examId);
+
+    // Drawn papers are scored against the questions this student actually received
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const attemptsHeaders = attemptsData[0];
+    const attemptIdIndex = attemptsHeaders.indexOf('Attempt ID');
+    const attemptRow = attemptsData.findIndex(row => row[attemptIdIndex] === attemptId);
+    const assignedQuestionIds = attemptRow > 0 ? getAssignedQuestionIds(attemptsHeaders, attemptsData[attemptRow]) : null;
+    if (assignedQuestionIds) {
+      examQuestions = examQuestions.filter(row => assignedQuestionIds.indexOf(row[qQuestionIdIndex]) !== -1);
+      totalMarks = examQuestions.reduce((sum, row) => sum + (Number(row[qMarksIndex]) || 0), 0);
+    }
 
-    const examQuestions = questionsData.slice(1).filter(row => row[qExamIdIndex] === examId);
+    // Questions dropped by a regrade no longer count towards the total
+    const qRegradeModeIndex = questionsHeaders.indexOf('Regrade Mode');
+    if (qRegradeModeIndex !== -1) {
+      totalMarks -= examQuestions
+        .filter(row => row[qRegradeModeIndex] === 'DROPPED')
+        .reduce((sum, row) => sum + (Number(row[qMarksIndex]) || 0), 0);
+    }
 
     // Calculate score
     let totalScore = 0;
     const answersSheet = ss.getSheetByName('Exam_Answers');
+    if (answersSheet) ensureSheetColumns(answersSheet, ['Time Spent (seconds)']);
     
-    // Save all answers and calculate score
-    if (answers && Array.isArray(answers)) {
-      answers.forEach(function(ans) {
-        // Find question details
-        const questionRow = examQuestions.find(q => q[qQuestionIdIndex] === ans.questionId);
-        if (!questionRow) return;
-
-        const questionType = questionRow[qQuestionTypeIndex];
-        const correctAnswer = questionRow[qCorrectAnswerIndex];
-        const marks = questionRow[qMarksIndex] || 0;
-        const negativeMarks = questionRow[qNegativeMarksIndex] || 0;
-        const hasMultipleAnswers = questionRow[qHasMultipleAnswersIndex] === 'Yes';
-
-        let isCorrect = false;
-        let marksAwarded = 0;
+    // Score the answers the server holds. The exam page only submits once its offline queue has
+    // delivered every save, so the client's copy contributes per-question time, flags and rough work only.
+    const clientAnswers = {};
+    (Array.isArray(answers) ? answers : []).forEach(ans => {
+      if (ans && ans.questionId) clientAnswers[ans.questionId] = ans;
+    });
+    const savedAnswers = {};
+    getSavedAnswersForAttempt(ss, attemptId).forEach(saved => { savedAnswers[saved.questionId] = saved; });
+    const gradedAnswers = Object.keys(Object.assign({}, clientAnswers, savedAnswers)).map(questionId => {
+      const client = clientAnswers[questionId] || {};
+      const saved = savedAnswers[questionId];
+      return Object.assign({}, client, {
+        questionId: questionId,
+        answer: saved ? String(saved.answer) : '',
+        submitted: saved ? saved.submitted : false
+      });
+    });
 
-        // Only auto-grade MCQ questions
-        if (questionType === 'MCQ' || questionType === 'MCQ_IMAGE') {
-          if (ans.answer) {
-            if (hasMultipleAnswers) {
-              // For multiple correct answers, compare sorted arrays
-              const studentAnswers = ans.answer.split(',').map(a => a.trim().toUpperCase()).sort().join(',');
-              const correctAnswers = correctAnswer.split(',').map(a => a.trim().toUpperCase()).sort().join(',');
-
-              if (studentAnswers === correctAnswers) {
-                isCorrect = true;
-                marksAwarded = marks;
-                totalScore += marks;
-              } else if (settings.enableNegativeMarking) {
-                marksAwarded = -negativeMarks;
-                totalScore -= negativeMarks;
-              }
-            } else {
-              // Single correct answer
-              if (ans.answer.toUpperCase() === correctAnswer.toUpperCase()) {
-                isCorrect = true;
-                marksAwarded = marks;
-                totalScore += marks;
-              } else if (settings.enableNegativeMarking) {
-                marksAwarded = -negativeMarks;
-                totalScore -= negativeMarks;
-              }
+    // Save all answers and calculate score
+    gradedAnswers.forEach(function(ans) {
+      // Find question details
+      const questionRow = examQuestions.find(q => q[qQuestionIdIndex] === ans.questionId);
+      if (!questionRow) return;
+
+      const questionType = questionRow[qQuestionTypeIndex];
+      const correctAnswer = questionRow[qCorrectAnswerIndex];
+      const marks = questionRow[qMarksIndex] || 0;
+      const negativeMarks = questionRow[qNegativeMarksIndex] || 0;
+      const hasMultipleAnswers = questionRow[qHasMultipleAnswersIndex] === 'Yes';
+
+      let isCorrect = false;
+      let marksAwarded = 0;
+
+      // Only auto-grade MCQ questions
+      if (questionType === 'MCQ' || questionType === 'MCQ_IMAGE') {
+        if (ans.answer) {
+          if (hasMultipleAnswers) {
+            // For multiple correct answers, compare sorted arrays
+            const studentAnswers = ans.answer.split(',').map(a => a.trim().toUpperCase()).sort().join(',');
+            const correctAnswers = correctAnswer.split(',').map(a => a.trim().toUpperCase()).sort().join(',');
+
+            if (studentAnswers === correctAnswers) {
+              isCorrect = true;
+              marksAwarded = marks;
+              totalScore += marks;
+            } else if (settings.enableNegativeMarking) {
+              marksAwarded = -negativeMarks;
+              totalScore -= negativeMarks;
+            }
+          } else {
+            // Single correct answer
+            if (ans.answer.toUpperCase() === correctAnswer.toUpperCase()) {
+              isCorrect = true;
+              marksAwarded = marks;
+              totalScore += marks;
+            } else if (settings.enableNegativeMarking) {
+              marksAwarded = -negativeMarks;
+              totalScore -= negativeMarks;
             }
           }
         }
+      } else if (ans.answer) {
+        // Numeric / fill-in-the-blank / matching / ordering - may earn partial credit
+        const config = qAnswerConfigIndex !== -1 ? parseAnswerConfig(questionRow[qAnswerConfigIndex]) : null;
+        const fraction = gradeStructuredAnswer(questionType, config, ans.answer);
+        if (fraction !== null) {
+          isCorrect = fraction === 1;
+          if (fraction > 0) {
+            marksAwarded = Math.round(marks * fraction * 100) / 100;
+            totalScore += marksAwarded;
+          } else if (settings.enableNegativeMarking) {
+            marksAwarded = -negativeMarks;
+            totalScore -= negativeMarks;
+          }
+        }
+      }
 
-        // Save or update answer with grading (including submitted status)
-        saveAnswerWithGrading(ss, attemptId, examId, ans.questionId, ans.answer, ans.submitted, isCorrect, marksAwarded);
-      });
-    }
+      // Regraded questions score the same for late submissions as for everyone else
+      const regradeMode = qRegradeModeIndex !== -1 ? questionRow[qRegradeModeIndex] : '';
+      if (regradeMode) {
+        totalScore -= marksAwarded;
+        isCorrect = regradeMode === 'FULL_MARKS';
+        marksAwarded = isCorrect ? marks : 0;
+        totalScore += marksAwarded;
+      }
+
+      // Save or update answer with grading (including submitted status)
+      saveAnswerWithGrading(ss, attemptId, examId, ans.questionId, ans.answer, ans.submitted, isCorrect, marksAwarded, ans.timeSpent);
+    });
 
     // Save violations
     if (violations && Array.isArray(violations)) {
@@ -2487,9 +2621,6 @@ function submitExam(attemptId, examId, studentEmail, answers, violations, timeSp
     }
 
     // Update attempt record
-    const attemptsData = attemptsSheet.getDataRange().getValues();
-    const attemptsHeaders = attemptsData[0];
-    const attemptIdIndex = attemptsHeaders.indexOf('Attempt ID');
     const endTimeIndex = attemptsHeaders.indexOf('End Time');
     const statusIndex = attemptsHeaders.indexOf('Status');
     const timeSpentIndex = attemptsHeaders.indexOf('Time Spent (seconds)');
@@ -2497,7 +2628,6 @@ function submitExam(attemptId, examId, studentEmail, answers, violations, timeSp
     const totalMarksColIndex = attemptsHeaders.indexOf('Total Marks');
     const percentageIndex = attemptsHeaders.indexOf('Percentage');
 
-    const attemptRow = attemptsData.findIndex(row => row[attemptIdIndex] === attemptId);
     if (attemptRow > 0) {
       const percentage = totalMarks > 0 ? (totalScore / totalMarks) * 100 : 0;
       const attemptStatus = isDisqualified ? 'DISQUALIFIED' : 'COMPLETED';
@@ -2508,6 +2638,12 @@ function submitExam(attemptId, examId, studentEmail, answers, violations, timeSp
       attemptsSheet.getRange(attemptRow + 1, scoreIndex + 1).setValue(totalScore);
       attemptsSheet.getRange(attemptRow + 1, totalMarksColIndex + 1).setValue(totalMarks);
       attemptsSheet.getRange(attemptRow + 1, percentageIndex + 1).setValue(Math.round(percentage * 100) / 100);
+
+      // Flag attempts with descriptive answers for manual grading
+      const needsManualGrading = examQuestions.some(q => MANUAL_GRADED_TYPES.indexOf(q[qQuestionTypeIndex]) !== -1);
+      const gradingHeaders = ensureSheetColumns(attemptsSheet, ['Grading Status']);
+      attemptsSheet.getRange(attemptRow + 1, gradingHeaders.indexOf('Grading Status') + 1)
+        .setValue(needsManualGrading ? 'PENDING' : 'GRADED');
     }
 
     // Update exam statistics
@@ -2554,7 +2690,7 @@ function submitExam(attemptId, examId, studentEmail, answers, violations, timeSp
           attemptId,
           studentId,
           studentName,
-          answers,
+          gradedAnswers,
           examQuestions,
           questionsHeaders,
           isDisqualified,
@@ -2615,6 +2751,7 @@ function writeResponsesToSheet(responseSheetUrl, attemptId, studentId, studentNa
     const qQuestionTextIndex = questionsHeaders.indexOf('Question Text');
     const qCorrectAnswerIndex = questionsHeaders.indexOf('Correct Answer');
     const qMarksIndex = questionsHeaders.indexOf('Marks');
+    const qAnswerConfigIndex = questionsHeaders.indexOf('Answer Config JSON');
 
     // Response Sheet headers:
     // 'Response ID', 'Student ID', 'Student Name', 'Question ID', 'Question Number',
@@ -2644,6 +2781,13 @@ function writeResponsesToSheet(responseSheetUrl, attemptId, studentId, studentNa
             isCorrect = true;
             marksAwarded = marks;
           }
+        } else if (ans.answer) {
+          const config = qAnswerConfigIndex !== -1 ? parseAnswerConfig(questionRow[qAnswerConfigIndex]) : null;
+          const fraction = gradeStructuredAnswer(questionType, config, ans.answer);
+          if (fraction !== null) {
+            isCorrect = fraction === 1;
+            marksAwarded = Math.round(marks * fraction * 100) / 100;
+          }
         }
 
         const responseId = attemptId + '_' + ans.questionId;
@@ -2769,7 +2913,7 @@ function writeResponsesToSheet(responseSheetUrl, attemptId, studentId, studentNa
  * @param {boolean} isCorrect - Whether the answer is correct (for MCQ)
  * @param {number} marksAwarded - Marks awarded for this answer
  */
-function saveAnswerWithGrading(ss, attemptId, examId, questionId, answer, submitted, isCorrect, marksAwarded) {
+function saveAnswerWithGrading(ss, attemptId, examId, questionId, answer, submitted, isCorrect, marksAwarded, timeSpent) {
   const answersSheet = ss.getSheetByName('Exam_Answers');
   if (!answersSheet) return;
 
@@ -2782,6 +2926,8 @@ function saveAnswerWithGrading(ss, attemptId, examId, questionId, answer, submit
   const isCorrectIndex = headers.indexOf('Is Correct');
   const marksAwardedIndex = headers.indexOf('Marks Awarded');
   const timestampIndex = headers.indexOf('Timestamp');
+  const timeSpentIndex = headers.indexOf('Time Spent (seconds)');
+  const hasTimeSpent = timeSpentIndex !== -1 && timeSpent !== undefined && timeSpent !== null;
 
   let rowIndex = -1;
   for (let i = 1; i < data.length; i++) {
@@ -2806,9 +2952,12 @@ function saveAnswerWithGrading(ss, attemptId, examId, questionId, answer, submit
     answersSheet.getRange(rowIndex, isCorrectIndex + 1).setValue(isCorrect ? 'YES' : 'NO');
     answersSheet.getRange(rowIndex, marksAwardedIndex + 1).setValue(marksAwarded);
     answersSheet.getRange(rowIndex, timestampIndex + 1).setValue(timestamp);
+    if (hasTimeSpent) {
+      answersSheet.getRange(rowIndex, timeSpentIndex + 1).setValue(Number(timeSpent) || 0);
+    }
   } else {
     // Add new - column order: Attempt ID, Exam ID, Question ID, Answer, Submitted, Is Correct, Marks Awarded, Timestamp
-    answersSheet.appendRow([
+    const row = [
       attemptId,
       examId,
       questionId,
@@ -2817,7 +2966,12 @@ function saveAnswerWithGrading(ss, attemptId, examId, questionId, answer, submit
       isCorrect ? 'YES' : 'NO',
       marksAwarded,
       timestamp
-    ]);
+    ];
+    if (hasTimeSpent) {
+      while (row.length < headers.length) row.push('');
+      row[timeSpentIndex] = Number(timeSpent) || 0;
+    }
+    answersSheet.appendRow(row);
   }
 }
 
@@ -2878,7 +3032,10 @@ function getExamResult(attemptId, studentEmail) {
       score: attemptsData[attemptRow][attemptsHeaders.indexOf('Score')],
       totalMarks: attemptsData[attemptRow][attemptsHeaders.indexOf('Total Marks')],
       percentage: attemptsData[attemptRow][attemptsHeaders.indexOf('Percentage')],
-      violationsCount: attemptsData[attemptRow][attemptsHeaders.indexOf('Violations Count')]
+      violationsCount: attemptsData[attemptRow][attemptsHeaders.indexOf('Violations Count')],
+      gradingStatus: attemptsHeaders.indexOf('Grading Status') !== -1
+        ? attemptsData[attemptRow][attemptsHeaders.indexOf('Grading Status')] || ''
+        : ''
     };
 
     // Get Response Sheet Link from Exams_Master
@@ -2910,6 +3067,8 @@ function getExamResult(attemptId, studentEmail) {
       const qQuestionTypeIndex = questionsHeaders.indexOf('Question Type');
       const qCorrectAnswerIndex = questionsHeaders.indexOf('Correct Answer');
       const qMarksIndex = questionsHeaders.indexOf('Marks');
+      const qBankIdIndex = questionsHeaders.indexOf('Bank Question ID');
+      const qAnswerConfigIndex = questionsHeaders.indexOf('Answer Config JSON');
 
       questionsData.slice(1)
         .filter(row => row[qExamIdIndex] === examId)
@@ -2919,7 +3078,9 @@ function getExamResult(attemptId, studentEmail) {
             questionText: row[qQuestionTextIndex],
             questionType: row[qQuestionTypeIndex],
             correctAnswer: row[qCorrectAnswerIndex],
-            marks: row[qMarksIndex]
+            marks: row[qMarksIndex],
+            bankQuestionId: qBankIdIndex !== -1 ? row[qBankIdIndex] || '' : '',
+            answerConfig: qAnswerConfigIndex !== -1 ? parseAnswerConfig(row[qAnswerConfigIndex]) : null
           };
         });
     }
@@ -2964,6 +3125,8 @@ function getExamResult(attemptId, studentEmail) {
               isCorrect: row[rIsCorrectIndex] === 'Yes' || row[rIsCorrectIndex] === true,
               marks: questionInfo.marks || 0,
               marksAwarded: row[rMarksAwardedIndex] || 0,
+              bankQuestionId: questionInfo.bankQuestionId || '',
+              answerConfig: questionInfo.answerConfig || undefined,
               flagged: false
             };
           });
@@ -2973,6 +3136,43 @@ function getExamResult(attemptId, studentEmail) {
     } else {
     }
 
+    // Apply faculty grades for manually graded questions
+    const manualGrades = getManualGradesForAttempt(ss, attemptId);
+    result.answers.forEach(answer => {
+      const grade = manualGrades[answer.questionId];
+      if (grade) {
+        answer.marksAwarded = grade.marksAwarded;
+        answer.isCorrect = answer.marks > 0 && grade.marksAwarded >= answer.marks;
+        answer.graderComment = grade.comment;
+      }
+    });
+
+    // Apply answer-key corrections made after submission (latest regrade per question wins)
+    const regrades = readRegradeLog(ss, examId, attemptId);
+    const latestRegrades = {};
+    regrades.forEach(entry => { latestRegrades[entry.questionId] = entry; });
+    result.answers.forEach(answer => {
+      const entry = latestRegrades[answer.questionId];
+      if (!entry) return;
+      answer.regraded = true;
+      answer.dropped = entry.mode === 'DROP';
+      answer.marksAwarded = entry.newMarks;
+      answer.isCorrect = !answer.dropped && answer.marks > 0 && entry.newMarks >= answer.marks;
+      if (entry.mode === 'CHANGE_KEY') answer.correctAnswer = entry.newKey;
+    });
+    result.regrades = Object.keys(latestRegrades).map(questionId => {
+      const entry = latestRegrades[questionId];
+      return {
+        questionId: questionId,
+        questionNumber: entry.questionNumber,
+        mode: entry.mode,
+        reason: entry.reason,
+        oldMarks: entry.oldMarks,
+        newMarks: entry.newMarks,
+        regradedAt: entry.regradedAt
+      };
+    });
+
     // Get violations
     if (proctoringSheet) {
       const proctoringData = proctoringSheet.getDataRange().getValues();
@@ -3391,9 +3591,48 @@ function generateSessionToken() {
   return token + '_' + Date.now();
 }
 
+/**
+ * Helper: A student's exam window with their accommodation (Settings JSON) applied
+ * An accommodation's own window replaces the exam's; extra time moves the close back by the extra minutes,
+ * so a student who starts on time can use all of it. closesAt is null when the exam has no end.
+ */
+function getStudentExamWindow(ss, examId, studentEmail) {
+  const masterSheet = ss.getSheetByName('Exams_Master');
+  const data = masterSheet ? masterSheet.getDataRange().getValues() : [[]];
+  const headers = data[0];
+  const row = data.find((r, i) => i > 0 && r[headers.indexOf('Exam ID')] === examId);
+  if (!row) return { start: null, end: null, closesAt: null };
+
+  let settings = {};
+  try {
+    settings = JSON.parse(row[headers.indexOf('Settings JSON')]) || {};
+  } catch (e) {
+    settings = {};
+  }
+  const email = String(studentEmail || '').trim().toLowerCase();
+  const accommodation = (settings.accommodations || [])
+    .find(a => String(a.studentEmail || '').trim().toLowerCase() === email) || null;
+
+  const toDate = value => {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  };
+  const start = toDate(accommodation && accommodation.startDateTime) || toDate(row[headers.indexOf('Start DateTime')]);
+  const end = toDate(accommodation && accommodation.endDateTime) || toDate(row[headers.indexOf('End DateTime')]);
+
+  // Same rounding as getEffectiveDuration on the client
+  const duration = Number(row[headers.indexOf('Duration (minutes)')]) || 60;
+  const multiplier = accommodation ? Math.max(1, Number(accommodation.durationMultiplier) || 1) : 1;
+  const extraMinutes = Math.round(duration * multiplier) - duration;
+
+  return { start: start, end: end, closesAt: end ? new Date(end.getTime() + extraMinutes * 60 * 1000) : null };
+}
+
 /**
  * Create exam session after password verification
  * Implements single sign-in by device hash matching
+ * The student's window (accommodations included) is checked here and sets the session expiry
  */
 function createExamSession(examId, password, studentEmail, studentName, deviceInfo) {
   try {
@@ -3405,6 +3644,14 @@ function createExamSession(examId, password, studentEmail, studentName, deviceIn
       return passwordResult;
     }
 
+    const examWindow = getStudentExamWindow(ss, examId, studentEmail);
+    const now = Date.now();
+    if (examWindow.start && now < examWindow.start.getTime()) {
+      return { success: false, message: 'This exam has not started yet' };
+    }
+    // 4 hours when the exam has no end
+    const expiresAt = (examWindow.closesAt || new Date(now + 4 * 60 * 60 * 1000)).toISOString();
+
     const verifySheet = ss.getSheetByName('Exam_Verify');
     if (!verifySheet) {
       return { success: false, message: 'Exam_Verify sheet not found. Please run initializeExamSheets.' };
@@ -3451,27 +3698,15 @@ function createExamSession(examId, password, studentEmail, studentName, deviceIn
         // Same device - allow login, update session
         const existingToken = data[existingRowIndex][colSessionToken];
 
-        // Update last activity
-        verifySheet.getRange(existingRowIndex + 1, colLastActivity + 1).setValue(timestamp);
-
-        // Get exam end time for session expiry
-        const examSheet = ss.getSheetByName('Exams_Master');
-        const examData = examSheet.getDataRange().getValues();
-        const examHeaders = examData[0];
-        const examIdCol = examHeaders.indexOf('Exam ID');
-        const endDateCol = examHeaders.indexOf('End DateTime');
-
-        let expiresAt = new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(); // 4 hours default
-        for (let i = 1; i < examData.length; i++) {
-          if (examData[i][examIdCol] === examId) {
-            const endDate = examData[i][endDateCol];
-            if (endDate) {
-              expiresAt = new Date(endDate).toISOString();
-            }
-            break;
-          }
+        // A running attempt may continue into the student's extra time
+        if (examWindow.closesAt && now > examWindow.closesAt.getTime()) {
+          return { success: false, message: 'This exam has ended' };
         }
 
+        // Update last activity, and the expiry in case the accommodation changed since the session began
+        verifySheet.getRange(existingRowIndex + 1, colLastActivity + 1).setValue(timestamp);
+        verifySheet.getRange(existingRowIndex + 1, headers.indexOf('Session Expiry') + 1).setValue(expiresAt);
+
         return {
           success: true,
           sessionToken: existingToken,
@@ -3495,26 +3730,11 @@ function createExamSession(examId, password, studentEmail, studentName, deviceIn
       }
     }
 
-    // No existing active session - create new one
-    const sessionToken = generateSessionToken();
-
-    // Get exam end time for session expiry
-    const examSheet = ss.getSheetByName('Exams_Master');
-    const examData = examSheet.getDataRange().getValues();
-    const examHeaders = examData[0];
-    const examIdCol = examHeaders.indexOf('Exam ID');
-    const endDateCol = examHeaders.indexOf('End DateTime');
-
-    let expiresAt = new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(); // 4 hours default
-    for (let i = 1; i < examData.length; i++) {
-      if (examData[i][examIdCol] === examId) {
-        const endDate = examData[i][endDateCol];
-        if (endDate) {
-          expiresAt = new Date(endDate).toISOString();
-        }
-        break;
-      }
+    // No existing active session - a new one can only start inside the window
+    if (examWindow.end && now > examWindow.end.getTime()) {
+      return { success: false, message: 'This exam has ended' };
     }
+    const sessionToken = generateSessionToken();
 
     // Create new session row
     const newRow = [
@@ -3595,7 +3815,9 @@ function validateExamSession(examId, sessionToken, deviceHash, studentEmail) {
         // Found the session
         const isActive = data[i][colSessionActive] === 'Yes';
         const storedDeviceHash = data[i][colDeviceHash];
-        const expiryTime = new Date(data[i][colSessionExpiry]).getTime();
+        // The current window wins over the stored expiry, so accommodations changed mid-exam apply at once
+        const closesAt = getStudentExamWindow(ss, examId, studentEmail).closesAt;
+        const expiryTime = closesAt ? closesAt.getTime() : new Date(data[i][colSessionExpiry]).getTime();
         const now = Date.now();
 
         if (!isActive) {
@@ -3626,6 +3848,7 @@ function validateExamSession(examId, sessionToken, deviceHash, studentEmail) {
 
 /**
  * Update session activity timestamp
+ * The response carries invigilator commands for the running attempt (extra minutes, force submit)
  */
 function updateSessionActivity(examId, sessionToken, studentEmail) {
   try {
@@ -3650,7 +3873,7 @@ function updateSessionActivity(examId, sessionToken, studentEmail) {
           data[i][colSessionToken] === sessionToken) {
 
         verifySheet.getRange(i + 1, colLastActivity + 1).setValue(formatTimestampForSheets());
-        return { success: true };
+        return Object.assign({ success: true }, getInvigilatorCommands(ss, examId, studentEmail));
       }
     }
 
@@ -3738,104 +3961,2028 @@ function endExamSessionByStudent(examId, studentEmail) {
 }
 
 // ================================================================================================
-// WEB APP API ENDPOINTS
+// LIVE INVIGILATION - Who is writing a running exam, and invigilator actions on their attempts
 // ================================================================================================
 
+// Heartbeats arrive every minute; a writing student silent for longer than this is shown as idle
+const LIVE_IDLE_THRESHOLD_MS = 3 * 60 * 1000;
+
+const LIVE_CONTROL_COLUMNS = ['Extra Minutes', 'Force Submit Requested', 'Force Submit By'];
+
 /**
- * Handle GET requests
+ * Helper: Find a student's IN_PROGRESS attempt for an exam (row index in data, or -1)
  */
-function doGet(e) {
-  try {
-    const action = e.parameter.action;
+function findInProgressAttemptRow(attemptsData, examId, studentEmail) {
+  const headers = attemptsData[0];
+  return attemptsData.findIndex((row, index) =>
+    index > 0 &&
+    row[headers.indexOf('Exam ID')] === examId &&
+    row[headers.indexOf('Student Email')] === studentEmail &&
+    row[headers.indexOf('Status')] === 'IN_PROGRESS'
+  );
+}
 
-    switch (action) {
-      case 'getTermStructureExam':
-        return createJsonResponse(getTermStructureExam());
+/**
+ * Helper: Invigilator commands for an in-progress attempt, returned with every heartbeat
+ */
+function getInvigilatorCommands(ss, examId, studentEmail) {
+  const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+  if (!attemptsSheet) return { extraMinutes: 0, forceSubmit: false };
+
+  const attemptsData = attemptsSheet.getDataRange().getValues();
+  const headers = attemptsData[0];
+  const attemptRow = findInProgressAttemptRow(attemptsData, examId, studentEmail);
+  if (attemptRow < 1) return { extraMinutes: 0, forceSubmit: false };
+
+  const extraIndex = headers.indexOf('Extra Minutes');
+  const forceIndex = headers.indexOf('Force Submit Requested');
+  return {
+    extraMinutes: extraIndex === -1 ? 0 : Number(attemptsData[attemptRow][extraIndex]) || 0,
+    forceSubmit: forceIndex !== -1 && attemptsData[attemptRow][forceIndex] === 'Yes'
+  };
+}
 
-      case 'getExamTypes':
-        return createJsonResponse(getExamTypes());
+/**
+ * Get the live state of every student of an exam: roster from Exam_Passwords plus anyone
+ * who has a session or an attempt, with session status, last heartbeat, answered count,
+ * violations and device
+ * @param {string} examId - The exam ID
+ */
+function getLiveInvigilation(examId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const students = {};
+    const studentFor = (email, name) => {
+      const key = String(email || '').toLowerCase();
+      if (!students[key]) {
+        students[key] = {
+          studentEmail: email,
+          studentName: name || '',
+          status: 'NOT_STARTED',
+          attemptId: '',
+          startTime: '',
+          lastHeartbeat: '',
+          lastHeartbeatTime: null,
+          sessionActive: false,
+          sessionLocked: false,
+          lockReason: '',
+          answeredCount: 0,
+          violationsCount: 0,
+          extraMinutes: 0,
+          forceSubmitRequested: false,
+          device: null
+        };
+      }
+      if (name && !students[key].studentName) students[key].studentName = name;
+      return students[key];
+    };
 
-      case 'getAllExams':
-        return createJsonResponse(getAllExams(e.parameter));
+    // Roster
+    const passwordsSheet = ss.getSheetByName('Exam_Passwords');
+    if (passwordsSheet && passwordsSheet.getLastRow() > 1) {
+      const data = passwordsSheet.getDataRange().getValues();
+      const headers = data[0];
+      data.slice(1)
+        .filter(row => row[headers.indexOf('Exam ID')] === examId && row[headers.indexOf('Student Email')])
+        .forEach(row => studentFor(row[headers.indexOf('Student Email')], row[headers.indexOf('Student Name')]));
+    }
 
-      case 'getExamById':
-        return createJsonResponse(getExamById(e.parameter.examId));
+    // Sessions (latest row per student wins)
+    const verifySheet = ss.getSheetByName('Exam_Verify');
+    if (verifySheet && verifySheet.getLastRow() > 1) {
+      const data = verifySheet.getDataRange().getValues();
+      const headers = data[0];
+      const value = (row, header) => row[headers.indexOf(header)];
+      data.slice(1)
+        .filter(row => value(row, 'Exam ID') === examId)
+        .forEach(row => {
+          const student = studentFor(value(row, 'Student Email'), value(row, 'Student Name'));
+          const active = value(row, 'Session Active') === 'Yes';
+          if (!active && student.sessionActive) return;
+          student.sessionActive = active;
+          student.sessionLocked = active && value(row, 'Login Blocked') === 'Yes';
+          student.lockReason = student.sessionLocked ? value(row, 'Blocked Reason') || '' : '';
+          student.lastHeartbeat = value(row, 'Last Activity') || '';
+          student.lastHeartbeatTime = toEvidenceTime(value(row, 'Last Activity'));
+          student.device = {
+            deviceType: value(row, 'Device Type') || '',
+            os: value(row, 'OS') || '',
+            browser: value(row, 'Browser') || '',
+            browserVersion: value(row, 'Browser Version') || '',
+            ipAddress: value(row, 'IP Address') || '',
+            city: value(row, 'City') || '',
+            country: value(row, 'Country') || ''
+          };
+        });
+    }
 
-      case 'validateExamSession':
-        return createJsonResponse(validateExamSession(
-          e.parameter.examId,
-          e.parameter.sessionToken,
-          e.parameter.deviceHash,
-          e.parameter.studentEmail
-        ));
+    // Attempts
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    const attemptIds = {};
+    if (attemptsSheet && attemptsSheet.getLastRow() > 1) {
+      const data = attemptsSheet.getDataRange().getValues();
+      const headers = data[0];
+      const value = (row, header) => (headers.indexOf(header) === -1 ? '' : row[headers.indexOf(header)]);
+      data.slice(1)
+        .filter(row => value(row, 'Exam ID') === examId)
+        .forEach(row => {
+          const student = studentFor(value(row, 'Student Email'), value(row, 'Student Name'));
+          student.attemptId = value(row, 'Attempt ID');
+          student.startTime = value(row, 'Start Time');
+          student.violationsCount = Number(value(row, 'Violations Count')) || 0;
+          student.extraMinutes = Number(value(row, 'Extra Minutes')) || 0;
+          student.forceSubmitRequested = value(row, 'Force Submit Requested') === 'Yes';
+
+          const status = value(row, 'Status');
+          if (status === 'COMPLETED') {
+            student.status = 'SUBMITTED';
+          } else if (status === 'DISQUALIFIED') {
+            student.status = 'DISQUALIFIED';
+          } else {
+            const idle = !student.lastHeartbeatTime || Date.now() - student.lastHeartbeatTime > LIVE_IDLE_THRESHOLD_MS;
+            student.status = idle ? 'IDLE' : 'IN_PROGRESS';
+          }
+          attemptIds[student.attemptId] = student;
+        });
+    }
 
-      default:
-        return createJsonResponse({ success: false, error: 'Unknown action: ' + action });
+    // Answered questions
+    const answersSheet = ss.getSheetByName('Exam_Answers');
+    if (answersSheet && answersSheet.getLastRow() > 1) {
+      const data = answersSheet.getDataRange().getValues();
+      const headers = data[0];
+      const attemptIdIndex = headers.indexOf('Attempt ID');
+      const answerIndex = headers.indexOf('Answer');
+      data.slice(1).forEach(row => {
+        const student = attemptIds[row[attemptIdIndex]];
+        if (student && String(row[answerIndex] || '').trim() !== '') student.answeredCount++;
+      });
     }
+
+    return {
+      success: true,
+      data: {
+        generatedAt: new Date().toISOString(),
+        idleThresholdMs: LIVE_IDLE_THRESHOLD_MS,
+        students: Object.keys(students).map(key => students[key])
+      }
+    };
   } catch (error) {
-    return createJsonResponse({ success: false, error: error.toString() });
+    return { success: false, error: error.toString() };
   }
 }
 
 /**
- * Handle POST requests
+ * Give a student extra minutes on a running attempt. The exam page picks it up on its next heartbeat.
+ * @param {string} attemptId - The attempt ID
+ * @param {number} minutes - Minutes to add (negative values take time back, never below zero in total)
+ * @param {string} adminEmail - Invigilator granting the time
  */
-function doPost(e) {
+function extendAttemptTime(attemptId, minutes, adminEmail) {
   try {
-    const body = JSON.parse(e.postData.contents);
-    const action = body.action;
-
-    switch (action) {
-      case 'createExam':
-        return createJsonResponse(createExam(body.examData));
-
-      case 'updateExam':
-        return createJsonResponse(updateExam(body.examId, body.updates));
+    const delta = Number(minutes) || 0;
+    if (delta === 0) {
+      return { success: false, message: 'Enter the number of minutes to add' };
+    }
 
-      case 'deleteExam':
-        return createJsonResponse(deleteExam(body.examId));
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    if (!attemptsSheet) {
+      return { success: false, message: 'Attempts sheet not found' };
+    }
 
-      case 'addQuestion':
-        return createJsonResponse(addQuestion(body.examId, body.questionData));
+    const headers = ensureSheetColumns(attemptsSheet, LIVE_CONTROL_COLUMNS);
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const attemptRow = attemptsData.findIndex(row => row[headers.indexOf('Attempt ID')] === attemptId);
+    if (attemptRow < 1) {
+      return { success: false, message: 'Attempt not found' };
+    }
+    if (attemptsData[attemptRow][headers.indexOf('Status')] !== 'IN_PROGRESS') {
+      return { success: false, message: 'Only attempts in progress can be given extra time' };
+    }
 
-      case 'updateExamQuestion':
-        return createJsonResponse(updateExamQuestion(body.examId, body.questionId, body.updates));
+    const extraMinutes = Math.max(0, (Number(attemptsData[attemptRow][headers.indexOf('Extra Minutes')]) || 0) + delta);
+    attemptsSheet.getRange(attemptRow + 1, headers.indexOf('Extra Minutes') + 1).setValue(extraMinutes);
+    Logger.log('Extra time on ' + attemptId + ': ' + delta + ' min by ' + adminEmail);
 
-      case 'deleteExamQuestion':
-        return createJsonResponse(deleteExamQuestion(body.examId, body.questionId));
+    return { success: true, data: { extraMinutes: extraMinutes } };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
 
-      case 'reorderQuestions':
-        return createJsonResponse(reorderQuestions(body.examId, body.questionOrder));
+/**
+ * Force-submit a running attempt. A student whose exam page is still sending heartbeats submits
+ * on the next one (so unsaved answers on the device are included); an idle attempt is submitted
+ * here from the answers already saved on the server.
+ * @param {string} attemptId - The attempt ID
+ * @param {string} adminEmail - Invigilator forcing the submission
+ */
+function forceSubmitAttempt(attemptId, adminEmail) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    if (!attemptsSheet) {
+      return { success: false, message: 'Attempts sheet not found' };
+    }
 
-      case 'verifyExamPassword':
-        return createJsonResponse(verifyExamPassword(body.examId, body.password, body.studentEmail));
+    const headers = ensureSheetColumns(attemptsSheet, LIVE_CONTROL_COLUMNS);
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const attemptRow = attemptsData.findIndex(row => row[headers.indexOf('Attempt ID')] === attemptId);
+    if (attemptRow < 1) {
+      return { success: false, message: 'Attempt not found' };
+    }
 
-      case 'startExamAttempt':
-        return createJsonResponse(startExamAttempt(body.examId, body.studentEmail, body.studentName));
+    const row = attemptsData[attemptRow];
+    if (row[headers.indexOf('Status')] !== 'IN_PROGRESS') {
+      return { success: false, message: 'This attempt has already been submitted' };
+    }
 
-      case 'saveAnswer':
-        return createJsonResponse(saveAnswer(body.attemptId, body.examId, body.questionId, body.answer, body.submitted));
+    attemptsSheet.getRange(attemptRow + 1, headers.indexOf('Force Submit Requested') + 1).setValue('Yes');
+    attemptsSheet.getRange(attemptRow + 1, headers.indexOf('Force Submit By') + 1).setValue(adminEmail || '');
 
-      case 'submitExam':
-        return createJsonResponse(submitExam(body.attemptId, body.examId, body.studentEmail, body.answers, body.violations, body.timeSpent));
+    const examId = row[headers.indexOf('Exam ID')];
+    const studentEmail = row[headers.indexOf('Student Email')];
 
-      case 'getExamResult':
-        return createJsonResponse(getExamResult(body.attemptId, body.studentEmail));
+    // Is the exam page still alive?
+    let lastHeartbeatTime = null;
+    const verifySheet = ss.getSheetByName('Exam_Verify');
+    if (verifySheet && verifySheet.getLastRow() > 1) {
+      const data = verifySheet.getDataRange().getValues();
+      const vHeaders = data[0];
+      data.slice(1)
+        .filter(r => r[vHeaders.indexOf('Exam ID')] === examId &&
+          r[vHeaders.indexOf('Student Email')] === studentEmail &&
+          r[vHeaders.indexOf('Session Active')] === 'Yes')
+        .forEach(r => {
+          lastHeartbeatTime = toEvidenceTime(r[vHeaders.indexOf('Last Activity')]);
+        });
+    }
 
-      case 'logViolation':
-        return createJsonResponse(logViolation(body.attemptId, body.examId, body.studentEmail, body.violationType, body.details, body.severity));
+    if (lastHeartbeatTime && Date.now() - lastHeartbeatTime <= LIVE_IDLE_THRESHOLD_MS) {
+      return { success: true, data: { submitted: false, pendingOnDevice: true } };
+    }
 
-      case 'uploadScreenshot':
-        // DEPRECATED: Use direct browser uploads with batch URIs instead
-        // Kept for backward compatibility
-        return createJsonResponse(uploadScreenshot(body.attemptId, body.examId, body.studentEmail, body.screenshot, body.type, body.source));
+    // Idle or offline: submit what the server already has. Violations were logged live, so none are passed again.
+    const savedAnswers = getSavedAnswersForAttempt(ss, attemptId);
+    const startTime = toEvidenceTime(row[headers.indexOf('Start Time')]);
+    const timeSpent = startTime ? Math.round((Date.now() - startTime) / 1000) : 0;
+    const result = submitExam(attemptId, examId, studentEmail, savedAnswers, [], timeSpent);
+    if (!result.success) {
+      return result;
+    }
 
-      case 'requestMoreUris':
-        // Request additional upload URIs when batch runs out during long exams
-        return createJsonResponse(requestMoreUris(body.examId, body.studentEmail, body.type, body.count));
+    return { success: true, data: { submitted: true, pendingOnDevice: false, score: result.score, totalMarks: result.totalMarks } };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
 
-      case 'createExamSession':
-        return createJsonResponse(createExamSession(
+/**
+ * Unlock a student locked out by single-session login: the active session is ended so the
+ * student can verify again on another device. The attempt and its saved answers are kept.
+ * @param {string} examId - The exam ID
+ * @param {string} studentEmail - The locked-out student
+ * @param {string} adminEmail - Invigilator unlocking the session
+ */
+function unlockExamSession(examId, studentEmail, adminEmail) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const verifySheet = ss.getSheetByName('Exam_Verify');
+    if (!verifySheet) {
+      return { success: false, message: 'Exam_Verify sheet not found' };
+    }
+
+    const data = verifySheet.getDataRange().getValues();
+    const headers = data[0];
+    const colExamId = headers.indexOf('Exam ID');
+    const colEmail = headers.indexOf('Student Email');
+    const colSessionActive = headers.indexOf('Session Active');
+    const colLoginBlocked = headers.indexOf('Login Blocked');
+    const colPrevInvalidated = headers.indexOf('Previous Session Invalidated');
+
+    let unlocked = 0;
+    for (let i = 1; i < data.length; i++) {
+      if (data[i][colExamId] === examId &&
+          data[i][colEmail] === studentEmail &&
+          data[i][colSessionActive] === 'Yes') {
+        verifySheet.getRange(i + 1, colSessionActive + 1).setValue('No');
+        verifySheet.getRange(i + 1, colLoginBlocked + 1).setValue('No');
+        verifySheet.getRange(i + 1, colPrevInvalidated + 1).setValue('Yes');
+        unlocked++;
+      }
+    }
+
+    if (unlocked === 0) {
+      return { success: false, message: 'No active session to unlock' };
+    }
+
+    Logger.log('Session unlocked for ' + studentEmail + ' on ' + examId + ' by ' + adminEmail);
+    return { success: true, message: 'Session unlocked. The student can verify again on any device.' };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+// ================================================================================================
+// STRUCTURED GRADING - Numeric, fill-in-the-blank, matching and ordering
+// ================================================================================================
+
+/**
+ * Helper: Parse the 'Answer Config JSON' cell (null when empty or invalid)
+ */
+function parseAnswerConfig(value) {
+  if (!value) return null;
+  if (typeof value === 'object') return value;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Helper: Parse a list answer (FILL_BLANK / MATCHING / ORDERING are stored as JSON arrays)
+ */
+function parseListAnswer(answer) {
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed.map(v => (v === null || v === undefined ? '' : String(v))) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Grade a structured answer against its answer config
+ * Returns the fraction of marks earned (0-1), or null when the type is not auto-graded here.
+ * partialCredit 'proportional' scores correct parts / total parts; 'all_or_nothing' needs every part right.
+ * NUMERIC: in proportional mode a unit error or an answer inside partialTolerance earns half.
+ */
+function gradeStructuredAnswer(questionType, config, answer) {
+  if (['NUMERIC', 'FILL_BLANK', 'MATCHING', 'ORDERING'].indexOf(questionType) === -1) return null;
+  if (!config || !answer) return 0;
+
+  const proportional = config.partialCredit === 'proportional';
+  const normalize = (value, caseSensitive) => {
+    const text = String(value || '').trim().replace(/\s+/g, ' ');
+    return caseSensitive ? text : text.toLowerCase();
+  };
+  const score = (correct, total) => {
+    if (total === 0) return 0;
+    if (correct === total) return 1;
+    return proportional ? correct / total : 0;
+  };
+
+  switch (questionType) {
+    case 'NUMERIC': {
+      const numeric = config.numeric;
+      if (!numeric) return 0;
+      const match = String(answer).trim().replace(/,/g, '').match(/^([-+]?\d*\.?\d+(?:e[-+]?\d+)?)\s*(.*)$/i);
+      if (!match) return 0;
+
+      const value = parseFloat(match[1]);
+      const unit = match[2].trim();
+      const expected = Number(numeric.answer);
+      const allowed = band => (numeric.toleranceType === 'percent' ? Math.abs(expected) * band / 100 : band);
+      const difference = Math.abs(value - expected);
+      // Small epsilon so 0.1 + 0.2 style float noise does not fail an exact match
+      const within = band => difference <= allowed(Number(band) || 0) + 1e-9;
+      const unitOk = !numeric.unitRequired || normalize(unit) === normalize(numeric.unit);
+
+      if (within(numeric.tolerance)) {
+        if (unitOk) return 1;
+        return proportional ? 0.5 : 0;
+      }
+      if (proportional && numeric.partialTolerance && within(numeric.partialTolerance)) return 0.5;
+      return 0;
+    }
+
+    case 'FILL_BLANK': {
+      const fillBlank = config.fillBlank;
+      if (!fillBlank || !fillBlank.blanks) return 0;
+      const values = parseListAnswer(answer);
+      const correct = fillBlank.blanks.filter((accepted, i) => {
+        const given = normalize(values[i], fillBlank.caseSensitive);
+        return given !== '' && accepted.some(a => normalize(a, fillBlank.caseSensitive) === given);
+      }).length;
+      return score(correct, fillBlank.blanks.length);
+    }
+
+    case 'MATCHING': {
+      const pairs = config.matching && config.matching.pairs;
+      if (!pairs) return 0;
+      const values = parseListAnswer(answer);
+      const correct = pairs.filter((pair, i) => values[i] && normalize(values[i], true) === normalize(pair.right, true)).length;
+      return score(correct, pairs.length);
+    }
+
+    case 'ORDERING': {
+      const items = config.ordering && config.ordering.items;
+      if (!items) return 0;
+      const values = parseListAnswer(answer);
+      const correct = items.filter((item, i) => normalize(values[i], true) === normalize(item, true)).length;
+      return score(correct, items.length);
+    }
+  }
+  return 0;
+}
+
+// ================================================================================================
+// MANUAL GRADING - Short/Long answer scoring by faculty
+// ================================================================================================
+
+/**
+ * Question types that cannot be auto-graded on submission
+ */
+const MANUAL_GRADED_TYPES = ['SHORT_ANSWER', 'LONG_ANSWER'];
+
+/**
+ * Helper: Ensure a sheet has the given columns, appending any that are missing
+ * Used for sheets created before a column was introduced
+ */
+function ensureSheetColumns(sheet, columns) {
+  const lastColumn = sheet.getLastColumn();
+  const headers = lastColumn > 0 ? sheet.getRange(1, 1, 1, lastColumn).getValues()[0] : [];
+  columns.forEach(function(column) {
+    if (headers.indexOf(column) === -1) {
+      headers.push(column);
+      sheet.getRange(1, headers.length).setValue(column);
+    }
+  });
+  return headers;
+}
+
+/**
+ * Get everything a grader needs for one exam: the manually graded questions and every
+ * submitted attempt with its answers and any grades saved so far
+ */
+function getExamGradingData(examId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const questionsSheet = ss.getSheetByName('Exam_Questions');
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+
+    if (!questionsSheet || !attemptsSheet) {
+      return { success: false, message: 'Required sheets not found' };
+    }
+
+    // Questions that need manual grading
+    const questionsData = questionsSheet.getDataRange().getValues();
+    const qHeaders = questionsData[0];
+    const questions = questionsData.slice(1)
+      .filter(row => row[qHeaders.indexOf('Exam ID')] === examId &&
+        MANUAL_GRADED_TYPES.indexOf(row[qHeaders.indexOf('Question Type')]) !== -1)
+      .map(row => ({
+        questionId: row[qHeaders.indexOf('Question ID')],
+        questionNumber: row[qHeaders.indexOf('Question Number')],
+        questionType: row[qHeaders.indexOf('Question Type')],
+        questionText: row[qHeaders.indexOf('Question Text')],
+        marks: Number(row[qHeaders.indexOf('Marks')]) || 0,
+        wordLimit: row[qHeaders.indexOf('Word Limit')] || null,
+        explanation: row[qHeaders.indexOf('Explanation')] || '',
+        bankQuestionId: qHeaders.indexOf('Bank Question ID') !== -1 ? row[qHeaders.indexOf('Bank Question ID')] || '' : ''
+      }))
+      .sort((a, b) => a.questionNumber - b.questionNumber);
+
+    const questionIds = questions.map(q => q.questionId);
+
+    // Submitted attempts
+    const attemptsHeaders = ensureSheetColumns(attemptsSheet, ['Grading Status']);
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const attempts = attemptsData.slice(1)
+      .filter(row => row[attemptsHeaders.indexOf('Exam ID')] === examId &&
+        (row[attemptsHeaders.indexOf('Status')] === 'COMPLETED' || row[attemptsHeaders.indexOf('Status')] === 'DISQUALIFIED'))
+      .map(row => ({
+        attemptId: row[attemptsHeaders.indexOf('Attempt ID')],
+        studentEmail: row[attemptsHeaders.indexOf('Student Email')],
+        studentName: row[attemptsHeaders.indexOf('Student Name')],
+        status: row[attemptsHeaders.indexOf('Status')],
+        submittedAt: row[attemptsHeaders.indexOf('End Time')],
+        score: Number(row[attemptsHeaders.indexOf('Score')]) || 0,
+        totalMarks: Number(row[attemptsHeaders.indexOf('Total Marks')]) || 0,
+        gradingStatus: row[attemptsHeaders.indexOf('Grading Status')] || (questionIds.length > 0 ? 'PENDING' : 'GRADED'),
+        answers: []
+      }));
+
+    const attemptsById = {};
+    attempts.forEach(a => { attemptsById[a.attemptId] = a; });
+
+    // Answers for those attempts (only manually graded questions)
+    const answersSheet = ss.getSheetByName('Exam_Answers');
+    if (answersSheet && answersSheet.getLastRow() > 1) {
+      const answersData = answersSheet.getDataRange().getValues();
+      const aHeaders = answersData[0];
+      const roughWorkIndex = aHeaders.indexOf('Rough Work');
+      answersData.slice(1).forEach(row => {
+        const attempt = attemptsById[row[aHeaders.indexOf('Attempt ID')]];
+        const questionId = row[aHeaders.indexOf('Question ID')];
+        if (!attempt || questionIds.indexOf(questionId) === -1) return;
+        attempt.answers.push({
+          questionId: questionId,
+          answer: row[aHeaders.indexOf('Answer')] || '',
+          roughWork: roughWorkIndex !== -1 ? row[roughWorkIndex] || '' : '',
+          marksAwarded: null,
+          comment: '',
+          graded: false
+        });
+      });
+    }
+
+    // Overlay saved grades
+    const gradesSheet = ss.getSheetByName('Exam_Manual_Grades');
+    if (gradesSheet && gradesSheet.getLastRow() > 1) {
+      const gradesData = gradesSheet.getDataRange().getValues();
+      const gHeaders = gradesData[0];
+      gradesData.slice(1).forEach(row => {
+        const attempt = attemptsById[row[gHeaders.indexOf('Attempt ID')]];
+        if (!attempt) return;
+        const questionId = row[gHeaders.indexOf('Question ID')];
+        let answer = attempt.answers.find(a => a.questionId === questionId);
+        if (!answer) {
+          // Graded as unanswered (e.g. zero marks with a comment)
+          answer = { questionId: questionId, answer: '', roughWork: '', marksAwarded: null, comment: '', graded: false };
+          attempt.answers.push(answer);
+        }
+        answer.marksAwarded = Number(row[gHeaders.indexOf('Marks Awarded')]) || 0;
+        answer.comment = row[gHeaders.indexOf('Comment')] || '';
+        answer.gradedBy = row[gHeaders.indexOf('Graded By')] || '';
+        answer.gradedAt = row[gHeaders.indexOf('Graded At')] || '';
+        answer.graded = true;
+      });
+    }
+
+    return { success: true, data: { examId: examId, questions: questions, attempts: attempts } };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Save manual grades for one attempt and recompute the attempt total
+ * @param {string} examId - The exam ID
+ * @param {string} attemptId - The attempt being graded
+ * @param {Array} grades - [{ questionId, marksAwarded, comment }]
+ * @param {string} graderEmail - Email of the faculty member grading
+ * @param {boolean} finalize - Mark the attempt as fully graded
+ */
+function saveManualGrades(examId, attemptId, grades, graderEmail, finalize) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const gradesSheet = getOrCreateSheet(ss, 'Exam_Manual_Grades', [
+      'Attempt ID', 'Exam ID', 'Question ID', 'Marks Awarded', 'Comment', 'Graded By', 'Graded At'
+    ]);
+    const answersSheet = getOrCreateSheet(ss, 'Exam_Answers', [
+      'Attempt ID', 'Exam ID', 'Question ID', 'Answer', 'Submitted',
+      'Is Correct', 'Marks Awarded', 'Timestamp'
+    ]);
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    const questionsSheet = ss.getSheetByName('Exam_Questions');
+
+    if (!attemptsSheet || !questionsSheet) {
+      return { success: false, message: 'Required sheets not found' };
+    }
+
+    // Max marks per question, to clamp grader input
+    const questionsData = questionsSheet.getDataRange().getValues();
+    const qHeaders = questionsData[0];
+    const maxMarks = {};
+    questionsData.slice(1)
+      .filter(row => row[qHeaders.indexOf('Exam ID')] === examId)
+      .forEach(row => { maxMarks[row[qHeaders.indexOf('Question ID')]] = Number(row[qHeaders.indexOf('Marks')]) || 0; });
+
+    const timestamp = formatTimestampForSheets();
+    const gradesData = gradesSheet.getDataRange().getValues();
+    const gHeaders = gradesData[0];
+
+    (grades || []).forEach(function(grade) {
+      if (!(grade.questionId in maxMarks)) return;
+      const marks = Math.max(0, Math.min(Number(grade.marksAwarded) || 0, maxMarks[grade.questionId]));
+      const values = [attemptId, examId, grade.questionId, marks, grade.comment || '', graderEmail || '', timestamp];
+
+      const existing = gradesData.findIndex(row =>
+        row[gHeaders.indexOf('Attempt ID')] === attemptId && row[gHeaders.indexOf('Question ID')] === grade.questionId
+      );
+      if (existing > 0) {
+        gradesSheet.getRange(existing + 1, 1, 1, values.length).setValues([values]);
+      } else {
+        gradesSheet.appendRow(values);
+        gradesData.push(values);
+      }
+
+      // Mirror into Exam_Answers so totals and results read a single source
+      const answersData = answersSheet.getDataRange().getValues();
+      const aHeaders = answersData[0];
+      const answerRow = answersData.findIndex(row =>
+        row[aHeaders.indexOf('Attempt ID')] === attemptId && row[aHeaders.indexOf('Question ID')] === grade.questionId
+      );
+      const isCorrect = maxMarks[grade.questionId] > 0 && marks >= maxMarks[grade.questionId] ? 'YES' : 'NO';
+      if (answerRow > 0) {
+        answersSheet.getRange(answerRow + 1, aHeaders.indexOf('Is Correct') + 1).setValue(isCorrect);
+        answersSheet.getRange(answerRow + 1, aHeaders.indexOf('Marks Awarded') + 1).setValue(marks);
+      } else {
+        answersSheet.appendRow([attemptId, examId, grade.questionId, '', true, isCorrect, marks, timestamp]);
+      }
+    });
+
+    // Saving without finalizing starts grading, but never reopens an attempt that is already graded
+    let gradingStatus = finalize ? 'GRADED' : null;
+    if (!finalize) {
+      const attemptsHeaders = ensureSheetColumns(attemptsSheet, ['Grading Status']);
+      const attempt = attemptsSheet.getDataRange().getValues()
+        .find(row => row[attemptsHeaders.indexOf('Attempt ID')] === attemptId);
+      if (attempt && attempt[attemptsHeaders.indexOf('Grading Status')] !== 'GRADED') {
+        gradingStatus = 'IN_PROGRESS';
+      }
+    }
+
+    const totals = recomputeAttemptScore(ss, attemptId, gradingStatus);
+    updateExamStatistics(examId);
+
+    return { success: true, data: totals };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Recompute an attempt's score from Exam_Answers and write it back to Exam_Attempts
+ * @param {Spreadsheet} ss - The exam spreadsheet
+ * @param {string} attemptId - The attempt ID
+ * @param {string|null} gradingStatus - New grading status for the attempt; null keeps the current one
+ */
+function recomputeAttemptScore(ss, attemptId, gradingStatus) {
+  const answersSheet = ss.getSheetByName('Exam_Answers');
+  const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+
+  let score = 0;
+  if (answersSheet && answersSheet.getLastRow() > 1) {
+    const answersData = answersSheet.getDataRange().getValues();
+    const aHeaders = answersData[0];
+    answersData.slice(1)
+      .filter(row => row[aHeaders.indexOf('Attempt ID')] === attemptId)
+      .forEach(row => { score += Number(row[aHeaders.indexOf('Marks Awarded')]) || 0; });
+  }
+
+  const attemptsHeaders = ensureSheetColumns(attemptsSheet, ['Grading Status']);
+  const attemptsData = attemptsSheet.getDataRange().getValues();
+  const attemptRow = attemptsData.findIndex(row => row[attemptsHeaders.indexOf('Attempt ID')] === attemptId);
+  if (attemptRow < 1) {
+    return { score: score, totalMarks: 0, percentage: 0 };
+  }
+
+  const totalMarks = Number(attemptsData[attemptRow][attemptsHeaders.indexOf('Total Marks')]) || 0;
+  const percentage = totalMarks > 0 ? Math.round((score / totalMarks) * 100 * 100) / 100 : 0;
+
+  attemptsSheet.getRange(attemptRow + 1, attemptsHeaders.indexOf('Score') + 1).setValue(score);
+  attemptsSheet.getRange(attemptRow + 1, attemptsHeaders.indexOf('Percentage') + 1).setValue(percentage);
+  if (gradingStatus) {
+    attemptsSheet.getRange(attemptRow + 1, attemptsHeaders.indexOf('Grading Status') + 1).setValue(gradingStatus);
+  }
+
+  return {
+    score: score,
+    totalMarks: totalMarks,
+    percentage: percentage,
+    gradingStatus: gradingStatus || attemptsData[attemptRow][attemptsHeaders.indexOf('Grading Status')] || 'PENDING'
+  };
+}
+
+/**
+ * Get manual grades (marks + comment) saved for an attempt, keyed by question ID
+ */
+function getManualGradesForAttempt(ss, attemptId) {
+  const grades = {};
+  const gradesSheet = ss.getSheetByName('Exam_Manual_Grades');
+  if (!gradesSheet || gradesSheet.getLastRow() < 2) return grades;
+
+  const data = gradesSheet.getDataRange().getValues();
+  const headers = data[0];
+  data.slice(1)
+    .filter(row => row[headers.indexOf('Attempt ID')] === attemptId)
+    .forEach(row => {
+      grades[row[headers.indexOf('Question ID')]] = {
+        marksAwarded: Number(row[headers.indexOf('Marks Awarded')]) || 0,
+        comment: row[headers.indexOf('Comment')] || ''
+      };
+    });
+  return grades;
+}
+
+// ================================================================================================
+// REGRADE - Answer-key corrections after students have submitted
+// ================================================================================================
+
+const REGRADE_LOG_HEADERS = [
+  'Regrade ID', 'Exam ID', 'Question ID', 'Question Number', 'Attempt ID', 'Student Email', 'Mode',
+  'Old Key', 'New Key', 'Old Marks', 'New Marks', 'Old Score', 'New Score', 'Total Marks',
+  'Reason', 'Regraded By', 'Regraded At'
+];
+
+/**
+ * Helper: Fraction of marks an auto-graded answer earns (null for manually graded types)
+ */
+function autoGradeFraction(questionType, answer, correctAnswer, hasMultipleAnswers, answerConfig) {
+  if (questionType === 'MCQ' || questionType === 'MCQ_IMAGE') {
+    if (!answer) return 0;
+    const normalize = value => String(value || '').split(',').map(a => a.trim().toUpperCase()).filter(a => a).sort().join(',');
+    return (hasMultipleAnswers ? normalize(answer) === normalize(correctAnswer)
+      : String(answer).toUpperCase() === String(correctAnswer).toUpperCase()) ? 1 : 0;
+  }
+  return gradeStructuredAnswer(questionType, answerConfig, answer);
+}
+
+/**
+ * Regrade one question for every submitted attempt of an exam
+ * @param {string} examId - The exam ID
+ * @param {string} questionId - The question to regrade
+ * @param {string} mode - CHANGE_KEY (new correctAnswer / answerConfig), FULL_MARKS (award full marks to all) or DROP (remove from total)
+ * @param {Object} change - { correctAnswer, hasMultipleAnswers, answerConfig } for CHANGE_KEY
+ * @param {string} reason - Shown to students on their result page
+ * @param {string} adminEmail - Who made the change (audit trail)
+ */
+function regradeQuestion(examId, questionId, mode, change, reason, adminEmail) {
+  try {
+    if (['CHANGE_KEY', 'FULL_MARKS', 'DROP'].indexOf(mode) === -1) {
+      return { success: false, message: 'Unknown regrade mode' };
+    }
+    if (!reason || !String(reason).trim()) {
+      return { success: false, message: 'A reason is required' };
+    }
+
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const masterSheet = ss.getSheetByName('Exams_Master');
+    const questionsSheet = ss.getSheetByName('Exam_Questions');
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    const answersSheet = ss.getSheetByName('Exam_Answers');
+    if (!masterSheet || !questionsSheet || !attemptsSheet || !answersSheet) {
+      return { success: false, message: 'Required sheets not found' };
+    }
+
+    // Exam settings (negative marking applies to the new key too)
+    const masterData = masterSheet.getDataRange().getValues();
+    const mHeaders = masterData[0];
+    const examRow = masterData.findIndex(row => row[mHeaders.indexOf('Exam ID')] === examId);
+    if (examRow < 1) {
+      return { success: false, message: 'Exam not found' };
+    }
+    let settings = {};
+    try {
+      settings = JSON.parse(masterData[examRow][mHeaders.indexOf('Settings JSON')]) || {};
+    } catch (e) {
+      settings = {};
+    }
+
+    // Question definition
+    const qHeaders = ensureSheetColumns(questionsSheet, ['Answer Config JSON', 'Regrade Mode']);
+    const questionsData = questionsSheet.getDataRange().getValues();
+    const qRow = questionsData.findIndex(row => row[qHeaders.indexOf('Exam ID')] === examId && row[qHeaders.indexOf('Question ID')] === questionId);
+    if (qRow < 1) {
+      return { success: false, message: 'Question not found' };
+    }
+    const question = questionsData[qRow];
+    const questionType = question[qHeaders.indexOf('Question Type')];
+    const marks = Number(question[qHeaders.indexOf('Marks')]) || 0;
+    const negativeMarks = Number(question[qHeaders.indexOf('Negative Marks')]) || 0;
+    const previousMode = question[qHeaders.indexOf('Regrade Mode')] || '';
+    const oldKey = String(question[qHeaders.indexOf('Correct Answer')] || '');
+
+    let newKey = oldKey;
+    let hasMultipleAnswers = question[qHeaders.indexOf('More than 1 Answer?')] === 'Yes';
+    let answerConfig = parseAnswerConfig(question[qHeaders.indexOf('Answer Config JSON')]);
+
+    if (mode === 'CHANGE_KEY') {
+      if (MANUAL_GRADED_TYPES.indexOf(questionType) !== -1) {
+        return { success: false, message: 'Manually graded questions have no answer key' };
+      }
+      newKey = String((change && change.correctAnswer) || '').trim();
+      if (!newKey) {
+        return { success: false, message: 'New correct answer is required' };
+      }
+      if (questionType === 'MCQ' || questionType === 'MCQ_IMAGE') {
+        hasMultipleAnswers = newKey.indexOf(',') !== -1 || !!(change && change.hasMultipleAnswers);
+      } else {
+        answerConfig = change && change.answerConfig;
+        if (!answerConfig) {
+          return { success: false, message: 'New answer configuration is required' };
+        }
+      }
+    }
+
+    const newMode = mode === 'CHANGE_KEY' ? '' : (mode === 'DROP' ? 'DROPPED' : 'FULL_MARKS');
+    // Total marks move only when a question enters or leaves the dropped state
+    const totalDelta = (previousMode === 'DROPPED' ? marks : 0) - (newMode === 'DROPPED' ? marks : 0);
+
+    // Save the new definition
+    questionsSheet.getRange(qRow + 1, qHeaders.indexOf('Correct Answer') + 1).setValue(newKey);
+    questionsSheet.getRange(qRow + 1, qHeaders.indexOf('More than 1 Answer?') + 1).setValue(hasMultipleAnswers ? 'Yes' : 'No');
+    questionsSheet.getRange(qRow + 1, qHeaders.indexOf('Answer Config JSON') + 1).setValue(answerConfig ? JSON.stringify(answerConfig) : '');
+    questionsSheet.getRange(qRow + 1, qHeaders.indexOf('Regrade Mode') + 1).setValue(newMode);
+    questionsSheet.getRange(qRow + 1, qHeaders.indexOf('Updated At') + 1).setValue(formatTimestampForSheets());
+
+    // Submitted attempts that received this question
+    const attemptsHeaders = attemptsSheet.getRange(1, 1, 1, attemptsSheet.getLastColumn()).getValues()[0];
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const attempts = [];
+    attemptsData.forEach((row, i) => {
+      if (i === 0 || row[attemptsHeaders.indexOf('Exam ID')] !== examId) return;
+      const status = row[attemptsHeaders.indexOf('Status')];
+      if (status !== 'COMPLETED' && status !== 'DISQUALIFIED') return;
+      const assigned = getAssignedQuestionIds(attemptsHeaders, row);
+      if (assigned && assigned.indexOf(questionId) === -1) return;
+      attempts.push({ rowIndex: i, attemptId: row[attemptsHeaders.indexOf('Attempt ID')], row: row });
+    });
+
+    const answersData = answersSheet.getDataRange().getValues();
+    const aHeaders = answersData[0];
+    const aAttemptIndex = aHeaders.indexOf('Attempt ID');
+    const aQuestionIndex = aHeaders.indexOf('Question ID');
+    const aAnswerIndex = aHeaders.indexOf('Answer');
+    const aCorrectIndex = aHeaders.indexOf('Is Correct');
+    const aMarksIndex = aHeaders.indexOf('Marks Awarded');
+
+    const logSheet = getOrCreateSheet(ss, 'Exam_Regrade_Log', REGRADE_LOG_HEADERS);
+    const regradeId = 'RG_' + Date.now();
+    const timestamp = formatTimestampForSheets();
+    const logRows = [];
+    let changed = 0;
+
+    attempts.forEach(attempt => {
+      const answerRow = answersData.findIndex((row, i) => i > 0 && row[aAttemptIndex] === attempt.attemptId && row[aQuestionIndex] === questionId);
+      const answer = answerRow > 0 ? String(answersData[answerRow][aAnswerIndex] || '') : '';
+      const oldMarks = answerRow > 0 ? Number(answersData[answerRow][aMarksIndex]) || 0 : 0;
+
+      let newMarks = oldMarks;
+      let isCorrect = answerRow > 0 && answersData[answerRow][aCorrectIndex] === 'YES';
+      if (newMode === 'DROPPED') {
+        newMarks = 0;
+        isCorrect = false;
+      } else if (newMode === 'FULL_MARKS') {
+        newMarks = marks;
+        isCorrect = true;
+      } else {
+        const fraction = autoGradeFraction(questionType, answer, newKey, hasMultipleAnswers, answerConfig);
+        if (fraction !== null) {
+          isCorrect = fraction === 1;
+          newMarks = fraction > 0 ? Math.round(marks * fraction * 100) / 100
+            : (answer && settings.enableNegativeMarking ? -negativeMarks : 0);
+        }
+      }
+
+      if (answerRow > 0) {
+        answersSheet.getRange(answerRow + 1, aCorrectIndex + 1).setValue(isCorrect ? 'YES' : 'NO');
+        answersSheet.getRange(answerRow + 1, aMarksIndex + 1).setValue(newMarks);
+        answersData[answerRow][aMarksIndex] = newMarks;
+      } else if (newMarks !== 0) {
+        const row = [attempt.attemptId, examId, questionId, '', true, isCorrect ? 'YES' : 'NO', newMarks, timestamp];
+        answersSheet.appendRow(row);
+        answersData.push(row);
+      }
+
+      // Recompute the attempt from its answer rows
+      const newScore = answersData.slice(1)
+        .filter(row => row[aAttemptIndex] === attempt.attemptId)
+        .reduce((sum, row) => sum + (Number(row[aMarksIndex]) || 0), 0);
+      const oldScore = Number(attempt.row[attemptsHeaders.indexOf('Score')]) || 0;
+      const totalMarks = Math.max(0, (Number(attempt.row[attemptsHeaders.indexOf('Total Marks')]) || 0) + totalDelta);
+      const percentage = totalMarks > 0 ? Math.round((newScore / totalMarks) * 100 * 100) / 100 : 0;
+
+      attemptsSheet.getRange(attempt.rowIndex + 1, attemptsHeaders.indexOf('Score') + 1).setValue(newScore);
+      attemptsSheet.getRange(attempt.rowIndex + 1, attemptsHeaders.indexOf('Total Marks') + 1).setValue(totalMarks);
+      attemptsSheet.getRange(attempt.rowIndex + 1, attemptsHeaders.indexOf('Percentage') + 1).setValue(percentage);
+
+      if (newMarks !== oldMarks || totalDelta !== 0) changed++;
+      logRows.push([
+        regradeId, examId, questionId, question[qHeaders.indexOf('Question Number')], attempt.attemptId,
+        attempt.row[attemptsHeaders.indexOf('Student Email')], mode,
+        oldKey, newKey, oldMarks, newMarks, oldScore, newScore, totalMarks,
+        String(reason).trim(), adminEmail || '', timestamp
+      ]);
+    });
+
+    // Faculty grades are overlaid on Exam_Answers when results and grading data are read,
+    // so they must carry the regraded marks too (the grader's comment is kept)
+    const gradesSheet = ss.getSheetByName('Exam_Manual_Grades');
+    if (gradesSheet && gradesSheet.getLastRow() > 1 && logRows.length > 0) {
+      const gradesData = gradesSheet.getDataRange().getValues();
+      const gHeaders = gradesData[0];
+      const regradedMarks = {};
+      logRows.forEach(row => { regradedMarks[row[4]] = row[10]; });
+      gradesData.forEach((row, i) => {
+        if (i === 0 || row[gHeaders.indexOf('Question ID')] !== questionId) return;
+        const attemptId = row[gHeaders.indexOf('Attempt ID')];
+        if (!(attemptId in regradedMarks)) return;
+        gradesSheet.getRange(i + 1, gHeaders.indexOf('Marks Awarded') + 1).setValue(regradedMarks[attemptId]);
+      });
+    }
+
+    // Keep the exam's response sheet in step with the new marks
+    const responseSheetLink = masterData[examRow][mHeaders.indexOf('Response Sheet Link')];
+    if (responseSheetLink && attempts.length > 0) {
+      try {
+        const responseSheet = SpreadsheetApp.openByUrl(responseSheetLink).getSheets()[0];
+        const responseData = responseSheet.getDataRange().getValues();
+        const rHeaders = responseData[0];
+        const regradedMarks = {};
+        logRows.forEach(row => { regradedMarks[row[4] + '_' + questionId] = row[10]; });
+        responseData.forEach((row, i) => {
+          const responseId = row[rHeaders.indexOf('Response ID')];
+          if (i === 0 || !(responseId in regradedMarks)) return;
+          const newMarks = regradedMarks[responseId];
+          responseSheet.getRange(i + 1, rHeaders.indexOf('Correct Answer') + 1).setValue(newKey);
+          responseSheet.getRange(i + 1, rHeaders.indexOf('Is Correct') + 1).setValue(newMode !== 'DROPPED' && newMarks >= marks ? 'Yes' : 'No');
+          responseSheet.getRange(i + 1, rHeaders.indexOf('Marks Awarded') + 1).setValue(newMarks);
+        });
+      } catch (error) {
+        Logger.log('Response sheet not updated during regrade: ' + error.toString());
+      }
+    }
+
+    if (logRows.length > 0) {
+      logSheet.getRange(logSheet.getLastRow() + 1, 1, logRows.length, REGRADE_LOG_HEADERS.length).setValues(logRows);
+    } else {
+      // Keep a record of key changes even when nobody has submitted yet
+      logSheet.appendRow([regradeId, examId, questionId, question[qHeaders.indexOf('Question Number')], '', '', mode,
+        oldKey, newKey, '', '', '', '', '', String(reason).trim(), adminEmail || '', timestamp]);
+    }
+
+    updateExamStatistics(examId);
+
+    return { success: true, data: { regradeId: regradeId, affectedAttempts: attempts.length, changedAttempts: changed } };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Helper: Read regrade log rows, optionally filtered by attempt
+ */
+function readRegradeLog(ss, examId, attemptId) {
+  const logSheet = ss.getSheetByName('Exam_Regrade_Log');
+  if (!logSheet || logSheet.getLastRow() < 2) return [];
+
+  const data = logSheet.getDataRange().getValues();
+  const headers = data[0];
+  const value = (row, header) => row[headers.indexOf(header)];
+  return data.slice(1)
+    .filter(row => value(row, 'Exam ID') === examId && (!attemptId || value(row, 'Attempt ID') === attemptId))
+    .map(row => ({
+      regradeId: value(row, 'Regrade ID'),
+      questionId: value(row, 'Question ID'),
+      questionNumber: Number(value(row, 'Question Number')) || 0,
+      attemptId: value(row, 'Attempt ID'),
+      studentEmail: value(row, 'Student Email'),
+      mode: value(row, 'Mode'),
+      oldKey: String(value(row, 'Old Key') || ''),
+      newKey: String(value(row, 'New Key') || ''),
+      oldMarks: value(row, 'Old Marks') === '' ? null : Number(value(row, 'Old Marks')),
+      newMarks: value(row, 'New Marks') === '' ? null : Number(value(row, 'New Marks')),
+      oldScore: value(row, 'Old Score') === '' ? null : Number(value(row, 'Old Score')),
+      newScore: value(row, 'New Score') === '' ? null : Number(value(row, 'New Score')),
+      totalMarks: value(row, 'Total Marks') === '' ? null : Number(value(row, 'Total Marks')),
+      reason: value(row, 'Reason') || '',
+      regradedBy: value(row, 'Regraded By') || '',
+      regradedAt: value(row, 'Regraded At') || ''
+    }));
+}
+
+/**
+ * Get the regrade audit trail for an exam (one entry per regrade and attempt)
+ * @param {string} examId - The exam ID
+ */
+function getRegradeLog(examId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    return { success: true, data: readRegradeLog(ss, examId, null) };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+// ================================================================================================
+// PROCTORING REVIEW - Evidence timeline, incident review and integrity verdicts
+// ================================================================================================
+
+const INCIDENT_REVIEW_HEADERS = [
+  'Review ID', 'Exam ID', 'Attempt ID', 'Incident Key', 'Status', 'Note', 'Reviewed By', 'Reviewed At'
+];
+
+const INTEGRITY_VERDICT_COLUMNS = [
+  'Integrity Verdict', 'Integrity Note', 'Verdict By', 'Verdict At', 'Original Status'
+];
+
+/**
+ * Helper: Epoch milliseconds for a sheet timestamp (Date cell or "21-Nov-2025 19:29:05" text)
+ */
+function toEvidenceTime(value) {
+  if (!value) return null;
+  if (value instanceof Date) return value.getTime();
+  try {
+    return Utilities.parseDate(String(value), TIMEZONE, 'dd-MMM-yyyy HH:mm:ss').getTime();
+  } catch (e) {
+    const parsed = new Date(value).getTime();
+    return isNaN(parsed) ? null : parsed;
+  }
+}
+
+/**
+ * Helper: Drive ID from a file or folder URL
+ */
+function driveIdFromUrl(url) {
+  const match = String(url || '').match(/[-\w]{25,}/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Helper: Webcam and screen frames for an attempt.
+ * Frames uploaded straight from the browser through resumable URIs only exist in Drive,
+ * so the student's Webcam and Screen_Share folders are listed and merged with Exam_Screenshots rows.
+ */
+function readEvidenceFrames(ss, attemptId, screenshotsFolderUrl) {
+  const framesById = {};
+
+  const folderId = driveIdFromUrl(screenshotsFolderUrl);
+  if (folderId) {
+    try {
+      const studentFolder = DriveApp.getFolderById(folderId);
+      [['Webcam', 'WEBCAM'], ['Screen_Share', 'SCREEN']].forEach(function(pair) {
+        const folders = studentFolder.getFoldersByName(pair[0]);
+        if (!folders.hasNext()) return;
+        const files = folders.next().getFiles();
+        while (files.hasNext()) {
+          const file = files.next();
+          framesById[file.getId()] = {
+            fileId: file.getId(),
+            name: file.getName(),
+            source: pair[1],
+            type: 'PERIODIC',
+            url: file.getUrl(),
+            thumbnailUrl: 'https://drive.google.com/thumbnail?id=' + file.getId() + '&sz=w800',
+            time: file.getDateCreated().getTime()
+          };
+        }
+      });
+    } catch (e) {
+      Logger.log('Error listing proctoring frames: ' + e.toString());
+    }
+  }
+
+  const screenshotsSheet = ss.getSheetByName('Exam_Screenshots');
+  if (screenshotsSheet && screenshotsSheet.getLastRow() > 1) {
+    const data = screenshotsSheet.getDataRange().getValues();
+    const headers = data[0];
+    const value = (row, header) => row[headers.indexOf(header)];
+    data.slice(1)
+      .filter(row => value(row, 'Attempt ID') === attemptId)
+      .forEach(row => {
+        const url = value(row, 'Screenshot URL');
+        const fileId = driveIdFromUrl(url);
+        if (!fileId) return;
+        const frame = framesById[fileId] || {
+          fileId: fileId,
+          name: '',
+          source: value(row, 'Source') === 'SCREEN' ? 'SCREEN' : 'WEBCAM',
+          url: url,
+          thumbnailUrl: 'https://drive.google.com/thumbnail?id=' + fileId + '&sz=w800',
+          time: toEvidenceTime(value(row, 'Timestamp'))
+        };
+        frame.type = value(row, 'Type') || 'PERIODIC';
+        framesById[fileId] = frame;
+      });
+  }
+
+  return Object.keys(framesById)
+    .map(id => framesById[id])
+    .sort((a, b) => (a.time || 0) - (b.time || 0));
+}
+
+/**
+ * Helper: Latest incident review per incident key for an attempt
+ */
+function readIncidentReviews(ss, attemptId) {
+  const reviewSheet = ss.getSheetByName('Exam_Incident_Reviews');
+  const reviews = {};
+  if (!reviewSheet || reviewSheet.getLastRow() < 2) return reviews;
+
+  const data = reviewSheet.getDataRange().getValues();
+  const headers = data[0];
+  const value = (row, header) => row[headers.indexOf(header)];
+  data.slice(1)
+    .filter(row => !attemptId || value(row, 'Attempt ID') === attemptId)
+    .forEach(row => {
+      reviews[value(row, 'Attempt ID') + '|' + value(row, 'Incident Key')] = {
+        status: value(row, 'Status') || 'PENDING',
+        note: value(row, 'Note') || '',
+        reviewedBy: value(row, 'Reviewed By') || '',
+        reviewedAt: value(row, 'Reviewed At') || ''
+      };
+    });
+  return reviews;
+}
+
+/**
+ * Helper: Violations of an attempt in logged order. The incident key is the position within
+ * the attempt, which stays stable because violation rows are only ever appended.
+ */
+function readAttemptViolations(ss, attemptId) {
+  const proctoringSheet = ss.getSheetByName('Exam_Proctoring');
+  if (!proctoringSheet || proctoringSheet.getLastRow() < 2) return [];
+
+  const data = proctoringSheet.getDataRange().getValues();
+  const headers = data[0];
+  const value = (row, header) => row[headers.indexOf(header)];
+  return data.slice(1)
+    .filter(row => value(row, 'Attempt ID') === attemptId)
+    .map((row, index) => ({
+      incidentKey: 'V' + (index + 1),
+      type: value(row, 'Violation Type'),
+      details: value(row, 'Details') || '',
+      severity: value(row, 'Severity') || 'LOW',
+      timestamp: value(row, 'Timestamp'),
+      time: toEvidenceTime(value(row, 'Timestamp'))
+    }));
+}
+
+/**
+ * Helper: Attempt summary with its integrity verdict
+ */
+function buildReviewAttempt(row, headers) {
+  const value = header => (headers.indexOf(header) === -1 ? '' : row[headers.indexOf(header)]);
+  return {
+    attemptId: value('Attempt ID'),
+    examId: value('Exam ID'),
+    studentEmail: value('Student Email'),
+    studentName: value('Student Name') || '',
+    status: value('Status'),
+    startTime: value('Start Time'),
+    endTime: value('End Time'),
+    score: Number(value('Score')) || 0,
+    totalMarks: Number(value('Total Marks')) || 0,
+    percentage: Number(value('Percentage')) || 0,
+    violationsCount: Number(value('Violations Count')) || 0,
+    screenshotsFolderLink: value('Screenshots Folder Link') || '',
+    cameraFolderLink: value('Camera Folder Link') || '',
+    verdict: value('Integrity Verdict') || '',
+    verdictNote: value('Integrity Note') || '',
+    verdictBy: value('Verdict By') || '',
+    verdictAt: value('Verdict At') || '',
+    originalStatus: value('Original Status') || value('Status')
+  };
+}
+
+/**
+ * Get every submitted or in-progress attempt of an exam with its review progress
+ * @param {string} examId - The exam ID
+ */
+function getProctoringReviewList(examId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    if (!attemptsSheet || attemptsSheet.getLastRow() < 2) {
+      return { success: true, data: [] };
+    }
+
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const headers = attemptsData[0];
+    const attempts = attemptsData.slice(1)
+      .filter(row => row[headers.indexOf('Exam ID')] === examId)
+      .map(row => buildReviewAttempt(row, headers));
+
+    // Count reviewed incidents per attempt
+    const reviews = readIncidentReviews(ss, null);
+    const reviewed = {};
+    Object.keys(reviews).forEach(key => {
+      if (reviews[key].status === 'PENDING') return;
+      const attemptId = key.split('|')[0];
+      const counts = reviewed[attemptId] || { cleared: 0, confirmed: 0 };
+      if (reviews[key].status === 'CLEARED') counts.cleared++;
+      if (reviews[key].status === 'CONFIRMED') counts.confirmed++;
+      reviewed[attemptId] = counts;
+    });
+
+    return {
+      success: true,
+      data: attempts.map(attempt => Object.assign(attempt, {
+        clearedCount: reviewed[attempt.attemptId] ? reviewed[attempt.attemptId].cleared : 0,
+        confirmedCount: reviewed[attempt.attemptId] ? reviewed[attempt.attemptId].confirmed : 0
+      }))
+    };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Get the proctoring evidence of one attempt: violations with their review status
+ * and the captured webcam/screen frames
+ * @param {string} attemptId - The attempt ID
+ */
+function getAttemptEvidence(attemptId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    if (!attemptsSheet) {
+      return { success: false, message: 'Attempts sheet not found' };
+    }
+
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const headers = attemptsData[0];
+    const attemptRow = attemptsData.findIndex(row => row[headers.indexOf('Attempt ID')] === attemptId);
+    if (attemptRow < 1) {
+      return { success: false, message: 'Attempt not found' };
+    }
+
+    const attempt = buildReviewAttempt(attemptsData[attemptRow], headers);
+    const reviews = readIncidentReviews(ss, attemptId);
+    const incidents = readAttemptViolations(ss, attemptId).map(incident => Object.assign(incident, {
+      review: reviews[attemptId + '|' + incident.incidentKey] || null
+    }));
+
+    return {
+      success: true,
+      data: {
+        attempt: attempt,
+        incidents: incidents,
+        frames: readEvidenceFrames(ss, attemptId, attempt.screenshotsFolderLink)
+      }
+    };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Mark one incident of an attempt as cleared or confirmed (PENDING reopens it)
+ * @param {string} attemptId - The attempt ID
+ * @param {string} incidentKey - Key returned by getAttemptEvidence
+ * @param {string} status - CLEARED, CONFIRMED or PENDING
+ * @param {string} note - Reviewer note
+ * @param {string} reviewerEmail - Admin saving the review
+ */
+function saveIncidentReview(attemptId, incidentKey, status, note, reviewerEmail) {
+  try {
+    if (['CLEARED', 'CONFIRMED', 'PENDING'].indexOf(status) === -1) {
+      return { success: false, message: 'Invalid review status: ' + status };
+    }
+
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    if (!attemptsSheet) {
+      return { success: false, message: 'Attempts sheet not found' };
+    }
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const attemptsHeaders = attemptsData[0];
+    const attemptRow = attemptsData.findIndex(row => row[attemptsHeaders.indexOf('Attempt ID')] === attemptId);
+    if (attemptRow < 1) {
+      return { success: false, message: 'Attempt not found' };
+    }
+    const examId = attemptsData[attemptRow][attemptsHeaders.indexOf('Exam ID')];
+
+    const reviewSheet = getOrCreateSheet(ss, 'Exam_Incident_Reviews', INCIDENT_REVIEW_HEADERS);
+    const data = reviewSheet.getDataRange().getValues();
+    const headers = data[0];
+    const reviewedAt = formatTimestampForSheets();
+    const existingRow = data.findIndex(row =>
+      row[headers.indexOf('Attempt ID')] === attemptId && row[headers.indexOf('Incident Key')] === incidentKey
+    );
+
+    if (existingRow > 0) {
+      reviewSheet.getRange(existingRow + 1, headers.indexOf('Status') + 1).setValue(status);
+      reviewSheet.getRange(existingRow + 1, headers.indexOf('Note') + 1).setValue(note || '');
+      reviewSheet.getRange(existingRow + 1, headers.indexOf('Reviewed By') + 1).setValue(reviewerEmail || '');
+      reviewSheet.getRange(existingRow + 1, headers.indexOf('Reviewed At') + 1).setValue(reviewedAt);
+    } else {
+      reviewSheet.appendRow([
+        'IR_' + Date.now(),
+        examId,
+        attemptId,
+        incidentKey,
+        status,
+        note || '',
+        reviewerEmail || '',
+        reviewedAt
+      ]);
+    }
+
+    return {
+      success: true,
+      data: { status: status, note: note || '', reviewedBy: reviewerEmail || '', reviewedAt: reviewedAt }
+    };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Record the final integrity verdict of a submitted attempt.
+ * VALID reinstates an auto-disqualified attempt, DISQUALIFIED disqualifies it, and an empty
+ * verdict restores the status the attempt had before the first verdict.
+ * @param {string} attemptId - The attempt ID
+ * @param {string} verdict - VALID, DISQUALIFIED or ''
+ * @param {string} note - Reason for the verdict
+ * @param {string} reviewerEmail - Admin recording the verdict
+ */
+function saveIntegrityVerdict(attemptId, verdict, note, reviewerEmail) {
+  try {
+    if (['VALID', 'DISQUALIFIED', ''].indexOf(verdict || '') === -1) {
+      return { success: false, message: 'Invalid verdict: ' + verdict };
+    }
+    if (verdict && !String(note || '').trim()) {
+      return { success: false, message: 'A note is required for an integrity verdict' };
+    }
+
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+    if (!attemptsSheet) {
+      return { success: false, message: 'Attempts sheet not found' };
+    }
+
+    const headers = ensureSheetColumns(attemptsSheet, INTEGRITY_VERDICT_COLUMNS);
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const attemptRow = attemptsData.findIndex(row => row[headers.indexOf('Attempt ID')] === attemptId);
+    if (attemptRow < 1) {
+      return { success: false, message: 'Attempt not found' };
+    }
+
+    const row = attemptsData[attemptRow];
+    const status = row[headers.indexOf('Status')];
+    if (status !== 'COMPLETED' && status !== 'DISQUALIFIED') {
+      return { success: false, message: 'Only submitted attempts can receive a verdict' };
+    }
+
+    const originalStatus = row[headers.indexOf('Original Status')] || status;
+    let newStatus = originalStatus;
+    if (verdict === 'VALID') newStatus = 'COMPLETED';
+    if (verdict === 'DISQUALIFIED') newStatus = 'DISQUALIFIED';
+
+    const setValue = (header, value) => {
+      attemptsSheet.getRange(attemptRow + 1, headers.indexOf(header) + 1).setValue(value);
+    };
+    setValue('Status', newStatus);
+    setValue('Integrity Verdict', verdict || '');
+    setValue('Integrity Note', verdict ? note : '');
+    setValue('Verdict By', verdict ? reviewerEmail || '' : '');
+    setValue('Verdict At', verdict ? formatTimestampForSheets() : '');
+    setValue('Original Status', verdict ? originalStatus : '');
+
+    if (newStatus !== status) {
+      updateExamStatistics(row[headers.indexOf('Exam ID')]);
+    }
+
+    return { success: true, data: { status: newStatus, verdict: verdict || '' } };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+// ================================================================================================
+// GRADEBOOK - Exam scores for the unified gradebook
+// ================================================================================================
+
+/**
+ * Helper: Read graded (non-practice) exams from Exams_Master
+ * @param {Function} predicate - Optional filter on the exam object
+ */
+function getGradebookExams(ss, predicate) {
+  const masterSheet = ss.getSheetByName('Exams_Master');
+  if (!masterSheet || masterSheet.getLastRow() < 2) return [];
+
+  const data = masterSheet.getDataRange().getValues();
+  const headers = data[0];
+  return data.slice(1)
+    .map(row => ({
+      examId: row[headers.indexOf('Exam ID')],
+      examTitle: row[headers.indexOf('Exam Title')],
+      examType: row[headers.indexOf('Exam Type')],
+      batch: row[headers.indexOf('Batch')] || '',
+      term: row[headers.indexOf('Term')] || '',
+      subject: row[headers.indexOf('Subject')] || '',
+      totalMarks: Number(row[headers.indexOf('Total Marks')]) || 0,
+      status: row[headers.indexOf('Status')],
+      isPractice: row[headers.indexOf('Is Practice')] === 'Yes',
+      viewResult: row[headers.indexOf('View Result')] || 'Yes'
+    }))
+    .filter(exam => exam.examId && !exam.isPractice && exam.status !== 'DRAFT' && exam.status !== 'ARCHIVED')
+    .filter(exam => !predicate || predicate(exam));
+}
+
+/**
+ * Helper: Best submitted attempt per (exam, student)
+ * Disqualified attempts count with whatever score they were given
+ * @returns {Object} {examId: {studentEmail: {score, totalMarks, studentName, gradingStatus}}}
+ */
+function getBestAttemptsByExam(ss, examIds, studentEmail) {
+  const result = {};
+  const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+  if (!attemptsSheet || attemptsSheet.getLastRow() < 2) return result;
+
+  const headers = ensureSheetColumns(attemptsSheet, ['Grading Status']);
+  const data = attemptsSheet.getDataRange().getValues();
+
+  data.slice(1).forEach(row => {
+    const examId = row[headers.indexOf('Exam ID')];
+    const status = row[headers.indexOf('Status')];
+    const email = String(row[headers.indexOf('Student Email')] || '').trim().toLowerCase();
+    if (examIds.indexOf(examId) === -1 || !email) return;
+    if (status !== 'COMPLETED' && status !== 'DISQUALIFIED') return;
+    if (studentEmail && email !== studentEmail.toLowerCase()) return;
+
+    const attempt = {
+      score: Number(row[headers.indexOf('Score')]) || 0,
+      totalMarks: Number(row[headers.indexOf('Total Marks')]) || 0,
+      studentName: row[headers.indexOf('Student Name')] || '',
+      gradingStatus: row[headers.indexOf('Grading Status')] || 'GRADED'
+    };
+
+    if (!result[examId]) result[examId] = {};
+    const existing = result[examId][email];
+    if (!existing || attempt.score > existing.score) {
+      result[examId][email] = attempt;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Get best exam score per student for every exam of a batch/term/subject (admin gradebook)
+ */
+function getSubjectExamScores(batch, term, subject) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const exams = getGradebookExams(ss, exam =>
+      exam.subject === subject &&
+      (!batch || !exam.batch || exam.batch === batch) &&
+      (!term || exam.term === term)
+    );
+
+    const attempts = getBestAttemptsByExam(ss, exams.map(e => e.examId), null);
+
+    return {
+      success: true,
+      data: {
+        exams: exams.map(exam => ({
+          examId: exam.examId,
+          examTitle: exam.examTitle,
+          examType: exam.examType,
+          term: exam.term,
+          totalMarks: exam.totalMarks
+        })),
+        scores: attempts
+      }
+    };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Get a student's best score on every graded exam (My Grades)
+ * Scores of exams with "View Result" set to No are withheld
+ */
+function getStudentExamScores(studentEmail) {
+  try {
+    if (!studentEmail) {
+      return { success: false, message: 'Student email is required' };
+    }
+
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const exams = getGradebookExams(ss, null);
+    const attempts = getBestAttemptsByExam(ss, exams.map(e => e.examId), studentEmail);
+    const email = studentEmail.toLowerCase();
+
+    const scores = exams
+      .filter(exam => attempts[exam.examId] && attempts[exam.examId][email])
+      .map(exam => {
+        const attempt = attempts[exam.examId][email];
+        const withheld = exam.viewResult === 'No';
+        return {
+          examId: exam.examId,
+          examTitle: exam.examTitle,
+          examType: exam.examType,
+          batch: exam.batch,
+          term: exam.term,
+          subject: exam.subject,
+          totalMarks: exam.totalMarks || attempt.totalMarks,
+          score: withheld ? null : attempt.score,
+          gradingStatus: attempt.gradingStatus,
+          withheld: withheld
+        };
+      });
+
+    return { success: true, data: scores };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+// ================================================================================================
+// ITEM ANALYSIS - Per-question responses for psychometric reports
+// ================================================================================================
+
+/**
+ * Get every question of an exam and the per-question responses of all completed attempts
+ * Statistics (difficulty, discrimination, KR-20...) are computed client-side
+ * @param {string} examId - The exam ID
+ */
+function getExamItemResponses(examId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const questionsSheet = ss.getSheetByName('Exam_Questions');
+    const attemptsSheet = ss.getSheetByName('Exam_Attempts');
+
+    if (!questionsSheet || !attemptsSheet) {
+      return { success: false, message: 'Required sheets not found' };
+    }
+
+    const optionLetters = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
+    const questionsData = questionsSheet.getDataRange().getValues();
+    const qHeaders = questionsData[0];
+    const questions = questionsData.slice(1)
+      .filter(row => row[qHeaders.indexOf('Exam ID')] === examId)
+      .map(row => {
+        const options = {};
+        optionLetters.forEach(letter => {
+          const text = row[qHeaders.indexOf('Option ' + letter)];
+          if (text !== '' && text !== null && text !== undefined) options[letter] = String(text);
+        });
+        return {
+          questionId: row[qHeaders.indexOf('Question ID')],
+          questionNumber: Number(row[qHeaders.indexOf('Question Number')]) || 0,
+          questionType: row[qHeaders.indexOf('Question Type')],
+          questionText: row[qHeaders.indexOf('Question Text')],
+          correctAnswer: String(row[qHeaders.indexOf('Correct Answer')] || ''),
+          hasMultipleAnswers: row[qHeaders.indexOf('More than 1 Answer?')] === 'Yes',
+          marks: Number(row[qHeaders.indexOf('Marks')]) || 0,
+          options: options,
+          bankQuestionId: qHeaders.indexOf('Bank Question ID') !== -1 ? row[qHeaders.indexOf('Bank Question ID')] || '' : '',
+          answerConfig: qHeaders.indexOf('Answer Config JSON') !== -1 ? parseAnswerConfig(row[qHeaders.indexOf('Answer Config JSON')]) : null,
+          regradeMode: qHeaders.indexOf('Regrade Mode') !== -1 ? row[qHeaders.indexOf('Regrade Mode')] || '' : ''
+        };
+      })
+      .sort((a, b) => a.questionNumber - b.questionNumber);
+
+    // Completed attempts only - disqualified papers are usually incomplete and would skew the statistics
+    const attemptsData = attemptsSheet.getDataRange().getValues();
+    const aHeaders = attemptsData[0];
+    const attempts = attemptsData.slice(1)
+      .filter(row => row[aHeaders.indexOf('Exam ID')] === examId && row[aHeaders.indexOf('Status')] === 'COMPLETED')
+      .map(row => ({
+        attemptId: row[aHeaders.indexOf('Attempt ID')],
+        studentName: row[aHeaders.indexOf('Student Name')],
+        score: Number(row[aHeaders.indexOf('Score')]) || 0,
+        totalMarks: Number(row[aHeaders.indexOf('Total Marks')]) || 0,
+        timeSpent: Number(row[aHeaders.indexOf('Time Spent (seconds)')]) || 0,
+        assignedQuestionIds: getAssignedQuestionIds(aHeaders, row),
+        answers: []
+      }));
+
+    const attemptsById = {};
+    attempts.forEach(a => { attemptsById[a.attemptId] = a; });
+
+    const answersSheet = ss.getSheetByName('Exam_Answers');
+    if (answersSheet && answersSheet.getLastRow() > 1) {
+      const answersData = answersSheet.getDataRange().getValues();
+      const ansHeaders = answersData[0];
+      const timeSpentIndex = ansHeaders.indexOf('Time Spent (seconds)');
+      answersData.slice(1).forEach(row => {
+        const attempt = attemptsById[row[ansHeaders.indexOf('Attempt ID')]];
+        if (!attempt) return;
+        const timeSpent = timeSpentIndex !== -1 ? row[timeSpentIndex] : '';
+        attempt.answers.push({
+          questionId: row[ansHeaders.indexOf('Question ID')],
+          answer: String(row[ansHeaders.indexOf('Answer')] || ''),
+          marksAwarded: Number(row[ansHeaders.indexOf('Marks Awarded')]) || 0,
+          timeSpent: timeSpent === '' || timeSpent === null ? null : Number(timeSpent) || 0
+        });
+      });
+    }
+
+    return { success: true, data: { examId: examId, questions: questions, attempts: attempts } };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+// ================================================================================================
+// QUESTION BANK - Reusable questions and randomized exam assembly
+// ================================================================================================
+
+const QUESTION_BANK_SHEET = 'Question_Bank';
+const QUESTION_BANK_HEADERS = [
+  'Bank Question ID', 'Term', 'Domain', 'Subject', 'Tags', 'Question Type', 'Difficulty',
+  'Marks', 'Question Text', 'Question JSON', 'Created By', 'Created At', 'Updated By', 'Updated At'
+];
+
+// Fields kept in their own columns rather than inside Question JSON
+const BANK_META_FIELDS = ['questionId', 'questionNumber', 'bankQuestionId', 'term', 'domain', 'subject', 'tags', 'usage'];
+
+/**
+ * Helper: Parse a comma-separated tag cell into a clean array
+ */
+function parseTags(value) {
+  if (Array.isArray(value)) return value.map(t => t.toString().trim()).filter(t => t);
+  return value ? value.toString().split(',').map(t => t.trim()).filter(t => t) : [];
+}
+
+/**
+ * Helper: Convert a Question_Bank row into a question object
+ */
+function bankRowToQuestion(headers, row) {
+  let question = {};
+  try {
+    question = JSON.parse(row[headers.indexOf('Question JSON')] || '{}');
+  } catch (e) {
+    question = {};
+  }
+
+  question.bankQuestionId = row[headers.indexOf('Bank Question ID')];
+  question.term = row[headers.indexOf('Term')] || '';
+  question.domain = row[headers.indexOf('Domain')] || '';
+  question.subject = row[headers.indexOf('Subject')] || '';
+  question.tags = parseTags(row[headers.indexOf('Tags')]);
+  question.questionType = row[headers.indexOf('Question Type')] || question.questionType || 'MCQ';
+  question.difficulty = row[headers.indexOf('Difficulty')] || question.difficulty || 'Medium';
+  question.marks = Number(row[headers.indexOf('Marks')]) || question.marks || 1;
+  question.createdBy = row[headers.indexOf('Created By')] || '';
+  question.updatedAt = row[headers.indexOf('Updated At')] || '';
+  return question;
+}
+
+/**
+ * Helper: Usage of bank questions across exams, keyed by Bank Question ID
+ * Answers are mapped back through the exam question's Bank Question ID
+ */
+function getQuestionBankUsage(ss) {
+  const usage = {};
+  const questionsSheet = ss.getSheetByName('Exam_Questions');
+  if (!questionsSheet || questionsSheet.getLastRow() < 2) return usage;
+
+  const qData = questionsSheet.getDataRange().getValues();
+  const qHeaders = qData[0];
+  const bankIdIndex = qHeaders.indexOf('Bank Question ID');
+  if (bankIdIndex === -1) return usage;
+
+  const bankIdByQuestionId = {};
+  qData.slice(1).forEach(row => {
+    const bankId = row[bankIdIndex];
+    if (!bankId) return;
+    bankIdByQuestionId[row[qHeaders.indexOf('Question ID')]] = bankId;
+    if (!usage[bankId]) usage[bankId] = { exams: [], attempts: 0, correct: 0 };
+    const examId = row[qHeaders.indexOf('Exam ID')];
+    if (usage[bankId].exams.indexOf(examId) === -1) usage[bankId].exams.push(examId);
+  });
+
+  const answersSheet = ss.getSheetByName('Exam_Answers');
+  if (answersSheet && answersSheet.getLastRow() > 1) {
+    const aData = answersSheet.getDataRange().getValues();
+    const aHeaders = aData[0];
+    aData.slice(1).forEach(row => {
+      const bankId = bankIdByQuestionId[row[aHeaders.indexOf('Question ID')]];
+      if (!bankId) return;
+      usage[bankId].attempts++;
+      if (row[aHeaders.indexOf('Is Correct')] === 'YES') usage[bankId].correct++;
+    });
+  }
+
+  return usage;
+}
+
+/**
+ * Get bank questions, optionally filtered
+ * @param {Object} filters - {term, domain, subject, tag, difficulty, questionType, search}
+ */
+function getQuestionBank(filters) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const sheet = getOrCreateSheet(ss, QUESTION_BANK_SHEET, QUESTION_BANK_HEADERS);
+    if (sheet.getLastRow() < 2) return { success: true, data: [] };
+
+    const data = sheet.getDataRange().getValues();
+    const headers = data[0];
+    const f = filters || {};
+    const tag = (f.tag || '').toString().trim().toLowerCase();
+    const search = (f.search || '').toString().trim().toLowerCase();
+    const usage = getQuestionBankUsage(ss);
+
+    const questions = data.slice(1)
+      .filter(row => row[headers.indexOf('Bank Question ID')])
+      .map(row => bankRowToQuestion(headers, row))
+      .filter(q =>
+        (!f.term || q.term === f.term) &&
+        (!f.domain || q.domain === f.domain) &&
+        (!f.subject || q.subject === f.subject) &&
+        (!f.difficulty || q.difficulty === f.difficulty) &&
+        (!f.questionType || q.questionType === f.questionType) &&
+        (!tag || q.tags.some(t => t.toLowerCase() === tag)) &&
+        (!search || (q.questionText || '').toString().toLowerCase().indexOf(search) !== -1))
+      .map(q => {
+        const u = usage[q.bankQuestionId];
+        q.usage = {
+          examCount: u ? u.exams.length : 0,
+          attempts: u ? u.attempts : 0,
+          correct: u ? u.correct : 0
+        };
+        return q;
+      });
+
+    return { success: true, data: questions };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Create or update a bank question
+ * @param {Object} question - Question fields plus term, domain, subject, tags (bankQuestionId for updates)
+ */
+function saveBankQuestion(question, userEmail) {
+  try {
+    if (!question || !question.questionText) {
+      return { success: false, error: 'Question text is required' };
+    }
+    if (!question.subject) {
+      return { success: false, error: 'Subject is required' };
+    }
+
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const sheet = getOrCreateSheet(ss, QUESTION_BANK_SHEET, QUESTION_BANK_HEADERS);
+    const data = sheet.getDataRange().getValues();
+    const headers = data[0];
+    const timestamp = formatTimestampForSheets();
+
+    const body = {};
+    Object.keys(question).forEach(key => {
+      if (BANK_META_FIELDS.indexOf(key) === -1) body[key] = question[key];
+    });
+
+    const rowIndex = question.bankQuestionId
+      ? data.findIndex(row => row[headers.indexOf('Bank Question ID')] === question.bankQuestionId)
+      : -1;
+    const bankQuestionId = rowIndex > 0 ? question.bankQuestionId : 'BQ_' + Date.now();
+
+    const values = {
+      'Bank Question ID': bankQuestionId,
+      'Term': question.term || '',
+      'Domain': question.domain || '',
+      'Subject': question.subject,
+      'Tags': parseTags(question.tags).join(', '),
+      'Question Type': question.questionType || 'MCQ',
+      'Difficulty': question.difficulty || 'Medium',
+      'Marks': question.marks || 1,
+      'Question Text': question.questionText,
+      'Question JSON': JSON.stringify(body),
+      'Updated By': userEmail || '',
+      'Updated At': timestamp
+    };
+
+    if (rowIndex > 0) {
+      Object.keys(values).forEach(column => {
+        sheet.getRange(rowIndex + 1, headers.indexOf(column) + 1).setValue(values[column]);
+      });
+    } else {
+      values['Created By'] = userEmail || '';
+      values['Created At'] = timestamp;
+      sheet.appendRow(headers.map(h => values[h] !== undefined ? values[h] : ''));
+    }
+
+    return { success: true, bankQuestionId: bankQuestionId, message: 'Question saved to bank' };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Delete a bank question
+ * Exam copies keep their Bank Question ID so past results still map back
+ */
+function deleteBankQuestion(bankQuestionId) {
+  try {
+    const ss = SpreadsheetApp.openById(EXAM_SHEET_ID);
+    const sheet = ss.getSheetByName(QUESTION_BANK_SHEET);
+    if (!sheet) return { success: false, error: 'Question bank not found' };
+
+    const data = sheet.getDataRange().getValues();
+    const rowIndex = data.findIndex(row => row[data[0].indexOf('Bank Question ID')] === bankQuestionId);
+    if (rowIndex < 1) return { success: false, error: 'Bank question not found' };
+
+    sheet.deleteRow(rowIndex + 1);
+    return { success: true, message: 'Bank question deleted' };
+  } catch (error) {
+    return { success: false, error: error.toString() };
+  }
+}
+
+/**
+ * Helper: Seeded pseudo-random generator (mulberry32 over an FNV-1a hash of the seed)
+ * The same seed always yields the same sequence, so a student's draw is reproducible
+ */
+function createSeededRandom(seed) {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 16777619);
+  }
+  return function() {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw one student's paper from the exam's question pool
+ * settings.questionDraw = {enabled, rules: [{difficulty, tag, count}]}; each rule picks `count`
+ * questions matching its difficulty/tag (blank = any) and a question is never drawn twice
+ * @returns {Array|null} Drawn question IDs in exam order, or null when drawing is off
+ */
+function drawQuestionsForAttempt(ss, examId, settings, seed) {
+  const draw = settings && settings.questionDraw;
+  if (!draw || !draw.enabled || !Array.isArray(draw.rules) || draw.rules.length === 0) return null;
+
+  const questionsSheet = ss.getSheetByName('Exam_Questions');
+  if (!questionsSheet || questionsSheet.getLastRow() < 2) return null;
+
+  const data = questionsSheet.getDataRange().getValues();
+  const headers = data[0];
+  const tagsIndex = headers.indexOf('Tags');
+  const pool = data.slice(1)
+    .filter(row => row[headers.indexOf('Exam ID')] === examId)
+    .map(row => ({
+      questionId: row[headers.indexOf('Question ID')],
+      questionNumber: Number(row[headers.indexOf('Question Number')]) || 0,
+      difficulty: (row[headers.indexOf('Difficulty')] || '').toString().toLowerCase(),
+      tags: tagsIndex !== -1 ? parseTags(row[tagsIndex]).map(t => t.toLowerCase()) : []
+    }));
+
+  const random = createSeededRandom(seed);
+  const drawn = {};
+  draw.rules.forEach(function(rule) {
+    const difficulty = (rule.difficulty || '').toLowerCase();
+    const tag = (rule.tag || '').trim().toLowerCase();
+    const candidates = pool.filter(q => !drawn[q.questionId] &&
+      (!difficulty || q.difficulty === difficulty) &&
+      (!tag || q.tags.indexOf(tag) !== -1));
+
+    for (let i = candidates.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const temp = candidates[i];
+      candidates[i] = candidates[j];
+      candidates[j] = temp;
+    }
+    candidates.slice(0, Math.max(0, Number(rule.count) || 0)).forEach(q => { drawn[q.questionId] = true; });
+  });
+
+  return pool
+    .filter(q => drawn[q.questionId])
+    .sort((a, b) => a.questionNumber - b.questionNumber)
+    .map(q => q.questionId);
+}
+
+/**
+ * Helper: Read the drawn question IDs stored on an attempt row (null = full paper)
+ */
+function getAssignedQuestionIds(attemptsHeaders, attemptRow) {
+  const index = attemptsHeaders.indexOf('Assigned Question IDs');
+  if (index === -1 || !attemptRow[index]) return null;
+  try {
+    const ids = JSON.parse(attemptRow[index]);
+    return Array.isArray(ids) ? ids : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// ================================================================================================
+// WEB APP API ENDPOINTS
+// ================================================================================================
+
+/**
+ * Handle GET requests
+ */
+function doGet(e) {
+  try {
+    const action = e.parameter.action;
+
+    switch (action) {
+      case 'getTermStructureExam':
+        return createJsonResponse(getTermStructureExam());
+
+      case 'getExamTypes':
+        return createJsonResponse(getExamTypes());
+
+      case 'getAllExams':
+        return createJsonResponse(getAllExams(e.parameter));
+
+      case 'getExamById':
+        return createJsonResponse(getExamById(e.parameter.examId, e.parameter.studentEmail, e.parameter.view === 'admin'));
+
+      case 'validateExamSession':
+        return createJsonResponse(validateExamSession(
+          e.parameter.examId,
+          e.parameter.sessionToken,
+          e.parameter.deviceHash,
+          e.parameter.studentEmail
+        ));
+
+      case 'getAnswerVersions':
+        return createJsonResponse(getAnswerVersions(e.parameter.attemptId));
+
+      case 'getExamGradingData':
+        return createJsonResponse(getExamGradingData(e.parameter.examId));
+
+      case 'getSubjectExamScores':
+        return createJsonResponse(getSubjectExamScores(e.parameter.batch, e.parameter.term, e.parameter.subject));
+
+      case 'getStudentExamScores':
+        return createJsonResponse(getStudentExamScores(e.parameter.studentEmail));
+
+      case 'getExamItemResponses':
+        return createJsonResponse(getExamItemResponses(e.parameter.examId));
+
+      case 'getRegradeLog':
+        return createJsonResponse(getRegradeLog(e.parameter.examId));
+
+      case 'getProctoringReviewList':
+        return createJsonResponse(getProctoringReviewList(e.parameter.examId));
+
+      case 'getAttemptEvidence':
+        return createJsonResponse(getAttemptEvidence(e.parameter.attemptId));
+
+      case 'getLiveInvigilation':
+        return createJsonResponse(getLiveInvigilation(e.parameter.examId));
+
+      case 'getQuestionBank':
+        return createJsonResponse(getQuestionBank(e.parameter));
+
+      default:
+        return createJsonResponse({ success: false, error: 'Unknown action: ' + action });
+    }
+  } catch (error) {
+    return createJsonResponse({ success: false, error: error.toString() });
+  }
+}
+
+/**
+ * Handle POST requests
+ */
+function doPost(e) {
+  try {
+    const body = JSON.parse(e.postData.contents);
+    const action = body.action;
+
+    switch (action) {
+      case 'createExam':
+        return createJsonResponse(createExam(body.examData));
+
+      case 'updateExam':
+        return createJsonResponse(updateExam(body.examId, body.updates));
+
+      case 'deleteExam':
+        return createJsonResponse(deleteExam(body.examId));
+
+      case 'addQuestion':
+        return createJsonResponse(addQuestion(body.examId, body.questionData));
+
+      case 'updateExamQuestion':
+        return createJsonResponse(updateExamQuestion(body.examId, body.questionId, body.updates));
+
+      case 'deleteExamQuestion':
+        return createJsonResponse(deleteExamQuestion(body.examId, body.questionId));
+
+      case 'reorderQuestions':
+        return createJsonResponse(reorderQuestions(body.examId, body.questionOrder));
+
+      case 'verifyExamPassword':
+        return createJsonResponse(verifyExamPassword(body.examId, body.password, body.studentEmail));
+
+      case 'startExamAttempt':
+        return createJsonResponse(startExamAttempt(body.examId, body.studentEmail, body.studentName));
+
+      case 'saveAnswer':
+        return createJsonResponse(saveAnswer(body.attemptId, body.examId, body.questionId, body.answer, body.submitted, body.clientVersion));
+
+      case 'submitExam':
+        return createJsonResponse(submitExam(body.attemptId, body.examId, body.studentEmail, body.answers, body.violations, body.timeSpent));
+
+      case 'getExamResult':
+        return createJsonResponse(getExamResult(body.attemptId, body.studentEmail));
+
+      case 'logViolation':
+        return createJsonResponse(logViolation(body.attemptId, body.examId, body.studentEmail, body.violationType, body.details, body.severity));
+
+      case 'uploadScreenshot':
+        // DEPRECATED: Use direct browser uploads with batch URIs instead
+        // Kept for backward compatibility
+        return createJsonResponse(uploadScreenshot(body.attemptId, body.examId, body.studentEmail, body.screenshot, body.type, body.source));
+
+      case 'requestMoreUris':
+        // Request additional upload URIs when batch runs out during long exams
+        return createJsonResponse(requestMoreUris(body.examId, body.studentEmail, body.type, body.count));
+
+      case 'createExamSession':
+        return createJsonResponse(createExamSession(
           body.examId,
           body.password,
           body.studentEmail,
@@ -3857,6 +6004,57 @@ function doPost(e) {
           body.studentEmail
         ));
 
+      case 'saveManualGrades':
+        return createJsonResponse(saveManualGrades(
+          body.examId,
+          body.attemptId,
+          body.grades,
+          body.userEmail,
+          body.finalize
+        ));
+
+      case 'regradeQuestion':
+        return createJsonResponse(regradeQuestion(
+          body.examId,
+          body.questionId,
+          body.mode,
+          body.change,
+          body.reason,
+          body.userEmail
+        ));
+
+      case 'extendAttemptTime':
+        return createJsonResponse(extendAttemptTime(body.attemptId, body.minutes, body.userEmail));
+
+      case 'forceSubmitAttempt':
+        return createJsonResponse(forceSubmitAttempt(body.attemptId, body.userEmail));
+
+      case 'unlockExamSession':
+        return createJsonResponse(unlockExamSession(body.examId, body.studentEmail, body.userEmail));
+
+      case 'saveIncidentReview':
+        return createJsonResponse(saveIncidentReview(
+          body.attemptId,
+          body.incidentKey,
+          body.status,
+          body.note,
+          body.userEmail
+        ));
+
+      case 'saveIntegrityVerdict':
+        return createJsonResponse(saveIntegrityVerdict(
+          body.attemptId,
+          body.verdict,
+          body.note,
+          body.userEmail
+        ));
+
+      case 'saveBankQuestion':
+        return createJsonResponse(saveBankQuestion(body.question, body.userEmail));
+
+      case 'deleteBankQuestion':
+        return createJsonResponse(deleteBankQuestion(body.bankQuestionId));
+
       default:
         return createJsonResponse({ success: false, error: 'Unknown action: ' + action });
     }
@@ -15,6 +15,9 @@ const STUDENTS_CORNER_SHEET = "Students Corner - Activity";
 const STUDENTS_CORNER_ENGAGEMENT_SHEET = "Students Corner - Engagement";
 const ACCESS_SHEET = "Access";
 const NOTES_SHEET = "Notes";
+const NOTE_SHARES_SHEET = "Note Shares";
+const NOTE_COMMENTS_SHEET = "Note Comments";
+const SESSION_TRANSCRIPTS_SHEET = "Session Transcripts";
 const TIMEZONE = "Asia/Kolkata";
 
 // Zoom API Configuration (Server-to-Server OAuth)
@@ -196,6 +199,7 @@ function handleRequest(e) {
     const publicActions = [
       'test',
       'getSessions', 'getSession', 'getCalendarEvents', 'getLiveSessions', 'getRecordings',
+      'getSessionTranscript', 'searchTranscripts',
       'saveNote', 'deleteNote', 'togglePinNote',
       // Forms API actions
       'getTermStructure', 'getFormTypes', 'getForms', 'getFormById',
@@ -316,6 +320,12 @@ function handleRequest(e) {
       case 'getCalendarEvents':
         result = getCalendarEvents(params.batch);
         break;
+      case 'getSessionTranscript':
+        result = getSessionTranscript(params.sessionId);
+        break;
+      case 'searchTranscripts':
+        result = searchTranscripts(params.batch, params.query);
+        break;
 
       // Zoom Notes API
       case 'getNotes':
@@ -343,7 +353,7 @@ function handleRequest(e) {
         result = updateNoteTags(params.noteId, params.studentId, tags);
         break;
       case 'updateNoteContent':
-        result = updateNoteContent(params.noteId, params.studentId, params.noteContent, params.isEncoded);
+        result = updateNoteContent(params.noteId, params.studentId, params.noteContent, params.isEncoded, params.baseRevision);
         break;
       case 'searchNotes':
         result = searchZoomNotes(params.studentId, params.query);
@@ -352,6 +362,29 @@ function handleRequest(e) {
         result = getZoomNotesHierarchy(params.studentId);
         break;
 
+      // Shared notes (the caller is studentEmail; access is checked per note)
+      case 'shareNote':
+        result = shareNote(studentEmail, params.noteId, params.recipients, params.groupName);
+        break;
+      case 'removeNoteShare':
+        result = removeNoteShare(studentEmail, params.noteId, params.recipientEmail);
+        break;
+      case 'getNoteShares':
+        result = getNoteShares(studentEmail, params.noteId);
+        break;
+      case 'getSharedNotes':
+        result = getSharedNotes(studentEmail);
+        break;
+      case 'updateSharedNote':
+        result = updateSharedNote(studentEmail, params.noteId, params.noteContent, params.baseRevision);
+        break;
+      case 'getNoteComments':
+        result = getNoteComments(studentEmail, params.noteId);
+        break;
+      case 'addNoteComment':
+        result = addNoteComment(studentEmail, params.noteId, params.comment);
+        break;
+
       // Zoom Admin API (requires admin access)
       case 'triggerZoomSync':
         if (!isAdmin(studentEmail)) {
@@ -365,6 +398,12 @@ function handleRequest(e) {
         }
         result = triggerRecordingSync();
         break;
+      case 'saveSessionTranscript':
+        if (!isAdmin(studentEmail)) {
+          return createErrorResponse('Admin access required');
+        }
+        result = saveSessionTranscript(params.sessionId, params.batch, params.format, params.cues, studentEmail);
+        break;
       case 'createZoomSession':
         if (!isAdmin(studentEmail)) {
           return createErrorResponse('Admin access required');
@@ -721,6 +760,15 @@ function handleRequest(e) {
         const responseData = e.postData ? JSON.parse(e.postData.contents) : {};
         result = submitFormResponse(responseData);
         break;
+      case 'getFormDraft':
+        result = getFormDraft(params.formId, params.userEmail);
+        break;
+      case 'saveFormDraft':
+        result = saveFormDraft(params);
+        break;
+      case 'deleteFormDraft':
+        result = deleteFormDraft(params.formId, params.userEmail);
+        break;
       case 'createForm':
         const formData = e.postData ? JSON.parse(e.postData.contents) : {};
         result = createForm(formData);
@@ -6372,6 +6420,194 @@ function getZoomSession(sessionId) {
   }
 }
 
+// ==================== SESSION TRANSCRIPTS ====================
+
+/**
+ * GOOGLE SHEETS SCHEMA FOR SESSION TRANSCRIPTS
+ * Transcripts are stored as JSON cue lists ([start, end, speaker, text] per caption, times in
+ * seconds), split over several rows because a cell holds at most 50,000 characters.
+ * A - Session_ID (the recording's sessionId)
+ * B - Batch
+ * C - Chunk (0, 1, 2, ... in order)
+ * D - Format (vtt | srt | zoom)
+ * E - Cues_JSON (this chunk's part of the JSON string)
+ * F - Uploaded_By
+ * G - Uploaded_At
+ */
+const TRANSCRIPT_FORMATS = ['vtt', 'srt', 'zoom'];
+const TRANSCRIPT_CHUNK_SIZE = 45000;
+const TRANSCRIPT_MATCHES_PER_SESSION = 5;
+const TRANSCRIPT_MATCHES_LIMIT = 50;
+
+function getOrCreateSessionTranscriptsSheet() {
+  const spreadsheet = SpreadsheetApp.openById(SHEET_ID);
+  let sheet = spreadsheet.getSheetByName(SESSION_TRANSCRIPTS_SHEET);
+
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(SESSION_TRANSCRIPTS_SHEET);
+    sheet.appendRow(['Session_ID', 'Batch', 'Chunk', 'Format', 'Cues_JSON', 'Uploaded_By', 'Uploaded_At']);
+    sheet.setFrozenRows(1);
+  }
+
+  return sheet;
+}
+
+/**
+ * Reads the stored transcripts, keyed by session id; pass a session id or batch to read only those
+ */
+function readSessionTranscripts(filter) {
+  const data = getOrCreateSessionTranscriptsSheet().getDataRange().getValues();
+  const transcripts = {};
+
+  for (let i = 1; i < data.length; i++) {
+    const row = data[i];
+    const sessionId = String(row[0]);
+    if (filter.sessionId && sessionId !== String(filter.sessionId)) continue;
+    if (filter.batch && row[1] !== filter.batch) continue;
+
+    if (!transcripts[sessionId]) {
+      transcripts[sessionId] = { format: row[3], uploadedAt: row[6], chunks: [] };
+    }
+    transcripts[sessionId].chunks.push({ index: Number(row[2]) || 0, json: String(row[4]) });
+  }
+
+  Object.keys(transcripts).forEach(sessionId => {
+    const transcript = transcripts[sessionId];
+    const json = transcript.chunks.sort((a, b) => a.index - b.index).map(chunk => chunk.json).join('');
+    try {
+      transcript.cues = JSON.parse(json).map(cue => {
+        const parsed = { start: cue[0], end: cue[1], text: cue[3] };
+        if (cue[2]) parsed.speaker = cue[2];
+        return parsed;
+      });
+    } catch (parseError) {
+      Logger.log('Unreadable transcript for session ' + sessionId + ': ' + parseError.message);
+      transcript.cues = [];
+    }
+    delete transcript.chunks;
+  });
+
+  return transcripts;
+}
+
+/**
+ * Stores a parsed transcript for a recording, replacing any earlier upload
+ */
+function saveSessionTranscript(sessionId, batch, format, cues, uploadedBy) {
+  const lock = LockService.getScriptLock();
+  try {
+    if (!sessionId) {
+      return { success: false, error: 'Session ID is required' };
+    }
+    if (TRANSCRIPT_FORMATS.indexOf(format) === -1) {
+      return { success: false, error: 'Unsupported transcript format: ' + format };
+    }
+    const cueList = typeof cues === 'string' ? JSON.parse(cues) : cues;
+    if (!Array.isArray(cueList) || cueList.length === 0) {
+      return { success: false, error: 'The transcript has no captions' };
+    }
+
+    const json = JSON.stringify(cueList.map(cue => [
+      Number(cue.start) || 0,
+      Number(cue.end) || 0,
+      cue.speaker ? String(cue.speaker) : '',
+      String(cue.text || '')
+    ]));
+
+    lock.waitLock(10000);
+    const sheet = getOrCreateSessionTranscriptsSheet();
+    const data = sheet.getDataRange().getValues();
+
+    // Delete bottom-up so row numbers stay valid
+    let replaced = false;
+    for (let i = data.length - 1; i >= 1; i--) {
+      if (String(data[i][0]) === String(sessionId)) {
+        sheet.deleteRow(i + 1);
+        replaced = true;
+      }
+    }
+
+    const uploadedAt = formatTimestampForSheets();
+    const rows = [];
+    for (let offset = 0; offset < json.length; offset += TRANSCRIPT_CHUNK_SIZE) {
+      rows.push([
+        String(sessionId),
+        batch || '',
+        rows.length,
+        format,
+        json.substring(offset, offset + TRANSCRIPT_CHUNK_SIZE),
+        uploadedBy,
+        uploadedAt
+      ]);
+    }
+    // Plain text, so Sheets does not reinterpret the JSON or the session id
+    sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length)
+      .setNumberFormat('@')
+      .setValues(rows);
+
+    return { success: true, data: { sessionId: sessionId, cueCount: cueList.length, replaced: replaced } };
+
+  } catch (error) {
+    Logger.log('Error in saveSessionTranscript: ' + error.message);
+    return { success: false, error: 'Failed to save transcript: ' + error.message };
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+function getSessionTranscript(sessionId) {
+  try {
+    if (!sessionId) {
+      return { success: false, error: 'Session ID is required' };
+    }
+
+    const transcript = readSessionTranscripts({ sessionId: sessionId })[String(sessionId)];
+    return {
+      success: true,
+      data: transcript
+        ? { sessionId: String(sessionId), format: transcript.format, cues: transcript.cues, uploadedAt: transcript.uploadedAt }
+        : null
+    };
+
+  } catch (error) {
+    Logger.log('Error in getSessionTranscript: ' + error.message);
+    return { success: false, error: 'Failed to get transcript: ' + error.message };
+  }
+}
+
+/**
+ * Transcript lines of a batch's recordings containing every word of the query
+ */
+function searchTranscripts(batch, query) {
+  try {
+    const words = String(query || '').toLowerCase().split(/\s+/).filter(word => word);
+    if (words.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const transcripts = readSessionTranscripts({ batch: batch });
+    const matches = [];
+
+    Object.keys(transcripts).forEach(sessionId => {
+      let sessionMatches = 0;
+      transcripts[sessionId].cues.forEach(cue => {
+        if (sessionMatches >= TRANSCRIPT_MATCHES_PER_SESSION) return;
+        const text = String(cue.text).toLowerCase();
+        if (words.every(word => text.indexOf(word) !== -1)) {
+          matches.push({ sessionId: sessionId, start: cue.start, speaker: cue.speaker, text: cue.text });
+          sessionMatches++;
+        }
+      });
+    });
+
+    return { success: true, data: matches.slice(0, TRANSCRIPT_MATCHES_LIMIT) };
+
+  } catch (error) {
+    Logger.log('Error in searchTranscripts: ' + error.message);
+    return { success: false, error: 'Failed to search transcripts: ' + error.message };
+  }
+}
+
 // ==================== ZOOM NOTES API ====================
 
 /**
@@ -6425,6 +6661,7 @@ function getZoomNotes(studentId, sessionId) {
 
     const headers = data[0];
     const notes = [];
+    const sharedNoteIds = getSharedNoteIds();
 
     const colIndices = {
       noteId: headers.indexOf('Note ID'),
@@ -6477,7 +6714,9 @@ function getZoomNotes(studentId, sessionId) {
         lastModified: row[colIndices.lastModified],
         isPinned: row[colIndices.isPinned] === 'Yes' || row[colIndices.isPinned] === true,
         noteTags: row[colIndices.tags],
-        type: row[colIndices.type]
+        type: row[colIndices.type],
+        revision: getNoteRevision(row[colIndices.noteContent]),
+        isShared: sharedNoteIds.has(row[colIndices.noteId])
       });
     }
 
@@ -6527,9 +6766,12 @@ function getZoomNote(studentId, sessionId) {
 
 /**
  * Save (create or update) a note
+ * Updates to a shared note's content need `baseRevision`; see checkOwnerNoteRevision
  */
 function saveZoomNote(noteData) {
+  const lock = LockService.getScriptLock();
   try {
+    lock.waitLock(10000);
     Logger.log('Saving note: ' + JSON.stringify(noteData));
 
     // Validate student email
@@ -6593,6 +6835,12 @@ function saveZoomNote(noteData) {
     }
 
     if (existingRowIndex > 0) {
+      const currentContent = data[existingRowIndex - 1][colIndices.noteContent];
+      if (noteData.noteContent && noteData.noteContent !== currentContent) {
+        const conflict = checkOwnerNoteRevision(noteData.noteId, currentContent, noteData.baseRevision);
+        if (conflict) return conflict;
+      }
+
       // Update existing note - update all fields
       const row = existingRowIndex;
       if (studentEmail) notesSheet.getRange(row, colIndices.studentEmail + 1).setValue(studentEmail);
@@ -6620,7 +6868,8 @@ function saveZoomNote(noteData) {
         success: true,
         data: {
           noteId: noteData.noteId,
-          action: 'updated'
+          action: 'updated',
+          revision: getNoteRevision(noteData.noteContent || currentContent)
         }
       };
     } else {
@@ -6690,6 +6939,8 @@ function saveZoomNote(noteData) {
       success: false,
       error: 'Failed to save note: ' + error.message
     };
+  } finally {
+    lock.releaseLock();
   }
 }
 
@@ -6869,10 +7120,13 @@ function updateNoteTags(noteId, studentId, tags) {
  * @param {string} noteId - Note ID
  * @param {string} studentId - Student email
  * @param {string} noteContent - Updated note content HTML
+ * @param {string} baseRevision - Revision the content was edited from; required once the note is shared
  * @return {Object} Success response
  */
-function updateNoteContent(noteId, studentId, noteContent, isEncoded) {
+function updateNoteContent(noteId, studentId, noteContent, isEncoded, baseRevision) {
+  const lock = LockService.getScriptLock();
   try {
+    lock.waitLock(10000);
     Logger.log('Updating note content for note: ' + noteId + ', studentId: ' + studentId);
 
     const spreadsheet = SpreadsheetApp.openById(SHEET_ID);
@@ -6910,6 +7164,11 @@ function updateNoteContent(noteId, studentId, noteContent, isEncoded) {
     // Find and update the note
     for (let i = 1; i < data.length; i++) {
       if (data[i][noteIdCol] === noteId && data[i][studentEmailCol] === studentId) {
+        if (decodedContent !== data[i][noteContentCol]) {
+          const conflict = checkOwnerNoteRevision(noteId, data[i][noteContentCol], baseRevision);
+          if (conflict) return conflict;
+        }
+
         const now = new Date().toISOString();
         notesSheet.getRange(i + 1, noteContentCol + 1).setValue(decodedContent);
         notesSheet.getRange(i + 1, lastModifiedCol + 1).setValue(now);
@@ -6919,7 +7178,8 @@ function updateNoteContent(noteId, studentId, noteContent, isEncoded) {
           success: true,
           data: {
             noteContent: decodedContent,
-            lastModified: now
+            lastModified: now,
+            revision: getNoteRevision(decodedContent)
           }
         };
       }
@@ -6937,6 +7197,8 @@ function updateNoteContent(noteId, studentId, noteContent, isEncoded) {
       success: false,
       error: 'Failed to update note content: ' + error.message
     };
+  } finally {
+    lock.releaseLock();
   }
 }
 
@@ -6965,6 +7227,7 @@ function getSessionNotesBySubject(studentId, batch, term, domain, subject) {
 
     const data = notesSheet.getDataRange().getValues();
     const sessionMap = {}; // Group notes by session
+    const sharedNoteIds = getSharedNoteIds();
 
     // Normalize function to handle both spaces and + symbols
     function normalize(str) {
@@ -7028,7 +7291,9 @@ function getSessionNotesBySubject(studentId, batch, term, domain, subject) {
           lastModified: row[15],
           isPinned: row[16],
           tags: row[17],
-          type: row[18] || 'Live'  // Column S (18) - Type
+          type: row[18] || 'Live',  // Column S (18) - Type
+          revision: getNoteRevision(row[12]),
+          isShared: sharedNoteIds.has(row[0])
         });
       }
     }
@@ -7121,6 +7386,429 @@ function getZoomNotesHierarchy(studentId) {
     };
   }
 }
+
+// ==================== SHARED NOTES ====================
+
+/**
+ * GOOGLE SHEETS SCHEMA FOR NOTE SHARES
+ * One row per note and classmate it is shared with.
+ * A - Share_ID
+ * B - Note_ID
+ * C - Owner_Email
+ * D - Shared_With_Email
+ * E - Role (view | comment | edit)
+ * F - Group_Name (set when shared with an assignment group)
+ * G - Shared_At
+ *
+ * GOOGLE SHEETS SCHEMA FOR NOTE COMMENTS
+ * A - Comment_ID
+ * B - Note_ID
+ * C - Author_Email
+ * D - Author_Name
+ * E - Comment
+ * F - Created_At
+ */
+const NOTE_ROLES = ['view', 'comment', 'edit'];
+
+function getOrCreateNoteSharesSheet() {
+  const spreadsheet = SpreadsheetApp.openById(SHEET_ID);
+  let sheet = spreadsheet.getSheetByName(NOTE_SHARES_SHEET);
+
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(NOTE_SHARES_SHEET);
+    sheet.appendRow(['Share_ID', 'Note_ID', 'Owner_Email', 'Shared_With_Email', 'Role', 'Group_Name', 'Shared_At']);
+    sheet.setFrozenRows(1);
+  }
+
+  return sheet;
+}
+
+function getOrCreateNoteCommentsSheet() {
+  const spreadsheet = SpreadsheetApp.openById(SHEET_ID);
+  let sheet = spreadsheet.getSheetByName(NOTE_COMMENTS_SHEET);
+
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(NOTE_COMMENTS_SHEET);
+    sheet.appendRow(['Comment_ID', 'Note_ID', 'Author_Email', 'Author_Name', 'Comment', 'Created_At']);
+    sheet.setFrozenRows(1);
+  }
+
+  return sheet;
+}
+
+/**
+ * Version token of a note's content, used to detect edits made since a client loaded it
+ */
+function getNoteRevision(noteContent) {
+  const digest = Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, String(noteContent || ''), Utilities.Charset.UTF_8);
+  return digest.map(b => ('0' + (b & 0xff).toString(16)).slice(-2)).join('');
+}
+
+/**
+ * Find a note's row in the Notes sheet
+ * @returns {Object|null} {rowIndex (1-based), row} or null
+ */
+function findNoteRow(noteId) {
+  const notesSheet = SpreadsheetApp.openById(SHEET_ID).getSheetByName(NOTES_SHEET);
+  if (!notesSheet) return null;
+
+  const data = notesSheet.getDataRange().getValues();
+  for (let i = 1; i < data.length; i++) {
+    if (data[i][0] === noteId) {
+      return { sheet: notesSheet, rowIndex: i + 1, row: data[i] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Compare two emails the way shareNote stores recipients (trimmed, lowercased)
+ */
+function isSameNoteEmail(a, b) {
+  return String(a || '').trim().toLowerCase() === String(b || '').trim().toLowerCase();
+}
+
+/**
+ * What a student may do with a note: 'owner', a shared role, or null without access
+ */
+function getNoteAccess(noteRow, studentEmail) {
+  if (!noteRow || !studentEmail) return null;
+  if (isSameNoteEmail(noteRow[1], studentEmail)) return 'owner';
+
+  const data = getOrCreateNoteSharesSheet().getDataRange().getValues();
+  for (let i = 1; i < data.length; i++) {
+    if (data[i][1] === noteRow[0] && isSameNoteEmail(data[i][3], studentEmail)) {
+      return data[i][4];
+    }
+  }
+  return null;
+}
+
+/**
+ * IDs of notes shared with at least one classmate
+ */
+function getSharedNoteIds() {
+  const data = getOrCreateNoteSharesSheet().getDataRange().getValues();
+  return new Set(data.slice(1).map(row => row[1]));
+}
+
+/**
+ * The owner's own save paths overwrite the whole note, so once it is shared they must be based on
+ * the current revision like updateSharedNote; otherwise classmates' lines would be lost
+ * @returns {Object|null} the conflict response, or null when the save can go ahead
+ */
+function checkOwnerNoteRevision(noteId, currentContent, baseRevision) {
+  if (!getSharedNoteIds().has(noteId)) return null;
+
+  const currentRevision = getNoteRevision(currentContent);
+  if (baseRevision === currentRevision) return null;
+
+  return {
+    success: false,
+    conflict: true,
+    error: 'The note was changed by someone else',
+    data: { noteContent: currentContent, revision: currentRevision }
+  };
+}
+
+function lookupStudentName(studentEmail) {
+  const studentSheet = SpreadsheetApp.openById(SHEET_ID).getSheetByName(STUDENT_DATA_SHEET);
+  if (!studentSheet) return '';
+
+  const studentData = studentSheet.getDataRange().getValues();
+  const emailCol = studentData[0].indexOf('Email');
+  const nameCol = studentData[0].indexOf('Name');
+  for (let i = 1; i < studentData.length; i++) {
+    if (studentData[i][emailCol] === studentEmail) {
+      return studentData[i][nameCol];
+    }
+  }
+  return '';
+}
+
+/**
+ * Share a note with classmates, or change their role
+ * @param {string} ownerEmail - Must own the note
+ * @param {string} noteId - Note ID
+ * @param {Array} recipients - [{email, role}]
+ * @param {string} groupName - Assignment group the recipients came from, if any
+ * @returns {Object} {success, data: {shared}}
+ */
+function shareNote(ownerEmail, noteId, recipients, groupName) {
+  try {
+    const note = findNoteRow(noteId);
+    if (!note || !isSameNoteEmail(note.row[1], ownerEmail)) {
+      return { success: false, error: 'Only the owner can share this note' };
+    }
+
+    const sheet = getOrCreateNoteSharesSheet();
+    const data = sheet.getDataRange().getValues();
+    const now = formatTimestampForSheets();
+    let shared = 0;
+
+    (recipients || []).forEach(recipient => {
+      const email = String(recipient.email || '').trim().toLowerCase();
+      const role = NOTE_ROLES.indexOf(recipient.role) !== -1 ? recipient.role : 'view';
+      if (!email || email === String(ownerEmail).toLowerCase()) return;
+
+      let existingRow = -1;
+      for (let i = 1; i < data.length; i++) {
+        if (data[i][1] === noteId && String(data[i][3]).toLowerCase() === email) {
+          existingRow = i + 1;
+          break;
+        }
+      }
+
+      if (existingRow > 0) {
+        sheet.getRange(existingRow, 5).setValue(role);
+      } else {
+        const row = ['share_' + Utilities.getUuid(), noteId, ownerEmail, email, role, groupName || '', now];
+        sheet.appendRow(row);
+        data.push(row);
+      }
+      shared++;
+    });
+
+    return { success: true, data: { shared: shared } };
+
+  } catch (error) {
+    Logger.log('Error in shareNote: ' + error.message);
+    return { success: false, error: 'Failed to share note: ' + error.message };
+  }
+}
+
+/**
+ * Stop sharing a note with one classmate
+ */
+function removeNoteShare(ownerEmail, noteId, recipientEmail) {
+  try {
+    const note = findNoteRow(noteId);
+    if (!note || !isSameNoteEmail(note.row[1], ownerEmail)) {
+      return { success: false, error: 'Only the owner can change sharing' };
+    }
+
+    const sheet = getOrCreateNoteSharesSheet();
+    const data = sheet.getDataRange().getValues();
+    for (let i = data.length - 1; i >= 1; i--) {
+      if (data[i][1] === noteId && isSameNoteEmail(data[i][3], recipientEmail)) {
+        sheet.deleteRow(i + 1);
+      }
+    }
+
+    return { success: true, data: null };
+
+  } catch (error) {
+    Logger.log('Error in removeNoteShare: ' + error.message);
+    return { success: false, error: 'Failed to update sharing: ' + error.message };
+  }
+}
+
+/**
+ * Classmates a note is shared with, for its owner
+ */
+function getNoteShares(ownerEmail, noteId) {
+  try {
+    const note = findNoteRow(noteId);
+    if (!note || !isSameNoteEmail(note.row[1], ownerEmail)) {
+      return { success: false, error: 'Only the owner can see who a note is shared with' };
+    }
+
+    const data = getOrCreateNoteSharesSheet().getDataRange().getValues();
+    const shares = data.slice(1)
+      .filter(row => row[1] === noteId)
+      .map(row => ({
+        email: row[3],
+        role: row[4],
+        groupName: row[5],
+        sharedAt: row[6]
+      }));
+
+    return { success: true, data: shares };
+
+  } catch (error) {
+    Logger.log('Error in getNoteShares: ' + error.message);
+    return { success: false, error: 'Failed to get note shares: ' + error.message };
+  }
+}
+
+/**
+ * Notes other students shared with this student, with the role they were given
+ * and the revision the content is at
+ */
+function getSharedNotes(studentEmail) {
+  try {
+    const shares = getOrCreateNoteSharesSheet().getDataRange().getValues().slice(1)
+      .filter(row => isSameNoteEmail(row[3], studentEmail));
+    if (shares.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const roles = {};
+    const groups = {};
+    shares.forEach(row => {
+      roles[row[1]] = row[4];
+      groups[row[1]] = row[5];
+    });
+
+    const notesSheet = SpreadsheetApp.openById(SHEET_ID).getSheetByName(NOTES_SHEET);
+    const data = notesSheet ? notesSheet.getDataRange().getValues() : [];
+    const notes = [];
+
+    // Same columns as getAllStudentNotes
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (!roles[row[0]]) continue;
+      notes.push({
+        noteId: row[0],
+        ownerEmail: row[1],
+        ownerName: row[2],
+        batch: row[3],
+        term: row[4],
+        domain: row[5],
+        subject: row[6],
+        sessionName: row[7],
+        date: row[8],
+        startTime: row[9],
+        sessionId: row[10],
+        noteTitle: row[11],
+        noteContent: row[12],
+        images: row[13],
+        timestamp: row[14],
+        lastModified: row[15],
+        isPinned: 'No',
+        noteTags: row[17],
+        type: row[18],
+        role: roles[row[0]],
+        groupName: groups[row[0]],
+        revision: getNoteRevision(row[12])
+      });
+    }
+
+    notes.sort((a, b) => new Date(b.lastModified) - new Date(a.lastModified));
+
+    return { success: true, data: notes };
+
+  } catch (error) {
+    Logger.log('Error in getSharedNotes: ' + error.message);
+    return { success: false, error: 'Failed to get shared notes: ' + error.message };
+  }
+}
+
+/**
+ * Save a co-authored note's content if nobody saved it since `baseRevision`
+ * On a conflict nothing is written and the current content is returned for the client to merge.
+ * @returns {Object} {success, data: {revision, lastModified}} or {success: false, conflict: true, data: {noteContent, revision}}
+ */
+function updateSharedNote(studentEmail, noteId, noteContent, baseRevision) {
+  const lock = LockService.getScriptLock();
+  try {
+    lock.waitLock(10000);
+
+    const note = findNoteRow(noteId);
+    const access = getNoteAccess(note && note.row, studentEmail);
+    if (access !== 'owner' && access !== 'edit') {
+      return { success: false, error: 'You do not have permission to edit this note' };
+    }
+
+    const currentRevision = getNoteRevision(note.row[12]);
+    if (baseRevision !== currentRevision) {
+      return {
+        success: false,
+        conflict: true,
+        error: 'The note was changed by someone else',
+        data: { noteContent: note.row[12], revision: currentRevision }
+      };
+    }
+
+    const now = formatTimestampForSheets();
+    note.sheet.getRange(note.rowIndex, 13).setValue(noteContent);  // M: Note Content
+    note.sheet.getRange(note.rowIndex, 16).setValue(now);          // P: Last Modified
+
+    return {
+      success: true,
+      data: { revision: getNoteRevision(noteContent), lastModified: now }
+    };
+
+  } catch (error) {
+    Logger.log('Error in updateSharedNote: ' + error.message);
+    return { success: false, error: 'Failed to save note: ' + error.message };
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+/**
+ * Comments on a note, oldest first; visible to the owner and everyone it is shared with
+ */
+function getNoteComments(studentEmail, noteId) {
+  try {
+    const note = findNoteRow(noteId);
+    if (!getNoteAccess(note && note.row, studentEmail)) {
+      return { success: false, error: 'You do not have access to this note' };
+    }
+
+    const data = getOrCreateNoteCommentsSheet().getDataRange().getValues();
+    const comments = data.slice(1)
+      .filter(row => row[1] === noteId)
+      .map(row => ({
+        commentId: row[0],
+        noteId: row[1],
+        authorEmail: row[2],
+        authorName: row[3],
+        comment: row[4],
+        createdAt: row[5]
+      }));
+
+    return { success: true, data: comments };
+
+  } catch (error) {
+    Logger.log('Error in getNoteComments: ' + error.message);
+    return { success: false, error: 'Failed to get comments: ' + error.message };
+  }
+}
+
+/**
+ * Add a comment; needs the comment or edit role, or owning the note
+ */
+function addNoteComment(studentEmail, noteId, comment) {
+  try {
+    if (!comment || !String(comment).trim()) {
+      return { success: false, error: 'Comment is empty' };
+    }
+
+    const note = findNoteRow(noteId);
+    const access = getNoteAccess(note && note.row, studentEmail);
+    if (!access || access === 'view') {
+      return { success: false, error: 'You do not have permission to comment on this note' };
+    }
+
+    const row = [
+      'comment_' + Utilities.getUuid(),
+      noteId,
+      studentEmail,
+      lookupStudentName(studentEmail),
+      String(comment).trim(),
+      formatTimestampForSheets()
+    ];
+    getOrCreateNoteCommentsSheet().appendRow(row);
+
+    return {
+      success: true,
+      data: {
+        commentId: row[0],
+        noteId: row[1],
+        authorEmail: row[2],
+        authorName: row[3],
+        comment: row[4],
+        createdAt: row[5]
+      }
+    };
+
+  } catch (error) {
+    Logger.log('Error in addNoteComment: ' + error.message);
+    return { success: false, error: 'Failed to add comment: ' + error.message };
+  }
+}
 // ==================== ZOOM ADMIN API ====================
 
 /**
@@ -8267,6 +8955,7 @@ function getSessionNotes(studentId, sessionId) {
 
     const data = notesSheet.getDataRange().getValues();
     const notes = [];
+    const sharedNoteIds = getSharedNoteIds();
 
     // Find ALL notes for this student and session (skip header row) - THREADED
     for (let i = 1; i < data.length; i++) {
@@ -8290,7 +8979,9 @@ function getSessionNotes(studentId, sessionId) {
           timestamp: row[14],        // Column O
           lastModified: row[15],     // Column P
           isPinned: row[16],         // Column Q
-          tags: row[17]              // Column R (comma-separated tags)
+          tags: row[17],             // Column R (comma-separated tags)
+          revision: getNoteRevision(row[12]),
+          isShared: sharedNoteIds.has(row[0])
         });
       }
     }
@@ -8479,6 +9170,7 @@ function getAllStudentNotes(studentId) {
 
     const data = notesSheet.getDataRange().getValues();
     const notes = [];
+    const sharedNoteIds = getSharedNoteIds();
 
     // Column mapping for Notes sheet:
     // A=0: Note ID, B=1: Student Email, C=2: Student Name, D=3: Batch,
@@ -8511,7 +9203,9 @@ function getAllStudentNotes(studentId) {
           lastModified: row[15],    // P: Last Modified
           isPinned: row[16],        // Q: Is Pinned
           noteTags: row[17],        // R: Tags
-          type: row[18]             // S: Type
+          type: row[18],            // S: Type
+          revision: getNoteRevision(row[12]),
+          isShared: sharedNoteIds.has(row[0])
         });
       }
     }
@@ -8637,6 +9331,7 @@ const FORMS_API_CONFIG = {
     OPTIONS: "Form_Question_Options",
     RESPONSES: "Form_Responses",
     CONDITIONAL_LOGIC: "Form_Conditional_Logic",  // ✅ Already defined
+    DRAFTS: "Form_Response_Drafts",
     STUDENT_DATA: "Student Data"
   },
 
@@ -9565,7 +10260,9 @@ function getFormQuestions(formId) {
               operator: rule.operator,
               value: rule.value,
               action: rule.action,
-              order: rule.order || 0
+              order: rule.order || 0,
+              condition: rule.condition,
+              targetIndex: rule.targetIndex
             }))
           : undefined,
         createdAt: row[25],
@@ -10304,6 +11001,9 @@ function submitFormResponse(responseData) {
     // Update form's total response count
     updateFormResponseCount(responseData.formId);
 
+    // The draft has been submitted
+    deleteFormDraft(responseData.formId, responseData.userEmail);
+
     Logger.log(`✅ ========== FORM SUBMISSION COMPLETED ==========`);
     Logger.log(`✅ Response ID: ${responseId}`);
     Logger.log(`✅ Saved to row: ${rowIndex}`);
@@ -10487,6 +11187,213 @@ function getAllFormResponses(formId) {
   }
 }
 
+// ==================== RESPONSE DRAFTS ====================
+
+/**
+ * GOOGLE SHEETS SCHEMA FOR FORM_RESPONSE_DRAFTS
+ * One row per form and user; drafts are removed when the response is submitted.
+ * A - Draft_ID
+ * B - Form_ID
+ * C - User_Email
+ * D - Response_JSON
+ * E - Current_Question_Index
+ * F - Path_JSON (question indexes visited before the current one)
+ * G - Saved_At
+ * H - Device_Type
+ */
+function getOrCreateDraftsSheet() {
+  const spreadsheet = SpreadsheetApp.openById(FORMS_API_CONFIG.SHEET_ID);
+  let sheet = spreadsheet.getSheetByName(FORMS_API_CONFIG.SHEETS.DRAFTS);
+
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(FORMS_API_CONFIG.SHEETS.DRAFTS);
+    sheet.appendRow([
+      'Draft_ID',               // A
+      'Form_ID',                // B
+      'User_Email',             // C
+      'Response_JSON',          // D
+      'Current_Question_Index', // E
+      'Path_JSON',              // F
+      'Saved_At',               // G
+      'Device_Type'             // H
+    ]);
+    sheet.setFrozenRows(1);
+  }
+
+  return sheet;
+}
+
+/**
+ * Find the sheet row (1-based) holding a user's draft for a form
+ * @returns {number} Row number, or -1 when there is no draft
+ */
+function findDraftRow(sheet, formId, userEmail) {
+  const data = sheet.getDataRange().getValues();
+  for (let i = 1; i < data.length; i++) {
+    if (data[i][1] === formId && data[i][2] === userEmail) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Get a user's saved draft for a form
+ * @param {string} formId - Form ID
+ * @param {string} userEmail - User email
+ * @returns {Object} {success, data: draft or null}
+ */
+function getFormDraft(formId, userEmail) {
+  try {
+    const sheet = getOrCreateDraftsSheet();
+    const rowIndex = findDraftRow(sheet, formId, userEmail);
+
+    if (rowIndex === -1) {
+      return { success: true, data: null };
+    }
+
+    const row = sheet.getRange(rowIndex, 1, 1, 8).getValues()[0];
+    return {
+      success: true,
+      data: {
+        draftId: row[0],
+        formId: row[1],
+        userEmail: row[2],
+        answers: JSON.parse(row[3] || '{}'),
+        currentIndex: Number(row[4]) || 0,
+        path: JSON.parse(row[5] || '[]'),
+        savedAt: row[6],
+        deviceType: row[7]
+      }
+    };
+
+  } catch (error) {
+    Logger.log(`❌ Error getting form draft: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Save (create or replace) a user's draft for a form
+ * Drafts are only kept while the user may still submit: the form must be open, and a user who
+ * has used up Max_Responses_Per_User can only keep a draft when Allow_Edit_Response is Yes.
+ * @param {Object} draftData - {formId, userEmail, answers, currentIndex, path, deviceType}
+ * @returns {Object} {success, data: {savedAt}}
+ */
+function saveFormDraft(draftData) {
+  try {
+    const formId = draftData.formId;
+    const userEmail = draftData.userEmail;
+
+    if (!formId || !userEmail) {
+      return { success: false, error: 'Form ID and user email are required' };
+    }
+
+    const deadlineCheck = validateFormDeadline(formId);
+    if (deadlineCheck.expired) {
+      return {
+        success: false,
+        error: 'FORM_EXPIRED',
+        message: deadlineCheck.message
+      };
+    }
+
+    const spreadsheet = SpreadsheetApp.openById(FORMS_API_CONFIG.SHEET_ID);
+    const formsData = spreadsheet.getSheetByName(FORMS_API_CONFIG.SHEETS.FORMS).getDataRange().getValues();
+    const formRow = formsData.find((row, i) => i > 0 && row[0] === formId);
+    if (!formRow) {
+      return { success: false, error: 'Form not found' };
+    }
+
+    const maxResponses = Number(formRow[20]) || 1;  // U - Max_Responses_Per_User
+    const allowEditResponse = formRow[24] === 'Yes'; // Y - Allow_Edit_Response
+    const userResponses = getUserFormResponses(formId, userEmail);
+    const completedCount = userResponses.success
+      ? userResponses.data.filter(r => r.isComplete === 'Yes').length
+      : 0;
+
+    if (completedCount >= maxResponses && !allowEditResponse) {
+      return {
+        success: false,
+        error: 'DRAFT_NOT_ALLOWED',
+        message: 'You have already completed this form'
+      };
+    }
+
+    const answers = typeof draftData.answers === 'string' ? draftData.answers : JSON.stringify(draftData.answers || {});
+    const path = typeof draftData.path === 'string' ? draftData.path : JSON.stringify(draftData.path || []);
+    const timestamp = formatFormsTimestamp();
+
+    const sheet = getOrCreateDraftsSheet();
+    const rowIndex = findDraftRow(sheet, formId, userEmail);
+
+    if (rowIndex === -1) {
+      sheet.appendRow([
+        generateFormsId('DRAFT'),           // A - Draft_ID
+        formId,                             // B - Form_ID
+        userEmail,                          // C - User_Email
+        answers,                            // D - Response_JSON
+        Number(draftData.currentIndex) || 0, // E - Current_Question_Index
+        path,                               // F - Path_JSON
+        timestamp,                          // G - Saved_At
+        draftData.deviceType || 'Unknown'   // H - Device_Type
+      ]);
+    } else {
+      sheet.getRange(rowIndex, 4, 1, 5).setValues([[
+        answers,
+        Number(draftData.currentIndex) || 0,
+        path,
+        timestamp,
+        draftData.deviceType || 'Unknown'
+      ]]);
+    }
+
+    Logger.log(`💾 Saved draft for form ${formId}, user ${userEmail}`);
+
+    return {
+      success: true,
+      data: { savedAt: timestamp }
+    };
+
+  } catch (error) {
+    Logger.log(`❌ Error saving form draft: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Delete a user's draft for a form (no-op when there is none)
+ * @param {string} formId - Form ID
+ * @param {string} userEmail - User email
+ * @returns {Object} {success}
+ */
+function deleteFormDraft(formId, userEmail) {
+  try {
+    const sheet = getOrCreateDraftsSheet();
+    const rowIndex = findDraftRow(sheet, formId, userEmail);
+
+    if (rowIndex !== -1) {
+      sheet.deleteRow(rowIndex);
+      Logger.log(`🗑️ Deleted draft for form ${formId}, user ${userEmail}`);
+    }
+
+    return { success: true };
+
+  } catch (error) {
+    Logger.log(`❌ Error deleting form draft: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
 
 /**
  * FORMS CRUD OPERATIONS - ADD THESE TO Forms API.js
@@ -11599,7 +12506,7 @@ function deleteOption(optionId) {
  * Create conditional logic rules for a question
  * @param {string} questionId - Question ID
  * @param {string} formId - Form ID
- * @param {Array} rules - Array of conditional rules [{questionIndex, operator, value}]
+ * @param {Array} rules - Array of conditional rules [{action, condition, targetIndex}]; older rules use {questionIndex, operator, value}
  * @returns {Object} {success}
  */
 function createConditionalRules(questionId, formId, rules) {
@@ -11623,13 +12530,15 @@ function createConditionalRules(questionId, formId, rules) {
         ruleId,                                   // A - Rule_ID
         questionId,                               // B - Question_ID
         formId,                                   // C - Form_ID
-        rule.questionIndex,                       // D - Target_Question_Index
-        rule.operator || 'equals',                // E - Operator
+        rule.questionIndex !== undefined ? rule.questionIndex : '', // D - Target_Question_Index
+        rule.operator || (rule.condition ? '' : 'equals'), // E - Operator
         rule.value || '',                         // F - Value
-        'show',                                   // G - Action (show/hide)
+        rule.action || 'show',                    // G - Action (show/hide/skip/jump/submit)
         i + 1,                                    // H - Rule_Order
         timestamp,                                // I - Created_At
-        ''                                        // J - Notes
+        '',                                       // J - Notes
+        rule.condition ? JSON.stringify(rule.condition) : '', // K - Condition_JSON
+        rule.targetIndex !== undefined ? rule.targetIndex : '' // L - Jump_Target_Index
       ];
 
       logicSheet.appendRow(row);
@@ -11675,7 +12584,9 @@ function getConditionalRules(questionId) {
           action: row[6],
           order: row[7],
           createdAt: row[8],
-          notes: row[9]
+          notes: row[9],
+          condition: parseConditionJson(row[10]),
+          targetIndex: row[11] === '' || row[11] === undefined ? undefined : Number(row[11])
         });
       }
     }
@@ -11698,6 +12609,21 @@ function getConditionalRules(questionId) {
   }
 }
 
+/**
+ * Parse the nested AND/OR condition group stored with a rule
+ * @param {string} value - Condition_JSON cell
+ * @returns {Object|undefined} Condition group, or undefined for single-condition rules
+ */
+function parseConditionJson(value) {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    Logger.log(`⚠️ Invalid Condition_JSON: ${error.message}`);
+    return undefined;
+  }
+}
+
 /**
  * Update conditional logic rules for a question
  * Deletes existing rules and creates new ones
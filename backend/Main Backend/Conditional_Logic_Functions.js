@@ -6,7 +6,7 @@
  * Create conditional logic rules for a question
  * @param {string} questionId - Question ID
  * @param {string} formId - Form ID
- * @param {Array} rules - Array of conditional rules [{questionIndex, operator, value}]
+ * @param {Array} rules - Array of conditional rules [{action, condition, targetIndex}]; older rules use {questionIndex, operator, value}
  * @returns {Object} {success}
  */
 function createConditionalRules(questionId, formId, rules) {
@@ -30,13 +30,15 @@ function createConditionalRules(questionId, formId, rules) {
         ruleId,                                   // A - Rule_ID
         questionId,                               // B - Question_ID
         formId,                                   // C - Form_ID
-        rule.questionIndex,                       // D - Target_Question_Index
-        rule.operator || 'equals',                // E - Operator
+        rule.questionIndex !== undefined ? rule.questionIndex : '', // D - Target_Question_Index
+        rule.operator || (rule.condition ? '' : 'equals'), // E - Operator
         rule.value || '',                         // F - Value
-        'show',                                   // G - Action (show/hide)
+        rule.action || 'show',                    // G - Action (show/hide/skip/jump/submit)
         i + 1,                                    // H - Rule_Order
         timestamp,                                // I - Created_At
-        ''                                        // J - Notes
+        '',                                       // J - Notes
+        rule.condition ? JSON.stringify(rule.condition) : '', // K - Condition_JSON
+        rule.targetIndex !== undefined ? rule.targetIndex : '' // L - Jump_Target_Index
       ];
 
       logicSheet.appendRow(row);
@@ -82,7 +84,9 @@ function getConditionalRules(questionId) {
           action: row[6],
           order: row[7],
           createdAt: row[8],
-          notes: row[9]
+          notes: row[9],
+          condition: parseConditionJson(row[10]),
+          targetIndex: row[11] === '' || row[11] === undefined ? undefined : Number(row[11])
         });
       }
     }
@@ -105,6 +109,21 @@ function getConditionalRules(questionId) {
   }
 }
 
+/**
+ * Parse the nested AND/OR condition group stored with a rule
+ * @param {string} value - Condition_JSON cell
+ * @returns {Object|undefined} Condition group, or undefined for single-condition rules
+ */
+function parseConditionJson(value) {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    Logger.log(`⚠️ Invalid Condition_JSON: ${error.message}`);
+    return undefined;
+  }
+}
+
 /**
  * Update conditional logic rules for a question
  * Deletes existing rules and creates new ones
@@ -13,6 +13,13 @@ const JOB_PORTAL_SHEET_ID = "";
 const JOB_PORTAL_SHEET_NAME = "Placement Data";
 const JOB_PORTAL_DRIVE_FOLDER_ID = ""; // SSB PLACEMENT JOB PORTAL FOLDER
 
+// Additional tabs inside the Job Portal spreadsheet
+const PLACEMENT_NOTIFICATIONS_SHEET_NAME = "Placement Notifications";
+const PLACEMENT_NOTIFICATION_STATE_SHEET_NAME = "Notification Status";
+const PLACEMENT_OFFERS_SHEET_NAME = "Placement Offers";
+const PLACEMENT_STAGE_HISTORY_SHEET_NAME = "Application Stage History";
+const PLACEMENT_INTERVIEW_SLOTS_SHEET_NAME = "Interview Slots";
+
 // Placement Resume Drive folder configuration
 const PLACEMENT_RESUME_FOLDER_ID = "";
 
@@ -187,6 +194,99 @@ function handleRequest(e) {
         result = getStudentApplications(allParams.studentEmail);
         break;
 
+      case 'updateApplicationStatus':
+        result = updateApplicationStatus(allParams.jobId, allParams.studentEmail, allParams.status, allParams.note, allParams.adminEmail);
+        break;
+
+      // Recruitment pipeline
+      case 'getJobPipeline':
+        result = getJobPipeline(allParams.jobId);
+        break;
+
+      case 'saveJobPipelineStages':
+        result = saveJobPipelineStages(allParams.jobId, allParams.stages ? JSON.parse(allParams.stages) : []);
+        break;
+
+      case 'moveApplicantsToStage':
+        result = moveApplicantsToStage(
+          allParams.jobId,
+          allParams.studentEmails ? JSON.parse(allParams.studentEmails) : [],
+          allParams.stage,
+          allParams.note,
+          allParams.adminEmail
+        );
+        break;
+
+      case 'scheduleInterviewSlots':
+        result = scheduleInterviewSlots(allParams.jobId, allParams.slots ? JSON.parse(allParams.slots) : [], allParams.adminEmail);
+        break;
+
+      case 'deleteInterviewSlot':
+        result = deleteInterviewSlot(allParams.slotId);
+        break;
+
+      case 'getApplicantProfiles':
+        result = getApplicantProfiles(allParams.studentEmails ? JSON.parse(allParams.studentEmails) : []);
+        break;
+
+      case 'getApplicantResumeFile':
+        result = getApplicantResumeFile(allParams.jobId, allParams.studentEmail);
+        break;
+
+      // Offers and placement report
+      case 'getOffers':
+        result = getOffers({
+          batch: allParams.batch,
+          studentEmail: allParams.studentEmail,
+          jobId: allParams.jobId
+        });
+        break;
+
+      case 'createOffer':
+        result = createOffer(allParams.offerData ? JSON.parse(allParams.offerData) : {}, allParams.adminEmail);
+        break;
+
+      case 'updateOffer':
+        result = updateOffer(allParams.offerId, allParams.updates ? JSON.parse(allParams.updates) : {});
+        break;
+
+      case 'deleteOffer':
+        result = deleteOffer(allParams.offerId);
+        break;
+
+      case 'getPlacementReport':
+        result = getPlacementReport();
+        break;
+
+      // Eligibility rule engine
+      case 'getPlacementFacts':
+        result = getPlacementFacts(allParams.studentEmail);
+        break;
+
+      case 'previewJobEligibility':
+        result = previewJobEligibility(allParams.jobData ? JSON.parse(allParams.jobData) : {});
+        break;
+
+      // Placement notifications
+      case 'getPlacementNotifications':
+        result = getPlacementNotifications(allParams.studentEmail);
+        break;
+
+      case 'markNotificationsRead':
+        result = markNotificationsRead(
+          allParams.studentEmail,
+          allParams.notificationIds ? JSON.parse(allParams.notificationIds) : [],
+          allParams.markAll === 'true' || allParams.markAll === true
+        );
+        break;
+
+      case 'deleteNotifications':
+        result = deleteNotifications(
+          allParams.studentEmail,
+          allParams.notificationIds ? JSON.parse(allParams.notificationIds) : []
+        );
+        break;
+
       // Admin operations
       case 'isAdmin':
         result = { success: true, isAdmin: isAdmin(allParams.email) };
@@ -259,3 +359,21 @@ function getOrCreateFolder(parentFolder, folderName) {
     throw error;
   }
 }
+
+/**
+ * Get a tab from the Job Portal spreadsheet, creating it with a bold frozen header row if missing
+ */
+function getOrCreatePortalSheet(sheetName, headers) {
+  const spreadsheet = SpreadsheetApp.openById(JOB_PORTAL_SHEET_ID);
+  let sheet = spreadsheet.getSheetByName(sheetName);
+
+  if (!sheet) {
+    Logger.log(`📊 Creating sheet: ${sheetName}`);
+    sheet = spreadsheet.insertSheet(sheetName);
+    sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+    sheet.getRange(1, 1, 1, headers.length).setFontWeight('bold');
+    sheet.setFrozenRows(1);
+  }
+
+  return sheet;
+}
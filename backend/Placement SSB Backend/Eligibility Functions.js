@@ -0,0 +1,243 @@
+// ================================================================================================
+// ELIGIBILITY FUNCTIONS - Job eligibility rule engine
+// ================================================================================================
+// Mirror of src/utils/eligibility.ts - the portal hides ineligible jobs with the same logic,
+// and submitJobApplication re-checks here so the rules can't be bypassed.
+
+/**
+ * Parse the EligibilityRules cell (JSON string) into a rule group, or null when blank/invalid
+ */
+function parseEligibilityRules(value) {
+  if (!value) return null;
+  if (typeof value === 'object') return value;
+  try {
+    const parsed = JSON.parse(String(value));
+    return parsed && parsed.type === 'group' ? parsed : null;
+  } catch (error) {
+    Logger.log(`Invalid eligibility rules JSON: ${error.message}`);
+    return null;
+  }
+}
+
+function splitEligibilityList(value) {
+  return String(value || '').split(',').map(v => v.trim().toLowerCase()).filter(v => v);
+}
+
+const ELIGIBILITY_FIELD_KINDS = {
+  batch: 'text',
+  offersCount: 'number',
+  hasPPO: 'boolean',
+  currentOfferCTC: 'number',
+  skills: 'list',
+  experienceMonths: 'number'
+};
+
+function evaluateEligibilityCondition(condition, facts) {
+  const raw = facts[condition.field];
+  const operator = condition.operator;
+  const value = String(condition.value || '');
+
+  switch (ELIGIBILITY_FIELD_KINDS[condition.field]) {
+    case 'number': {
+      const actual = Number(raw) || 0;
+      const expected = parseFloat(value);
+      if (isNaN(expected)) return true;
+      if (operator === 'equals') return actual === expected;
+      if (operator === 'notEquals') return actual !== expected;
+      if (operator === 'gt') return actual > expected;
+      if (operator === 'gte') return actual >= expected;
+      if (operator === 'lt') return actual < expected;
+      if (operator === 'lte') return actual <= expected;
+      return true;
+    }
+    case 'boolean':
+      return Boolean(raw) === (value === 'true');
+    case 'list': {
+      const actual = (raw || []).map(s => String(s).toLowerCase());
+      const expected = splitEligibilityList(value);
+      if (expected.length === 0) return true;
+      if (operator === 'includesAny') return expected.some(s => actual.indexOf(s) !== -1);
+      if (operator === 'includesAll') return expected.every(s => actual.indexOf(s) !== -1);
+      if (operator === 'excludesAll') return !expected.some(s => actual.indexOf(s) !== -1);
+      return true;
+    }
+    case 'text': {
+      const actual = String(raw || '').trim().toLowerCase();
+      if (operator === 'in' || operator === 'notIn') {
+        const expected = splitEligibilityList(value);
+        if (expected.length === 0) return true;
+        return operator === 'in' ? expected.indexOf(actual) !== -1 : expected.indexOf(actual) === -1;
+      }
+      const expected = value.trim().toLowerCase();
+      if (!expected) return true;
+      return operator === 'equals' ? actual === expected : actual !== expected;
+    }
+    default:
+      // Unknown field - don't lock students out because of a stale rule
+      return true;
+  }
+}
+
+function evaluateEligibilityRule(rule, facts) {
+  if (!rule) return true;
+  if (rule.type === 'condition') return evaluateEligibilityCondition(rule, facts);
+  const rules = rule.rules || [];
+  if (rules.length === 0) return true;
+  return rule.combinator === 'OR'
+    ? rules.some(r => evaluateEligibilityRule(r, facts))
+    : rules.every(r => evaluateEligibilityRule(r, facts));
+}
+
+/**
+ * Batches a job is shown to: showToBatchLevels when set, otherwise the job's batch
+ */
+function getJobAudience(job) {
+  return job.showToBatchLevels || job.batch || '';
+}
+
+/**
+ * Whether a batch is in a comma-separated audience (case-insensitive); an empty audience includes everyone
+ */
+function isBatchInAudience(audience, batch) {
+  const batches = splitEligibilityList(audience);
+  return batches.length === 0 || batches.indexOf(String(batch || '').trim().toLowerCase()) !== -1;
+}
+
+/**
+ * Audience check (job batch, or showToBatchLevels when set) followed by the job's rules
+ */
+function isEligibleForJob(job, facts) {
+  if (!isBatchInAudience(getJobAudience(job), facts.batch)) return false;
+  return evaluateEligibilityRule(parseEligibilityRules(job.eligibilityRules), facts);
+}
+
+/**
+ * Read offers grouped by lowercased student email
+ * Returns an empty index until the Placement Offers sheet exists
+ */
+function readOffersByStudent() {
+  const index = {};
+  const sheet = SpreadsheetApp.openById(JOB_PORTAL_SHEET_ID).getSheetByName(PLACEMENT_OFFERS_SHEET_NAME);
+  if (!sheet) return index;
+
+  const data = sheet.getDataRange().getValues();
+  const headers = data[0];
+  const emailCol = headers.indexOf('StudentEmail');
+  const typeCol = headers.indexOf('OfferType');
+  const ctcTypeCol = headers.indexOf('CTCType');
+  const ctcCol = headers.indexOf('CTCValue');
+  const statusCol = headers.indexOf('Status');
+
+  for (let i = 1; i < data.length; i++) {
+    const email = String(data[i][emailCol] || '').toLowerCase();
+    if (!email) continue;
+    if (!index[email]) index[email] = [];
+    index[email].push({
+      offerType: data[i][typeCol],
+      ctcType: data[i][ctcTypeCol],
+      ctcValue: Number(data[i][ctcCol]) || 0,
+      status: data[i][statusCol]
+    });
+  }
+
+  return index;
+}
+
+/**
+ * An offer's CTC in LPA; monthly stipends are stored in ₹K/month and count as 0 (as offerCTC in placementReport.ts)
+ */
+function offerCTCInLPA(offer) {
+  if (offer.ctcType === 'MonthlyStipend') return 0;
+  return Number(offer.ctcValue) || 0;
+}
+
+/**
+ * Build the facts the rule engine evaluates from a Student Profile row and the student's offers
+ * Student Profile columns: Email (0), Batch (3), Tech Skills (16), Soft Skills (17), Total FT Experience Months (52)
+ */
+function buildPlacementFacts(profileRow, offers) {
+  const activeOffers = (offers || []).filter(o => o.status !== 'Declined');
+
+  return {
+    batch: profileRow[3] || '',
+    offersCount: activeOffers.length,
+    hasPPO: activeOffers.some(o => o.offerType === 'PPO'),
+    currentOfferCTC: activeOffers.reduce((max, o) => Math.max(max, offerCTCInLPA(o)), 0),
+    skills: splitEligibilityList(`${profileRow[16] || ''},${profileRow[17] || ''}`),
+    experienceMonths: Number(profileRow[52]) || 0
+  };
+}
+
+/**
+ * Get placement facts for a single student
+ */
+function getPlacementFacts(studentEmail) {
+  try {
+    if (!studentEmail) {
+      return { success: false, error: 'Student email is required' };
+    }
+
+    const email = String(studentEmail).toLowerCase();
+    const data = SpreadsheetApp.openById(STUDENT_SHEET_ID).getSheetByName(STUDENT_PROFILE_SHEET).getDataRange().getValues();
+
+    for (let i = 1; i < data.length; i++) {
+      if (String(data[i][0]).toLowerCase() === email) {
+        return {
+          success: true,
+          data: buildPlacementFacts(data[i], readOffersByStudent()[email])
+        };
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Student profile not found'
+    };
+
+  } catch (error) {
+    Logger.log(`Error getting placement facts: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Count how many students a draft job would reach
+ * @param {Object} jobData - { batch, showToBatchLevels, eligibilityRules }
+ * @return {Object} { eligibleCount, audienceCount } - audience is everyone in the job's batches
+ */
+function previewJobEligibility(jobData) {
+  try {
+    const data = SpreadsheetApp.openById(STUDENT_SHEET_ID).getSheetByName(STUDENT_PROFILE_SHEET).getDataRange().getValues();
+    const offersIndex = readOffersByStudent();
+    const audienceOnly = { batch: jobData.batch, showToBatchLevels: jobData.showToBatchLevels };
+
+    let eligibleCount = 0;
+    let audienceCount = 0;
+
+    for (let i = 1; i < data.length; i++) {
+      if (!data[i][0]) continue;
+      const facts = buildPlacementFacts(data[i], offersIndex[String(data[i][0]).toLowerCase()]);
+      if (!isEligibleForJob(audienceOnly, facts)) continue;
+      audienceCount++;
+      if (isEligibleForJob(jobData, facts)) eligibleCount++;
+    }
+
+    return {
+      success: true,
+      data: {
+        eligibleCount: eligibleCount,
+        audienceCount: audienceCount
+      }
+    };
+
+  } catch (error) {
+    Logger.log(`Error previewing job eligibility: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
@@ -541,6 +541,8 @@ function createJobPosting(jobData) {
     row.push(0); // ApplicationsCount
     row.push(folderResult.jobFolderUrl); // DriveLink
     row.push(sheetResult.sheetUrl); // SheetsLink
+    row.push(''); // JDLink (set by uploadJobFile)
+    row.push(jobData.eligibilityRules ? JSON.stringify(jobData.eligibilityRules) : ''); // EligibilityRules
 
     // Append the row
     sheet.appendRow(row);
@@ -559,6 +561,14 @@ function createJobPosting(jobData) {
       }
     }
 
+    // Notify the batch in-portal once the job is live
+    if (jobData.status === 'Active') {
+      const notifyResult = notifyNewJob(jobId, jobData);
+      if (!notifyResult.success) {
+        Logger.log(`⚠️ New job notification failed: ${notifyResult.error}`);
+      }
+    }
+
     return {
       success: true,
       jobId: jobId,
@@ -680,6 +690,7 @@ function getAllJobPostings(filters) {
         fileAttachmentURL3: row[47],
         applicationStartTime: row[48],
         applicationEndTime: row[49],
+        showToBatchLevels: row[206], // Audience for isEligibleForJob on the portal, same as on apply
         mailTo: row[213],
         mailCC: row[214],
         mailBCC: row[215],
@@ -687,7 +698,9 @@ function getAllJobPostings(filters) {
         applicationsCount: row[217],
         driveLink: row[218],
         sheetsLink: row[219],
-        jdLink: row[220]
+        jdLink: row[220],
+        eligibilityRules: parseEligibilityRules(row[221]),
+        pipelineStages: parsePipelineStages(row[222])
       };
 
       // Apply filters if provided
@@ -816,7 +829,9 @@ function getJobPosting(jobId) {
             applicationsCount: row[217],
             driveLink: row[218],
             sheetsLink: row[219],
-            jdLink: row[220]
+            jdLink: row[220],
+            eligibilityRules: parseEligibilityRules(row[221]),
+            pipelineStages: parsePipelineStages(row[222])
           }
         };
       }
@@ -949,9 +964,28 @@ function updateJobPosting(jobId, updates) {
         if (updates.mailBCC !== undefined) sheet.getRange(rowIndex, 216).setValue(updates.mailBCC);
         if (updates.sendMail !== undefined) sheet.getRange(rowIndex, 217).setValue(updates.sendMail);
 
+        // Update eligibility rule engine (column 222)
+        if (updates.eligibilityRules !== undefined) {
+          sheet.getRange(rowIndex, 222).setValue(updates.eligibilityRules ? JSON.stringify(updates.eligibilityRules) : '');
+        }
+
         // Update LastUpdatedDate (column 18)
         sheet.getRange(rowIndex, 18).setValue(formatTimestampForSheets());
 
+        // A draft going live notifies its batch (de-duplicated if already announced)
+        if (updates.status === 'Active' && data[i][14] !== 'Active') {
+          const notifyResult = notifyNewJob(jobId, {
+            batch: updates.batch !== undefined ? updates.batch : data[i][1],
+            showToBatchLevels: updates.showToBatchLevels !== undefined ? updates.showToBatchLevels : data[i][206],
+            company: updates.company !== undefined ? updates.company : data[i][4],
+            role: updates.role !== undefined ? updates.role : data[i][5],
+            applicationEndTime: updates.applicationEndTime !== undefined ? updates.applicationEndTime : data[i][49]
+          });
+          if (!notifyResult.success) {
+            Logger.log(`⚠️ New job notification failed: ${notifyResult.error}`);
+          }
+        }
+
         return {
           success: true,
           message: 'Job posting updated successfully'
@@ -1114,3 +1148,113 @@ function uploadJobFile(params) {
     };
   }
 }
+
+/**
+ * Save a base64 file into a subfolder of the job's Drive folder and return its URL
+ */
+function saveApplicationFile(driveLink, subfolderName, fileName, base64Data) {
+  const folderIdMatch = String(driveLink || '').match(/folders\/([a-zA-Z0-9_-]+)/);
+  if (!folderIdMatch) {
+    throw new Error('Could not extract folder ID from Drive link');
+  }
+
+  const folder = getOrCreateFolder(DriveApp.getFolderById(folderIdMatch[1]), subfolderName);
+  const base64 = String(base64Data).replace(/^data:[^;]+;base64,/, '');
+  const blob = Utilities.newBlob(Utilities.base64Decode(base64), undefined, fileName);
+  const file = folder.createFile(blob);
+  file.setSharing(DriveApp.Access.ANYONE_WITH_LINK, DriveApp.Permission.VIEW);
+  return file.getUrl();
+}
+
+/**
+ * Submit a student's application for a job
+ * Rejects closed jobs, duplicate applications and students the job's eligibility rules exclude.
+ * @param {Object} params - Request params with applicationData (JSON string)
+ */
+function submitJobApplication(params) {
+  try {
+    const application = params.applicationData ? JSON.parse(params.applicationData) : params;
+    const studentEmail = String(application.studentEmail || '').toLowerCase();
+
+    if (!application.jobId || !studentEmail) {
+      return { success: false, error: 'Missing required parameters: jobId or studentEmail' };
+    }
+
+    const jobResult = getJobPosting(application.jobId);
+    if (!jobResult.success) return jobResult;
+    const job = jobResult.data;
+
+    if (job.status !== 'Active') {
+      return { success: false, error: 'This job is not accepting applications' };
+    }
+    const endTime = parseSheetDate(job.applicationEndTime);
+    if (endTime && endTime < new Date()) {
+      return { success: false, error: 'The application deadline has passed' };
+    }
+
+    const factsResult = getPlacementFacts(studentEmail);
+    if (!factsResult.success) return factsResult;
+    if (!isEligibleForJob(job, factsResult.data)) {
+      Logger.log(`⛔ ${studentEmail} is not eligible for ${job.jobId}`);
+      return { success: false, error: 'You are not eligible for this job' };
+    }
+
+    if (hasStudentApplied(job.sheetsLink, studentEmail)) {
+      return { success: false, error: 'You have already applied to this job' };
+    }
+
+    const resumeUrl = application.resumeData
+      ? saveApplicationFile(job.driveLink, 'StudentResumes', `${studentEmail} - ${application.resumeFileName || 'Resume.pdf'}`, application.resumeData)
+      : '';
+    const additionalFileUrl = application.additionalFileData
+      ? saveApplicationFile(job.driveLink, 'StudentResumes', `${studentEmail} - ${application.additionalFileName || 'Attachment'}`, application.additionalFileData)
+      : '';
+
+    const applicationId = `${job.jobId}-APP-${Date.now()}`;
+    const answers = application.answers || {};
+    const row = [
+      applicationId,
+      job.jobId,
+      formatTimestampForSheets(),
+      studentEmail,
+      application.studentName || '',
+      factsResult.data.batch,
+      resumeUrl,
+      additionalFileUrl
+    ];
+    job.questions.forEach(q => {
+      const answer = answers[q.number] !== undefined ? answers[q.number] : answers[q.text];
+      row.push(answer !== undefined ? answer : '');
+    });
+
+    const responseSheet = SpreadsheetApp.openByUrl(job.sheetsLink).getSheets()[0];
+    responseSheet.appendRow(row);
+
+    // Keep ApplicationsCount (column 218) in step with the response sheet
+    const jobsSheet = SpreadsheetApp.openById(JOB_PORTAL_SHEET_ID).getSheetByName(JOB_PORTAL_SHEET_NAME);
+    const jobIds = jobsSheet.getRange(1, 1, jobsSheet.getLastRow(), 1).getValues();
+    for (let i = 1; i < jobIds.length; i++) {
+      if (jobIds[i][0] === job.jobId) {
+        jobsSheet.getRange(i + 1, 218).setValue(Math.max(0, responseSheet.getLastRow() - 1));
+        break;
+      }
+    }
+
+    Logger.log(`✅ Application ${applicationId} submitted by ${studentEmail}`);
+
+    return {
+      success: true,
+      data: {
+        applicationId: applicationId,
+        message: 'Application submitted successfully'
+      }
+    };
+
+  } catch (error) {
+    Logger.log(`Error submitting job application: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
@@ -0,0 +1,412 @@
+// ================================================================================================
+// NOTIFICATION FUNCTIONS - SSB Placement Notification Feed
+// ================================================================================================
+
+const NOTIFICATION_HEADERS = [
+  'NotificationID',
+  'StudentEmail',
+  'Batch',
+  'Type',
+  'Title',
+  'Message',
+  'JobID',
+  'ActionURL',
+  'ActionLabel',
+  'DedupeKey',
+  'CreatedAt'
+];
+
+const NOTIFICATION_STATE_HEADERS = [
+  'NotificationID',
+  'StudentEmail',
+  'ReadAt',
+  'DeletedAt'
+];
+
+// Deadline reminders are raised for open jobs closing within this many hours
+const DEADLINE_REMINDER_HOURS = 48;
+
+/**
+ * Parse a sheet date cell (Date object or "03-Dec-2025 23:39:00" string) into a Date
+ * Returns null when the value cannot be parsed
+ */
+function parseSheetDate(value) {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  try {
+    if (/^\d{2}-[A-Za-z]{3}-\d{4} \d{2}:\d{2}:\d{2}$/.test(String(value))) {
+      return Utilities.parseDate(String(value), TIMEZONE, 'dd-MMM-yyyy HH:mm:ss');
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  } catch (error) {
+    Logger.log(`Could not parse date "${value}": ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Look up a student's batch from the Student Profile sheet
+ */
+function getStudentBatch(studentEmail) {
+  try {
+    const sheet = SpreadsheetApp.openById(STUDENT_SHEET_ID).getSheetByName(STUDENT_PROFILE_SHEET);
+    const data = sheet.getDataRange().getValues();
+    const headers = data[0];
+    const emailCol = headers.indexOf('Email');
+    const batchCol = headers.indexOf('Batch');
+
+    if (emailCol === -1 || batchCol === -1) return '';
+
+    for (let i = 1; i < data.length; i++) {
+      if (String(data[i][emailCol]).toLowerCase() === studentEmail) {
+        return data[i][batchCol] || '';
+      }
+    }
+    return '';
+
+  } catch (error) {
+    Logger.log(`Error looking up student batch: ${error.message}`);
+    return '';
+  }
+}
+
+/**
+ * Create a placement notification
+ * Leave studentEmail empty to broadcast to every student in `batch` (or to everyone when batch is empty too).
+ * A non-empty dedupeKey makes the call a no-op when a notification with the same key already exists.
+ * @param {Object} notification - { studentEmail, batch, type, title, message, jobId, actionUrl, actionLabel, dedupeKey }
+ * @return {Object} Result with notificationId
+ */
+function createPlacementNotification(notification) {
+  try {
+    const sheet = getOrCreatePortalSheet(PLACEMENT_NOTIFICATIONS_SHEET_NAME, NOTIFICATION_HEADERS);
+
+    if (notification.dedupeKey) {
+      const data = sheet.getDataRange().getValues();
+      const dedupeCol = data[0].indexOf('DedupeKey');
+      for (let i = 1; i < data.length; i++) {
+        if (data[i][dedupeCol] === notification.dedupeKey) {
+          return { success: true, notificationId: data[i][0], duplicate: true };
+        }
+      }
+    }
+
+    const notificationId = `NTF-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+
+    sheet.appendRow([
+      notificationId,
+      (notification.studentEmail || '').toLowerCase(),
+      notification.batch || '',
+      notification.type || 'info',
+      notification.title || '',
+      notification.message || '',
+      notification.jobId || '',
+      notification.actionUrl || '',
+      notification.actionLabel || '',
+      notification.dedupeKey || '',
+      formatTimestampForSheets()
+    ]);
+
+    Logger.log(`🔔 Notification created: ${notificationId} (${notification.type})`);
+
+    return { success: true, notificationId: notificationId };
+
+  } catch (error) {
+    Logger.log(`Error creating notification: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Broadcast a new_job notification to the job's audience (every batch in showToBatchLevels, else its batch)
+ * Safe to call more than once per job - later calls are de-duplicated
+ */
+function notifyNewJob(jobId, jobData) {
+  return createPlacementNotification({
+    batch: getJobAudience(jobData),
+    type: 'new_job',
+    title: `New Job Opening: ${jobData.role} at ${jobData.company}`,
+    message: jobData.applicationEndTime
+      ? `${jobData.company} is hiring for ${jobData.role}. Application deadline: ${formatDateForSheets(parseSheetDate(jobData.applicationEndTime))}.`
+      : `${jobData.company} is hiring for ${jobData.role}.`,
+    jobId: jobId,
+    actionUrl: '/placement/jobs',
+    actionLabel: 'View Job',
+    dedupeKey: `new_job|${jobId}`
+  });
+}
+
+/**
+ * Notify a student that their application for a job changed status
+ */
+function notifyApplicationUpdate(job, studentEmail, status, note) {
+  return createPlacementNotification({
+    studentEmail: studentEmail,
+    type: 'application_update',
+    title: `Application Update: ${job.role} at ${job.company}`,
+    message: `Your application status is now "${status}".${note ? ` ${note}` : ''}`,
+    jobId: job.jobId,
+    actionUrl: '/placement/applications',
+    actionLabel: 'View Application'
+  });
+}
+
+/**
+ * Check whether a student has a row in a job's response sheet
+ */
+function hasStudentApplied(sheetsLink, studentEmail) {
+  if (!sheetsLink) return false;
+
+  try {
+    const data = SpreadsheetApp.openByUrl(sheetsLink).getSheets()[0].getDataRange().getValues();
+    const emailCol = data[0].indexOf('StudentEmail');
+    if (emailCol === -1) return false;
+
+    for (let i = 1; i < data.length; i++) {
+      if (String(data[i][emailCol]).toLowerCase() === studentEmail) return true;
+    }
+    return false;
+
+  } catch (error) {
+    Logger.log(`Error reading response sheet ${sheetsLink}: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Raise deadline reminders for active jobs shown to the student's batch that close within
+ * DEADLINE_REMINDER_HOURS and that the student has not applied to yet.
+ * Runs lazily whenever the student's feed is loaded; one reminder per job per student.
+ */
+function generateDeadlineNotifications(studentEmail, batch) {
+  const jobsResult = getAllJobPostings({ status: 'Active' });
+  if (!jobsResult.success) return;
+
+  const now = new Date();
+  const windowEnd = new Date(now.getTime() + DEADLINE_REMINDER_HOURS * 60 * 60 * 1000);
+
+  jobsResult.data.forEach(job => {
+    if (batch && !isBatchInAudience(getJobAudience(job), batch)) return;
+
+    const endTime = parseSheetDate(job.applicationEndTime);
+    if (!endTime || endTime <= now || endTime > windowEnd) return;
+    if (hasStudentApplied(job.sheetsLink, studentEmail)) return;
+
+    const hoursLeft = Math.max(1, Math.round((endTime.getTime() - now.getTime()) / (60 * 60 * 1000)));
+
+    createPlacementNotification({
+      studentEmail: studentEmail,
+      type: 'deadline',
+      title: 'Application Deadline Reminder',
+      message: `Applications for ${job.role} at ${job.company} close in about ${hoursLeft} hour${hoursLeft > 1 ? 's' : ''} (${formatDateForSheets(endTime)}).`,
+      jobId: job.jobId,
+      actionUrl: '/placement/jobs',
+      actionLabel: 'Apply Now',
+      dedupeKey: `deadline|${job.jobId}|${studentEmail}`
+    });
+  });
+}
+
+/**
+ * Read the per-student read/deleted state rows
+ * @return {Object} { sheet, rows: { notificationId: { rowIndex, readAt, deletedAt } } }
+ */
+function readNotificationState(studentEmail) {
+  const sheet = getOrCreatePortalSheet(PLACEMENT_NOTIFICATION_STATE_SHEET_NAME, NOTIFICATION_STATE_HEADERS);
+  const data = sheet.getDataRange().getValues();
+  const rows = {};
+
+  for (let i = 1; i < data.length; i++) {
+    if (String(data[i][1]).toLowerCase() !== studentEmail) continue;
+    rows[data[i][0]] = {
+      rowIndex: i + 1,
+      readAt: data[i][2],
+      deletedAt: data[i][3]
+    };
+  }
+
+  return { sheet: sheet, rows: rows };
+}
+
+/**
+ * Collect the notifications visible to a student (targeted at them or broadcast to a batch list containing theirs),
+ * excluding ones they deleted, newest first
+ */
+function readVisibleNotifications(studentEmail, batch) {
+  const sheet = getOrCreatePortalSheet(PLACEMENT_NOTIFICATIONS_SHEET_NAME, NOTIFICATION_HEADERS);
+  const data = sheet.getDataRange().getValues();
+  const state = readNotificationState(studentEmail).rows;
+  const notifications = [];
+
+  for (let i = 1; i < data.length; i++) {
+    const row = data[i];
+    if (!row[0]) continue;
+
+    const target = String(row[1]).toLowerCase();
+    const visible = target
+      ? target === studentEmail
+      : isBatchInAudience(row[2], batch);
+    if (!visible) continue;
+
+    const rowState = state[row[0]];
+    if (rowState && rowState.deletedAt) continue;
+
+    const createdAt = parseSheetDate(row[10]);
+
+    notifications.push({
+      id: row[0],
+      type: row[3],
+      title: row[4],
+      message: row[5],
+      jobId: row[6],
+      actionUrl: row[7],
+      actionLabel: row[8],
+      timestamp: createdAt ? createdAt.toISOString() : '',
+      read: !!(rowState && rowState.readAt)
+    });
+  }
+
+  notifications.sort((a, b) => (b.timestamp > a.timestamp ? 1 : b.timestamp < a.timestamp ? -1 : 0));
+  return notifications;
+}
+
+/**
+ * Get a student's notification feed with its unread count
+ */
+function getPlacementNotifications(studentEmail) {
+  try {
+    if (!studentEmail) {
+      return { success: false, error: 'Student email is required' };
+    }
+
+    const email = String(studentEmail).toLowerCase();
+    const batch = getStudentBatch(email);
+
+    try {
+      generateDeadlineNotifications(email, batch);
+    } catch (error) {
+      // A failed reminder pass should never hide the rest of the feed
+      Logger.log(`⚠️ Deadline reminder generation failed: ${error.message}`);
+    }
+
+    const notifications = readVisibleNotifications(email, batch);
+
+    return {
+      success: true,
+      data: {
+        notifications: notifications,
+        unreadCount: notifications.filter(n => !n.read).length
+      }
+    };
+
+  } catch (error) {
+    Logger.log(`Error getting notifications: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Set a state column (ReadAt or DeletedAt) for several notifications of one student in a single pass
+ */
+function setNotificationState(studentEmail, notificationIds, column) {
+  const state = readNotificationState(studentEmail);
+  const columnIndex = NOTIFICATION_STATE_HEADERS.indexOf(column) + 1;
+  const timestamp = formatTimestampForSheets();
+  const newRows = [];
+
+  notificationIds.forEach(id => {
+    const existing = state.rows[id];
+    if (existing) {
+      if (!existing[column === 'ReadAt' ? 'readAt' : 'deletedAt']) {
+        state.sheet.getRange(existing.rowIndex, columnIndex).setValue(timestamp);
+      }
+    } else {
+      newRows.push([
+        id,
+        studentEmail,
+        column === 'ReadAt' ? timestamp : '',
+        column === 'DeletedAt' ? timestamp : ''
+      ]);
+    }
+  });
+
+  if (newRows.length > 0) {
+    state.sheet
+      .getRange(state.sheet.getLastRow() + 1, 1, newRows.length, NOTIFICATION_STATE_HEADERS.length)
+      .setValues(newRows);
+  }
+
+  return notificationIds.length;
+}
+
+/**
+ * Mark notifications as read for a student
+ * @param {string} studentEmail - Student email
+ * @param {Array<string>} notificationIds - IDs to mark (ignored when markAll is true)
+ * @param {boolean} markAll - Mark every visible notification as read
+ */
+function markNotificationsRead(studentEmail, notificationIds, markAll) {
+  try {
+    if (!studentEmail) {
+      return { success: false, error: 'Student email is required' };
+    }
+
+    const email = String(studentEmail).toLowerCase();
+    const ids = markAll
+      ? readVisibleNotifications(email, getStudentBatch(email)).filter(n => !n.read).map(n => n.id)
+      : (notificationIds || []);
+
+    const count = setNotificationState(email, ids, 'ReadAt');
+
+    return {
+      success: true,
+      data: { count: count },
+      message: `${count} notification(s) marked as read`
+    };
+
+  } catch (error) {
+    Logger.log(`Error marking notifications read: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Delete notifications from a student's feed
+ * Broadcast notifications stay in the sheet; only this student's copy is hidden.
+ */
+function deleteNotifications(studentEmail, notificationIds) {
+  try {
+    if (!studentEmail) {
+      return { success: false, error: 'Student email is required' };
+    }
+    if (!notificationIds || notificationIds.length === 0) {
+      return { success: false, error: 'No notifications selected' };
+    }
+
+    const count = setNotificationState(String(studentEmail).toLowerCase(), notificationIds, 'DeletedAt');
+
+    return {
+      success: true,
+      data: { count: count },
+      message: `${count} notification(s) deleted`
+    };
+
+  } catch (error) {
+    Logger.log(`Error deleting notifications: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
@@ -0,0 +1,322 @@
+// ================================================================================================
+// OFFER FUNCTIONS - Placement offers and placement statistics
+// ================================================================================================
+
+// Compensation columns use the same names and meaning as the job posting's CTC / ESOP / Bonus fields.
+// Eligibility Functions.js reads StudentEmail, OfferType, CTCValue and Status from this tab.
+const OFFER_HEADERS = [
+  'OfferID',
+  'StudentEmail',
+  'StudentName',
+  'Batch',
+  'JobID',
+  'ApplicationID',
+  'Company',
+  'Role',
+  'OfferType',
+  'CTCType',
+  'CTCValue',
+  'CTCValueSecondary',
+  'CTCDisplay',
+  'ESOPType',
+  'ESOPValue',
+  'ESOPValueSecondary',
+  'ESOPDisplay',
+  'BonusType',
+  'BonusValue',
+  'BonusValueSecondary',
+  'BonusDisplay',
+  'Status',
+  'OfferDate',
+  'Notes',
+  'CreatedBy',
+  'CreatedAt',
+  'UpdatedAt'
+];
+
+const OFFER_TYPES = ['FT', 'Internship', 'PPO'];
+const OFFER_STATUSES = ['Pending', 'Accepted', 'Declined'];
+
+// Header name -> offer object key
+const OFFER_FIELD_KEYS = {
+  OfferID: 'offerId',
+  StudentEmail: 'studentEmail',
+  StudentName: 'studentName',
+  Batch: 'batch',
+  JobID: 'jobId',
+  ApplicationID: 'applicationId',
+  Company: 'company',
+  Role: 'role',
+  OfferType: 'offerType',
+  CTCType: 'ctcType',
+  CTCValue: 'ctcValue',
+  CTCValueSecondary: 'ctcValueSecondary',
+  CTCDisplay: 'ctcDisplay',
+  ESOPType: 'esopType',
+  ESOPValue: 'esopValue',
+  ESOPValueSecondary: 'esopValueSecondary',
+  ESOPDisplay: 'esopDisplay',
+  BonusType: 'bonusType',
+  BonusValue: 'bonusValue',
+  BonusValueSecondary: 'bonusValueSecondary',
+  BonusDisplay: 'bonusDisplay',
+  Status: 'status',
+  OfferDate: 'offerDate',
+  Notes: 'notes',
+  CreatedBy: 'createdBy',
+  CreatedAt: 'createdAt',
+  UpdatedAt: 'updatedAt'
+};
+
+function rowToOffer(row) {
+  const offer = {};
+  OFFER_HEADERS.forEach((header, index) => {
+    const value = row[index];
+    offer[OFFER_FIELD_KEYS[header]] = value instanceof Date ? value.toISOString() : value;
+  });
+  return offer;
+}
+
+function validateOfferData(offerData) {
+  if (!offerData.studentEmail || !offerData.company || !offerData.role) {
+    return 'Student email, company and role are required';
+  }
+  if (OFFER_TYPES.indexOf(offerData.offerType) === -1) {
+    return `Offer type must be one of ${OFFER_TYPES.join(', ')}`;
+  }
+  if (offerData.status && OFFER_STATUSES.indexOf(offerData.status) === -1) {
+    return `Offer status must be one of ${OFFER_STATUSES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Get offers, optionally filtered
+ * @param {Object} filters - { batch, studentEmail, jobId }
+ */
+function getOffers(filters) {
+  try {
+    const sheet = getOrCreatePortalSheet(PLACEMENT_OFFERS_SHEET_NAME, OFFER_HEADERS);
+    const data = sheet.getDataRange().getValues();
+    const criteria = filters || {};
+    const email = String(criteria.studentEmail || '').toLowerCase();
+    const offers = [];
+
+    for (let i = 1; i < data.length; i++) {
+      if (!data[i][0]) continue;
+      const offer = rowToOffer(data[i]);
+      if (criteria.batch && offer.batch !== criteria.batch) continue;
+      if (criteria.jobId && offer.jobId !== criteria.jobId) continue;
+      if (email && String(offer.studentEmail).toLowerCase() !== email) continue;
+      offers.push(offer);
+    }
+
+    offers.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+
+    return {
+      success: true,
+      data: offers
+    };
+
+  } catch (error) {
+    Logger.log(`Error getting offers: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Record an offer for a student
+ * When jobId is given, company / role / compensation fields that are not sent are taken from the job posting,
+ * and batch falls back to the student's profile.
+ * @param {Object} offerData - Offer fields keyed as in OFFER_FIELD_KEYS
+ * @param {string} adminEmail - Who recorded the offer
+ */
+function createOffer(offerData, adminEmail) {
+  try {
+    const data = Object.assign({}, offerData);
+
+    if (data.jobId) {
+      const jobResult = getJobPosting(data.jobId);
+      if (jobResult.success) {
+        const job = jobResult.data;
+        ['company', 'role', 'ctcType', 'ctcValue', 'ctcValueSecondary', 'ctcDisplay',
+          'esopType', 'esopValue', 'esopValueSecondary', 'esopDisplay',
+          'bonusType', 'bonusValue', 'bonusValueSecondary', 'bonusDisplay'].forEach(key => {
+          if (data[key] === undefined) data[key] = job[key] || '';
+        });
+      }
+    }
+
+    data.studentEmail = String(data.studentEmail || '').trim().toLowerCase();
+    const validationError = validateOfferData(data);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const timestamp = formatTimestampForSheets();
+    data.offerId = `OFF-${Date.now()}`;
+    data.batch = data.batch || getStudentBatch(data.studentEmail);
+    data.status = data.status || 'Pending';
+    data.createdBy = adminEmail || '';
+    data.createdAt = timestamp;
+    data.updatedAt = timestamp;
+
+    const sheet = getOrCreatePortalSheet(PLACEMENT_OFFERS_SHEET_NAME, OFFER_HEADERS);
+    sheet.appendRow(OFFER_HEADERS.map(header => {
+      const value = data[OFFER_FIELD_KEYS[header]];
+      return value === undefined || value === null ? '' : value;
+    }));
+
+    const notifyResult = createPlacementNotification({
+      studentEmail: data.studentEmail,
+      type: 'application_update',
+      title: `Offer from ${data.company}`,
+      message: `Your ${data.role} offer (${data.offerType}) has been recorded on your placement profile.`,
+      jobId: data.jobId || '',
+      actionUrl: '/placement/applications',
+      actionLabel: 'View Applications'
+    });
+    if (!notifyResult.success) {
+      Logger.log(`⚠️ Offer notification failed for ${data.studentEmail}: ${notifyResult.error}`);
+    }
+
+    Logger.log(`🎉 Offer ${data.offerId} recorded for ${data.studentEmail} (${data.company})`);
+
+    return {
+      success: true,
+      data: rowToOffer(OFFER_HEADERS.map(header => data[OFFER_FIELD_KEYS[header]] || '')),
+      message: 'Offer recorded successfully'
+    };
+
+  } catch (error) {
+    Logger.log(`Error creating offer: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Update an offer (e.g. mark it Accepted or Declined, correct the CTC)
+ * OfferID, CreatedBy and CreatedAt cannot be changed.
+ */
+function updateOffer(offerId, updates) {
+  try {
+    const sheet = getOrCreatePortalSheet(PLACEMENT_OFFERS_SHEET_NAME, OFFER_HEADERS);
+    const data = sheet.getDataRange().getValues();
+
+    for (let i = 1; i < data.length; i++) {
+      if (data[i][0] !== offerId) continue;
+
+      const current = rowToOffer(data[i]);
+      const merged = Object.assign({}, current, updates || {}, {
+        offerId: current.offerId,
+        createdBy: current.createdBy,
+        createdAt: current.createdAt,
+        updatedAt: formatTimestampForSheets()
+      });
+      merged.studentEmail = String(merged.studentEmail || '').trim().toLowerCase();
+
+      const validationError = validateOfferData(merged);
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      sheet.getRange(i + 1, 1, 1, OFFER_HEADERS.length).setValues([
+        OFFER_HEADERS.map(header => {
+          const value = merged[OFFER_FIELD_KEYS[header]];
+          return value === undefined || value === null ? '' : value;
+        })
+      ]);
+
+      return {
+        success: true,
+        data: merged,
+        message: 'Offer updated successfully'
+      };
+    }
+
+    return {
+      success: false,
+      error: 'Offer not found'
+    };
+
+  } catch (error) {
+    Logger.log(`Error updating offer: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Delete an offer recorded by mistake
+ */
+function deleteOffer(offerId) {
+  try {
+    const sheet = getOrCreatePortalSheet(PLACEMENT_OFFERS_SHEET_NAME, OFFER_HEADERS);
+    const offerIds = sheet.getRange(1, 1, sheet.getLastRow(), 1).getValues();
+
+    for (let i = 1; i < offerIds.length; i++) {
+      if (offerIds[i][0] === offerId) {
+        sheet.deleteRow(i + 1);
+        return {
+          success: true,
+          message: 'Offer deleted successfully'
+        };
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Offer not found'
+    };
+
+  } catch (error) {
+    Logger.log(`Error deleting offer: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Data for the placement report: every offer plus the number of students in each batch
+ * Statistics are computed client-side (src/utils/placementReport.ts) so the CSV matches the page.
+ */
+function getPlacementReport() {
+  try {
+    const offersResult = getOffers({});
+    if (!offersResult.success) return offersResult;
+
+    const profiles = SpreadsheetApp.openById(STUDENT_SHEET_ID).getSheetByName(STUDENT_PROFILE_SHEET).getDataRange().getValues();
+    const batchStudentCounts = {};
+
+    for (let i = 1; i < profiles.length; i++) {
+      if (!profiles[i][0]) continue;
+      const batch = profiles[i][3] || 'Unassigned';
+      batchStudentCounts[batch] = (batchStudentCounts[batch] || 0) + 1;
+    }
+
+    return {
+      success: true,
+      data: {
+        offers: offersResult.data,
+        batchStudentCounts: batchStudentCounts
+      }
+    };
+
+  } catch (error) {
+    Logger.log(`Error building placement report: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
@@ -0,0 +1,644 @@
+// ================================================================================================
+// PIPELINE FUNCTIONS - Recruitment stages, stage history and interview slots
+// ================================================================================================
+
+// Used when a job has no PipelineStages (column 223) saved yet.
+// kind drives how students see the stage: 'active' (in progress), 'offer' or 'rejected'.
+const DEFAULT_PIPELINE_STAGES = [
+  { name: 'Applied', kind: 'active' },
+  { name: 'Shortlisted', kind: 'active' },
+  { name: 'Assignment', kind: 'active' },
+  { name: 'Interview Round 1', kind: 'active' },
+  { name: 'Interview Round 2', kind: 'active' },
+  { name: 'Offer', kind: 'offer' },
+  { name: 'Rejected', kind: 'rejected' }
+];
+
+const STAGE_HISTORY_HEADERS = [
+  'HistoryID',
+  'JobID',
+  'StudentEmail',
+  'FromStage',
+  'ToStage',
+  'Note',
+  'ChangedBy',
+  'ChangedAt'
+];
+
+const INTERVIEW_SLOT_HEADERS = [
+  'SlotID',
+  'JobID',
+  'StudentEmail',
+  'Stage',
+  'StartTime',
+  'EndTime',
+  'Location',
+  'Notes',
+  'CreatedBy',
+  'CreatedAt'
+];
+
+const RESPONSE_STATUS_COLUMNS = ['Status', 'StatusUpdatedAt', 'StatusNote'];
+
+/**
+ * Parse the PipelineStages cell, falling back to the default pipeline
+ */
+function parsePipelineStages(value) {
+  if (value) {
+    try {
+      const stages = JSON.parse(String(value));
+      if (Array.isArray(stages) && stages.length > 0) return stages;
+    } catch (error) {
+      Logger.log(`Invalid pipeline stages JSON: ${error.message}`);
+    }
+  }
+  return DEFAULT_PIPELINE_STAGES;
+}
+
+/**
+ * Open a job's response sheet, adding the Status / StatusUpdatedAt / StatusNote columns if missing
+ * @return {Object} { sheet, headers, data }
+ */
+function openResponseSheet(job) {
+  if (!job.sheetsLink) {
+    throw new Error(`Job ${job.jobId} has no response sheet`);
+  }
+
+  const sheet = SpreadsheetApp.openByUrl(job.sheetsLink).getSheets()[0];
+  let headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+
+  RESPONSE_STATUS_COLUMNS.forEach(column => {
+    if (headers.indexOf(column) === -1) {
+      sheet.getRange(1, headers.length + 1).setValue(column).setFontWeight('bold');
+      headers = headers.concat([column]);
+    }
+  });
+
+  return {
+    sheet: sheet,
+    headers: headers,
+    data: sheet.getDataRange().getValues()
+  };
+}
+
+/**
+ * Read stage history rows, optionally limited to one job and/or student
+ */
+function readStageHistory(jobId, studentEmail) {
+  const data = getOrCreatePortalSheet(PLACEMENT_STAGE_HISTORY_SHEET_NAME, STAGE_HISTORY_HEADERS).getDataRange().getValues();
+  const history = [];
+
+  for (let i = 1; i < data.length; i++) {
+    const row = data[i];
+    if (jobId && row[1] !== jobId) continue;
+    if (studentEmail && String(row[2]).toLowerCase() !== studentEmail) continue;
+
+    const changedAt = parseSheetDate(row[7]);
+    history.push({
+      id: row[0],
+      jobId: row[1],
+      studentEmail: String(row[2]).toLowerCase(),
+      fromStage: row[3],
+      toStage: row[4],
+      note: row[5],
+      changedBy: row[6],
+      changedAt: changedAt ? changedAt.toISOString() : ''
+    });
+  }
+
+  return history;
+}
+
+/**
+ * Read interview slots, optionally limited to one job and/or student
+ */
+function readInterviewSlots(jobId, studentEmail) {
+  const data = getOrCreatePortalSheet(PLACEMENT_INTERVIEW_SLOTS_SHEET_NAME, INTERVIEW_SLOT_HEADERS).getDataRange().getValues();
+  const slots = [];
+
+  for (let i = 1; i < data.length; i++) {
+    const row = data[i];
+    if (!row[0]) continue;
+    if (jobId && row[1] !== jobId) continue;
+    if (studentEmail && String(row[2]).toLowerCase() !== studentEmail) continue;
+
+    const startTime = parseSheetDate(row[4]);
+    const endTime = parseSheetDate(row[5]);
+    slots.push({
+      slotId: row[0],
+      jobId: row[1],
+      studentEmail: String(row[2]).toLowerCase(),
+      stage: row[3],
+      startTime: startTime ? startTime.toISOString() : '',
+      endTime: endTime ? endTime.toISOString() : '',
+      location: row[6],
+      notes: row[7]
+    });
+  }
+
+  return slots;
+}
+
+/**
+ * Convert a response sheet row into an applicant record
+ */
+function buildApplicant(row, headers, job, firstStage) {
+  // Job summaries from getAllJobPostings carry no questions, so answers stay empty there
+  const answers = {};
+  (job.questions || []).forEach(q => {
+    const col = headers.indexOf(q.text);
+    if (col !== -1) answers[q.text] = row[col];
+  });
+
+  const submittedAt = parseSheetDate(row[headers.indexOf('Timestamp')]);
+  const stageUpdatedAt = parseSheetDate(row[headers.indexOf('StatusUpdatedAt')]);
+
+  return {
+    applicationId: row[headers.indexOf('ApplicationID')],
+    jobId: job.jobId,
+    studentEmail: String(row[headers.indexOf('StudentEmail')]).toLowerCase(),
+    studentName: row[headers.indexOf('StudentName')],
+    batch: row[headers.indexOf('StudentBatch')],
+    timestamp: submittedAt ? submittedAt.toISOString() : '',
+    resumeUrl: row[headers.indexOf('ResumeURL')],
+    assignmentFileUrl: row[headers.indexOf('AssignmentFileURL')],
+    answers: answers,
+    stage: row[headers.indexOf('Status')] || firstStage,
+    stageUpdatedAt: stageUpdatedAt ? stageUpdatedAt.toISOString() : '',
+    stageNote: row[headers.indexOf('StatusNote')] || ''
+  };
+}
+
+/**
+ * Get a job's pipeline: its stages and every applicant with their stage, history and interview slots
+ */
+function getJobPipeline(jobId) {
+  try {
+    const jobResult = getJobPosting(jobId);
+    if (!jobResult.success) return jobResult;
+
+    const job = jobResult.data;
+    const stages = job.pipelineStages;
+    const response = openResponseSheet(job);
+    const history = readStageHistory(jobId);
+    const slots = readInterviewSlots(jobId);
+    const applicants = [];
+
+    for (let i = 1; i < response.data.length; i++) {
+      if (!response.data[i][0]) continue;
+      const applicant = buildApplicant(response.data[i], response.headers, job, stages[0].name);
+      applicant.history = history.filter(h => h.studentEmail === applicant.studentEmail);
+      applicant.interviewSlots = slots.filter(s => s.studentEmail === applicant.studentEmail);
+      applicants.push(applicant);
+    }
+
+    return {
+      success: true,
+      data: {
+        stages: stages,
+        applicants: applicants
+      }
+    };
+
+  } catch (error) {
+    Logger.log(`Error getting job pipeline: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Save a job's pipeline stages (column 223)
+ * @param {Array<Object>} stages - [{ name, kind }] in pipeline order
+ */
+function saveJobPipelineStages(jobId, stages) {
+  try {
+    if (!stages || stages.length === 0) {
+      return { success: false, error: 'A pipeline needs at least one stage' };
+    }
+
+    const names = stages.map(s => String(s.name || '').trim());
+    if (names.some(n => !n)) {
+      return { success: false, error: 'Stage names cannot be empty' };
+    }
+    if (names.some((n, i) => names.indexOf(n) !== i)) {
+      return { success: false, error: 'Stage names must be unique' };
+    }
+
+    const sheet = SpreadsheetApp.openById(JOB_PORTAL_SHEET_ID).getSheetByName(JOB_PORTAL_SHEET_NAME);
+    const jobIds = sheet.getRange(1, 1, sheet.getLastRow(), 1).getValues();
+
+    for (let i = 1; i < jobIds.length; i++) {
+      if (jobIds[i][0] === jobId) {
+        const cleaned = stages.map((s, index) => ({ name: names[index], kind: s.kind || 'active' }));
+        sheet.getRange(i + 1, 223).setValue(JSON.stringify(cleaned));
+        sheet.getRange(i + 1, 18).setValue(formatTimestampForSheets());
+
+        return {
+          success: true,
+          message: 'Pipeline stages saved successfully'
+        };
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Job not found'
+    };
+
+  } catch (error) {
+    Logger.log(`Error saving pipeline stages: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Move applicants to a stage, record the change in stage history and notify each student
+ * Applicants already in the stage are skipped.
+ * @param {string} jobId - Job ID
+ * @param {Array<string>} studentEmails - Applicants to move
+ * @param {string} stage - Target stage name (must be one of the job's stages)
+ * @param {string} note - Optional note shown to the student
+ * @param {string} adminEmail - Who made the change
+ */
+function moveApplicantsToStage(jobId, studentEmails, stage, note, adminEmail) {
+  try {
+    if (!jobId || !studentEmails || studentEmails.length === 0 || !stage) {
+      return { success: false, error: 'Missing required parameters: jobId, studentEmails, or stage' };
+    }
+
+    const jobResult = getJobPosting(jobId);
+    if (!jobResult.success) return jobResult;
+    const job = jobResult.data;
+
+    if (!job.pipelineStages.some(s => s.name === stage)) {
+      return { success: false, error: `"${stage}" is not a stage of this job` };
+    }
+
+    const response = openResponseSheet(job);
+    const headers = response.headers;
+    const emailCol = headers.indexOf('StudentEmail');
+    const statusCol = headers.indexOf('Status');
+    const targets = studentEmails.map(e => String(e).toLowerCase());
+    const timestamp = formatTimestampForSheets();
+    const historyRows = [];
+    const moved = [];
+    const found = [];
+
+    for (let i = 1; i < response.data.length; i++) {
+      const email = String(response.data[i][emailCol]).toLowerCase();
+      if (targets.indexOf(email) === -1) continue;
+      found.push(email);
+
+      const fromStage = response.data[i][statusCol] || job.pipelineStages[0].name;
+      if (fromStage === stage) continue;
+
+      const rowIndex = i + 1;
+      response.sheet.getRange(rowIndex, statusCol + 1).setValue(stage);
+      response.sheet.getRange(rowIndex, headers.indexOf('StatusUpdatedAt') + 1).setValue(timestamp);
+      response.sheet.getRange(rowIndex, headers.indexOf('StatusNote') + 1).setValue(note || '');
+
+      historyRows.push([
+        `HIS-${Date.now()}-${historyRows.length}`,
+        jobId,
+        email,
+        fromStage,
+        stage,
+        note || '',
+        adminEmail || '',
+        timestamp
+      ]);
+      moved.push(email);
+    }
+
+    if (historyRows.length > 0) {
+      const historySheet = getOrCreatePortalSheet(PLACEMENT_STAGE_HISTORY_SHEET_NAME, STAGE_HISTORY_HEADERS);
+      historySheet
+        .getRange(historySheet.getLastRow() + 1, 1, historyRows.length, STAGE_HISTORY_HEADERS.length)
+        .setValues(historyRows);
+    }
+
+    moved.forEach(email => {
+      const notifyResult = notifyApplicationUpdate(job, email, stage, note);
+      if (!notifyResult.success) {
+        Logger.log(`⚠️ Application update notification failed for ${email}: ${notifyResult.error}`);
+      }
+    });
+
+    Logger.log(`🔀 Moved ${moved.length} applicant(s) of ${jobId} to ${stage}`);
+
+    return {
+      success: true,
+      data: {
+        movedCount: moved.length,
+        unchangedCount: found.length - moved.length,
+        notFound: targets.filter(e => found.indexOf(e) === -1)
+      },
+      message: `${moved.length} applicant(s) moved to ${stage}`
+    };
+
+  } catch (error) {
+    Logger.log(`Error moving applicants: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Update the status of a single student's application (single-applicant form of moveApplicantsToStage)
+ */
+function updateApplicationStatus(jobId, studentEmail, status, note, adminEmail) {
+  const result = moveApplicantsToStage(jobId, [studentEmail], status, note, adminEmail);
+  if (result.success && result.data.notFound.length > 0) {
+    return { success: false, error: 'Application not found' };
+  }
+  return result;
+}
+
+/**
+ * Schedule interview slots for applicants and notify each student of their slot
+ * @param {string} jobId - Job ID
+ * @param {Array<Object>} slots - [{ studentEmail, stage, startTime, endTime, location, notes }]
+ * @param {string} adminEmail - Who scheduled the slots
+ */
+function scheduleInterviewSlots(jobId, slots, adminEmail) {
+  try {
+    if (!jobId || !slots || slots.length === 0) {
+      return { success: false, error: 'No interview slots provided' };
+    }
+
+    const jobResult = getJobPosting(jobId);
+    if (!jobResult.success) return jobResult;
+    const job = jobResult.data;
+
+    const invalid = slots.filter(s => !s.studentEmail || !s.startTime || !s.endTime || new Date(s.endTime) <= new Date(s.startTime));
+    if (invalid.length > 0) {
+      return { success: false, error: 'Every slot needs a student, a start time and an end time after the start' };
+    }
+
+    const sheet = getOrCreatePortalSheet(PLACEMENT_INTERVIEW_SLOTS_SHEET_NAME, INTERVIEW_SLOT_HEADERS);
+    const timestamp = formatTimestampForSheets();
+    const rows = slots.map((slot, index) => [
+      `SLOT-${Date.now()}-${index}`,
+      jobId,
+      String(slot.studentEmail).toLowerCase(),
+      slot.stage || '',
+      formatDateForSheets(slot.startTime),
+      formatDateForSheets(slot.endTime),
+      slot.location || '',
+      slot.notes || '',
+      adminEmail || '',
+      timestamp
+    ]);
+
+    sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, INTERVIEW_SLOT_HEADERS.length).setValues(rows);
+
+    rows.forEach(row => {
+      createPlacementNotification({
+        studentEmail: row[2],
+        type: 'application_update',
+        title: `Interview Scheduled: ${job.role} at ${job.company}`,
+        message: `${row[3] ? `${row[3]} - ` : ''}${row[4]} to ${row[5].split(' ')[1] || row[5]}${row[6] ? ` (${row[6]})` : ''}.`,
+        jobId: jobId,
+        actionUrl: '/placement/applications',
+        actionLabel: 'View Application'
+      });
+    });
+
+    return {
+      success: true,
+      data: { count: rows.length, slotIds: rows.map(r => r[0]) },
+      message: `${rows.length} interview slot(s) scheduled`
+    };
+
+  } catch (error) {
+    Logger.log(`Error scheduling interview slots: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Cancel an interview slot
+ */
+function deleteInterviewSlot(slotId) {
+  try {
+    const sheet = getOrCreatePortalSheet(PLACEMENT_INTERVIEW_SLOTS_SHEET_NAME, INTERVIEW_SLOT_HEADERS);
+    const data = sheet.getDataRange().getValues();
+
+    for (let i = 1; i < data.length; i++) {
+      if (data[i][0] === slotId) {
+        sheet.deleteRow(i + 1);
+        return {
+          success: true,
+          message: 'Interview slot cancelled'
+        };
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Interview slot not found'
+    };
+
+  } catch (error) {
+    Logger.log(`Error deleting interview slot: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Get all applications of a student with their pipeline stage, stage history and interview slots
+ * Only jobs that have applications and target the student's batch are opened.
+ */
+function getStudentApplications(studentEmail) {
+  try {
+    if (!studentEmail) {
+      return { success: false, error: 'Student email is required' };
+    }
+
+    const email = String(studentEmail).toLowerCase();
+    const batch = String(getStudentBatch(email)).toLowerCase();
+    const jobsResult = getAllJobPostings({});
+    if (!jobsResult.success) return jobsResult;
+
+    const history = readStageHistory(null, email);
+    const slots = readInterviewSlots(null, email);
+    const applications = [];
+
+    jobsResult.data.forEach(job => {
+      if (!job.sheetsLink || !(Number(job.applicationsCount) > 0)) return;
+      const audience = splitEligibilityList(job.showToBatchLevels || job.batch || '');
+      if (batch && audience.length > 0 && audience.indexOf(batch) === -1) return;
+
+      const data = SpreadsheetApp.openByUrl(job.sheetsLink).getSheets()[0].getDataRange().getValues();
+      const headers = data[0];
+      const emailCol = headers.indexOf('StudentEmail');
+
+      for (let i = 1; i < data.length; i++) {
+        if (String(data[i][emailCol]).toLowerCase() !== email) continue;
+
+        const applicant = buildApplicant(data[i], headers, job, job.pipelineStages[0].name);
+        const stage = job.pipelineStages.filter(s => s.name === applicant.stage)[0];
+
+        applications.push({
+          applicationId: applicant.applicationId,
+          jobId: job.jobId,
+          company: job.company,
+          role: job.role,
+          location: job.location,
+          timestamp: applicant.timestamp,
+          status: applicant.stage,
+          stageKind: stage ? stage.kind : 'active',
+          stages: job.pipelineStages,
+          stageNote: applicant.stageNote,
+          resumeUrl: applicant.resumeUrl,
+          additionalFileUrl: applicant.assignmentFileUrl,
+          history: history.filter(h => h.jobId === job.jobId),
+          interviewSlots: slots.filter(s => s.jobId === job.jobId)
+        });
+        break;
+      }
+    });
+
+    applications.sort((a, b) => (b.timestamp > a.timestamp ? 1 : b.timestamp < a.timestamp ? -1 : 0));
+
+    return {
+      success: true,
+      data: applications
+    };
+
+  } catch (error) {
+    Logger.log(`Error getting student applications: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+// Student Profile columns offered in the applicant comparison (see updateStudentProfile in the main backend)
+const COMPARISON_PROFILE_COLUMNS = {
+  rollNo: 2,
+  phoneNo: 5,
+  currentLocation: 6,
+  linkedIn: 7,
+  undergraduateCollege: 10,
+  undergraduateStream: 11,
+  graduationYear: 12,
+  techSkills: 16,
+  softSkills: 17,
+  certifications: 19,
+  experienceType: 24,
+  totalFTExperienceMonths: 52,
+  totalInternshipExperienceMonths: 53,
+  domain1: 67,
+  domain2: 69,
+  domain3: 71
+};
+
+/**
+ * Get the comparison profile fields for a set of applicants
+ * @param {Array<string>} studentEmails
+ * @return {Object} { success, data: { [email]: { rollNo, phoneNo, ... } } } - students without a profile are left out
+ */
+function getApplicantProfiles(studentEmails) {
+  try {
+    if (!studentEmails || studentEmails.length === 0) {
+      return { success: false, error: 'No students selected' };
+    }
+
+    const wanted = studentEmails.map(email => String(email).toLowerCase());
+    const data = SpreadsheetApp.openById(STUDENT_SHEET_ID).getSheetByName(STUDENT_PROFILE_SHEET).getDataRange().getValues();
+    const profiles = {};
+
+    for (let i = 1; i < data.length; i++) {
+      const email = String(data[i][0]).toLowerCase();
+      if (wanted.indexOf(email) === -1) continue;
+
+      const profile = {};
+      Object.keys(COMPARISON_PROFILE_COLUMNS).forEach(key => {
+        const value = data[i][COMPARISON_PROFILE_COLUMNS[key]];
+        profile[key] = value === undefined || value === null ? '' : String(value);
+      });
+      profiles[email] = profile;
+    }
+
+    return {
+      success: true,
+      data: profiles
+    };
+
+  } catch (error) {
+    Logger.log(`Error getting applicant profiles: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Get the resume an applicant submitted with their application, as base64
+ * Fetched one applicant at a time so a large shortlist stays under the response size limit.
+ * @return {Object} { success, data: { fileName, mimeType, data } }
+ */
+function getApplicantResumeFile(jobId, studentEmail) {
+  try {
+    if (!jobId || !studentEmail) {
+      return { success: false, error: 'Missing required parameters: jobId or studentEmail' };
+    }
+
+    const jobResult = getJobPosting(jobId);
+    if (!jobResult.success) return jobResult;
+
+    const email = String(studentEmail).toLowerCase();
+    const response = openResponseSheet(jobResult.data);
+    const emailCol = response.headers.indexOf('StudentEmail');
+    const resumeCol = response.headers.indexOf('ResumeURL');
+
+    for (let i = 1; i < response.data.length; i++) {
+      if (String(response.data[i][emailCol]).toLowerCase() !== email) continue;
+
+      const fileIdMatch = String(response.data[i][resumeCol] || '').match(/(?:\/d\/|[?&]id=)([a-zA-Z0-9_-]+)/);
+      if (!fileIdMatch) {
+        return { success: false, error: 'No resume submitted with this application' };
+      }
+
+      const file = DriveApp.getFileById(fileIdMatch[1]);
+      const blob = file.getBlob();
+      return {
+        success: true,
+        data: {
+          fileName: file.getName(),
+          mimeType: blob.getContentType(),
+          data: Utilities.base64Encode(blob.getBytes())
+        }
+      };
+    }
+
+    return {
+      success: false,
+      error: 'Application not found'
+    };
+
+  } catch (error) {
+    Logger.log(`Error getting applicant resume: ${error.message}`);
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
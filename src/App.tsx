@@ -61,6 +61,7 @@ const StudentsCornerPage = lazy(() => import('./pages/StudentsCorner'));
 
 // Profile
 const ProfilePage = lazy(() => import('./pages/Profile'));
+const MyGradesPage = lazy(() => import('./pages/MyGrades'));
 
 // Placement
 const PlacementDashboard = lazy(() => import('./pages/placement/PlacementDashboard'));
@@ -71,8 +72,14 @@ const AdminPage = lazy(() => import('./pages/AdminPage'));
 const ExamManagementPage = lazy(() => import('./exam/pages/admin/ExamManagementPage'));
 const ExamBuilderPage = lazy(() => import('./exam/pages/admin/ExamBuilderPage'));
 const ExamViewPage = lazy(() => import('./exam/pages/admin/ExamViewPage'));
+const ExamGradingPage = lazy(() => import('./exam/pages/admin/ExamGradingPage'));
+const ProctoringReviewPage = lazy(() => import('./exam/pages/admin/ProctoringReviewPage'));
+const LiveInvigilationPage = lazy(() => import('./exam/pages/admin/LiveInvigilationPage'));
+const QuestionBankPage = lazy(() => import('./exam/pages/admin/QuestionBankPage'));
 const AssignmentManagementPage = lazy(() => import('./pages/admin/AssignmentManagementPage'));
 const AssignmentActionsTrackerPage = lazy(() => import('./pages/admin/AssignmentActionsTrackerPage'));
+const AssignmentGradingPage = lazy(() => import('./pages/admin/AssignmentGradingPage'));
+const GradebookPage = lazy(() => import('./pages/admin/GradebookPage'));
 const FormsManagementPage = lazy(() => import('./pages/admin/FormsManagementPage'));
 const FormBuilderPage = lazy(() => import('./pages/admin/FormBuilderPage'));
 const FormResponsesPage = lazy(() => import('./pages/admin/FormResponsesPage'));
@@ -84,6 +91,7 @@ const JobPortalManagementPage = lazy(() => import('./pages/admin/JobPortalManage
 const JobBuilderPage = lazy(() => import('./pages/admin/JobBuilderPage'));
 const JobResponsesPage = lazy(() => import('./pages/admin/JobResponsesPage'));
 const PlacementManagementPage = lazy(() => import('./pages/admin/PlacementManagementPage'));
+const PlacementReportPage = lazy(() => import('./pages/admin/PlacementReportPage'));
 const PortalUsageTracker = lazy(() => import('./pages/admin/PortalUsageTracker'));
 const CourseAccessPage = lazy(() => import('./pages/admin/CourseAccessPage'));
 
@@ -227,6 +235,7 @@ function AppRoutes() {
           {/* Profile */}
           <Route path="/profile" element={<ProfilePage />} />
           <Route path="/profile/placement" element={<PlacementProfilePage />} />
+          <Route path="/profile/grades" element={<MyGradesPage />} />
 
           {/* Placement */}
           <Route path="/placement/*" element={<PlacementDashboard />} />
@@ -235,10 +244,16 @@ function AppRoutes() {
           <Route path="/admin" element={<AdminGuard><AdminPage /></AdminGuard>} />
           <Route path="/admin/exams" element={<AdminGuard><ExamManagementPage /></AdminGuard>} />
           <Route path="/admin/exams/create" element={<AdminGuard><ExamBuilderPage /></AdminGuard>} />
+          <Route path="/admin/exams/question-bank" element={<AdminGuard><QuestionBankPage /></AdminGuard>} />
           <Route path="/admin/exams/view/:examId" element={<AdminGuard><ExamViewPage /></AdminGuard>} />
           <Route path="/admin/exams/edit/:examId" element={<AdminGuard><ExamBuilderPage /></AdminGuard>} />
+          <Route path="/admin/exams/grade/:examId" element={<AdminGuard><ExamGradingPage /></AdminGuard>} />
+          <Route path="/admin/exams/review/:examId" element={<AdminGuard><ProctoringReviewPage /></AdminGuard>} />
+          <Route path="/admin/exams/live/:examId" element={<AdminGuard><LiveInvigilationPage /></AdminGuard>} />
           <Route path="/admin/assignments" element={<AdminGuard><AssignmentManagementPage /></AdminGuard>} />
           <Route path="/admin/assignments/track-actions" element={<AdminGuard><AssignmentActionsTrackerPage /></AdminGuard>} />
+          <Route path="/admin/assignments/:assignmentId/grade" element={<AdminGuard><AssignmentGradingPage /></AdminGuard>} />
+          <Route path="/admin/gradebook" element={<AdminGuard><GradebookPage /></AdminGuard>} />
           <Route path="/admin/forms" element={<AdminGuard><FormsManagementPage /></AdminGuard>} />
           <Route path="/admin/forms/new" element={<AdminGuard><FormBuilderPage /></AdminGuard>} />
           <Route path="/admin/forms/:formId/edit" element={<AdminGuard><FormBuilderPage /></AdminGuard>} />
@@ -252,6 +267,7 @@ function AppRoutes() {
           <Route path="/admin/jobs/:jobId/edit" element={<AdminGuard><JobBuilderPage /></AdminGuard>} />
           <Route path="/admin/jobs/:jobId/responses" element={<AdminGuard><JobResponsesPage /></AdminGuard>} />
           <Route path="/admin/placement" element={<AdminGuard><PlacementManagementPage /></AdminGuard>} />
+          <Route path="/admin/placement/report" element={<AdminGuard><PlacementReportPage /></AdminGuard>} />
           <Route path="/admin/usage-tracker" element={<AdminGuard><PortalUsageTracker /></AdminGuard>} />
           <Route path="/admin/course-access" element={<AdminGuard><CourseAccessPage /></AdminGuard>} />
         </Route>
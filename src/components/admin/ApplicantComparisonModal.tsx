@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import { apiService, ApplicantProfile, PipelineApplicant } from '../../services/api';
+import { downloadBlob } from '../../utils/helpers';
+import {
+  COMPARISON_FIELDS,
+  ComparisonFieldKey,
+  DEFAULT_COMPARISON_FIELDS,
+  buildShortlistBundle,
+  getComparisonValue
+} from '../../utils/shortlist';
+import toast from 'react-hot-toast';
+
+interface ApplicantComparisonModalProps {
+  jobId: string;
+  company: string;
+  role: string;
+  applicants: PipelineApplicant[];
+  // Screening question texts, in job order
+  questions: string[];
+  onClose: () => void;
+}
+
+export const ApplicantComparisonModal: React.FC<ApplicantComparisonModalProps> = ({
+  jobId,
+  company,
+  role,
+  applicants,
+  questions,
+  onClose
+}) => {
+  const [profiles, setProfiles] = useState<Record<string, ApplicantProfile>>({});
+  const [loading, setLoading] = useState(true);
+  const [fields, setFields] = useState<ComparisonFieldKey[]>(DEFAULT_COMPARISON_FIELDS);
+  const [selectedQuestions, setSelectedQuestions] = useState<string[]>(questions);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        const result = await apiService.getApplicantProfiles(applicants.map(a => a.studentEmail));
+        if (result.success && result.data) {
+          setProfiles(result.data);
+        } else {
+          toast.error(result.error || 'Failed to load applicant profiles');
+        }
+      } catch (error) {
+        console.error('Error fetching applicant profiles:', error);
+        toast.error('Error loading applicant profiles');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchProfiles();
+  }, [applicants]);
+
+  // Keep fields in COMPARISON_FIELDS order so the table and CSV read the same way
+  const toggleField = (key: ComparisonFieldKey) => {
+    setFields(prev => prev.includes(key)
+      ? prev.filter(k => k !== key)
+      : COMPARISON_FIELDS.map(f => f.key).filter(k => k === key || prev.includes(k)));
+  };
+
+  const toggleQuestion = (question: string) => {
+    setSelectedQuestions(prev => prev.includes(question)
+      ? prev.filter(q => q !== question)
+      : questions.filter(q => q === question || prev.includes(q)));
+  };
+
+  const handleExport = async () => {
+    try {
+      setProgress({ done: 0, total: applicants.length });
+      const { blob, missing } = await buildShortlistBundle(
+        jobId,
+        applicants,
+        profiles,
+        fields,
+        selectedQuestions,
+        (done, total) => setProgress({ done, total })
+      );
+
+      const slug = `${company}_${role}`.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+      downloadBlob(blob, `${slug}_shortlist_${new Date().toISOString().split('T')[0]}.zip`);
+
+      if (missing.length > 0) {
+        toast(`Bundle downloaded without resumes for: ${missing.join(', ')}`, { icon: '⚠️', duration: 6000 });
+      } else {
+        toast.success(`Bundle downloaded with ${applicants.length} resume(s)`);
+      }
+    } catch (error) {
+      console.error('Error exporting shortlist:', error);
+      toast.error('Error exporting shortlist');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Compare Applicants</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                {applicants.length} applicant(s) for {company} - {role}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} disabled={!!progress}>
+              Close
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Field pickers */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Profile fields</p>
+            <div className="flex flex-wrap gap-2">
+              {COMPARISON_FIELDS.map(field => (
+                <button
+                  key={field.key}
+                  onClick={() => toggleField(field.key)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    fields.includes(field.key)
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'hover:bg-muted'
+                  }`}
+                >
+                  {field.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {questions.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Screening questions</p>
+              <div className="flex flex-wrap gap-2">
+                {questions.map((question, index) => (
+                  <button
+                    key={question}
+                    onClick={() => toggleQuestion(question)}
+                    title={question}
+                    className={`px-3 py-1 rounded-full text-sm border transition-colors max-w-xs truncate ${
+                      selectedQuestions.includes(question)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'hover:bg-muted'
+                    }`}
+                  >
+                    Q{index + 1}: {question}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Side-by-side table: one column per applicant */}
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="text-left p-3 font-semibold sticky left-0 bg-muted min-w-[180px]">Field</th>
+                    {applicants.map(applicant => (
+                      <th key={applicant.studentEmail} className="text-left p-3 font-semibold min-w-[200px] align-top">
+                        {applicant.studentName || applicant.studentEmail}
+                        {!profiles[applicant.studentEmail] && (
+                          <p className="text-xs font-normal text-muted-foreground">No placement profile</p>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map(key => (
+                    <tr key={key} className="border-b">
+                      <td className="p-3 font-medium text-muted-foreground sticky left-0 bg-card">
+                        {COMPARISON_FIELDS.find(f => f.key === key)?.label}
+                      </td>
+                      {applicants.map(applicant => (
+                        <td key={applicant.studentEmail} className="p-3 align-top break-words">
+                          {getComparisonValue(applicant, profiles[applicant.studentEmail], key) || <span className="text-muted-foreground">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  {selectedQuestions.map(question => (
+                    <tr key={question} className="border-b">
+                      <td className="p-3 font-medium text-muted-foreground sticky left-0 bg-card">{question}</td>
+                      {applicants.map(applicant => (
+                        <td key={applicant.studentEmail} className="p-3 align-top whitespace-pre-wrap break-words">
+                          {applicant.answers[question] || <span className="text-muted-foreground">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="p-3 font-medium text-muted-foreground sticky left-0 bg-card">Resume</td>
+                    {applicants.map(applicant => (
+                      <td key={applicant.studentEmail} className="p-3">
+                        {applicant.resumeUrl ? (
+                          <a
+                            href={applicant.resumeUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline inline-flex items-center gap-1"
+                          >
+                            <FileText className="w-3 h-3" />
+                            View
+                          </a>
+                        ) : (
+                          <span className="text-muted-foreground">Not submitted</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2 pt-4 border-t">
+            <p className="text-xs text-muted-foreground">
+              The ZIP holds each resume as RollNo_Name.pdf and a Summary.csv with the fields and answers selected above.
+            </p>
+            <Button onClick={handleExport} disabled={loading || !!progress} className="gap-2">
+              {progress ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Fetching resumes {progress.done}/{progress.total}
+                </>
+              ) : (
+                <>
+                  <Download className="w-4 h-4" />
+                  Download ZIP
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
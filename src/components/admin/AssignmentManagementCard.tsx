@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { ClipboardList, Plus, RefreshCw, Edit2, Trash2, Save, X, Eye, FileText, Calendar, Users, Upload, Paperclip, Search, Filter } from 'lucide-react';
+import { ClipboardList, Plus, RefreshCw, Edit2, Trash2, Save, X, Eye, FileText, Calendar, Users, Upload, Paperclip, Search, Filter, ListChecks, ClipboardCheck } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { assignmentApiService, AssignmentData } from '../../services/assignmentApi';
+import { RubricCriterion, RubricLevel } from '../../core/types';
 import { useAuth } from '../../features/auth/hooks/useAuth';
 import toast from 'react-hot-toast';
 import ReactQuill from 'react-quill-new';
@@ -13,6 +15,7 @@ interface AssignmentManagementCardProps {
 
 export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: AssignmentManagementCardProps) {
   const { student } = useAuth();
+  const navigate = useNavigate();
   const [assignments, setAssignments] = useState<AssignmentData[]>([]);
   const [loading, setLoading] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -84,6 +87,7 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
     q18: '', q18Mandatory: '',
     q19: '', q19Mandatory: '',
     q20: '', q20Mandatory: '',
+    rubric: null,
   });
 
   const fetchDropdowns = async () => {
@@ -147,6 +151,15 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
       return;
     }
 
+    // Rubric criteria need a name and a positive max score
+    if (formData.rubric) {
+      const invalidCriterion = formData.rubric.criteria.find(c => !c.name.trim() || !(Number(c.maxScore) > 0));
+      if (formData.rubric.criteria.length === 0 || invalidCriterion) {
+        toast.error('Each rubric criterion needs a name and a max score greater than 0');
+        return;
+      }
+    }
+
     // Check if we need to save new Subject Term entry
     const needsNewEntry = showBatchOther || showTermOther || showDomainOther || showSubjectOther;
     if (needsNewEntry) {
@@ -193,6 +206,9 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
       // Build file types string from selected types
       const fileTypesString = selectedFileTypes.join(',');
 
+      // With a rubric, total marks is always the sum of criterion max scores
+      const finalTotalMarks = formData.rubric ? String(rubricTotal) : formData.totalMarks;
+
       // Convert datetime to backend format (DD-MMM-YYYY HH:mm:ss)
       const formattedStartDateTime = formData.startDateTime ? convertToBackendDateTime(formData.startDateTime) : '';
       const formattedEndDateTime = formData.endDateTime ? convertToBackendDateTime(formData.endDateTime) : '';
@@ -209,6 +225,7 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
           startDateTime: formattedStartDateTime,
           endDateTime: formattedEndDateTime,
           fileTypes: fileTypesString,
+          totalMarks: finalTotalMarks,
           assignmentURLs: validURLs.length > 0 ? validURLs : undefined,
           editedBy: student.email,
           uploadedFiles: uploadedFilesData.length > 0 ? uploadedFilesData : undefined,
@@ -238,6 +255,8 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
             startDateTime: formattedStartDateTime,
             endDateTime: formattedEndDateTime,
             fileTypes: fileTypesString,
+            totalMarks: finalTotalMarks,
+            rubric: formData.rubric || undefined,
             assignmentURLs: validURLs.length > 0 ? validURLs : undefined,
             uploadedFiles: uploadedFilesData.length > 0 ? uploadedFilesData : undefined,
           } as AssignmentData
@@ -301,6 +320,7 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
       // Ensure peer rating fields have defaults for old assignments
       groupRatingRemarkEnabled: assignment.groupRatingRemarkEnabled || 'No',
       maximumGroupMembers: assignment.maximumGroupMembers || '',
+      rubric: assignment.rubric || null,
     });
 
     // Populate domains and subjects based on the assignment's batch and term
@@ -403,6 +423,60 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
     }
   };
 
+  // ==================== RUBRIC EDITOR ====================
+
+  const rubricTotal = formData.rubric
+    ? formData.rubric.criteria.reduce((sum, c) => sum + (Number(c.maxScore) || 0), 0)
+    : 0;
+
+  const createCriterion = (): RubricCriterion => ({
+    id: `crit_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+    name: '',
+    description: '',
+    maxScore: 10,
+    levels: [],
+  });
+
+  const toggleRubric = (enabled: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      rubric: enabled ? { id: `rubric_${Date.now()}`, criteria: [createCriterion()] } : null,
+    }));
+  };
+
+  const updateCriteria = (updater: (criteria: RubricCriterion[]) => RubricCriterion[]) => {
+    setFormData(prev => prev.rubric
+      ? { ...prev, rubric: { ...prev.rubric, criteria: updater(prev.rubric.criteria) } }
+      : prev
+    );
+  };
+
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) => {
+    updateCriteria(criteria => criteria.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, updates: Partial<RubricLevel>) => {
+    updateCriteria(criteria => criteria.map((c, i) => (
+      i === criterionIndex
+        ? { ...c, levels: c.levels.map((l, j) => (j === levelIndex ? { ...l, ...updates } : l)) }
+        : c
+    )));
+  };
+
+  const addLevel = (criterionIndex: number) => {
+    updateCriteria(criteria => criteria.map((c, i) => (
+      i === criterionIndex
+        ? { ...c, levels: [...c.levels, { score: 0, label: '', description: '' }] }
+        : c
+    )));
+  };
+
+  const removeLevel = (criterionIndex: number, levelIndex: number) => {
+    updateCriteria(criteria => criteria.map((c, i) => (
+      i === criterionIndex ? { ...c, levels: c.levels.filter((_, j) => j !== levelIndex) } : c
+    )));
+  };
+
   const resetForm = () => {
     setEditingId(null);
     setUploadedFiles([]);
@@ -449,6 +523,7 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
       q18: '', q18Mandatory: '',
       q19: '', q19Mandatory: '',
       q20: '', q20Mandatory: '',
+      rubric: null,
     });
   };
 
@@ -1137,11 +1212,147 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
                 </label>
                 <input
                   type="number"
-                  value={formData.totalMarks}
+                  value={formData.rubric ? String(rubricTotal) : formData.totalMarks}
                   onChange={(e) => setFormData({ ...formData, totalMarks: e.target.value })}
-                  className="w-full px-3 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  readOnly={!!formData.rubric}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:opacity-70"
                   placeholder="100"
                 />
+                {formData.rubric && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Calculated from the rubric criteria below
+                  </p>
+                )}
+              </div>
+
+              {/* Grading Rubric */}
+              <div className="space-y-4 p-6 bg-amber-50 dark:bg-amber-900/10 rounded-lg border border-amber-200 dark:border-amber-800">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-amber-500 rounded-lg">
+                      <ListChecks className="w-5 h-5 text-white" />
+                    </div>
+                    <div>
+                      <h3 className="text-lg font-semibold text-foreground">Grading Rubric</h3>
+                      <p className="text-xs text-muted-foreground">Score submissions criterion by criterion and share feedback with students</p>
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-foreground cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!formData.rubric}
+                      onChange={(e) => toggleRubric(e.target.checked)}
+                      className="w-4 h-4 text-amber-600 border-border rounded focus:ring-amber-500"
+                    />
+                    Use rubric
+                  </label>
+                </div>
+
+                {formData.rubric && (
+                  <div className="space-y-4">
+                    {formData.rubric.criteria.map((criterion, cIndex) => (
+                      <div key={criterion.id} className="p-4 bg-background rounded-lg border border-border space-y-3">
+                        <div className="flex items-start gap-3">
+                          <span className="mt-2 text-sm font-semibold text-muted-foreground">{cIndex + 1}.</span>
+                          <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-3">
+                            <input
+                              type="text"
+                              value={criterion.name}
+                              onChange={(e) => updateCriterion(cIndex, { name: e.target.value })}
+                              className="md:col-span-3 px-3 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                              placeholder="Criterion name (e.g., Analysis)"
+                            />
+                            <input
+                              type="number"
+                              min="0"
+                              value={criterion.maxScore}
+                              onChange={(e) => updateCriterion(cIndex, { maxScore: Number(e.target.value) })}
+                              className="px-3 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                              placeholder="Max score"
+                              title="Max score"
+                            />
+                            <textarea
+                              value={criterion.description}
+                              onChange={(e) => updateCriterion(cIndex, { description: e.target.value })}
+                              rows={2}
+                              className="md:col-span-4 px-3 py-2 bg-background border border-border rounded-lg text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                              placeholder="What is being assessed (optional)"
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => updateCriteria(criteria => criteria.filter((_, i) => i !== cIndex))}
+                            className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                            title="Remove criterion"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+
+                        {/* Performance levels */}
+                        <div className="ml-6 space-y-2">
+                          {criterion.levels.map((level, lIndex) => (
+                            <div key={lIndex} className="flex items-center gap-2">
+                              <input
+                                type="number"
+                                min="0"
+                                max={criterion.maxScore}
+                                value={level.score}
+                                onChange={(e) => updateLevel(cIndex, lIndex, { score: Number(e.target.value) })}
+                                className="w-20 px-2 py-1 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                                title="Level score"
+                              />
+                              <input
+                                type="text"
+                                value={level.label}
+                                onChange={(e) => updateLevel(cIndex, lIndex, { label: e.target.value })}
+                                className="w-40 px-2 py-1 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                                placeholder="Label (e.g., Excellent)"
+                              />
+                              <input
+                                type="text"
+                                value={level.description}
+                                onChange={(e) => updateLevel(cIndex, lIndex, { description: e.target.value })}
+                                className="flex-1 px-2 py-1 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                                placeholder="Descriptor"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => removeLevel(cIndex, lIndex)}
+                                className="p-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                                title="Remove level"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() => addLevel(cIndex)}
+                            className="text-xs text-amber-700 dark:text-amber-400 hover:underline flex items-center gap-1"
+                          >
+                            <Plus className="w-3 h-3" />
+                            Add performance level
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+
+                    <div className="flex items-center justify-between">
+                      <button
+                        type="button"
+                        onClick={() => updateCriteria(criteria => [...criteria, createCriterion()])}
+                        className="flex items-center gap-2 px-4 py-2 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Add Criterion
+                      </button>
+                      <span className="text-sm font-medium text-foreground">
+                        Rubric total: {rubricTotal} marks
+                      </span>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Submission Requirements */}
@@ -1661,6 +1872,9 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
                         </div>
                         <div>
                           <span className="font-medium">Marks:</span> {assignment.totalMarks || 'N/A'}
+                          {assignment.rubric && (
+                            <span className="ml-1 text-xs text-amber-700 dark:text-amber-400">(rubric)</span>
+                          )}
                         </div>
                         <div className="col-span-2">
                           <span className="font-medium">Deadline:</span> {formatDateTime(assignment.endDateTime || '')}
@@ -1709,6 +1923,15 @@ export function AssignmentManagementCard({ activeTab = 'all', onTabChange }: Ass
                       >
                         <Edit2 className="w-4 h-4" />
                       </button>
+                      {assignment.sheetsLink && (
+                        <button
+                          onClick={() => navigate(`/admin/assignments/${encodeURIComponent(assignment.assignmentId!)}/grade`)}
+                          className="p-2 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded transition-colors"
+                          title="Grade Submissions"
+                        >
+                          <ClipboardCheck className="w-4 h-4" />
+                        </button>
+                      )}
                       {assignment.status === 'Active' && (
                         <button
                           onClick={() => handleStatusChange(assignment.assignmentId!, 'Disabled')}
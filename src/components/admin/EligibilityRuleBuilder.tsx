@@ -0,0 +1,195 @@
+import React from 'react';
+import { Plus, Trash2, FolderPlus } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  EligibilityCondition,
+  EligibilityField,
+  EligibilityGroup,
+  EligibilityRule,
+  ELIGIBILITY_FIELDS,
+  OPERATOR_LABELS,
+  createCondition,
+  createGroup,
+  operatorsForField
+} from '../../utils/eligibility';
+
+interface EligibilityRuleBuilderProps {
+  value: EligibilityGroup | null;
+  onChange: (value: EligibilityGroup | null) => void;
+}
+
+const selectClass = 'px-3 py-2 border rounded-lg bg-background text-sm';
+
+interface ConditionRowProps {
+  condition: EligibilityCondition;
+  onChange: (condition: EligibilityCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({ condition, onChange, onRemove }) => {
+  const field = ELIGIBILITY_FIELDS[condition.field];
+
+  const changeField = (next: EligibilityField) => {
+    onChange({ ...createCondition(next), id: condition.id });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.field}
+        onChange={(e) => changeField(e.target.value as EligibilityField)}
+        className={selectClass}
+      >
+        {(Object.keys(ELIGIBILITY_FIELDS) as EligibilityField[]).map(f => (
+          <option key={f} value={f}>{ELIGIBILITY_FIELDS[f].label}</option>
+        ))}
+      </select>
+
+      <select
+        value={condition.operator}
+        onChange={(e) => onChange({ ...condition, operator: e.target.value as EligibilityCondition['operator'] })}
+        className={selectClass}
+      >
+        {operatorsForField(condition.field).map(op => (
+          <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+        ))}
+      </select>
+
+      {field.kind === 'boolean' ? (
+        <select
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={selectClass}
+        >
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      ) : (
+        <Input
+          type={field.kind === 'number' ? 'number' : 'text'}
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          placeholder={field.hint || 'Value'}
+          className="flex-1 min-w-[160px]"
+        />
+      )}
+
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20 rounded"
+        title="Remove condition"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: EligibilityGroup;
+  onChange: (group: EligibilityGroup) => void;
+  onRemove?: () => void;
+  depth: number;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, onChange, onRemove, depth }) => {
+  const updateRule = (index: number, rule: EligibilityRule) => {
+    onChange({ ...group, rules: group.rules.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-3 p-4 rounded-lg border ${depth > 0 ? 'bg-muted/40' : 'bg-background'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Match</span>
+          <select
+            value={group.combinator}
+            onChange={(e) => onChange({ ...group, combinator: e.target.value as 'AND' | 'OR' })}
+            className={selectClass}
+          >
+            <option value="AND">all (AND)</option>
+            <option value="OR">any (OR)</option>
+          </select>
+          <span className="text-muted-foreground">of the following</span>
+        </div>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20 rounded"
+            title="Remove group"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">No conditions - everyone in the batch is eligible.</p>
+      )}
+
+      {group.rules.map((rule, index) => (
+        <div key={rule.id}>
+          {index > 0 && (
+            <p className="text-xs font-semibold text-muted-foreground mb-2">{group.combinator}</p>
+          )}
+          {rule.type === 'group' ? (
+            <GroupEditor
+              group={rule}
+              onChange={(g) => updateRule(index, g)}
+              onRemove={() => removeRule(index)}
+              depth={depth + 1}
+            />
+          ) : (
+            <ConditionRow
+              condition={rule}
+              onChange={(c) => updateRule(index, c)}
+              onRemove={() => removeRule(index)}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, rules: [...group.rules, createCondition()] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Condition
+        </Button>
+        {depth < 2 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...group, rules: [...group.rules, createGroup(group.combinator === 'AND' ? 'OR' : 'AND')] })}
+          >
+            <FolderPlus className="w-4 h-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const EligibilityRuleBuilder: React.FC<EligibilityRuleBuilderProps> = ({ value, onChange }) => {
+  const group = value || createGroup();
+
+  return (
+    <GroupEditor
+      group={group}
+      onChange={onChange}
+      depth={0}
+    />
+  );
+};
@@ -0,0 +1,305 @@
+import React from 'react';
+import { Plus, Trash2, FolderPlus } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  FormLogicAction,
+  FormLogicCondition,
+  FormLogicGroup,
+  FormLogicNode,
+  FormLogicOperator,
+  FormLogicRule,
+  LOGIC_ACTION_LABELS,
+  LOGIC_OPERATOR_LABELS,
+  UNARY_OPERATORS,
+  createLogicCondition,
+  createLogicGroup,
+  getRuleCondition,
+  normalizeAction,
+  normalizeOperator
+} from '../../utils/formLogic';
+import { PAGE_BREAK_TYPE } from '../../utils/formPages';
+
+export interface LogicEditorQuestion {
+  questionText: string;
+  questionType: string;
+  options?: Array<{ optionText: string }>;
+}
+
+interface FormLogicRuleEditorProps {
+  rule: FormLogicRule;
+  // Index of the question that owns the rule
+  questionIndex: number;
+  questions: LogicEditorQuestion[];
+  onChange: (rule: FormLogicRule) => void;
+  onRemove: () => void;
+}
+
+const selectClass = 'px-3 py-2 border rounded-lg bg-background text-sm';
+
+// Questions without an answer to compare
+const isScreen = (question: LogicEditorQuestion) =>
+  ['Start Screen', 'End Screen', PAGE_BREAK_TYPE].includes(question.questionType);
+
+const questionLabel = (question: LogicEditorQuestion, index: number) =>
+  `Q${index + 1}: ${question.questionText || `Question ${index + 1}`}`;
+
+interface ConditionRowProps {
+  condition: FormLogicCondition;
+  questions: LogicEditorQuestion[];
+  // Questions a condition may refer to (answered before the rule is evaluated)
+  available: number[];
+  onChange: (condition: FormLogicCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({ condition, questions, available, onChange, onRemove }) => {
+  const operator = normalizeOperator(condition.operator) || 'is';
+  const comparesQuestion = condition.compareQuestionIndex !== undefined && condition.compareQuestionIndex >= 0;
+  const options = questions[condition.questionIndex]?.options?.filter(o => o.optionText?.trim()) || [];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.questionIndex}
+        onChange={(e) => onChange({ ...condition, questionIndex: Number(e.target.value), value: '' })}
+        className={`${selectClass} max-w-[220px]`}
+      >
+        <option value={-1}>Select question...</option>
+        {available.map(i => (
+          <option key={i} value={i}>{questionLabel(questions[i], i)}</option>
+        ))}
+      </select>
+
+      <select
+        value={operator}
+        onChange={(e) => onChange({ ...condition, operator: e.target.value as FormLogicOperator })}
+        className={selectClass}
+      >
+        {(Object.keys(LOGIC_OPERATOR_LABELS) as FormLogicOperator[]).map(op => (
+          <option key={op} value={op}>{LOGIC_OPERATOR_LABELS[op]}</option>
+        ))}
+      </select>
+
+      {!UNARY_OPERATORS.includes(operator) && (
+        <>
+          <select
+            value={comparesQuestion ? condition.compareQuestionIndex : -1}
+            onChange={(e) => {
+              const compareTo = Number(e.target.value);
+              onChange({ ...condition, compareQuestionIndex: compareTo >= 0 ? compareTo : undefined });
+            }}
+            className={`${selectClass} max-w-[180px]`}
+            title="Compare with a fixed value or another answer"
+          >
+            <option value={-1}>value</option>
+            {available.filter(i => i !== condition.questionIndex).map(i => (
+              <option key={i} value={i}>answer to Q{i + 1}</option>
+            ))}
+          </select>
+
+          {!comparesQuestion && (options.length > 0 ? (
+            <select
+              value={condition.value}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              className={`${selectClass} flex-1 min-w-[140px]`}
+            >
+              <option value="">Select option...</option>
+              {options.map(o => (
+                <option key={o.optionText} value={o.optionText}>{o.optionText}</option>
+              ))}
+            </select>
+          ) : (
+            <Input
+              value={condition.value}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              placeholder="Value"
+              className="flex-1 min-w-[140px]"
+            />
+          ))}
+        </>
+      )}
+
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20 rounded"
+        title="Remove condition"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: FormLogicGroup;
+  questions: LogicEditorQuestion[];
+  available: number[];
+  onChange: (group: FormLogicGroup) => void;
+  onRemove?: () => void;
+  depth: number;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, questions, available, onChange, onRemove, depth }) => {
+  const updateNode = (index: number, node: FormLogicNode) => {
+    onChange({ ...group, rules: group.rules.map((r, i) => (i === index ? node : r)) });
+  };
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-3 p-3 rounded-lg border ${depth > 0 ? 'bg-muted/40' : 'bg-background'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Match</span>
+          <select
+            value={group.combinator}
+            onChange={(e) => onChange({ ...group, combinator: e.target.value as 'AND' | 'OR' })}
+            className={selectClass}
+          >
+            <option value="AND">all (AND)</option>
+            <option value="OR">any (OR)</option>
+          </select>
+          <span className="text-muted-foreground">of the following</span>
+        </div>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20 rounded"
+            title="Remove group"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">No conditions - the rule always applies.</p>
+      )}
+
+      {group.rules.map((node, index) => (
+        <div key={node.id}>
+          {index > 0 && (
+            <p className="text-xs font-semibold text-muted-foreground mb-2">{group.combinator}</p>
+          )}
+          {node.type === 'group' ? (
+            <GroupEditor
+              group={node}
+              questions={questions}
+              available={available}
+              onChange={(g) => updateNode(index, g)}
+              onRemove={() => removeNode(index)}
+              depth={depth + 1}
+            />
+          ) : (
+            <ConditionRow
+              condition={node}
+              questions={questions}
+              available={available}
+              onChange={(c) => updateNode(index, c)}
+              onRemove={() => removeNode(index)}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, rules: [...group.rules, createLogicCondition()] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Condition
+        </Button>
+        {depth < 2 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({
+              ...group,
+              rules: [...group.rules, createLogicGroup(group.combinator === 'AND' ? 'OR' : 'AND', [createLogicCondition()])]
+            })}
+          >
+            <FolderPlus className="w-4 h-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const FormLogicRuleEditor: React.FC<FormLogicRuleEditorProps> = ({
+  rule,
+  questionIndex,
+  questions,
+  onChange,
+  onRemove
+}) => {
+  const action = normalizeAction(rule.action);
+  const condition = getRuleCondition(rule);
+
+  // Show/hide is decided before the question is answered; navigation rules run after it
+  const available = questions
+    .map((_, i) => i)
+    .filter(i => (action === 'show' || action === 'hide' ? i < questionIndex : i <= questionIndex))
+    .filter(i => !isScreen(questions[i]));
+
+  // Legacy single-condition fields are dropped once the rule is edited
+  const update = (updates: Partial<FormLogicRule>) => {
+    onChange({ action, condition, targetIndex: rule.targetIndex, order: rule.order, ...updates });
+  };
+
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg border border-border space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={action}
+          onChange={(e) => update({ action: e.target.value as FormLogicAction })}
+          className={selectClass}
+        >
+          {(Object.keys(LOGIC_ACTION_LABELS) as FormLogicAction[]).map(a => (
+            <option key={a} value={a}>{LOGIC_ACTION_LABELS[a]}</option>
+          ))}
+        </select>
+
+        {action === 'jump' && (
+          <select
+            value={rule.targetIndex ?? -1}
+            onChange={(e) => update({ targetIndex: Number(e.target.value) >= 0 ? Number(e.target.value) : undefined })}
+            className={`${selectClass} max-w-[240px]`}
+          >
+            <option value={-1}>Jump to...</option>
+            {questions.map((q, i) => i !== questionIndex && (
+              <option key={i} value={i}>{questionLabel(q, i)}</option>
+            ))}
+          </select>
+        )}
+
+        <button
+          type="button"
+          onClick={onRemove}
+          className="ml-auto p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20 rounded"
+          title="Remove rule"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <GroupEditor
+        group={condition}
+        questions={questions}
+        available={available}
+        onChange={(group) => update({ condition: group })}
+        depth={0}
+      />
+    </div>
+  );
+};
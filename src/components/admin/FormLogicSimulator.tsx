@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Check, EyeOff, RotateCcw, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  FormAnswers,
+  FormLogicRule,
+  analyzeFormLogic,
+  describeLogicNode,
+  getQuestionRules,
+  getRuleCondition,
+  normalizeAction,
+  simulateForm
+} from '../../utils/formLogic';
+import { PAGE_BREAK_TYPE } from '../../utils/formPages';
+import { LogicEditorQuestion } from './FormLogicRuleEditor';
+
+interface SimulatorQuestion extends LogicEditorQuestion {
+  hasConditionalLogic?: boolean;
+  conditionalRules?: FormLogicRule[];
+}
+
+interface FormLogicSimulatorProps {
+  questions: SimulatorQuestion[];
+  onSelectQuestion: (index: number) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'px-3 py-2 border rounded-lg bg-background text-sm w-full';
+
+const NO_ANSWER_TYPES = ['Start Screen', 'End Screen', 'Statement', PAGE_BREAK_TYPE];
+
+const ISSUE_LABELS = {
+  invalid_reference: 'Broken rule',
+  unreachable: 'Unreachable',
+  cycle: 'Loop',
+};
+
+export const FormLogicSimulator: React.FC<FormLogicSimulatorProps> = ({ questions, onSelectQuestion, onClose }) => {
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+
+  const issues = useMemo(() => analyzeFormLogic(questions), [questions]);
+
+  const simulation = useMemo(() => {
+    // Blank inputs count as unanswered
+    const given: FormAnswers = {};
+    Object.entries(answers).forEach(([index, value]) => {
+      if (value.trim()) given[Number(index)] = value;
+    });
+    return simulateForm(questions, given);
+  }, [questions, answers]);
+
+  const lastStep = simulation.path[simulation.path.length - 1];
+
+  const statusFor = (index: number) => {
+    const step = simulation.path.indexOf(index);
+    if (step >= 0) return { label: `Step ${step + 1}`, className: 'text-green-600 dark:text-green-400' };
+    if (lastStep !== undefined && index < lastStep) return { label: 'Skipped', className: 'text-muted-foreground' };
+    return { label: 'Not reached', className: 'text-muted-foreground' };
+  };
+
+  const summarizeRules = (question: SimulatorQuestion) =>
+    getQuestionRules(question)
+      .map(rule => {
+        const action = normalizeAction(rule.action);
+        const target = action === 'jump' && rule.targetIndex !== undefined ? ` Q${Number(rule.targetIndex) + 1}` : '';
+        return `${action}${target} if ${describeLogicNode(getRuleCondition(rule))}`;
+      })
+      .join('; ');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Simulate Responses</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Enter sample answers to see which questions a respondent would see, in order.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setAnswers({})} className="gap-1">
+                <RotateCcw className="w-4 h-4" />
+                Reset
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Static checks */}
+          {issues.length > 0 ? (
+            <div className="space-y-2 p-4 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-800">
+              <p className="text-sm font-semibold flex items-center gap-2 text-amber-800 dark:text-amber-300">
+                <AlertCircle className="w-4 h-4" />
+                {issues.length} logic issue{issues.length !== 1 ? 's' : ''} found
+              </p>
+              <ul className="space-y-1">
+                {issues.map((issue, i) => (
+                  <li key={i} className="text-sm">
+                    <button
+                      type="button"
+                      onClick={() => onSelectQuestion(issue.questionIndex)}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      Q{issue.questionIndex + 1}
+                    </button>
+                    <span className="text-muted-foreground"> · {ISSUE_LABELS[issue.kind]}: </span>
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm flex items-center gap-2 text-green-600 dark:text-green-400">
+              <Check className="w-4 h-4" />
+              No unreachable questions or loops found.
+            </p>
+          )}
+
+          {/* Outcome for the sample answers */}
+          <div className="p-4 rounded-lg border bg-muted/30 text-sm">
+            {simulation.outcome === 'cycle' ? (
+              <p className="text-red-600 dark:text-red-400 font-medium">
+                These answers loop back to Q{(simulation.cycleAt ?? 0) + 1}; the respondent could never submit.
+              </p>
+            ) : (
+              <p>
+                <span className="font-medium">Path: </span>
+                {simulation.path.length > 0
+                  ? simulation.path.map(i => `Q${i + 1}`).join(' → ')
+                  : 'no questions shown'}
+                {' → '}
+                <span className="font-medium">Submit</span>
+              </p>
+            )}
+          </div>
+
+          <div className="border rounded-lg divide-y">
+            {questions.map((question, index) => {
+              const status = statusFor(index);
+              const onPath = simulation.path.includes(index);
+              const options = question.options?.filter(o => o.optionText?.trim()) || [];
+              const rules = summarizeRules(question);
+
+              return (
+                <div key={index} className={`p-3 grid grid-cols-12 gap-3 items-center ${onPath ? '' : 'opacity-60'}`}>
+                  <div className="col-span-6 min-w-0">
+                    <button
+                      type="button"
+                      onClick={() => onSelectQuestion(index)}
+                      className="text-sm font-medium text-left hover:underline truncate block w-full"
+                    >
+                      Q{index + 1}: {question.questionText || question.questionType}
+                    </button>
+                    {rules && <p className="text-xs text-muted-foreground truncate" title={rules}>{rules}</p>}
+                  </div>
+                  <div className={`col-span-2 text-xs font-medium flex items-center gap-1 ${status.className}`}>
+                    {!onPath && <EyeOff className="w-3 h-3" />}
+                    {status.label}
+                  </div>
+                  <div className="col-span-4">
+                    {NO_ANSWER_TYPES.includes(question.questionType) ? null : options.length > 0 ? (
+                      <select
+                        value={answers[index] || ''}
+                        onChange={(e) => setAnswers(prev => ({ ...prev, [index]: e.target.value }))}
+                        className={selectClass}
+                      >
+                        <option value="">No answer</option>
+                        {options.map(o => (
+                          <option key={o.optionText} value={o.optionText}>{o.optionText}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <Input
+                        value={answers[index] || ''}
+                        onChange={(e) => setAnswers(prev => ({ ...prev, [index]: e.target.value }))}
+                        placeholder="Sample answer"
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { apiService, OfferStatus, OfferType, PlacementOffer, PlacementOfferInput } from '../../services/api';
+import toast from 'react-hot-toast';
+
+export interface OfferJobOption {
+  jobId: string;
+  company: string;
+  role: string;
+  batch?: string;
+  ctcType?: string;
+  ctcValue?: string | number;
+  ctcValueSecondary?: string | number;
+  ctcDisplay?: string;
+  esopType?: string;
+  esopValue?: string | number;
+  esopDisplay?: string;
+  bonusType?: string;
+  bonusValue?: string | number;
+  bonusValueSecondary?: string | number;
+  bonusDisplay?: string;
+}
+
+interface OfferFormModalProps {
+  // Existing offer to edit; otherwise a new offer is recorded
+  offer?: PlacementOffer | null;
+  // Prefill for a new offer, e.g. the applicant it comes from
+  initialValues?: Partial<PlacementOfferInput>;
+  jobs?: OfferJobOption[];
+  onClose: () => void;
+  onSaved: (offer: PlacementOffer) => void;
+}
+
+type OfferForm = Required<Omit<PlacementOfferInput, 'ctcValue' | 'ctcValueSecondary' | 'esopValue' | 'esopValueSecondary' | 'bonusValue' | 'bonusValueSecondary'>> & {
+  ctcValue: string;
+  ctcValueSecondary: string;
+  esopValue: string;
+  esopValueSecondary: string;
+  bonusValue: string;
+  bonusValueSecondary: string;
+};
+
+const selectClass = 'w-full px-3 py-2 border rounded-lg bg-background';
+
+const toText = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
+function buildForm(offer?: PlacementOffer | null, initial?: Partial<PlacementOfferInput>): OfferForm {
+  const source: Partial<PlacementOfferInput> = { ...(initial || {}), ...(offer || {}) };
+  return {
+    studentEmail: toText(source.studentEmail),
+    studentName: toText(source.studentName),
+    batch: toText(source.batch),
+    jobId: toText(source.jobId),
+    applicationId: toText(source.applicationId),
+    company: toText(source.company),
+    role: toText(source.role),
+    offerType: source.offerType || 'FT',
+    ctcType: toText(source.ctcType) || 'Fixed',
+    ctcValue: toText(source.ctcValue),
+    ctcValueSecondary: toText(source.ctcValueSecondary),
+    ctcDisplay: toText(source.ctcDisplay),
+    esopType: toText(source.esopType),
+    esopValue: toText(source.esopValue),
+    esopValueSecondary: toText(source.esopValueSecondary),
+    esopDisplay: toText(source.esopDisplay),
+    bonusType: toText(source.bonusType),
+    bonusValue: toText(source.bonusValue),
+    bonusValueSecondary: toText(source.bonusValueSecondary),
+    bonusDisplay: toText(source.bonusDisplay),
+    status: source.status || 'Pending',
+    offerDate: toText(source.offerDate).split('T')[0] || new Date().toISOString().split('T')[0],
+    notes: toText(source.notes),
+  };
+}
+
+export const OfferFormModal: React.FC<OfferFormModalProps> = ({ offer, initialValues, jobs = [], onClose, onSaved }) => {
+  const [form, setForm] = useState<OfferForm>(() => buildForm(offer, initialValues));
+  const [saving, setSaving] = useState(false);
+
+  const update = (updates: Partial<OfferForm>) => setForm(prev => ({ ...prev, ...updates }));
+
+  // Picking the job copies its company, role and compensation; admins adjust to the actual offer
+  const selectJob = (jobId: string) => {
+    const job = jobs.find(j => j.jobId === jobId);
+    if (!job) {
+      update({ jobId: '' });
+      return;
+    }
+    update({
+      jobId,
+      company: job.company,
+      role: job.role,
+      batch: form.batch || toText(job.batch),
+      ctcType: toText(job.ctcType) || 'Fixed',
+      ctcValue: toText(job.ctcValue),
+      ctcValueSecondary: toText(job.ctcValueSecondary),
+      ctcDisplay: toText(job.ctcDisplay),
+      esopType: toText(job.esopType),
+      esopValue: toText(job.esopValue),
+      esopDisplay: toText(job.esopDisplay),
+      bonusType: toText(job.bonusType),
+      bonusValue: toText(job.bonusValue),
+      bonusValueSecondary: toText(job.bonusValueSecondary),
+      bonusDisplay: toText(job.bonusDisplay),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.studentEmail.trim() || !form.company.trim() || !form.role.trim()) {
+      toast.error('Student email, company and role are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = offer
+        ? await apiService.updateOffer(offer.offerId, form)
+        : await apiService.createOffer(form);
+
+      if (result.success && result.data) {
+        toast.success(offer ? 'Offer updated' : 'Offer recorded');
+        onSaved(result.data);
+      } else {
+        toast.error(result.error || 'Failed to save offer');
+      }
+    } catch (error) {
+      console.error('Error saving offer:', error);
+      toast.error('Error saving offer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <CardTitle>{offer ? 'Edit Offer' : 'Record Offer'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Student */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Student Email *</Label>
+              <Input value={form.studentEmail} onChange={(e) => update({ studentEmail: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Student Name</Label>
+              <Input value={form.studentName} onChange={(e) => update({ studentName: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Batch</Label>
+              <Input
+                value={form.batch}
+                onChange={(e) => update({ batch: e.target.value })}
+                placeholder="From student profile"
+              />
+            </div>
+          </div>
+
+          {/* Job */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {jobs.length > 0 && (
+              <div className="space-y-2">
+                <Label>Job Posting</Label>
+                <select value={form.jobId} onChange={(e) => selectJob(e.target.value)} className={selectClass}>
+                  <option value="">Off-portal offer</option>
+                  {jobs.map(job => (
+                    <option key={job.jobId} value={job.jobId}>{job.company} - {job.role}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Company *</Label>
+              <Input value={form.company} onChange={(e) => update({ company: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Role *</Label>
+              <Input value={form.role} onChange={(e) => update({ role: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Offer Type</Label>
+              <select value={form.offerType} onChange={(e) => update({ offerType: e.target.value as OfferType })} className={selectClass}>
+                <option value="FT">Full-Time</option>
+                <option value="Internship">Internship</option>
+                <option value="PPO">PPO</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <select value={form.status} onChange={(e) => update({ status: e.target.value as OfferStatus })} className={selectClass}>
+                <option value="Pending">Pending</option>
+                <option value="Accepted">Accepted</option>
+                <option value="Declined">Declined</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label>Offer Date</Label>
+              <Input type="date" value={form.offerDate} onChange={(e) => update({ offerDate: e.target.value })} />
+            </div>
+          </div>
+
+          {/* Compensation - same fields as the job posting */}
+          <div className="space-y-4 pt-4 border-t">
+            <h4 className="font-semibold">Compensation</h4>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>CTC Type</Label>
+                <select value={form.ctcType} onChange={(e) => update({ ctcType: e.target.value })} className={selectClass}>
+                  <option value="Fixed">Fixed</option>
+                  <option value="Range">Range</option>
+                  <option value="Upto">Upto</option>
+                  <option value="MonthlyStipend">Monthly Stipend</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>{form.ctcType === 'MonthlyStipend' ? 'Stipend (₹K/month)' : 'CTC (LPA)'}</Label>
+                <Input type="number" value={form.ctcValue} onChange={(e) => update({ ctcValue: e.target.value })} />
+              </div>
+              {form.ctcType === 'Range' && (
+                <div className="space-y-2">
+                  <Label>CTC Upper (LPA)</Label>
+                  <Input type="number" value={form.ctcValueSecondary} onChange={(e) => update({ ctcValueSecondary: e.target.value })} />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>CTC Display</Label>
+                <Input value={form.ctcDisplay} onChange={(e) => update({ ctcDisplay: e.target.value })} placeholder="e.g. 18 LPA" />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>ESOP Type</Label>
+                <select value={form.esopType} onChange={(e) => update({ esopType: e.target.value })} className={selectClass}>
+                  <option value="">None</option>
+                  <option value="FixedValue">Fixed Value</option>
+                  <option value="Percentage">Percentage</option>
+                </select>
+              </div>
+              {form.esopType && form.esopType !== 'None' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>ESOP Value</Label>
+                    <Input type="number" value={form.esopValue} onChange={(e) => update({ esopValue: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>ESOP Display</Label>
+                    <Input value={form.esopDisplay} onChange={(e) => update({ esopDisplay: e.target.value })} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Bonus Type</Label>
+                <select value={form.bonusType} onChange={(e) => update({ bonusType: e.target.value })} className={selectClass}>
+                  <option value="">None</option>
+                  <option value="FixedValue">Fixed Value</option>
+                  <option value="Percentage">Percentage</option>
+                  <option value="Range">Range</option>
+                </select>
+              </div>
+              {form.bonusType && form.bonusType !== 'None' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Bonus Value</Label>
+                    <Input type="number" value={form.bonusValue} onChange={(e) => update({ bonusValue: e.target.value })} />
+                  </div>
+                  {form.bonusType === 'Range' && (
+                    <div className="space-y-2">
+                      <Label>Bonus Upper</Label>
+                      <Input type="number" value={form.bonusValueSecondary} onChange={(e) => update({ bonusValueSecondary: e.target.value })} />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label>Bonus Display</Label>
+                    <Input value={form.bonusDisplay} onChange={(e) => update({ bonusDisplay: e.target.value })} />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Input value={form.notes} onChange={(e) => update({ notes: e.target.value })} placeholder="Joining date, location, conditions..." />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4 border-t">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : offer ? 'Save Offer' : 'Record Offer'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
-import React, { useState, useEffect } from 'react';
-import { Video, RefreshCw, PlayCircle, Download, BarChart } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Video, RefreshCw, PlayCircle, Download, BarChart, Captions, Upload } from 'lucide-react';
 import { apiService } from '../../services/api';
+import { api as zoomApi } from '../../zoom/services/api';
 import { useAuth } from '../../features/auth/hooks/useAuth';
+import { Session, TranscriptCue, TranscriptFormat } from '../../types';
+import { TRANSCRIPT_FILE_ACCEPT, TRANSCRIPT_FORMAT_LABELS, parseTranscript } from '../../utils/transcripts';
+import { formatPlaybackTime } from '../../utils/playbackTime';
 import toast from 'react-hot-toast';
 
 interface ZoomStats {
@@ -20,6 +24,112 @@ interface ZoomStats {
   lastUpdated: string;
 }
 
+interface ParsedTranscript {
+  fileName: string;
+  format: TranscriptFormat;
+  cues: TranscriptCue[];
+}
+
+// Attach a WebVTT/SRT/Zoom transcript to a published recording
+function TranscriptUploader({ adminEmail, disabled }: { adminEmail?: string; disabled: boolean }) {
+  const [recordings, setRecordings] = useState<Session[]>([]);
+  const [sessionId, setSessionId] = useState('');
+  const [transcript, setTranscript] = useState<ParsedTranscript | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    zoomApi.getRecordings()
+      .then(response => setRecordings(response.data?.sessions || []))
+      .catch(error => console.error('Error loading recordings:', error));
+  }, []);
+
+  const sortedRecordings = useMemo(
+    () => [...recordings].sort((a, b) => String(b.date).localeCompare(String(a.date))),
+    [recordings]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { format, cues } = parseTranscript(await file.text());
+      setTranscript({ fileName: file.name, format, cues });
+    } catch (error) {
+      setTranscript(null);
+      toast.error(error instanceof Error ? error.message : 'Could not read the transcript');
+    }
+  };
+
+  const handleUpload = async () => {
+    const recording = recordings.find(r => r.sessionId === sessionId);
+    if (!adminEmail || !recording || !transcript) return;
+
+    try {
+      setUploading(true);
+      const response = await zoomApi.saveSessionTranscript(adminEmail, recording, transcript.format, transcript.cues);
+      if (response.success && response.data) {
+        toast.success(`${response.data.replaced ? 'Replaced' : 'Attached'} transcript for ${recording.sessionName}`);
+        setTranscript(null);
+      } else {
+        toast.error(response.error || 'Failed to upload transcript');
+      }
+    } catch (error) {
+      console.error('Error uploading transcript:', error);
+      toast.error('Failed to upload transcript');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const lastCue = transcript?.cues[transcript.cues.length - 1];
+
+  return (
+    <div className="mt-6 pt-6 border-t border-border space-y-3">
+      <div className="flex items-center gap-2">
+        <Captions className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold text-foreground">Recording Transcripts</h3>
+      </div>
+
+      <select
+        value={sessionId}
+        onChange={(e) => setSessionId(e.target.value)}
+        className="w-full px-3 py-2 rounded-lg bg-background border border-border text-sm text-foreground"
+      >
+        <option value="">Select a recording...</option>
+        {sortedRecordings.map(recording => (
+          <option key={`${recording.batch}-${recording.sessionId}`} value={recording.sessionId}>
+            {[recording.batch, recording.subject, recording.sessionName].filter(Boolean).join(' · ')}
+            {recording.date ? ` (${new Date(recording.date).toLocaleDateString()})` : ''}
+          </option>
+        ))}
+      </select>
+
+      <label className="flex items-center justify-center gap-2 px-4 py-3 border border-dashed border-border rounded-lg text-sm text-muted-foreground hover:bg-accent cursor-pointer transition-colors">
+        <Upload className="w-4 h-4" />
+        {transcript ? transcript.fileName : 'Choose a .vtt, .srt or Zoom .txt transcript'}
+        <input type="file" accept={TRANSCRIPT_FILE_ACCEPT} onChange={handleFile} className="hidden" />
+      </label>
+
+      {transcript && lastCue && (
+        <p className="text-xs text-muted-foreground">
+          {TRANSCRIPT_FORMAT_LABELS[transcript.format]} · {transcript.cues.length} lines · ends at {formatPlaybackTime(lastCue.end)}
+        </p>
+      )}
+
+      <button
+        onClick={handleUpload}
+        disabled={disabled || uploading || !sessionId || !transcript}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Captions className={`w-5 h-5 ${uploading ? 'animate-pulse' : ''}`} />
+        {uploading ? 'Uploading Transcript...' : 'Attach Transcript'}
+      </button>
+    </div>
+  );
+}
+
 export function ZoomManagementCard() {
   const { student } = useAuth();
   const [stats, setStats] = useState<ZoomStats | null>(null);
@@ -198,6 +308,8 @@ export function ZoomManagementCard() {
         </button>
       </div>
 
+      <TranscriptUploader adminEmail={student?.email} disabled={!student?.isAdmin} />
+
       {/* Last Updated */}
       {stats && (
         <div className="mt-4 pt-4 border-t border-border">
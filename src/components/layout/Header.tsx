@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Menu, Sun, Moon, User, LogOut, Video, Film, FileEdit } from 'lucide-react';
+import { Menu, Sun, Moon, User, LogOut, Video, Film, FileEdit, GraduationCap } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import { DropdownMenu, DropdownMenuItem, DropdownMenuSeparator } from '../ui/dropdown-menu';
@@ -270,6 +270,12 @@ const Header: React.FC<HeaderProps> = ({ sidebarOpen, setSidebarOpen }) => {
                       <span>Profile</span>
                     </div>
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/profile/grades')}>
+                    <div className="flex items-center space-x-2">
+                      <GraduationCap className="w-4 h-4" />
+                      <span>My Grades</span>
+                    </div>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut}>
                     <div className="flex items-center space-x-2 text-red-600">
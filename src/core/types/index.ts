@@ -197,7 +197,7 @@ export interface Note {
   sessionId: string;
   userId: string;
   content: string;
-  timestamp?: number; // video timestamp in seconds
+  timestamp?: number; // recording position of the first line, in seconds (each line keeps its own as data-t)
   tags: string[];
   createdAt: string;
   updatedAt: string;
@@ -430,6 +430,23 @@ export interface PeerRating {
   createdAt: string;
 }
 
+// ============================================
+// Gradebook Types
+// ============================================
+
+export type AssessmentCategory = 'exam' | 'assignment' | 'peer';
+
+export interface GradeBand {
+  letter: string;
+  minPercent: number;
+}
+
+export interface GradebookWeights {
+  categoryWeights: Record<AssessmentCategory, number>; // Percent per category, summing to 100
+  assessmentWeights: Record<string, number>; // Relative weight within a category, default 1
+  gradeScale: GradeBand[]; // Sorted by minPercent, highest first
+}
+
 // ============================================
 // Form Types
 // ============================================
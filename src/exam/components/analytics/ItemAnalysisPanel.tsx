@@ -0,0 +1,437 @@
+/**
+ * Item Analysis Panel
+ * Psychometric report for a delivered exam (shown on the admin exam view page)
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { AlertTriangle, BarChart3, ChevronDown, ChevronUp, Clock, RefreshCw, Users, Activity, Edit3, History } from 'lucide-react';
+import {
+  getExamItemResponses,
+  getRegradeLog,
+  type ExamItemResponses,
+  type ItemResponseQuestion,
+  type RegradeLogEntry
+} from '../../services/examApi';
+import {
+  analyzeExamItems,
+  describeReliability,
+  formatDuration,
+  ITEM_FLAG_LABELS,
+  type HistogramBucket,
+  type ItemStats
+} from '../../utils/itemAnalysis';
+import RegradeModal from './RegradeModal';
+
+interface ItemAnalysisPanelProps {
+  examId: string;
+}
+
+const formatIndex = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const REGRADE_MODE_LABELS: Record<RegradeLogEntry['mode'], string> = {
+  CHANGE_KEY: 'Key changed',
+  FULL_MARKS: 'Full marks',
+  DROP: 'Dropped'
+};
+
+interface RegradeSummary {
+  entry: RegradeLogEntry;
+  attempts: number;
+  changed: number;
+}
+
+// One summary per regrade; the log holds a row per affected attempt
+const summarizeRegrades = (log: RegradeLogEntry[]): RegradeSummary[] => {
+  const byId = new Map<string, RegradeSummary>();
+  log.forEach(entry => {
+    const summary = byId.get(entry.regradeId) || { entry, attempts: 0, changed: 0 };
+    if (entry.attemptId) {
+      summary.attempts++;
+      if (entry.oldScore !== entry.newScore) summary.changed++;
+    }
+    byId.set(entry.regradeId, summary);
+  });
+  return Array.from(byId.values()).reverse();
+};
+
+const difficultyColor = (p: number | null) => {
+  if (p === null) return 'text-gray-500 dark:text-gray-400';
+  if (p < 0.2 || p > 0.9) return 'text-red-600 dark:text-red-400';
+  if (p < 0.3 || p > 0.8) return 'text-amber-600 dark:text-amber-400';
+  return 'text-green-600 dark:text-green-400';
+};
+
+const discriminationColor = (d: number | null) => {
+  if (d === null) return 'text-gray-500 dark:text-gray-400';
+  if (d < 0.2) return 'text-red-600 dark:text-red-400';
+  if (d < 0.3) return 'text-amber-600 dark:text-amber-400';
+  return 'text-green-600 dark:text-green-400';
+};
+
+const Histogram: React.FC<{ buckets: HistogramBucket[]; unit?: string }> = ({ buckets, unit = '' }) => {
+  const maxCount = Math.max(1, ...buckets.map(b => b.count));
+  if (buckets.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No timing data recorded</p>;
+  }
+  return (
+    <div className="space-y-1.5">
+      {buckets.map((bucket, i) => (
+        <div key={i} className="flex items-center gap-3 text-xs">
+          <span className="w-28 text-right text-gray-600 dark:text-gray-400">{bucket.label} {unit}</span>
+          <div className="flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded">
+            <div
+              className="h-4 bg-green-500 dark:bg-green-600 rounded"
+              style={{ width: `${(bucket.count / maxCount) * 100}%` }}
+            />
+          </div>
+          <span className="w-8 text-gray-700 dark:text-gray-300">{bucket.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ItemAnalysisPanel: React.FC<ItemAnalysisPanelProps> = ({ examId }) => {
+  const [data, setData] = useState<ExamItemResponses | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [regradeLog, setRegradeLog] = useState<RegradeLogEntry[]>([]);
+  const [regrading, setRegrading] = useState<{ question: ItemResponseQuestion; responses: number } | null>(null);
+
+  const loadResponses = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [response, logResponse] = await Promise.all([getExamItemResponses(examId), getRegradeLog(examId)]);
+      if (response.success && response.data) {
+        setData(response.data);
+      } else {
+        setError(response.message || response.error || 'Failed to load responses');
+      }
+      setRegradeLog(logResponse.success && logResponse.data ? logResponse.data : []);
+    } catch (err) {
+      console.error('Error loading item responses:', err);
+      setError('Failed to load responses');
+    } finally {
+      setLoading(false);
+    }
+  }, [examId]);
+
+  useEffect(() => {
+    loadResponses();
+  }, [loadResponses]);
+
+  const analysis = useMemo(() => (data ? analyzeExamItems(data) : null), [data]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !analysis) {
+    return (
+      <div className="text-center py-12">
+        <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-3" />
+        <p className="text-gray-900 dark:text-white mb-4">{error || 'No data'}</p>
+        <button
+          onClick={loadResponses}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (analysis.attempts === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-12 text-center">
+        <BarChart3 className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+        <p className="text-gray-600 dark:text-gray-400">No completed attempts yet. The report appears once students submit.</p>
+      </div>
+    );
+  }
+
+  const flaggedCount = analysis.items.filter(item => item.flags.length > 0).length;
+  const visibleItems = flaggedOnly ? analysis.items.filter(item => item.flags.length > 0) : analysis.items;
+  const regrades = summarizeRegrades(regradeLog);
+
+  const renderDetails = (item: ItemStats) => (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4 bg-gray-50 dark:bg-gray-900/40">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Option Frequencies</h4>
+        {item.options.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1">Option</th>
+                <th className="py-1">Chosen</th>
+                <th className="py-1">Top {analysis.groupSize}</th>
+                <th className="py-1">Bottom {analysis.groupSize}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {item.options.map(option => (
+                <tr
+                  key={option.letter}
+                  className={option.isKey ? 'text-green-700 dark:text-green-400 font-medium' : 'text-gray-700 dark:text-gray-300'}
+                >
+                  <td className="py-1 pr-2">
+                    {option.letter}. {option.text.length > 40 ? `${option.text.slice(0, 40)}…` : option.text}
+                    {option.isKey && ' ✓'}
+                  </td>
+                  <td className="py-1">
+                    {option.count} ({item.responses > 0 ? Math.round((option.count / item.responses) * 100) : 0}%)
+                  </td>
+                  <td className="py-1">{option.upperCount}</td>
+                  <td className="py-1">{option.lowerCount}</td>
+                </tr>
+              ))}
+              <tr className="text-gray-500 dark:text-gray-400">
+                <td className="py-1">Omitted</td>
+                <td className="py-1" colSpan={3}>{item.omitted}</td>
+              </tr>
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Not a multiple choice question. {item.answered} of {item.responses} students answered.
+          </p>
+        )}
+      </div>
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+          Time Spent
+          {item.meanTime !== null && (
+            <span className="font-normal text-gray-500 dark:text-gray-400 ml-2">
+              mean {formatDuration(item.meanTime)}
+            </span>
+          )}
+        </h4>
+        <Histogram buckets={item.timeHistogram} />
+      </div>
+      <div className="lg:col-span-2 flex items-center justify-between gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Wrong key or ambiguous wording? Regrading rescores every submitted attempt and notifies the students.
+        </p>
+        <button
+          onClick={() => setRegrading({ question: item.question, responses: item.responses })}
+          className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          <Edit3 className="w-4 h-4" />
+          Regrade
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 mb-1">
+            <Users className="w-4 h-4" />
+            Completed Attempts
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{analysis.attempts}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Top/bottom groups of {analysis.groupSize}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 mb-1">
+            <BarChart3 className="w-4 h-4" />
+            Mean Score
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {analysis.meanPercentage === null ? '—' : `${analysis.meanPercentage.toFixed(1)}%`}
+          </p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 mb-1">
+            <Activity className="w-4 h-4" />
+            KR-20 Reliability
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatIndex(analysis.kr20)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {describeReliability(analysis.kr20)} · {analysis.kr20Items} items
+          </p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 mb-1">
+            <Clock className="w-4 h-4" />
+            Median Time
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {analysis.medianAttemptTime === null ? '—' : formatDuration(analysis.medianAttemptTime)}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">mm:ss per attempt</p>
+        </div>
+      </div>
+
+      {analysis.attempts < 20 && (
+        <div className="flex items-start gap-2 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          With fewer than 20 attempts these indices are only indicative.
+        </div>
+      )}
+
+      {/* Attempt time distribution */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Time Spent per Attempt</h3>
+        <Histogram buckets={analysis.attemptTimeHistogram} unit="min" />
+      </div>
+
+      {/* Items */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Questions
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              {flaggedCount} flagged
+            </span>
+          </h3>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={flaggedOnly}
+                onChange={(e) => setFlaggedOnly(e.target.checked)}
+                className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+              />
+              Flagged only
+            </label>
+            <button
+              onClick={loadResponses}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              title="Refresh"
+            >
+              <RefreshCw className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900/50 text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+              <tr>
+                <th className="px-4 py-3">Q#</th>
+                <th className="px-4 py-3">Question</th>
+                <th className="px-4 py-3">Difficulty (p)</th>
+                <th className="px-4 py-3">Discrimination (D)</th>
+                <th className="px-4 py-3">Median Time</th>
+                <th className="px-4 py-3">Flags</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {visibleItems.map(item => {
+                const isOpen = expanded === item.question.questionId;
+                return (
+                  <React.Fragment key={item.question.questionId}>
+                    <tr
+                      onClick={() => setExpanded(isOpen ? null : item.question.questionId)}
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/40"
+                    >
+                      <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{item.question.questionNumber}</td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300 max-w-md">
+                        <p className="line-clamp-2">{item.question.questionText.replace(/<[^>]+>/g, ' ')}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                          {item.question.questionType} · {item.responses} responses
+                          {item.question.regradeMode && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                              {item.question.regradeMode === 'DROPPED' ? 'Dropped' : 'Full marks'}
+                            </span>
+                          )}
+                        </p>
+                      </td>
+                      <td className={`px-4 py-3 font-medium ${difficultyColor(item.difficulty)}`}>{formatIndex(item.difficulty)}</td>
+                      <td className={`px-4 py-3 font-medium ${discriminationColor(item.discrimination)}`}>{formatIndex(item.discrimination)}</td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                        {item.medianTime === null ? '—' : formatDuration(item.medianTime)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {item.flags.map(flag => (
+                            <span
+                              key={flag}
+                              className="px-2 py-0.5 rounded-full text-xs bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                            >
+                              {ITEM_FLAG_LABELS[flag]}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {isOpen
+                          ? <ChevronUp className="w-4 h-4 text-gray-500" />
+                          : <ChevronDown className="w-4 h-4 text-gray-500" />}
+                      </td>
+                    </tr>
+                    {isOpen && (
+                      <tr>
+                        <td colSpan={7}>{renderDetails(item)}</td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Regrade history */}
+      {regrades.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            <History className="w-5 h-5" />
+            Regrade History
+          </h3>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {regrades.map(({ entry, attempts, changed }) => (
+              <div key={entry.regradeId} className="py-3 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    Q{entry.questionNumber} · {REGRADE_MODE_LABELS[entry.mode]}
+                    {entry.mode === 'CHANGE_KEY' && (
+                      <span className="font-normal text-gray-600 dark:text-gray-400 ml-2">
+                        {entry.oldKey || '—'} → {entry.newKey}
+                      </span>
+                    )}
+                  </p>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {entry.regradedAt} · {entry.regradedBy}
+                  </span>
+                </div>
+                <p className="text-gray-600 dark:text-gray-400 mt-1">{entry.reason}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {changed} of {attempts} attempt{attempts === 1 ? '' : 's'} changed score
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {regrading && (
+        <RegradeModal
+          examId={examId}
+          question={regrading.question}
+          responses={regrading.responses}
+          onClose={() => setRegrading(null)}
+          onRegraded={() => {
+            setRegrading(null);
+            loadResponses();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ItemAnalysisPanel;
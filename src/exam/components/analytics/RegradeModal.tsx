@@ -0,0 +1,256 @@
+/**
+ * Regrade Modal
+ * Corrects a question after students have submitted: change the answer key,
+ * award full marks to everyone, or drop the question from the total.
+ */
+
+import React, { useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import {
+  regradeQuestion,
+  type ItemResponseQuestion,
+  type QuestionAnswerConfig,
+  type RegradeMode
+} from '../../services/examApi';
+import { defaultAnswerConfig, describeCorrectAnswer, isStructuredType, validateAnswerConfig } from '../../utils/structuredAnswers';
+import AnswerConfigEditor from '../exam-builder/AnswerConfigEditor';
+
+interface RegradeModalProps {
+  examId: string;
+  question: ItemResponseQuestion;
+  responses: number; // Submitted attempts that received the question
+  onClose: () => void;
+  onRegraded: () => void;
+}
+
+const MODE_LABELS: Record<RegradeMode, { title: string; description: string }> = {
+  CHANGE_KEY: {
+    title: 'Change answer key',
+    description: 'Rescore every submitted answer against the corrected key.'
+  },
+  FULL_MARKS: {
+    title: 'Award full marks to all',
+    description: 'Everyone who received the question gets full marks, answered or not.'
+  },
+  DROP: {
+    title: 'Drop question',
+    description: 'Remove the question from the total; percentages are recalculated without it.'
+  }
+};
+
+const RegradeModal: React.FC<RegradeModalProps> = ({ examId, question, responses, onClose, onRegraded }) => {
+  const isChoice = question.questionType === 'MCQ' || question.questionType === 'MCQ_IMAGE';
+  const isStructured = isStructuredType(question.questionType);
+  const canChangeKey = isChoice || isStructured;
+
+  const [mode, setMode] = useState<RegradeMode>(canChangeKey ? 'CHANGE_KEY' : 'FULL_MARKS');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(
+    question.correctAnswer.split(',').map(a => a.trim().toUpperCase()).filter(Boolean)
+  );
+  const [answerConfig, setAnswerConfig] = useState<QuestionAnswerConfig | null>(
+    isStructuredType(question.questionType)
+      ? question.answerConfig || defaultAnswerConfig(question.questionType)
+      : null
+  );
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleKey = (letter: string) => {
+    setSelectedKeys(prev =>
+      prev.includes(letter) ? prev.filter(l => l !== letter) : [...prev, letter].sort()
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      setError('Please give a reason. Students see it on their result page.');
+      return;
+    }
+
+    let change;
+    if (mode === 'CHANGE_KEY') {
+      if (isChoice) {
+        if (selectedKeys.length === 0) {
+          setError('Select at least one correct option');
+          return;
+        }
+        change = { correctAnswer: selectedKeys.join(','), hasMultipleAnswers: selectedKeys.length > 1 };
+      } else if (answerConfig) {
+        const draft = { questionType: question.questionType, questionText: question.questionText, answerConfig };
+        const errors = validateAnswerConfig(draft);
+        if (errors.length > 0) {
+          setError(errors[0]);
+          return;
+        }
+        change = { correctAnswer: describeCorrectAnswer(draft), answerConfig };
+      }
+    }
+
+    const confirmed = window.confirm(
+      `This will rescore ${responses} submitted attempt${responses === 1 ? '' : 's'} and notify the students. Continue?`
+    );
+    if (!confirmed) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await regradeQuestion(examId, question.questionId, mode, reason.trim(), change);
+      if (response.success) {
+        alert(
+          `Regrade complete: ${response.data?.changedAttempts || 0} of ${response.data?.affectedAttempts || 0} attempts changed.`
+        );
+        onRegraded();
+      } else {
+        setError(response.message || response.error || 'Failed to regrade question');
+      }
+    } catch (err) {
+      console.error('Error regrading question:', err);
+      setError('Failed to regrade question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Regrade Question {question.questionNumber}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div className="p-4 bg-gray-50 dark:bg-gray-900/40 rounded-lg">
+            <p className="text-sm text-gray-900 dark:text-white line-clamp-3">
+              {question.questionText.replace(/<[^>]+>/g, ' ')}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              {question.questionType} · {question.marks} marks · current key: {question.correctAnswer || '—'}
+            </p>
+          </div>
+
+          {/* Mode */}
+          <div className="space-y-2">
+            {(Object.keys(MODE_LABELS) as RegradeMode[]).map(option => {
+              const disabled = option === 'CHANGE_KEY' && !canChangeKey;
+              return (
+                <label
+                  key={option}
+                  className={`flex items-start gap-3 p-3 border rounded-lg transition-colors ${
+                    mode === option
+                      ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                      : 'border-gray-200 dark:border-gray-700'
+                  } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="radio"
+                    name="regradeMode"
+                    checked={mode === option}
+                    disabled={disabled}
+                    onChange={() => setMode(option)}
+                    className="mt-1 w-4 h-4 text-green-600 focus:ring-green-500"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{MODE_LABELS[option].title}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {disabled ? 'Manually graded questions have no answer key.' : MODE_LABELS[option].description}
+                    </p>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+
+          {/* New key */}
+          {mode === 'CHANGE_KEY' && isChoice && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Correct Option(s) <span className="text-red-500">*</span>
+              </label>
+              <div className="space-y-2">
+                {Object.keys(question.options).sort().map(letter => (
+                  <label
+                    key={letter}
+                    className="flex items-center gap-3 p-2 border border-gray-200 dark:border-gray-700 rounded-lg cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedKeys.includes(letter)}
+                      onChange={() => toggleKey(letter)}
+                      className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    <span className="text-sm text-gray-900 dark:text-white">
+                      {letter}. {question.options[letter]}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {mode === 'CHANGE_KEY' && isStructuredType(question.questionType) && answerConfig && (
+            <AnswerConfigEditor
+              questionType={question.questionType}
+              questionText={question.questionText}
+              config={answerConfig}
+              onChange={setAnswerConfig}
+            />
+          )}
+
+          {/* Reason */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Reason <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder="e.g. Option C is also correct under the revised accounting standard"
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Shown to students on their result page.</p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 bg-gray-50 dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700 px-6 py-4">
+          {error && (
+            <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+            >
+              {saving ? 'Regrading...' : 'Regrade'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegradeModal;
@@ -0,0 +1,175 @@
+/**
+ * Structured Answer Input
+ * Answer entry for NUMERIC, FILL_BLANK, MATCHING and ORDERING questions.
+ * Emits the encoded answer string (see utils/structuredAnswers).
+ */
+
+import React, { useMemo } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import type { Question } from '../../services/examApi';
+import { countBlanks, encodeListAnswer, parseListAnswer, seededShuffle } from '../../utils/structuredAnswers';
+
+interface StructuredAnswerInputProps {
+  question: Question;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  seed?: string; // Keeps the shuffled choice order stable per student
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-background border-2 border-border text-foreground placeholder:text-muted-foreground focus:border-primary focus:ring-4 focus:ring-primary/10 transition-all outline-none disabled:opacity-60';
+
+const StructuredAnswerInput: React.FC<StructuredAnswerInputProps> = ({ question, value, onChange, disabled, seed = '' }) => {
+  const config = question.answerConfig;
+  const shuffleSeed = `${seed}${question.questionId || ''}`;
+
+  const matchingChoices = useMemo(() => {
+    const matching = config?.matching;
+    if (!matching) return [];
+    return seededShuffle([...matching.pairs.map(p => p.right), ...matching.distractors].filter(Boolean), shuffleSeed);
+  }, [config, shuffleSeed]);
+
+  const shuffledItems = useMemo(
+    () => seededShuffle(config?.ordering?.items || [], shuffleSeed),
+    [config, shuffleSeed]
+  );
+
+  const updateListItem = (list: string[], length: number, index: number, item: string) => {
+    const next = Array.from({ length }, (_, i) => list[i] || '');
+    next[index] = item;
+    onChange(encodeListAnswer(next));
+  };
+
+  switch (question.questionType) {
+    case 'NUMERIC': {
+      const unit = config?.numeric?.unit;
+      return (
+        <div>
+          <label className="block text-sm font-semibold text-foreground mb-3">
+            Your Answer
+            {unit && (
+              <span className="font-normal text-muted-foreground ml-2">
+                (in {unit}{config?.numeric?.unitRequired ? ', include the unit' : ''})
+              </span>
+            )}
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            placeholder={unit ? `e.g. 1250.50 ${unit}` : 'Enter a number'}
+            className={`${inputClass} max-w-sm text-base`}
+          />
+        </div>
+      );
+    }
+
+    case 'FILL_BLANK': {
+      const blanks = Math.max(countBlanks(question.questionText), config?.fillBlank?.blanks.length || 0);
+      const values = parseListAnswer(value);
+      return (
+        <div className="space-y-3">
+          <label className="block text-sm font-semibold text-foreground">Fill in the blanks</label>
+          {Array.from({ length: blanks }, (_, i) => (
+            <div key={i} className="flex items-center gap-3">
+              <span className="w-16 text-sm font-medium text-muted-foreground">Blank {i + 1}</span>
+              <input
+                type="text"
+                value={values[i] || ''}
+                onChange={(e) => updateListItem(values, blanks, i, e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'MATCHING': {
+      const pairs = config?.matching?.pairs || [];
+      const values = parseListAnswer(value);
+      return (
+        <div className="space-y-3">
+          <label className="block text-sm font-semibold text-foreground">Match each item</label>
+          {pairs.map((pair, i) => (
+            <div key={i} className="grid grid-cols-1 md:grid-cols-2 gap-3 items-center p-3 rounded-xl border border-border bg-card">
+              <span className="text-foreground">{pair.left}</span>
+              <select
+                value={values[i] || ''}
+                onChange={(e) => updateListItem(values, pairs.length, i, e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              >
+                <option value="">Select a match...</option>
+                {matchingChoices.map(choice => (
+                  <option key={choice} value={choice}>{choice}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'ORDERING': {
+      const answered = parseListAnswer(value);
+      const items = answered.length > 0 ? answered : shuffledItems;
+      const move = (index: number, direction: -1 | 1) => {
+        const next = [...items];
+        const target = index + direction;
+        if (target < 0 || target >= next.length) return;
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(encodeListAnswer(next));
+      };
+      return (
+        <div className="space-y-3">
+          <label className="block text-sm font-semibold text-foreground">
+            Arrange in the correct order
+            {answered.length === 0 && (
+              <span className="font-normal text-muted-foreground ml-2">(move an item or confirm this order to answer)</span>
+            )}
+          </label>
+          {items.map((item, i) => (
+            <div key={item} className="flex items-center gap-3 p-3 rounded-xl border border-border bg-card">
+              <span className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center text-sm font-semibold text-foreground">{i + 1}</span>
+              <span className="flex-1 text-foreground">{item}</span>
+              <button
+                onClick={() => move(i, -1)}
+                disabled={disabled || i === 0}
+                className="p-2 rounded-lg hover:bg-muted disabled:opacity-30 transition-colors"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(i, 1)}
+                disabled={disabled || i === items.length - 1}
+                className="p-2 rounded-lg hover:bg-muted disabled:opacity-30 transition-colors"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {answered.length === 0 && items.length > 0 && (
+            <button
+              onClick={() => onChange(encodeListAnswer(items))}
+              disabled={disabled}
+              className="px-4 py-2 rounded-xl border-2 border-border hover:border-primary/40 text-sm font-medium text-foreground transition-colors"
+            >
+              Confirm this order
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+};
+
+export default StructuredAnswerInput;
@@ -10,6 +10,7 @@
  * - TableEditor: Simple editable table (modal)
  * - SpreadsheetEditor: Excel-like spreadsheet (modal)
  * - SpreadsheetPanel: Inline spreadsheet with keyboard support
+ * - StructuredAnswerInput: Numeric, fill-in-the-blank, matching and ordering answers
  */
 
 export { default as RichTextAnswerEditor } from './RichTextAnswerEditor';
@@ -22,3 +23,4 @@ export { default as SpreadsheetEditor } from './SpreadsheetEditor';
 export { default as SpreadsheetPanel } from './SpreadsheetPanel';
 export { default as DrawingPanel } from './DrawingPanel';
 export { default as RoughWorkPanel } from './RoughWorkPanel';
+export { default as StructuredAnswerInput } from './StructuredAnswerInput';
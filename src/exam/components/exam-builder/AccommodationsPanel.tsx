@@ -0,0 +1,195 @@
+import React from 'react';
+import { Plus, Trash2, Accessibility } from 'lucide-react';
+import type { AccommodationTool, StudentAccommodation } from '../../services/examApi';
+
+interface AccommodationsPanelProps {
+  accommodations: StudentAccommodation[];
+  examDuration?: number;
+  onChange: (accommodations: StudentAccommodation[]) => void;
+}
+
+export const ACCOMMODATION_TOOL_LABELS: Record<AccommodationTool, string> = {
+  calculator: 'Calculator',
+  scientificCalculator: 'Scientific Calculator',
+  table: 'Table',
+  spreadsheet: 'Spreadsheet',
+  roughWork: 'Rough Work'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 text-sm';
+
+export default function AccommodationsPanel({ accommodations, examDuration, onChange }: AccommodationsPanelProps) {
+  const update = (id: string, updates: Partial<StudentAccommodation>) => {
+    onChange(accommodations.map(a => (a.id === id ? { ...a, ...updates } : a)));
+  };
+
+  const addAccommodation = () => {
+    onChange([
+      ...accommodations,
+      { id: `ACC_${Date.now()}`, studentEmail: '', studentName: '', durationMultiplier: 1.25, allowedTools: [] }
+    ]);
+  };
+
+  const toggleTool = (accommodation: StudentAccommodation, tool: AccommodationTool) => {
+    const allowedTools = accommodation.allowedTools.includes(tool)
+      ? accommodation.allowedTools.filter(t => t !== tool)
+      : [...accommodation.allowedTools, tool];
+    update(accommodation.id, { allowedTools });
+  };
+
+  const emailCounts = accommodations.reduce<Record<string, number>>((counts, a) => {
+    const email = a.studentEmail.trim().toLowerCase();
+    if (email) counts[email] = (counts[email] || 0) + 1;
+    return counts;
+  }, {});
+
+  const problemsFor = (accommodation: StudentAccommodation): string[] => {
+    const problems: string[] = [];
+    const email = accommodation.studentEmail.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) problems.push('Enter a valid student email');
+    if (email && emailCounts[email] > 1) problems.push('This student has more than one accommodation');
+    if (accommodation.durationMultiplier < 1) problems.push('Time multiplier cannot be below 1');
+    if (
+      accommodation.startDateTime &&
+      accommodation.endDateTime &&
+      new Date(accommodation.endDateTime) <= new Date(accommodation.startDateTime)
+    ) {
+      problems.push('Window end must be after its start');
+    }
+    return problems;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Accessibility className="w-5 h-5 text-green-600 dark:text-green-400" />
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Approved per-student overrides. Extra time also extends auto-submit; a custom window replaces the exam window for that student.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addAccommodation}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-green-600 dark:text-green-400 border border-green-600 dark:border-green-500 rounded-lg hover:bg-green-50 dark:hover:bg-green-900/20 whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4" />
+          Add Student
+        </button>
+      </div>
+
+      {accommodations.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">No accommodations for this exam.</p>
+      )}
+
+      {accommodations.map(accommodation => {
+        const problems = problemsFor(accommodation);
+        return (
+          <div
+            key={accommodation.id}
+            className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900/50 space-y-3"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Student Email</label>
+                <input
+                  type="email"
+                  value={accommodation.studentEmail}
+                  onChange={(e) => update(accommodation.id, { studentEmail: e.target.value })}
+                  placeholder="student@example.com"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Student Name</label>
+                <input
+                  type="text"
+                  value={accommodation.studentName || ''}
+                  onChange={(e) => update(accommodation.id, { studentName: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Time Multiplier
+                  {examDuration ? (
+                    <span className="font-normal text-gray-500 dark:text-gray-400 ml-1">
+                      ({Math.round(examDuration * Math.max(1, accommodation.durationMultiplier || 1))} min)
+                    </span>
+                  ) : null}
+                </label>
+                <input
+                  type="number"
+                  step="0.05"
+                  min="1"
+                  max="3"
+                  value={accommodation.durationMultiplier}
+                  onChange={(e) => update(accommodation.id, { durationMultiplier: parseFloat(e.target.value) || 1 })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Window Start (optional)</label>
+                <input
+                  type="datetime-local"
+                  value={accommodation.startDateTime || ''}
+                  onChange={(e) => update(accommodation.id, { startDateTime: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Window End (optional)</label>
+                <input
+                  type="datetime-local"
+                  value={accommodation.endDateTime || ''}
+                  onChange={(e) => update(accommodation.id, { endDateTime: e.target.value })}
+                  min={accommodation.startDateTime}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Note</label>
+                <input
+                  type="text"
+                  value={accommodation.note || ''}
+                  onChange={(e) => update(accommodation.id, { note: e.target.value })}
+                  placeholder="e.g. Approved by exam cell"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <div className="flex items-center gap-4 flex-wrap">
+                <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Allowed Tools:</span>
+                {(Object.keys(ACCOMMODATION_TOOL_LABELS) as AccommodationTool[]).map(tool => (
+                  <label key={tool} className="flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={accommodation.allowedTools.includes(tool)}
+                      onChange={() => toggleTool(accommodation, tool)}
+                      className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    {ACCOMMODATION_TOOL_LABELS[tool]}
+                  </label>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(accommodations.filter(a => a.id !== accommodation.id))}
+                className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                title="Remove accommodation"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {problems.length > 0 && (
+              <p className="text-xs text-red-600 dark:text-red-400">{problems.join(' · ')}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+/**
+ * Answer Config Editor
+ * Answer-key settings for NUMERIC, FILL_BLANK, MATCHING and ORDERING questions
+ */
+
+import React from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import type { QuestionAnswerConfig, StructuredQuestionType, PartialCreditMode } from '../../services/examApi';
+import { BLANK_MARKER, countBlanks } from '../../utils/structuredAnswers';
+
+interface AnswerConfigEditorProps {
+  questionType: StructuredQuestionType;
+  questionText: string;
+  config: QuestionAnswerConfig;
+  onChange: (config: QuestionAnswerConfig) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent text-sm';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const parseNumber = (value: string) => (value.trim() === '' ? NaN : parseFloat(value));
+const numberValue = (value: number | undefined) => (value !== undefined && Number.isFinite(value) ? value : '');
+
+const AnswerConfigEditor: React.FC<AnswerConfigEditorProps> = ({ questionType, questionText, config, onChange }) => {
+  const numeric = config.numeric;
+  const fillBlank = config.fillBlank;
+  const matching = config.matching;
+  const ordering = config.ordering;
+
+  const markers = countBlanks(questionText);
+
+  const syncBlanks = () => {
+    if (!fillBlank) return;
+    const blanks = Array.from({ length: Math.max(1, markers) }, (_, i) => fillBlank.blanks[i] || ['']);
+    onChange({ ...config, fillBlank: { ...fillBlank, blanks } });
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    if (!ordering) return;
+    const items = [...ordering.items];
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    [items[index], items[target]] = [items[target], items[index]];
+    onChange({ ...config, ordering: { items } });
+  };
+
+  return (
+    <div className="space-y-4 border border-green-200 dark:border-green-800 rounded-xl p-5 bg-green-50/50 dark:bg-green-900/10">
+      <h4 className="text-sm font-semibold text-green-900 dark:text-green-200">Answer Key</h4>
+
+      {/* Numeric */}
+      {questionType === 'NUMERIC' && numeric && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Correct Value <span className="text-red-500">*</span></label>
+            <input
+              type="number"
+              step="any"
+              value={numberValue(numeric.answer)}
+              onChange={(e) => onChange({ ...config, numeric: { ...numeric, answer: parseNumber(e.target.value) } })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Tolerance</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={numberValue(numeric.tolerance)}
+                onChange={(e) => onChange({ ...config, numeric: { ...numeric, tolerance: parseNumber(e.target.value) || 0 } })}
+                className={inputClass}
+              />
+              <select
+                value={numeric.toleranceType}
+                onChange={(e) => onChange({ ...config, numeric: { ...numeric, toleranceType: e.target.value as 'absolute' | 'percent' } })}
+                className={`${inputClass} w-36`}
+              >
+                <option value="absolute">± value</option>
+                <option value="percent">± percent</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Unit</label>
+            <input
+              type="text"
+              value={numeric.unit || ''}
+              onChange={(e) => onChange({ ...config, numeric: { ...numeric, unit: e.target.value } })}
+              placeholder="e.g. INR, kg, %"
+              className={inputClass}
+            />
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={numeric.unitRequired || false}
+                onChange={(e) => onChange({ ...config, numeric: { ...numeric, unitRequired: e.target.checked } })}
+                className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+              />
+              Student must write the unit
+            </label>
+          </div>
+          {config.partialCredit === 'proportional' && (
+            <div>
+              <label className={labelClass}>Half-credit Tolerance</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={numberValue(numeric.partialTolerance)}
+                onChange={(e) => {
+                  const value = parseNumber(e.target.value);
+                  onChange({ ...config, numeric: { ...numeric, partialTolerance: Number.isFinite(value) ? value : undefined } });
+                }}
+                placeholder="Optional"
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Same units as tolerance. Wider band that earns half marks; a missing or wrong unit also earns half marks.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Fill in the Blank */}
+      {questionType === 'FILL_BLANK' && fillBlank && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Type {BLANK_MARKER} in the question text for each blank. Separate alternative accepted answers with |
+          </p>
+          {fillBlank.blanks.map((accepted, i) => (
+            <div key={i} className="flex items-center gap-3">
+              <span className="w-16 text-sm text-gray-600 dark:text-gray-400">Blank {i + 1}</span>
+              <input
+                type="text"
+                value={accepted.join('|')}
+                onChange={(e) => {
+                  const blanks = [...fillBlank.blanks];
+                  blanks[i] = e.target.value.split('|');
+                  onChange({ ...config, fillBlank: { ...fillBlank, blanks } });
+                }}
+                placeholder="e.g. debit|dr"
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={fillBlank.caseSensitive}
+                onChange={(e) => onChange({ ...config, fillBlank: { ...fillBlank, caseSensitive: e.target.checked } })}
+                className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+              />
+              Case sensitive
+            </label>
+            {markers !== fillBlank.blanks.length && (
+              <button
+                type="button"
+                onClick={syncBlanks}
+                className="text-sm text-green-600 dark:text-green-400 hover:underline"
+              >
+                Match {markers} blank{markers === 1 ? '' : 's'} in question text
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Matching */}
+      {questionType === 'MATCHING' && matching && (
+        <div className="space-y-3">
+          {matching.pairs.map((pair, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={pair.left}
+                onChange={(e) => {
+                  const pairs = matching.pairs.map((p, j) => (j === i ? { ...p, left: e.target.value } : p));
+                  onChange({ ...config, matching: { ...matching, pairs } });
+                }}
+                placeholder={`Item ${i + 1}`}
+                className={inputClass}
+              />
+              <span className="text-gray-400">→</span>
+              <input
+                type="text"
+                value={pair.right}
+                onChange={(e) => {
+                  const pairs = matching.pairs.map((p, j) => (j === i ? { ...p, right: e.target.value } : p));
+                  onChange({ ...config, matching: { ...matching, pairs } });
+                }}
+                placeholder="Matches with"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...config, matching: { ...matching, pairs: matching.pairs.filter((_, j) => j !== i) } })}
+                disabled={matching.pairs.length <= 2}
+                className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-30"
+                title="Remove pair"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...config, matching: { ...matching, pairs: [...matching.pairs, { left: '', right: '' }] } })}
+            className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add Pair
+          </button>
+          <div>
+            <label className={labelClass}>Distractors</label>
+            <textarea
+              value={matching.distractors.join('\n')}
+              onChange={(e) => onChange({ ...config, matching: { ...matching, distractors: e.target.value.split('\n') } })}
+              onBlur={() => onChange({ ...config, matching: { ...matching, distractors: matching.distractors.map(d => d.trim()).filter(Boolean) } })}
+              rows={2}
+              placeholder="Extra wrong choices, one per line (optional)"
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Ordering */}
+      {questionType === 'ORDERING' && ordering && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Enter the items in the correct order. Students see them shuffled.
+          </p>
+          {ordering.items.map((item, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-6 text-sm text-gray-600 dark:text-gray-400">{i + 1}.</span>
+              <input
+                type="text"
+                value={item}
+                onChange={(e) => onChange({ ...config, ordering: { items: ordering.items.map((it, j) => (j === i ? e.target.value : it)) } })}
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => moveItem(i, -1)}
+                disabled={i === 0}
+                className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveItem(i, 1)}
+                disabled={i === ordering.items.length - 1}
+                className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ ...config, ordering: { items: ordering.items.filter((_, j) => j !== i) } })}
+                disabled={ordering.items.length <= 2}
+                className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-30"
+                title="Remove item"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...config, ordering: { items: [...ordering.items, ''] } })}
+            className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add Item
+          </button>
+        </div>
+      )}
+
+      {/* Partial Credit */}
+      <div className="pt-3 border-t border-green-200 dark:border-green-800">
+        <label className={labelClass}>Partial Credit</label>
+        <select
+          value={config.partialCredit}
+          onChange={(e) => onChange({ ...config, partialCredit: e.target.value as PartialCreditMode })}
+          className={`${inputClass} md:w-80`}
+        >
+          <option value="all_or_nothing">All or nothing</option>
+          <option value="proportional">
+            {questionType === 'NUMERIC' ? 'Half marks for near answers or unit errors' : 'Proportional to correct parts'}
+          </option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default AnswerConfigEditor;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { CheckCircle2, Clock, FileText, Settings, Lock, AlertCircle, ChevronDown, ChevronUp, Calculator, Table, Grid3X3, Hash } from 'lucide-react';
+import { describeCorrectAnswer, isStructuredType } from '../../utils/structuredAnswers';
 
 interface PreviewTabProps {
   examData: any;
@@ -47,6 +48,10 @@ export default function PreviewTab({ examData, onPublish }: PreviewTabProps) {
       case 'MCQ_IMAGE': return 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300';
       case 'SHORT_ANSWER': return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300';
       case 'LONG_ANSWER': return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300';
+      case 'NUMERIC': return 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-300';
+      case 'FILL_BLANK': return 'bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-300';
+      case 'MATCHING': return 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300';
+      case 'ORDERING': return 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300';
       default: return 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-300';
     }
   };
@@ -326,6 +331,24 @@ export default function PreviewTab({ examData, onPublish }: PreviewTabProps) {
                         </div>
                       )}
 
+                      {/* Structured types - Answer Key */}
+                      {isStructuredType(question.questionType) && (
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground mb-2">Answer Key</p>
+                          <div className="p-2 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-foreground">
+                            {describeCorrectAnswer(question)}
+                          </div>
+                          {question.questionType === 'MATCHING' && question.answerConfig?.matching?.distractors?.length > 0 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Distractors: {question.answerConfig.matching.distractors.join(', ')}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {question.answerConfig?.partialCredit === 'proportional' ? 'Partial credit: proportional' : 'Partial credit: all or nothing'}
+                          </p>
+                        </div>
+                      )}
+
                       {/* Available Tools - For All Question Types */}
                       {(question.enableCalculator || question.enableScientificCalculator || question.enableTable || question.enableSpreadsheet) && (
                         <div>
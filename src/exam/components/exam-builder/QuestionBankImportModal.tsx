@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Search, Loader2, Library } from 'lucide-react';
+import { getQuestionBank, bankQuestionToExamQuestion } from '../../services/examApi';
+import type { BankQuestion, Question } from '../../services/examApi';
+
+interface QuestionBankImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (questions: Question[]) => void;
+  examMeta: { term?: string; domain?: string; subject?: string };
+  existingQuestions: Question[];
+}
+
+export default function QuestionBankImportModal({
+  isOpen,
+  onClose,
+  onImport,
+  examMeta,
+  existingQuestions
+}: QuestionBankImportModalProps) {
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [difficultyFilter, setDifficultyFilter] = useState('');
+  const [matchSubject, setMatchSubject] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadBank = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const result = await getQuestionBank(matchSubject ? {
+          term: examMeta.term,
+          domain: examMeta.domain,
+          subject: examMeta.subject
+        } : {});
+        if (result.success) {
+          setBankQuestions(result.data || []);
+        } else {
+          setError(result.error || 'Failed to load question bank');
+        }
+      } catch (err) {
+        console.error('Error loading question bank:', err);
+        setError('Failed to load question bank');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    setSelectedIds(new Set());
+    loadBank();
+  }, [isOpen, matchSubject, examMeta.term, examMeta.domain, examMeta.subject]);
+
+  // Bank questions already in this exam can't be imported twice
+  const alreadyImported = useMemo(
+    () => new Set(existingQuestions.map(q => q.bankQuestionId).filter(Boolean) as string[]),
+    [existingQuestions]
+  );
+
+  const allTags = useMemo(
+    () => Array.from(new Set(bankQuestions.flatMap(q => q.tags || []))).sort(),
+    [bankQuestions]
+  );
+
+  const stripHtml = (html: string) => {
+    const tmp = document.createElement('DIV');
+    tmp.innerHTML = html;
+    return tmp.textContent || tmp.innerText || '';
+  };
+
+  const filteredQuestions = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return bankQuestions.filter(q =>
+      (!difficultyFilter || q.difficulty === difficultyFilter) &&
+      (!tagFilter || (q.tags || []).includes(tagFilter)) &&
+      (!term || stripHtml(q.questionText).toLowerCase().includes(term))
+    );
+  }, [bankQuestions, search, tagFilter, difficultyFilter]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    const selected = bankQuestions.filter(q => q.bankQuestionId && selectedIds.has(q.bankQuestionId));
+    const imported = selected.map((q, i) => bankQuestionToExamQuestion(q, existingQuestions.length + i + 1));
+    onImport(imported);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Library className="w-5 h-5 text-green-600 dark:text-green-400" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Import from Question Bank</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search question text..."
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="">All tags</option>
+              {allTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+            <select
+              value={difficultyFilter}
+              onChange={(e) => setDifficultyFilter(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="">All difficulties</option>
+              <option value="Easy">Easy</option>
+              <option value="Medium">Medium</option>
+              <option value="Hard">Hard</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={matchSubject}
+              onChange={(e) => setMatchSubject(e.target.checked)}
+              className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+            />
+            Only show questions for this exam's term / domain / subject
+          </label>
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400 text-center py-12">{error}</p>
+          ) : filteredQuestions.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400 text-center py-12">No matching questions in the bank</p>
+          ) : (
+            <div className="space-y-2">
+              {filteredQuestions.map(q => {
+                const id = q.bankQuestionId as string;
+                const imported = alreadyImported.has(id);
+                return (
+                  <label
+                    key={id}
+                    className={`flex items-start gap-3 p-3 border rounded-lg transition-colors ${
+                      imported
+                        ? 'border-gray-200 dark:border-gray-700 opacity-50 cursor-not-allowed'
+                        : selectedIds.has(id)
+                        ? 'border-green-500 bg-green-50 dark:bg-green-900/20 cursor-pointer'
+                        : 'border-gray-200 dark:border-gray-700 hover:border-green-500 cursor-pointer'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(id)}
+                      disabled={imported}
+                      onChange={() => toggleSelected(id)}
+                      className="w-4 h-4 mt-1 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1 flex-wrap text-xs">
+                        <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                          {q.questionType}
+                        </span>
+                        <span className="text-gray-600 dark:text-gray-400">{q.marks} {q.marks === 1 ? 'mark' : 'marks'}</span>
+                        <span className="text-gray-600 dark:text-gray-400">{q.difficulty}</span>
+                        {(q.tags || []).map(tag => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                            #{tag}
+                          </span>
+                        ))}
+                        {imported && <span className="text-green-600 dark:text-green-400">Already in exam</span>}
+                      </div>
+                      <p className="text-sm text-gray-900 dark:text-gray-100 line-clamp-2">{stripHtml(q.questionText)}</p>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 rounded-b-xl">
+          <p className="text-sm text-gray-600 dark:text-gray-400">{selectedIds.size} selected</p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={selectedIds.size === 0}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+            >
+              Import {selectedIds.size > 0 ? selectedIds.size : ''} Question{selectedIds.size === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
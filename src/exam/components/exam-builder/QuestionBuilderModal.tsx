@@ -5,6 +5,7 @@
  * - MCQ_IMAGE (Multiple Choice with Image)
  * - SHORT_ANSWER (Short Answer)
  * - LONG_ANSWER (Long Answer)
+ * - NUMERIC, FILL_BLANK, MATCHING, ORDERING (auto-graded, see AnswerConfigEditor)
  */
 
 import React, { useState, useEffect } from 'react';
@@ -12,6 +13,8 @@ import { X, Upload, Plus, Minus, Calculator, Table as TableIcon, Grid3X3 } from
 import ReactQuill from 'react-quill-new';
 import 'react-quill-new/dist/quill.snow.css';
 import type { Question, ExamSettings } from '../../services/examApi';
+import AnswerConfigEditor from './AnswerConfigEditor';
+import { defaultAnswerConfig, describeCorrectAnswer, isStructuredType, validateAnswerConfig } from '../../utils/structuredAnswers';
 
 // Add CSS for table styling in the editor
 const tableStyles = `
@@ -130,10 +133,14 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
   const [numberOfOptions, setNumberOfOptions] = useState<number>(4); // Default: A, B, C, D
   const [validationError, setValidationError] = useState<string>('');
   const [selectedAnswers, setSelectedAnswers] = useState<string[]>([]);
+  const [tagsInput, setTagsInput] = useState<string>(''); // Comma-separated, parsed on save
 
   useEffect(() => {
     if (editingQuestion) {
-      setQuestionData(editingQuestion);
+      setQuestionData(isStructuredType(editingQuestion.questionType) && !editingQuestion.answerConfig
+        ? { ...editingQuestion, answerConfig: defaultAnswerConfig(editingQuestion.questionType) }
+        : editingQuestion);
+      setTagsInput((editingQuestion.tags || []).join(', '));
       if (editingQuestion.questionImageUrl) {
         setImagePreview(editingQuestion.questionImageUrl);
       }
@@ -174,6 +181,7 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
       setImagePreview('');
       setNumberOfOptions(4);
       setSelectedAnswers([]);
+      setTagsInput('');
     }
   }, [editingQuestion, isOpen]);
 
@@ -184,7 +192,7 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
       const isMCQType = newType === 'MCQ' || newType === 'MCQ_IMAGE';
       const isTextType = newType === 'SHORT_ANSWER' || newType === 'LONG_ANSWER';
 
-      if (isTextType) {
+      if (isTextType || isStructuredType(newType)) {
         // Changing to SHORT_ANSWER or LONG_ANSWER - clear MCQ fields
         setQuestionData(prev => ({
           ...prev,
@@ -202,7 +210,12 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
           optionJ: undefined,
           correctAnswer: undefined,
           hasMultipleAnswers: false,
-          questionImageUrl: newType === 'SHORT_ANSWER' || newType === 'LONG_ANSWER' ? undefined : prev.questionImageUrl,
+          questionImageUrl: undefined,
+          // Structured types carry their own answer key; keep it when the type is unchanged
+          answerConfig: isStructuredType(newType)
+            ? (prev.questionType === newType && prev.answerConfig ? prev.answerConfig : defaultAnswerConfig(newType))
+            : undefined,
+          wordLimit: isTextType ? prev.wordLimit : undefined,
         }));
         setSelectedAnswers([]);
         setImagePreview('');
@@ -212,8 +225,10 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
         setQuestionData(prev => ({
           ...prev,
           questionType: newType,
-          // Clear text-answer specific fields (wordLimit stays as it might be reused)
+          // Clear text-answer and structured answer fields
           wordLimit: undefined,
+          answerConfig: undefined,
+          correctAnswer: isStructuredType(prev.questionType) ? undefined : prev.correctAnswer,
         }));
       } else {
         setQuestionData(prev => ({ ...prev, [field]: value }));
@@ -318,15 +333,28 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
       }
     }
 
+    if (isStructuredType(questionData.questionType)) {
+      const configErrors = validateAnswerConfig(questionData);
+      if (configErrors.length > 0) {
+        setValidationError(configErrors[0]);
+        return;
+      }
+    }
+
     // Build the correct answer string for multiple answers
     let correctAnswerValue = questionData.correctAnswer;
     if (questionData.hasMultipleAnswers && selectedAnswers.length > 0) {
       correctAnswerValue = selectedAnswers.sort().join(',');
     }
+    // Structured types store a readable answer key for results and response sheets
+    if (isStructuredType(questionData.questionType)) {
+      correctAnswerValue = describeCorrectAnswer(questionData);
+    }
 
     const finalQuestion: Question = {
       ...questionData as Question,
       correctAnswer: correctAnswerValue,
+      tags: Array.from(new Set(tagsInput.split(',').map(tag => tag.trim()).filter(Boolean))),
       questionNumber: editingQuestion?.questionNumber || questionNumber,
       questionId: editingQuestion?.questionId || `Q${Date.now()}`
     };
@@ -374,6 +402,10 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
               <option value="MCQ_IMAGE">Multiple Choice (With Image)</option>
               <option value="SHORT_ANSWER">Short Answer</option>
               <option value="LONG_ANSWER">Long Answer</option>
+              <option value="NUMERIC">Numeric (with tolerance)</option>
+              <option value="FILL_BLANK">Fill in the Blanks</option>
+              <option value="MATCHING">Matching</option>
+              <option value="ORDERING">Ordering</option>
             </select>
           </div>
 
@@ -562,6 +594,16 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
             </div>
           )}
 
+          {/* Numeric / Fill in the Blank / Matching / Ordering - Answer Key */}
+          {isStructuredType(questionData.questionType) && questionData.answerConfig && (
+            <AnswerConfigEditor
+              questionType={questionData.questionType}
+              questionText={questionData.questionText || ''}
+              config={questionData.answerConfig}
+              onChange={(config) => handleChange('answerConfig', config)}
+            />
+          )}
+
           {/* Available Tools - For All Question Types */}
           <div className="space-y-3 border border-gray-200 dark:border-gray-700 rounded-xl p-5 bg-gray-50 dark:bg-gray-900/50">
             <h4 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
@@ -717,6 +759,23 @@ const QuestionBuilderModal: React.FC<QuestionBuilderModalProps> = ({
             </div>
           </div>
 
+          {/* Tags */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Tags (Optional)
+            </label>
+            <input
+              type="text"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              placeholder="e.g. algebra, chapter-3"
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Comma-separated. Used to filter the question bank and random draw rules.
+            </p>
+          </div>
+
           {/* Explanation */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
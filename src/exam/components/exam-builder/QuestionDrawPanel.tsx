@@ -0,0 +1,140 @@
+import React from 'react';
+import { Plus, Trash2, Shuffle } from 'lucide-react';
+import { matchesDrawRule } from '../../services/examApi';
+import type { Question, QuestionDrawRule, QuestionDrawSettings } from '../../services/examApi';
+
+interface QuestionDrawPanelProps {
+  questions: Question[];
+  draw: QuestionDrawSettings;
+  onChange: (draw: QuestionDrawSettings) => void;
+}
+
+export default function QuestionDrawPanel({ questions, draw, onChange }: QuestionDrawPanelProps) {
+  const tags = Array.from(new Set(questions.flatMap(q => q.tags || []))).sort();
+
+  const updateRule = (id: string, updates: Partial<QuestionDrawRule>) => {
+    onChange({
+      ...draw,
+      rules: draw.rules.map(rule => (rule.id === id ? { ...rule, ...updates } : rule))
+    });
+  };
+
+  const addRule = () => {
+    onChange({
+      ...draw,
+      rules: [...draw.rules, { id: `R_${Date.now()}`, difficulty: '', tag: '', count: 1 }]
+    });
+  };
+
+  const removeRule = (id: string) => {
+    onChange({ ...draw, rules: draw.rules.filter(rule => rule.id !== id) });
+  };
+
+  const totalDrawn = draw.rules.reduce((sum, rule) => sum + (rule.count > 0 ? rule.count : 0), 0);
+
+  // Drawn papers only have a fixed total when every question in a rule's pool carries the same marks
+  const marksPerRule = draw.rules.map(rule => {
+    const marks = questions.filter(q => matchesDrawRule(q, rule)).map(q => q.marks || 0);
+    return { min: Math.min(...marks), max: Math.max(...marks), count: rule.count, empty: marks.length === 0 };
+  });
+  const minMarks = marksPerRule.reduce((sum, r) => sum + (r.empty ? 0 : r.min * r.count), 0);
+  const maxMarks = marksPerRule.reduce((sum, r) => sum + (r.empty ? 0 : r.max * r.count), 0);
+
+  return (
+    <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Shuffle className="w-5 h-5 text-green-600 dark:text-green-400" />
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">Random Question Draw</h4>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Each student gets a different paper drawn from the questions below
+            </p>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={draw.enabled}
+            onChange={(e) => onChange({
+              ...draw,
+              enabled: e.target.checked,
+              rules: e.target.checked && draw.rules.length === 0
+                ? [{ id: `R_${Date.now()}`, difficulty: '', tag: '', count: Math.min(questions.length, 10) }]
+                : draw.rules
+            })}
+            className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+          />
+          Enabled
+        </label>
+      </div>
+
+      {draw.enabled && (
+        <>
+          <div className="space-y-2">
+            {draw.rules.map((rule, index) => {
+              const available = questions.filter(q => matchesDrawRule(q, rule)).length;
+              return (
+                <div key={rule.id} className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm text-gray-600 dark:text-gray-400 w-14">Rule {index + 1}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={rule.count}
+                    onChange={(e) => updateRule(rule.id, { count: parseInt(e.target.value, 10) || 0 })}
+                    className="w-20 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">questions</span>
+                  <select
+                    value={rule.difficulty}
+                    onChange={(e) => updateRule(rule.id, { difficulty: e.target.value as QuestionDrawRule['difficulty'] })}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    <option value="">Any difficulty</option>
+                    <option value="Easy">Easy</option>
+                    <option value="Medium">Medium</option>
+                    <option value="Hard">Hard</option>
+                  </select>
+                  <select
+                    value={rule.tag}
+                    onChange={(e) => updateRule(rule.id, { tag: e.target.value })}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    <option value="">Any tag</option>
+                    {tags.map(tag => (
+                      <option key={tag} value={tag}>#{tag}</option>
+                    ))}
+                  </select>
+                  <span className={`text-xs ${available < rule.count ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                    {available} available
+                  </span>
+                  <button
+                    onClick={() => removeRule(rule.id)}
+                    className="p-1.5 text-gray-500 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={addRule}
+            className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-300"
+          >
+            <Plus className="w-4 h-4" />
+            Add rule
+          </button>
+
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Each student answers <strong>{totalDrawn}</strong> of {questions.length} questions worth{' '}
+            <strong>{minMarks === maxMarks ? minMarks : `${minMarks}–${maxMarks}`}</strong> marks.
+            Rules are applied in order and never pick the same question twice.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Upload, FileUp, AlertTriangle, CheckCircle, Download } from 'lucide-react';
+import { validateQuestion } from '../../services/examApi';
+import type { Question } from '../../services/examApi';
+import {
+  CSV_COLUMNS,
+  detectQuestionFormat,
+  parseQuestionsCsv,
+  parseQuestionsGift,
+  parseQuestionsQti,
+  type QuestionFormat
+} from '../../utils/questionFormats';
+
+interface QuestionImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (questions: Question[]) => void;
+  existingCount: number;
+}
+
+interface PreviewRow {
+  question: Question;
+  errors: string[];
+}
+
+const FORMAT_LABELS: Record<QuestionFormat, string> = {
+  csv: 'CSV',
+  qti: 'IMS QTI 2.1 (.xml or .zip package)',
+  gift: 'Moodle GIFT'
+};
+
+export default function QuestionImportModal({ isOpen, onClose, onImport, existingCount }: QuestionImportModalProps) {
+  const [format, setFormat] = useState<QuestionFormat>('csv');
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileNames([]);
+      setRows([]);
+      setParseErrors([]);
+    }
+  }, [isOpen]);
+
+  const stripHtml = (html: string) => {
+    const tmp = document.createElement('DIV');
+    tmp.innerHTML = html;
+    return tmp.textContent || tmp.innerText || '';
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const detected = detectQuestionFormat(files[0].name) || format;
+    setFormat(detected);
+    setFileNames(files.map(f => f.name));
+    setParsing(true);
+
+    try {
+      const parsed = detected === 'qti'
+        ? await parseQuestionsQti(files)
+        : detected === 'gift'
+        ? parseQuestionsGift(await files[0].text())
+        : parseQuestionsCsv(await files[0].text());
+
+      setRows(parsed.questions.map(question => ({ question, errors: validateQuestion(question) })));
+      setParseErrors(parsed.errors);
+    } catch (error) {
+      console.error('Error parsing question file:', error);
+      setRows([]);
+      setParseErrors([error instanceof Error ? error.message : 'Could not read the file']);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const example = [
+      'MCQ', 'What is 2 + 2?', '3', '4', '5', '6', '', '', '', '', '', '',
+      'FALSE', 'B', '1', '0', 'Easy', '2 + 2 = 4', 'arithmetic', ''
+    ];
+    const csv = [CSV_COLUMNS.join(','), example.map(v => `"${v}"`).join(',')].join('\n');
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'question_import_template.csv');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+
+  const handleImport = () => {
+    const stamp = Date.now();
+    onImport(validRows.map((row, i) => ({
+      ...row.question,
+      questionId: `Q_${stamp}_${existingCount + i + 1}`,
+      questionNumber: existingCount + i + 1
+    })));
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-green-600 dark:text-green-400" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Import Questions</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* File picker */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+          <div className="flex items-center gap-3 flex-wrap">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as QuestionFormat)}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              {(Object.keys(FORMAT_LABELS) as QuestionFormat[]).map(f => (
+                <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={parsing}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              {parsing ? 'Reading...' : 'Choose File'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple={format === 'qti'}
+              accept={format === 'csv' ? '.csv' : format === 'qti' ? '.xml,.zip' : '.gift,.txt'}
+              onChange={handleFiles}
+              className="hidden"
+            />
+            {format === 'csv' && (
+              <button
+                onClick={downloadTemplate}
+                className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-300"
+              >
+                <Download className="w-4 h-4" />
+                CSV template
+              </button>
+            )}
+          </div>
+          {fileNames.length > 0 && (
+            <p className="text-xs text-gray-600 dark:text-gray-400">{fileNames.join(', ')}</p>
+          )}
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {parseErrors.length > 0 && (
+            <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <p className="text-sm font-medium text-amber-800 dark:text-amber-200 mb-1">Skipped entries</p>
+              <ul className="text-xs text-amber-700 dark:text-amber-300 list-disc pl-5 space-y-0.5">
+                {parseErrors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400 text-center py-12">
+              Choose a file to preview its questions
+            </p>
+          ) : (
+            rows.map((row, i) => (
+              <div
+                key={i}
+                className={`p-3 border rounded-lg ${
+                  row.errors.length > 0
+                    ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/10'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-1 flex-wrap text-xs">
+                  {row.errors.length > 0
+                    ? <AlertTriangle className="w-4 h-4 text-red-600 dark:text-red-400" />
+                    : <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />}
+                  <span className="font-medium text-gray-900 dark:text-white">#{i + 1}</span>
+                  <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                    {row.question.questionType}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {row.question.marks} {row.question.marks === 1 ? 'mark' : 'marks'}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">{row.question.difficulty}</span>
+                  {row.question.correctAnswer && (
+                    <span className="text-gray-600 dark:text-gray-400">Correct: {row.question.correctAnswer}</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-900 dark:text-gray-100 line-clamp-2">{stripHtml(row.question.questionText)}</p>
+                {row.errors.length > 0 && (
+                  <ul className="mt-1 text-xs text-red-600 dark:text-red-400 list-disc pl-5">
+                    {row.errors.map((error, j) => <li key={j}>{error}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 rounded-b-xl">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {rows.length > 0 && `${validRows.length} of ${rows.length} questions valid`}
+            {rows.length > validRows.length && ' — invalid questions will be skipped'}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={validRows.length === 0}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+            >
+              Import {validRows.length > 0 ? validRows.length : ''} Question{validRows.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Plus, GripVertical, Edit2, Trash2, AlertCircle, AlertTriangle } from 'lucide-react';
-import type { Question, ExamSettings } from '../../services/examApi';
+import { Plus, GripVertical, Edit2, Trash2, AlertCircle, AlertTriangle, Library, BookmarkPlus, Loader2, FileUp, FileDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { saveBankQuestion } from '../../services/examApi';
+import type { Question, ExamSettings, QuestionDrawSettings } from '../../services/examApi';
 import QuestionBuilderModal from './QuestionBuilderModal';
+import QuestionBankImportModal from './QuestionBankImportModal';
+import QuestionDrawPanel from './QuestionDrawPanel';
+import QuestionImportModal from './QuestionImportModal';
+import { exportQuestions, type QuestionFormat } from '../../utils/questionFormats';
 
 interface QuestionsTabProps {
   questions: Question[];
@@ -9,14 +15,22 @@ interface QuestionsTabProps {
   examSettings?: ExamSettings;
   totalMarks?: number; // Expected total marks from basic details
   onAutoSwitchNegativeMarking?: () => void; // Callback when any question has negative marks
+  examMeta?: { title?: string; term?: string; domain?: string; subject?: string }; // Used for question bank filing and export file names
+  onQuestionDrawChange?: (draw: QuestionDrawSettings) => void;
 }
 
-export default function QuestionsTab({ questions, onQuestionsChange, examSettings, totalMarks, onAutoSwitchNegativeMarking }: QuestionsTabProps) {
+export default function QuestionsTab({ questions, onQuestionsChange, examSettings, totalMarks, onAutoSwitchNegativeMarking, examMeta = {}, onQuestionDrawChange }: QuestionsTabProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteIndex, setDeleteIndex] = useState<number | null>(null);
+  const [isBankModalOpen, setIsBankModalOpen] = useState(false);
+  const [savingToBankId, setSavingToBankId] = useState<string | null>(null);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+
+  const questionDraw: QuestionDrawSettings = examSettings?.questionDraw || { enabled: false, rules: [] };
 
   // Calculate sum of question marks
   const questionsMarksSum = useMemo(() => {
@@ -82,6 +96,55 @@ export default function QuestionsTab({ questions, onQuestionsChange, examSetting
     }
   };
 
+  const handleImportFromBank = (imported: Question[]) => {
+    onQuestionsChange([...questions, ...imported]);
+    toast.success(`Imported ${imported.length} question${imported.length === 1 ? '' : 's'} from the bank`);
+  };
+
+  const handleImportFile = (imported: Question[]) => {
+    onQuestionsChange([...questions, ...imported]);
+    toast.success(`Imported ${imported.length} question${imported.length === 1 ? '' : 's'}`);
+  };
+
+  const handleExport = (format: QuestionFormat) => {
+    setShowExportMenu(false);
+    exportQuestions(questions, format, examMeta.title || examMeta.subject || 'questions');
+  };
+
+  const handleSaveToBank = async (question: Question) => {
+    if (!examMeta.subject) {
+      toast.error('Set the exam subject in Basic Details before saving to the bank');
+      return;
+    }
+
+    setSavingToBankId(question.questionId || null);
+    try {
+      const result = await saveBankQuestion({
+        ...question,
+        questionId: undefined,
+        questionNumber: undefined,
+        term: examMeta.term || '',
+        domain: examMeta.domain || '',
+        subject: examMeta.subject,
+        tags: question.tags || []
+      });
+
+      if (result.success && result.bankQuestionId) {
+        onQuestionsChange(questions.map(q =>
+          q.questionId === question.questionId ? { ...q, bankQuestionId: result.bankQuestionId } : q
+        ));
+        toast.success(question.bankQuestionId ? 'Bank question updated' : 'Saved to question bank');
+      } else {
+        toast.error(result.error || 'Failed to save to question bank');
+      }
+    } catch (error) {
+      console.error('Error saving to question bank:', error);
+      toast.error('Failed to save to question bank');
+    } finally {
+      setSavingToBankId(null);
+    }
+  };
+
   const handleDeleteQuestion = (index: number) => {
     setDeleteIndex(index);
     setShowDeleteConfirm(true);
@@ -152,17 +215,61 @@ export default function QuestionsTab({ questions, onQuestionsChange, examSetting
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Questions</h3>
           <p className="text-sm text-gray-600 dark:text-gray-400">Add and manage exam questions</p>
         </div>
-        <button
-          onClick={handleAddQuestion}
-          className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          Add Question
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsImportModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <FileUp className="w-4 h-4" />
+            Import File
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={questions.length === 0}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              <FileDown className="w-4 h-4" />
+              Export
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 mt-1 w-44 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 py-1">
+                {([['csv', 'CSV'], ['qti', 'QTI 2.1 package'], ['gift', 'Moodle GIFT']] as Array<[QuestionFormat, string]>).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setIsBankModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <Library className="w-4 h-4" />
+            Import from Bank
+          </button>
+          <button
+            onClick={handleAddQuestion}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Question
+          </button>
+        </div>
       </div>
 
+      {/* Random Draw */}
+      {onQuestionDrawChange && questions.length > 0 && (
+        <QuestionDrawPanel questions={questions} draw={questionDraw} onChange={onQuestionDrawChange} />
+      )}
+
       {/* Marks Validation Warning */}
-      {totalMarks !== undefined && questions.length > 0 && !marksMatch && (
+      {totalMarks !== undefined && questions.length > 0 && !questionDraw.enabled && !marksMatch && (
         <div className={`flex items-start gap-3 p-4 rounded-lg border ${
           marksDiff > 0
             ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
@@ -193,7 +300,7 @@ export default function QuestionsTab({ questions, onQuestionsChange, examSetting
       )}
 
       {/* Marks Match Success */}
-      {totalMarks !== undefined && questions.length > 0 && marksMatch && (
+      {totalMarks !== undefined && questions.length > 0 && !questionDraw.enabled && marksMatch && (
         <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
           <div className="w-2 h-2 bg-green-500 rounded-full"></div>
           <p className="text-sm text-green-700 dark:text-green-300">
@@ -254,6 +361,16 @@ export default function QuestionsTab({ questions, onQuestionsChange, examSetting
                   }`}>
                     {question.difficulty}
                   </span>
+                  {(question.tags || []).map(tag => (
+                    <span key={tag} className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                      #{tag}
+                    </span>
+                  ))}
+                  {question.bankQuestionId && (
+                    <span className="text-xs px-2 py-1 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+                      Bank
+                    </span>
+                  )}
                 </div>
                 <p className="text-sm text-gray-900 dark:text-gray-100 line-clamp-2">
                   {stripHtml(question.questionText)}
@@ -265,6 +382,16 @@ export default function QuestionsTab({ questions, onQuestionsChange, examSetting
                 ) : null}
               </div>
               <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleSaveToBank(question)}
+                  disabled={savingToBankId !== null}
+                  className="p-2 text-gray-600 dark:text-gray-400 hover:text-purple-600 dark:hover:text-purple-400 disabled:opacity-50 transition-colors"
+                  title={question.bankQuestionId ? 'Update bank copy' : 'Save to question bank'}
+                >
+                  {savingToBankId === question.questionId
+                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : <BookmarkPlus className="w-4 h-4" />}
+                </button>
                 <button
                   onClick={() => handleEditQuestion(question, index)}
                   className="p-2 text-gray-600 dark:text-gray-400 hover:text-green-600 dark:hover:text-green-400 transition-colors"
@@ -317,6 +444,23 @@ export default function QuestionsTab({ questions, onQuestionsChange, examSetting
         examSettings={examSettings}
       />
 
+      {/* File Import Modal */}
+      <QuestionImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onImport={handleImportFile}
+        existingCount={questions.length}
+      />
+
+      {/* Question Bank Import Modal */}
+      <QuestionBankImportModal
+        isOpen={isBankModalOpen}
+        onClose={() => setIsBankModalOpen(false)}
+        onImport={handleImportFromBank}
+        examMeta={examMeta}
+        existingQuestions={questions}
+      />
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1,12 +1,14 @@
 import React from 'react';
 import { ExamSettings } from '../../services/examApi';
+import AccommodationsPanel from './AccommodationsPanel';
 
 interface SettingsTabProps {
   settings: ExamSettings;
+  examDuration?: number; // Minutes, to preview accommodated durations
   onSettingsChange: (settings: ExamSettings) => void;
 }
 
-export default function SettingsTab({ settings, onSettingsChange }: SettingsTabProps) {
+export default function SettingsTab({ settings, examDuration, onSettingsChange }: SettingsTabProps) {
   // Ensure proctoring object exists with defaults
   const proctoring = settings.proctoring || {
     webcamRequired: true,
@@ -227,6 +229,16 @@ export default function SettingsTab({ settings, onSettingsChange }: SettingsTabP
         </div>
       </section>
 
+      {/* Accommodations */}
+      <section className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Accommodations</h3>
+        <AccommodationsPanel
+          accommodations={settings.accommodations || []}
+          examDuration={examDuration}
+          onChange={(accommodations) => updateSetting('accommodations', accommodations)}
+        />
+      </section>
+
       {/* Proctoring Settings */}
       <section className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Proctoring Settings</h3>
@@ -31,7 +31,10 @@ import {
   Calculator,
   Table,
   Grid3X3,
-  Pencil
+  Pencil,
+  Cloud,
+  CloudOff,
+  RefreshCw
 } from 'lucide-react';
 import {
   RichTextAnswerEditor,
@@ -40,17 +43,20 @@ import {
   TableEditor,
   SpreadsheetPanel,
   DrawingPanel,
-  RoughWorkPanel
+  RoughWorkPanel,
+  StructuredAnswerInput
 } from '../components/answer-tools';
 import {
   getExamById,
   startExamAttempt,
-  saveAnswer as saveAnswerAPI,
   logViolation as logViolationAPI,
   uploadScreenshotDirect,
   requestMoreUploadUris,
   submitExam as submitExamAPI,
   isExamLive,
+  getStudentAccommodation,
+  getEffectiveDuration,
+  applyAccommodationTools,
   validateExamSession,
   updateSessionActivity,
   type Exam,
@@ -59,6 +65,17 @@ import {
 } from '../services/examApi';
 import { useAuth } from '../../features/auth/hooks/useAuth';
 import { getStoredSession, generateDeviceFingerprint } from '../utils/examSession';
+import { isStructuredType } from '../utils/structuredAnswers';
+import {
+  clearAttemptAnswers,
+  drainAnswerQueue,
+  getDrafts,
+  queueAnswer,
+  saveDraft,
+  startAnswerSync,
+  subscribeToAnswerSync,
+  type AnswerSyncStatus
+} from '../utils/answerQueue';
 
 interface Answer {
   questionId: string;
@@ -98,6 +115,20 @@ const ExamAttempt: React.FC = () => {
   const [lastActivityTime, setLastActivityTime] = useState<number>(Date.now());
   const inactivityTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Offline answer queue (IndexedDB) - sync status and a forced submit waiting for the queue to drain
+  const [syncStatus, setSyncStatus] = useState<AnswerSyncStatus>({ state: 'synced', pending: 0, conflicts: [], lastSyncedAt: null });
+  const persistedDraftsRef = useRef<Map<string, string>>(new Map());
+  const queuedAnswersRef = useRef<Map<string, string>>(new Map()); // Last value handed to the queue (or loaded from the server) per question
+  const pendingForcedSubmitRef = useRef(false);
+  // Latest handlers for effects that react to sync and invigilator updates
+  const handleSubmitRef = useRef<(forced?: boolean) => Promise<void>>(async () => {});
+  const showViolationWarningRef = useRef<(message: string) => void>(() => {});
+
+  // Invigilator commands delivered with the session heartbeat (total extra minutes, force submit)
+  const [invigilatorExtraMinutes, setInvigilatorExtraMinutes] = useState(0);
+  const [invigilatorForceSubmit, setInvigilatorForceSubmit] = useState(false);
+  const appliedExtraMinutesRef = useRef(0);
+
   // Proctoring State
   const [violations, setViolations] = useState<ProctoringLog[]>([]);
   const [webcamActive, setWebcamActive] = useState(false);
@@ -166,6 +197,10 @@ const ExamAttempt: React.FC = () => {
   const sessionActivityIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const storedSessionRef = useRef<any>(null);
 
+  // Seconds spent on each question (sent with the submission for item analysis)
+  const questionTimesRef = useRef<Map<string, number>>(new Map());
+  const questionViewRef = useRef<{ questionId: string; since: number } | null>(null);
+
   // Store original option order for each question (for shuffled options mapping)
   const shuffledOptionsMapRef = useRef<Map<string, Map<string, string>>>(new Map());
 
@@ -304,16 +339,18 @@ const ExamAttempt: React.FC = () => {
         return;
       }
 
-      // Start session activity heartbeat (every 2 minutes)
+      // Start session activity heartbeat (every minute) - it also feeds the live invigilation dashboard
       sessionActivityIntervalRef.current = setInterval(async () => {
         if (storedSessionRef.current) {
           try {
-            await updateSessionActivity(examId!, storedSessionRef.current.sessionToken);
+            const activity = await updateSessionActivity(examId!, storedSessionRef.current.sessionToken);
+            if (typeof activity.extraMinutes === 'number') setInvigilatorExtraMinutes(activity.extraMinutes);
+            if (activity.forceSubmit) setInvigilatorForceSubmit(true);
           } catch (err) {
             console.warn('Failed to update session activity:', err);
           }
         }
-      }, 2 * 60 * 1000);
+      }, 60 * 1000);
 
       // Session is valid, load exam data
       loadExam();
@@ -362,18 +399,25 @@ const ExamAttempt: React.FC = () => {
           console.log('✅ [SHUFFLE] Options shuffled');
         }
 
+        // Approved accommodation: extra time, own window and extra tools for this student
+        const accommodation = getStudentAccommodation(examData, student?.email);
+        if (accommodation) {
+          questions = questions.map((q: Question) => applyAccommodationTools(q, accommodation));
+        }
+
         const normalized = {
           ...examData,
           examId: examData['Exam ID'] || examData.examId,
           examTitle: examData['Exam Title'] || examData.examTitle,
-          duration: examData['Duration (minutes)'] || examData.duration,
+          // Duration includes any extra time, so the timer, auto-submit and time spent all follow it
+          duration: getEffectiveDuration(examData, student?.email),
           questions: questions,
           settings: settings
         };
         setExam(normalized);
 
         // Check if exam has expired
-        if (!isExamLive(normalized)) {
+        if (!isExamLive(normalized, student?.email)) {
           setExamExpired(true);
           setLoading(false);
           return;
@@ -409,6 +453,15 @@ const ExamAttempt: React.FC = () => {
           const isResumed = attemptResponse.resumed || attemptResponse.data?.resumed;
           const savedAnswersFromBackend = attemptResponse.savedAnswers || attemptResponse.data?.savedAnswers || [];
 
+          // Random draw: keep only the questions drawn for this student
+          const assignedQuestionIds = attemptResponse.assignedQuestionIds || attemptResponse.data?.assignedQuestionIds;
+          if (assignedQuestionIds && assignedQuestionIds.length > 0) {
+            normalized.questions = normalized.questions
+              .filter((q: Question) => assignedQuestionIds.includes(q.questionId || ''))
+              .map((q: Question, index: number) => ({ ...q, questionNumber: index + 1 }));
+            setExam({ ...normalized });
+          }
+
           if (isResumed) {
             console.log('📋 Resuming exam attempt:', attemptIdValue);
             console.log('📋 Loaded', savedAnswersFromBackend.length, 'saved answers');
@@ -416,15 +469,22 @@ const ExamAttempt: React.FC = () => {
             console.log('✅ New attempt started:', attemptIdValue);
           }
 
+          // Answers typed on this device that may not have reached the server (e.g. offline before a reload)
+          const drafts = await getDrafts(attemptIdValue);
+
           // Initialize answers - merge with saved answers from backend if resuming
           const initialAnswers = new Map<string, Answer>();
           (normalized.questions || []).forEach((q: any) => {
             const savedAnswer = savedAnswersFromBackend.find(
               (sa: any) => sa.questionId === q.questionId
             );
+            const draft = drafts.find(d => d.questionId === q.questionId);
+            if (savedAnswer) queuedAnswersRef.current.set(q.questionId, savedAnswer.answer || '');
+            const useDraft = draft && draft.version > (savedAnswer?.version || 0);
+            if (draft) persistedDraftsRef.current.set(draft.questionId, draft.answer);
             initialAnswers.set(q.questionId || '', {
               questionId: q.questionId || '',
-              answer: savedAnswer?.answer || '',
+              answer: useDraft ? draft.answer : savedAnswer?.answer || '',
               flagged: false,
               submitted: savedAnswer?.submitted || false,
               submittedAnswer: savedAnswer?.submitted ? savedAnswer?.answer : undefined
@@ -531,6 +591,66 @@ const ExamAttempt: React.FC = () => {
     };
   }, [exam, timeRemaining]);
 
+  // Per-question time - close the previous question's interval whenever the visible question changes
+  useEffect(() => {
+    recordQuestionTime();
+    const questionId = exam?.questions?.[currentQuestionIndex]?.questionId;
+    questionViewRef.current = questionId ? { questionId, since: Date.now() } : null;
+  }, [exam, currentQuestionIndex]);
+
+  // Replay queued answers for this attempt and follow connectivity changes
+  useEffect(() => {
+    if (!attemptId) return;
+    const stopSync = startAnswerSync(attemptId);
+    const unsubscribe = subscribeToAnswerSync(setSyncStatus);
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, [attemptId]);
+
+  // Every answer change goes to IndexedDB first
+  useEffect(() => {
+    if (!attemptId) return;
+    answers.forEach(answer => {
+      if (persistedDraftsRef.current.get(answer.questionId) === answer.answer) return;
+      if (!persistedDraftsRef.current.has(answer.questionId) && !answer.answer) return;
+      persistedDraftsRef.current.set(answer.questionId, answer.answer);
+      saveDraft(attemptId, answer.questionId, answer.answer);
+    });
+  }, [answers, attemptId]);
+
+  // A forced submission (time up / disqualification) made while offline goes through once everything is synced
+  useEffect(() => {
+    if (pendingForcedSubmitRef.current && syncStatus.state === 'synced' && syncStatus.pending === 0) {
+      pendingForcedSubmitRef.current = false;
+      handleSubmitRef.current(true);
+    }
+  }, [syncStatus]);
+
+  // Extra time from the invigilator - the heartbeat reports the running total, so only the difference is added
+  useEffect(() => {
+    if (!exam) return;
+    const delta = invigilatorExtraMinutes - appliedExtraMinutesRef.current;
+    if (delta === 0) return;
+    appliedExtraMinutesRef.current = invigilatorExtraMinutes;
+    setExam(prev => (prev ? { ...prev, duration: (prev.duration || 0) + delta } : prev));
+    setTimeRemaining(prev => Math.max(0, prev + delta * 60));
+    showViolationWarningRef.current(
+      delta > 0
+        ? `The invigilator has given you ${delta} extra minute${delta === 1 ? '' : 's'}.`
+        : `The invigilator has reduced your time by ${-delta} minute${delta === -1 ? '' : 's'}.`
+    );
+  }, [exam, invigilatorExtraMinutes]);
+
+  // Force submit from the invigilator
+  useEffect(() => {
+    if (invigilatorForceSubmit && attemptId && !submissionStarted) {
+      showViolationWarningRef.current('The invigilator has ended your exam. Your answers are being submitted.');
+      handleSubmitRef.current(true);
+    }
+  }, [invigilatorForceSubmit, attemptId, submissionStarted]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -1287,6 +1407,7 @@ const ExamAttempt: React.FC = () => {
       setShowWarning(false);
     }, 5000);
   };
+  showViolationWarningRef.current = showViolationWarning;
 
   const playBeepSound = () => {
     const audio = new Audio('data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmwhBjKF0fPTgjMGHm7A7+OZUR4OVLDp66hVFApNpeDwvWwhBjeQ1vLNeSsF');
@@ -1560,6 +1681,15 @@ const ExamAttempt: React.FC = () => {
     }
   };
 
+  const recordQuestionTime = () => {
+    const view = questionViewRef.current;
+    if (!view) return;
+    const now = Date.now();
+    const times = questionTimesRef.current;
+    times.set(view.questionId, (times.get(view.questionId) || 0) + (now - view.since) / 1000);
+    view.since = now;
+  };
+
   // Navigation
   const handlePreviousQuestion = () => {
     if (currentQuestionIndex > 0) {
@@ -1605,7 +1735,9 @@ const ExamAttempt: React.FC = () => {
 
     setSavingAnswer(true);
     try {
-      await saveAnswerAPI(attemptId, examId, questionId, answer, false); // false = save progress only
+      // Stored on this device first, then synced by the answer queue
+      await queueAnswer({ attemptId, examId, questionId, answer, submitted: false }); // false = save progress only
+      queuedAnswersRef.current.set(questionId, answer);
       setSavedAnswers(prev => new Set(prev).add(questionId));
       console.log(`✅ Answer progress saved for question ${questionId}`);
     } catch (err) {
@@ -1656,7 +1788,8 @@ const ExamAttempt: React.FC = () => {
 
     setSavingAnswer(true);
     try {
-      await saveAnswerAPI(attemptId, examId, questionId, answer, true); // true = submitted
+      await queueAnswer({ attemptId, examId, questionId, answer, submitted: true }); // true = submitted
+      queuedAnswersRef.current.set(questionId, answer);
       setSavedAnswers(prev => new Set(prev).add(questionId));
 
       // Mark as submitted in local state and save the submitted answer
@@ -1738,9 +1871,39 @@ const ExamAttempt: React.FC = () => {
     // Cancel any active fullscreen grace period
     cancelFullscreenGracePeriod();
 
+    // The server scores the answers it holds, so anything not yet auto-saved joins the queue first.
+    // Never finalize while answers are still only on this device.
+    let drained = false;
+    try {
+      for (const answer of Array.from(answers.values())) {
+        if (answer.answer === (queuedAnswersRef.current.get(answer.questionId) || '')) continue;
+        await queueAnswer({ attemptId, examId, questionId: answer.questionId, answer: answer.answer, submitted: answer.submitted });
+        queuedAnswersRef.current.set(answer.questionId, answer.answer);
+      }
+      drained = await drainAnswerQueue(attemptId);
+    } catch {
+      // IndexedDB write failed - handled below like answers that have not reached the server
+    }
+    if (!drained) {
+      setSubmitting(false);
+      if (forced) {
+        pendingForcedSubmitRef.current = true;
+        showViolationWarning('You are offline. Your answers are saved on this device and the exam will be submitted as soon as the connection returns.');
+      } else {
+        setSubmissionStarted(false);
+        alert('Some answers have not reached the server yet. They are saved on this device - please check your connection and submit again.');
+      }
+      return;
+    }
+
     try {
       const timeSpent = ((exam?.duration || 0) * 60) - timeRemaining;
-      const answersArray = Array.from(answers.values());
+      recordQuestionTime();
+      // Answer text comes from the synced server copy; the page only adds time and flags
+      const answersArray = Array.from(answers.values()).map(a => ({
+        ...a,
+        timeSpent: Math.round(questionTimesRef.current.get(a.questionId) || 0)
+      }));
 
       const response = await submitExamAPI(
         attemptId,
@@ -1754,6 +1917,8 @@ const ExamAttempt: React.FC = () => {
         throw new Error(response.message || 'Failed to submit exam');
       }
 
+      await clearAttemptAnswers(attemptId);
+
       // Clean up media streams
       if (videoRef.current?.srcObject) {
         const stream = videoRef.current.srcObject as MediaStream;
@@ -1784,6 +1949,8 @@ const ExamAttempt: React.FC = () => {
     }
   };
 
+  handleSubmitRef.current = handleSubmit;
+
   // Format time
   const formatTime = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -2012,6 +2179,39 @@ const ExamAttempt: React.FC = () => {
 
             {/* Right: Actions */}
             <div className="flex items-center gap-2">
+              {/* Answer Sync Status */}
+              <div
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-sm font-medium ${
+                  syncStatus.state === 'offline' || syncStatus.state === 'error'
+                    ? 'bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-900/50 text-amber-700 dark:text-amber-400'
+                    : 'bg-muted/80 border-border text-muted-foreground'
+                }`}
+                title={
+                  syncStatus.conflicts.length > 0
+                    ? `${syncStatus.conflicts.length} answer(s) were changed on another device; the newer version was kept`
+                    : syncStatus.lastSyncedAt
+                    ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleTimeString()}`
+                    : 'Answers are saved on this device and synced to the server'
+                }
+              >
+                {syncStatus.state === 'offline' ? (
+                  <CloudOff className="w-4 h-4" />
+                ) : syncStatus.state === 'syncing' ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Cloud className="w-4 h-4" />
+                )}
+                <span className="hidden md:inline">
+                  {syncStatus.state === 'offline'
+                    ? `Offline · ${syncStatus.pending} unsynced`
+                    : syncStatus.state === 'error'
+                    ? `Retrying · ${syncStatus.pending} unsynced`
+                    : syncStatus.state === 'syncing'
+                    ? 'Syncing...'
+                    : 'All answers synced'}
+                </span>
+              </div>
+
               {/* Theme Toggle */}
               <button
                 onClick={() => {
@@ -2449,6 +2649,17 @@ const ExamAttempt: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {/* Answer Input - Numeric / Fill in the Blank / Matching / Ordering */}
+              {isStructuredType(currentQuestion.questionType) && (
+                <StructuredAnswerInput
+                  question={currentQuestion}
+                  value={currentAnswer?.answer || ''}
+                  onChange={(value) => updateLocalAnswer(currentQuestion.questionId, value)}
+                  disabled={currentAnswer?.submitted && currentQuestion.allowUpdateAfterSubmit === false}
+                  seed={student?.email || ''}
+                />
+              )}
                 </>
               )}
             </div>
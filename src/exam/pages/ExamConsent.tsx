@@ -24,6 +24,7 @@ import {
 import { getExamById, isExamLive, validateExamSession, type Exam } from '../services/examApi';
 import { isDeviceAllowed, getDeviceName, getDeviceInfo } from '../utils/deviceDetection';
 import { getStoredSession, generateDeviceFingerprint } from '../utils/examSession';
+import { useAuth } from '../../features/auth/hooks/useAuth';
 
 interface Permission {
   id: string;
@@ -37,6 +38,7 @@ interface Permission {
 const ExamConsent: React.FC = () => {
   const navigate = useNavigate();
   const { examId } = useParams<{ examId: string }>();
+  const { student } = useAuth();
   const [exam, setExam] = useState<Exam | null>(null);
   const [loading, setLoading] = useState(true);
   const [requesting, setRequesting] = useState(false);
@@ -113,7 +115,7 @@ const ExamConsent: React.FC = () => {
         setExam(normalized);
 
         // Check if exam has expired
-        if (!isExamLive(normalized)) {
+        if (!isExamLive(normalized, student?.email)) {
           setExamExpired(true);
           setLoading(false);
           return;
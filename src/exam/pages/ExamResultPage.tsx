@@ -19,9 +19,17 @@ import {
   Trophy,
   Loader,
   Flag,
-  Play
+  Play,
+  RotateCcw
 } from 'lucide-react';
-import { getExamResult, getExamById, type Exam } from '../services/examApi';
+import {
+  getExamResult,
+  getExamById,
+  type Exam,
+  type QuestionAnswerConfig,
+  type ResultRegradeNotice
+} from '../services/examApi';
+import { formatStudentAnswer } from '../utils/structuredAnswers';
 
 interface Answer {
   questionId: string;
@@ -33,6 +41,10 @@ interface Answer {
   isCorrect?: boolean;
   marks: number;
   marksAwarded: number;
+  graderComment?: string;
+  answerConfig?: QuestionAnswerConfig;
+  regraded?: boolean; // Answer key corrected after submission
+  dropped?: boolean; // Question removed from the total
   flagged: boolean;
 }
 
@@ -63,8 +75,10 @@ interface ExamResult {
   startTime: string;
   endTime: string;
   violationCount: number;
+  gradingStatus?: 'PENDING' | 'IN_PROGRESS' | 'GRADED' | '';
   answers: Answer[];
   violations: Violation[];
+  regrades?: ResultRegradeNotice[];
 }
 
 const ExamResultPage: React.FC = () => {
@@ -240,6 +254,40 @@ const ExamResultPage: React.FC = () => {
 
           {/* Score Overview */}
           <div className="p-8">
+            {(result.gradingStatus === 'PENDING' || result.gradingStatus === 'IN_PROGRESS') && (
+              <div className="mb-6 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 flex items-start gap-3">
+                <Clock className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-amber-800 dark:text-amber-200">
+                  Some descriptive answers are still being graded by faculty. Your score will update once grading is complete.
+                </p>
+              </div>
+            )}
+            {result.regrades && result.regrades.length > 0 && (
+              <div className="mb-6 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 flex items-start gap-3">
+                <RotateCcw className="w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-blue-800 dark:text-blue-200">
+                  <p className="font-medium mb-1">
+                    {result.regrades.length === 1 ? 'A question was' : `${result.regrades.length} questions were`} regraded after the exam. Your score has been updated.
+                  </p>
+                  <ul className="space-y-1">
+                    {result.regrades.map(regrade => (
+                      <li key={regrade.questionId}>
+                        Question {regrade.questionNumber}:{' '}
+                        {regrade.mode === 'DROP'
+                          ? 'removed from the total'
+                          : regrade.mode === 'FULL_MARKS'
+                          ? 'full marks awarded to everyone'
+                          : 'answer key corrected'}
+                        {regrade.oldMarks !== null && regrade.newMarks !== null && regrade.oldMarks !== regrade.newMarks && (
+                          <span> ({regrade.oldMarks} → {regrade.newMarks} marks)</span>
+                        )}
+                        {' '}— {regrade.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
               <div className="p-4 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
                 <div className="flex items-center gap-2 mb-2">
@@ -340,12 +388,17 @@ const ExamResultPage: React.FC = () => {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {result.answers.map((answer, index) => (
+                  {result.answers.map((answer, index) => {
+                  // Structured question types can earn part of the marks
+                  const isPartial = !answer.isCorrect && answer.marksAwarded > 0;
+                  return (
                   <div
                     key={answer.questionId}
                     className={`p-6 rounded-xl border-2 ${
                       answer.isCorrect
                         ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                        : isPartial
+                        ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
                         : answer.answer
                         ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
                         : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600'
@@ -362,10 +415,17 @@ const ExamResultPage: React.FC = () => {
                         <span className="text-sm text-gray-600 dark:text-gray-400">
                           {answer.marks} marks
                         </span>
+                        {answer.regraded && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                            {answer.dropped ? 'Dropped' : 'Regraded'}
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         {answer.isCorrect ? (
                           <CheckCircle className="w-6 h-6 text-green-600 dark:text-green-400" />
+                        ) : isPartial ? (
+                          <div className="text-sm font-medium text-amber-600 dark:text-amber-400">Partially Correct</div>
                         ) : answer.answer ? (
                           <XCircle className="w-6 h-6 text-red-600 dark:text-red-400" />
                         ) : (
@@ -387,9 +447,11 @@ const ExamResultPage: React.FC = () => {
                         <p className={`font-medium ${
                           answer.isCorrect
                             ? 'text-green-700 dark:text-green-300'
+                            : isPartial
+                            ? 'text-amber-700 dark:text-amber-300'
                             : 'text-red-700 dark:text-red-300'
                         }`}>
-                          {answer.answer}
+                          {formatStudentAnswer(answer.questionType, answer.answer, answer.answerConfig)}
                         </p>
                       </div>
                     )}
@@ -423,10 +485,20 @@ const ExamResultPage: React.FC = () => {
                         }`}>
                           {answer.marksAwarded > 0 ? '+' : ''}{answer.marksAwarded} / {answer.marks}
                         </span>
+                        {answer.dropped && (
+                          <span className="text-gray-500 dark:text-gray-400"> (not counted)</span>
+                        )}
                       </p>
+                      {answer.graderComment && (
+                        <p className="text-sm mt-2">
+                          <span className="text-gray-600 dark:text-gray-400">Grader Comment: </span>
+                          <span className="text-gray-900 dark:text-white">{answer.graderComment}</span>
+                        </p>
+                      )}
                     </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
               )}
             </div>
@@ -19,8 +19,20 @@ import {
   Timer,
   Award
 } from 'lucide-react';
-import { getAllExams, getStudentExamAttempts, getStudentExamStatus, isExamLive, isExamUpcoming, getTimeUntilStart, formatExamDateTime, type Exam } from '../services/examApi';
+import {
+  getAllExams,
+  getStudentExamAttempts,
+  getStudentExamStatus,
+  isExamLive,
+  isExamUpcoming,
+  getTimeUntilStart,
+  formatExamDateTime,
+  getExamWindow,
+  getEffectiveDuration,
+  type Exam
+} from '../services/examApi';
 import { useActivityTracker } from '../../hooks/useActivityTracker';
+import { useAuth } from '../../features/auth/hooks/useAuth';
 
 const Exams: React.FC = () => {
   const [exams, setExams] = useState<Exam[]>([]);
@@ -29,6 +41,7 @@ const Exams: React.FC = () => {
   const [attempts, setAttempts] = useState<Map<string, any>>(new Map());
   const [statuses, setStatuses] = useState<Map<string, 'Completed' | 'Disqualified'>>(new Map());
   const { trackPageView } = useActivityTracker();
+  const { student } = useAuth();
 
   // Track page view
   useEffect(() => {
@@ -108,8 +121,8 @@ const Exams: React.FC = () => {
   };
 
   const getExamStatus = (exam: Exam): 'upcoming' | 'live' | 'expired' => {
-    if (isExamLive(exam)) return 'live';
-    if (isExamUpcoming(exam)) return 'upcoming';
+    if (isExamLive(exam, student?.email)) return 'live';
+    if (isExamUpcoming(exam, student?.email)) return 'upcoming';
     return 'expired';
   };
 
@@ -235,11 +248,11 @@ const Exams: React.FC = () => {
             const examTitle = examAny['Exam Title'] || exam.examTitle || '';
             const examType = examAny['Exam Type'] || exam.examType || '';
             const subject = examAny.Subject || exam.subject || '';
-            const duration = examAny['Duration (minutes)'] || exam.duration || 0;
+            // Accommodated students see their own duration and window
+            const duration = getEffectiveDuration(exam, student?.email);
             const totalMarks = examAny['Total Marks'] || exam.totalMarks || 0;
             const totalQuestions = examAny['Total Questions'] || exam.totalQuestions || 0;
-            const startDateTime = examAny['Start DateTime'] || exam.startDateTime || '';
-            const endDateTime = examAny['End DateTime'] || exam.endDateTime || '';
+            const { startDateTime, endDateTime } = getExamWindow(exam, student?.email);
 
             const status = getExamStatus(exam);
             const isLocked = status === 'upcoming';
@@ -384,7 +397,7 @@ const Exams: React.FC = () => {
                   {isLocked ? (
                     <div className="flex items-center justify-center gap-2 py-2 text-sm font-medium text-gray-600 dark:text-gray-400">
                       <Clock className="w-4 h-4" />
-                      <span>Starts in {getTimeUntilStart(exam)}</span>
+                      <span>Starts in {getTimeUntilStart(exam, student?.email)}</span>
                     </div>
                   ) : studentStatus === 'Disqualified' ? (
                     <div className="space-y-2">
@@ -24,11 +24,14 @@ import {
 import {
   getExamById,
   startExamAttempt,
-  saveAnswer as saveAnswerAPI,
   submitExam as submitExamAPI,
-  type Exam
+  type Exam,
+  type Question
 } from '../services/examApi';
 import { useAuth } from '../../features/auth/hooks/useAuth';
+import { StructuredAnswerInput } from '../components/answer-tools';
+import { isStructuredType } from '../utils/structuredAnswers';
+import { clearAttemptAnswers, drainAnswerQueue, queueAnswer } from '../utils/answerQueue';
 
 interface Answer {
   questionId: string;
@@ -110,6 +113,16 @@ const PracticeExamAttempt: React.FC = () => {
             throw new Error('No attempt ID returned from backend');
           }
           setAttemptId(attemptIdValue);
+
+          // Random draw: keep only the questions drawn for this attempt
+          const assignedQuestionIds = attemptResponse.assignedQuestionIds || attemptResponse.data?.assignedQuestionIds;
+          if (assignedQuestionIds && assignedQuestionIds.length > 0) {
+            const drawnQuestions = normalized.questions
+              .filter((q: Question) => assignedQuestionIds.includes(q.questionId || ''))
+              .map((q: Question, index: number) => ({ ...q, questionNumber: index + 1 }));
+            setExam({ ...normalized, questions: drawnQuestions });
+            setAnswers(prev => new Map(Array.from(prev).filter(([questionId]) => assignedQuestionIds.includes(questionId))));
+          }
         } else {
           throw new Error(attemptResponse.message || 'Failed to start exam attempt');
         }
@@ -175,7 +188,7 @@ const PracticeExamAttempt: React.FC = () => {
 
     if (attemptId && examId) {
       try {
-        await saveAnswerAPI(attemptId, examId, questionId, answer);
+        await queueAnswer({ attemptId, examId, questionId, answer, submitted: false });
       } catch (err) {
         console.error('Failed to save answer:', err);
       }
@@ -216,6 +229,13 @@ const PracticeExamAttempt: React.FC = () => {
 
     setSubmitting(true);
 
+    // The server scores the answers it holds, so every queued save must reach it first
+    if (!(await drainAnswerQueue(attemptId))) {
+      setSubmitting(false);
+      alert('Some answers have not reached the server yet. Please check your connection and submit again.');
+      return;
+    }
+
     try {
       const timeSpent = ((exam?.duration || 0) * 60) - timeRemaining;
       const answersArray = Array.from(answers.values());
@@ -232,6 +252,8 @@ const PracticeExamAttempt: React.FC = () => {
         throw new Error(response.message || 'Failed to submit exam');
       }
 
+      await clearAttemptAnswers(attemptId);
+
       if ((window as any).examScreenStream) {
         const stream = (window as any).examScreenStream as MediaStream;
         stream.getTracks().forEach(track => track.stop());
@@ -541,6 +563,16 @@ const PracticeExamAttempt: React.FC = () => {
                   />
                 </div>
               )}
+
+              {/* Answer Input - Numeric / Fill in the Blank / Matching / Ordering */}
+              {isStructuredType(currentQuestion.questionType) && (
+                <StructuredAnswerInput
+                  question={currentQuestion}
+                  value={currentAnswer?.answer || ''}
+                  onChange={(value) => handleAnswerChange(currentQuestion.questionId, value)}
+                  seed={student?.email || ''}
+                />
+              )}
             </div>
 
             {/* Navigation Controls */}
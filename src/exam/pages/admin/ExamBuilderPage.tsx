@@ -111,7 +111,7 @@ const ExamBuilderPage: React.FC = () => {
   const loadExam = async () => {
     try {
       setLoading(true);
-      const response = await getExamById(examId!);
+      const response = await getExamById(examId!, { admin: true });
       if (response.success && response.data) {
         const exam = response.data;
         const loadedData = {
@@ -339,6 +339,10 @@ const ExamBuilderPage: React.FC = () => {
             onQuestionsChange={(questions: any) => handleDataChange({ questions })}
             examSettings={examData.settings}
             totalMarks={examData.totalMarks}
+            examMeta={{ title: examData.examTitle, term: examData.term, domain: examData.domain, subject: examData.subject }}
+            onQuestionDrawChange={(questionDraw) =>
+              handleDataChange({ settings: { ...examData.settings, questionDraw } as ExamSettings })
+            }
             onAutoSwitchNegativeMarking={() => {
               // Auto-switch to question-based negative marking when a question has negative marks
               handleDataChange({
@@ -355,6 +359,7 @@ const ExamBuilderPage: React.FC = () => {
         return (
           <SettingsTab
             settings={(examData.settings || {}) as any}
+            examDuration={examData.duration}
             onSettingsChange={(settings: ExamSettings) => handleDataChange({ settings })}
           />
         );
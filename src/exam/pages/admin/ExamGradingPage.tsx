@@ -0,0 +1,575 @@
+/**
+ * Admin Exam Grading Page
+ * Manual grading workbench for SHORT_ANSWER and LONG_ANSWER questions.
+ * Graders can work question-by-question across all students or student-by-student,
+ * and partial progress is saved to the backend as they go.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  BookOpen,
+  Users,
+  CheckCircle,
+  Clock,
+  Save,
+  AlertCircle,
+  ChevronDown,
+  ChevronUp,
+  Loader
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getExamById,
+  getExamGradingData,
+  saveManualGrades,
+  type ExamGradingData,
+  type GradingAttempt,
+  type GradingQuestion,
+  type GradingStatus,
+  type ManualGrade
+} from '../../services/examApi';
+import { SafeHtml } from '../../../shared/components/ui/SafeHtml';
+
+type GradingView = 'question' | 'student';
+
+interface GradeDraft {
+  marks: string;
+  comment: string;
+}
+
+const draftKey = (attemptId: string, questionId: string) => `${attemptId}::${questionId}`;
+
+const gradingStatusBadge: Record<GradingStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  IN_PROGRESS: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  GRADED: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+};
+
+const ExamGradingPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { examId } = useParams<{ examId: string }>();
+  const [examTitle, setExamTitle] = useState('');
+  const [data, setData] = useState<ExamGradingData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<GradingView>('question');
+  const [selectedQuestionId, setSelectedQuestionId] = useState<string | null>(null);
+  const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Map<string, GradeDraft>>(new Map());
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [expandedRoughWork, setExpandedRoughWork] = useState<Set<string>>(new Set());
+
+  const loadGradingData = useCallback(async () => {
+    if (!examId) return;
+    try {
+      setLoading(true);
+      const [examResponse, gradingResponse] = await Promise.all([
+        getExamById(examId, { admin: true }),
+        getExamGradingData(examId)
+      ]);
+
+      if (examResponse.success && examResponse.data) {
+        setExamTitle(examResponse.data['Exam Title'] || examResponse.data.examTitle || '');
+      }
+
+      if (!gradingResponse.success || !gradingResponse.data) {
+        setError(gradingResponse.message || gradingResponse.error || 'Failed to load responses');
+        return;
+      }
+
+      const gradingData = gradingResponse.data;
+      const initialDrafts = new Map<string, GradeDraft>();
+      gradingData.attempts.forEach((attempt) => {
+        attempt.answers.forEach((answer) => {
+          initialDrafts.set(draftKey(attempt.attemptId, answer.questionId), {
+            marks: answer.marksAwarded === null ? '' : String(answer.marksAwarded),
+            comment: answer.comment || ''
+          });
+        });
+      });
+
+      setData(gradingData);
+      setDrafts(initialDrafts);
+      setDirty(new Set());
+      setSelectedQuestionId((prev) => prev || gradingData.questions[0]?.questionId || null);
+      setSelectedAttemptId((prev) => prev || gradingData.attempts[0]?.attemptId || null);
+    } catch (err) {
+      setError('Failed to load responses');
+      console.error('Error loading grading data:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [examId]);
+
+  useEffect(() => {
+    loadGradingData();
+  }, [loadGradingData]);
+
+  const questionsById = useMemo(() => {
+    const map = new Map<string, GradingQuestion>();
+    data?.questions.forEach((q) => map.set(q.questionId, q));
+    return map;
+  }, [data]);
+
+  const isGraded = (attemptId: string, questionId: string): boolean => {
+    const draft = drafts.get(draftKey(attemptId, questionId));
+    return !!draft && draft.marks.trim() !== '';
+  };
+
+  const gradedCountForQuestion = (questionId: string): number =>
+    data?.attempts.filter((a) => isGraded(a.attemptId, questionId)).length || 0;
+
+  const gradedCountForAttempt = (attemptId: string): number =>
+    data?.questions.filter((q) => isGraded(attemptId, q.questionId)).length || 0;
+
+  const updateDraft = (attemptId: string, questionId: string, changes: Partial<GradeDraft>) => {
+    const key = draftKey(attemptId, questionId);
+    setDrafts((prev) => {
+      const next = new Map(prev);
+      next.set(key, { marks: '', comment: '', ...prev.get(key), ...changes });
+      return next;
+    });
+    setDirty((prev) => new Set(prev).add(key));
+  };
+
+  const validateMarks = (question: GradingQuestion, marks: string): string | null => {
+    if (marks.trim() === '') return null;
+    const value = Number(marks);
+    if (isNaN(value)) return 'Enter a number';
+    if (value < 0) return 'Marks cannot be negative';
+    if (value > question.marks) return `Max ${question.marks}`;
+    return null;
+  };
+
+  /**
+   * Save the given draft keys, grouped into one request per attempt
+   */
+  const saveDrafts = async (keys: string[], finalizeAttemptId?: string) => {
+    if (!data) return;
+
+    const byAttempt = new Map<string, ManualGrade[]>();
+    for (const key of keys) {
+      const [attemptId, questionId] = key.split('::');
+      const draft = drafts.get(key);
+      const question = questionsById.get(questionId);
+      if (!draft || !question || draft.marks.trim() === '') continue;
+
+      const validationError = validateMarks(question, draft.marks);
+      if (validationError) {
+        toast.error(`Q${question.questionNumber}: ${validationError}`);
+        return;
+      }
+
+      const grades = byAttempt.get(attemptId) || [];
+      grades.push({ questionId, marksAwarded: Number(draft.marks), comment: draft.comment.trim() });
+      byAttempt.set(attemptId, grades);
+    }
+
+    if (finalizeAttemptId && !byAttempt.has(finalizeAttemptId)) {
+      byAttempt.set(finalizeAttemptId, []);
+    }
+
+    if (byAttempt.size === 0) {
+      toast('Nothing to save');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updatedAttempts = new Map<string, Partial<GradingAttempt>>();
+      const savedKeys: string[] = [];
+
+      for (const [attemptId, grades] of Array.from(byAttempt.entries())) {
+        const response = await saveManualGrades(examId!, attemptId, grades, attemptId === finalizeAttemptId);
+        if (!response.success || !response.data) {
+          throw new Error(response.message || response.error || 'Failed to save grades');
+        }
+        updatedAttempts.set(attemptId, {
+          score: response.data.score,
+          gradingStatus: response.data.gradingStatus
+        });
+        grades.forEach((g) => savedKeys.push(draftKey(attemptId, g.questionId)));
+      }
+
+      setData((prev) => prev && {
+        ...prev,
+        attempts: prev.attempts.map((attempt) => {
+          const updates = updatedAttempts.get(attempt.attemptId);
+          return updates ? { ...attempt, ...updates } : attempt;
+        })
+      });
+      setDirty((prev) => {
+        const next = new Set(prev);
+        savedKeys.forEach((key) => next.delete(key));
+        return next;
+      });
+      toast.success(finalizeAttemptId ? 'Grading completed' : 'Grades saved');
+    } catch (err) {
+      console.error('Error saving grades:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save grades');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRoughWork = (key: string) => {
+    setExpandedRoughWork((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderGradeCard = (attempt: GradingAttempt, question: GradingQuestion, heading: React.ReactNode) => {
+    const key = draftKey(attempt.attemptId, question.questionId);
+    const answer = attempt.answers.find((a) => a.questionId === question.questionId);
+    const draft = drafts.get(key) || { marks: '', comment: '' };
+    const marksError = validateMarks(question, draft.marks);
+
+    return (
+      <div key={key} className="border border-gray-200 dark:border-gray-700 rounded-lg p-6 bg-white dark:bg-gray-800">
+        <div className="flex items-start justify-between mb-4 gap-4">
+          <div>{heading}</div>
+          <div className="flex items-center gap-2">
+            {dirty.has(key) && (
+              <span className="text-xs text-yellow-600 dark:text-yellow-400">Unsaved</span>
+            )}
+            {isGraded(attempt.attemptId, question.questionId) && !dirty.has(key) && (
+              <CheckCircle className="w-5 h-5 text-green-600" />
+            )}
+          </div>
+        </div>
+
+        {/* Student Answer */}
+        {answer?.answer ? (
+          <SafeHtml
+            html={answer.answer}
+            level="rich"
+            className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg overflow-x-auto"
+          />
+        ) : (
+          <p className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-500 dark:text-gray-400 italic">
+            Not answered
+          </p>
+        )}
+
+        {/* Rough Work */}
+        {answer?.roughWork && (
+          <div className="mb-4">
+            <button
+              onClick={() => toggleRoughWork(key)}
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 flex items-center gap-1"
+            >
+              {expandedRoughWork.has(key) ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              Rough work
+            </button>
+            {expandedRoughWork.has(key) && (
+              <SafeHtml
+                html={answer.roughWork}
+                level="rich"
+                className="mt-2 p-4 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg overflow-x-auto"
+              />
+            )}
+          </div>
+        )}
+
+        {/* Marks & Comment */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="text-sm font-medium text-gray-600 dark:text-gray-400">
+              Marks (out of {question.marks})
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={question.marks}
+              step={0.5}
+              value={draft.marks}
+              onChange={(e) => updateDraft(attempt.attemptId, question.questionId, { marks: e.target.value })}
+              className={`mt-1 w-full px-3 py-2 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
+                marksError ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+              }`}
+            />
+            {marksError && <p className="text-xs text-red-600 mt-1">{marksError}</p>}
+          </div>
+          <div className="md:col-span-3">
+            <label className="text-sm font-medium text-gray-600 dark:text-gray-400">Comment (visible to student)</label>
+            <textarea
+              rows={2}
+              value={draft.comment}
+              onChange={(e) => updateDraft(attempt.attemptId, question.questionId, { comment: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        <div className="text-center py-12">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            {error || 'Responses not found'}
+          </h3>
+          <button
+            onClick={() => navigate(`/admin/exams/view/${examId}`)}
+            className="mt-4 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+          >
+            Back to Exam
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedQuestion = selectedQuestionId ? questionsById.get(selectedQuestionId) : undefined;
+  const selectedAttempt = data.attempts.find((a) => a.attemptId === selectedAttemptId);
+  const visibleKeys =
+    view === 'question' && selectedQuestion
+      ? data.attempts.map((a) => draftKey(a.attemptId, selectedQuestion.questionId))
+      : view === 'student' && selectedAttempt
+      ? data.questions.map((q) => draftKey(selectedAttempt.attemptId, q.questionId))
+      : [];
+  const visibleDirtyKeys = visibleKeys.filter((key) => dirty.has(key));
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate(`/admin/exams/view/${examId}`)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Grade Responses</h1>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  {examTitle} • {data.attempts.length} submissions • {data.questions.length} manually graded questions
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => saveDrafts(visibleDirtyKeys)}
+                disabled={saving || visibleDirtyKeys.length === 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+              >
+                {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Save Progress
+              </button>
+              {view === 'student' && selectedAttempt && (
+                <button
+                  onClick={() => saveDrafts(visibleDirtyKeys, selectedAttempt.attemptId)}
+                  disabled={saving || gradedCountForAttempt(selectedAttempt.attemptId) < data.questions.length}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+                  title="All questions must have marks before completing"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Complete Grading
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* View Tabs */}
+        <div className="max-w-7xl mx-auto px-6">
+          <div className="flex gap-1 border-b border-gray-200 dark:border-gray-700">
+            {[
+              { id: 'question' as const, label: 'By Question', icon: BookOpen },
+              { id: 'student' as const, label: 'By Student', icon: Users }
+            ].map((tab) => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setView(tab.id)}
+                  className={`px-6 py-3 font-medium text-sm relative transition-colors flex items-center gap-2 ${
+                    view === tab.id
+                      ? 'text-green-600 dark:text-green-400'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {tab.label}
+                  {view === tab.id && (
+                    <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-green-600 dark:bg-green-400" />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        {data.questions.length === 0 || data.attempts.length === 0 ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            <BookOpen className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">
+              {data.questions.length === 0
+                ? 'This exam has no short or long answer questions to grade'
+                : 'No submissions yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Sidebar */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 h-fit space-y-2">
+              {view === 'question'
+                ? data.questions.map((question) => {
+                    const graded = gradedCountForQuestion(question.questionId);
+                    return (
+                      <button
+                        key={question.questionId}
+                        onClick={() => setSelectedQuestionId(question.questionId)}
+                        className={`w-full text-left p-3 rounded-lg transition-colors ${
+                          selectedQuestionId === question.questionId
+                            ? 'bg-green-50 dark:bg-green-900/20 border border-green-500'
+                            : 'hover:bg-gray-50 dark:hover:bg-gray-700 border border-transparent'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-semibold text-gray-900 dark:text-white">Q{question.questionNumber}</span>
+                          <span className="text-xs text-gray-600 dark:text-gray-400">
+                            {graded}/{data.attempts.length} graded
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {question.questionType === 'SHORT_ANSWER' ? 'Short Answer' : 'Long Answer'} • {question.marks} marks
+                        </p>
+                      </button>
+                    );
+                  })
+                : data.attempts.map((attempt) => (
+                    <button
+                      key={attempt.attemptId}
+                      onClick={() => setSelectedAttemptId(attempt.attemptId)}
+                      className={`w-full text-left p-3 rounded-lg transition-colors ${
+                        selectedAttemptId === attempt.attemptId
+                          ? 'bg-green-50 dark:bg-green-900/20 border border-green-500'
+                          : 'hover:bg-gray-50 dark:hover:bg-gray-700 border border-transparent'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900 dark:text-white truncate">
+                          {attempt.studentName || attempt.studentEmail}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${gradingStatusBadge[attempt.gradingStatus]}`}>
+                          {attempt.gradingStatus.replace('_', ' ')}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {gradedCountForAttempt(attempt.attemptId)}/{data.questions.length} graded • Score {attempt.score}/{attempt.totalMarks}
+                      </p>
+                    </button>
+                  ))}
+            </div>
+
+            {/* Main Panel */}
+            <div className="lg:col-span-3 space-y-6">
+              {view === 'question' && selectedQuestion && (
+                <>
+                  <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+                    <div className="flex items-center gap-3 mb-3">
+                      <span className="text-lg font-semibold text-green-600 dark:text-green-400">
+                        Q{selectedQuestion.questionNumber}
+                      </span>
+                      <span className="text-xs text-gray-600 dark:text-gray-400">
+                        {selectedQuestion.marks} marks
+                        {selectedQuestion.wordLimit ? ` • ${selectedQuestion.wordLimit} word limit` : ''}
+                      </span>
+                    </div>
+                    <div
+                      className="prose dark:prose-invert max-w-none text-gray-900 dark:text-white"
+                      dangerouslySetInnerHTML={{ __html: selectedQuestion.questionText }}
+                    />
+                    {selectedQuestion.explanation && (
+                      <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                        <p className="text-sm font-medium text-blue-900 dark:text-blue-300 mb-1">Model answer / explanation:</p>
+                        <p className="text-sm text-blue-800 dark:text-blue-200">{selectedQuestion.explanation}</p>
+                      </div>
+                    )}
+                  </div>
+
+                  {data.attempts.map((attempt) =>
+                    renderGradeCard(
+                      attempt,
+                      selectedQuestion,
+                      <div>
+                        <p className="font-semibold text-gray-900 dark:text-white">{attempt.studentName}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{attempt.studentEmail}</p>
+                      </div>
+                    )
+                  )}
+                </>
+              )}
+
+              {view === 'student' && selectedAttempt && (
+                <>
+                  <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 flex items-center justify-between">
+                    <div>
+                      <p className="text-lg font-semibold text-gray-900 dark:text-white">{selectedAttempt.studentName}</p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{selectedAttempt.studentEmail}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-1 justify-end">
+                        <Clock className="w-4 h-4" />
+                        {selectedAttempt.submittedAt}
+                      </p>
+                      <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                        {selectedAttempt.score}/{selectedAttempt.totalMarks}
+                      </p>
+                    </div>
+                  </div>
+
+                  {data.questions.map((question) =>
+                    renderGradeCard(
+                      selectedAttempt,
+                      question,
+                      <div>
+                        <span className="text-lg font-semibold text-green-600 dark:text-green-400 mr-2">
+                          Q{question.questionNumber}
+                        </span>
+                        <div
+                          className="prose dark:prose-invert max-w-none text-gray-900 dark:text-white mt-2"
+                          dangerouslySetInnerHTML={{ __html: question.questionText }}
+                        />
+                      </div>
+                    )
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamGradingPage;
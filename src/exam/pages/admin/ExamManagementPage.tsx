@@ -16,7 +16,8 @@ import {
   BarChart3,
   Clock,
   CheckCircle,
-  FileText
+  FileText,
+  Library
 } from 'lucide-react';
 import { getAllExams, deleteExam, updateExam, type Exam, type ExamFilters } from '../../services/examApi';
 
@@ -38,7 +39,7 @@ const ExamManagementPage: React.FC = () => {
     try {
       setLoading(true);
       // Simple fetch without filters initially (like Forms Management)
-      const response = await getAllExams();
+      const response = await getAllExams(undefined, { admin: true });
       if (response.success) {
         setExams(response.data || []);
       } else {
@@ -187,6 +188,15 @@ const ExamManagementPage: React.FC = () => {
           <option value="Term 3">Term 3</option>
         </select>
 
+        {/* Question Bank */}
+        <button
+          onClick={() => navigate('/admin/exams/question-bank')}
+          className="px-6 py-2.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <Library className="w-5 h-5" />
+          Question Bank
+        </button>
+
         {/* Create Button */}
         <button
           onClick={() => navigate('/admin/exams/create')}
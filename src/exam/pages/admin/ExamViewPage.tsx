@@ -20,9 +20,17 @@ import {
   XCircle,
   AlertCircle,
   Users,
-  Shield
+  Shield,
+  ClipboardCheck,
+  BarChart3,
+  Accessibility,
+  ShieldAlert,
+  Radio
 } from 'lucide-react';
-import { getExamById, type Exam, formatExamDateTime } from '../../services/examApi';
+import { getExamById, type Exam, formatExamDateTime, isManuallyGraded } from '../../services/examApi';
+import { ACCOMMODATION_TOOL_LABELS } from '../../components/exam-builder/AccommodationsPanel';
+import { describeCorrectAnswer, isStructuredType } from '../../utils/structuredAnswers';
+import ItemAnalysisPanel from '../../components/analytics/ItemAnalysisPanel';
 
 const ExamViewPage: React.FC = () => {
   const navigate = useNavigate();
@@ -31,7 +39,7 @@ const ExamViewPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
-  const [activeSection, setActiveSection] = useState<'overview' | 'questions' | 'settings' | 'password'>('overview');
+  const [activeSection, setActiveSection] = useState<'overview' | 'questions' | 'settings' | 'password' | 'analytics'>('overview');
 
   useEffect(() => {
     if (examId) {
@@ -42,7 +50,7 @@ const ExamViewPage: React.FC = () => {
   const loadExam = async () => {
     try {
       setLoading(true);
-      const response = await getExamById(examId!);
+      const response = await getExamById(examId!, { admin: true });
       if (response.success && response.data) {
         const examData = response.data;
         // Normalize field names
@@ -152,13 +160,42 @@ const ExamViewPage: React.FC = () => {
               </div>
             </div>
 
-            <button
-              onClick={() => navigate(`/admin/exams/edit/${exam.examId}`)}
-              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
-            >
-              <Edit2 className="w-4 h-4" />
-              Edit Exam
-            </button>
+            <div className="flex items-center gap-2">
+              {exam.questions?.some((q) => isManuallyGraded(q)) && (
+                <button
+                  onClick={() => navigate(`/admin/exams/grade/${exam.examId}`)}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+                >
+                  <ClipboardCheck className="w-4 h-4" />
+                  Grade Responses
+                </button>
+              )}
+              {exam.status === 'ACTIVE' && (
+                <button
+                  onClick={() => navigate(`/admin/exams/live/${exam.examId}`)}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+                >
+                  <Radio className="w-4 h-4" />
+                  Live Invigilation
+                </button>
+              )}
+              {exam.settings?.proctoring && (
+                <button
+                  onClick={() => navigate(`/admin/exams/review/${exam.examId}`)}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-800 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+                >
+                  <ShieldAlert className="w-4 h-4" />
+                  Proctoring Review
+                </button>
+              )}
+              <button
+                onClick={() => navigate(`/admin/exams/edit/${exam.examId}`)}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+              >
+                <Edit2 className="w-4 h-4" />
+                Edit Exam
+              </button>
+            </div>
           </div>
         </div>
 
@@ -169,7 +206,8 @@ const ExamViewPage: React.FC = () => {
               { id: 'overview' as const, label: 'Overview', icon: FileText },
               { id: 'questions' as const, label: 'Questions', icon: BookOpen },
               { id: 'settings' as const, label: 'Settings', icon: Settings },
-              { id: 'password' as const, label: 'Password', icon: Lock }
+              { id: 'password' as const, label: 'Password', icon: Lock },
+              { id: 'analytics' as const, label: 'Item Analysis', icon: BarChart3 }
             ].map((section) => {
               const Icon = section.icon;
               return (
@@ -405,6 +443,21 @@ const ExamViewPage: React.FC = () => {
                         </div>
                       )}
 
+                      {/* Answer Key (numeric / fill-in-the-blank / matching / ordering) */}
+                      {isStructuredType(question.questionType) && (
+                        <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+                          <p className="text-sm text-green-900 dark:text-green-300">
+                            <span className="font-medium">Answer Key: </span>
+                            {describeCorrectAnswer(question)}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                            {question.answerConfig?.partialCredit === 'proportional'
+                              ? 'Auto-graded with partial credit'
+                              : 'Auto-graded, all or nothing'}
+                          </p>
+                        </div>
+                      )}
+
                       {/* Explanation */}
                       {question.explanation && (
                         <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
@@ -600,6 +653,63 @@ const ExamViewPage: React.FC = () => {
                 )}
               </div>
             </div>
+
+            {/* Accommodations */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                <Accessibility className="w-5 h-5" />
+                Accommodations
+                <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                  ({exam.settings?.accommodations?.length || 0})
+                </span>
+              </h3>
+              {exam.settings?.accommodations && exam.settings.accommodations.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                      <tr>
+                        <th className="py-2 pr-4">Student</th>
+                        <th className="py-2 pr-4">Duration</th>
+                        <th className="py-2 pr-4">Window</th>
+                        <th className="py-2 pr-4">Extra Tools</th>
+                        <th className="py-2">Note</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {exam.settings.accommodations.map(accommodation => (
+                        <tr key={accommodation.id} className="text-gray-900 dark:text-white">
+                          <td className="py-2 pr-4">
+                            <p>{accommodation.studentName || accommodation.studentEmail}</p>
+                            {accommodation.studentName && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">{accommodation.studentEmail}</p>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {Math.round((exam.duration || 0) * accommodation.durationMultiplier)} min
+                            <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">
+                              (×{accommodation.durationMultiplier})
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">
+                            {accommodation.startDateTime || accommodation.endDateTime
+                              ? `${formatExamDateTime(accommodation.startDateTime || exam.startDateTime)} – ${formatExamDateTime(accommodation.endDateTime || exam.endDateTime)}`
+                              : 'Exam window'}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">
+                            {accommodation.allowedTools.length > 0
+                              ? accommodation.allowedTools.map(tool => ACCOMMODATION_TOOL_LABELS[tool]).join(', ')
+                              : '—'}
+                          </td>
+                          <td className="py-2 text-gray-600 dark:text-gray-400">{accommodation.note || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No accommodations for this exam.</p>
+              )}
+            </div>
           </div>
         )}
 
@@ -662,6 +772,11 @@ const ExamViewPage: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Item Analysis Section */}
+        {activeSection === 'analytics' && exam.examId && (
+          <ItemAnalysisPanel examId={exam.examId} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,447 @@
+/**
+ * Admin Live Invigilation Page
+ * Real-time view of a running exam built on the session heartbeat: who has not started,
+ * who is writing, who has gone quiet, and who has submitted or been disqualified.
+ * Invigilators can give extra time, force a submission, or unlock a single-session lockout.
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  AlertCircle,
+  AlertTriangle,
+  Clock,
+  Lock,
+  Monitor,
+  RefreshCw,
+  Search,
+  Send,
+  Unlock,
+  Users
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getExamById,
+  getLiveInvigilation,
+  extendAttemptTime,
+  forceSubmitAttempt,
+  unlockExamSession,
+  type LiveInvigilation,
+  type LiveStudent,
+  type LiveStudentStatus
+} from '../../services/examApi';
+
+// Twice per exam page heartbeat (one minute), so a missed heartbeat shows up quickly
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const STATUS_LABELS: Record<LiveStudentStatus, string> = {
+  NOT_STARTED: 'Not started',
+  IN_PROGRESS: 'In progress',
+  IDLE: 'Idle',
+  SUBMITTED: 'Submitted',
+  DISQUALIFIED: 'Disqualified'
+};
+
+const statusBadge: Record<LiveStudentStatus, string> = {
+  NOT_STARTED: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  IN_PROGRESS: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  IDLE: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  SUBMITTED: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  DISQUALIFIED: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const STATUS_ORDER: LiveStudentStatus[] = ['IDLE', 'IN_PROGRESS', 'NOT_STARTED', 'DISQUALIFIED', 'SUBMITTED'];
+
+const formatAgo = (time: number | null, now: number) => {
+  if (time === null) return '—';
+  const seconds = Math.max(0, Math.round((now - time) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m ago`;
+};
+
+const LiveInvigilationPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { examId } = useParams<{ examId: string }>();
+  const [examTitle, setExamTitle] = useState('');
+  const [questionCount, setQuestionCount] = useState(0);
+  const [live, setLive] = useState<LiveInvigilation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<LiveStudentStatus | 'ALL'>('ALL');
+  const [search, setSearch] = useState('');
+  const [busyEmail, setBusyEmail] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const refreshTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const loadExam = useCallback(async () => {
+    if (!examId) return;
+    try {
+      const response = await getExamById(examId, { admin: true });
+      if (response.success && response.data) {
+        setExamTitle(response.data['Exam Title'] || response.data.examTitle || '');
+        // Drawn papers differ per student, so there is no common question count to show
+        if (!response.data.settings?.questionDraw?.enabled) {
+          setQuestionCount(response.data.questions?.length || 0);
+        }
+      }
+    } catch (err) {
+      console.error('Error loading exam:', err);
+    }
+  }, [examId]);
+
+  const refresh = useCallback(async (initial: boolean) => {
+    if (!examId) return;
+    try {
+      if (initial) setLoading(true);
+      else setRefreshing(true);
+      const response = await getLiveInvigilation(examId);
+      if (!response.success || !response.data) {
+        if (initial) setError(response.message || response.error || 'Failed to load live data');
+        return;
+      }
+      setLive(response.data);
+      setNow(Date.now());
+      setError(null);
+    } catch (err) {
+      if (initial) setError('Failed to load live data');
+      console.error('Error loading live invigilation data:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [examId]);
+
+  useEffect(() => {
+    if (!examId) return;
+    loadExam();
+    refresh(true);
+    refreshTimerRef.current = setInterval(() => refresh(false), REFRESH_INTERVAL_MS);
+    const clock = setInterval(() => setNow(Date.now()), 5000);
+    return () => {
+      if (refreshTimerRef.current) clearInterval(refreshTimerRef.current);
+      clearInterval(clock);
+    };
+  }, [examId, loadExam, refresh]);
+
+  const runAction = async (student: LiveStudent, action: () => Promise<void>) => {
+    try {
+      setBusyEmail(student.studentEmail);
+      await action();
+      await refresh(false);
+    } catch (err) {
+      toast.error('Action failed');
+      console.error('Error running invigilator action:', err);
+    } finally {
+      setBusyEmail(null);
+    }
+  };
+
+  const handleExtendTime = (student: LiveStudent) => {
+    const input = window.prompt(`Extra minutes for ${student.studentName || student.studentEmail}:`, '10');
+    if (input === null) return;
+    const minutes = parseInt(input, 10);
+    if (!minutes) {
+      toast.error('Enter a whole number of minutes');
+      return;
+    }
+    runAction(student, async () => {
+      const response = await extendAttemptTime(student.attemptId, minutes);
+      if (response.success) {
+        toast.success(`Extra time now ${response.data?.extraMinutes || 0} min. Applied on the student's next heartbeat.`);
+      } else {
+        toast.error(response.message || response.error || 'Failed to extend time');
+      }
+    });
+  };
+
+  const handleForceSubmit = (student: LiveStudent) => {
+    const confirmed = window.confirm(
+      `Force-submit the exam of ${student.studentName || student.studentEmail}? This cannot be undone.`
+    );
+    if (!confirmed) return;
+    runAction(student, async () => {
+      const response = await forceSubmitAttempt(student.attemptId);
+      if (!response.success) {
+        toast.error(response.message || response.error || 'Failed to force submit');
+      } else if (response.data?.pendingOnDevice) {
+        toast.success("Submission requested. The student's exam page will submit on its next heartbeat.");
+      } else {
+        toast.success('Submitted from the answers saved on the server');
+      }
+    });
+  };
+
+  const handleUnlock = (student: LiveStudent) => {
+    const confirmed = window.confirm(
+      `End the current session of ${student.studentName || student.studentEmail}? They can then verify again on any device; saved answers are kept.`
+    );
+    if (!confirmed) return;
+    runAction(student, async () => {
+      const response = await unlockExamSession(examId!, student.studentEmail);
+      if (response.success) {
+        toast.success(response.message || 'Session unlocked');
+      } else {
+        toast.error(response.message || response.error || 'Failed to unlock session');
+      }
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !live) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        <div className="text-center py-12">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{error || 'Live data not found'}</h3>
+          <button
+            onClick={() => navigate(`/admin/exams/view/${examId}`)}
+            className="mt-4 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+          >
+            Back to Exam
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const counts = STATUS_ORDER.reduce<Record<LiveStudentStatus, number>>((acc, status) => {
+    acc[status] = live.students.filter((s) => s.status === status).length;
+    return acc;
+  }, { NOT_STARTED: 0, IN_PROGRESS: 0, IDLE: 0, SUBMITTED: 0, DISQUALIFIED: 0 });
+
+  const query = search.trim().toLowerCase();
+  const visibleStudents = live.students
+    .filter((s) => statusFilter === 'ALL' || s.status === statusFilter)
+    .filter((s) => !query || s.studentEmail.toLowerCase().includes(query) || s.studentName.toLowerCase().includes(query))
+    .sort((a, b) => {
+      // Locked and idle students first - they are the ones needing attention
+      if (a.sessionLocked !== b.sessionLocked) return a.sessionLocked ? -1 : 1;
+      const byStatus = STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+      if (byStatus !== 0) return byStatus;
+      return (a.studentName || a.studentEmail).localeCompare(b.studentName || b.studentEmail);
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate(`/admin/exams/view/${examId}`)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+                  Live Invigilation
+                </h1>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  {examTitle} • {live.students.length} students • updated {formatAgo(new Date(live.generatedAt).getTime(), now)}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => refresh(false)}
+              disabled={refreshing}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        {/* Status Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+          <button
+            onClick={() => setStatusFilter('ALL')}
+            className={`p-4 rounded-lg border text-left transition-colors ${
+              statusFilter === 'ALL'
+                ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
+            }`}
+          >
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{live.students.length}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">All</p>
+          </button>
+          {(['IN_PROGRESS', 'IDLE', 'NOT_STARTED', 'SUBMITTED', 'DISQUALIFIED'] as LiveStudentStatus[]).map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`p-4 rounded-lg border text-left transition-colors ${
+                statusFilter === status
+                  ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
+              }`}
+            >
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{counts[status]}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{STATUS_LABELS[status]}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Student Table */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
+            <div className="relative w-full max-w-sm">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search students"
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              Idle after {Math.round(live.idleThresholdMs / 60000)} min without a heartbeat
+            </p>
+          </div>
+
+          {visibleStudents.length === 0 ? (
+            <div className="text-center py-12">
+              <Users className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600 dark:text-gray-400">No students match</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900/50 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="px-4 py-3">Student</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Last Heartbeat</th>
+                    <th className="px-4 py-3">Answered</th>
+                    <th className="px-4 py-3">Violations</th>
+                    <th className="px-4 py-3">Device</th>
+                    <th className="px-4 py-3 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {visibleStudents.map((student) => {
+                    const running = student.status === 'IN_PROGRESS' || student.status === 'IDLE';
+                    const busy = busyEmail === student.studentEmail;
+                    return (
+                      <tr key={student.studentEmail} className={student.sessionLocked ? 'bg-red-50/50 dark:bg-red-900/10' : ''}>
+                        <td className="px-4 py-3">
+                          <p className="font-medium text-gray-900 dark:text-white">{student.studentName || student.studentEmail}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{student.studentEmail}</p>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex flex-col gap-1 items-start">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusBadge[student.status]}`}>
+                              {STATUS_LABELS[student.status]}
+                            </span>
+                            {student.sessionLocked && (
+                              <span className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1" title={student.lockReason}>
+                                <Lock className="w-3 h-3" />
+                                Locked
+                              </span>
+                            )}
+                            {running && student.extraMinutes > 0 && (
+                              <span className="text-xs text-blue-600 dark:text-blue-400 flex items-center gap-1">
+                                <Clock className="w-3 h-3" />+{student.extraMinutes} min
+                              </span>
+                            )}
+                            {running && student.forceSubmitRequested && (
+                              <span className="text-xs text-amber-600 dark:text-amber-400">Submit requested</span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-gray-700 dark:text-gray-300" title={student.lastHeartbeat}>
+                          {student.sessionActive ? formatAgo(student.lastHeartbeatTime, now) : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                          {student.attemptId ? `${student.answeredCount}${questionCount ? `/${questionCount}` : ''}` : '—'}
+                        </td>
+                        <td className="px-4 py-3">
+                          {student.violationsCount > 0 ? (
+                            <span className="flex items-center gap-1 text-red-600 dark:text-red-400 font-medium">
+                              <AlertTriangle className="w-4 h-4" />
+                              {student.violationsCount}
+                            </span>
+                          ) : (
+                            <span className="text-gray-500 dark:text-gray-400">0</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                          {student.device ? (
+                            <div className="flex items-start gap-1">
+                              <Monitor className="w-4 h-4 text-gray-400 flex-shrink-0 mt-0.5" />
+                              <div>
+                                <p>
+                                  {student.device.deviceType} • {student.device.os} • {student.device.browser}
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                  {[student.device.ipAddress, student.device.city, student.device.country].filter(Boolean).join(' • ')}
+                                </p>
+                              </div>
+                            </div>
+                          ) : (
+                            '—'
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center justify-end gap-1">
+                            {running && (
+                              <>
+                                <button
+                                  onClick={() => handleExtendTime(student)}
+                                  disabled={busy}
+                                  className="p-1.5 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded disabled:opacity-50"
+                                  title="Extend time"
+                                >
+                                  <Clock className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleForceSubmit(student)}
+                                  disabled={busy}
+                                  className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-50"
+                                  title="Force submit"
+                                >
+                                  <Send className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                            {student.sessionActive && (student.sessionLocked || running) && (
+                              <button
+                                onClick={() => handleUnlock(student)}
+                                disabled={busy}
+                                className="p-1.5 text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded disabled:opacity-50"
+                                title="Unlock session (allow another device)"
+                              >
+                                <Unlock className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveInvigilationPage;
@@ -0,0 +1,683 @@
+/**
+ * Admin Proctoring Review Page
+ * Evidence console for invigilators: each attempt's violations are interleaved with the
+ * webcam and screen frames captured around them, every incident can be cleared or confirmed,
+ * and a final integrity verdict can reinstate or disqualify the attempt.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  AlertCircle,
+  AlertTriangle,
+  Camera,
+  CheckCircle,
+  ExternalLink,
+  Loader,
+  Monitor,
+  ShieldAlert,
+  ShieldCheck,
+  Users,
+  X,
+  XCircle
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getExamById,
+  getProctoringReviewList,
+  getAttemptEvidence,
+  saveIncidentReview,
+  saveIntegrityVerdict,
+  type AttemptEvidence,
+  type IncidentReviewStatus,
+  type IntegrityVerdict,
+  type ProctoringFrame,
+  type ProctoringIncident,
+  type ProctoringReviewAttempt
+} from '../../services/examApi';
+
+type TimelineFilter = 'all' | 'incidents' | 'webcam' | 'screen';
+
+type TimelineEntry =
+  | { kind: 'incident'; time: number | null; incident: ProctoringIncident }
+  | { kind: 'frame'; time: number | null; frame: ProctoringFrame };
+
+const VIOLATION_LABELS: Record<string, string> = {
+  tab_switch: 'Tab switch',
+  window_blur: 'Left exam window',
+  fullscreen_exit: 'Exited fullscreen',
+  copy: 'Copy attempt',
+  paste: 'Paste attempt',
+  right_click: 'Right click',
+  screenshot: 'Screenshot attempt',
+  webcam_off: 'Webcam turned off',
+  microphone_off: 'Microphone turned off',
+  screen_share_off: 'Screen sharing stopped'
+};
+
+const severityBadge: Record<string, string> = {
+  HIGH: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  MEDIUM: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  LOW: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+};
+
+const reviewBadge: Record<IncidentReviewStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  CLEARED: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  CONFIRMED: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const statusBadge = (status: string) =>
+  status === 'DISQUALIFIED'
+    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+    : status === 'COMPLETED'
+    ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+    : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300';
+
+const formatTime = (time: number | null) =>
+  time === null ? 'Unknown time' : new Date(time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const ProctoringReviewPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { examId } = useParams<{ examId: string }>();
+  const [examTitle, setExamTitle] = useState('');
+  const [attempts, setAttempts] = useState<ProctoringReviewAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyFlagged, setOnlyFlagged] = useState(true);
+  const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null);
+  const [evidence, setEvidence] = useState<AttemptEvidence | null>(null);
+  const [evidenceLoading, setEvidenceLoading] = useState(false);
+  const [filter, setFilter] = useState<TimelineFilter>('all');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingIncident, setSavingIncident] = useState<string | null>(null);
+  const [verdict, setVerdict] = useState<IntegrityVerdict>('');
+  const [verdictNote, setVerdictNote] = useState('');
+  const [savingVerdict, setSavingVerdict] = useState(false);
+  const [previewFrame, setPreviewFrame] = useState<ProctoringFrame | null>(null);
+
+  const loadAttempts = useCallback(async () => {
+    if (!examId) return;
+    try {
+      setLoading(true);
+      const [examResponse, listResponse] = await Promise.all([
+        getExamById(examId, { admin: true }),
+        getProctoringReviewList(examId)
+      ]);
+
+      if (examResponse.success && examResponse.data) {
+        setExamTitle(examResponse.data['Exam Title'] || examResponse.data.examTitle || '');
+      }
+
+      if (!listResponse.success || !listResponse.data) {
+        setError(listResponse.message || listResponse.error || 'Failed to load attempts');
+        return;
+      }
+
+      const list = listResponse.data;
+      setAttempts(list);
+      setSelectedAttemptId((prev) => prev || list.find((a) => a.violationsCount > 0)?.attemptId || list[0]?.attemptId || null);
+    } catch (err) {
+      setError('Failed to load attempts');
+      console.error('Error loading proctoring review list:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [examId]);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [loadAttempts]);
+
+  useEffect(() => {
+    if (selectedAttemptId) {
+      loadEvidence(selectedAttemptId);
+    }
+  }, [selectedAttemptId]);
+
+  const loadEvidence = async (attemptId: string) => {
+    try {
+      setEvidenceLoading(true);
+      setEvidence(null);
+      const response = await getAttemptEvidence(attemptId);
+      if (!response.success || !response.data) {
+        toast.error(response.message || response.error || 'Failed to load evidence');
+        return;
+      }
+      const data = response.data;
+      setEvidence(data);
+      setNotes(
+        data.incidents.reduce<Record<string, string>>((acc, incident) => {
+          acc[incident.incidentKey] = incident.review?.note || '';
+          return acc;
+        }, {})
+      );
+      setVerdict(data.attempt.verdict);
+      setVerdictNote(data.attempt.verdictNote);
+    } catch (err) {
+      toast.error('Failed to load evidence');
+      console.error('Error loading attempt evidence:', err);
+    } finally {
+      setEvidenceLoading(false);
+    }
+  };
+
+  const timeline = useMemo<TimelineEntry[]>(() => {
+    if (!evidence) return [];
+    const entries: TimelineEntry[] = [
+      ...evidence.incidents.map((incident) => ({ kind: 'incident' as const, time: incident.time, incident })),
+      ...evidence.frames.map((frame) => ({ kind: 'frame' as const, time: frame.time, frame }))
+    ];
+    // Untimed entries sink to the end; incidents sort before frames taken in the same second
+    return entries.sort((a, b) => {
+      if (a.time === null || b.time === null) return a.time === null ? (b.time === null ? 0 : 1) : -1;
+      if (a.time !== b.time) return a.time - b.time;
+      return a.kind === b.kind ? 0 : a.kind === 'incident' ? -1 : 1;
+    });
+  }, [evidence]);
+
+  const visibleTimeline = timeline.filter((entry) => {
+    if (filter === 'incidents') return entry.kind === 'incident';
+    if (filter === 'webcam') return entry.kind === 'incident' || entry.frame.source === 'WEBCAM';
+    if (filter === 'screen') return entry.kind === 'incident' || entry.frame.source === 'SCREEN';
+    return true;
+  });
+
+  const updateAttemptSummary = (attemptId: string, changes: Partial<ProctoringReviewAttempt>) => {
+    setAttempts((prev) => prev.map((a) => (a.attemptId === attemptId ? { ...a, ...changes } : a)));
+  };
+
+  const handleIncidentReview = async (incident: ProctoringIncident, status: IncidentReviewStatus) => {
+    if (!evidence) return;
+    const attemptId = evidence.attempt.attemptId;
+    try {
+      setSavingIncident(incident.incidentKey);
+      const response = await saveIncidentReview(attemptId, incident.incidentKey, status, notes[incident.incidentKey] || '');
+      if (!response.success || !response.data) {
+        toast.error(response.message || response.error || 'Failed to save review');
+        return;
+      }
+
+      const review = response.data;
+      const incidents = evidence.incidents.map((i) => (i.incidentKey === incident.incidentKey ? { ...i, review } : i));
+      setEvidence({ ...evidence, incidents });
+      updateAttemptSummary(attemptId, {
+        clearedCount: incidents.filter((i) => i.review?.status === 'CLEARED').length,
+        confirmedCount: incidents.filter((i) => i.review?.status === 'CONFIRMED').length
+      });
+    } catch (err) {
+      toast.error('Failed to save review');
+      console.error('Error saving incident review:', err);
+    } finally {
+      setSavingIncident(null);
+    }
+  };
+
+  const handleSaveVerdict = async (nextVerdict: IntegrityVerdict) => {
+    if (!evidence) return;
+    if (nextVerdict && !verdictNote.trim()) {
+      toast.error('Add a note explaining the verdict');
+      return;
+    }
+
+    const attempt = evidence.attempt;
+    const pending = evidence.incidents.filter((i) => !i.review || i.review.status === 'PENDING').length;
+    const message =
+      nextVerdict === 'DISQUALIFIED'
+        ? `Disqualify ${attempt.studentName || attempt.studentEmail}? Their result will show as disqualified.`
+        : nextVerdict === 'VALID'
+        ? `Mark this attempt as valid${attempt.originalStatus === 'DISQUALIFIED' ? ' and reinstate it' : ''}?`
+        : `Remove the verdict and restore the original status (${attempt.originalStatus})?`;
+    if (!window.confirm(pending > 0 && nextVerdict ? `${pending} incident(s) are still unreviewed. ${message}` : message)) {
+      return;
+    }
+
+    try {
+      setSavingVerdict(true);
+      const response = await saveIntegrityVerdict(attempt.attemptId, nextVerdict, nextVerdict ? verdictNote.trim() : '');
+      if (!response.success || !response.data) {
+        toast.error(response.message || response.error || 'Failed to save verdict');
+        return;
+      }
+
+      const changes: Partial<ProctoringReviewAttempt> = {
+        status: response.data.status,
+        verdict: response.data.verdict,
+        verdictNote: nextVerdict ? verdictNote.trim() : '',
+        originalStatus: attempt.originalStatus
+      };
+      setEvidence({ ...evidence, attempt: { ...attempt, ...changes } });
+      updateAttemptSummary(attempt.attemptId, changes);
+      setVerdict(response.data.verdict);
+      if (!nextVerdict) setVerdictNote('');
+      toast.success('Verdict saved');
+    } catch (err) {
+      toast.error('Failed to save verdict');
+      console.error('Error saving integrity verdict:', err);
+    } finally {
+      setSavingVerdict(false);
+    }
+  };
+
+  const renderIncident = (incident: ProctoringIncident) => {
+    const status = incident.review?.status || 'PENDING';
+    const saving = savingIncident === incident.incidentKey;
+    return (
+      <div className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  {VIOLATION_LABELS[incident.type] || incident.type}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${severityBadge[incident.severity] || severityBadge.LOW}`}>
+                  {incident.severity}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${reviewBadge[status]}`}>{status}</span>
+              </div>
+              {incident.details && <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{incident.details}</p>}
+              {incident.review && incident.review.status !== 'PENDING' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Reviewed by {incident.review.reviewedBy} • {incident.review.reviewedAt}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-3 flex flex-col md:flex-row gap-2">
+          <input
+            type="text"
+            value={notes[incident.incidentKey] || ''}
+            onChange={(e) => setNotes((prev) => ({ ...prev, [incident.incidentKey]: e.target.value }))}
+            placeholder="Reviewer note (optional)"
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleIncidentReview(incident, 'CLEARED')}
+              disabled={saving}
+              className={`px-3 py-1.5 text-sm rounded-lg font-medium flex items-center gap-1 transition-colors disabled:opacity-50 ${
+                status === 'CLEARED'
+                  ? 'bg-green-600 text-white'
+                  : 'border border-green-600 text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20'
+              }`}
+            >
+              <CheckCircle className="w-4 h-4" />
+              Clear
+            </button>
+            <button
+              onClick={() => handleIncidentReview(incident, 'CONFIRMED')}
+              disabled={saving}
+              className={`px-3 py-1.5 text-sm rounded-lg font-medium flex items-center gap-1 transition-colors disabled:opacity-50 ${
+                status === 'CONFIRMED'
+                  ? 'bg-red-600 text-white'
+                  : 'border border-red-600 text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20'
+              }`}
+            >
+              <XCircle className="w-4 h-4" />
+              Confirm
+            </button>
+            {status !== 'PENDING' && (
+              <button
+                onClick={() => handleIncidentReview(incident, 'PENDING')}
+                disabled={saving}
+                className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+              >
+                Reopen
+              </button>
+            )}
+            {saving && <Loader className="w-4 h-4 animate-spin text-gray-500" />}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderFrame = (frame: ProctoringFrame) => {
+    const Icon = frame.source === 'SCREEN' ? Monitor : Camera;
+    return (
+      <button
+        onClick={() => setPreviewFrame(frame)}
+        className="flex items-center gap-3 p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg hover:border-green-500 transition-colors text-left w-full md:w-auto"
+      >
+        <img
+          src={frame.thumbnailUrl}
+          alt={`${frame.source === 'SCREEN' ? 'Screen' : 'Webcam'} frame`}
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          className="w-40 h-24 object-cover rounded bg-gray-100 dark:bg-gray-700"
+        />
+        <div className="text-sm">
+          <p className="font-medium text-gray-900 dark:text-white flex items-center gap-1">
+            <Icon className="w-4 h-4" />
+            {frame.source === 'SCREEN' ? 'Screen capture' : 'Webcam frame'}
+          </p>
+          {frame.type !== 'PERIODIC' && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">Captured on {frame.type.toLowerCase()}</p>
+          )}
+        </div>
+      </button>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        <div className="text-center py-12">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">{error}</h3>
+          <button
+            onClick={() => navigate(`/admin/exams/view/${examId}`)}
+            className="mt-4 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+          >
+            Back to Exam
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const visibleAttempts = onlyFlagged
+    ? attempts.filter((a) => a.violationsCount > 0 || a.status === 'DISQUALIFIED' || a.verdict)
+    : attempts;
+  const flaggedCount = attempts.filter((a) => a.violationsCount > 0).length;
+  const reviewedAttempt = evidence?.attempt;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate(`/admin/exams/view/${examId}`)}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Proctoring Review</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                {examTitle} • {attempts.length} attempts • {flaggedCount} with violations
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        {attempts.length === 0 ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">No attempts yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Sidebar */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 h-fit space-y-2">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-2 border-b border-gray-200 dark:border-gray-700">
+                <input
+                  type="checkbox"
+                  checked={onlyFlagged}
+                  onChange={(e) => setOnlyFlagged(e.target.checked)}
+                  className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                />
+                Only attempts with violations
+              </label>
+              {visibleAttempts.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 italic py-2">No flagged attempts</p>
+              )}
+              {visibleAttempts.map((attempt) => {
+                const reviewed = (attempt.clearedCount || 0) + (attempt.confirmedCount || 0);
+                return (
+                  <button
+                    key={attempt.attemptId}
+                    onClick={() => setSelectedAttemptId(attempt.attemptId)}
+                    className={`w-full text-left p-3 rounded-lg transition-colors ${
+                      selectedAttemptId === attempt.attemptId
+                        ? 'bg-green-50 dark:bg-green-900/20 border border-green-500'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-700 border border-transparent'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-gray-900 dark:text-white truncate">
+                        {attempt.studentName || attempt.studentEmail}
+                      </span>
+                      {attempt.verdict === 'VALID' && <ShieldCheck className="w-4 h-4 text-green-600 flex-shrink-0" />}
+                      {attempt.verdict === 'DISQUALIFIED' && <ShieldAlert className="w-4 h-4 text-red-600 flex-shrink-0" />}
+                    </div>
+                    <div className="flex items-center justify-between mt-1">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusBadge(attempt.status)}`}>
+                        {attempt.status}
+                      </span>
+                      <span className="text-xs text-gray-600 dark:text-gray-400">
+                        {attempt.violationsCount > 0
+                          ? `${reviewed}/${attempt.violationsCount} reviewed`
+                          : 'No violations'}
+                      </span>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Evidence */}
+            <div className="lg:col-span-3 space-y-6">
+              {evidenceLoading || !reviewedAttempt ? (
+                <div className="flex justify-center items-center py-24">
+                  {evidenceLoading ? (
+                    <Loader className="w-8 h-8 animate-spin text-green-600" />
+                  ) : (
+                    <p className="text-gray-600 dark:text-gray-400">Select an attempt to review</p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  {/* Attempt Summary */}
+                  <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+                    <div className="flex items-start justify-between gap-4 flex-wrap">
+                      <div>
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                          {reviewedAttempt.studentName || reviewedAttempt.studentEmail}
+                        </h2>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{reviewedAttempt.studentEmail}</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                          Score {reviewedAttempt.score}/{reviewedAttempt.totalMarks} ({reviewedAttempt.percentage}%) •{' '}
+                          {evidence.incidents.length} incidents • {evidence.frames.length} frames
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${statusBadge(reviewedAttempt.status)}`}>
+                          {reviewedAttempt.status}
+                        </span>
+                        {reviewedAttempt.screenshotsFolderLink && (
+                          <a
+                            href={reviewedAttempt.screenshotsFolderLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-600 dark:text-blue-400 flex items-center gap-1 hover:underline"
+                          >
+                            Screenshots <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                        {reviewedAttempt.cameraFolderLink && (
+                          <a
+                            href={reviewedAttempt.cameraFolderLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-600 dark:text-blue-400 flex items-center gap-1 hover:underline"
+                          >
+                            Recordings <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Integrity Verdict */}
+                  <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Integrity Verdict</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                      {reviewedAttempt.verdict
+                        ? `${reviewedAttempt.verdict === 'VALID' ? 'Valid' : 'Disqualified'} by ${reviewedAttempt.verdictBy || 'reviewer'}${
+                            reviewedAttempt.verdictAt ? ` on ${reviewedAttempt.verdictAt}` : ''
+                          }. Status before review: ${reviewedAttempt.originalStatus}.`
+                        : reviewedAttempt.status === 'DISQUALIFIED'
+                        ? 'Automatically disqualified for exceeding the violation limit. A verdict of Valid reinstates the attempt.'
+                        : 'No verdict yet. Disqualifying overrides the automatic result.'}
+                    </p>
+                    {reviewedAttempt.status === 'IN_PROGRESS' ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                        A verdict can be recorded once the attempt is submitted.
+                      </p>
+                    ) : (
+                      <>
+                        <textarea
+                          rows={2}
+                          value={verdictNote}
+                          onChange={(e) => setVerdictNote(e.target.value)}
+                          placeholder="Reason for the verdict (required)"
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                        />
+                        <div className="flex items-center gap-2 mt-3 flex-wrap">
+                          <button
+                            onClick={() => handleSaveVerdict('VALID')}
+                            disabled={savingVerdict}
+                            className={`px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors disabled:opacity-50 ${
+                              verdict === 'VALID'
+                                ? 'bg-green-600 text-white'
+                                : 'border border-green-600 text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20'
+                            }`}
+                          >
+                            <ShieldCheck className="w-4 h-4" />
+                            Valid
+                          </button>
+                          <button
+                            onClick={() => handleSaveVerdict('DISQUALIFIED')}
+                            disabled={savingVerdict}
+                            className={`px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors disabled:opacity-50 ${
+                              verdict === 'DISQUALIFIED'
+                                ? 'bg-red-600 text-white'
+                                : 'border border-red-600 text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20'
+                            }`}
+                          >
+                            <ShieldAlert className="w-4 h-4" />
+                            Disqualify
+                          </button>
+                          {reviewedAttempt.verdict && (
+                            <button
+                              onClick={() => handleSaveVerdict('')}
+                              disabled={savingVerdict}
+                              className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+                            >
+                              Remove verdict
+                            </button>
+                          )}
+                          {savingVerdict && <Loader className="w-4 h-4 animate-spin text-gray-500" />}
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  {/* Timeline */}
+                  <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+                    <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Timeline</h3>
+                      <div className="flex gap-1">
+                        {[
+                          { id: 'all' as const, label: 'All' },
+                          { id: 'incidents' as const, label: 'Incidents' },
+                          { id: 'webcam' as const, label: 'Webcam' },
+                          { id: 'screen' as const, label: 'Screen' }
+                        ].map((option) => (
+                          <button
+                            key={option.id}
+                            onClick={() => setFilter(option.id)}
+                            className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                              filter === option.id
+                                ? 'bg-green-600 text-white'
+                                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {visibleTimeline.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 italic">No evidence captured for this attempt</p>
+                    ) : (
+                      <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+                        {visibleTimeline.map((entry) => (
+                          <li
+                            key={entry.kind === 'incident' ? entry.incident.incidentKey : entry.frame.fileId}
+                            className="ml-6"
+                          >
+                            <span
+                              className={`absolute -left-[7px] mt-2 w-3 h-3 rounded-full ${
+                                entry.kind === 'incident' ? 'bg-red-500' : 'bg-gray-400 dark:bg-gray-500'
+                              }`}
+                            />
+                            <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1">{formatTime(entry.time)}</p>
+                            {entry.kind === 'incident' ? renderIncident(entry.incident) : renderFrame(entry.frame)}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Frame Preview */}
+      {previewFrame && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+          onClick={() => setPreviewFrame(null)}
+        >
+          <div className="relative max-w-5xl w-full" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => setPreviewFrame(null)}
+              className="absolute -top-10 right-0 p-2 text-white hover:bg-white/10 rounded-lg"
+            >
+              <X className="w-5 h-5" />
+            </button>
+            <img
+              src={previewFrame.thumbnailUrl.replace('sz=w800', 'sz=w1600')}
+              alt="Proctoring frame"
+              referrerPolicy="no-referrer"
+              className="w-full max-h-[80vh] object-contain rounded-lg bg-black"
+            />
+            <div className="flex items-center justify-between mt-2 text-sm text-white">
+              <span>
+                {previewFrame.source === 'SCREEN' ? 'Screen capture' : 'Webcam frame'} • {formatTime(previewFrame.time)}
+              </span>
+              <a href={previewFrame.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:underline">
+                Open in Drive <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProctoringReviewPage;
@@ -0,0 +1,358 @@
+/**
+ * Admin Question Bank Page
+ * Reusable questions filed by term / domain / subject, with tags and usage statistics
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Search, Edit2, Trash2, Library, Loader2, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  getQuestionBank,
+  saveBankQuestion,
+  deleteBankQuestion,
+  getTermStructureExam,
+  type BankQuestion,
+  type Question
+} from '../../services/examApi';
+import type { TermMapping } from '../../../services/formsApi';
+import QuestionBuilderModal from '../../components/exam-builder/QuestionBuilderModal';
+
+const selectClass = 'px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500';
+
+const QuestionBankPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [terms, setTerms] = useState<string[]>([]);
+  const [termMappings, setTermMappings] = useState<TermMapping[]>([]);
+  const [term, setTerm] = useState('');
+  const [domain, setDomain] = useState('');
+  const [subject, setSubject] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [difficultyFilter, setDifficultyFilter] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<BankQuestion | null>(null);
+  const [questionToDelete, setQuestionToDelete] = useState<BankQuestion | null>(null);
+
+  useEffect(() => {
+    const loadTermStructure = async () => {
+      try {
+        const result = await getTermStructureExam();
+        if (result.success && result.data) {
+          setTerms(result.data.terms || []);
+          setTermMappings(result.data.mappings || []);
+        }
+      } catch (error) {
+        console.error('Error fetching term structure:', error);
+      }
+    };
+    loadTermStructure();
+  }, []);
+
+  useEffect(() => {
+    loadQuestions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [term, domain, subject]);
+
+  const loadQuestions = async () => {
+    try {
+      setLoading(true);
+      const result = await getQuestionBank({ term, domain, subject });
+      if (result.success) {
+        setQuestions(result.data || []);
+      } else {
+        toast.error(result.error || 'Failed to load question bank');
+      }
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+      toast.error('Failed to load question bank');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const domains = useMemo(
+    () => Array.from(new Set(termMappings.filter(m => m.term === term).map(m => m.domain))).sort(),
+    [termMappings, term]
+  );
+  const subjects = useMemo(
+    () => Array.from(new Set(termMappings.filter(m => m.term === term && m.domain === domain).map(m => m.subject))).sort(),
+    [termMappings, term, domain]
+  );
+  const allTags = useMemo(
+    () => Array.from(new Set(questions.flatMap(q => q.tags || []))).sort(),
+    [questions]
+  );
+
+  const stripHtml = (html: string) => {
+    const tmp = document.createElement('DIV');
+    tmp.innerHTML = html;
+    return tmp.textContent || tmp.innerText || '';
+  };
+
+  const filteredQuestions = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return questions.filter(q =>
+      (!tagFilter || (q.tags || []).includes(tagFilter)) &&
+      (!difficultyFilter || q.difficulty === difficultyFilter) &&
+      (!query || stripHtml(q.questionText).toLowerCase().includes(query))
+    );
+  }, [questions, tagFilter, difficultyFilter, searchQuery]);
+
+  const handleNewQuestion = () => {
+    if (!term || !domain || !subject) {
+      toast.error('Select a term, domain and subject to file the new question under');
+      return;
+    }
+    setEditingQuestion(null);
+    setIsModalOpen(true);
+  };
+
+  const handleSaveQuestion = async (question: Question) => {
+    try {
+      const result = await saveBankQuestion({
+        ...question,
+        questionId: undefined,
+        questionNumber: undefined,
+        bankQuestionId: editingQuestion?.bankQuestionId,
+        term: editingQuestion?.term || term,
+        domain: editingQuestion?.domain || domain,
+        subject: editingQuestion?.subject || subject,
+        tags: question.tags || []
+      });
+
+      if (result.success) {
+        toast.success(editingQuestion ? 'Question updated' : 'Question added to bank');
+        loadQuestions();
+      } else {
+        toast.error(result.error || 'Failed to save question');
+      }
+    } catch (error) {
+      console.error('Error saving bank question:', error);
+      toast.error('Failed to save question');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!questionToDelete?.bankQuestionId) return;
+
+    try {
+      const result = await deleteBankQuestion(questionToDelete.bankQuestionId);
+      if (result.success) {
+        setQuestions(questions.filter(q => q.bankQuestionId !== questionToDelete.bankQuestionId));
+        toast.success('Question deleted');
+      } else {
+        toast.error(result.error || 'Failed to delete question');
+      }
+    } catch (error) {
+      console.error('Error deleting bank question:', error);
+      toast.error('Failed to delete question');
+    } finally {
+      setQuestionToDelete(null);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <button
+          onClick={() => navigate('/admin/exams')}
+          className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Exams</span>
+        </button>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+              <Library className="w-8 h-8 text-green-600 dark:text-green-400" />
+              Question Bank
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Reusable questions that can be imported into any exam
+            </p>
+          </div>
+          <button
+            onClick={handleNewQuestion}
+            className="px-6 py-2.5 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            New Question
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <select
+          value={term}
+          onChange={(e) => { setTerm(e.target.value); setDomain(''); setSubject(''); }}
+          className={selectClass}
+        >
+          <option value="">All Terms</option>
+          {terms.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select
+          value={domain}
+          onChange={(e) => { setDomain(e.target.value); setSubject(''); }}
+          disabled={!term}
+          className={selectClass}
+        >
+          <option value="">All Domains</option>
+          {domains.map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+        <select
+          value={subject}
+          onChange={(e) => setSubject(e.target.value)}
+          disabled={!domain}
+          className={selectClass}
+        >
+          <option value="">All Subjects</option>
+          {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className={selectClass}>
+          <option value="">All Tags</option>
+          {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+        <select value={difficultyFilter} onChange={(e) => setDifficultyFilter(e.target.value)} className={selectClass}>
+          <option value="">All Difficulties</option>
+          <option value="Easy">Easy</option>
+          <option value="Medium">Medium</option>
+          <option value="Hard">Hard</option>
+        </select>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Question List */}
+      {loading ? (
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+        </div>
+      ) : filteredQuestions.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-800/50">
+          <p className="text-gray-600 dark:text-gray-400">No questions in the bank for these filters</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredQuestions.map(q => {
+            const percentCorrect = q.usage && q.usage.attempts > 0
+              ? Math.round((q.usage.correct / q.usage.attempts) * 100)
+              : null;
+            return (
+              <div
+                key={q.bankQuestionId}
+                className="flex items-start gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-2 flex-wrap text-xs">
+                    <span className="px-2 py-1 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                      {q.questionType}
+                    </span>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {q.marks} {q.marks === 1 ? 'mark' : 'marks'}
+                    </span>
+                    <span className={`px-2 py-1 rounded-full ${
+                      q.difficulty === 'Easy'
+                        ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                        : q.difficulty === 'Hard'
+                        ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                        : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300'
+                    }`}>
+                      {q.difficulty}
+                    </span>
+                    {(q.tags || []).map(tag => (
+                      <span key={tag} className="px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                        #{tag}
+                      </span>
+                    ))}
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {[q.term, q.domain, q.subject].filter(Boolean).join(' / ')}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-900 dark:text-gray-100 line-clamp-2">{stripHtml(q.questionText)}</p>
+                  <div className="mt-2 flex items-center gap-4 text-xs text-gray-600 dark:text-gray-400">
+                    <span>Used in {q.usage?.examCount || 0} exam{q.usage?.examCount === 1 ? '' : 's'}</span>
+                    <span>{q.usage?.attempts || 0} answer{q.usage?.attempts === 1 ? '' : 's'}</span>
+                    <span>{percentCorrect === null ? 'No results yet' : `${percentCorrect}% correct`}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => { setEditingQuestion(q); setIsModalOpen(true); }}
+                    className="p-2 text-gray-600 dark:text-gray-400 hover:text-green-600 dark:hover:text-green-400 transition-colors"
+                    title="Edit question"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setQuestionToDelete(q)}
+                    className="p-2 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                    title="Delete question"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Question Builder Modal */}
+      <QuestionBuilderModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSave={handleSaveQuestion}
+        editingQuestion={editingQuestion}
+        questionNumber={1}
+      />
+
+      {/* Delete Confirmation Modal */}
+      {questionToDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <div className="flex items-start gap-4 mb-4">
+              <div className="p-2 bg-red-100 dark:bg-red-900/30 rounded-lg">
+                <AlertCircle className="w-6 h-6 text-red-600 dark:text-red-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Delete Bank Question</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Exams that already imported this question keep their copy. This action cannot be undone.
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setQuestionToDelete(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 text-sm font-medium bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+              >
+                Delete Question
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBankPage;
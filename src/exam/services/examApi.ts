@@ -5,6 +5,7 @@
 
 import { auth } from '../../firebase/config';
 import { requestCache } from '../../utils/requestCache';
+import { isQuestionType, isStructuredType, validateAnswerConfig } from '../utils/structuredAnswers';
 
 const EXAM_API_URL = process.env.REACT_APP_EXAM_BACKEND_URL || '';
 
@@ -58,12 +59,75 @@ export interface ExamSettings {
   autoSubmitOnTimeUp: boolean;
   gracePeriod: number;
   proctoring: ProctoringSettings;
+  questionDraw?: QuestionDrawSettings; // Random draw of a per-student paper from the exam's questions
+  accommodations?: StudentAccommodation[]; // Approved per-student overrides
+}
+
+export type AccommodationTool = 'calculator' | 'scientificCalculator' | 'table' | 'spreadsheet' | 'roughWork';
+
+export interface StudentAccommodation {
+  id: string;
+  studentEmail: string;
+  studentName?: string;
+  durationMultiplier: number; // 1.5 = 50% extra time
+  startDateTime?: string; // Own window; empty = exam window
+  endDateTime?: string;
+  allowedTools: AccommodationTool[]; // Enabled on every question, on top of the question's own tools
+  note?: string;
+}
+
+export interface QuestionDrawRule {
+  id: string;
+  difficulty: '' | 'Easy' | 'Medium' | 'Hard'; // '' = any difficulty
+  tag: string; // '' = any tag
+  count: number;
+}
+
+export interface QuestionDrawSettings {
+  enabled: boolean;
+  rules: QuestionDrawRule[];
+}
+
+export type StructuredQuestionType = 'NUMERIC' | 'FILL_BLANK' | 'MATCHING' | 'ORDERING';
+
+// How auto-graded structured questions score partly right answers
+export type PartialCreditMode = 'all_or_nothing' | 'proportional';
+
+export interface NumericAnswerConfig {
+  answer: number;
+  tolerance: number;
+  toleranceType: 'absolute' | 'percent';
+  unit?: string; // e.g. "INR", "kg"
+  unitRequired?: boolean; // Wrong/missing unit = half credit (proportional) or zero
+  partialTolerance?: number; // Wider band (same tolerance type) that earns half credit in proportional mode
+}
+
+export interface FillBlankAnswerConfig {
+  blanks: string[][]; // Accepted answers per blank, in the order of [blank] markers in the question text
+  caseSensitive: boolean;
+}
+
+export interface MatchingAnswerConfig {
+  pairs: Array<{ left: string; right: string }>;
+  distractors: string[]; // Extra right-hand choices that match nothing
+}
+
+export interface OrderingAnswerConfig {
+  items: string[]; // Correct order
+}
+
+export interface QuestionAnswerConfig {
+  partialCredit: PartialCreditMode;
+  numeric?: NumericAnswerConfig;
+  fillBlank?: FillBlankAnswerConfig;
+  matching?: MatchingAnswerConfig;
+  ordering?: OrderingAnswerConfig;
 }
 
 export interface Question {
   questionId?: string;
   questionNumber?: number;
-  questionType: 'MCQ' | 'MCQ_IMAGE' | 'SHORT_ANSWER' | 'LONG_ANSWER';
+  questionType: 'MCQ' | 'MCQ_IMAGE' | 'SHORT_ANSWER' | 'LONG_ANSWER' | StructuredQuestionType;
   questionText: string;
   questionImageUrl?: string;
   optionA?: string;
@@ -93,6 +157,11 @@ export interface Question {
   enableScientificCalculator?: boolean; // Scientific calculator
   enableTable?: boolean; // Simple editable table
   enableSpreadsheet?: boolean; // Excel-like spreadsheet (Handsontable)
+  // NUMERIC / FILL_BLANK / MATCHING / ORDERING answer key and partial credit rule
+  answerConfig?: QuestionAnswerConfig;
+  // Question bank link
+  bankQuestionId?: string; // Set when the question was imported from (or saved to) the question bank
+  tags?: string[];
 }
 
 export interface PasswordConfig {
@@ -154,6 +223,22 @@ export interface ExamFilters {
   search?: string;
 }
 
+/**
+ * Accommodations carry other students' personal data, so the backend returns the full list only
+ * to admin views; everyone else gets at most the signed-in student's own entry
+ */
+export interface ExamFetchOptions {
+  admin?: boolean;
+}
+
+const appendAccommodationScope = (params: URLSearchParams, options: ExamFetchOptions) => {
+  if (options.admin) {
+    params.append('view', 'admin');
+  } else if (auth.currentUser?.email) {
+    params.append('studentEmail', auth.currentUser.email);
+  }
+};
+
 // ============================================================================
 // EXAM MANAGEMENT APIS
 // ============================================================================
@@ -258,7 +343,7 @@ export async function createExam(examData: Partial<Exam>): Promise<any> {
 /**
  * Get all exams with optional filters
  */
-export async function getAllExams(filters?: ExamFilters): Promise<any> {
+export async function getAllExams(filters?: ExamFilters, options: ExamFetchOptions = {}): Promise<any> {
   const params = new URLSearchParams();
   params.append('action', 'getAllExams');
 
@@ -266,6 +351,7 @@ export async function getAllExams(filters?: ExamFilters): Promise<any> {
   if (filters?.examType) params.append('examType', filters.examType);
   if (filters?.term) params.append('term', filters.term);
   if (filters?.search) params.append('search', filters.search);
+  appendAccommodationScope(params, options);
 
   const url = `${EXAM_API_URL}?${params.toString()}`;
 
@@ -284,11 +370,12 @@ export async function getAllExams(filters?: ExamFilters): Promise<any> {
 /**
  * Get a single exam by ID
  */
-export async function getExamById(examId: string): Promise<any> {
+export async function getExamById(examId: string, options: ExamFetchOptions = {}): Promise<any> {
   const params = new URLSearchParams({
     action: 'getExamById',
     examId
   });
+  appendAccommodationScope(params, options);
 
   const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
 
@@ -478,6 +565,137 @@ export async function reorderQuestions(examId: string, questionOrder: string[]):
   return response.json();
 }
 
+// ============================================================================
+// QUESTION BANK APIS
+// ============================================================================
+
+export interface BankQuestion extends Question {
+  term: string;
+  domain: string;
+  subject: string;
+  tags: string[];
+  createdBy?: string;
+  updatedAt?: string;
+  usage?: {
+    examCount: number;
+    attempts: number; // Answers recorded across all exams using this question
+    correct: number;
+  };
+}
+
+export interface QuestionBankFilters {
+  term?: string;
+  domain?: string;
+  subject?: string;
+  tag?: string;
+  difficulty?: string;
+  questionType?: string;
+  search?: string;
+}
+
+/**
+ * Get question bank entries, optionally filtered
+ */
+export async function getQuestionBank(
+  filters: QuestionBankFilters = {}
+): Promise<{ success: boolean; data?: BankQuestion[]; error?: string }> {
+  const params = new URLSearchParams({ action: 'getQuestionBank' });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch question bank');
+  }
+
+  return response.json();
+}
+
+/**
+ * Create or update a bank question (update when bankQuestionId is set)
+ */
+export async function saveBankQuestion(
+  question: Partial<BankQuestion>
+): Promise<{ success: boolean; bankQuestionId?: string; error?: string; message?: string }> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'saveBankQuestion',
+      userEmail: user.email,
+      question
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save bank question');
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a bank question
+ * Exams that already imported it keep their copy
+ */
+export async function deleteBankQuestion(
+  bankQuestionId: string
+): Promise<{ success: boolean; error?: string; message?: string }> {
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'deleteBankQuestion',
+      bankQuestionId
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete bank question');
+  }
+
+  return response.json();
+}
+
+/**
+ * Copy a bank question into an exam's question list
+ * The copy keeps bankQuestionId so results map back to the bank
+ */
+export function bankQuestionToExamQuestion(bankQuestion: BankQuestion, questionNumber: number): Question {
+  const question: Question & Partial<BankQuestion> = {
+    ...bankQuestion,
+    questionId: `Q_${Date.now()}_${questionNumber}`,
+    questionNumber,
+  };
+  delete question.term;
+  delete question.domain;
+  delete question.subject;
+  delete question.createdBy;
+  delete question.updatedAt;
+  delete question.usage;
+  return question;
+}
+
+/**
+ * Questions in the pool that match a draw rule
+ */
+export function matchesDrawRule(question: Question, rule: QuestionDrawRule): boolean {
+  const tag = rule.tag.trim().toLowerCase();
+  return (!rule.difficulty || question.difficulty === rule.difficulty) &&
+    (!tag || (question.tags || []).some(t => t.toLowerCase() === tag));
+}
+
 // ============================================================================
 // PASSWORD MANAGEMENT APIS
 // ============================================================================
@@ -542,17 +760,16 @@ export async function saveStudentPasswords(
 
 /**
  * Check if exam is currently live
+ * @param studentEmail - Use this student's accommodated window, if they have one
  */
-export function isExamLive(exam: Exam): boolean {
+export function isExamLive(exam: Exam, studentEmail?: string): boolean {
   const examAny = exam as any;
   const status = examAny.Status || exam.status;
 
   if (status !== 'ACTIVE') return false;
 
   const now = new Date().getTime();
-  // Backend returns fields with spaces, check both formats
-  const startDateTimeStr = examAny['Start DateTime'] || exam.startDateTime;
-  const endDateTimeStr = examAny['End DateTime'] || exam.endDateTime;
+  const { startDateTime: startDateTimeStr, endDateTime: endDateTimeStr } = getExamWindow(exam, studentEmail);
 
   if (!startDateTimeStr || !endDateTimeStr) return false;
 
@@ -562,18 +779,65 @@ export function isExamLive(exam: Exam): boolean {
   return now >= start && now <= end;
 }
 
+/**
+ * Approved accommodation for a student, if any
+ */
+export function getStudentAccommodation(exam: Exam, studentEmail?: string): StudentAccommodation | null {
+  if (!studentEmail) return null;
+  const email = studentEmail.trim().toLowerCase();
+  return exam.settings?.accommodations?.find(a => a.studentEmail.trim().toLowerCase() === email) || null;
+}
+
+/**
+ * Exam window for a student - an accommodation's own window replaces the exam's
+ */
+export function getExamWindow(exam: Exam, studentEmail?: string): { startDateTime: string; endDateTime: string } {
+  const examAny = exam as any;
+  const accommodation = getStudentAccommodation(exam, studentEmail);
+  // Backend returns fields with spaces, check both formats
+  return {
+    startDateTime: accommodation?.startDateTime || examAny['Start DateTime'] || exam.startDateTime,
+    endDateTime: accommodation?.endDateTime || examAny['End DateTime'] || exam.endDateTime
+  };
+}
+
+/**
+ * Exam duration in minutes for a student, including any extra-time multiplier
+ */
+export function getEffectiveDuration(exam: Exam, studentEmail?: string): number {
+  // Backend returns fields with spaces, check both formats
+  const duration = Number((exam as Exam & { 'Duration (minutes)'?: number })['Duration (minutes)'] || exam.duration) || 60;
+  const multiplier = getStudentAccommodation(exam, studentEmail)?.durationMultiplier || 1;
+  return Math.round(duration * Math.max(1, multiplier));
+}
+
+/**
+ * Enable a student's accommodated tools on a question
+ */
+export function applyAccommodationTools(question: Question, accommodation: StudentAccommodation | null): Question {
+  if (!accommodation || accommodation.allowedTools.length === 0) return question;
+  const tools = accommodation.allowedTools;
+  return {
+    ...question,
+    enableCalculator: question.enableCalculator || tools.includes('calculator'),
+    enableScientificCalculator: question.enableScientificCalculator || tools.includes('scientificCalculator'),
+    enableTable: question.enableTable || tools.includes('table'),
+    enableSpreadsheet: question.enableSpreadsheet || tools.includes('spreadsheet'),
+    enableRoughSpace: question.enableRoughSpace || tools.includes('roughWork')
+  };
+}
+
 /**
  * Check if exam is upcoming
  */
-export function isExamUpcoming(exam: Exam): boolean {
+export function isExamUpcoming(exam: Exam, studentEmail?: string): boolean {
   const examAny = exam as any;
   const status = examAny.Status || exam.status;
 
   if (status !== 'ACTIVE') return false;
 
   const now = new Date().getTime();
-  // Backend returns fields with spaces, check both formats
-  const startDateTimeStr = examAny['Start DateTime'] || exam.startDateTime;
+  const startDateTimeStr = getExamWindow(exam, studentEmail).startDateTime;
 
   if (!startDateTimeStr) return false;
 
@@ -585,10 +849,8 @@ export function isExamUpcoming(exam: Exam): boolean {
 /**
  * Get time remaining until exam starts
  */
-export function getTimeUntilStart(exam: Exam): string {
-  const examAny = exam as any;
-  // Backend returns fields with spaces, check both formats
-  const startDateTimeStr = examAny['Start DateTime'] || exam.startDateTime;
+export function getTimeUntilStart(exam: Exam, studentEmail?: string): string {
+  const startDateTimeStr = getExamWindow(exam, studentEmail).startDateTime;
 
   if (!startDateTimeStr) return 'Unknown';
 
@@ -622,6 +884,48 @@ export function formatExamDateTime(dateTimeString: string): string {
   });
 }
 
+/**
+ * Validate a single question (same rules as QuestionBuilderModal)
+ */
+export function validateQuestion(question: Partial<Question>): string[] {
+  const errors: string[] = [];
+  const plainText = (question.questionText || '').replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+
+  if (!isQuestionType(question.questionType)) {
+    errors.push(`Unknown question type "${question.questionType || ''}"`);
+  }
+  if (!plainText && !question.questionImageUrl) errors.push('Question text is required');
+  if (!question.marks || question.marks <= 0) errors.push('Marks must be greater than 0');
+  if ((question.negativeMarks || 0) < 0) errors.push('Negative marks cannot be below 0');
+  if (question.difficulty && !['Easy', 'Medium', 'Hard'].includes(question.difficulty)) {
+    errors.push('Difficulty must be Easy, Medium or Hard');
+  }
+
+  if (question.questionType === 'MCQ' || question.questionType === 'MCQ_IMAGE') {
+    const optionText = (letter: string) => ((question[`option${letter}` as keyof Question] as string) || '').trim();
+    if (!optionText('A') || !optionText('B')) {
+      errors.push('At least options A and B are required');
+    }
+    const answers = (question.correctAnswer || '').split(',').map(a => a.trim().toUpperCase()).filter(Boolean);
+    if (answers.length === 0) {
+      errors.push('Correct answer is required');
+    } else if (!question.hasMultipleAnswers && answers.length > 1) {
+      errors.push('Multiple correct answers given but hasMultipleAnswers is not set');
+    }
+    answers.forEach(answer => {
+      if (!/^[A-J]$/.test(answer) || !optionText(answer)) {
+        errors.push(`Correct answer ${answer} has no matching option`);
+      }
+    });
+  }
+
+  if (isStructuredType(question.questionType)) {
+    errors.push(...validateAnswerConfig(question));
+  }
+
+  return errors;
+}
+
 /**
  * Validate exam before publishing
  */
@@ -658,6 +962,45 @@ export function validateExam(exam: Partial<Exam>): { valid: boolean; errors: str
   if (!exam.questions || exam.questions.length === 0) {
     errors.push('At least one question is required');
   }
+  (exam.questions || []).forEach((question, index) => {
+    validateQuestion(question).forEach(error => errors.push(`Question ${index + 1}: ${error}`));
+  });
+
+  // Random draw validation
+  const draw = exam.settings?.questionDraw;
+  if (draw?.enabled) {
+    const pool = exam.questions || [];
+    const activeRules = draw.rules.filter(rule => rule.count > 0);
+    if (activeRules.length === 0) {
+      errors.push('Random draw needs at least one rule with a question count');
+    }
+    activeRules.forEach((rule, index) => {
+      const available = pool.filter(q => matchesDrawRule(q, rule)).length;
+      if (available < rule.count) {
+        errors.push(`Draw rule ${index + 1} needs ${rule.count} questions but only ${available} match`);
+      }
+    });
+    const totalDrawn = activeRules.reduce((sum, rule) => sum + rule.count, 0);
+    if (totalDrawn > pool.length) {
+      errors.push(`Draw rules pick ${totalDrawn} questions but the exam only has ${pool.length}`);
+    }
+  }
+
+  // Accommodation validation
+  const seenEmails = new Set<string>();
+  (exam.settings?.accommodations || []).forEach((accommodation, index) => {
+    const email = accommodation.studentEmail.trim().toLowerCase();
+    if (!email) errors.push(`Accommodation ${index + 1}: student email is required`);
+    if (email && seenEmails.has(email)) errors.push(`Accommodation ${index + 1}: ${email} already has an accommodation`);
+    seenEmails.add(email);
+    if (!accommodation.durationMultiplier || accommodation.durationMultiplier < 1) {
+      errors.push(`Accommodation ${index + 1}: time multiplier must be at least 1`);
+    }
+    if (accommodation.startDateTime && accommodation.endDateTime &&
+        new Date(accommodation.startDateTime).getTime() >= new Date(accommodation.endDateTime).getTime()) {
+      errors.push(`Accommodation ${index + 1}: window start must be before its end`);
+    }
+  });
 
   // Password validation (skip for practice exams)
   const isPractice = (exam as any).isPractice === true;
@@ -728,7 +1071,9 @@ export interface ExamAttemptResponse {
   screenUploadUris?: string[];
   // For resumed attempts
   resumed?: boolean;
-  savedAnswers?: Array<{ questionId: string; answer: string; submitted: boolean }>;
+  savedAnswers?: Array<{ questionId: string; answer: string; submitted: boolean; version?: number }>;
+  // Drawn paper when the exam uses random draw rules (null = all questions)
+  assignedQuestionIds?: string[] | null;
   // Error cases
   alreadySubmitted?: boolean;
   status?: string;
@@ -739,7 +1084,8 @@ export interface ExamAttemptResponse {
     attemptId?: string;
     startTime?: string;
     resumed?: boolean;
-    savedAnswers?: Array<{ questionId: string; answer: string; submitted: boolean }>;
+    savedAnswers?: Array<{ questionId: string; answer: string; submitted: boolean; version?: number }>;
+    assignedQuestionIds?: string[] | null;
     webcamUploadUris?: string[];
     screenUploadUris?: string[];
   };
@@ -782,13 +1128,15 @@ export async function startExamAttempt(examId: string, studentName: string): Pro
  * @param questionId - The question ID
  * @param answer - The student's answer
  * @param submitted - Whether the answer is submitted (final) or just saved as progress (default: false)
+ * @param clientVersion - Version from the offline answer queue; the backend ignores saves older than the stored one
  */
 export async function saveAnswer(
   attemptId: string,
   examId: string,
   questionId: string,
   answer: string,
-  submitted: boolean = false
+  submitted: boolean = false,
+  clientVersion?: number
 ): Promise<any> {
   const response = await fetch(EXAM_API_URL, {
     method: 'POST',
@@ -801,7 +1149,8 @@ export async function saveAnswer(
       examId,
       questionId,
       answer,
-      submitted
+      submitted,
+      clientVersion
     })
   });
 
@@ -812,6 +1161,27 @@ export async function saveAnswer(
   return response.json();
 }
 
+/**
+ * Get the saved version of every answer in an attempt (questionId -> version)
+ * Lets the offline queue confirm saves whose response never arrived
+ */
+export async function getAnswerVersions(
+  attemptId: string
+): Promise<{ success: boolean; data?: Record<string, number>; error?: string }> {
+  const params = new URLSearchParams({
+    action: 'getAnswerVersions',
+    attemptId
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch answer versions');
+  }
+
+  return response.json();
+}
+
 /**
  * Log proctoring violation
  */
@@ -1118,7 +1488,7 @@ export async function requestMoreUploadUris(
 export async function submitExam(
   attemptId: string,
   examId: string,
-  answers: Array<{ questionId: string; answer: string; flagged: boolean; submitted: boolean }>,
+  answers: Array<{ questionId: string; answer: string; flagged: boolean; submitted: boolean; timeSpent?: number }>,
   violations: any[],
   timeSpent: number
 ): Promise<any> {
@@ -1227,51 +1597,104 @@ export async function getStudentExamStatus(examId: string): Promise<any> {
 }
 
 // ============================================================================
-// EXAM SESSION MANAGEMENT APIs
+// MANUAL GRADING APIS
 // ============================================================================
 
-export interface SessionDeviceInfo {
-  deviceType: string;
-  os: string;
-  browser: string;
-  browserVersion: string;
-  userAgent: string;
-  screenResolution: string;
-  deviceHash: string;
-  ipAddress: string;
-  latitude: number | null;
-  longitude: number | null;
-  city: string | null;
-  country: string | null;
+/**
+ * Question types that are scored by faculty instead of auto-graded on submit
+ */
+export const MANUAL_GRADED_QUESTION_TYPES: Question['questionType'][] = ['SHORT_ANSWER', 'LONG_ANSWER'];
+
+/**
+ * Check whether a question needs manual grading
+ */
+export function isManuallyGraded(question: Pick<Question, 'questionType'>): boolean {
+  return MANUAL_GRADED_QUESTION_TYPES.includes(question.questionType);
 }
 
-export interface CreateSessionResponse {
-  success: boolean;
-  sessionToken?: string;
-  expiresAt?: string;
-  blocked?: boolean;
-  blockedReason?: string;
-  message?: string;
+export type GradingStatus = 'PENDING' | 'IN_PROGRESS' | 'GRADED';
+
+export interface GradingQuestion {
+  questionId: string;
+  questionNumber: number;
+  questionType: Question['questionType'];
+  questionText: string;
+  marks: number;
+  wordLimit?: number | null;
+  explanation?: string;
 }
 
-export interface ValidateSessionResponse {
-  success: boolean;
-  valid?: boolean;
-  expired?: boolean;
-  invalidDevice?: boolean;
-  sessionNotFound?: boolean;
-  message?: string;
+export interface GradingAnswer {
+  questionId: string;
+  answer: string; // Rich-text HTML, including inserted table/spreadsheet/drawing output
+  roughWork?: string;
+  marksAwarded: number | null; // null until a grader scores it
+  comment: string;
+  graded: boolean;
+  gradedBy?: string;
+  gradedAt?: string;
+}
+
+export interface GradingAttempt {
+  attemptId: string;
+  studentEmail: string;
+  studentName: string;
+  status: 'COMPLETED' | 'DISQUALIFIED';
+  submittedAt: string;
+  score: number;
+  totalMarks: number;
+  gradingStatus: GradingStatus;
+  answers: GradingAnswer[];
+}
+
+export interface ExamGradingData {
+  examId: string;
+  questions: GradingQuestion[];
+  attempts: GradingAttempt[];
+}
+
+export interface ManualGrade {
+  questionId: string;
+  marksAwarded: number;
+  comment?: string;
 }
 
 /**
- * Create exam session after password verification
- * This logs the session to Exam_Verify sheet and returns a session token
+ * Get manually graded questions and all submitted attempts for an exam
  */
-export async function createExamSession(
+export async function getExamGradingData(
+  examId: string
+): Promise<{ success: boolean; data?: ExamGradingData; error?: string; message?: string }> {
+  const params = new URLSearchParams({
+    action: 'getExamGradingData',
+    examId
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch grading data');
+  }
+
+  return response.json();
+}
+
+/**
+ * Save manual grades for an attempt
+ * Backend recomputes the attempt total, so getExamResult reflects the new score
+ * @param finalize - Mark the attempt as fully graded (otherwise saved as in-progress)
+ */
+export async function saveManualGrades(
   examId: string,
-  password: string,
-  deviceInfo: SessionDeviceInfo
-): Promise<CreateSessionResponse> {
+  attemptId: string,
+  grades: ManualGrade[],
+  finalize: boolean = false
+): Promise<{
+  success: boolean;
+  data?: { score: number; totalMarks: number; percentage: number; gradingStatus: GradingStatus };
+  error?: string;
+  message?: string;
+}> {
   const user = auth.currentUser;
   if (!user?.email) {
     throw new Error('User not authenticated');
@@ -1283,36 +1706,543 @@ export async function createExamSession(
       'Content-Type': 'text/plain',
     },
     body: JSON.stringify({
-      action: 'createExamSession',
+      action: 'saveManualGrades',
+      userEmail: user.email,
       examId,
-      password,
-      studentEmail: user.email,
-      studentName: user.displayName || user.email,
-      deviceInfo
+      attemptId,
+      grades,
+      finalize
     })
   });
 
   if (!response.ok) {
-    throw new Error('Failed to create exam session');
+    throw new Error('Failed to save grades');
   }
 
   return response.json();
 }
 
-/**
- * Validate exam session before allowing access to consent/attempt pages
- * Checks if session exists, is active, and device hash matches
- */
-export async function validateExamSession(
-  examId: string,
-  sessionToken: string,
-  deviceHash: string
-): Promise<ValidateSessionResponse> {
-  const user = auth.currentUser;
-  if (!user?.email) {
-    throw new Error('User not authenticated');
-  }
-
+// ============================================================================
+// GRADEBOOK APIS
+// ============================================================================
+
+export interface GradebookExam {
+  examId: string;
+  examTitle: string;
+  examType: string;
+  term: string;
+  totalMarks: number;
+}
+
+export interface GradebookExamAttempt {
+  score: number;
+  totalMarks: number;
+  studentName: string;
+  gradingStatus: GradingStatus;
+}
+
+export interface SubjectExamScores {
+  exams: GradebookExam[];
+  scores: Record<string, Record<string, GradebookExamAttempt>>; // examId -> lowercased email -> best attempt
+}
+
+export interface StudentExamScore extends GradebookExam {
+  batch: string;
+  subject: string;
+  score: number | null; // null when the exam's result is withheld
+  gradingStatus: GradingStatus;
+  withheld: boolean;
+}
+
+/**
+ * Get best submitted score per student for every graded exam of a subject
+ */
+export async function getSubjectExamScores(
+  batch: string,
+  term: string,
+  subject: string
+): Promise<{ success: boolean; data?: SubjectExamScores; error?: string; message?: string }> {
+  const params = new URLSearchParams({
+    action: 'getSubjectExamScores',
+    batch,
+    term,
+    subject
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch exam scores');
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the current student's best score on every graded exam
+ */
+export async function getStudentExamScores(): Promise<{
+  success: boolean;
+  data?: StudentExamScore[];
+  error?: string;
+  message?: string;
+}> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const params = new URLSearchParams({
+    action: 'getStudentExamScores',
+    studentEmail: user.email
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch exam scores');
+  }
+
+  return response.json();
+}
+
+// ============================================================================
+// ITEM ANALYSIS APIS
+// ============================================================================
+
+export interface ItemResponseQuestion {
+  questionId: string;
+  questionNumber: number;
+  questionType: Question['questionType'];
+  questionText: string;
+  correctAnswer: string;
+  hasMultipleAnswers: boolean;
+  marks: number;
+  options: Record<string, string>; // Option letter -> text (MCQ types only)
+  bankQuestionId?: string;
+  answerConfig?: QuestionAnswerConfig | null;
+  regradeMode?: '' | 'FULL_MARKS' | 'DROPPED';
+}
+
+export interface ItemResponseAnswer {
+  questionId: string;
+  answer: string;
+  marksAwarded: number;
+  timeSpent: number | null; // Seconds on the question; null for attempts submitted before timing was recorded
+}
+
+export interface ItemResponseAttempt {
+  attemptId: string;
+  studentName: string;
+  score: number;
+  totalMarks: number;
+  timeSpent: number; // Seconds for the whole attempt
+  assignedQuestionIds: string[] | null; // Drawn papers only
+  answers: ItemResponseAnswer[];
+}
+
+export interface ExamItemResponses {
+  examId: string;
+  questions: ItemResponseQuestion[];
+  attempts: ItemResponseAttempt[];
+}
+
+/**
+ * Get every question and the per-question responses of all completed attempts (for item analysis)
+ */
+export async function getExamItemResponses(
+  examId: string
+): Promise<{ success: boolean; data?: ExamItemResponses; error?: string; message?: string }> {
+  const params = new URLSearchParams({
+    action: 'getExamItemResponses',
+    examId
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch item responses');
+  }
+
+  return response.json();
+}
+
+// ============================================================================
+// REGRADE APIS
+// ============================================================================
+
+export type RegradeMode = 'CHANGE_KEY' | 'FULL_MARKS' | 'DROP';
+
+export interface RegradeKeyChange {
+  correctAnswer: string; // Option letters for MCQ, readable key for structured types
+  hasMultipleAnswers?: boolean;
+  answerConfig?: QuestionAnswerConfig;
+}
+
+export interface RegradeLogEntry {
+  regradeId: string;
+  questionId: string;
+  questionNumber: number;
+  attemptId: string; // Empty when nobody had submitted yet
+  studentEmail: string;
+  mode: RegradeMode;
+  oldKey: string;
+  newKey: string;
+  oldMarks: number | null;
+  newMarks: number | null;
+  oldScore: number | null;
+  newScore: number | null;
+  totalMarks: number | null;
+  reason: string;
+  regradedBy: string;
+  regradedAt: string;
+}
+
+/**
+ * Student-facing summary of a regrade, included in getExamResult
+ */
+export interface ResultRegradeNotice {
+  questionId: string;
+  questionNumber: number;
+  mode: RegradeMode;
+  reason: string;
+  oldMarks: number | null;
+  newMarks: number | null;
+  regradedAt: string;
+}
+
+/**
+ * Regrade a question for every submitted attempt
+ * Backend rescores all attempts and writes one audit row per attempt to Exam_Regrade_Log
+ * @param change - New answer key (CHANGE_KEY only)
+ */
+export async function regradeQuestion(
+  examId: string,
+  questionId: string,
+  mode: RegradeMode,
+  reason: string,
+  change?: RegradeKeyChange
+): Promise<{
+  success: boolean;
+  data?: { regradeId: string; affectedAttempts: number; changedAttempts: number };
+  error?: string;
+  message?: string;
+}> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'regradeQuestion',
+      userEmail: user.email,
+      examId,
+      questionId,
+      mode,
+      reason,
+      change
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to regrade question');
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the regrade audit trail for an exam
+ */
+export async function getRegradeLog(
+  examId: string
+): Promise<{ success: boolean; data?: RegradeLogEntry[]; error?: string; message?: string }> {
+  const params = new URLSearchParams({
+    action: 'getRegradeLog',
+    examId
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch regrade log');
+  }
+
+  return response.json();
+}
+
+// ============================================================================
+// PROCTORING REVIEW APIs
+// ============================================================================
+
+export type IncidentReviewStatus = 'PENDING' | 'CLEARED' | 'CONFIRMED';
+export type IntegrityVerdict = '' | 'VALID' | 'DISQUALIFIED';
+
+export interface ProctoringReviewAttempt {
+  attemptId: string;
+  examId: string;
+  studentEmail: string;
+  studentName: string;
+  status: string;
+  startTime: string;
+  endTime: string;
+  score: number;
+  totalMarks: number;
+  percentage: number;
+  violationsCount: number;
+  screenshotsFolderLink: string;
+  cameraFolderLink: string;
+  verdict: IntegrityVerdict;
+  verdictNote: string;
+  verdictBy: string;
+  verdictAt: string;
+  originalStatus: string; // Status before the first verdict (auto-disqualification result)
+  clearedCount?: number;
+  confirmedCount?: number;
+}
+
+export interface IncidentReview {
+  status: IncidentReviewStatus;
+  note: string;
+  reviewedBy: string;
+  reviewedAt: string;
+}
+
+export interface ProctoringIncident {
+  incidentKey: string;
+  type: string;
+  details: string;
+  severity: 'LOW' | 'MEDIUM' | 'HIGH';
+  timestamp: string;
+  time: number | null; // Epoch ms
+  review: IncidentReview | null;
+}
+
+export interface ProctoringFrame {
+  fileId: string;
+  name: string;
+  source: 'WEBCAM' | 'SCREEN';
+  type: string; // PERIODIC or the capture trigger (e.g. VIOLATION)
+  url: string;
+  thumbnailUrl: string;
+  time: number | null; // Epoch ms
+}
+
+export interface AttemptEvidence {
+  attempt: ProctoringReviewAttempt;
+  incidents: ProctoringIncident[];
+  frames: ProctoringFrame[];
+}
+
+/**
+ * Get every attempt of an exam with its violation count, reviewed incidents and verdict
+ */
+export async function getProctoringReviewList(
+  examId: string
+): Promise<{ success: boolean; data?: ProctoringReviewAttempt[]; error?: string; message?: string }> {
+  const params = new URLSearchParams({
+    action: 'getProctoringReviewList',
+    examId
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch proctoring review list');
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the violations and captured webcam/screen frames of one attempt
+ */
+export async function getAttemptEvidence(
+  attemptId: string
+): Promise<{ success: boolean; data?: AttemptEvidence; error?: string; message?: string }> {
+  const params = new URLSearchParams({
+    action: 'getAttemptEvidence',
+    attemptId
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch attempt evidence');
+  }
+
+  return response.json();
+}
+
+/**
+ * Mark a proctoring incident as cleared or confirmed (PENDING reopens it)
+ */
+export async function saveIncidentReview(
+  attemptId: string,
+  incidentKey: string,
+  status: IncidentReviewStatus,
+  note: string
+): Promise<{ success: boolean; data?: IncidentReview; error?: string; message?: string }> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'saveIncidentReview',
+      userEmail: user.email,
+      attemptId,
+      incidentKey,
+      status,
+      note
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save incident review');
+  }
+
+  return response.json();
+}
+
+/**
+ * Record the final integrity verdict of an attempt
+ * VALID reinstates an auto-disqualified attempt, DISQUALIFIED disqualifies it,
+ * and an empty verdict restores the original status
+ */
+export async function saveIntegrityVerdict(
+  attemptId: string,
+  verdict: IntegrityVerdict,
+  note: string
+): Promise<{
+  success: boolean;
+  data?: { status: string; verdict: IntegrityVerdict };
+  error?: string;
+  message?: string;
+}> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'saveIntegrityVerdict',
+      userEmail: user.email,
+      attemptId,
+      verdict,
+      note
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save integrity verdict');
+  }
+
+  return response.json();
+}
+
+// ============================================================================
+// EXAM SESSION MANAGEMENT APIs
+// ============================================================================
+
+export interface SessionDeviceInfo {
+  deviceType: string;
+  os: string;
+  browser: string;
+  browserVersion: string;
+  userAgent: string;
+  screenResolution: string;
+  deviceHash: string;
+  ipAddress: string;
+  latitude: number | null;
+  longitude: number | null;
+  city: string | null;
+  country: string | null;
+}
+
+export interface CreateSessionResponse {
+  success: boolean;
+  sessionToken?: string;
+  expiresAt?: string;
+  blocked?: boolean;
+  blockedReason?: string;
+  message?: string;
+}
+
+export interface ValidateSessionResponse {
+  success: boolean;
+  valid?: boolean;
+  expired?: boolean;
+  invalidDevice?: boolean;
+  sessionNotFound?: boolean;
+  message?: string;
+}
+
+/**
+ * Create exam session after password verification
+ * This logs the session to Exam_Verify sheet and returns a session token
+ */
+export async function createExamSession(
+  examId: string,
+  password: string,
+  deviceInfo: SessionDeviceInfo
+): Promise<CreateSessionResponse> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'createExamSession',
+      examId,
+      password,
+      studentEmail: user.email,
+      studentName: user.displayName || user.email,
+      deviceInfo
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to create exam session');
+  }
+
+  return response.json();
+}
+
+/**
+ * Validate exam session before allowing access to consent/attempt pages
+ * Checks if session exists, is active, and device hash matches
+ */
+export async function validateExamSession(
+  examId: string,
+  sessionToken: string,
+  deviceHash: string
+): Promise<ValidateSessionResponse> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
   const params = new URLSearchParams({
     action: 'validateExamSession',
     examId,
@@ -1332,12 +2262,13 @@ export async function validateExamSession(
 
 /**
  * Update session activity timestamp
- * Called periodically during exam to prevent session timeout
+ * Called periodically during exam to prevent session timeout. The response carries the
+ * invigilator's commands for the running attempt (total extra minutes granted, force submit).
  */
 export async function updateSessionActivity(
   examId: string,
   sessionToken: string
-): Promise<{ success: boolean }> {
+): Promise<{ success: boolean; extraMinutes?: number; forceSubmit?: boolean }> {
   const user = auth.currentUser;
   if (!user?.email) {
     throw new Error('User not authenticated');
@@ -1395,3 +2326,164 @@ export async function endExamSession(
 
   return response.json();
 }
+
+// ============================================================================
+// LIVE INVIGILATION APIs
+// ============================================================================
+
+export type LiveStudentStatus = 'NOT_STARTED' | 'IN_PROGRESS' | 'IDLE' | 'SUBMITTED' | 'DISQUALIFIED';
+
+export interface LiveStudentDevice {
+  deviceType: string;
+  os: string;
+  browser: string;
+  browserVersion: string;
+  ipAddress: string;
+  city: string;
+  country: string;
+}
+
+export interface LiveStudent {
+  studentEmail: string;
+  studentName: string;
+  status: LiveStudentStatus;
+  attemptId: string;
+  startTime: string;
+  lastHeartbeat: string;
+  lastHeartbeatTime: number | null; // Epoch ms
+  sessionActive: boolean;
+  sessionLocked: boolean; // Another device tried to log in while single-session login holds this one
+  lockReason: string;
+  answeredCount: number;
+  violationsCount: number;
+  extraMinutes: number;
+  forceSubmitRequested: boolean;
+  device: LiveStudentDevice | null;
+}
+
+export interface LiveInvigilation {
+  generatedAt: string;
+  idleThresholdMs: number;
+  students: LiveStudent[];
+}
+
+/**
+ * Get the live state of every student of a running exam
+ */
+export async function getLiveInvigilation(
+  examId: string
+): Promise<{ success: boolean; data?: LiveInvigilation; error?: string; message?: string }> {
+  const params = new URLSearchParams({
+    action: 'getLiveInvigilation',
+    examId
+  });
+
+  const response = await fetch(`${EXAM_API_URL}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch live invigilation data');
+  }
+
+  return response.json();
+}
+
+/**
+ * Give a student extra minutes; the exam page applies them on its next heartbeat
+ */
+export async function extendAttemptTime(
+  attemptId: string,
+  minutes: number
+): Promise<{ success: boolean; data?: { extraMinutes: number }; error?: string; message?: string }> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'extendAttemptTime',
+      userEmail: user.email,
+      attemptId,
+      minutes
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to extend time');
+  }
+
+  return response.json();
+}
+
+/**
+ * Force-submit a running attempt
+ * Submitted immediately from saved answers when the student is idle, otherwise by the
+ * student's exam page on its next heartbeat (pendingOnDevice)
+ */
+export async function forceSubmitAttempt(
+  attemptId: string
+): Promise<{
+  success: boolean;
+  data?: { submitted: boolean; pendingOnDevice: boolean; score?: number; totalMarks?: number };
+  error?: string;
+  message?: string;
+}> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'forceSubmitAttempt',
+      userEmail: user.email,
+      attemptId
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to force submit');
+  }
+
+  return response.json();
+}
+
+/**
+ * End a student's active session so they can verify again on another device
+ */
+export async function unlockExamSession(
+  examId: string,
+  studentEmail: string
+): Promise<{ success: boolean; error?: string; message?: string }> {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(EXAM_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+    body: JSON.stringify({
+      action: 'unlockExamSession',
+      userEmail: user.email,
+      examId,
+      studentEmail
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to unlock session');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,130 @@
+import { waitFor } from '@testing-library/react';
+import type { AnswerSyncStatus } from './answerQueue';
+
+jest.mock('../services/examApi', () => ({
+  saveAnswer: jest.fn(),
+  getAnswerVersions: jest.fn()
+}));
+
+// jsdom has no IndexedDB, so the queue runs on its in-memory fallback.
+// Modules are reloaded per test because the queue keeps its state at module level.
+let queue: typeof import('./answerQueue');
+let api: { saveAnswer: jest.Mock; getAnswerVersions: jest.Mock };
+let status: AnswerSyncStatus;
+let stopSync: (() => void) | null;
+
+const entry = (questionId: string, answer: string) => ({ attemptId: 'att1', examId: 'ex1', questionId, answer, submitted: false });
+const setOnline = (online: boolean) => jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+
+beforeEach(() => {
+  jest.resetModules();
+  queue = require('./answerQueue');
+  api = require('../services/examApi');
+  api.saveAnswer.mockResolvedValue({ success: true });
+  setOnline(true);
+  queue.subscribeToAnswerSync(next => { status = next; });
+  stopSync = null;
+});
+
+afterEach(() => {
+  stopSync?.();
+  jest.restoreAllMocks();
+});
+
+describe('answer queue', () => {
+  it('replays saves in order with increasing versions and reports synced', async () => {
+    await queue.queueAnswer(entry('q1', 'A'));
+    await queue.queueAnswer(entry('q2', 'B'));
+    await queue.queueAnswer(entry('q1', 'C'));
+
+    await waitFor(() => expect(status).toMatchObject({ state: 'synced', pending: 0 }));
+    expect(api.saveAnswer.mock.calls.map(call => [call[2], call[3]])).toEqual([['q1', 'A'], ['q2', 'B'], ['q1', 'C']]);
+    const versions = api.saveAnswer.mock.calls.map(call => call[5]);
+    expect([...versions].sort((a, b) => a - b)).toEqual(versions);
+    expect(new Set(versions).size).toBe(3);
+    expect(status.lastSyncedAt).not.toBeNull();
+  });
+
+  it('keeps saves on the device while offline and sends them when the connection returns', async () => {
+    setOnline(false);
+    stopSync = queue.startAnswerSync('att1');
+    await queue.queueAnswer(entry('q1', 'A'));
+
+    await waitFor(() => expect(status).toMatchObject({ state: 'offline', pending: 1 }));
+    expect(api.saveAnswer).not.toHaveBeenCalled();
+
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+
+    await waitFor(() => expect(status).toMatchObject({ state: 'synced', pending: 0 }));
+    expect(api.saveAnswer).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops at the first failed save so later saves keep their order', async () => {
+    stopSync = queue.startAnswerSync('att1');
+    api.saveAnswer.mockResolvedValueOnce({ success: false, message: 'Server busy' });
+    await queue.queueAnswer(entry('q1', 'A'));
+    await waitFor(() => expect(status.state).toBe('error'));
+    await queue.queueAnswer(entry('q2', 'B'));
+
+    expect(status.pending).toBe(2);
+    expect(api.saveAnswer).toHaveBeenCalledTimes(1);
+
+    window.dispatchEvent(new Event('online'));
+    await waitFor(() => expect(status).toMatchObject({ state: 'synced', pending: 0 }));
+    expect(api.saveAnswer.mock.calls.map(call => call[2])).toEqual(['q1', 'q1', 'q2']);
+  });
+
+  it('records a conflict when the server already holds a newer answer', async () => {
+    api.saveAnswer.mockResolvedValueOnce({ success: true, stale: true });
+    await queue.queueAnswer(entry('q1', 'A'));
+
+    await waitFor(() => expect(status).toMatchObject({ state: 'synced', pending: 0, conflicts: ['q1'] }));
+  });
+});
+
+describe('drainAnswerQueue', () => {
+  it('waits for an in-flight replay and returns true once everything is delivered', async () => {
+    await queue.queueAnswer(entry('q1', 'A'));
+
+    await expect(queue.drainAnswerQueue('att1', 3000)).resolves.toBe(true);
+    expect(api.getAnswerVersions).not.toHaveBeenCalled();
+  });
+
+  it('counts saves the server confirms by version as delivered', async () => {
+    setOnline(false);
+    const version = await queue.queueAnswer(entry('q1', 'A'));
+    await queue.queueAnswer(entry('q2', 'B'));
+
+    api.getAnswerVersions.mockResolvedValue({ success: true, data: { q1: version } });
+    await expect(queue.drainAnswerQueue('att1', 100)).resolves.toBe(false);
+    expect(status.pending).toBe(1);
+
+    api.getAnswerVersions.mockResolvedValue({ success: true, data: { q1: version, q2: version + 1000 } });
+    await expect(queue.drainAnswerQueue('att1', 100)).resolves.toBe(true);
+    expect(status).toMatchObject({ state: 'synced', pending: 0 });
+  });
+
+  it('returns false when the server cannot be reached', async () => {
+    setOnline(false);
+    await queue.queueAnswer(entry('q1', 'A'));
+    api.getAnswerVersions.mockRejectedValue(new Error('Network down'));
+
+    await expect(queue.drainAnswerQueue('att1', 100)).resolves.toBe(false);
+  });
+});
+
+describe('drafts', () => {
+  it('keeps the latest value per question and clears them with the attempt', async () => {
+    await queue.saveDraft('att1', 'q1', 'first');
+    await queue.saveDraft('att1', 'q1', 'second');
+    await queue.saveDraft('att2', 'q1', 'other attempt');
+
+    const drafts = await queue.getDrafts('att1');
+    expect(drafts.map(d => [d.questionId, d.answer])).toEqual([['q1', 'second']]);
+
+    await queue.clearAttemptAnswers('att1');
+    expect(await queue.getDrafts('att1')).toEqual([]);
+    expect(await queue.getDrafts('att2')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Offline Answer Queue
+ * Answers are written to IndexedDB before they go to the server, so a Wi-Fi drop mid-exam loses nothing:
+ * - drafts: the latest local value of every question, restored after a reload
+ * - queue: saves waiting for the server, replayed in order when connectivity returns
+ *
+ * Every save carries a monotonic version. The backend ignores a replayed save older than the one
+ * it already holds (e.g. written from another device) and reports it as a conflict.
+ */
+
+import { saveAnswer, getAnswerVersions } from '../services/examApi';
+
+const DB_NAME = 'exam_answer_queue';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'queue';
+const DRAFT_STORE = 'drafts';
+
+const RETRY_DELAYS = [2000, 5000, 15000, 30000]; // Last delay repeats until the connection returns
+
+export type AnswerSyncState = 'synced' | 'syncing' | 'offline' | 'error';
+
+export interface AnswerSyncStatus {
+  state: AnswerSyncState;
+  pending: number; // Saves stored on this device but not yet confirmed by the server
+  conflicts: string[]; // Question IDs where the server kept a newer answer
+  lastSyncedAt: number | null;
+}
+
+export interface QueuedAnswer {
+  id?: number;
+  attemptId: string;
+  examId: string;
+  questionId: string;
+  answer: string;
+  submitted: boolean;
+  version: number;
+  queuedAt: number;
+}
+
+export interface AnswerDraft {
+  key: string;
+  attemptId: string;
+  questionId: string;
+  answer: string;
+  version: number;
+}
+
+// ============================================================================
+// INDEXEDDB STORAGE (falls back to memory where IndexedDB is unavailable)
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryQueue: QueuedAnswer[] = [];
+const memoryDrafts = new Map<string, AnswerDraft>();
+let memoryQueueId = 0;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('attemptId', 'attemptId');
+        }
+        if (!db.objectStoreNames.contains(DRAFT_STORE)) {
+          db.createObjectStore(DRAFT_STORE, { keyPath: 'key' }).createIndex('attemptId', 'attemptId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      // Private browsing or blocked storage: answers are queued in memory only
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(db: IDBDatabase, storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function readByAttempt<T>(storeName: string, attemptId: string): Promise<T[]> {
+  const db = await openDatabase();
+  if (!db) {
+    const source = storeName === QUEUE_STORE ? memoryQueue : Array.from(memoryDrafts.values());
+    return (source as unknown as Array<T & { attemptId: string }>).filter(item => item.attemptId === attemptId);
+  }
+  return runRequest<T[]>(db, storeName, 'readonly', store => store.index('attemptId').getAll(attemptId));
+}
+
+async function putRecord(storeName: string, record: QueuedAnswer | AnswerDraft): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    if (storeName === QUEUE_STORE) {
+      memoryQueue.push({ ...(record as QueuedAnswer), id: ++memoryQueueId });
+    } else {
+      memoryDrafts.set((record as AnswerDraft).key, record as AnswerDraft);
+    }
+    return;
+  }
+  await runRequest(db, storeName, 'readwrite', store => store.put(record));
+}
+
+async function deleteRecord(storeName: string, key: number | string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    if (storeName === QUEUE_STORE) {
+      const index = memoryQueue.findIndex(item => item.id === key);
+      if (index !== -1) memoryQueue.splice(index, 1);
+    } else {
+      memoryDrafts.delete(key as string);
+    }
+    return;
+  }
+  await runRequest(db, storeName, 'readwrite', store => store.delete(key));
+}
+
+// ============================================================================
+// VERSIONS AND STATUS
+// ============================================================================
+
+let lastVersion = 0;
+
+/**
+ * Millisecond timestamp, bumped so two saves in the same millisecond still order correctly
+ */
+export function nextAnswerVersion(): number {
+  lastVersion = Math.max(Date.now(), lastVersion + 1);
+  return lastVersion;
+}
+
+let status: AnswerSyncStatus = { state: 'synced', pending: 0, conflicts: [], lastSyncedAt: null };
+const listeners = new Set<(status: AnswerSyncStatus) => void>();
+
+function updateStatus(changes: Partial<AnswerSyncStatus>) {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+}
+
+export function subscribeToAnswerSync(listener: (status: AnswerSyncStatus) => void): () => void {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================================
+// DRAFTS
+// ============================================================================
+
+const draftKey = (attemptId: string, questionId: string) => `${attemptId}|${questionId}`;
+
+/**
+ * Store the latest local value of a question (called on every change, before any server save)
+ */
+export async function saveDraft(attemptId: string, questionId: string, answer: string): Promise<void> {
+  try {
+    await putRecord(DRAFT_STORE, {
+      key: draftKey(attemptId, questionId),
+      attemptId,
+      questionId,
+      answer,
+      version: nextAnswerVersion()
+    });
+  } catch {
+    // Drafts only restore typing after a reload; saves still go through the queue
+  }
+}
+
+export async function getDrafts(attemptId: string): Promise<AnswerDraft[]> {
+  try {
+    return await readByAttempt<AnswerDraft>(DRAFT_STORE, attemptId);
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// QUEUE AND REPLAY
+// ============================================================================
+
+let activeAttemptId: string | null = null;
+let isFlushing = false;
+let retryCount = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function refreshPending(attemptId: string): Promise<QueuedAnswer[]> {
+  const queued = (await readByAttempt<QueuedAnswer>(QUEUE_STORE, attemptId)).sort((a, b) => (a.id || 0) - (b.id || 0));
+  updateStatus({ pending: queued.length });
+  return queued;
+}
+
+function scheduleRetry(attemptId: string) {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay = RETRY_DELAYS[Math.min(retryCount, RETRY_DELAYS.length - 1)];
+  retryCount++;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushAnswerQueue(attemptId);
+  }, delay);
+}
+
+/**
+ * Queue an answer for the server; it is stored on this device before any network call
+ * @returns The version assigned to this save
+ */
+export async function queueAnswer(entry: Omit<QueuedAnswer, 'id' | 'version' | 'queuedAt'>): Promise<number> {
+  const version = nextAnswerVersion();
+  await putRecord(QUEUE_STORE, { ...entry, version, queuedAt: Date.now() });
+  await putRecord(DRAFT_STORE, {
+    key: draftKey(entry.attemptId, entry.questionId),
+    attemptId: entry.attemptId,
+    questionId: entry.questionId,
+    answer: entry.answer,
+    version
+  });
+  await refreshPending(entry.attemptId);
+  flushAnswerQueue(entry.attemptId);
+  return version;
+}
+
+/**
+ * Replay queued saves in the order they were made; stops at the first network failure to keep the order
+ */
+export async function flushAnswerQueue(attemptId: string): Promise<void> {
+  if (isFlushing) return;
+  isFlushing = true;
+
+  try {
+    let queued = await refreshPending(attemptId);
+    if (queued.length === 0) {
+      updateStatus({ state: 'synced' });
+      return;
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      updateStatus({ state: 'offline' });
+      return;
+    }
+
+    updateStatus({ state: 'syncing' });
+    while (queued.length > 0) {
+      const entry = queued[0];
+      try {
+        const response = await saveAnswer(entry.attemptId, entry.examId, entry.questionId, entry.answer, entry.submitted, entry.version);
+        if (!response.success) {
+          throw new Error(response.error || response.message || 'Save rejected');
+        }
+        // Not replayed: the server already holds a newer version of this answer
+        if (response.stale && !status.conflicts.includes(entry.questionId)) {
+          updateStatus({ conflicts: [...status.conflicts, entry.questionId] });
+        }
+        await deleteRecord(QUEUE_STORE, entry.id as number);
+        retryCount = 0;
+        updateStatus({ lastSyncedAt: Date.now() });
+      } catch {
+        const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+        updateStatus({ state: offline ? 'offline' : 'error' });
+        scheduleRetry(attemptId);
+        return;
+      }
+      queued = await refreshPending(attemptId);
+    }
+    updateStatus({ state: 'synced' });
+  } catch {
+    updateStatus({ state: 'error' });
+  } finally {
+    isFlushing = false;
+  }
+}
+
+/**
+ * Begin syncing an attempt: replays anything left from an earlier session and resumes on reconnect
+ * @returns Cleanup function
+ */
+export function startAnswerSync(attemptId: string): () => void {
+  activeAttemptId = attemptId;
+  updateStatus({ state: 'synced', pending: 0, conflicts: [], lastSyncedAt: null });
+
+  const handleOnline = () => {
+    retryCount = 0;
+    if (activeAttemptId) flushAnswerQueue(activeAttemptId);
+  };
+  const handleOffline = () => updateStatus({ state: 'offline' });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  flushAnswerQueue(attemptId);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    activeAttemptId = null;
+  };
+}
+
+/**
+ * Make sure the server holds every queued answer before the exam is finalized.
+ * Saves the server already has (same or newer version) count as delivered even if
+ * their response never reached the browser.
+ * @returns true when nothing is left to sync
+ */
+export async function drainAnswerQueue(attemptId: string, timeoutMs: number = 20000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  retryCount = 0;
+
+  while (Date.now() < deadline) {
+    await flushAnswerQueue(attemptId);
+    const queued = await refreshPending(attemptId);
+    if (queued.length === 0) return true;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) break;
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+
+  try {
+    const response = await getAnswerVersions(attemptId);
+    if (!response.success || !response.data) return false;
+    const serverVersions = response.data;
+    const queued = await refreshPending(attemptId);
+    for (const entry of queued) {
+      if ((serverVersions[entry.questionId] || 0) >= entry.version) {
+        await deleteRecord(QUEUE_STORE, entry.id as number);
+      }
+    }
+    const remaining = await refreshPending(attemptId);
+    if (remaining.length === 0) updateStatus({ state: 'synced', lastSyncedAt: Date.now() });
+    return remaining.length === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove everything stored for an attempt (after a successful submission)
+ */
+export async function clearAttemptAnswers(attemptId: string): Promise<void> {
+  try {
+    const queued = await readByAttempt<QueuedAnswer>(QUEUE_STORE, attemptId);
+    const drafts = await readByAttempt<AnswerDraft>(DRAFT_STORE, attemptId);
+    await Promise.all([
+      ...queued.map(entry => deleteRecord(QUEUE_STORE, entry.id as number)),
+      ...drafts.map(draft => deleteRecord(DRAFT_STORE, draft.key))
+    ]);
+    updateStatus({ pending: 0 });
+  } catch {
+    // Records of a submitted attempt are never read again
+  }
+}
@@ -0,0 +1,136 @@
+import type { ItemResponseAttempt, ItemResponseQuestion } from '../services/examApi';
+import { analyzeExamItems, buildHistogram, describeReliability, formatDuration, median } from './itemAnalysis';
+
+const question = (questionId: string, overrides: Partial<ItemResponseQuestion> = {}): ItemResponseQuestion => ({
+  questionId,
+  questionNumber: Number(questionId.replace(/\D/g, '')) || 1,
+  questionType: 'SHORT_ANSWER',
+  questionText: `Question ${questionId}`,
+  correctAnswer: '',
+  hasMultipleAnswers: false,
+  marks: 1,
+  options: {},
+  ...overrides
+});
+
+// One attempt per row of item scores (marks awarded per question, in question order)
+const attemptsFromMatrix = (questions: ItemResponseQuestion[], matrix: number[][]): ItemResponseAttempt[] =>
+  matrix.map((row, i) => ({
+    attemptId: `a${i + 1}`,
+    studentName: `Student ${i + 1}`,
+    score: row.reduce((sum, v) => sum + v, 0),
+    totalMarks: questions.reduce((sum, q) => sum + q.marks, 0),
+    timeSpent: 600,
+    assignedQuestionIds: null,
+    answers: row.map((marksAwarded, j) => ({ questionId: questions[j].questionId, answer: 'x', marksAwarded, timeSpent: null }))
+  }));
+
+describe('analyzeExamItems', () => {
+  it('computes KR-20 and discrimination for a full paper', () => {
+    const questions = [question('q1'), question('q2'), question('q3')];
+    const attempts = attemptsFromMatrix(questions, [
+      [1, 1, 1],
+      [1, 1, 0],
+      [1, 0, 0],
+      [0, 0, 0]
+    ]);
+
+    const analysis = analyzeExamItems({ examId: 'e1', questions, attempts });
+
+    // p = .75/.5/.25, sum pq = .625, total variance 1.25 -> 3/2 * (1 - .5)
+    expect(analysis.kr20).toBeCloseTo(0.75);
+    expect(analysis.kr20Items).toBe(3);
+    expect(analysis.groupSize).toBe(1);
+    expect(analysis.meanPercentage).toBeCloseTo(50);
+    expect(analysis.items.map(i => i.difficulty)).toEqual([0.75, 0.5, 0.25]);
+    expect(analysis.items.map(i => i.discrimination)).toEqual([1, 1, 1]);
+    expect(describeReliability(analysis.kr20)).toBe('Acceptable');
+  });
+
+  it('returns no KR-20 when total scores have zero variance', () => {
+    const questions = [question('q1'), question('q2')];
+    const analysis = analyzeExamItems({
+      examId: 'e1',
+      questions,
+      attempts: attemptsFromMatrix(questions, [[1, 0], [0, 1], [1, 0]])
+    });
+
+    expect(analysis.kr20).toBeNull();
+    expect(describeReliability(analysis.kr20)).toBe('Not enough data');
+  });
+
+  it('leaves drawn papers, regraded and zero-mark questions out of KR-20', () => {
+    const questions = [question('q1'), question('q2'), question('q3', { regradeMode: 'DROPPED' }), question('q4', { marks: 0 })];
+    const attempts = attemptsFromMatrix(questions, [[1, 1, 0, 0], [0, 0, 1, 0]]);
+    const drawn = { ...attemptsFromMatrix(questions, [[1, 0, 0, 0]])[0], attemptId: 'drawn', assignedQuestionIds: ['q1'] };
+
+    const analysis = analyzeExamItems({ examId: 'e1', questions, attempts: [...attempts, drawn] });
+
+    expect(analysis.kr20Items).toBe(2);
+    expect(analysis.kr20).toBeCloseTo(1);
+    expect(analysis.items.map(i => i.question.questionId)).toEqual(['q1', 'q2', 'q3']);
+    // The drawn paper only counts towards the question it received
+    expect(analysis.items[0].responses).toBe(3);
+    expect(analysis.items[1].responses).toBe(2);
+  });
+
+  it('flags negative discrimination and distractor problems', () => {
+    const mcq = question('q1', { questionType: 'MCQ', correctAnswer: 'B', marks: 2, options: { A: 'a', B: 'b', C: 'c', D: 'd' } });
+    const essay = question('q2', { marks: 2 });
+    const attempts: ItemResponseAttempt[] = [10, 8, 6, 4, 2].map((score, i) => ({
+      attemptId: `a${i + 1}`,
+      studentName: `Student ${i + 1}`,
+      score,
+      totalMarks: 10,
+      timeSpent: (i + 1) * 60,
+      assignedQuestionIds: null,
+      answers: [
+        { questionId: 'q1', answer: i === 0 ? 'A' : 'b', marksAwarded: i === 0 ? 0 : 2, timeSpent: [30, 60, 90, null, 0][i] },
+        ...(i === 0 ? [{ questionId: 'q2', answer: 'partly right', marksAwarded: 1, timeSpent: 120 }] : [])
+      ]
+    }));
+
+    const [choice, written] = analyzeExamItems({ examId: 'e1', questions: [mcq, essay], attempts }).items;
+
+    expect(choice.difficulty).toBeCloseTo(0.8);
+    expect(choice.discrimination).toBe(-1);
+    expect(choice.options.map(o => [o.letter, o.count, o.upperCount, o.lowerCount])).toEqual([
+      ['A', 1, 1, 0],
+      ['B', 4, 0, 1],
+      ['C', 0, 0, 0],
+      ['D', 0, 0, 0]
+    ]);
+    expect(choice.flags).toEqual(['negative_discrimination', 'distractor_beats_key', 'unused_distractor']);
+    expect(choice.medianTime).toBe(60);
+    expect(choice.meanTime).toBe(60);
+
+    expect(written.difficulty).toBeCloseTo(0.1);
+    expect(written.discrimination).toBeCloseTo(0.5);
+    expect(written.answered).toBe(1);
+    expect(written.omitted).toBe(4);
+    expect(written.options).toEqual([]);
+    expect(written.flags).toEqual(['too_hard']);
+  });
+
+  it('handles an exam with no attempts', () => {
+    const analysis = analyzeExamItems({ examId: 'e1', questions: [question('q1')], attempts: [] });
+
+    expect(analysis.groupSize).toBe(0);
+    expect(analysis.kr20).toBeNull();
+    expect(analysis.meanPercentage).toBeNull();
+    expect(analysis.items[0]).toMatchObject({ responses: 0, difficulty: null, discrimination: null, flags: [] });
+    expect(analysis.attemptTimeHistogram).toEqual([]);
+  });
+});
+
+describe('statistics helpers', () => {
+  it('computes medians and equal-width histograms', () => {
+    expect(median([])).toBeNull();
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+
+    expect(buildHistogram([5, 5], 4)).toEqual([{ label: '5', min: 5, max: 5, count: 2 }]);
+    expect(buildHistogram([0, 1, 2, 3, 4], 2).map(b => b.count)).toEqual([2, 3]);
+    expect(formatDuration(90.4)).toBe('1:30');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Item Analysis
+ * Classical test theory statistics for a delivered exam:
+ * - Difficulty index (p): mean fraction of marks earned on the question
+ * - Discrimination index (D): p of the top 27% of students minus p of the bottom 27%
+ * - Distractor frequencies per MCQ option A-J, overall and for the top/bottom groups
+ * - KR-20 reliability over dichotomously scored items (full marks = correct)
+ * - Time-spent distributions per question and for whole attempts
+ */
+
+import type { ExamItemResponses, ItemResponseAttempt, ItemResponseQuestion } from '../services/examApi';
+
+export const GROUP_FRACTION = 0.27;
+
+export type ItemFlag =
+  | 'too_hard'
+  | 'too_easy'
+  | 'low_discrimination'
+  | 'negative_discrimination'
+  | 'distractor_beats_key'
+  | 'unused_distractor';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  too_hard: 'Very hard (p < 0.20)',
+  too_easy: 'Very easy (p > 0.90)',
+  low_discrimination: 'Weak discrimination (D < 0.20)',
+  negative_discrimination: 'Negative discrimination',
+  distractor_beats_key: 'A distractor draws more top students than the key',
+  unused_distractor: 'Distractor chosen by nobody'
+};
+
+export interface HistogramBucket {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface OptionStats {
+  letter: string;
+  text: string;
+  isKey: boolean;
+  count: number;
+  upperCount: number;
+  lowerCount: number;
+}
+
+export interface ItemStats {
+  question: ItemResponseQuestion;
+  responses: number; // Attempts that received the question
+  answered: number;
+  difficulty: number | null;
+  discrimination: number | null;
+  options: OptionStats[]; // MCQ types only
+  omitted: number;
+  medianTime: number | null;
+  meanTime: number | null;
+  timeHistogram: HistogramBucket[];
+  flags: ItemFlag[];
+}
+
+export interface ExamItemAnalysis {
+  attempts: number;
+  groupSize: number;
+  meanPercentage: number | null;
+  kr20: number | null;
+  kr20Items: number;
+  items: ItemStats[];
+  attemptTimeHistogram: HistogramBucket[]; // Minutes
+  medianAttemptTime: number | null; // Seconds
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Equal-width histogram; bucket labels use the formatter (e.g. seconds -> "1:30")
+ */
+export function buildHistogram(
+  values: number[],
+  bucketCount: number,
+  format: (value: number) => string = v => String(Math.round(v))
+): HistogramBucket[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [{ label: format(min), min, max, count: values.length }];
+
+  const width = (max - min) / bucketCount;
+  const buckets: HistogramBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    label: `${format(min + i * width)}–${format(min + (i + 1) * width)}`,
+    min: min + i * width,
+    max: min + (i + 1) * width,
+    count: 0
+  }));
+  values.forEach(value => {
+    const index = Math.min(bucketCount - 1, Math.floor((value - min) / width));
+    buckets[index].count++;
+  });
+  return buckets;
+}
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const receivedQuestion = (attempt: ItemResponseAttempt, questionId: string) =>
+  !attempt.assignedQuestionIds || attempt.assignedQuestionIds.includes(questionId);
+
+const selectedLetters = (answer: string) =>
+  answer.split(',').map(a => a.trim().toUpperCase()).filter(Boolean);
+
+export function analyzeExamItems(data: ExamItemResponses): ExamItemAnalysis {
+  const questions = data.questions.filter(q => q.marks > 0);
+  const attempts = data.attempts;
+
+  // Rank by percentage so drawn papers with different totals compare fairly
+  const percentage = (a: ItemResponseAttempt) => (a.totalMarks > 0 ? a.score / a.totalMarks : 0);
+  const ranked = [...attempts].sort((a, b) => percentage(b) - percentage(a));
+  const groupSize = ranked.length >= 2 ? Math.max(1, Math.round(ranked.length * GROUP_FRACTION)) : 0;
+  const upper = new Set(ranked.slice(0, groupSize).map(a => a.attemptId));
+  const lower = new Set(ranked.slice(ranked.length - groupSize).map(a => a.attemptId));
+
+  // attemptId -> questionId -> answer
+  const answerIndex = new Map<string, Map<string, ItemResponseAttempt['answers'][number]>>();
+  attempts.forEach(attempt => {
+    answerIndex.set(attempt.attemptId, new Map(attempt.answers.map(a => [a.questionId, a])));
+  });
+
+  const itemScore = (attempt: ItemResponseAttempt, question: ItemResponseQuestion) => {
+    const answer = answerIndex.get(attempt.attemptId)?.get(question.questionId);
+    if (!answer) return 0;
+    return Math.max(0, Math.min(1, answer.marksAwarded / question.marks));
+  };
+
+  const items: ItemStats[] = questions.map(question => {
+    const received = attempts.filter(a => receivedQuestion(a, question.questionId));
+    const scores = received.map(a => itemScore(a, question));
+    const upperScores = received.filter(a => upper.has(a.attemptId)).map(a => itemScore(a, question));
+    const lowerScores = received.filter(a => lower.has(a.attemptId)).map(a => itemScore(a, question));
+
+    const difficulty = mean(scores);
+    const upperP = mean(upperScores);
+    const lowerP = mean(lowerScores);
+    const discrimination = upperP !== null && lowerP !== null && received.length >= 2 ? upperP - lowerP : null;
+
+    const answers = received
+      .map(a => answerIndex.get(a.attemptId)?.get(question.questionId))
+      .filter((a): a is NonNullable<typeof a> => !!a);
+    const answered = answers.filter(a => a.answer.trim() !== '').length;
+
+    // Distractor analysis (MCQ only)
+    const isChoice = question.questionType === 'MCQ' || question.questionType === 'MCQ_IMAGE';
+    const keys = selectedLetters(question.correctAnswer);
+    const options: OptionStats[] = isChoice
+      ? Object.keys(question.options).sort().map(letter => ({
+          letter,
+          text: question.options[letter],
+          isKey: keys.includes(letter),
+          count: 0,
+          upperCount: 0,
+          lowerCount: 0
+        }))
+      : [];
+    if (isChoice) {
+      received.forEach(attempt => {
+        const answer = answerIndex.get(attempt.attemptId)?.get(question.questionId);
+        selectedLetters(answer?.answer || '').forEach(letter => {
+          const option = options.find(o => o.letter === letter);
+          if (!option) return;
+          option.count++;
+          if (upper.has(attempt.attemptId)) option.upperCount++;
+          if (lower.has(attempt.attemptId)) option.lowerCount++;
+        });
+      });
+    }
+
+    const times = answers.map(a => a.timeSpent).filter((t): t is number => t !== null && t > 0);
+
+    const flags: ItemFlag[] = [];
+    if (difficulty !== null && received.length > 0) {
+      if (difficulty < 0.2) flags.push('too_hard');
+      if (difficulty > 0.9) flags.push('too_easy');
+    }
+    if (discrimination !== null) {
+      if (discrimination < 0) flags.push('negative_discrimination');
+      else if (discrimination < 0.2) flags.push('low_discrimination');
+    }
+    if (options.length > 0 && received.length > 0) {
+      const keyUpper = Math.max(0, ...options.filter(o => o.isKey).map(o => o.upperCount));
+      if (options.some(o => !o.isKey && o.upperCount > keyUpper)) flags.push('distractor_beats_key');
+      if (options.some(o => !o.isKey && o.count === 0)) flags.push('unused_distractor');
+    }
+
+    return {
+      question,
+      responses: received.length,
+      answered,
+      difficulty,
+      discrimination,
+      options,
+      omitted: received.length - answered,
+      medianTime: median(times),
+      meanTime: mean(times),
+      timeHistogram: buildHistogram(times, 5, formatDuration),
+      flags
+    };
+  });
+
+  // KR-20 needs everyone to sit the same items, so drawn papers are left out
+  // Dropped or full-marks questions no longer measure anything and are left out too
+  const fullPaper = attempts.filter(a => !a.assignedQuestionIds);
+  const scoredItems = questions.filter(q => !q.regradeMode);
+  let kr20: number | null = null;
+  if (fullPaper.length >= 2 && scoredItems.length >= 2) {
+    const totals = fullPaper.map(attempt =>
+      scoredItems.reduce((sum, q) => sum + (itemScore(attempt, q) === 1 ? 1 : 0), 0)
+    );
+    const meanTotal = mean(totals) as number;
+    const variance = totals.reduce((sum, t) => sum + (t - meanTotal) ** 2, 0) / totals.length;
+    const pq = scoredItems.reduce((sum, q) => {
+      const p = fullPaper.filter(a => itemScore(a, q) === 1).length / fullPaper.length;
+      return sum + p * (1 - p);
+    }, 0);
+    const k = scoredItems.length;
+    if (variance > 0) kr20 = (k / (k - 1)) * (1 - pq / variance);
+  }
+
+  const attemptTimes = attempts.map(a => a.timeSpent).filter(t => t > 0);
+
+  return {
+    attempts: attempts.length,
+    groupSize,
+    meanPercentage: mean(attempts.map(a => percentage(a) * 100)),
+    kr20,
+    kr20Items: scoredItems.length,
+    items,
+    attemptTimeHistogram: buildHistogram(attemptTimes.map(t => t / 60), 8, v => String(Math.round(v))),
+    medianAttemptTime: median(attemptTimes)
+  };
+}
+
+/**
+ * Conventional reading of a KR-20 value
+ */
+export function describeReliability(kr20: number | null): string {
+  if (kr20 === null) return 'Not enough data';
+  if (kr20 >= 0.9) return 'Excellent';
+  if (kr20 >= 0.8) return 'Good';
+  if (kr20 >= 0.7) return 'Acceptable';
+  if (kr20 >= 0.6) return 'Questionable';
+  return 'Poor';
+}
@@ -0,0 +1,129 @@
+import { TextDecoder } from 'util';
+import {
+  parseQuestionsCsv,
+  parseQuestionsGift,
+  parseQuestionsQti,
+  questionsToCsv,
+  questionsToGift
+} from './questionFormats';
+
+// jsdom has no TextDecoder, which the QTI reader uses for zipped packages
+Object.assign(globalThis, { TextDecoder });
+
+const CSV_HEADER = 'questionType,questionText,optionA,optionB,correctAnswer,marks,difficulty,tags';
+
+// Only the name and text of an uploaded file are read for plain XML
+const xmlFile = (name: string, xml: string) => ({ name, text: async () => xml }) as unknown as File;
+
+describe('question formats', () => {
+  describe('CSV', () => {
+    test('parses quoted cells, defaults and tags', () => {
+      const { questions, errors } = parseQuestionsCsv(
+        `\uFEFF${CSV_HEADER}\nmcq,"What is ""NPV""?",Value,Cost,a,2,hard,finance;valuation\n,Explain IRR,,,,,,\n`
+      );
+      expect(errors).toEqual([]);
+      expect(questions.map(q => [q.questionType, q.questionText, q.correctAnswer, q.marks, q.difficulty])).toEqual([
+        ['MCQ', 'What is "NPV"?', 'A', 2, 'Hard'],
+        ['SHORT_ANSWER', 'Explain IRR', undefined, 1, 'Medium']
+      ]);
+      expect(questions[0].tags).toEqual(['finance', 'valuation']);
+    });
+
+    test('skips empty rows and reports rows without text', () => {
+      const { questions, errors } = parseQuestionsCsv(`${CSV_HEADER}\n,,,,,,,\n\nMCQ,,A,B,A,1,,\nMCQ,Q?,Yes,No,B,1,,\n`);
+      expect(questions).toHaveLength(1);
+      expect(errors).toEqual(['Row 4: questionText is empty, skipped']);
+    });
+
+    test('reports unknown question types instead of importing them', () => {
+      const { questions, errors } = parseQuestionsCsv(`${CSV_HEADER}\nMCQQ,Typo?,Yes,No,A,1,,\n`);
+      expect(questions).toEqual([]);
+      expect(errors[0]).toMatch(/^Row 2: unknown questionType "MCQQ"/);
+    });
+
+    test('rejects files without a header or question text column', () => {
+      expect(parseQuestionsCsv('').errors).toEqual(['CSV needs a header row and at least one question row']);
+      expect(parseQuestionsCsv('type,text\nMCQ,Q?').errors).toEqual(['CSV is missing the questionText column']);
+    });
+
+    test('round-trips through export', () => {
+      const { questions } = parseQuestionsCsv(`${CSV_HEADER}\nMCQ,"Pick, one",Yes,No,B,3,Easy,x\n`);
+      const again = parseQuestionsCsv(questionsToCsv(questions)).questions;
+      expect(again[0]).toEqual(expect.objectContaining({ questionText: 'Pick, one', optionB: 'No', correctAnswer: 'B', marks: 3 }));
+    });
+  });
+
+  describe('GIFT', () => {
+    test('parses choice, true/false, numerical, matching and essay questions', () => {
+      const { questions, errors } = parseQuestionsGift([
+        '// comment',
+        '::Q1:: Capital of France? {=Paris ~London ~%50%Lyon}',
+        '',
+        'The sky is green. {F}',
+        '',
+        'Pi to two places? {#3.14:0.01}',
+        '',
+        'Match {=NPV -> Value =IRR -> Rate = -> Noise}',
+        '',
+        'Discuss leverage. {}'
+      ].join('\n'));
+      expect(errors).toEqual([]);
+      expect(questions.map(q => q.questionType)).toEqual(['MCQ', 'MCQ', 'NUMERIC', 'MATCHING', 'LONG_ANSWER']);
+      expect(questions[0]).toEqual(expect.objectContaining({ optionA: 'Paris', correctAnswer: 'A,C', hasMultipleAnswers: true }));
+      expect(questions[1].correctAnswer).toBe('B');
+      expect(questions[2].answerConfig?.numeric).toEqual(expect.objectContaining({ answer: 3.14, tolerance: 0.01 }));
+      expect(questions[3].answerConfig?.matching?.distractors).toEqual(['Noise']);
+    });
+
+    test('reports malformed blocks', () => {
+      const { questions, errors } = parseQuestionsGift('No answers here\n\nValue? {#abc}');
+      expect(questions).toEqual([]);
+      expect(errors).toEqual(['No answers here: no answer block', 'Value? {#abc}: could not read the numerical answer']);
+    });
+
+    test('round-trips through export', () => {
+      const { questions } = parseQuestionsGift('Capital of France? {=Paris ~London}');
+      const again = parseQuestionsGift(questionsToGift(questions)).questions;
+      expect(again[0]).toEqual(expect.objectContaining({ optionA: 'Paris', optionB: 'London', correctAnswer: 'A' }));
+    });
+  });
+
+  describe('QTI', () => {
+    const item = `<?xml version="1.0"?>
+      <assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q1" title="Rates">
+        <responseDeclaration identifier="RESPONSE" cardinality="single">
+          <correctResponse><value>B</value></correctResponse>
+        </responseDeclaration>
+        <outcomeDeclaration identifier="MAXSCORE"><defaultValue><value>4</value></defaultValue></outcomeDeclaration>
+        <itemBody>
+          <choiceInteraction responseIdentifier="RESPONSE">
+            <prompt>Which is a rate?</prompt>
+            <simpleChoice identifier="A">NPV</simpleChoice>
+            <simpleChoice identifier="B">IRR</simpleChoice>
+          </choiceInteraction>
+        </itemBody>
+      </assessmentItem>`;
+
+    test('parses choice items', async () => {
+      const { questions, errors } = await parseQuestionsQti([xmlFile('q1.xml', item)]);
+      expect(errors).toEqual([]);
+      expect(questions[0]).toEqual(expect.objectContaining({
+        questionType: 'MCQ',
+        questionText: 'Which is a rate?',
+        optionA: 'NPV',
+        optionB: 'IRR',
+        correctAnswer: 'B',
+        marks: 4
+      }));
+    });
+
+    test('reports malformed XML and unsupported items', async () => {
+      const { questions, errors } = await parseQuestionsQti([
+        xmlFile('broken.xml', '<assessmentItem>'),
+        xmlFile('empty.xml', '<assessmentItem identifier="q2"><itemBody><p>Hi</p></itemBody></assessmentItem>')
+      ]);
+      expect(questions).toEqual([]);
+      expect(errors).toEqual(['broken.xml: not well-formed XML', 'q2: unsupported interaction type']);
+    });
+  });
+});
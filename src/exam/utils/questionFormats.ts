@@ -0,0 +1,707 @@
+/**
+ * Question Import/Export Formats
+ * Converts exam questions to and from CSV, IMS QTI 2.1 and Moodle GIFT
+ */
+
+import type { Question, QuestionAnswerConfig } from '../services/examApi';
+import { createZip, readZip } from '../../utils/zip';
+import { QUESTION_TYPES, describeCorrectAnswer, isQuestionType, isStructuredType } from './structuredAnswers';
+
+export type QuestionFormat = 'csv' | 'qti' | 'gift';
+
+export interface ParsedQuestions {
+  questions: Question[];
+  errors: string[]; // Entries that could not be converted at all
+}
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
+
+type QuestionOptionKey = 'optionA' | 'optionB' | 'optionC' | 'optionD' | 'optionE' | 'optionF' | 'optionG' | 'optionH' | 'optionI' | 'optionJ';
+const optionKey = (letter: string) => `option${letter}` as QuestionOptionKey;
+
+// Same defaults as a new question in QuestionBuilderModal
+function newQuestion(overrides: Partial<Question>): Question {
+  return {
+    questionType: 'MCQ',
+    questionText: '',
+    marks: 1,
+    negativeMarks: 0,
+    difficulty: 'Medium',
+    enableRoughSpace: false,
+    allowUpdateAfterSubmit: true,
+    allowSeeQuestionAfterSubmit: true,
+    hasMultipleAnswers: false,
+    ...overrides
+  };
+}
+
+function setOptions(question: Question, options: string[]) {
+  options.slice(0, OPTION_LETTERS.length).forEach((text, i) => {
+    question[optionKey(OPTION_LETTERS[i])] = text;
+  });
+}
+
+function getOptions(question: Question): string[] {
+  const options: string[] = [];
+  OPTION_LETTERS.forEach(letter => {
+    const text = question[optionKey(letter)];
+    if (text) options.push(text);
+  });
+  return options;
+}
+
+const correctLetters = (question: Question) =>
+  (question.correctAnswer || '').split(',').map(a => a.trim().toUpperCase()).filter(Boolean);
+
+const normalizeDifficulty = (value: string | undefined): Question['difficulty'] => {
+  const v = (value || '').trim().toLowerCase();
+  if (v === 'easy') return 'Easy';
+  if (v === 'hard') return 'Hard';
+  return 'Medium';
+};
+
+export const detectQuestionFormat = (fileName: string): QuestionFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'xml' || ext === 'zip') return 'qti';
+  if (ext === 'gift' || ext === 'txt') return 'gift';
+  return null;
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+export const CSV_COLUMNS = [
+  'questionType', 'questionText',
+  ...OPTION_LETTERS.map(l => `option${l}`),
+  'hasMultipleAnswers', 'correctAnswer', 'marks', 'negativeMarks', 'difficulty', 'explanation', 'tags', 'wordLimit',
+  'answerConfig' // JSON answer key for NUMERIC / FILL_BLANK / MATCHING / ORDERING
+];
+
+const parseAnswerConfig = (value: string): QuestionAnswerConfig | undefined => {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export function parseQuestionsCsv(text: string): ParsedQuestions {
+  // Blank rows are skipped but still counted, so reported row numbers match the file
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''))
+    .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+    .filter(row => row.cells.some(c => c.trim() !== ''));
+  const errors: string[] = [];
+  if (rows.length < 2) {
+    return { questions: [], errors: ['CSV needs a header row and at least one question row'] };
+  }
+
+  // Header names are matched case-insensitively against the Question fields
+  const header = rows[0].cells.map(h => h.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name.toLowerCase());
+  if (column('questionText') === -1) {
+    return { questions: [], errors: ['CSV is missing the questionText column'] };
+  }
+
+  const questions: Question[] = [];
+  rows.slice(1).forEach(({ cells, rowNumber }) => {
+    const get = (name: string) => {
+      const index = column(name);
+      return index === -1 ? '' : (cells[index] || '').trim();
+    };
+
+    const options = OPTION_LETTERS.map(l => get(`option${l}`));
+    const type = (get('questionType') || (options[0] ? 'MCQ' : 'SHORT_ANSWER')).toUpperCase();
+    const correctAnswer = get('correctAnswer').toUpperCase().replace(/\s+/g, '');
+    const marks = parseFloat(get('marks'));
+    const negativeMarks = parseFloat(get('negativeMarks'));
+    const wordLimit = parseInt(get('wordLimit'), 10);
+
+    if (!get('questionText')) {
+      errors.push(`Row ${rowNumber}: questionText is empty, skipped`);
+      return;
+    }
+    if (!isQuestionType(type)) {
+      errors.push(`Row ${rowNumber}: unknown questionType "${type}" (expected one of ${QUESTION_TYPES.join(', ')}), skipped`);
+      return;
+    }
+
+    const question = newQuestion({
+      questionType: type,
+      questionText: get('questionText'),
+      correctAnswer: correctAnswer || undefined,
+      hasMultipleAnswers: /^(true|yes|1)$/i.test(get('hasMultipleAnswers')) || correctAnswer.includes(','),
+      marks: Number.isFinite(marks) ? marks : 1,
+      negativeMarks: Number.isFinite(negativeMarks) ? negativeMarks : 0,
+      difficulty: normalizeDifficulty(get('difficulty')),
+      explanation: get('explanation') || undefined,
+      tags: get('tags') ? get('tags').split(/[;,]/).map(t => t.trim()).filter(Boolean) : undefined,
+      wordLimit: Number.isFinite(wordLimit) ? wordLimit : undefined
+    });
+    options.forEach((text, index) => {
+      if (text) question[optionKey(OPTION_LETTERS[index])] = text;
+    });
+    if (isStructuredType(question.questionType)) {
+      question.answerConfig = parseAnswerConfig(get('answerConfig'));
+      question.correctAnswer = describeCorrectAnswer(question) || undefined;
+    }
+    questions.push(question);
+  });
+
+  return { questions, errors };
+}
+
+export function questionsToCsv(questions: Question[]): string {
+  const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const rows = questions.map(q => [
+    q.questionType,
+    q.questionText,
+    ...OPTION_LETTERS.map(l => q[optionKey(l)] || ''),
+    q.hasMultipleAnswers ? 'TRUE' : 'FALSE',
+    q.correctAnswer || '',
+    q.marks,
+    q.negativeMarks || 0,
+    q.difficulty,
+    q.explanation || '',
+    (q.tags || []).join(';'),
+    q.wordLimit ?? '',
+    q.answerConfig ? JSON.stringify(q.answerConfig) : ''
+  ].map(csvCell).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+// ============================================================================
+// IMS QTI 2.1
+// ============================================================================
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+
+// Quill output is HTML, QTI item bodies must be well-formed XML
+function htmlToXhtml(html: string): string {
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  const serializer = new XMLSerializer();
+  return Array.from(doc.body.firstChild?.childNodes || [])
+    .map(node => serializer.serializeToString(node))
+    .join('')
+    .replace(/ xmlns="[^"]*"/g, '');
+}
+
+function xmlChildrenToHtml(element: Element, skip: string[] = []): string {
+  const serializer = new XMLSerializer();
+  const copy = element.cloneNode(true) as Element;
+  skip.forEach(name => {
+    Array.from(copy.getElementsByTagNameNS('*', name)).forEach(node => node.parentNode?.removeChild(node));
+  });
+  return Array.from(copy.childNodes)
+    .map(node => serializer.serializeToString(node))
+    .join('')
+    .replace(/ xmlns(:\w+)?="[^"]*"/g, '')
+    .replace(/<p\s*\/>|<p><\/p>/g, '')
+    .trim();
+}
+
+const childByName = (parent: Element | Document, name: string) =>
+  parent.getElementsByTagNameNS('*', name)[0] as Element | undefined;
+
+const outcomeDefault = (item: Element, identifier: string): string | undefined => {
+  const outcome = Array.from(item.getElementsByTagNameNS('*', 'outcomeDeclaration'))
+    .find(o => o.getAttribute('identifier') === identifier);
+  return outcome ? childByName(outcome, 'value')?.textContent?.trim() : undefined;
+};
+
+function parseQtiItem(item: Element): Question | string {
+  const title = item.getAttribute('title') || item.getAttribute('identifier') || 'item';
+  const itemBody = childByName(item, 'itemBody');
+  if (!itemBody) return `${title}: no itemBody`;
+
+  const choice = childByName(itemBody, 'choiceInteraction');
+  const extended = childByName(itemBody, 'extendedTextInteraction');
+  const textEntry = childByName(itemBody, 'textEntryInteraction');
+  const interactionNames = ['choiceInteraction', 'extendedTextInteraction', 'textEntryInteraction'];
+
+  const prompt = choice || extended ? childByName((choice || extended) as Element, 'prompt') : undefined;
+  const questionText = [xmlChildrenToHtml(itemBody, interactionNames), prompt ? xmlChildrenToHtml(prompt) : '']
+    .filter(Boolean)
+    .join('');
+
+  const maxScore = parseFloat(outcomeDefault(item, 'MAXSCORE') || '');
+  const negative = parseFloat(outcomeDefault(item, 'NEGATIVE_MARKS') || '');
+  const base = {
+    questionText,
+    marks: Number.isFinite(maxScore) && maxScore > 0 ? maxScore : 1,
+    negativeMarks: Number.isFinite(negative) ? negative : 0,
+    difficulty: normalizeDifficulty(outcomeDefault(item, 'DIFFICULTY'))
+  };
+
+  if (choice) {
+    const choices = Array.from(choice.getElementsByTagNameNS('*', 'simpleChoice'));
+    if (choices.length > OPTION_LETTERS.length) return `${title}: more than ${OPTION_LETTERS.length} choices`;
+
+    const responseId = choice.getAttribute('responseIdentifier');
+    const declaration = Array.from(item.getElementsByTagNameNS('*', 'responseDeclaration'))
+      .find(d => d.getAttribute('identifier') === responseId);
+    const correctIds = declaration
+      ? Array.from(declaration.getElementsByTagNameNS('*', 'correctResponse'))
+          .flatMap(c => Array.from(c.getElementsByTagNameNS('*', 'value')).map(v => (v.textContent || '').trim()))
+      : [];
+
+    const letters = choices
+      .map((c, i) => (correctIds.includes(c.getAttribute('identifier') || '') ? OPTION_LETTERS[i] : null))
+      .filter((l): l is string => l !== null);
+
+    const question = newQuestion({
+      ...base,
+      questionType: 'MCQ',
+      correctAnswer: letters.join(','),
+      hasMultipleAnswers: declaration?.getAttribute('cardinality') === 'multiple' || letters.length > 1
+    });
+    setOptions(question, choices.map(c => xmlChildrenToHtml(c)));
+    return question;
+  }
+
+  if (extended) {
+    const expectedLength = parseInt(extended.getAttribute('expectedLength') || '', 10);
+    return newQuestion({
+      ...base,
+      questionType: 'LONG_ANSWER',
+      wordLimit: Number.isFinite(expectedLength) ? Math.round(expectedLength / 6) : undefined
+    });
+  }
+
+  if (textEntry) {
+    return newQuestion({ ...base, questionType: 'SHORT_ANSWER' });
+  }
+
+  return `${title}: unsupported interaction type`;
+}
+
+function parseQtiDocument(xml: string, source: string): ParsedQuestions {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { questions: [], errors: [`${source}: not well-formed XML`] };
+  }
+
+  const questions: Question[] = [];
+  const errors: string[] = [];
+  Array.from(doc.getElementsByTagNameNS('*', 'assessmentItem')).forEach(item => {
+    const result = parseQtiItem(item);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else {
+      questions.push(result);
+    }
+  });
+  return { questions, errors };
+}
+
+/**
+ * Parse QTI 2.1 item XML files or a content package (.zip with imsmanifest.xml)
+ */
+export async function parseQuestionsQti(files: File[]): Promise<ParsedQuestions> {
+  const result: ParsedQuestions = { questions: [], errors: [] };
+  const decoder = new TextDecoder();
+
+  for (const file of files) {
+    const documents: Array<{ name: string; xml: string }> = [];
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const entries = await readZip(file);
+      const byName = new Map(entries.map(e => [e.name, e]));
+      const manifest = byName.get('imsmanifest.xml');
+
+      // Follow the manifest order when there is one
+      let itemNames = entries.filter(e => e.name.toLowerCase().endsWith('.xml') && e.name !== 'imsmanifest.xml').map(e => e.name);
+      if (manifest) {
+        const manifestDoc = new DOMParser().parseFromString(decoder.decode(manifest.data), 'application/xml');
+        const hrefs = Array.from(manifestDoc.getElementsByTagNameNS('*', 'resource'))
+          .filter(r => (r.getAttribute('type') || '').startsWith('imsqti_item'))
+          .map(r => r.getAttribute('href') || '')
+          .filter(href => byName.has(href));
+        if (hrefs.length > 0) itemNames = hrefs;
+      }
+      itemNames.forEach(name => documents.push({ name, xml: decoder.decode(byName.get(name)?.data) }));
+    } else {
+      documents.push({ name: file.name, xml: await file.text() });
+    }
+
+    documents.forEach(({ name, xml }) => {
+      const parsed = parseQtiDocument(xml, name);
+      result.questions.push(...parsed.questions);
+      result.errors.push(...parsed.errors);
+    });
+  }
+
+  return result;
+}
+
+function questionToQtiItem(question: Question, index: number): string {
+  const identifier = `item${index + 1}`;
+  const isChoice = question.questionType === 'MCQ' || question.questionType === 'MCQ_IMAGE';
+  const options = getOptions(question);
+  const correct = correctLetters(question);
+  const multiple = isChoice && (question.hasMultipleAnswers || correct.length > 1);
+
+  const outcomes =
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>' +
+    `<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${question.marks}</value></defaultValue></outcomeDeclaration>` +
+    `<outcomeDeclaration identifier="NEGATIVE_MARKS" cardinality="single" baseType="float"><defaultValue><value>${question.negativeMarks || 0}</value></defaultValue></outcomeDeclaration>` +
+    `<outcomeDeclaration identifier="DIFFICULTY" cardinality="single" baseType="identifier"><defaultValue><value>${question.difficulty}</value></defaultValue></outcomeDeclaration>`;
+
+  let response = '';
+  let interaction = '';
+  let processing = '';
+  if (isChoice) {
+    response =
+      `<responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">` +
+      `<correctResponse>${correct.map(l => `<value>choice${l}</value>`).join('')}</correctResponse></responseDeclaration>`;
+    interaction =
+      `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">` +
+      options.map((text, i) => `<simpleChoice identifier="choice${OPTION_LETTERS[i]}">${htmlToXhtml(text)}</simpleChoice>`).join('') +
+      '</choiceInteraction>';
+    processing = '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>';
+  } else {
+    response = '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>';
+    interaction = question.questionType === 'LONG_ANSWER'
+      ? `<extendedTextInteraction responseIdentifier="RESPONSE"${question.wordLimit ? ` expectedLength="${question.wordLimit * 6}"` : ''}/>`
+      : '<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>';
+  }
+
+  const body = htmlToXhtml(question.questionText);
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<assessmentItem xmlns="${QTI_NS}" identifier="${identifier}" title="Question ${index + 1}" adaptive="false" timeDependent="false">` +
+    response + outcomes +
+    `<itemBody>${/^\s*</.test(body) ? body : `<p>${body}</p>`}${interaction}</itemBody>` +
+    processing +
+    '</assessmentItem>';
+}
+
+/**
+ * Build a QTI 2.1 content package (one item file per question + imsmanifest.xml)
+ */
+export function questionsToQtiPackage(questions: Question[]): Blob {
+  const items = questions.map((q, i) => ({ name: `items/item${i + 1}.xml`, data: questionToQtiItem(q, i) }));
+  const manifest = '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST">' +
+    `<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata><organizations/><resources>` +
+    items.map((item, i) =>
+      `<resource identifier="item${i + 1}" type="imsqti_item_xmlv2p1" href="${item.name}"><file href="${item.name}"/></resource>`
+    ).join('') +
+    `</resources></manifest>`;
+
+  return createZip([{ name: 'imsmanifest.xml', data: manifest }, ...items]);
+}
+
+// ============================================================================
+// MOODLE GIFT
+// ============================================================================
+
+// "// @meta ..." comments carry fields GIFT has no syntax for; Moodle ignores them.
+// config= holds the full answer key of structured types (fill-in-the-blank and ordering have no GIFT form)
+const GIFT_META_PREFIX = '// @meta ';
+
+const giftEscape = (value: string) => value.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+const giftUnescape = (value: string) => value.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1').trim();
+
+// Index of the next unescaped occurrence of any of the given characters
+function findUnescaped(text: string, chars: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (chars.includes(text[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseGiftMeta(line: string): Partial<Question> {
+  const meta: Partial<Question> = {};
+  line.slice(GIFT_META_PREFIX.length).split(/\s+/).forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    if (key === 'marks') meta.marks = parseFloat(value) || 1;
+    if (key === 'negativeMarks') meta.negativeMarks = parseFloat(value) || 0;
+    if (key === 'difficulty') meta.difficulty = normalizeDifficulty(value);
+    if (key === 'type' && isQuestionType(value)) meta.questionType = value;
+    if (key === 'wordLimit') meta.wordLimit = parseInt(value, 10) || undefined;
+    if (key === 'tags' && value) meta.tags = decodeURIComponent(value).split(',').filter(Boolean);
+    if (key === 'config' && value) meta.answerConfig = parseAnswerConfig(decodeURIComponent(value));
+  });
+  return meta;
+}
+
+function parseGiftBlock(block: string, meta: Partial<Question>): Question | string {
+  let text = block.trim();
+  let title = '';
+  if (text.startsWith('::')) {
+    const end = text.indexOf('::', 2);
+    if (end !== -1) {
+      title = text.slice(2, end);
+      text = text.slice(end + 2).trim();
+    }
+  }
+  const label = title || text.slice(0, 40);
+
+  const open = findUnescaped(text, '{');
+  const close = open === -1 ? -1 : findUnescaped(text, '}', open);
+  if (open === -1 || close === -1) return `${label}: no answer block`;
+
+  const isHtml = text.startsWith('[html]');
+  const strip = (s: string) => s.replace(/^\[(html|moodle|plain|markdown)\]/, '');
+  const before = giftUnescape(strip(text.slice(0, open)));
+  const after = giftUnescape(text.slice(close + 1));
+  const questionText = (after ? `${before} _____ ${after}` : before).trim();
+  const answerBlock = text.slice(open + 1, close).trim();
+  const base = { ...meta, questionText: isHtml ? questionText : questionText.replace(/\n/g, '<br>') };
+
+  // Structured answer key carried in @meta
+  if (isStructuredType(meta.questionType) && meta.answerConfig) {
+    const question = newQuestion({ ...base, questionType: meta.questionType });
+    question.correctAnswer = describeCorrectAnswer(question);
+    return question;
+  }
+
+  // Essay
+  if (!answerBlock) {
+    return newQuestion({ ...base, questionType: meta.questionType === 'SHORT_ANSWER' ? 'SHORT_ANSWER' : 'LONG_ANSWER' });
+  }
+
+  // True/False
+  const trueFalse = answerBlock.split('#')[0].trim().toUpperCase();
+  if (['T', 'TRUE', 'F', 'FALSE'].includes(trueFalse)) {
+    const question = newQuestion({ ...base, questionType: 'MCQ', correctAnswer: trueFalse.startsWith('T') ? 'A' : 'B' });
+    setOptions(question, ['True', 'False']);
+    return question;
+  }
+
+  // Numerical: {#answer:tolerance}, {#min..max} or {#=answer:tolerance ~...} (first correct answer is used)
+  if (answerBlock.startsWith('#')) {
+    const first = answerBlock.slice(1).replace(/^\s*=/, '').split(/[=~]/)[0].split('#')[0].trim();
+    const range = first.match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)$/);
+    const [value, tolerance = '0'] = first.split(':');
+    const answer = range ? (parseFloat(range[1]) + parseFloat(range[2])) / 2 : parseFloat(value);
+    const margin = range ? Math.abs(parseFloat(range[2]) - parseFloat(range[1])) / 2 : parseFloat(tolerance) || 0;
+    if (!Number.isFinite(answer)) return `${label}: could not read the numerical answer`;
+    const question = newQuestion({
+      ...base,
+      questionType: 'NUMERIC',
+      answerConfig: { partialCredit: 'all_or_nothing', numeric: { answer, tolerance: margin, toleranceType: 'absolute' } }
+    });
+    question.correctAnswer = describeCorrectAnswer(question);
+    return question;
+  }
+
+  // Matching: {=left -> right ...}; an empty left side is a distractor
+  if (answerBlock.includes('->')) {
+    const pairs: Array<{ left: string; right: string }> = [];
+    const distractors: string[] = [];
+    answerBlock.split(/(?:^|\s)=/).map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+      const [left, right = ''] = entry.split('->').map(part => giftUnescape(part));
+      if (left) {
+        pairs.push({ left, right });
+      } else if (right) {
+        distractors.push(right);
+      }
+    });
+    const question = newQuestion({
+      ...base,
+      questionType: 'MATCHING',
+      answerConfig: { partialCredit: 'proportional', matching: { pairs, distractors } }
+    });
+    question.correctAnswer = describeCorrectAnswer(question);
+    return question;
+  }
+
+  // Split "=right ~wrong ~%50%partial #feedback" into answers
+  const answers: Array<{ correct: boolean; weight: number | null; text: string }> = [];
+  let index = findUnescaped(answerBlock, '=~');
+  while (index !== -1) {
+    const next = findUnescaped(answerBlock, '=~', index + 1);
+    let body = answerBlock.slice(index + 1, next === -1 ? undefined : next);
+    const feedback = findUnescaped(body, '#');
+    if (feedback !== -1) body = body.slice(0, feedback);
+
+    let weight: number | null = null;
+    const weightMatch = body.match(/^\s*%(-?[\d.]+)%/);
+    if (weightMatch) {
+      weight = parseFloat(weightMatch[1]);
+      body = body.slice(weightMatch[0].length);
+    }
+    answers.push({ correct: answerBlock[index] === '=', weight, text: giftUnescape(body) });
+    index = next;
+  }
+
+  if (answers.length === 0) return `${label}: could not read answers`;
+
+  // Only "=" answers = short answer (accepted answers kept in the explanation for graders)
+  if (answers.every(a => a.correct) && meta.questionType !== 'MCQ') {
+    return newQuestion({
+      ...base,
+      questionType: 'SHORT_ANSWER',
+      explanation: `Accepted answers: ${answers.map(a => a.text).join(' | ')}`
+    });
+  }
+
+  if (answers.length > OPTION_LETTERS.length) return `${label}: more than ${OPTION_LETTERS.length} options`;
+
+  const correct = answers
+    .map((a, i) => (a.correct || (a.weight !== null && a.weight > 0) ? OPTION_LETTERS[i] : null))
+    .filter((l): l is string => l !== null);
+  const question = newQuestion({
+    ...base,
+    questionType: 'MCQ',
+    correctAnswer: correct.join(','),
+    hasMultipleAnswers: correct.length > 1
+  });
+  setOptions(question, answers.map(a => a.text));
+  return question;
+}
+
+export function parseQuestionsGift(text: string): ParsedQuestions {
+  const questions: Question[] = [];
+  const errors: string[] = [];
+
+  // Questions are separated by blank lines; comment lines are dropped except @meta
+  const blocks: Array<{ text: string; meta: Partial<Question> }> = [];
+  let current: string[] = [];
+  let meta: Partial<Question> = {};
+  const flush = () => {
+    if (current.join('').trim()) blocks.push({ text: current.join('\n'), meta });
+    current = [];
+    meta = {};
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(GIFT_META_PREFIX.trim())) {
+      meta = parseGiftMeta(trimmed);
+    } else if (trimmed.startsWith('//') || trimmed.startsWith('$CATEGORY:')) {
+      return;
+    } else if (!trimmed) {
+      flush();
+    } else {
+      current.push(line);
+    }
+  });
+  flush();
+
+  blocks.forEach(block => {
+    const result = parseGiftBlock(block.text, block.meta);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else {
+      questions.push(result);
+    }
+  });
+
+  return { questions, errors };
+}
+
+export function questionsToGift(questions: Question[]): string {
+  return questions.map((q, i) => {
+    const metaParts = [
+      `marks=${q.marks}`,
+      `negativeMarks=${q.negativeMarks || 0}`,
+      `difficulty=${q.difficulty}`,
+      `type=${q.questionType}`,
+      q.wordLimit ? `wordLimit=${q.wordLimit}` : '',
+      q.tags && q.tags.length > 0 ? `tags=${encodeURIComponent(q.tags.join(','))}` : '',
+      isStructuredType(q.questionType) && q.answerConfig ? `config=${encodeURIComponent(JSON.stringify(q.answerConfig))}` : ''
+    ].filter(Boolean);
+
+    let answers = '';
+    if (q.questionType === 'MCQ' || q.questionType === 'MCQ_IMAGE') {
+      const correct = correctLetters(q);
+      const options = getOptions(q);
+      const multiple = q.hasMultipleAnswers || correct.length > 1;
+      const share = Math.round((100 / Math.max(correct.length, 1)) * 100000) / 100000;
+      answers = options.map((text, index) => {
+        const isCorrect = correct.includes(OPTION_LETTERS[index]);
+        if (multiple) return `~%${isCorrect ? share : -100}%${giftEscape(text)}`;
+        return `${isCorrect ? '=' : '~'}${giftEscape(text)}`;
+      }).join(' ');
+    } else if (q.questionType === 'NUMERIC' && q.answerConfig?.numeric) {
+      const { answer, tolerance, toleranceType } = q.answerConfig.numeric;
+      const margin = toleranceType === 'percent' ? Math.abs(answer) * tolerance / 100 : tolerance;
+      answers = `#${answer}:${margin}`;
+    } else if (q.questionType === 'MATCHING' && q.answerConfig?.matching) {
+      const { pairs, distractors } = q.answerConfig.matching;
+      answers = [
+        ...pairs.map(p => `=${giftEscape(p.left)} -> ${giftEscape(p.right)}`),
+        ...distractors.map(d => `= -> ${giftEscape(d)}`)
+      ].join(' ');
+    }
+
+    return `${GIFT_META_PREFIX}${metaParts.join(' ')}\n::Q${i + 1}::[html]${giftEscape(q.questionText)} {${answers}}`;
+  }).join('\n\n') + '\n';
+}
+
+// ============================================================================
+// DOWNLOAD
+// ============================================================================
+
+export function exportQuestions(questions: Question[], format: QuestionFormat, title: string) {
+  const baseName = (title || 'questions').replace(/[^\w-]+/g, '_');
+  let blob: Blob;
+  let fileName: string;
+  if (format === 'csv') {
+    blob = new Blob([questionsToCsv(questions)], { type: 'text/csv;charset=utf-8;' });
+    fileName = `${baseName}.csv`;
+  } else if (format === 'gift') {
+    blob = new Blob([questionsToGift(questions)], { type: 'text/plain;charset=utf-8;' });
+    fileName = `${baseName}.gift.txt`;
+  } else {
+    blob = questionsToQtiPackage(questions);
+    fileName = `${baseName}_qti21.zip`;
+  }
+
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,130 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createContext, runInContext } from 'vm';
+import type { Question, QuestionAnswerConfig } from '../services/examApi';
+import {
+  describeCorrectAnswer,
+  encodeListAnswer,
+  formatStudentAnswer,
+  parseListAnswer,
+  seededShuffle,
+  validateAnswerConfig,
+} from './structuredAnswers';
+
+// Scoring runs in the Apps Script backend; load it into a sandbox so the real grader is tested
+type Grader = (questionType: string, config: QuestionAnswerConfig | null, answer: string) => number | null;
+const backend: { gradeStructuredAnswer?: Grader } = {};
+createContext(backend);
+runInContext(readFileSync(join(__dirname, '../../../backend/Exam Backend/Exam_Management.js'), 'utf8'), backend);
+const grade = backend.gradeStructuredAnswer as Grader;
+
+const numeric = (overrides: Partial<NonNullable<QuestionAnswerConfig['numeric']>> = {}, partialCredit: QuestionAnswerConfig['partialCredit'] = 'all_or_nothing'): QuestionAnswerConfig => ({
+  partialCredit,
+  numeric: { answer: 100, tolerance: 0, toleranceType: 'absolute', unit: '', unitRequired: false, ...overrides },
+});
+
+describe('gradeStructuredAnswer', () => {
+  it('returns null for types it does not grade and 0 for empty answers', () => {
+    expect(grade('MCQ', numeric(), 'A')).toBeNull();
+    expect(grade('NUMERIC', numeric(), '')).toBe(0);
+    expect(grade('NUMERIC', null, '100')).toBe(0);
+  });
+
+  it('grades numeric answers with absolute and percent tolerance', () => {
+    expect(grade('NUMERIC', numeric(), '100')).toBe(1);
+    expect(grade('NUMERIC', numeric(), '1,00')).toBe(1);
+    expect(grade('NUMERIC', numeric(), '100.5')).toBe(0);
+    expect(grade('NUMERIC', numeric({ tolerance: 0.5 }), '100.5')).toBe(1);
+    expect(grade('NUMERIC', numeric({ tolerance: 2, toleranceType: 'percent' }), '98')).toBe(1);
+    expect(grade('NUMERIC', numeric({ tolerance: 2, toleranceType: 'percent' }), '97.9')).toBe(0);
+    expect(grade('NUMERIC', numeric({ answer: 0.3 }), String(0.1 + 0.2))).toBe(1);
+    expect(grade('NUMERIC', numeric(), 'about 100')).toBe(0);
+  });
+
+  it('gives half marks for unit errors and partial tolerance only in proportional mode', () => {
+    const unit = { unit: 'kg', unitRequired: true };
+    expect(grade('NUMERIC', numeric(unit), '100 KG')).toBe(1);
+    expect(grade('NUMERIC', numeric(unit), '100 g')).toBe(0);
+    expect(grade('NUMERIC', numeric(unit, 'proportional'), '100 g')).toBe(0.5);
+    expect(grade('NUMERIC', numeric({ partialTolerance: 5 }, 'proportional'), '104')).toBe(0.5);
+    expect(grade('NUMERIC', numeric({ partialTolerance: 5 }), '104')).toBe(0);
+  });
+
+  it('grades fill-in-the-blank per blank with any accepted answer', () => {
+    const config: QuestionAnswerConfig = { partialCredit: 'proportional', fillBlank: { blanks: [['Paris'], ['Seine', 'La Seine']], caseSensitive: false } };
+    expect(grade('FILL_BLANK', config, JSON.stringify(['  paris ', 'la  seine']))).toBe(1);
+    expect(grade('FILL_BLANK', config, JSON.stringify(['Paris', '']))).toBe(0.5);
+    expect(grade('FILL_BLANK', { ...config, partialCredit: 'all_or_nothing' }, JSON.stringify(['Paris', '']))).toBe(0);
+    expect(grade('FILL_BLANK', { ...config, fillBlank: { ...config.fillBlank!, caseSensitive: true } }, JSON.stringify(['paris', 'Seine']))).toBe(0.5);
+    expect(grade('FILL_BLANK', config, 'not json')).toBe(0);
+  });
+
+  it('grades matching and ordering by position', () => {
+    const matching: QuestionAnswerConfig = {
+      partialCredit: 'proportional',
+      matching: { pairs: [{ left: 'H2O', right: 'Water' }, { left: 'NaCl', right: 'Salt' }], distractors: ['Sugar'] },
+    };
+    expect(grade('MATCHING', matching, JSON.stringify(['Water', 'Salt']))).toBe(1);
+    expect(grade('MATCHING', matching, JSON.stringify(['Water', 'Sugar']))).toBe(0.5);
+    expect(grade('MATCHING', matching, JSON.stringify(['water', 'salt']))).toBe(0);
+
+    const ordering: QuestionAnswerConfig = { partialCredit: 'proportional', ordering: { items: ['a', 'b', 'c', 'd'] } };
+    expect(grade('ORDERING', ordering, JSON.stringify(['a', 'b', 'c', 'd']))).toBe(1);
+    expect(grade('ORDERING', ordering, JSON.stringify(['a', 'b', 'd', 'c']))).toBe(0.5);
+    expect(grade('ORDERING', { ...ordering, partialCredit: 'all_or_nothing' }, JSON.stringify(['a', 'b', 'd', 'c']))).toBe(0);
+    expect(grade('ORDERING', { partialCredit: 'proportional', ordering: { items: [] } }, JSON.stringify([]))).toBe(0);
+  });
+});
+
+describe('list answers', () => {
+  it('round-trips list answers and treats all-empty lists as not attempted', () => {
+    expect(encodeListAnswer(['', '  '])).toBe('');
+    expect(parseListAnswer(encodeListAnswer(['a', '']))).toEqual(['a', '']);
+    expect(parseListAnswer('[1,null]')).toEqual(['1', '']);
+    expect(parseListAnswer('{"a":1}')).toEqual([]);
+    expect(parseListAnswer('oops')).toEqual([]);
+    expect(parseListAnswer(undefined)).toEqual([]);
+  });
+
+  it('shuffles deterministically per seed without losing items', () => {
+    const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const first = seededShuffle(items, 'student-1:q1');
+    expect(seededShuffle(items, 'student-1:q1')).toEqual(first);
+    expect([...first].sort()).toEqual(items);
+    expect(items).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+  });
+});
+
+describe('validateAnswerConfig', () => {
+  it('flags incomplete answer keys', () => {
+    expect(validateAnswerConfig({ questionType: 'NUMERIC', answerConfig: numeric({ tolerance: -1, unitRequired: true }) }))
+      .toEqual(['Tolerance cannot be negative', 'Unit is required when units are checked']);
+    expect(validateAnswerConfig({ questionType: 'NUMERIC', answerConfig: numeric({ answer: NaN }) })).toEqual(['Numeric answer is required']);
+    expect(validateAnswerConfig({
+      questionType: 'FILL_BLANK',
+      questionText: 'Capital of France is [blank]',
+      answerConfig: { partialCredit: 'proportional', fillBlank: { blanks: [['Paris'], ['']], caseSensitive: false } },
+    })).toEqual(['Question text has 1 [blank] markers but 2 blanks are defined', 'Blank 2 needs at least one accepted answer']);
+    expect(validateAnswerConfig({
+      questionType: 'MATCHING',
+      answerConfig: { partialCredit: 'proportional', matching: { pairs: [{ left: 'a', right: 'x' }], distractors: ['x'] } },
+    })).toEqual(['Matching needs at least 2 pairs', 'Right-hand items must be unique']);
+    expect(validateAnswerConfig({ questionType: 'ORDERING', answerConfig: { partialCredit: 'proportional', ordering: { items: ['a', 'a ', ''] } } }))
+      .toEqual(['Ordering items cannot be empty', 'Ordering items must be unique']);
+    expect(validateAnswerConfig({ questionType: 'MCQ' })).toEqual([]);
+  });
+});
+
+describe('answer display', () => {
+  it('describes answer keys and student answers', () => {
+    const question: Partial<Question> = { questionType: 'NUMERIC', answerConfig: numeric({ tolerance: 5, toleranceType: 'percent', unit: 'kg' }) };
+    expect(describeCorrectAnswer(question)).toBe('100 ± 5% kg');
+    expect(describeCorrectAnswer({ questionType: 'ORDERING', answerConfig: { partialCredit: 'proportional', ordering: { items: ['a', 'b'] } } })).toBe('a → b');
+    expect(describeCorrectAnswer({ questionType: 'MCQ', correctAnswer: 'B' })).toBe('B');
+
+    const matching: QuestionAnswerConfig = { partialCredit: 'proportional', matching: { pairs: [{ left: 'H2O', right: 'Water' }, { left: 'NaCl', right: 'Salt' }], distractors: [] } };
+    expect(formatStudentAnswer('MATCHING', JSON.stringify(['Water', '']), matching)).toBe('H2O → Water; NaCl → —');
+    expect(formatStudentAnswer('FILL_BLANK', JSON.stringify(['Paris']))).toBe('(1) Paris');
+    expect(formatStudentAnswer('NUMERIC', '')).toBe('');
+  });
+});
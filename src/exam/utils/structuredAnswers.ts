@@ -0,0 +1,173 @@
+/**
+ * Structured Question Types
+ * Answer encoding, answer-key validation and display helpers for NUMERIC, FILL_BLANK, MATCHING and ORDERING.
+ * Scoring happens in the backend (gradeStructuredAnswer in Exam_Management.js) at submission.
+ *
+ * Answers are stored as strings like every other question type:
+ * - NUMERIC: the typed value with optional unit, e.g. "1250.50 INR"
+ * - FILL_BLANK: JSON array with one entry per blank
+ * - MATCHING: JSON array with the chosen right-hand item for each left-hand item
+ * - ORDERING: JSON array of the items in the student's order
+ */
+
+import type { Question, QuestionAnswerConfig, StructuredQuestionType } from '../services/examApi';
+
+export const STRUCTURED_QUESTION_TYPES: StructuredQuestionType[] = ['NUMERIC', 'FILL_BLANK', 'MATCHING', 'ORDERING'];
+
+export const BLANK_MARKER = '[blank]';
+
+export const isStructuredType = (questionType?: string): questionType is StructuredQuestionType =>
+  STRUCTURED_QUESTION_TYPES.includes(questionType as StructuredQuestionType);
+
+// Every question type the builder and the grader know
+export const QUESTION_TYPES: Question['questionType'][] = ['MCQ', 'MCQ_IMAGE', 'SHORT_ANSWER', 'LONG_ANSWER', ...STRUCTURED_QUESTION_TYPES];
+
+export const isQuestionType = (questionType?: string): questionType is Question['questionType'] =>
+  QUESTION_TYPES.includes(questionType as Question['questionType']);
+
+export function defaultAnswerConfig(questionType: StructuredQuestionType): QuestionAnswerConfig {
+  switch (questionType) {
+    case 'NUMERIC':
+      return { partialCredit: 'all_or_nothing', numeric: { answer: 0, tolerance: 0, toleranceType: 'absolute', unit: '', unitRequired: false } };
+    case 'FILL_BLANK':
+      return { partialCredit: 'proportional', fillBlank: { blanks: [['']], caseSensitive: false } };
+    case 'MATCHING':
+      return { partialCredit: 'proportional', matching: { pairs: [{ left: '', right: '' }, { left: '', right: '' }], distractors: [] } };
+    case 'ORDERING':
+      return { partialCredit: 'proportional', ordering: { items: ['', '', ''] } };
+  }
+}
+
+export const countBlanks = (questionText: string) => questionText.split(BLANK_MARKER).length - 1;
+
+export function parseListAnswer(answer: string | undefined): string[] {
+  if (!answer) return [];
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed.map(v => (v === null || v === undefined ? '' : String(v))) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Empty list answers are stored as '' so "not attempted" works the same as for other types
+export const encodeListAnswer = (values: string[]) =>
+  values.some(v => v.trim() !== '') ? JSON.stringify(values) : '';
+
+/**
+ * Deterministic shuffle so a student sees the same order after a reload
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  const random = () => {
+    hash = (hash + 0x6d2b79f5) | 0;
+    let t = Math.imul(hash ^ (hash >>> 15), 1 | hash);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Answer-key problems for a structured question (empty = valid)
+ */
+export function validateAnswerConfig(question: Partial<Question>): string[] {
+  const config = question.answerConfig;
+  const errors: string[] = [];
+
+  switch (question.questionType) {
+    case 'NUMERIC': {
+      const numeric = config?.numeric;
+      if (!numeric || !Number.isFinite(numeric.answer)) errors.push('Numeric answer is required');
+      if (numeric && (numeric.tolerance < 0 || !Number.isFinite(numeric.tolerance))) errors.push('Tolerance cannot be negative');
+      if (numeric?.unitRequired && !numeric.unit?.trim()) errors.push('Unit is required when units are checked');
+      break;
+    }
+    case 'FILL_BLANK': {
+      const blanks = config?.fillBlank?.blanks || [];
+      const markers = countBlanks(question.questionText || '');
+      if (markers === 0) errors.push(`Question text needs at least one ${BLANK_MARKER} marker`);
+      if (markers !== blanks.length) errors.push(`Question text has ${markers} ${BLANK_MARKER} markers but ${blanks.length} blanks are defined`);
+      blanks.forEach((accepted, i) => {
+        if (!accepted.some(a => a.trim())) errors.push(`Blank ${i + 1} needs at least one accepted answer`);
+      });
+      break;
+    }
+    case 'MATCHING': {
+      const pairs = config?.matching?.pairs || [];
+      if (pairs.length < 2) errors.push('Matching needs at least 2 pairs');
+      if (pairs.some(p => !p.left.trim() || !p.right.trim())) errors.push('Every matching pair needs both sides');
+      const rights = [...pairs.map(p => p.right.trim()), ...(config?.matching?.distractors || []).map(d => d.trim())];
+      if (new Set(rights).size !== rights.length) errors.push('Right-hand items must be unique');
+      break;
+    }
+    case 'ORDERING': {
+      const items = config?.ordering?.items || [];
+      if (items.length < 2) errors.push('Ordering needs at least 2 items');
+      if (items.some(item => !item.trim())) errors.push('Ordering items cannot be empty');
+      if (new Set(items.map(i => i.trim())).size !== items.length) errors.push('Ordering items must be unique');
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Readable answer key, saved as correctAnswer so result pages and response sheets can show it
+ */
+export function describeCorrectAnswer(question: Partial<Question>): string {
+  const config = question.answerConfig;
+  switch (question.questionType) {
+    case 'NUMERIC': {
+      const numeric = config?.numeric;
+      if (!numeric) return '';
+      const tolerance = numeric.tolerance > 0
+        ? ` ± ${numeric.tolerance}${numeric.toleranceType === 'percent' ? '%' : ''}`
+        : '';
+      return `${numeric.answer}${tolerance}${numeric.unit ? ` ${numeric.unit}` : ''}`;
+    }
+    case 'FILL_BLANK':
+      return (config?.fillBlank?.blanks || [])
+        .map((accepted, i) => `(${i + 1}) ${accepted.map(a => a.trim()).filter(Boolean).join(' / ')}`)
+        .join('; ');
+    case 'MATCHING':
+      return (config?.matching?.pairs || []).map(p => `${p.left} → ${p.right}`).join('; ');
+    case 'ORDERING':
+      return (config?.ordering?.items || []).join(' → ');
+    default:
+      return question.correctAnswer || '';
+  }
+}
+
+/**
+ * Student answer as readable text (results and review screens)
+ */
+export function formatStudentAnswer(questionType: string | undefined, answer: string, answerConfig?: QuestionAnswerConfig): string {
+  if (!answer) return '';
+  switch (questionType) {
+    case 'FILL_BLANK':
+      return parseListAnswer(answer).map((value, i) => `(${i + 1}) ${value || '—'}`).join('; ');
+    case 'MATCHING': {
+      const values = parseListAnswer(answer);
+      const pairs = answerConfig?.matching?.pairs;
+      return values
+        .map((value, i) => `${pairs?.[i]?.left || i + 1} → ${value || '—'}`)
+        .join('; ');
+    }
+    case 'ORDERING':
+      return parseListAnswer(answer).join(' → ');
+    default:
+      return answer;
+  }
+}
@@ -11,6 +11,7 @@ import {
   Briefcase,
   Activity,
   ClipboardList,
+  BookOpenCheck,
   Settings,
   Users,
   BarChart3,
@@ -198,6 +199,14 @@ export function AdminPage() {
       accentColor: 'bg-cyan-500',
       route: '/admin/assignments',
     },
+    {
+      id: 'gradebook',
+      title: 'Gradebook',
+      description: 'Weighted grades across exams, assignments and peer ratings per subject',
+      icon: BookOpenCheck,
+      accentColor: 'bg-violet-500',
+      route: '/admin/gradebook',
+    },
     {
       id: 'placement',
       title: 'Placement Management',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { auth } from '../firebase/config';
 import { Button } from '../components/ui/button';
@@ -19,8 +19,10 @@ import {
   Users,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { getFormById, submitFormResponse, uploadStudentFile, type Question, getAvailableStudentsForQuestion, type Student, getStudentGroupStatus, validateGroupMembers, getUserFormResponses } from '../services/formsApi';
+import { getFormById, submitFormResponse, uploadStudentFile, type Question, getAvailableStudentsForQuestion, type Student, getStudentGroupStatus, validateGroupMembers, getUserFormResponses, getFormDraft, saveFormDraft, deleteFormDraft } from '../services/formsApi';
 import { useActivityTracker } from '../hooks/useActivityTracker';
+import { answersByIndex, getNextQuestionIndex } from '../utils/formLogic';
+import { PAGE_BREAK_TYPE, buildFormPages, getNextPageIndex, getPageAt, getPageQuestionIndexes } from '../utils/formPages';
 
 interface FormData {
   id: string;
@@ -35,6 +37,24 @@ interface Response {
   [questionId: string]: any;
 }
 
+// Autosave delay after the last change
+const DRAFT_SAVE_DELAY_MS = 2000;
+
+interface DraftState {
+  answers: Response;
+  currentIndex: number;
+  path: number[];
+}
+
+// Selected files are only uploaded on submit, so drafts keep every other answer
+function toDraft(responses: Response, currentIndex: number, path: number[]): DraftState {
+  const answers: Response = {};
+  Object.keys(responses).forEach(key => {
+    if (!(responses[key] instanceof File)) answers[key] = responses[key];
+  });
+  return { answers, currentIndex, path };
+}
+
 export function FormFillPage() {
   const { formId } = useParams<{ formId: string }>();
   const navigate = useNavigate();
@@ -42,16 +62,27 @@ export function FormFillPage() {
   const [form, setForm] = useState<FormData | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const [history, setHistory] = useState<number[]>([]);
   const [responses, setResponses] = useState<Response>({});
   const [submitting, setSubmitting] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  const [draftsEnabled, setDraftsEnabled] = useState(false);
+  const [draftStatus, setDraftStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [hasDraft, setHasDraft] = useState(false);
   const [startTime] = useState<number>(Date.now());
   const [groupSelectionStatus, setGroupSelectionStatus] = useState<Record<string, { isFilled: boolean; groupMembers: string[]; availableStudentsCount?: number }>>({});
   const [groupSelectionRefreshCallbacks, setGroupSelectionRefreshCallbacks] = useState<Record<string, () => void>>({});
   const inputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Answers loaded from a previous complete response, restored when a draft is discarded
+  const initialResponsesRef = useRef<Response>({});
+  // Last draft the server has, and the newer one waiting for the autosave timer
+  const savedDraftRef = useRef<string>('');
+  const pendingDraftRef = useRef<DraftState | null>(null);
   const { trackFormInteraction } = useActivityTracker();
 
+  const pages = useMemo(() => buildFormPages(questions), [questions]);
+
   const user = auth.currentUser;
 
   useEffect(() => {
@@ -69,6 +100,68 @@ export function FormFillPage() {
     }
   }, [currentIndex]);
 
+  const persistDraft = useCallback(async (draft: DraftState, keepalive = false) => {
+    if (!formId) return;
+    const serialized = JSON.stringify(draft);
+    setDraftStatus('saving');
+    const result = await saveFormDraft(formId, draft, keepalive);
+    if (result.success) {
+      savedDraftRef.current = serialized;
+      if (pendingDraftRef.current && JSON.stringify(pendingDraftRef.current) === serialized) {
+        pendingDraftRef.current = null;
+      }
+      setHasDraft(true);
+      setDraftStatus('saved');
+    } else {
+      console.error('Error saving draft:', result.error);
+      setDraftStatus('error');
+      // Closed forms and used-up submissions can't hold a draft; stop retrying
+      if (result.error === 'FORM_EXPIRED' || result.error === 'DRAFT_NOT_ALLOWED') {
+        setDraftsEnabled(false);
+      }
+    }
+  }, [formId]);
+
+  // Autosave the answers and position shortly after each change
+  useEffect(() => {
+    if (!draftsEnabled || isComplete || submitting) return;
+    const draft = toDraft(responses, currentIndex, history);
+    if (JSON.stringify(draft) === savedDraftRef.current) return;
+
+    pendingDraftRef.current = draft;
+    const timer = setTimeout(() => persistDraft(draft), DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [responses, currentIndex, history, draftsEnabled, isComplete, submitting, persistDraft]);
+
+  // Save unsaved changes when the tab is closed or the user leaves the page
+  useEffect(() => {
+    const flush = () => {
+      if (pendingDraftRef.current) persistDraft(pendingDraftRef.current, true);
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [persistDraft]);
+
+  const handleDiscardDraft = async () => {
+    if (!formId || !window.confirm('Discard your saved draft and start again?')) return;
+    pendingDraftRef.current = null;
+    const result = await deleteFormDraft(formId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to discard draft');
+      return;
+    }
+    savedDraftRef.current = JSON.stringify(toDraft(initialResponsesRef.current, 0, []));
+    setResponses(initialResponsesRef.current);
+    setCurrentIndex(0);
+    setHistory([]);
+    setHasDraft(false);
+    setDraftStatus('idle');
+    toast.success('Draft discarded');
+  };
+
   const fetchForm = async () => {
     if (!formId) return;
 
@@ -105,6 +198,7 @@ export function FormFillPage() {
             console.log('✏️ Loading existing response for editing...');
             const latestResponse = completedResponses[0];
             if (latestResponse.responseData) {
+              initialResponsesRef.current = latestResponse.responseData;
               setResponses(latestResponse.responseData);
               toast('Editing your previous response', { icon: '✏️' });
             }
@@ -122,6 +216,27 @@ export function FormFillPage() {
           }
         }
 
+        // Resume a saved draft (from any device); it is newer than any submitted response
+        const draftResult = await getFormDraft(formId);
+        let loaded = toDraft(initialResponsesRef.current, 0, []);
+        if (draftResult.success && draftResult.data) {
+          const draft = draftResult.data;
+          const inRange = (i: number) => Number.isInteger(i) && i >= 0 && i < sortedQuestions.length;
+          loaded = {
+            answers: draft.answers || {},
+            currentIndex: inRange(draft.currentIndex) ? draft.currentIndex : 0,
+            path: (draft.path || []).filter(inRange),
+          };
+          setResponses(loaded.answers);
+          setCurrentIndex(loaded.currentIndex);
+          setHistory(loaded.path);
+          setHasDraft(true);
+          setDraftStatus('saved');
+          toast('Resumed your saved draft', { icon: '💾' });
+        }
+        savedDraftRef.current = JSON.stringify(loaded);
+        setDraftsEnabled(true);
+
         // Track form opened
         trackFormInteraction(formData.name, 'opened');
       } else {
@@ -138,142 +253,29 @@ export function FormFillPage() {
   };
 
   const currentQuestion = questions[currentIndex];
-  const progress = questions.length > 0 ? ((currentIndex + 1) / questions.length) * 100 : 0;
-
-  // Check if a question should be visible based on conditional logic
-  const isQuestionVisible = (question: Question): boolean => {
-    // Always show Start Screen and End Screen
-    if (question.questionType === 'Start Screen' || question.questionType === 'End Screen') {
-      return true;
-    }
-
-    // Check if question has conditional logic with "show" or "hide" actions
-    const hasConditionalLogic = question.hasConditionalLogic === 'Yes' || question.hasConditionalLogic === true;
-    const conditionalRules = question.conditionalRules || [];
-
-    if (!hasConditionalLogic || conditionalRules.length === 0) {
-      // No conditional logic, always show
-      return true;
-    }
-
-    console.log(`🔍 Checking conditional logic for "${question.questionText}":`, {
-      hasConditionalLogic,
-      rulesCount: conditionalRules.length,
-      rules: conditionalRules
-    });
-
-    // Check each rule
-    for (const rule of conditionalRules) {
-      const action = rule.action?.toLowerCase();
-
-      // Only handle show/hide actions here
-      if (action !== 'show' && action !== 'hide') {
-        continue;
-      }
-
-      // Get the question that the rule references (by index)
-      const targetIndex = parseInt(rule.questionIndex);
-      if (isNaN(targetIndex) || targetIndex < 0 || targetIndex >= questions.length) {
-        console.warn(`⚠️ Invalid target index: ${rule.questionIndex}`);
-        continue;
-      }
-
-      const targetQuestion = questions[targetIndex];
-      const targetQuestionKey = targetQuestion.questionId || targetQuestion.id;
-      const targetResponse = responses[targetQuestionKey];
-
-      console.log(`  🔍 Rule: targetIndex=${targetIndex}, operator="${rule.operator}", value=${rule.value}, response=${targetResponse}`);
-
-      // Evaluate the rule condition
-      const conditionMet = evaluateRuleCondition(rule.operator, rule.value, targetResponse);
-
-      console.log(`  ${conditionMet ? '✅' : '❌'} Condition ${conditionMet ? 'MET' : 'NOT MET'} - Action: ${action}`);
-
-      // Apply the action
-      if (action === 'show') {
-        // Show only if condition is met
-        if (conditionMet) {
-          console.log(`  ✅ SHOWING question`);
-          return true;
-        }
-      } else if (action === 'hide') {
-        // Hide if condition is met
-        if (conditionMet) {
-          console.log(`  ❌ HIDING question`);
-          return false;
-        }
-      }
-    }
-
-    // Default behavior:
-    // - If there are "show" rules and none matched, hide the question
-    // - If there are only "hide" rules and none matched, show the question
-    const hasShowRules = conditionalRules.some(r => r.action?.toLowerCase() === 'show');
-    const result = !hasShowRules;
-    console.log(`  Default: hasShowRules=${hasShowRules}, result=${result ? 'SHOW' : 'HIDE'}`);
-    return result;
+  const paged = pages.length < questions.length;
+  const pageNumber = getPageAt(pages, currentIndex) + 1;
+  const pageIndexes = paged
+    ? getPageQuestionIndexes(questions, pages, currentIndex, answersByIndex(questions, responses))
+    : [currentIndex];
+  const progress = pages.length > 0 ? (pageNumber / pages.length) * 100 : 0;
+
+  // Follow skip/jump/submit rules and pass over hidden questions (and, for paged forms, the rest of the page)
+  const getNextIndex = () => {
+    const answers = answersByIndex(questions, responses);
+    return paged
+      ? getNextPageIndex(questions, pages, currentIndex, answers)
+      : getNextQuestionIndex(questions, currentIndex, answers);
   };
 
-  // Evaluate a single rule condition
-  const evaluateRuleCondition = (operator: string, ruleValue: any, response: any): boolean => {
-    // Normalize operator to handle both snake_case and title case with spaces
-    const normalizedOp = operator?.toLowerCase().replace(/\s+/g, '_');
-
-    switch (normalizedOp) {
-      case 'equals':
-      case 'is':
-        return String(response) === String(ruleValue);
-
-      case 'not_equals':
-      case 'is_not':
-        return String(response) !== String(ruleValue);
-
-      case 'contains':
-        if (Array.isArray(response)) {
-          return response.includes(ruleValue);
-        }
-        return String(response).toLowerCase().includes(String(ruleValue).toLowerCase());
-
-      case 'does_not_contain':
-        if (Array.isArray(response)) {
-          return !response.includes(ruleValue);
-        }
-        return !String(response).toLowerCase().includes(String(ruleValue).toLowerCase());
-
-      case 'greater_than':
-        return parseFloat(response) > parseFloat(ruleValue);
-
-      case 'less_than':
-        return parseFloat(response) < parseFloat(ruleValue);
-
-      case 'greater_than_or_equal':
-        return parseFloat(response) >= parseFloat(ruleValue);
-
-      case 'less_than_or_equal':
-        return parseFloat(response) <= parseFloat(ruleValue);
-
-      case 'is_empty':
-      case 'is_blank':
-        return !response || response === '' || (Array.isArray(response) && response.length === 0);
-
-      case 'is_not_empty':
-      case 'is_not_blank':
-        return !!response && response !== '' && (!Array.isArray(response) || response.length > 0);
-
-      case 'starts_with':
-        return String(response).toLowerCase().startsWith(String(ruleValue).toLowerCase());
-
-      case 'ends_with':
-        return String(response).toLowerCase().endsWith(String(ruleValue).toLowerCase());
-
-      default:
-        console.warn(`Unknown operator: ${operator} (normalized: ${normalizedOp})`);
-        return false;
-    }
+  // Remember the path taken so Previous retraces skips and jumps
+  const goToQuestion = (index: number) => {
+    setHistory(prev => [...prev, currentIndex]);
+    setCurrentIndex(index);
   };
 
-  const handleNext = async () => {
-    const current = questions[currentIndex];
+  // Check one question's answer; shows a toast and returns false when it is not acceptable
+  const validateQuestion = async (current: Question): Promise<boolean> => {
     const questionKey = current.questionId || current.id;
 
     // Validate Group Selection min/max (must come before general required check)
@@ -310,7 +312,7 @@ export function FormFillPage() {
         const isRequired = (current.isRequired as any) === true || (current.isRequired as any) === 'Yes' || (current.isRequired as any) === 'TRUE';
         if (isRequired && selectedStudents.length === 0) {
           toast.error('This question is required');
-          return;
+          return false;
         }
 
         // Get available students count for this question
@@ -337,12 +339,12 @@ export function FormFillPage() {
           } else {
             toast.error(`Please select at least ${minSize} students for your group`);
           }
-          return;
+          return false;
         }
 
         if (selectedStudents.length > maxSize) {
           toast.error(`Please select no more than ${maxSize} students for your group`);
-          return;
+          return false;
         }
 
         // Backend validation - check if selected members are still available
@@ -385,12 +387,12 @@ export function FormFillPage() {
                 groupSelectionRefreshCallbacks[questionKey]();
               }
 
-              return; // Stay on current question
+              return false; // Stay on current question
             }
           } catch (error: any) {
             toast.dismiss(loadingToast);
             toast.error('Failed to validate group members. Please try again.');
-            return;
+            return false;
           }
         }
       }
@@ -407,177 +409,61 @@ export function FormFillPage() {
 
           if (!trimmedResponse) {
             toast.error('This question is required');
-            return;
+            return false;
           }
 
           // Minimum character requirement for required fields
           const minChars = 100;
           if (trimmedResponse.length < minChars) {
             toast.error(`Please enter at least ${minChars} characters`);
-            return;
+            return false;
           }
         } else if (!response) {
           // For other question types, just check if response exists
           toast.error('This question is required');
-          return;
+          return false;
         }
       }
     }
 
-    // Find next visible question
-    let nextIndex = currentIndex + 1;
-    while (nextIndex < questions.length && !isQuestionVisible(questions[nextIndex])) {
-      nextIndex++;
+    return true;
+  };
+
+  const handleNext = async () => {
+    // Paged forms validate every visible question on the page
+    const toValidate = paged
+      ? pageIndexes.map(i => questions[i]).filter(q => q.questionType !== PAGE_BREAK_TYPE)
+      : [questions[currentIndex]];
+
+    for (const question of toValidate) {
+      if (!(await validateQuestion(question))) {
+        if (paged) {
+          document
+            .getElementById(`question-${question.questionId || question.id}`)
+            ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+        return;
+      }
     }
 
+    const nextIndex = getNextIndex();
+
     // Check if this is the last question OR next question is End Screen
     if (nextIndex >= questions.length) {
       handleSubmit();
     } else if (questions[nextIndex]?.questionType === 'End Screen') {
       // Submit form before showing End Screen
       handleSubmit();
-      setCurrentIndex(nextIndex);
+      goToQuestion(nextIndex);
     } else {
-      setCurrentIndex(nextIndex);
-    }
-  };
-
-  // Evaluate conditional logic rules for current question
-  const evaluateConditionalLogic = (question: Question, currentResponse: any): number => {
-    // Check if question has conditional logic
-    const hasConditionalLogic = question.hasConditionalLogic === 'Yes' || question.hasConditionalLogic === true;
-    const conditionalRules = question.conditionalRules || [];
-
-    if (!hasConditionalLogic || conditionalRules.length === 0) {
-      // No conditional logic, proceed to next question
-      return currentIndex + 1;
-    }
-
-    // Sort rules by order
-    const sortedRules = [...conditionalRules].sort((a: any, b: any) => (a.order || 0) - (b.order || 0));
-
-    // Evaluate each rule
-    for (const rule of sortedRules) {
-      if (evaluateRule(rule, currentResponse)) {
-        // Rule matched, execute action
-        return executeRuleAction(rule);
-      }
-    }
-
-    // No rules matched, proceed normally
-    return currentIndex + 1;
-  };
-
-  // Evaluate a single conditional rule
-  const evaluateRule = (rule: any, response: any): boolean => {
-    const operator = rule.operator;
-    const ruleValue = rule.value;
-
-    // Normalize operator to handle both snake_case and Title Case
-    const normalizedOperator = operator.toLowerCase().replace(/\s+/g, '_');
-
-    // Handle different operators
-    switch (normalizedOperator) {
-      case 'equals':
-      case 'is':
-        return String(response) === String(ruleValue);
-
-      case 'not_equals':
-      case 'is_not':
-        return String(response) !== String(ruleValue);
-
-      case 'contains':
-        if (Array.isArray(response)) {
-          return response.includes(ruleValue);
-        }
-        return String(response).toLowerCase().includes(String(ruleValue).toLowerCase());
-
-      case 'does_not_contain':
-        if (Array.isArray(response)) {
-          return !response.includes(ruleValue);
-        }
-        return !String(response).toLowerCase().includes(String(ruleValue).toLowerCase());
-
-      case 'greater_than':
-        return parseFloat(response) > parseFloat(ruleValue);
-
-      case 'less_than':
-        return parseFloat(response) < parseFloat(ruleValue);
-
-      case 'greater_than_or_equal':
-        return parseFloat(response) >= parseFloat(ruleValue);
-
-      case 'less_than_or_equal':
-        return parseFloat(response) <= parseFloat(ruleValue);
-
-      case 'is_empty':
-      case 'is_blank':
-        return !response || response === '' || (Array.isArray(response) && response.length === 0);
-
-      case 'is_not_empty':
-      case 'is_not_blank':
-        return !!response && response !== '' && (!Array.isArray(response) || response.length > 0);
-
-      case 'starts_with':
-        return String(response).toLowerCase().startsWith(String(ruleValue).toLowerCase());
-
-      case 'ends_with':
-        return String(response).toLowerCase().endsWith(String(ruleValue).toLowerCase());
-
-      default:
-        console.warn(`Unknown operator: ${operator}`);
-        return false;
-    }
-  };
-
-  // Execute the action specified in the rule
-  const executeRuleAction = (rule: any): number => {
-    const action = rule.action;
-    const targetIndex = parseInt(rule.questionIndex);
-
-    switch (action) {
-      case 'Jump to':
-      case 'Go to':
-        // Jump to specific question by index
-        if (!isNaN(targetIndex) && targetIndex >= 0 && targetIndex < questions.length) {
-          return targetIndex;
-        }
-        console.warn(`Invalid target index: ${targetIndex}`);
-        return currentIndex + 1;
-
-      case 'Skip':
-      case 'Skip Next':
-        // Skip next question
-        return currentIndex + 2;
-
-      case 'Skip to End':
-      case 'Submit':
-        // Jump to last question (which will trigger submit)
-        return questions.length - 1;
-
-      case 'Show':
-      case 'Hide':
-        // These actions would require different implementation
-        // For now, proceed normally
-        console.warn(`Action '${action}' not yet implemented for navigation`);
-        return currentIndex + 1;
-
-      default:
-        console.warn(`Unknown action: ${action}`);
-        return currentIndex + 1;
+      goToQuestion(nextIndex);
     }
   };
 
   const handlePrevious = () => {
-    // Find previous visible question
-    let prevIndex = currentIndex - 1;
-    while (prevIndex >= 0 && !isQuestionVisible(questions[prevIndex])) {
-      prevIndex--;
-    }
-
-    if (prevIndex >= 0) {
-      setCurrentIndex(prevIndex);
-    }
+    if (history.length === 0) return;
+    setCurrentIndex(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -663,6 +549,8 @@ export function FormFillPage() {
 
       if (result.success) {
         toast.success('Form submitted successfully!');
+        // The backend removes the draft with the submission
+        pendingDraftRef.current = null;
         setIsComplete(true);
 
         // Track form submission
@@ -776,8 +664,22 @@ export function FormFillPage() {
               )}
             </div>
             <div className="flex-shrink-0 flex items-center gap-3">
+              {draftsEnabled && draftStatus !== 'idle' && (
+                <div className="text-xs text-muted-foreground flex items-center gap-2">
+                  {draftStatus === 'saving' && 'Saving draft...'}
+                  {draftStatus === 'saved' && 'Draft saved'}
+                  {draftStatus === 'error' && <span className="text-red-600">Draft not saved</span>}
+                  {hasDraft && draftStatus !== 'saving' && (
+                    <button onClick={handleDiscardDraft} className="underline hover:text-foreground">
+                      Discard
+                    </button>
+                  )}
+                </div>
+              )}
               <div className="text-sm font-medium text-muted-foreground bg-muted rounded-lg px-4 py-2">
-                Question {currentIndex + 1} of {questions.length}
+                {paged
+                  ? `Page ${pageNumber} of ${pages.length}`
+                  : `Question ${currentIndex + 1} of ${questions.length}`}
               </div>
               <button
                 onClick={() => navigate('/forms')}
@@ -795,18 +697,57 @@ export function FormFillPage() {
         <div className="flex-1 flex items-center justify-center">
           <div className="max-w-3xl w-full">
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-300" key={currentIndex}>
-              <QuestionRenderer
-                question={currentQuestion}
-                value={responses[currentQuestion.questionId || currentQuestion.id]}
-                onChange={(value) => updateResponse(currentQuestion.questionId || currentQuestion.id, value)}
-                onKeyPress={handleKeyPress}
-                inputRef={inputRef}
-                textareaRef={textareaRef}
-                onNext={handleNext}
-                formId={formId}
-                setGroupSelectionStatus={setGroupSelectionStatus}
-                setGroupSelectionRefreshCallbacks={setGroupSelectionRefreshCallbacks}
-              />
+              {paged ? (
+                <div className="space-y-12">
+                  {pageIndexes.map((index, position) => {
+                    const question = questions[index];
+                    const questionKey = question.questionId || question.id;
+
+                    // Section title for the page
+                    if (question.questionType === PAGE_BREAK_TYPE) {
+                      return (
+                        <div key={questionKey} className="border-b border-border pb-6">
+                          <h2 className="text-3xl font-bold text-foreground">{question.questionText}</h2>
+                          {question.questionDescription && (
+                            <p className="text-lg text-muted-foreground mt-2 whitespace-pre-wrap">{question.questionDescription}</p>
+                          )}
+                        </div>
+                      );
+                    }
+
+                    return (
+                      <div key={questionKey} id={`question-${questionKey}`}>
+                        <QuestionRenderer
+                          question={question}
+                          value={responses[questionKey]}
+                          onChange={(value) => updateResponse(questionKey, value)}
+                          onKeyPress={handleKeyPress}
+                          inputRef={position === 0 ? inputRef : { current: null }}
+                          textareaRef={position === 0 ? textareaRef : { current: null }}
+                          onNext={handleNext}
+                          formId={formId}
+                          setGroupSelectionStatus={setGroupSelectionStatus}
+                          setGroupSelectionRefreshCallbacks={setGroupSelectionRefreshCallbacks}
+                          compact
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <QuestionRenderer
+                  question={currentQuestion}
+                  value={responses[currentQuestion.questionId || currentQuestion.id]}
+                  onChange={(value) => updateResponse(currentQuestion.questionId || currentQuestion.id, value)}
+                  onKeyPress={handleKeyPress}
+                  inputRef={inputRef}
+                  textareaRef={textareaRef}
+                  onNext={handleNext}
+                  formId={formId}
+                  setGroupSelectionStatus={setGroupSelectionStatus}
+                  setGroupSelectionRefreshCallbacks={setGroupSelectionRefreshCallbacks}
+                />
+              )}
             </div>
 
             {/* Navigation Buttons - Hidden for Start Screen and End Screen */}
@@ -815,7 +756,7 @@ export function FormFillPage() {
                 <div className="flex items-center justify-between mt-8">
                   <button
                     onClick={handlePrevious}
-                    disabled={currentIndex === 0}
+                    disabled={history.length === 0}
                     className="flex items-center gap-2 px-4 py-2 text-muted-foreground hover:text-foreground disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
                   >
                     <ArrowLeft className="h-5 w-5" />
@@ -831,10 +772,7 @@ export function FormFillPage() {
                       'Submitting...'
                     ) : (() => {
                       // Check if next question is End Screen or we're at the last question
-                      let nextIndex = currentIndex + 1;
-                      while (nextIndex < questions.length && !isQuestionVisible(questions[nextIndex])) {
-                        nextIndex++;
-                      }
+                      const nextIndex = getNextIndex();
                       const nextQuestion = questions[nextIndex];
                       const isLastOrBeforeEndScreen = nextIndex >= questions.length || nextQuestion?.questionType === 'End Screen';
 
@@ -879,9 +817,11 @@ interface QuestionRendererProps {
   formId?: string;
   setGroupSelectionStatus?: React.Dispatch<React.SetStateAction<Record<string, { isFilled: boolean; groupMembers: string[] }>>>;
   setGroupSelectionRefreshCallbacks?: React.Dispatch<React.SetStateAction<Record<string, () => void>>>;
+  // Smaller heading for several questions on one page
+  compact?: boolean;
 }
 
-function QuestionRenderer({ question, value, onChange, onKeyPress, inputRef, textareaRef, onNext, formId, setGroupSelectionStatus, setGroupSelectionRefreshCallbacks }: QuestionRendererProps) {
+function QuestionRenderer({ question, value, onChange, onKeyPress, inputRef, textareaRef, onNext, formId, setGroupSelectionStatus, setGroupSelectionRefreshCallbacks, compact }: QuestionRendererProps) {
   const isStartOrEndScreen = question.questionType === 'Start Screen' || question.questionType === 'End Screen';
 
   return (
@@ -897,7 +837,7 @@ function QuestionRenderer({ question, value, onChange, onKeyPress, inputRef, tex
       )}
 
       {/* Question Text */}
-      <h2 className={`font-bold text-foreground leading-tight ${isStartOrEndScreen ? 'text-4xl md:text-5xl text-center' : 'text-3xl md:text-4xl'}`}>
+      <h2 className={`font-bold text-foreground leading-tight ${isStartOrEndScreen ? 'text-4xl md:text-5xl text-center' : compact ? 'text-xl md:text-2xl' : 'text-3xl md:text-4xl'}`}>
         {question.questionText}
         {question.isRequired === 'Yes' && !isStartOrEndScreen && (
           <span className="text-red-500 ml-2">*</span>
@@ -914,7 +854,7 @@ function QuestionRenderer({ question, value, onChange, onKeyPress, inputRef, tex
       )}
 
       {/* Question Input based on type */}
-      <div className="mt-8">
+      <div className={compact ? 'mt-4' : 'mt-8'}>
         {renderQuestionInput(question, value, onChange, onKeyPress, inputRef, textareaRef, onNext, formId, setGroupSelectionStatus, setGroupSelectionRefreshCallbacks)}
       </div>
     </div>
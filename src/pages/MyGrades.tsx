@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, GraduationCap, RefreshCw, Loader2, Info } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Badge } from '../components/ui/badge';
+import { assignmentApiService, SubjectGradebook } from '../services/assignmentApi';
+import { getStudentExamScores, StudentExamScore } from '../exam/services/examApi';
+import { useAuth } from '../features/auth/hooks/useAuth';
+import {
+  CATEGORY_LABELS,
+  ASSESSMENT_CATEGORIES,
+  GradebookAssessment,
+  GradebookRow,
+  buildUnifiedGradebook,
+  normalizeWeights,
+  toSubjectExamScores
+} from '../utils/gradebook';
+import toast from 'react-hot-toast';
+
+interface SubjectGrades {
+  subject: string;
+  term: string;
+  assessments: GradebookAssessment[];
+  row: GradebookRow | null;
+}
+
+export function MyGradesPage() {
+  const navigate = useNavigate();
+  const { student } = useAuth();
+  const [subjects, setSubjects] = useState<SubjectGrades[]>([]);
+  const [withheldCount, setWithheldCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!student?.email) return;
+    fetchGrades();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [student?.email]);
+
+  const fetchGrades = async () => {
+    if (!student?.email) return;
+
+    setLoading(true);
+    try {
+      const [gradebookResult, examResult] = await Promise.all([
+        assignmentApiService.getStudentGradebook(student.email),
+        getStudentExamScores().catch(error => {
+          console.error('Error fetching exam scores:', error);
+          return { success: false as const, data: undefined as StudentExamScore[] | undefined, error: 'Failed to load exam scores' };
+        }),
+      ]);
+
+      if (!gradebookResult.success || !gradebookResult.data) {
+        toast.error(gradebookResult.error || 'Failed to load grades');
+        setSubjects([]);
+        return;
+      }
+      if (!examResult.success) {
+        toast.error(examResult.error || 'Failed to load exam scores');
+      }
+
+      const { batch, subjects: assignmentBooks, weights } = gradebookResult.data;
+      const examScores = (examResult.data || []).filter(e => e.batch === batch);
+      setWithheldCount(examScores.filter(e => e.withheld).length);
+
+      const bookBySubject = new Map<string, SubjectGradebook>(assignmentBooks.map(book => [book.subject, book]));
+      const subjectNames = Array.from(new Set([
+        ...assignmentBooks.map(book => book.subject),
+        ...examScores.map(e => e.subject),
+      ].filter(Boolean))).sort();
+
+      const studentName = student.name || student.email;
+      const grades = subjectNames.map(subject => {
+        const book = bookBySubject.get(subject) || null;
+        const exams = toSubjectExamScores(student.email, studentName, examScores, batch, subject);
+        const term = book?.assignments[0]?.term || exams.exams[0]?.term || '';
+        const gradebook = buildUnifiedGradebook(
+          batch,
+          term,
+          subject,
+          book,
+          exams,
+          normalizeWeights(weights[`${term}|${subject}`])
+        );
+
+        return {
+          subject,
+          term,
+          assessments: gradebook.assessments,
+          row: gradebook.rows.find(r => r.studentEmail.toLowerCase() === student.email.toLowerCase()) || null,
+        };
+      });
+
+      setSubjects(grades.filter(g => g.assessments.length > 0));
+    } catch (error) {
+      console.error('Error fetching grades:', error);
+      toast.error('Failed to load grades');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/profile')}
+          className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Profile</span>
+        </button>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-gradient-to-br from-indigo-500 to-indigo-600 rounded-xl">
+              <GraduationCap className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">My Grades</h1>
+              <p className="text-muted-foreground">Your exam, assignment and peer rating scores by subject</p>
+            </div>
+          </div>
+
+          <Button
+            onClick={() => fetchGrades()}
+            variant="outline"
+            className="flex items-center gap-2"
+            disabled={loading}
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {withheldCount > 0 && (
+        <div className="mb-6 flex items-start gap-2 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-700 dark:text-blue-400">
+          <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {withheldCount} exam result{withheldCount === 1 ? ' has' : 's have'} not been released yet.
+            Totals only include released results and may change.
+          </span>
+        </div>
+      )}
+
+      {loading && subjects.length === 0 ? (
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : subjects.length === 0 ? (
+        <Card>
+          <CardContent className="py-16 text-center text-muted-foreground">
+            No graded work yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {subjects.map(({ subject, term, assessments, row }) => (
+            <Card key={subject}>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span>
+                    {subject}
+                    {term && <span className="ml-2 text-sm font-normal text-muted-foreground">{term}</span>}
+                  </span>
+                  {row && (
+                    <span className="flex items-center gap-3">
+                      <span className="text-lg font-bold text-foreground">{row.weightedPercent.toFixed(1)}%</span>
+                      <Badge variant="outline" className="text-base">{row.letterGrade}</Badge>
+                    </span>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {ASSESSMENT_CATEGORIES
+                  .filter(category => assessments.some(a => a.category === category))
+                  .map(category => (
+                    <div key={category}>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-sm font-medium text-foreground">{CATEGORY_LABELS[category]}</h4>
+                        {row && (
+                          <span className="text-xs text-muted-foreground">
+                            {(row.categoryPercents[category] ?? 0).toFixed(1)}%
+                          </span>
+                        )}
+                      </div>
+                      <div className="divide-y divide-border border border-border rounded-lg">
+                        {assessments.filter(a => a.category === category).map(assessment => {
+                          const cell = row?.cells[assessment.id];
+                          return (
+                            <div key={assessment.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                              <span className="text-foreground">{assessment.title}</span>
+                              {cell?.score === null || cell?.score === undefined ? (
+                                <span className="text-muted-foreground">Not graded</span>
+                              ) : (
+                                <span className="font-medium text-foreground">
+                                  {Math.round(cell.score * 100) / 100} / {assessment.maxScore}
+                                  {cell.pending && (
+                                    <Badge variant="outline" className="ml-2 text-xs">Grading pending</Badge>
+                                  )}
+                                </span>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MyGradesPage;
@@ -0,0 +1,522 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ArrowLeft,
+  ClipboardCheck,
+  Download,
+  RefreshCw,
+  Search,
+  Save,
+  FileText,
+  ExternalLink,
+  Users,
+  CheckCircle,
+  Loader2
+} from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import {
+  assignmentApiService,
+  SubmissionsForGrading,
+  GradableSubmission,
+  RubricGradeInput
+} from '../../services/assignmentApi';
+import { useAuth } from '../../features/auth/hooks/useAuth';
+import toast from 'react-hot-toast';
+
+interface GradeDraft {
+  criterionScores: Record<string, number>;
+  criterionFeedback: Record<string, string>;
+  totalScore: string; // Only used when the assignment has no rubric
+  feedback: string;
+}
+
+const emptyDraft = (submission: GradableSubmission | null): GradeDraft => ({
+  criterionScores: { ...(submission?.rubricGrade?.criterionScores || {}) },
+  criterionFeedback: { ...(submission?.rubricGrade?.criterionFeedback || {}) },
+  totalScore: submission?.rubricGrade ? String(submission.rubricGrade.totalScore) : '',
+  feedback: submission?.rubricGrade?.feedback || '',
+});
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export function AssignmentGradingPage() {
+  const navigate = useNavigate();
+  const { assignmentId } = useParams<{ assignmentId: string }>();
+  const { student } = useAuth();
+  const [data, setData] = useState<SubmissionsForGrading | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GradeDraft>(emptyDraft(null));
+
+  useEffect(() => {
+    if (!student?.email || !assignmentId) return;
+    fetchSubmissions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [student?.email, assignmentId]);
+
+  const selected = data?.submissions.find(s => s.submissionId === selectedId) || null;
+
+  useEffect(() => {
+    setDraft(emptyDraft(selected));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId]);
+
+  const fetchSubmissions = async () => {
+    if (!student?.email || !assignmentId) return;
+
+    setLoading(true);
+    try {
+      const result = await assignmentApiService.getSubmissionsForGrading(student.email, assignmentId);
+      if (result.success && result.data) {
+        setData(result.data);
+        if (!selectedId && result.data.submissions.length > 0) {
+          setSelectedId(result.data.submissions[0].submissionId);
+        }
+      } else {
+        toast.error(result.error || 'Failed to load submissions');
+      }
+    } catch (error) {
+      console.error('Error fetching submissions for grading:', error);
+      toast.error('Failed to load submissions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rubric = data?.rubric || null;
+
+  const draftTotal = rubric
+    ? rubric.criteria.reduce((sum, c) => sum + (draft.criterionScores[c.id] ?? 0), 0)
+    : Number(draft.totalScore) || 0;
+
+  const setCriterionScore = (criterionId: string, value: string, maxScore: number) => {
+    setDraft(prev => {
+      const criterionScores = { ...prev.criterionScores };
+      if (value === '') {
+        delete criterionScores[criterionId];
+      } else {
+        criterionScores[criterionId] = Math.max(0, Math.min(Number(value), maxScore));
+      }
+      return { ...prev, criterionScores };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!student?.email || !assignmentId || !selected) return;
+
+    if (rubric && rubric.criteria.some(c => draft.criterionScores[c.id] === undefined)) {
+      toast.error('Score every rubric criterion before saving');
+      return;
+    }
+    if (!rubric && draft.totalScore === '') {
+      toast.error('Enter a score before saving');
+      return;
+    }
+
+    const gradeData: RubricGradeInput = {
+      submissionId: selected.submissionId,
+      studentEmail: selected.submitterEmail,
+      studentName: selected.submitterName,
+      criterionScores: draft.criterionScores,
+      criterionFeedback: draft.criterionFeedback,
+      totalScore: rubric ? undefined : Number(draft.totalScore),
+      feedback: draft.feedback,
+    };
+
+    setSaving(true);
+    try {
+      const result = await assignmentApiService.saveRubricGrade(student.email, assignmentId, gradeData);
+      if (result.success && result.data) {
+        const savedGrade = result.data;
+        setData(prev => prev && {
+          ...prev,
+          submissions: prev.submissions.map(s =>
+            s.submissionId === savedGrade.submissionId ? { ...s, rubricGrade: savedGrade } : s
+          ),
+        });
+        toast.success('Grade saved');
+
+        // Move on to the next ungraded submission
+        const nextUngraded = data?.submissions.find(
+          s => s.submissionId !== savedGrade.submissionId && !s.rubricGrade
+        );
+        if (nextUngraded) {
+          setSelectedId(nextUngraded.submissionId);
+        }
+      } else {
+        toast.error(result.error || 'Failed to save grade');
+      }
+    } catch (error) {
+      console.error('Error saving grade:', error);
+      toast.error('Failed to save grade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExportGradebook = async () => {
+    if (!student?.email || !data) return;
+
+    setExporting(true);
+    try {
+      const result = await assignmentApiService.getSubjectGradebook(student.email, data.batch, data.term, data.subject);
+      if (!result.success || !result.data) {
+        toast.error(result.error || 'Failed to build gradebook');
+        return;
+      }
+
+      const gradebook = result.data;
+      if (gradebook.students.length === 0) {
+        toast.error('No graded submissions to export yet');
+        return;
+      }
+
+      const totalMax = gradebook.assignments.reduce((sum, a) => sum + a.maxScore, 0);
+      const headers = [
+        'Student Email',
+        'Student Name',
+        ...gradebook.assignments.map(a => `${a.assignmentHeader} (/${a.maxScore})`),
+        'Total',
+        `Out Of`,
+        'Percentage'
+      ];
+
+      const csvContent = [
+        headers.map(csvCell).join(','),
+        ...gradebook.students.map(s => {
+          const total = gradebook.assignments.reduce((sum, a) => sum + (s.scores[a.assignmentId] ?? 0), 0);
+          return [
+            s.studentEmail,
+            s.studentName,
+            ...gradebook.assignments.map(a => s.scores[a.assignmentId] ?? ''),
+            total,
+            totalMax,
+            totalMax > 0 ? ((total / totalMax) * 100).toFixed(2) : ''
+          ].map(csvCell).join(',');
+        })
+      ].join('\n');
+
+      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', `gradebook_${gradebook.batch}_${gradebook.subject}.csv`.replace(/\s+/g, '_'));
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      toast.success(`Exported gradebook for ${gradebook.students.length} student${gradebook.students.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error exporting gradebook:', error);
+      toast.error('Failed to export gradebook');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const filteredSubmissions = (data?.submissions || []).filter(s => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      s.submitterName?.toLowerCase().includes(query) ||
+      s.submitterEmail?.toLowerCase().includes(query) ||
+      s.groupName?.toLowerCase().includes(query)
+    );
+  });
+
+  const gradedCount = data?.submissions.filter(s => s.rubricGrade).length || 0;
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/admin/assignments')}
+          className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Assignment Management</span>
+        </button>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-gradient-to-br from-amber-500 to-amber-600 rounded-xl">
+              <ClipboardCheck className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Grade Submissions</h1>
+              <p className="text-muted-foreground">
+                {data ? `${data.assignmentHeader} · ${data.subject}` : 'Loading assignment...'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleExportGradebook}
+              variant="outline"
+              className="flex items-center gap-2"
+              disabled={!data || exporting}
+            >
+              {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Export Subject Gradebook
+            </Button>
+            <Button
+              onClick={() => fetchSubmissions()}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {loading && !data ? (
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !data || data.submissions.length === 0 ? (
+        <Card>
+          <CardContent className="py-16 text-center text-muted-foreground">
+            No submissions yet for this assignment.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Submission list */}
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <span>Submissions</span>
+                <Badge variant="outline">{gradedCount} / {data.submissions.length} graded</Badge>
+              </CardTitle>
+              <div className="relative mt-2">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search by name, email or group"
+                  className="w-full pl-9 pr-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2 max-h-[70vh] overflow-y-auto">
+              {filteredSubmissions.map(s => (
+                <button
+                  key={s.submissionId}
+                  onClick={() => setSelectedId(s.submissionId)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    s.submissionId === selectedId
+                      ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/20'
+                      : 'border-border hover:bg-accent/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground truncate">
+                      {s.groupName || s.submitterName || s.submitterEmail}
+                    </span>
+                    {s.rubricGrade ? (
+                      <span className="text-xs font-semibold text-emerald-700 dark:text-emerald-400 whitespace-nowrap">
+                        {s.rubricGrade.totalScore} / {s.rubricGrade.maxScore}
+                      </span>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">Ungraded</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{s.submitterEmail}</p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Selected submission */}
+          {selected && (
+            <div className="lg:col-span-2 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    {selected.submitterName || selected.submitterEmail}
+                    {selected.responseUpdated === 'Yes' && (
+                      <Badge variant="outline" className="ml-2 text-xs">Resubmitted</Badge>
+                    )}
+                  </CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    {selected.submitterEmail} · {selected.timestamp ? new Date(selected.timestamp).toLocaleString() : ''}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {selected.groupMembers.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                        <Users className="w-4 h-4" />
+                        {selected.groupName || 'Group Members'}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">{selected.groupMembers.join(', ')}</p>
+                    </div>
+                  )}
+
+                  {Object.entries(selected.answers)
+                    .filter(([, answer]) => answer !== null && answer !== undefined && answer !== '')
+                    .map(([question, answer]) => (
+                      <div key={question}>
+                        <h4 className="text-sm font-medium text-foreground mb-1">{question}</h4>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{String(answer)}</p>
+                      </div>
+                    ))}
+
+                  {(selected.files.length > 0 || selected.urls.length > 0) && (
+                    <div className="flex flex-wrap gap-2">
+                      {selected.files.map((file, idx) => (
+                        <a
+                          key={`file-${idx}`}
+                          href={file.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 hover:underline"
+                        >
+                          <FileText className="w-3 h-3" />
+                          {file.name}
+                        </a>
+                      ))}
+                      {selected.urls.map((urlItem, idx) => (
+                        <a
+                          key={`url-${idx}`}
+                          href={urlItem.link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-400 hover:underline"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                          {urlItem.name}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span>{rubric ? 'Rubric Scoring' : 'Score'}</span>
+                    <span className="text-lg font-bold text-foreground">
+                      {draftTotal} / {data.maxScore}
+                    </span>
+                  </CardTitle>
+                  {selected.rubricGrade && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <CheckCircle className="w-3 h-3 text-emerald-600" />
+                      Graded by {selected.rubricGrade.gradedBy} on {selected.rubricGrade.gradedAt}
+                    </p>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {rubric ? (
+                    rubric.criteria.map(criterion => (
+                      <div key={criterion.id} className="p-4 border border-border rounded-lg space-y-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <h4 className="font-medium text-foreground">{criterion.name}</h4>
+                            {criterion.description && (
+                              <p className="text-xs text-muted-foreground mt-0.5">{criterion.description}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <input
+                              type="number"
+                              min="0"
+                              max={criterion.maxScore}
+                              step="0.5"
+                              value={draft.criterionScores[criterion.id] ?? ''}
+                              onChange={(e) => setCriterionScore(criterion.id, e.target.value, criterion.maxScore)}
+                              className="w-20 px-2 py-1 bg-background border border-border rounded text-sm text-foreground text-right focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            />
+                            <span className="text-sm text-muted-foreground">/ {criterion.maxScore}</span>
+                          </div>
+                        </div>
+
+                        {criterion.levels.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {criterion.levels.map((level, idx) => (
+                              <button
+                                key={idx}
+                                type="button"
+                                onClick={() => setCriterionScore(criterion.id, String(level.score), criterion.maxScore)}
+                                title={level.description}
+                                className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                                  draft.criterionScores[criterion.id] === level.score
+                                    ? 'bg-amber-500 border-amber-500 text-white'
+                                    : 'border-border text-foreground hover:bg-accent/50'
+                                }`}
+                              >
+                                {level.label || 'Level'} · {level.score}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        <textarea
+                          value={draft.criterionFeedback[criterion.id] || ''}
+                          onChange={(e) => setDraft(prev => ({
+                            ...prev,
+                            criterionFeedback: { ...prev.criterionFeedback, [criterion.id]: e.target.value },
+                          }))}
+                          rows={2}
+                          placeholder={`Feedback on ${criterion.name || 'this criterion'} (optional)`}
+                          className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        />
+                      </div>
+                    ))
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max={data.maxScore || undefined}
+                        step="0.5"
+                        value={draft.totalScore}
+                        onChange={(e) => setDraft(prev => ({ ...prev, totalScore: e.target.value }))}
+                        className="w-32 px-3 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                      />
+                      <span className="text-sm text-muted-foreground">
+                        / {data.maxScore || 'N/A'} — this assignment has no rubric
+                      </span>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">Overall Feedback</label>
+                    <textarea
+                      value={draft.feedback}
+                      onChange={(e) => setDraft(prev => ({ ...prev, feedback: e.target.value }))}
+                      rows={4}
+                      placeholder="Shared with the student (and their group) once saved"
+                      className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    />
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Button onClick={handleSave} disabled={saving} className="flex items-center gap-2">
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                      {selected.rubricGrade ? 'Update Grade' : 'Save Grade'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AssignmentGradingPage;
@@ -53,8 +53,14 @@ import {
   ExternalLink,
   AlertCircle,
   Check,
+  FlaskConical,
+  SeparatorHorizontal,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { FormLogicRuleEditor } from '../../components/admin/FormLogicRuleEditor';
+import { FormLogicSimulator } from '../../components/admin/FormLogicSimulator';
+import { FormLogicRule, analyzeFormLogic, createLogicRule } from '../../utils/formLogic';
+import { PAGE_BREAK_TYPE } from '../../utils/formPages';
 import { createForm, updateForm, getFormById, createQuestion, updateQuestion, getTermStructure, getFormTypes, getAllStudents, type TermMapping, type Student } from '../../services/formsApi';
 
 // Question type definitions organized by category (Typeform-style)
@@ -126,6 +132,7 @@ const QUESTION_TYPE_CATEGORIES = [
     icon: Settings,
     types: [
       { value: 'Start Screen', label: 'Welcome Screen', icon: FileText, description: 'Form introduction screen' },
+      { value: 'Page Break', label: 'Page Break / Section', icon: SeparatorHorizontal, description: 'Start a new page with a section title' },
       { value: 'Partial Submit Point', label: 'Partial Submit Point', icon: ListChecks, description: 'Save progress mid-form' },
       { value: 'Statement', label: 'Statement', icon: FileQuestion, description: 'Text/media display block' },
       { value: 'Question Group', label: 'Question Group', icon: Layers, description: 'Group related questions' },
@@ -185,11 +192,7 @@ interface QuestionData {
   minSelections?: string;
   options?: Array<{ optionText: string; optionValue: string; order: number; imageUrl?: string }>;
   hasConditionalLogic?: boolean;
-  conditionalRules?: Array<{
-    questionIndex: number;
-    operator: string;
-    value: string;
-  }>;
+  conditionalRules?: FormLogicRule[];
 
   // Contact Info specific
   collectName?: string;
@@ -255,6 +258,7 @@ export function FormBuilderPage() {
   const [saving, setSaving] = useState(false);
   const [showQuestionTypes, setShowQuestionTypes] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [showLogicSimulator, setShowLogicSimulator] = useState(false);
   const [activeQuestionIndex, setActiveQuestionIndex] = useState<number>(0); // Typeform-style: focus on one question at a time
   const [draggedQuestionIndex, setDraggedQuestionIndex] = useState<number | null>(null);
   const [deleteConfirmation, setDeleteConfirmation] = useState<{ show: boolean; questionIndex: number | null }>({ show: false, questionIndex: null });
@@ -688,24 +692,13 @@ export function FormBuilderPage() {
     if (!updated[questionIndex].conditionalRules) {
       updated[questionIndex].conditionalRules = [];
     }
-    updated[questionIndex].conditionalRules!.push({
-      questionIndex: -1,
-      operator: 'equals',
-      value: '',
-    });
+    updated[questionIndex].conditionalRules!.push(createLogicRule('show'));
     setQuestions(updated);
   };
 
-  const handleUpdateConditionalRule = (
-    questionIndex: number,
-    ruleIndex: number,
-    updates: Partial<{ questionIndex: number; operator: string; value: string }>
-  ) => {
+  const handleUpdateConditionalRule = (questionIndex: number, ruleIndex: number, rule: FormLogicRule) => {
     const updated = [...questions];
-    updated[questionIndex].conditionalRules![ruleIndex] = {
-      ...updated[questionIndex].conditionalRules![ruleIndex],
-      ...updates,
-    };
+    updated[questionIndex].conditionalRules![ruleIndex] = rule;
     setQuestions(updated);
   };
 
@@ -985,6 +978,9 @@ export function FormBuilderPage() {
     setShowPreview(true);
   };
 
+  // Broken references, unreachable questions and loops in the conditional logic
+  const logicIssueCount = analyzeFormLogic(questions).length;
+
   const renderPreviewQuestion = (question: QuestionData, index: number) => {
     const questionType = question.questionType;
     const isRequired = question.isRequired === 'Yes';
@@ -1042,6 +1038,19 @@ export function FormBuilderPage() {
       );
     }
 
+    // Render Page Break as a section heading
+    if (questionType === PAGE_BREAK_TYPE) {
+      return (
+        <div key={index} className="pt-6 mt-6 border-t-2 border-dashed border-border">
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">New page</p>
+          <h3 className="text-2xl font-bold text-foreground">{question.questionText || 'Untitled section'}</h3>
+          {question.helpText && (
+            <p className="text-muted-foreground mt-1">{question.helpText}</p>
+          )}
+        </div>
+      );
+    }
+
     return (
       <div key={index} className="mb-6 p-4 bg-card border border-border rounded-lg">
         <div className="mb-3">
@@ -1325,6 +1334,18 @@ export function FormBuilderPage() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowLogicSimulator(true)}
+            disabled={questions.length === 0}
+            className="flex items-center gap-2"
+          >
+            <FlaskConical className="h-4 w-4" />
+            Test Logic
+            {logicIssueCount > 0 && (
+              <Badge variant="destructive" className="ml-1">{logicIssueCount}</Badge>
+            )}
+          </Button>
           <Button variant="outline" onClick={handlePreview} className="flex items-center gap-2">
             <Eye className="h-4 w-4" />
             Preview
@@ -1654,31 +1675,36 @@ export function FormBuilderPage() {
           <div className="w-20 bg-muted/30 border-r border-border flex flex-col items-center py-4 gap-2 overflow-y-auto">
             {questions.map((question, index) => {
               const isScreen = question.questionType === 'Start Screen' || question.questionType === 'End Screen';
+              const isPageBreak = question.questionType === PAGE_BREAK_TYPE;
               return (
-                <button
-                  key={index}
-                  draggable={!isScreen}
-                  onDragStart={() => handleDragStart(index)}
-                  onDragOver={(e) => handleDragOver(e, index)}
-                  onDragEnd={handleDragEnd}
-                  onClick={() => setActiveQuestionIndex(index)}
-                  className={`
-                    w-12 h-12 rounded-lg flex items-center justify-center text-sm font-semibold transition-all
-                    ${isScreen ? 'cursor-default' : 'cursor-move'}
-                    ${activeQuestionIndex === index
-                      ? 'bg-primary text-primary-foreground shadow-md scale-110'
-                      : 'bg-background text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                <React.Fragment key={index}>
+                  {isPageBreak && <div className="w-12 border-t-2 border-dashed border-primary/40" title="New page" />}
+                  <button
+                    draggable={!isScreen}
+                    onDragStart={() => handleDragStart(index)}
+                    onDragOver={(e) => handleDragOver(e, index)}
+                    onDragEnd={handleDragEnd}
+                    onClick={() => setActiveQuestionIndex(index)}
+                    className={`
+                      w-12 h-12 rounded-lg flex items-center justify-center text-sm font-semibold transition-all
+                      ${isScreen ? 'cursor-default' : 'cursor-move'}
+                      ${activeQuestionIndex === index
+                        ? 'bg-primary text-primary-foreground shadow-md scale-110'
+                        : 'bg-background text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                      }
+                      ${draggedQuestionIndex === index ? 'opacity-50' : 'opacity-100'}
+                    `}
+                    title={
+                      isScreen
+                        ? `${question.questionText || question.questionType} (Fixed position)`
+                        : isPageBreak
+                        ? `Page: ${question.questionText || 'Untitled section'} (Drag to reorder)`
+                        : `${question.questionText || `Question ${index + 1}`} (Drag to reorder)`
                     }
-                    ${draggedQuestionIndex === index ? 'opacity-50' : 'opacity-100'}
-                  `}
-                  title={
-                    isScreen
-                      ? `${question.questionText || question.questionType} (Fixed position)`
-                      : `${question.questionText || `Question ${index + 1}`} (Drag to reorder)`
-                  }
-                >
-                  {index + 1}
-                </button>
+                  >
+                    {isPageBreak ? <SeparatorHorizontal className="h-5 w-5" /> : index + 1}
+                  </button>
+                </React.Fragment>
               );
             })}
 
@@ -1872,6 +1898,8 @@ export function FormBuilderPage() {
                                 ? 'Welcome! Enter your welcome message title...'
                                 : question.questionType === 'End Screen'
                                 ? 'Thank you for completing this form!'
+                                : question.questionType === PAGE_BREAK_TYPE
+                                ? 'Section title, e.g. "Work Experience"'
                                 : question.questionType === 'Contact Info'
                                 ? 'What is your contact information?'
                                 : question.questionType === 'Email'
@@ -1927,6 +1955,8 @@ export function FormBuilderPage() {
                                 ? 'Add a subtitle or brief description of your form...'
                                 : question.questionType === 'End Screen'
                                 ? 'Add any final message or instructions...'
+                                : question.questionType === PAGE_BREAK_TYPE
+                                ? 'Section description shown at the top of the page (optional)'
                                 : 'Description (optional)'
                             }
                             rows={1}
@@ -2970,8 +3000,8 @@ export function FormBuilderPage() {
                       <div className="max-w-2xl mx-auto space-y-4">
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-4">
-                            {/* Don't show 'Required' checkbox for Start/End Screens */}
-                            {!['Start Screen', 'End Screen'].includes(question.questionType) && (
+                            {/* Don't show 'Required' checkbox for Start/End Screens and page breaks */}
+                            {!['Start Screen', 'End Screen', PAGE_BREAK_TYPE].includes(question.questionType) && (
                               <label className="flex items-center gap-3 cursor-pointer group">
                                 <input
                                   type="checkbox"
@@ -3051,74 +3081,14 @@ export function FormBuilderPage() {
                             <div className="space-y-3">
                               {question.conditionalRules && question.conditionalRules.length > 0 ? (
                                 question.conditionalRules.map((rule, ruleIndex) => (
-                                  <div key={ruleIndex} className="p-3 bg-muted/30 rounded-lg border border-border">
-                                    <div className="flex items-start gap-2">
-                                      <div className="flex-1 space-y-2">
-                                        <div className="grid grid-cols-3 gap-2">
-                                          {/* Select Question */}
-                                          <select
-                                            value={rule.questionIndex}
-                                            onChange={(e) =>
-                                              handleUpdateConditionalRule(activeQuestionIndex, ruleIndex, {
-                                                questionIndex: Number(e.target.value),
-                                              })
-                                            }
-                                            className="px-3 py-2 text-sm border border-input rounded-md bg-background text-foreground"
-                                          >
-                                            <option value={-1}>Select question...</option>
-                                            {questions.slice(0, activeQuestionIndex).map((q, i) => (
-                                              <option key={i} value={i}>
-                                                Q{i + 1}: {q.questionText || `Question ${i + 1}`}
-                                              </option>
-                                            ))}
-                                          </select>
-
-                                          {/* Operator */}
-                                          <select
-                                            value={rule.operator}
-                                            onChange={(e) =>
-                                              handleUpdateConditionalRule(activeQuestionIndex, ruleIndex, {
-                                                operator: e.target.value,
-                                              })
-                                            }
-                                            className="px-3 py-2 text-sm border border-input rounded-md bg-background text-foreground"
-                                          >
-                                            <option value="equals">equals</option>
-                                            <option value="not_equals">not equals</option>
-                                            <option value="contains">contains</option>
-                                            <option value="greater_than">greater than</option>
-                                            <option value="less_than">less than</option>
-                                          </select>
-
-                                          {/* Value */}
-                                          <input
-                                            type="text"
-                                            value={rule.value}
-                                            onChange={(e) =>
-                                              handleUpdateConditionalRule(activeQuestionIndex, ruleIndex, {
-                                                value: e.target.value,
-                                              })
-                                            }
-                                            placeholder="Value"
-                                            className="px-3 py-2 text-sm border border-input rounded-md bg-background text-foreground"
-                                          />
-                                        </div>
-
-                                        <p className="text-xs text-muted-foreground">
-                                          Show this question only if the condition above is met
-                                        </p>
-                                      </div>
-
-                                      <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => handleDeleteConditionalRule(activeQuestionIndex, ruleIndex)}
-                                        className="text-red-600 hover:text-red-700"
-                                      >
-                                        <X className="h-4 w-4" />
-                                      </Button>
-                                    </div>
-                                  </div>
+                                  <FormLogicRuleEditor
+                                    key={ruleIndex}
+                                    rule={rule}
+                                    questionIndex={activeQuestionIndex}
+                                    questions={questions}
+                                    onChange={(updatedRule) => handleUpdateConditionalRule(activeQuestionIndex, ruleIndex, updatedRule)}
+                                    onRemove={() => handleDeleteConditionalRule(activeQuestionIndex, ruleIndex)}
+                                  />
                                 ))
                               ) : (
                                 <p className="text-sm text-muted-foreground text-center py-4">
@@ -3290,6 +3260,18 @@ export function FormBuilderPage() {
         </div>
       )}
 
+      {/* Logic Simulator */}
+      {showLogicSimulator && (
+        <FormLogicSimulator
+          questions={questions}
+          onSelectQuestion={(index) => {
+            setActiveQuestionIndex(index);
+            setShowLogicSimulator(false);
+          }}
+          onClose={() => setShowLogicSimulator(false)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirmation.show && deleteConfirmation.questionIndex !== null && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,483 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  ArrowLeft,
+  BookOpenCheck,
+  Download,
+  FileSpreadsheet,
+  RefreshCw,
+  Save,
+  Search,
+  SlidersHorizontal,
+  Plus,
+  Trash2,
+  Loader2
+} from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { assignmentApiService } from '../../services/assignmentApi';
+import { getSubjectExamScores } from '../../exam/services/examApi';
+import { getTermStructure, type TermMapping } from '../../services/formsApi';
+import { useAuth } from '../../features/auth/hooks/useAuth';
+import { GradebookWeights } from '../../core/types';
+import {
+  ASSESSMENT_CATEGORIES,
+  CATEGORY_LABELS,
+  UnifiedGradebook,
+  buildUnifiedGradebook,
+  computeRowTotals,
+  getLetterGrade,
+  normalizeWeights,
+  exportGradebookCsv,
+  exportGradebookXlsx
+} from '../../utils/gradebook';
+import toast from 'react-hot-toast';
+
+const uniqueSorted = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+
+export function GradebookPage() {
+  const navigate = useNavigate();
+  const { student } = useAuth();
+  const [mappings, setMappings] = useState<TermMapping[]>([]);
+  const [batch, setBatch] = useState('');
+  const [term, setTerm] = useState('');
+  const [subject, setSubject] = useState('');
+  const [gradebook, setGradebook] = useState<UnifiedGradebook | null>(null);
+  const [weights, setWeights] = useState<GradebookWeights>(normalizeWeights(null));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [showWeights, setShowWeights] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    const loadTermStructure = async () => {
+      const result = await getTermStructure();
+      if (result.success && result.data) {
+        setMappings(result.data.mappings);
+      } else {
+        toast.error(result.error || 'Failed to load batches and subjects');
+      }
+    };
+    loadTermStructure();
+  }, []);
+
+  const batches = uniqueSorted(mappings.map(m => m.batch));
+  const terms = uniqueSorted(mappings.filter(m => m.batch === batch).map(m => m.term));
+  const subjects = uniqueSorted(mappings.filter(m => m.batch === batch && m.term === term).map(m => m.subject));
+
+  const fetchGradebook = async () => {
+    if (!student?.email || !batch || !term || !subject) return;
+
+    setLoading(true);
+    try {
+      const [assignmentResult, examResult, weightsResult] = await Promise.all([
+        assignmentApiService.getSubjectGradebook(student.email, batch, term, subject),
+        getSubjectExamScores(batch, term, subject).catch(error => {
+          console.error('Error fetching exam scores:', error);
+          return { success: false as const, data: undefined, error: 'Failed to load exam scores' };
+        }),
+        assignmentApiService.getGradebookWeights(student.email, batch, term, subject),
+      ]);
+
+      if (!assignmentResult.success) {
+        toast.error(assignmentResult.error || 'Failed to load assignment grades');
+      }
+      if (!examResult.success) {
+        toast.error(examResult.error || 'Failed to load exam scores');
+      }
+
+      const loadedWeights = normalizeWeights(weightsResult.success ? weightsResult.data : null);
+      setWeights(loadedWeights);
+      setGradebook(buildUnifiedGradebook(
+        batch,
+        term,
+        subject,
+        assignmentResult.data || null,
+        examResult.data || null,
+        loadedWeights
+      ));
+    } catch (error) {
+      console.error('Error fetching gradebook:', error);
+      toast.error('Failed to load gradebook');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setGradebook(null);
+    fetchGradebook();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [student?.email, batch, term, subject]);
+
+  // Recompute totals live while weights are being edited
+  const liveGradebook = useMemo<UnifiedGradebook | null>(() => {
+    if (!gradebook) return null;
+    const normalized = normalizeWeights(weights);
+    return {
+      ...gradebook,
+      weights: normalized,
+      rows: gradebook.rows.map(row => {
+        const totals = computeRowTotals(row.cells, gradebook.assessments, normalized);
+        return { ...row, ...totals, letterGrade: getLetterGrade(totals.weightedPercent, normalized.gradeScale) };
+      }),
+    };
+  }, [gradebook, weights]);
+
+  const handleSaveWeights = async () => {
+    if (!student?.email || !batch || !term || !subject) return;
+
+    const letters = weights.gradeScale.map(b => b.letter.trim());
+    if (letters.some(l => !l) || new Set(letters).size !== letters.length) {
+      toast.error('Every grade band needs a unique letter');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const config = normalizeWeights(weights);
+      const result = await assignmentApiService.saveGradebookWeights(student.email, batch, term, subject, config);
+      if (result.success) {
+        setWeights(config);
+        toast.success('Gradebook weights saved');
+      } else {
+        toast.error(result.error || 'Failed to save weights');
+      }
+    } catch (error) {
+      console.error('Error saving gradebook weights:', error);
+      toast.error('Failed to save weights');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateGradeBand = (index: number, field: 'letter' | 'minPercent', value: string) => {
+    setWeights(prev => ({
+      ...prev,
+      gradeScale: prev.gradeScale.map((band, i) =>
+        i === index
+          ? { ...band, [field]: field === 'minPercent' ? Math.max(0, Math.min(100, Number(value) || 0)) : value }
+          : band
+      ),
+    }));
+  };
+
+  const filteredRows = (liveGradebook?.rows || []).filter(row => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      row.studentName?.toLowerCase().includes(query) ||
+      row.studentEmail?.toLowerCase().includes(query) ||
+      row.rollNo?.toLowerCase().includes(query)
+    );
+  });
+
+  const presentCategories = ASSESSMENT_CATEGORIES.filter(c =>
+    liveGradebook?.assessments.some(a => a.category === c)
+  );
+
+  const selectClassName = 'px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/admin')}
+          className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Admin</span>
+        </button>
+
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-gradient-to-br from-indigo-500 to-indigo-600 rounded-xl">
+              <BookOpenCheck className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Gradebook</h1>
+              <p className="text-muted-foreground">Exams, assignments and peer ratings in one weighted view</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              onClick={() => setShowWeights(prev => !prev)}
+              variant="outline"
+              className="flex items-center gap-2"
+              disabled={!liveGradebook}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              Weights
+            </Button>
+            <Button
+              onClick={() => liveGradebook && exportGradebookCsv(liveGradebook)}
+              variant="outline"
+              className="flex items-center gap-2"
+              disabled={!liveGradebook || liveGradebook.rows.length === 0}
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </Button>
+            <Button
+              onClick={() => liveGradebook && exportGradebookXlsx(liveGradebook)}
+              variant="outline"
+              className="flex items-center gap-2"
+              disabled={!liveGradebook || liveGradebook.rows.length === 0}
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              XLSX
+            </Button>
+            <Button
+              onClick={() => fetchGradebook()}
+              variant="outline"
+              className="flex items-center gap-2"
+              disabled={!subject || loading}
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardContent className="pt-6 flex flex-wrap gap-3 items-center">
+          <select
+            value={batch}
+            onChange={(e) => { setBatch(e.target.value); setTerm(''); setSubject(''); }}
+            className={selectClassName}
+          >
+            <option value="">Select Batch</option>
+            {batches.map(b => <option key={b} value={b}>{b}</option>)}
+          </select>
+          <select
+            value={term}
+            onChange={(e) => { setTerm(e.target.value); setSubject(''); }}
+            className={selectClassName}
+            disabled={!batch}
+          >
+            <option value="">Select Term</option>
+            {terms.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            className={selectClassName}
+            disabled={!term}
+          >
+            <option value="">Select Subject</option>
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+
+          {liveGradebook && (
+            <div className="relative ml-auto">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search students"
+                className="pl-9 pr-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Weights editor */}
+      {showWeights && liveGradebook && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between text-base">
+              <span>Weighting &amp; Grade Scale</span>
+              <Button onClick={handleSaveWeights} disabled={saving} className="flex items-center gap-2">
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Save Weights
+              </Button>
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Category weights are rescaled over the categories this subject actually has. Set an assessment weight to 0 to exclude it.
+            </p>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-foreground">Category Weights</h4>
+              {ASSESSMENT_CATEGORIES.map(category => (
+                <label key={category} className="flex items-center justify-between gap-3 text-sm">
+                  <span className={presentCategories.includes(category) ? 'text-foreground' : 'text-muted-foreground'}>
+                    {CATEGORY_LABELS[category]}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={weights.categoryWeights[category]}
+                    onChange={(e) => setWeights(prev => ({
+                      ...prev,
+                      categoryWeights: { ...prev.categoryWeights, [category]: Math.max(0, Number(e.target.value) || 0) },
+                    }))}
+                    className="w-24 px-2 py-1 bg-background border border-border rounded-lg text-foreground"
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-foreground">Assessment Weights</h4>
+              <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+                {liveGradebook.assessments.map(assessment => (
+                  <label key={assessment.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="truncate text-foreground" title={assessment.title}>
+                      <Badge variant="outline" className="mr-2 text-xs">{CATEGORY_LABELS[assessment.category]}</Badge>
+                      {assessment.title}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={weights.assessmentWeights[assessment.id] ?? 1}
+                      onChange={(e) => setWeights(prev => ({
+                        ...prev,
+                        assessmentWeights: { ...prev.assessmentWeights, [assessment.id]: Math.max(0, Number(e.target.value) || 0) },
+                      }))}
+                      className="w-20 px-2 py-1 bg-background border border-border rounded-lg text-foreground"
+                    />
+                  </label>
+                ))}
+                {liveGradebook.assessments.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No assessments yet.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-foreground">Grade Scale (minimum %)</h4>
+              {weights.gradeScale.map((band, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="text"
+                    value={band.letter}
+                    onChange={(e) => updateGradeBand(index, 'letter', e.target.value)}
+                    className="w-16 px-2 py-1 bg-background border border-border rounded-lg text-foreground"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={band.minPercent}
+                    onChange={(e) => updateGradeBand(index, 'minPercent', e.target.value)}
+                    className="w-20 px-2 py-1 bg-background border border-border rounded-lg text-foreground"
+                  />
+                  <button
+                    onClick={() => setWeights(prev => ({ ...prev, gradeScale: prev.gradeScale.filter((_, i) => i !== index) }))}
+                    className="p-1 text-muted-foreground hover:text-red-600"
+                    disabled={weights.gradeScale.length <= 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setWeights(prev => ({ ...prev, gradeScale: [...prev.gradeScale, { letter: '', minPercent: 0 }] }))}
+                className="flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Add Band
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Matrix */}
+      {!subject ? (
+        <Card>
+          <CardContent className="py-16 text-center text-muted-foreground">
+            Select a batch, term and subject to view the gradebook.
+          </CardContent>
+        </Card>
+      ) : loading && !liveGradebook ? (
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !liveGradebook || liveGradebook.rows.length === 0 ? (
+        <Card>
+          <CardContent className="py-16 text-center text-muted-foreground">
+            No students or grades found for {subject}.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-foreground sticky left-0 bg-muted">Student</th>
+                  {liveGradebook.assessments.map(a => (
+                    <th key={a.id} className="px-3 py-2 text-center font-medium text-foreground whitespace-nowrap" title={a.title}>
+                      <div className="max-w-[10rem] truncate">{a.title}</div>
+                      <div className="text-xs font-normal text-muted-foreground">
+                        {CATEGORY_LABELS[a.category]} · /{a.maxScore}
+                      </div>
+                    </th>
+                  ))}
+                  {presentCategories.map(c => (
+                    <th key={c} className="px-3 py-2 text-center font-medium text-foreground whitespace-nowrap">
+                      {CATEGORY_LABELS[c]} %
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-center font-medium text-foreground whitespace-nowrap">Weighted %</th>
+                  <th className="px-3 py-2 text-center font-medium text-foreground">Grade</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredRows.map(row => (
+                  <tr key={row.studentEmail} className="border-t border-border hover:bg-accent/30">
+                    <td className="px-3 py-2 sticky left-0 bg-background">
+                      <div className="font-medium text-foreground whitespace-nowrap">{row.studentName || row.studentEmail}</div>
+                      <div className="text-xs text-muted-foreground">{row.rollNo || row.studentEmail}</div>
+                    </td>
+                    {liveGradebook.assessments.map(a => {
+                      const cell = row.cells[a.id];
+                      return (
+                        <td key={a.id} className="px-3 py-2 text-center whitespace-nowrap">
+                          {cell?.score === null || cell?.score === undefined ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <span className={cell.pending ? 'text-amber-600 dark:text-amber-400' : 'text-foreground'} title={cell.pending ? 'Grading pending' : undefined}>
+                              {Math.round(cell.score * 100) / 100}
+                              {cell.pending && '*'}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                    {presentCategories.map(c => (
+                      <td key={c} className="px-3 py-2 text-center text-muted-foreground">
+                        {(row.categoryPercents[c] ?? 0).toFixed(1)}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-center font-semibold text-foreground">{row.weightedPercent.toFixed(1)}</td>
+                    <td className="px-3 py-2 text-center">
+                      <Badge variant="outline">{row.letterGrade}</Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-3 py-2 text-xs text-muted-foreground border-t border-border">
+              * Exam attempt still awaiting manual grading. Missing scores count as zero.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default GradebookPage;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
 import { Button } from '../../components/ui/button';
@@ -23,6 +23,8 @@ import {
 import { apiService } from '../../services/api';
 import toast from 'react-hot-toast';
 import { QuillEditor } from '../../components/QuillEditor';
+import { EligibilityRuleBuilder } from '../../components/admin/EligibilityRuleBuilder';
+import { EligibilityGroup, describeRule } from '../../utils/eligibility';
 
 // Indian cities list
 const INDIAN_CITIES = [
@@ -147,6 +149,7 @@ interface JobData {
   showToStudentsWithInternships: string;
   showToStudentsWithZeroOffers: string;
   customVisibilityRule: string;
+  eligibilityRules: EligibilityGroup | null;
 
   // Mail
   mailTo: string;
@@ -173,6 +176,9 @@ export const JobBuilderPage: React.FC = () => {
   const [locationOthersText, setLocationOthersText] = useState('');
   const [pendingFileUploads, setPendingFileUploads] = useState<{[key: string]: File}>({});
   const [jdFile, setJdFile] = useState<File | null>(null);
+  const [eligibilityPreview, setEligibilityPreview] = useState<{ eligibleCount: number; audienceCount: number } | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const previewRequestRef = useRef(0);
 
   const [formData, setFormData] = useState<JobData>({
     batch: '',
@@ -234,6 +240,7 @@ export const JobBuilderPage: React.FC = () => {
     showToStudentsWithInternships: '',
     showToStudentsWithZeroOffers: '',
     customVisibilityRule: '',
+    eligibilityRules: null,
     mailTo: '',
     mailCC: '',
     mailBCC: '',
@@ -298,6 +305,37 @@ export const JobBuilderPage: React.FC = () => {
     }
   }, [formData.ctcDisplay, formData.ctcType, formData.ctcValue, formData.ctcValueSecondary, formData.esopType, formData.esopDisplay, formData.bonusType, formData.bonusDisplay]);
 
+  // Live "N students eligible" preview, debounced while the admin edits rules
+  useEffect(() => {
+    const request = ++previewRequestRef.current;
+    if (!formData.batch && !formData.showToBatchLevels) {
+      setEligibilityPreview(null);
+      setPreviewLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await apiService.previewJobEligibility({
+          batch: formData.batch,
+          showToBatchLevels: formData.showToBatchLevels,
+          eligibilityRules: formData.eligibilityRules
+        });
+        if (!cancelled) setEligibilityPreview(result.success && result.data ? result.data : null);
+      } finally {
+        // A cancelled request still clears the flag unless a newer preview is pending
+        if (request === previewRequestRef.current) setPreviewLoading(false);
+      }
+    }, 600);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.batch, formData.showToBatchLevels, formData.eligibilityRules]);
+
   const fetchBatches = async () => {
     try {
       const result = await apiService.getBatches();
@@ -1612,89 +1650,47 @@ export const JobBuilderPage: React.FC = () => {
               </div>
 
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Eligibility Filters</h3>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="showToNoOfferStudents">Show to No Offer Students</Label>
-                    <select
-                      id="showToNoOfferStudents"
-                      value={formData.showToNoOfferStudents}
-                      onChange={(e) => updateField('showToNoOfferStudents', e.target.value)}
-                      className="w-full px-3 py-2 border rounded-lg bg-background"
-                    >
-                      <option value="">Select Option</option>
-                      <option value="No">No</option>
-                      <option value="Yes">Yes</option>
-                    </select>
-                  </div>
-
+                <div className="flex items-start justify-between gap-4">
                   <div>
-                    <Label htmlFor="showToStudentsWithOneFT_PPO">Show to Students with 1 FT/PPO</Label>
-                    <select
-                      id="showToStudentsWithOneFT_PPO"
-                      value={formData.showToStudentsWithOneFT_PPO}
-                      onChange={(e) => updateField('showToStudentsWithOneFT_PPO', e.target.value)}
-                      className="w-full px-3 py-2 border rounded-lg bg-background"
-                    >
-                      <option value="">Select Option</option>
-                      <option value="No">No</option>
-                      <option value="Yes">Yes</option>
-                    </select>
+                    <h3 className="text-lg font-semibold">Eligibility Rules</h3>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Students who don't match are hidden from this job and can't apply.
+                    </p>
                   </div>
-
-                  <div>
-                    <Label htmlFor="showToStudentsWithNoPPO">Show to Students with No PPO</Label>
-                    <select
-                      id="showToStudentsWithNoPPO"
-                      value={formData.showToStudentsWithNoPPO}
-                      onChange={(e) => updateField('showToStudentsWithNoPPO', e.target.value)}
-                      className="w-full px-3 py-2 border rounded-lg bg-background"
-                    >
-                      <option value="">Select Option</option>
-                      <option value="No">No</option>
-                      <option value="Yes">Yes</option>
-                    </select>
+                  <div className="text-right text-sm whitespace-nowrap">
+                    {previewLoading ? (
+                      <span className="text-muted-foreground">Counting…</span>
+                    ) : eligibilityPreview ? (
+                      <span>
+                        <span className="font-semibold text-foreground">{eligibilityPreview.eligibleCount}</span>
+                        <span className="text-muted-foreground"> of {eligibilityPreview.audienceCount} students eligible</span>
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">Select a batch to preview</span>
+                    )}
                   </div>
+                </div>
 
-                  <div>
-                    <Label htmlFor="showToStudentsWithInternships">Show to Students with Internships</Label>
-                    <select
-                      id="showToStudentsWithInternships"
-                      value={formData.showToStudentsWithInternships}
-                      onChange={(e) => updateField('showToStudentsWithInternships', e.target.value)}
-                      className="w-full px-3 py-2 border rounded-lg bg-background"
-                    >
-                      <option value="">Select Option</option>
-                      <option value="No">No</option>
-                      <option value="Yes">Yes</option>
-                    </select>
-                  </div>
+                <EligibilityRuleBuilder
+                  value={formData.eligibilityRules}
+                  onChange={(rules) => setFormData(prev => ({ ...prev, eligibilityRules: rules }))}
+                />
 
-                  <div>
-                    <Label htmlFor="showToStudentsWithZeroOffers">Show to Students with Zero Offers</Label>
-                    <select
-                      id="showToStudentsWithZeroOffers"
-                      value={formData.showToStudentsWithZeroOffers}
-                      onChange={(e) => updateField('showToStudentsWithZeroOffers', e.target.value)}
-                      className="w-full px-3 py-2 border rounded-lg bg-background"
-                    >
-                      <option value="">Select Option</option>
-                      <option value="No">No</option>
-                      <option value="Yes">Yes</option>
-                    </select>
-                  </div>
-                </div>
+                {formData.eligibilityRules && formData.eligibilityRules.rules.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium">Summary:</span> {describeRule(formData.eligibilityRules)}
+                  </p>
+                )}
               </div>
 
               <div>
-                <Label htmlFor="customVisibilityRule">Custom Visibility Rule (Advanced)</Label>
+                <Label htmlFor="customVisibilityRule">Visibility Notes (Internal)</Label>
                 <Textarea
                   id="customVisibilityRule"
                   value={formData.customVisibilityRule}
                   onChange={(e) => updateField('customVisibilityRule', e.target.value)}
                   rows={3}
-                  placeholder="Custom business logic for visibility..."
+                  placeholder="Context for other admins - not evaluated; use the rules above"
                 />
               </div>
 
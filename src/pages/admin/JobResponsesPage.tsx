@@ -12,11 +12,23 @@ import {
   Briefcase,
   MapPin,
   DollarSign,
-  FileText
+  FileText,
+  ArrowRight,
+  Settings,
+  Clock,
+  Plus,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  Video,
+  Award,
+  Columns
 } from 'lucide-react';
-import { apiService } from '../../services/api';
+import { apiService, PipelineApplicant, PipelineStage, PipelineStageKind } from '../../services/api';
 import toast from 'react-hot-toast';
 import { formatDateTimeBackend } from '../../utils/dateUtils';
+import { OfferFormModal } from '../../components/admin/OfferFormModal';
+import { ApplicantComparisonModal } from '../../components/admin/ApplicantComparisonModal';
 
 interface JobPosting {
   jobId: string;
@@ -27,7 +39,17 @@ interface JobPosting {
   role: string;
   location: string;
   workMode: string;
+  ctcType: string;
+  ctcValue: string;
+  ctcValueSecondary: string;
   ctcDisplay: string;
+  esopType: string;
+  esopValue: string;
+  esopDisplay: string;
+  bonusType: string;
+  bonusValue: string;
+  bonusValueSecondary: string;
+  bonusDisplay: string;
   compensationDisplay: string;
   applicationStartTime: string;
   applicationEndTime: string;
@@ -44,22 +66,45 @@ interface JobPosting {
   }>;
 }
 
-interface JobResponse {
-  timestamp: string;
-  studentName: string;
-  studentEmail: string;
-  rollNumber: string;
-  answers: Record<string, string>;
-  assignmentFileUrl?: string;
+interface SchedulerForm {
+  stage: string;
+  startTime: string;
+  durationMinutes: number;
+  gapMinutes: number;
+  location: string;
+  notes: string;
 }
 
+const STAGE_KIND_LABELS: Record<PipelineStageKind, string> = {
+  active: 'In progress',
+  offer: 'Offer',
+  rejected: 'Rejected'
+};
+
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
 export const JobResponsesPage: React.FC = () => {
   const { jobId } = useParams<{ jobId: string }>();
   const navigate = useNavigate();
   const [job, setJob] = useState<JobPosting | null>(null);
-  const [responses, setResponses] = useState<JobResponse[]>([]);
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [responses, setResponses] = useState<PipelineApplicant[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedResponse, setSelectedResponse] = useState<JobResponse | null>(null);
+  const [selectedResponse, setSelectedResponse] = useState<PipelineApplicant | null>(null);
+  const [stageFilter, setStageFilter] = useState<string>('all');
+  const [selectedEmails, setSelectedEmails] = useState<Set<string>>(new Set());
+  const [moveStage, setMoveStage] = useState('');
+  const [moveNote, setMoveNote] = useState('');
+  const [moving, setMoving] = useState(false);
+  const [editingStages, setEditingStages] = useState<PipelineStage[] | null>(null);
+  const [savingStages, setSavingStages] = useState(false);
+  const [scheduler, setScheduler] = useState<SchedulerForm | null>(null);
+  const [scheduling, setScheduling] = useState(false);
+  const [offerApplicant, setOfferApplicant] = useState<PipelineApplicant | null>(null);
+  const [comparedApplicants, setComparedApplicants] = useState<PipelineApplicant[] | null>(null);
 
   useEffect(() => {
     if (jobId) {
@@ -74,9 +119,7 @@ export const JobResponsesPage: React.FC = () => {
 
       if (result.success && result.data) {
         setJob(result.data);
-        // In a full implementation, you would fetch responses from the response sheet
-        // For now, we'll just show the job details
-        setResponses([]);
+        await fetchPipeline();
       } else {
         toast.error('Failed to load job details');
       }
@@ -88,6 +131,184 @@ export const JobResponsesPage: React.FC = () => {
     }
   };
 
+  const fetchPipeline = async () => {
+    const result = await apiService.getJobPipeline(jobId!);
+    if (result.success && result.data) {
+      setStages(result.data.stages);
+      setResponses(result.data.applicants);
+      setSelectedResponse(prev => (prev ? result.data!.applicants.find(a => a.studentEmail === prev.studentEmail) || null : null));
+    } else {
+      toast.error(result.error || 'Failed to load applications');
+    }
+  };
+
+  const filteredResponses = stageFilter === 'all'
+    ? responses
+    : responses.filter(r => r.stage === stageFilter);
+
+  const allFilteredSelected = filteredResponses.length > 0 && filteredResponses.every(r => selectedEmails.has(r.studentEmail));
+
+  const toggleSelected = (email: string) => {
+    const next = new Set(selectedEmails);
+    if (next.has(email)) {
+      next.delete(email);
+    } else {
+      next.add(email);
+    }
+    setSelectedEmails(next);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedEmails(allFilteredSelected ? new Set() : new Set(filteredResponses.map(r => r.studentEmail)));
+  };
+
+  const getStageColor = (stageName: string) => {
+    const stage = stages.find(s => s.name === stageName);
+    if (stage?.kind === 'offer') return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300';
+    if (stage?.kind === 'rejected') return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300';
+    return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300';
+  };
+
+  const handleMoveSelected = async () => {
+    if (!moveStage || selectedEmails.size === 0) return;
+
+    try {
+      setMoving(true);
+      const result = await apiService.moveApplicantsToStage(jobId!, Array.from(selectedEmails), moveStage, moveNote.trim() || undefined);
+      if (result.success && result.data) {
+        const { movedCount, unchangedCount } = result.data;
+        toast.success(`${movedCount} moved to ${moveStage}${unchangedCount ? ` (${unchangedCount} already there)` : ''}`);
+        setSelectedEmails(new Set());
+        setMoveNote('');
+        await fetchPipeline();
+      } else {
+        toast.error(result.error || 'Failed to move applicants');
+      }
+    } catch (error) {
+      console.error('Error moving applicants:', error);
+      toast.error('Error moving applicants');
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  const updateEditingStage = (index: number, updates: Partial<PipelineStage>) => {
+    setEditingStages(prev => prev && prev.map((s, i) => (i === index ? { ...s, ...updates } : s)));
+  };
+
+  const moveEditingStage = (index: number, direction: -1 | 1) => {
+    setEditingStages(prev => {
+      if (!prev) return prev;
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSaveStages = async () => {
+    if (!editingStages) return;
+
+    // Applicants keep their stage name, so a removed stage would strand them
+    const removedInUse = stages
+      .filter(s => !editingStages.some(e => e.name.trim() === s.name))
+      .filter(s => responses.some(r => r.stage === s.name));
+    if (removedInUse.length > 0) {
+      toast.error(`Move applicants out of ${removedInUse.map(s => s.name).join(', ')} before removing or renaming it`);
+      return;
+    }
+
+    try {
+      setSavingStages(true);
+      const result = await apiService.saveJobPipelineStages(jobId!, editingStages.map(s => ({ ...s, name: s.name.trim() })));
+      if (result.success) {
+        toast.success('Pipeline stages saved');
+        setEditingStages(null);
+        await fetchPipeline();
+      } else {
+        toast.error(result.error || 'Failed to save stages');
+      }
+    } catch (error) {
+      console.error('Error saving stages:', error);
+      toast.error('Error saving stages');
+    } finally {
+      setSavingStages(false);
+    }
+  };
+
+  const openScheduler = () => {
+    const start = new Date();
+    start.setDate(start.getDate() + 1);
+    start.setHours(10, 0, 0, 0);
+    setScheduler({
+      stage: stages.find(s => s.name.toLowerCase().includes('interview'))?.name || stageFilter,
+      startTime: toLocalInputValue(start),
+      durationMinutes: 30,
+      gapMinutes: 0,
+      location: '',
+      notes: ''
+    });
+  };
+
+  // Back-to-back slots for the selected applicants, in table order
+  const plannedSlots = scheduler
+    ? responses
+        .filter(r => selectedEmails.has(r.studentEmail))
+        .map((r, index) => {
+          const start = new Date(new Date(scheduler.startTime).getTime() + index * (scheduler.durationMinutes + scheduler.gapMinutes) * 60000);
+          return {
+            applicant: r,
+            start,
+            end: new Date(start.getTime() + scheduler.durationMinutes * 60000)
+          };
+        })
+    : [];
+
+  const handleScheduleInterviews = async () => {
+    if (!scheduler || plannedSlots.length === 0) return;
+    if (!scheduler.startTime || scheduler.durationMinutes <= 0) {
+      toast.error('Set a start time and a positive duration');
+      return;
+    }
+
+    try {
+      setScheduling(true);
+      const result = await apiService.scheduleInterviewSlots(jobId!, plannedSlots.map(slot => ({
+        studentEmail: slot.applicant.studentEmail,
+        stage: scheduler.stage === 'all' ? '' : scheduler.stage,
+        startTime: slot.start.toISOString(),
+        endTime: slot.end.toISOString(),
+        location: scheduler.location,
+        notes: scheduler.notes
+      })));
+      if (result.success) {
+        toast.success(`${plannedSlots.length} interview slot(s) scheduled`);
+        setScheduler(null);
+        setSelectedEmails(new Set());
+        await fetchPipeline();
+      } else {
+        toast.error(result.error || 'Failed to schedule interviews');
+      }
+    } catch (error) {
+      console.error('Error scheduling interviews:', error);
+      toast.error('Error scheduling interviews');
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  const handleCancelSlot = async (slotId: string) => {
+    if (!window.confirm('Cancel this interview slot?')) return;
+    const result = await apiService.deleteInterviewSlot(slotId);
+    if (result.success) {
+      toast.success('Interview slot cancelled');
+      await fetchPipeline();
+    } else {
+      toast.error(result.error || 'Failed to cancel slot');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status?.toLowerCase()) {
       case 'active': return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300';
@@ -240,7 +461,7 @@ export const JobResponsesPage: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Total Applications</p>
-                <p className="text-2xl font-bold">{job.applicationsCount || 0}</p>
+                <p className="text-2xl font-bold">{responses.length || job.applicationsCount || 0}</p>
               </div>
               <Users className="w-8 h-8 text-primary opacity-20" />
             </div>
@@ -284,7 +505,7 @@ export const JobResponsesPage: React.FC = () => {
         </Card>
       </div>
 
-      {/* Applications Table */}
+      {/* Applications Pipeline */}
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -292,13 +513,86 @@ export const JobResponsesPage: React.FC = () => {
               <Users className="w-6 h-6" />
               Applications
             </CardTitle>
-            <Button variant="outline" className="gap-2" disabled>
-              <Download className="w-4 h-4" />
-              Export CSV
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => setEditingStages(stages.map(s => ({ ...s })))}>
+                <Settings className="w-4 h-4" />
+                Pipeline Stages
+              </Button>
+              <Button variant="outline" className="gap-2" disabled>
+                <Download className="w-4 h-4" />
+                Export CSV
+              </Button>
+            </div>
           </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {/* Stage filter */}
+          <div className="flex flex-wrap items-center gap-2">
+            {[{ name: 'all', label: 'All', count: responses.length }, ...stages.map(s => ({
+              name: s.name,
+              label: s.name,
+              count: responses.filter(r => r.stage === s.name).length
+            }))].map((chip, index) => (
+              <React.Fragment key={chip.name}>
+                {index > 1 && <ArrowRight className="w-3 h-3 text-muted-foreground" />}
+                <button
+                  onClick={() => {
+                    setStageFilter(chip.name);
+                    setSelectedEmails(new Set());
+                  }}
+                  className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                    stageFilter === chip.name
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'hover:bg-muted'
+                  }`}
+                >
+                  {chip.label}
+                  <span className="ml-1.5 opacity-70">{chip.count}</span>
+                </button>
+              </React.Fragment>
+            ))}
+          </div>
+
+          {/* Bulk actions */}
+          {selectedEmails.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-muted/50 border">
+              <span className="text-sm font-medium mr-2">{selectedEmails.size} selected</span>
+              <select
+                value={moveStage}
+                onChange={(e) => setMoveStage(e.target.value)}
+                className="px-3 py-2 border rounded-lg bg-background text-sm"
+              >
+                <option value="">Move to stage...</option>
+                {stages.map(s => (
+                  <option key={s.name} value={s.name}>{s.name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={moveNote}
+                onChange={(e) => setMoveNote(e.target.value)}
+                placeholder="Note for students (optional)"
+                className="flex-1 min-w-[200px] px-3 py-2 border rounded-lg bg-background text-sm"
+              />
+              <Button size="sm" onClick={handleMoveSelected} disabled={!moveStage || moving}>
+                {moving ? 'Moving...' : 'Move'}
+              </Button>
+              <Button size="sm" variant="outline" className="gap-1" onClick={openScheduler}>
+                <Video className="w-4 h-4" />
+                Schedule Interviews
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1"
+                onClick={() => setComparedApplicants(responses.filter(r => selectedEmails.has(r.studentEmail)))}
+              >
+                <Columns className="w-4 h-4" />
+                Compare & Export
+              </Button>
+            </div>
+          )}
+
           {responses.length === 0 ? (
             <div className="text-center py-12">
               <Users className="w-16 h-16 text-muted-foreground mx-auto mb-4 opacity-20" />
@@ -315,38 +609,67 @@ export const JobResponsesPage: React.FC = () => {
                 View Response Sheet
               </Button>
             </div>
+          ) : filteredResponses.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No applicants in {stageFilter}.</p>
           ) : (
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead>
                   <tr className="border-b">
-                    <th className="text-left p-3 font-semibold">#</th>
-                    <th className="text-left p-3 font-semibold">Timestamp</th>
+                    <th className="text-left p-3">
+                      <input
+                        type="checkbox"
+                        checked={allFilteredSelected}
+                        onChange={toggleSelectAll}
+                        className="w-4 h-4"
+                        aria-label="Select all applicants"
+                      />
+                    </th>
                     <th className="text-left p-3 font-semibold">Student Name</th>
                     <th className="text-left p-3 font-semibold">Email</th>
-                    <th className="text-left p-3 font-semibold">Roll Number</th>
+                    <th className="text-left p-3 font-semibold">Stage</th>
+                    <th className="text-left p-3 font-semibold">Applied</th>
+                    <th className="text-left p-3 font-semibold">Next Interview</th>
                     <th className="text-left p-3 font-semibold">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {responses.map((response, index) => (
-                    <tr key={index} className="border-b hover:bg-muted/50">
-                      <td className="p-3">{index + 1}</td>
-                      <td className="p-3">{response.timestamp}</td>
-                      <td className="p-3">{response.studentName}</td>
-                      <td className="p-3">{response.studentEmail}</td>
-                      <td className="p-3">{response.rollNumber}</td>
-                      <td className="p-3">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setSelectedResponse(response)}
-                        >
-                          View
-                        </Button>
-                      </td>
-                    </tr>
-                  ))}
+                  {filteredResponses.map((response) => {
+                    const nextSlot = response.interviewSlots
+                      .filter(slot => new Date(slot.endTime) > new Date())
+                      .sort((a, b) => a.startTime.localeCompare(b.startTime))[0];
+                    return (
+                      <tr key={response.studentEmail} className="border-b hover:bg-muted/50">
+                        <td className="p-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedEmails.has(response.studentEmail)}
+                            onChange={() => toggleSelected(response.studentEmail)}
+                            className="w-4 h-4"
+                            aria-label={`Select ${response.studentName}`}
+                          />
+                        </td>
+                        <td className="p-3">{response.studentName}</td>
+                        <td className="p-3">{response.studentEmail}</td>
+                        <td className="p-3">
+                          <Badge className={getStageColor(response.stage)}>{response.stage}</Badge>
+                        </td>
+                        <td className="p-3">{formatDateTimeBackend(response.timestamp)}</td>
+                        <td className="p-3 text-sm">
+                          {nextSlot ? formatDateTimeBackend(nextSlot.startTime) : <span className="text-muted-foreground">—</span>}
+                        </td>
+                        <td className="p-3">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSelectedResponse(response)}
+                          >
+                            View
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -423,40 +746,325 @@ export const JobResponsesPage: React.FC = () => {
                   <p className="font-semibold">{selectedResponse.studentEmail}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Roll Number</p>
-                  <p className="font-semibold">{selectedResponse.rollNumber}</p>
+                  <p className="text-sm text-muted-foreground">Current Stage</p>
+                  <Badge className={getStageColor(selectedResponse.stage)}>{selectedResponse.stage}</Badge>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Submitted At</p>
-                  <p className="font-semibold">{selectedResponse.timestamp}</p>
+                  <p className="font-semibold">{formatDateTimeBackend(selectedResponse.timestamp)}</p>
                 </div>
               </div>
 
-              <div className="border-t pt-4">
-                <h4 className="font-semibold mb-3">Responses</h4>
-                <div className="space-y-3">
-                  {Object.entries(selectedResponse.answers).map(([question, answer], index) => (
-                    <div key={index} className="bg-muted/30 p-3 rounded-lg">
-                      <p className="text-sm font-medium text-muted-foreground mb-1">{question}</p>
-                      <p className="text-foreground">{answer}</p>
-                    </div>
-                  ))}
+              {Object.keys(selectedResponse.answers).length > 0 && (
+                <div className="border-t pt-4">
+                  <h4 className="font-semibold mb-3">Responses</h4>
+                  <div className="space-y-3">
+                    {Object.entries(selectedResponse.answers).map(([question, answer], index) => (
+                      <div key={index} className="bg-muted/30 p-3 rounded-lg">
+                        <p className="text-sm font-medium text-muted-foreground mb-1">{question}</p>
+                        <p className="text-foreground">{answer}</p>
+                      </div>
+                    ))}
+                  </div>
                 </div>
+              )}
+
+              {(selectedResponse.resumeUrl || selectedResponse.assignmentFileUrl || stages.find(s => s.name === selectedResponse.stage)?.kind === 'offer') && (
+                <div className="border-t pt-4 flex flex-wrap gap-2">
+                  {stages.find(s => s.name === selectedResponse.stage)?.kind === 'offer' && (
+                    <Button
+                      onClick={() => setOfferApplicant(selectedResponse)}
+                      className="gap-2"
+                    >
+                      <Award className="w-4 h-4" />
+                      Record Offer
+                    </Button>
+                  )}
+                  {selectedResponse.resumeUrl && (
+                    <Button
+                      variant="outline"
+                      onClick={() => window.open(selectedResponse.resumeUrl, '_blank')}
+                      className="gap-2"
+                    >
+                      <FileText className="w-4 h-4" />
+                      View Resume
+                    </Button>
+                  )}
+                  {selectedResponse.assignmentFileUrl && (
+                    <Button
+                      variant="outline"
+                      onClick={() => window.open(selectedResponse.assignmentFileUrl, '_blank')}
+                      className="gap-2"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      View Assignment File
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              <div className="border-t pt-4">
+                <h4 className="font-semibold mb-3">Interview Slots</h4>
+                {selectedResponse.interviewSlots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No interviews scheduled.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {selectedResponse.interviewSlots.map(slot => (
+                      <div key={slot.slotId} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/30">
+                        <div className="text-sm">
+                          <p className="font-medium">
+                            {slot.stage && `${slot.stage} · `}{formatDateTimeBackend(slot.startTime)} – {new Date(slot.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </p>
+                          {(slot.location || slot.notes) && (
+                            <p className="text-muted-foreground">{[slot.location, slot.notes].filter(Boolean).join(' · ')}</p>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => handleCancelSlot(slot.slotId)}
+                          className="p-1.5 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                          title="Cancel slot"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
-              {selectedResponse.assignmentFileUrl && (
-                <div className="border-t pt-4">
-                  <h4 className="font-semibold mb-2">Assignment Submission</h4>
-                  <Button
-                    variant="outline"
-                    onClick={() => window.open(selectedResponse.assignmentFileUrl, '_blank')}
-                    className="gap-2"
+              <div className="border-t pt-4">
+                <h4 className="font-semibold mb-3">Stage History</h4>
+                {selectedResponse.history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Still in {selectedResponse.stage}.</p>
+                ) : (
+                  <ol className="space-y-3 border-l-2 border-muted pl-4">
+                    {selectedResponse.history.map(entry => (
+                      <li key={entry.id} className="text-sm">
+                        <p className="font-medium">
+                          {entry.fromStage} <ArrowRight className="inline w-3 h-3" /> {entry.toStage}
+                        </p>
+                        <p className="text-muted-foreground flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {formatDateTimeBackend(entry.changedAt)}{entry.changedBy && ` · ${entry.changedBy}`}
+                        </p>
+                        {entry.note && <p className="mt-1">{entry.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {offerApplicant && (
+        <OfferFormModal
+          initialValues={{
+            studentEmail: offerApplicant.studentEmail,
+            studentName: offerApplicant.studentName,
+            batch: offerApplicant.batch,
+            jobId: job.jobId,
+            applicationId: offerApplicant.applicationId,
+            company: job.company,
+            role: job.role,
+            offerType: job.type === 'Internship' ? 'Internship' : 'FT',
+            ctcType: job.ctcType,
+            ctcValue: job.ctcValue,
+            ctcValueSecondary: job.ctcValueSecondary,
+            ctcDisplay: job.ctcDisplay,
+            esopType: job.esopType,
+            esopValue: job.esopValue,
+            esopDisplay: job.esopDisplay,
+            bonusType: job.bonusType,
+            bonusValue: job.bonusValue,
+            bonusValueSecondary: job.bonusValueSecondary,
+            bonusDisplay: job.bonusDisplay
+          }}
+          onClose={() => setOfferApplicant(null)}
+          onSaved={() => setOfferApplicant(null)}
+        />
+      )}
+
+      {comparedApplicants && (
+        <ApplicantComparisonModal
+          jobId={job.jobId}
+          company={job.company}
+          role={job.role}
+          applicants={comparedApplicants}
+          questions={(job.questions || []).map(q => q.text)}
+          onClose={() => setComparedApplicants(null)}
+        />
+      )}
+
+      {/* Pipeline Stage Editor */}
+      {editingStages && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card className="max-w-xl w-full max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle>Pipeline Stages</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                New applicants start in the first stage. The stage type decides how students see it.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {editingStages.map((stage, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => moveEditingStage(index, -1)}
+                      disabled={index === 0}
+                      className="p-0.5 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveEditingStage(index, 1)}
+                      disabled={index === editingStages.length - 1}
+                      className="p-0.5 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={stage.name}
+                    onChange={(e) => updateEditingStage(index, { name: e.target.value })}
+                    className="flex-1 px-3 py-2 border rounded-lg bg-background text-sm"
+                  />
+                  <select
+                    value={stage.kind}
+                    onChange={(e) => updateEditingStage(index, { kind: e.target.value as PipelineStageKind })}
+                    className="px-3 py-2 border rounded-lg bg-background text-sm"
                   >
-                    <ExternalLink className="w-4 h-4" />
-                    View Assignment File
-                  </Button>
+                    {(Object.keys(STAGE_KIND_LABELS) as PipelineStageKind[]).map(kind => (
+                      <option key={kind} value={kind}>{STAGE_KIND_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setEditingStages(editingStages.filter((_, i) => i !== index))}
+                    disabled={editingStages.length === 1}
+                    className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-30"
+                    title="Remove stage"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
-              )}
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => setEditingStages([...editingStages, { name: '', kind: 'active' }])}
+              >
+                <Plus className="w-4 h-4" />
+                Add Stage
+              </Button>
+              <div className="flex justify-end gap-2 pt-4 border-t">
+                <Button variant="outline" onClick={() => setEditingStages(null)}>Cancel</Button>
+                <Button onClick={handleSaveStages} disabled={savingStages}>
+                  {savingStages ? 'Saving...' : 'Save Stages'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Interview Scheduler */}
+      {scheduler && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle>Schedule Interviews</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Back-to-back slots for {plannedSlots.length} selected applicant(s). Each student is notified of their slot.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm">
+                  <span className="text-muted-foreground">Round</span>
+                  <select
+                    value={scheduler.stage}
+                    onChange={(e) => setScheduler({ ...scheduler, stage: e.target.value })}
+                    className="w-full mt-1 px-3 py-2 border rounded-lg bg-background"
+                  >
+                    <option value="all">Not linked to a stage</option>
+                    {stages.map(s => (
+                      <option key={s.name} value={s.name}>{s.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm">
+                  <span className="text-muted-foreground">First slot starts</span>
+                  <input
+                    type="datetime-local"
+                    value={scheduler.startTime}
+                    onChange={(e) => setScheduler({ ...scheduler, startTime: e.target.value })}
+                    className="w-full mt-1 px-3 py-2 border rounded-lg bg-background"
+                  />
+                </label>
+                <label className="text-sm">
+                  <span className="text-muted-foreground">Duration (minutes)</span>
+                  <input
+                    type="number"
+                    min={5}
+                    value={scheduler.durationMinutes}
+                    onChange={(e) => setScheduler({ ...scheduler, durationMinutes: parseInt(e.target.value) || 0 })}
+                    className="w-full mt-1 px-3 py-2 border rounded-lg bg-background"
+                  />
+                </label>
+                <label className="text-sm">
+                  <span className="text-muted-foreground">Gap between slots (minutes)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={scheduler.gapMinutes}
+                    onChange={(e) => setScheduler({ ...scheduler, gapMinutes: parseInt(e.target.value) || 0 })}
+                    className="w-full mt-1 px-3 py-2 border rounded-lg bg-background"
+                  />
+                </label>
+                <label className="text-sm col-span-2">
+                  <span className="text-muted-foreground">Location or meeting link</span>
+                  <input
+                    type="text"
+                    value={scheduler.location}
+                    onChange={(e) => setScheduler({ ...scheduler, location: e.target.value })}
+                    className="w-full mt-1 px-3 py-2 border rounded-lg bg-background"
+                  />
+                </label>
+                <label className="text-sm col-span-2">
+                  <span className="text-muted-foreground">Notes</span>
+                  <input
+                    type="text"
+                    value={scheduler.notes}
+                    onChange={(e) => setScheduler({ ...scheduler, notes: e.target.value })}
+                    className="w-full mt-1 px-3 py-2 border rounded-lg bg-background"
+                  />
+                </label>
+              </div>
+
+              <div className="border rounded-lg divide-y max-h-60 overflow-y-auto">
+                {plannedSlots.map(slot => (
+                  <div key={slot.applicant.studentEmail} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span>{slot.applicant.studentName || slot.applicant.studentEmail}</span>
+                    <span className="text-muted-foreground flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {slot.start.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} – {slot.end.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4 border-t">
+                <Button variant="outline" onClick={() => setScheduler(null)}>Cancel</Button>
+                <Button onClick={handleScheduleInterviews} disabled={scheduling || plannedSlots.length === 0}>
+                  {scheduling ? 'Scheduling...' : 'Schedule'}
+                </Button>
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Briefcase, ArrowLeft, Building2, ArrowRight, Plus } from 'lucide-react';
+import { Briefcase, ArrowLeft, Building2, ArrowRight, Plus, BarChart3 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { PlacementManagementCard } from '../../components/admin/PlacementManagementCard';
 
@@ -80,6 +80,12 @@ export function PlacementManagementPage() {
                   Manage eligibility criteria and visibility rules
                 </p>
               </div>
+              <div className="flex items-start gap-3">
+                <div className="w-1.5 h-1.5 rounded-full bg-cyan-500 mt-2"></div>
+                <p className="text-sm text-muted-foreground">
+                  Record offers and report batch-wise placement statistics
+                </p>
+              </div>
             </div>
 
             {/* Action Buttons */}
@@ -100,6 +106,13 @@ export function PlacementManagementPage() {
                 <Plus className="w-4 h-4" />
                 Create New Job Posting
               </a>
+              <button
+                onClick={() => navigate('/admin/placement/report')}
+                className="w-full px-4 py-2.5 rounded-lg bg-cyan-600/10 hover:bg-cyan-600/20 text-cyan-600 dark:text-cyan-400 border border-cyan-600/20 transition-colors font-medium flex items-center justify-center gap-2"
+              >
+                <BarChart3 className="w-4 h-4" />
+                Offers &amp; Placement Report
+              </button>
             </div>
 
             {/* Hover indicator */}
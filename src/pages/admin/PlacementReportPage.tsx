@@ -0,0 +1,419 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import {
+  ArrowLeft,
+  Award,
+  Building2,
+  Download,
+  Edit,
+  Plus,
+  Search,
+  Trash2,
+  TrendingUp,
+  Users
+} from 'lucide-react';
+import { apiService, OfferStatus, PlacementOffer, PlacementReportData } from '../../services/api';
+import { OfferFormModal, OfferJobOption } from '../../components/admin/OfferFormModal';
+import { buildPlacementReport, exportPlacementReportCsv } from '../../utils/placementReport';
+import { formatDate } from '../../utils/helpers';
+import toast from 'react-hot-toast';
+
+const getOfferStatusColor = (status: OfferStatus) => {
+  switch (status) {
+    case 'Accepted': return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300';
+    case 'Declined': return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300';
+    default: return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300';
+  }
+};
+
+export function PlacementReportPage() {
+  const navigate = useNavigate();
+  const [reportData, setReportData] = useState<PlacementReportData | null>(null);
+  const [jobs, setJobs] = useState<OfferJobOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [batchFilter, setBatchFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [editingOffer, setEditingOffer] = useState<PlacementOffer | null>(null);
+  const [showOfferForm, setShowOfferForm] = useState(false);
+
+  useEffect(() => {
+    fetchReport();
+    apiService.getAllJobPostings().then(result => {
+      if (result.success && result.data) setJobs(result.data);
+    });
+  }, []);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      const result = await apiService.getPlacementReport();
+
+      if (result.success && result.data) {
+        setReportData(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load placement report');
+      }
+    } catch (error) {
+      console.error('Error fetching placement report:', error);
+      toast.error('Error loading placement report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const report = useMemo(
+    () => (reportData ? buildPlacementReport(reportData, batchFilter) : null),
+    [reportData, batchFilter]
+  );
+
+  const batchOptions = useMemo(() => {
+    if (!reportData) return [];
+    return Array.from(new Set([
+      ...Object.keys(reportData.batchStudentCounts),
+      ...reportData.offers.map(o => o.batch).filter(Boolean)
+    ])).sort();
+  }, [reportData]);
+
+  const visibleOffers = useMemo(() => {
+    if (!reportData) return [];
+    const query = search.trim().toLowerCase();
+    return reportData.offers
+      .filter(o => batchFilter === 'all' || o.batch === batchFilter)
+      .filter(o => !query || [o.studentName, o.studentEmail, o.company, o.role].some(v => String(v || '').toLowerCase().includes(query)));
+  }, [reportData, batchFilter, search]);
+
+  const handleStatusChange = async (offer: PlacementOffer, status: OfferStatus) => {
+    const result = await apiService.updateOffer(offer.offerId, { status });
+    if (result.success) {
+      toast.success(`Offer marked ${status.toLowerCase()}`);
+      fetchReport();
+    } else {
+      toast.error(result.error || 'Failed to update offer');
+    }
+  };
+
+  const handleDelete = async (offer: PlacementOffer) => {
+    if (!window.confirm(`Delete the ${offer.company} offer for ${offer.studentName || offer.studentEmail}?`)) {
+      return;
+    }
+
+    const result = await apiService.deleteOffer(offer.offerId);
+    if (result.success) {
+      toast.success('Offer deleted');
+      fetchReport();
+    } else {
+      toast.error(result.error || 'Failed to delete offer');
+    }
+  };
+
+  const closeOfferForm = () => {
+    setShowOfferForm(false);
+    setEditingOffer(null);
+  };
+
+  if (loading && !reportData) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading placement report...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <button
+          onClick={() => navigate('/admin/placement')}
+          className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Placement Management</span>
+        </button>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Placement Report</h1>
+            <p className="text-muted-foreground mt-1">Offers, placement rates and CTC statistics by batch</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={batchFilter}
+              onChange={(e) => setBatchFilter(e.target.value)}
+              className="px-3 py-2 border rounded-lg bg-background"
+            >
+              <option value="all">All Batches</option>
+              {batchOptions.map(batch => (
+                <option key={batch} value={batch}>{batch}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              className="gap-2"
+              disabled={!report}
+              onClick={() => report && exportPlacementReportCsv(report, visibleOffers)}
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </Button>
+            <Button className="gap-2" onClick={() => setShowOfferForm(true)}>
+              <Plus className="w-4 h-4" />
+              Record Offer
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {report && (
+        <>
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Placed</p>
+                    <p className="text-2xl font-bold text-green-600">{report.overall.placementPercent}%</p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.overall.placedStudents} of {report.overall.totalStudents} students
+                    </p>
+                  </div>
+                  <Users className="w-8 h-8 text-green-600 opacity-20" />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Median CTC</p>
+                    <p className="text-2xl font-bold">{report.overall.median} LPA</p>
+                    <p className="text-xs text-muted-foreground">Average {report.overall.average} LPA</p>
+                  </div>
+                  <TrendingUp className="w-8 h-8 text-primary opacity-20" />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Highest CTC</p>
+                    <p className="text-2xl font-bold text-blue-600">{report.overall.highest} LPA</p>
+                  </div>
+                  <Award className="w-8 h-8 text-blue-600 opacity-20" />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Offers</p>
+                    <p className="text-2xl font-bold">{report.overall.offersCount}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.overall.ppoCount} PPO · {report.overall.internshipCount} internships
+                    </p>
+                  </div>
+                  <Building2 className="w-8 h-8 text-primary opacity-20" />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Batch-wise */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Batch-wise Placement</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-3 font-semibold">Batch</th>
+                      <th className="text-right p-3 font-semibold">Students</th>
+                      <th className="text-right p-3 font-semibold">Placed</th>
+                      <th className="text-left p-3 font-semibold w-48">Placement %</th>
+                      <th className="text-right p-3 font-semibold">Offers</th>
+                      <th className="text-right p-3 font-semibold">Median</th>
+                      <th className="text-right p-3 font-semibold">Average</th>
+                      <th className="text-right p-3 font-semibold">Highest</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.batches.map(batch => (
+                      <tr key={batch.batch} className="border-b hover:bg-muted/50">
+                        <td className="p-3 font-medium">{batch.batch}</td>
+                        <td className="p-3 text-right">{batch.totalStudents}</td>
+                        <td className="p-3 text-right">{batch.placedStudents}</td>
+                        <td className="p-3">
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                              <div className="h-full bg-green-500" style={{ width: `${Math.min(batch.placementPercent, 100)}%` }} />
+                            </div>
+                            <span className="w-12 text-right">{batch.placementPercent}%</span>
+                          </div>
+                        </td>
+                        <td className="p-3 text-right">{batch.offersCount}</td>
+                        <td className="p-3 text-right">{batch.median} LPA</td>
+                        <td className="p-3 text-right">{batch.average} LPA</td>
+                        <td className="p-3 text-right">{batch.highest} LPA</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Company-wise */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Company-wise Offers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.companies.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No offers recorded yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-3 font-semibold">Company</th>
+                        <th className="text-right p-3 font-semibold">Offers</th>
+                        <th className="text-right p-3 font-semibold">Accepted</th>
+                        <th className="text-right p-3 font-semibold">Declined</th>
+                        <th className="text-right p-3 font-semibold">Highest CTC</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.companies.map(company => (
+                        <tr key={company.company} className="border-b hover:bg-muted/50">
+                          <td className="p-3 font-medium">{company.company}</td>
+                          <td className="p-3 text-right">{company.offersCount}</td>
+                          <td className="p-3 text-right">{company.acceptedCount}</td>
+                          <td className="p-3 text-right">{company.declinedCount}</td>
+                          <td className="p-3 text-right">{company.highestCTC ? `${company.highestCTC} LPA` : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Offers */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <CardTitle>Offers</CardTitle>
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search student or company"
+                className="pl-9 pr-3 py-2 border rounded-lg bg-background text-sm w-64"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visibleOffers.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No offers found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-3 font-semibold">Student</th>
+                    <th className="text-left p-3 font-semibold">Company / Role</th>
+                    <th className="text-left p-3 font-semibold">Type</th>
+                    <th className="text-left p-3 font-semibold">Compensation</th>
+                    <th className="text-left p-3 font-semibold">Offer Date</th>
+                    <th className="text-left p-3 font-semibold">Status</th>
+                    <th className="text-left p-3 font-semibold">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleOffers.map(offer => (
+                    <tr key={offer.offerId} className="border-b hover:bg-muted/50">
+                      <td className="p-3">
+                        <p className="font-medium">{offer.studentName || offer.studentEmail}</p>
+                        <p className="text-xs text-muted-foreground">{offer.batch}</p>
+                      </td>
+                      <td className="p-3">
+                        <p className="font-medium">{offer.company}</p>
+                        <p className="text-xs text-muted-foreground">{offer.role}</p>
+                      </td>
+                      <td className="p-3">
+                        <Badge variant="secondary">{offer.offerType}</Badge>
+                      </td>
+                      <td className="p-3">
+                        {[offer.ctcDisplay || (offer.ctcValue ? `${offer.ctcValue} LPA` : ''), offer.esopDisplay, offer.bonusDisplay]
+                          .filter(Boolean)
+                          .join(' + ') || '—'}
+                      </td>
+                      <td className="p-3">{offer.offerDate ? formatDate(String(offer.offerDate)) : '—'}</td>
+                      <td className="p-3">
+                        <select
+                          value={offer.status}
+                          onChange={(e) => handleStatusChange(offer, e.target.value as OfferStatus)}
+                          className={`px-2 py-1 rounded-md text-xs font-medium border-0 ${getOfferStatusColor(offer.status)}`}
+                        >
+                          <option value="Pending">Pending</option>
+                          <option value="Accepted">Accepted</option>
+                          <option value="Declined">Declined</option>
+                        </select>
+                      </td>
+                      <td className="p-3">
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => setEditingOffer(offer)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(offer)}>
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {(showOfferForm || editingOffer) && (
+        <OfferFormModal
+          offer={editingOffer}
+          jobs={jobs}
+          onClose={closeOfferForm}
+          onSaved={() => {
+            closeOfferForm();
+            fetchReport();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default PlacementReportPage;
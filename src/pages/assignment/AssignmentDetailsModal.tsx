@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Calendar, Clock, Download, ExternalLink, Users, FileText, Upload, CheckCircle, AlertCircle, Star } from 'lucide-react';
-import { AssignmentData, assignmentApiService, PeerRating } from '../../services/assignmentApi';
+import { X, Calendar, Clock, Download, ExternalLink, Users, FileText, Upload, CheckCircle, AlertCircle, Star, Award, ListChecks } from 'lucide-react';
+import { AssignmentData, assignmentApiService, PeerRating, RubricGrade } from '../../services/assignmentApi';
 import { Button } from '../../components/ui/button';
 import { Badge } from '../../components/ui/badge';
 import { StarRating } from '../../components/assignment/StarRating';
@@ -1978,6 +1978,66 @@ export const AssignmentDetailsModal: React.FC<AssignmentDetailsModalProps> = ({
           })()
           }
 
+          {/* Grade & Feedback (once faculty has graded the submission) */}
+          {isCompleted && !loadingSubmission && previousSubmission?.rubricGrade && (() => {
+            const grade: RubricGrade = previousSubmission.rubricGrade;
+            const criteria = assignment.rubric?.criteria || [];
+
+            return (
+              <div className="bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-200 dark:border-emerald-700 rounded-lg p-5">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-emerald-800 dark:text-emerald-300 flex items-center gap-2 text-lg">
+                    <Award className="w-6 h-6" />
+                    Your Grade
+                  </h3>
+                  <span className="text-2xl font-bold text-emerald-700 dark:text-emerald-300">
+                    {grade.totalScore}
+                    <span className="text-base font-medium text-emerald-600 dark:text-emerald-400"> / {grade.maxScore}</span>
+                  </span>
+                </div>
+
+                {criteria.length > 0 && (
+                  <div className="space-y-2 mb-3">
+                    {criteria.map(criterion => {
+                      const score = grade.criterionScores?.[criterion.id];
+                      const level = criterion.levels.find(l => l.score === score);
+                      const feedback = grade.criterionFeedback?.[criterion.id];
+
+                      return (
+                        <div
+                          key={criterion.id}
+                          className="bg-white dark:bg-gray-800 p-3 rounded border border-emerald-200 dark:border-emerald-700"
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-800 dark:text-gray-200">{criterion.name}</span>
+                            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                              {score !== undefined ? score : '–'} / {criterion.maxScore}
+                              {level?.label && (
+                                <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-300">
+                                  {level.label}
+                                </span>
+                              )}
+                            </span>
+                          </div>
+                          {feedback && (
+                            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 whitespace-pre-wrap">{feedback}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {grade.feedback && (
+                  <div className="bg-white dark:bg-gray-800 p-3 rounded border border-emerald-200 dark:border-emerald-700">
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Overall Feedback</p>
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{grade.feedback}</p>
+                  </div>
+                )}
+              </div>
+            );
+          })()}
+
           {/* Assignment Details */}
           {!isUpcoming && (
             <>
@@ -2012,6 +2072,43 @@ export const AssignmentDetailsModal: React.FC<AssignmentDetailsModalProps> = ({
                 </div>
               )}
 
+              {/* Grading Rubric */}
+              {assignment.rubric && assignment.rubric.criteria.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+                    <ListChecks className="w-5 h-5" />
+                    Grading Rubric
+                  </h3>
+                  <div className="space-y-2">
+                    {assignment.rubric.criteria.map(criterion => (
+                      <div
+                        key={criterion.id}
+                        className="p-3 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-lg"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-gray-900 dark:text-white">{criterion.name}</span>
+                          <span className="text-sm text-gray-600 dark:text-gray-400">{criterion.maxScore} marks</span>
+                        </div>
+                        {criterion.description && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{criterion.description}</p>
+                        )}
+                        {criterion.levels.length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {criterion.levels.map((level, idx) => (
+                              <li key={idx} className="text-xs text-gray-600 dark:text-gray-400">
+                                <span className="font-semibold">{level.score}</span>
+                                {level.label && <span className="font-medium"> – {level.label}</span>}
+                                {level.description && <span>: {level.description}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Instructor Files */}
               {assignment.instructorFiles && assignment.instructorFiles.length > 0 && (
                 <div>
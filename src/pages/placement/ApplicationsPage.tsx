@@ -12,33 +12,24 @@ import {
   CheckCircle2,
   XCircle,
   Eye,
-  Download
+  Download,
+  Video,
+  ArrowRight,
+  Award
 } from 'lucide-react';
-import { apiService } from '../../services/api';
+import { apiService, PlacementOffer, StudentApplication } from '../../services/api';
 import { formatDateTimeBackend } from '../../utils/dateUtils';
 import { auth } from '../../firebase/config';
 import toast from 'react-hot-toast';
 
-interface Application {
-  applicationId: string;
-  jobId: string;
-  company: string;
-  role: string;
-  location: string;
-  timestamp: string;
-  status: string;
-  resumeUrl?: string;
-  coverLetter?: string;
-  additionalFileUrl?: string;
-}
-
-type FilterType = 'all' | 'pending' | 'reviewed' | 'accepted' | 'rejected';
+type FilterType = 'all' | 'active' | 'offer' | 'rejected';
 
 const ApplicationsPage: React.FC = () => {
-  const [applications, setApplications] = useState<Application[]>([]);
+  const [applications, setApplications] = useState<StudentApplication[]>([]);
+  const [offersByJob, setOffersByJob] = useState<Record<string, PlacementOffer>>({});
   const [loading, setLoading] = useState(true);
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
-  const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
+  const [selectedApplication, setSelectedApplication] = useState<StudentApplication | null>(null);
   const user = auth.currentUser;
 
   useEffect(() => {
@@ -54,13 +45,22 @@ const ApplicationsPage: React.FC = () => {
 
     try {
       setLoading(true);
-      const result = await apiService.getStudentApplications(user.email);
+      const [result, offersResult] = await Promise.all([
+        apiService.getStudentApplications(user.email),
+        apiService.getOffers({ studentEmail: user.email })
+      ]);
 
       if (result.success && result.data) {
         setApplications(result.data);
       } else {
         toast.error('Failed to load applications');
       }
+
+      if (offersResult.success && offersResult.data) {
+        setOffersByJob(Object.fromEntries(
+          offersResult.data.filter(o => o.jobId).map(o => [o.jobId, o])
+        ));
+      }
     } catch (error) {
       console.error('Error fetching applications:', error);
       toast.error('Error loading applications');
@@ -71,28 +71,78 @@ const ApplicationsPage: React.FC = () => {
 
   const filteredApplications = applications.filter((app) => {
     if (activeFilter === 'all') return true;
-    return app.status.toLowerCase() === activeFilter;
+    return app.stageKind === activeFilter;
   });
 
-  const getStatusBadge = (status: string) => {
-    const statusLower = status.toLowerCase();
-    if (statusLower === 'accepted' || statusLower === 'selected') {
-      return <Badge className="bg-green-500 hover:bg-green-600"><CheckCircle2 size={14} className="mr-1" /> Accepted</Badge>;
-    } else if (statusLower === 'rejected') {
-      return <Badge variant="destructive"><XCircle size={14} className="mr-1" /> Rejected</Badge>;
-    } else if (statusLower === 'reviewed') {
-      return <Badge className="bg-blue-500 hover:bg-blue-600"><Eye size={14} className="mr-1" /> Reviewed</Badge>;
+  const getStatusBadge = (application: StudentApplication) => {
+    if (application.stageKind === 'offer') {
+      return <Badge className="bg-green-500 hover:bg-green-600"><CheckCircle2 size={14} className="mr-1" /> {application.status}</Badge>;
+    } else if (application.stageKind === 'rejected') {
+      return <Badge variant="destructive"><XCircle size={14} className="mr-1" /> {application.status}</Badge>;
+    } else if (application.status === application.stages[0]?.name) {
+      return <Badge variant="secondary"><Clock size={14} className="mr-1" /> {application.status}</Badge>;
     } else {
-      return <Badge variant="secondary"><Clock size={14} className="mr-1" /> Pending</Badge>;
+      return <Badge className="bg-blue-500 hover:bg-blue-600"><Eye size={14} className="mr-1" /> {application.status}</Badge>;
     }
   };
 
+  const getUpcomingInterview = (application: StudentApplication) =>
+    application.interviewSlots
+      .filter(slot => new Date(slot.endTime) > new Date())
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))[0];
+
+  // Progress runs through the in-progress stages; offer/rejected are the outcome at the end
+  const renderStageTracker = (application: StudentApplication) => {
+    const steps = application.stages.filter(s => s.kind === 'active');
+    const currentIndex = steps.findIndex(s => s.name === application.status);
+    const finished = application.stageKind !== 'active';
+
+    return (
+      <div className="flex items-center gap-1 mt-4">
+        {steps.map((step, index) => {
+          const reached = finished || index <= currentIndex;
+          return (
+            <div key={step.name} className="flex-1 min-w-0">
+              <div className={`h-1.5 rounded-full ${reached ? 'bg-blue-600' : 'bg-muted'}`} />
+              <p className={`text-xs mt-1 truncate ${index === currentIndex ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>
+                {step.name}
+              </p>
+            </div>
+          );
+        })}
+        {finished && (
+          <div className="flex-1 min-w-0">
+            <div className={`h-1.5 rounded-full ${application.stageKind === 'offer' ? 'bg-green-500' : 'bg-red-500'}`} />
+            <p className="text-xs mt-1 truncate text-foreground font-medium">{application.status}</p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderOffer = (offer: PlacementOffer) => {
+    const compensation = [offer.ctcDisplay || (offer.ctcValue ? `${offer.ctcValue} LPA` : ''), offer.esopDisplay, offer.bonusDisplay]
+      .filter(Boolean)
+      .join(' + ');
+    return (
+      <div className="mt-3 p-3 rounded-lg border border-green-200 bg-green-50 dark:border-green-900/40 dark:bg-green-900/10 flex items-center gap-3">
+        <Award size={18} className="text-green-600 flex-shrink-0" />
+        <div className="flex-1 text-sm">
+          <p className="font-medium text-foreground">
+            {offer.offerType === 'FT' ? 'Full-Time' : offer.offerType} offer{compensation && ` · ${compensation}`}
+          </p>
+          {offer.notes && <p className="text-muted-foreground">{offer.notes}</p>}
+        </div>
+        <Badge variant={offer.status === 'Declined' ? 'destructive' : 'secondary'}>{offer.status}</Badge>
+      </div>
+    );
+  };
+
   const filters = [
     { id: 'all', label: 'All', count: applications.length },
-    { id: 'pending', label: 'Pending', count: applications.filter(a => a.status.toLowerCase() === 'pending').length },
-    { id: 'reviewed', label: 'Reviewed', count: applications.filter(a => a.status.toLowerCase() === 'reviewed').length },
-    { id: 'accepted', label: 'Accepted', count: applications.filter(a => ['accepted', 'selected'].includes(a.status.toLowerCase())).length },
-    { id: 'rejected', label: 'Rejected', count: applications.filter(a => a.status.toLowerCase() === 'rejected').length },
+    { id: 'active', label: 'In Progress', count: applications.filter(a => a.stageKind === 'active').length },
+    { id: 'offer', label: 'Offers', count: applications.filter(a => a.stageKind === 'offer').length },
+    { id: 'rejected', label: 'Rejected', count: applications.filter(a => a.stageKind === 'rejected').length },
   ];
 
   if (loading) {
@@ -157,58 +207,75 @@ const ApplicationsPage: React.FC = () => {
               <p className="text-sm text-muted-foreground">
                 {activeFilter === 'all'
                   ? "You haven't applied to any jobs yet. Browse job openings to get started!"
-                  : `No ${activeFilter} applications found.`}
+                  : `No ${filters.find(f => f.id === activeFilter)?.label.toLowerCase()} applications found.`}
               </p>
             </div>
           </CardContent>
         </Card>
       ) : (
         <div className="space-y-4">
-          {filteredApplications.map((application) => (
-            <Card key={application.applicationId} className="hover:shadow-md transition-shadow">
-              <CardContent className="p-5">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start gap-4 flex-1">
-                    <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center text-white font-bold text-lg flex-shrink-0">
-                      {application.company.charAt(0).toUpperCase()}
-                    </div>
-                    <div className="flex-1">
-                      <h3 className="font-semibold text-foreground text-base mb-1">
-                        {application.role}
-                      </h3>
-                      <div className="space-y-1.5">
-                        <p className="text-sm text-muted-foreground flex items-center gap-1.5">
-                          <Building2 size={14} />
-                          {application.company}
-                        </p>
-                        {application.location && (
+          {filteredApplications.map((application) => {
+            const upcoming = getUpcomingInterview(application);
+            return (
+              <Card key={application.applicationId} className="hover:shadow-md transition-shadow">
+                <CardContent className="p-5">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start gap-4 flex-1">
+                      <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center text-white font-bold text-lg flex-shrink-0">
+                        {application.company.charAt(0).toUpperCase()}
+                      </div>
+                      <div className="flex-1">
+                        <h3 className="font-semibold text-foreground text-base mb-1">
+                          {application.role}
+                        </h3>
+                        <div className="space-y-1.5">
                           <p className="text-sm text-muted-foreground flex items-center gap-1.5">
-                            <MapPin size={14} />
-                            {application.location}
+                            <Building2 size={14} />
+                            {application.company}
                           </p>
-                        )}
-                        <p className="text-sm text-muted-foreground flex items-center gap-1.5">
-                          <Calendar size={14} />
-                          Applied on {formatDateTimeBackend(application.timestamp)}
-                        </p>
+                          {application.location && (
+                            <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                              <MapPin size={14} />
+                              {application.location}
+                            </p>
+                          )}
+                          <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                            <Calendar size={14} />
+                            Applied on {formatDateTimeBackend(application.timestamp)}
+                          </p>
+                          {upcoming && (
+                            <p className="text-sm text-blue-600 dark:text-blue-400 flex items-center gap-1.5 font-medium">
+                              <Video size={14} />
+                              {upcoming.stage || 'Interview'} on {formatDateTimeBackend(upcoming.startTime)}
+                              {upcoming.location && ` · ${upcoming.location}`}
+                            </p>
+                          )}
+                        </div>
                       </div>
                     </div>
+                    <div className="flex flex-col items-end gap-3">
+                      {getStatusBadge(application)}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setSelectedApplication(application)}
+                      >
+                        <Eye size={14} className="mr-1" />
+                        View Details
+                      </Button>
+                    </div>
                   </div>
-                  <div className="flex flex-col items-end gap-3">
-                    {getStatusBadge(application.status)}
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => setSelectedApplication(application)}
-                    >
-                      <Eye size={14} className="mr-1" />
-                      View Details
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                  {application.stages.length > 0 && renderStageTracker(application)}
+                  {offersByJob[application.jobId] && renderOffer(offersByJob[application.jobId])}
+                  {application.stageNote && (
+                    <p className="text-sm text-muted-foreground mt-3 p-3 bg-muted rounded-lg">
+                      {application.stageNote}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
 
@@ -238,7 +305,7 @@ const ApplicationsPage: React.FC = () => {
                 </button>
               </div>
               <div className="mt-3">
-                {getStatusBadge(selectedApplication.status)}
+                {getStatusBadge(selectedApplication)}
               </div>
             </CardHeader>
 
@@ -256,17 +323,49 @@ const ApplicationsPage: React.FC = () => {
                   </p>
                 </div>
 
-                {selectedApplication.coverLetter && (
+                {selectedApplication.interviewSlots.length > 0 && (
                   <div>
-                    <h4 className="text-sm font-semibold text-foreground mb-2">Cover Letter</h4>
-                    <div className="p-4 bg-muted rounded-lg">
-                      <p className="text-sm text-foreground whitespace-pre-wrap">
-                        {selectedApplication.coverLetter}
-                      </p>
+                    <h4 className="text-sm font-semibold text-foreground mb-2">Interviews</h4>
+                    <div className="space-y-2">
+                      {selectedApplication.interviewSlots.map((slot) => (
+                        <div key={slot.slotId} className="p-3 border rounded-lg">
+                          <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                            <Video size={14} className="text-blue-600" />
+                            {slot.stage || 'Interview'} · {formatDateTimeBackend(slot.startTime)}
+                          </p>
+                          {slot.location && (
+                            <p className="text-sm text-muted-foreground mt-1 break-all">{slot.location}</p>
+                          )}
+                          {slot.notes && (
+                            <p className="text-sm text-muted-foreground mt-1">{slot.notes}</p>
+                          )}
+                        </div>
+                      ))}
                     </div>
                   </div>
                 )}
 
+                <div>
+                  <h4 className="text-sm font-semibold text-foreground mb-2">Progress</h4>
+                  {selectedApplication.history.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Your application is in {selectedApplication.status}.</p>
+                  ) : (
+                    <ol className="space-y-3 border-l-2 border-muted pl-4">
+                      {selectedApplication.history.map((entry) => (
+                        <li key={entry.id}>
+                          <p className="text-sm font-medium text-foreground flex items-center gap-1">
+                            {entry.fromStage} <ArrowRight size={12} /> {entry.toStage}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{formatDateTimeBackend(entry.changedAt)}</p>
+                          {entry.note && (
+                            <p className="text-sm text-foreground mt-1">{entry.note}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+
                 <div>
                   <h4 className="text-sm font-semibold text-foreground mb-2">Attachments</h4>
                   <div className="space-y-2">
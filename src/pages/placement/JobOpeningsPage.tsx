@@ -23,6 +23,7 @@ import {
 import { apiService } from '../../services/api';
 import { formatDateTimeBackend } from '../../utils/dateUtils';
 import { auth } from '../../firebase/config';
+import { EligibilityGroup, PlacementFacts, isEligibleForJob } from '../../utils/eligibility';
 import toast from 'react-hot-toast';
 
 interface Job {
@@ -36,6 +37,9 @@ interface Job {
   applicationEndTime: string;
   status: string;
   jdHTML?: string;
+  batch?: string;
+  showToBatchLevels?: string;
+  eligibilityRules?: EligibilityGroup | null;
 }
 
 type TabType = 'active' | 'upcoming' | 'expired' | 'applied';
@@ -72,6 +76,7 @@ const JobOpeningsPage: React.FC = () => {
     answers: {} as Record<string, string>
   });
   const [submitting, setSubmitting] = useState(false);
+  const [placementFacts, setPlacementFacts] = useState<PlacementFacts | null>(null);
   const user = auth.currentUser;
 
   useEffect(() => {
@@ -90,6 +95,16 @@ const JobOpeningsPage: React.FC = () => {
         setTabLoading(true);
       }
 
+      // Facts are only needed once; if they can't be loaded the backend still enforces eligibility on apply
+      let facts = placementFacts;
+      if (!facts && user?.email) {
+        const factsResult = await apiService.getPlacementFacts(user.email);
+        if (factsResult.success && factsResult.data) {
+          facts = factsResult.data;
+          setPlacementFacts(facts);
+        }
+      }
+
       const result = await apiService.getAllJobPostings();
 
       if (result.success && result.data) {
@@ -97,6 +112,8 @@ const JobOpeningsPage: React.FC = () => {
         const filtered = result.data.filter((job: Job) => {
           const endDate = new Date(job.applicationEndTime);
 
+          if (facts && !isEligibleForJob(job, facts)) return false;
+
           switch (activeTab) {
             case 'active':
               return job.status === 'Active' && endDate > now;
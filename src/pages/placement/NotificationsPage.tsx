@@ -1,4 +1,6 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { Card, CardContent } from '../../components/ui/card';
 import { Badge } from '../../components/ui/badge';
 import { Button } from '../../components/ui/button';
@@ -8,77 +10,55 @@ import {
   CheckCircle2,
   AlertCircle,
   Info,
-  Calendar,
-  Trash2
+  Trash2,
+  Loader2
 } from 'lucide-react';
-
-interface Notification {
-  id: string;
-  type: 'new_job' | 'application_update' | 'deadline' | 'info';
-  title: string;
-  message: string;
-  timestamp: string;
-  read: boolean;
-  actionUrl?: string;
-  actionLabel?: string;
-}
+import { apiService, PlacementNotification } from '../../services/api';
+import { auth } from '../../firebase/config';
 
 type FilterType = 'all' | 'unread' | 'read';
 
-const NotificationsPage: React.FC = () => {
+interface NotificationsPageProps {
+  onUnreadCountChange?: (count: number) => void;
+}
+
+const NotificationsPage: React.FC<NotificationsPageProps> = ({ onUnreadCountChange }) => {
+  const navigate = useNavigate();
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
-  const [notifications, setNotifications] = useState<Notification[]>([
-    {
-      id: '1',
-      type: 'new_job',
-      title: 'New Job Opening: Product Manager at Google',
-      message: 'A new job opportunity matching your profile has been posted. Application deadline: Dec 15, 2025.',
-      timestamp: '2025-12-04T10:30:00',
-      read: false,
-      actionUrl: '/placement/jobs',
-      actionLabel: 'View Job'
-    },
-    {
-      id: '2',
-      type: 'application_update',
-      title: 'Application Status Updated',
-      message: 'Your application for Software Engineer at Microsoft has been reviewed and moved to the next round.',
-      timestamp: '2025-12-03T15:45:00',
-      read: false,
-      actionUrl: '/placement/applications',
-      actionLabel: 'View Application'
-    },
-    {
-      id: '3',
-      type: 'deadline',
-      title: 'Application Deadline Reminder',
-      message: 'The application deadline for Data Analyst at Amazon is approaching (2 days left).',
-      timestamp: '2025-12-02T09:00:00',
-      read: true,
-      actionUrl: '/placement/jobs',
-      actionLabel: 'Apply Now'
-    },
-    {
-      id: '4',
-      type: 'info',
-      title: 'Placement Workshop: Resume Building',
-      message: 'Join us for an interactive workshop on crafting ATS-friendly resumes. Date: Dec 10, 2025 at 3:00 PM.',
-      timestamp: '2025-12-01T14:20:00',
-      read: true,
-      actionUrl: '/placement/resources',
-      actionLabel: 'Learn More'
-    },
-    {
-      id: '5',
-      type: 'new_job',
-      title: 'New Job Opening: UX Designer at Adobe',
-      message: 'Adobe is looking for a UX Designer. This role matches your preferred domains.',
-      timestamp: '2025-11-30T11:15:00',
-      read: true,
-      actionUrl: '/placement/jobs',
-      actionLabel: 'View Job'
+  const [notifications, setNotifications] = useState<PlacementNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [updating, setUpdating] = useState(false);
+  const user = auth.currentUser;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user?.email) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const result = await apiService.getPlacementNotifications(user.email);
+      if (result.success && result.data) {
+        setNotifications(result.data.notifications);
+      } else {
+        toast.error(result.error || 'Failed to load notifications');
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      toast.error('Error loading notifications');
+    } finally {
+      setLoading(false);
     }
-  ]);
+  }, [user?.email]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    onUnreadCountChange?.(notifications.filter(n => !n.read).length);
+  }, [notifications, onUnreadCountChange]);
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
@@ -112,18 +92,65 @@ const NotificationsPage: React.FC = () => {
     }
   };
 
-  const markAsRead = (id: string) => {
+  const markAsRead = async (ids: string[], markAll: boolean = false) => {
+    if (!user?.email || (!markAll && ids.length === 0)) return;
+
+    // Optimistic update; reverted by a refetch if the backend rejects it
+    const previous = notifications;
     setNotifications(notifications.map(n =>
-      n.id === id ? { ...n, read: true } : n
+      markAll || ids.includes(n.id) ? { ...n, read: true } : n
     ));
+
+    const result = await apiService.markNotificationsRead(user.email, ids, markAll);
+    if (!result.success) {
+      setNotifications(previous);
+      toast.error(result.error || 'Failed to mark notifications as read');
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications(notifications.map(n => ({ ...n, read: true })));
+  const markAllAsRead = () => markAsRead([], true);
+
+  const deleteNotifications = async (ids: string[]) => {
+    if (!user?.email || ids.length === 0) return;
+
+    setUpdating(true);
+    try {
+      const result = await apiService.deleteNotifications(user.email, ids);
+      if (result.success) {
+        setNotifications(notifications.filter(n => !ids.includes(n.id)));
+        setSelectedIds(new Set());
+        if (ids.length > 1) toast.success(`${ids.length} notifications deleted`);
+      } else {
+        toast.error(result.error || 'Failed to delete notifications');
+      }
+    } finally {
+      setUpdating(false);
+    }
   };
 
-  const deleteNotification = (id: string) => {
-    setNotifications(notifications.filter(n => n.id !== id));
+  const markSelectedAsRead = async () => {
+    setUpdating(true);
+    try {
+      await markAsRead(Array.from(selectedIds));
+      setSelectedIds(new Set());
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const openNotification = (notification: PlacementNotification) => {
+    if (!notification.read) markAsRead([notification.id]);
+    if (notification.actionUrl) navigate(notification.actionUrl);
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
   };
 
   const filteredNotifications = notifications.filter(n => {
@@ -133,6 +160,11 @@ const NotificationsPage: React.FC = () => {
   });
 
   const unreadCount = notifications.filter(n => !n.read).length;
+  const allVisibleSelected = filteredNotifications.length > 0 && filteredNotifications.every(n => selectedIds.has(n.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredNotifications.map(n => n.id)));
+  };
 
   const filters = [
     { id: 'all', label: 'All', count: notifications.length },
@@ -163,7 +195,10 @@ const NotificationsPage: React.FC = () => {
           {filters.map((filter) => (
             <button
               key={filter.id}
-              onClick={() => setActiveFilter(filter.id as FilterType)}
+              onClick={() => {
+                setActiveFilter(filter.id as FilterType);
+                setSelectedIds(new Set());
+              }}
               className={`relative pb-3 text-sm font-medium transition-colors ${
                 activeFilter === filter.id
                   ? 'text-foreground'
@@ -184,8 +219,45 @@ const NotificationsPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Bulk Actions */}
+      {!loading && filteredNotifications.length > 0 && (
+        <div className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allVisibleSelected}
+              onChange={toggleSelectAll}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+          </label>
+          {selectedIds.size > 0 && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={markSelectedAsRead} disabled={updating}>
+                Mark as read
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deleteNotifications(Array.from(selectedIds))}
+                disabled={updating}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 size={14} className="mr-1" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Notifications List */}
-      {filteredNotifications.length === 0 ? (
+      {loading ? (
+        <div className="py-16 flex flex-col items-center justify-center gap-3">
+          <Loader2 size={32} className="animate-spin text-blue-600" />
+          <p className="text-sm text-muted-foreground">Loading notifications...</p>
+        </div>
+      ) : filteredNotifications.length === 0 ? (
         <Card>
           <CardContent className="py-16 text-center">
             <div className="max-w-md mx-auto">
@@ -214,6 +286,13 @@ const NotificationsPage: React.FC = () => {
             >
               <CardContent className="p-4">
                 <div className="flex items-start gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(notification.id)}
+                    onChange={() => toggleSelected(notification.id)}
+                    className="mt-3 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    aria-label="Select notification"
+                  />
                   <div className={`p-2 rounded-lg ${!notification.read ? 'bg-white dark:bg-gray-800' : 'bg-muted'}`}>
                     {getNotificationIcon(notification.type)}
                   </div>
@@ -227,7 +306,8 @@ const NotificationsPage: React.FC = () => {
                           {formatTimestamp(notification.timestamp)}
                         </span>
                         <button
-                          onClick={() => deleteNotification(notification.id)}
+                          onClick={() => deleteNotifications([notification.id])}
+                          disabled={updating}
                           className="p-1 hover:bg-accent rounded transition-colors"
                           title="Delete notification"
                         >
@@ -244,14 +324,14 @@ const NotificationsPage: React.FC = () => {
                           size="sm"
                           variant="outline"
                           className="h-8 text-xs"
-                          onClick={() => markAsRead(notification.id)}
+                          onClick={() => openNotification(notification)}
                         >
                           {notification.actionLabel}
                         </Button>
                       )}
                       {!notification.read && (
                         <button
-                          onClick={() => markAsRead(notification.id)}
+                          onClick={() => markAsRead([notification.id])}
                           className="text-xs text-blue-600 hover:text-blue-700 font-medium"
                         >
                           Mark as read
@@ -4,6 +4,7 @@ import {
   User,
   Briefcase,
   FileText,
+  FilePen,
   BookOpen,
   Bell,
   ChevronLeft,
@@ -14,9 +15,11 @@ import {
   X
 } from 'lucide-react';
 import { auth } from '../../firebase/config';
+import { apiService } from '../../services/api';
 import ProfilePage from './ProfilePage';
 import JobOpeningsPage from './JobOpeningsPage';
 import ApplicationsPage from './ApplicationsPage';
+import ResumeBuilderPage from './ResumeBuilderPage';
 import ResourcesPage from './ResourcesPage';
 import NotificationsPage from './NotificationsPage';
 
@@ -32,11 +35,22 @@ export const PlacementDashboard: React.FC = () => {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
-  const [notificationCount, setNotificationCount] = useState(3);
+  const [notificationCount, setNotificationCount] = useState(0);
   const navigate = useNavigate();
   const location = useLocation();
   const user = auth.currentUser;
 
+  // Load the unread badge; NotificationsPage keeps it in sync while open
+  useEffect(() => {
+    if (!user?.email) return;
+
+    apiService.getPlacementNotifications(user.email).then(result => {
+      if (result.success && result.data) {
+        setNotificationCount(result.data.unreadCount);
+      }
+    });
+  }, [user?.email]);
+
   // Initialize dark mode from localStorage or system preference
   useEffect(() => {
     const savedMode = localStorage.getItem('placementDarkMode');
@@ -83,6 +97,7 @@ export const PlacementDashboard: React.FC = () => {
     { id: 'profile', label: 'Profile', icon: <User size={20} />, path: '/placement' },
     { id: 'jobs', label: 'Job Openings', icon: <Briefcase size={20} />, path: '/placement/jobs' },
     { id: 'applications', label: 'Your Applications', icon: <FileText size={20} />, path: '/placement/applications' },
+    { id: 'resume-builder', label: 'Resume Builder', icon: <FilePen size={20} />, path: '/placement/resume-builder' },
     { id: 'resources', label: 'Job Resources', icon: <BookOpen size={20} />, path: '/placement/resources' },
     { id: 'notifications', label: 'Notifications', icon: <Bell size={20} />, path: '/placement/notifications', badge: notificationCount },
   ];
@@ -229,8 +244,9 @@ export const PlacementDashboard: React.FC = () => {
             <Route path="/" element={<ProfilePage />} />
             <Route path="/jobs" element={<JobOpeningsPage />} />
             <Route path="/applications" element={<ApplicationsPage />} />
+            <Route path="/resume-builder" element={<ResumeBuilderPage />} />
             <Route path="/resources" element={<ResourcesPage />} />
-            <Route path="/notifications" element={<NotificationsPage />} />
+            <Route path="/notifications" element={<NotificationsPage onUnreadCountChange={setNotificationCount} />} />
           </Routes>
         </div>
       </main>
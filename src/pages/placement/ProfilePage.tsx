@@ -600,7 +600,7 @@ const ProfilePage: React.FC = () => {
                     Resume Upload
                   </h3>
                   <p className="text-sm text-muted-foreground mb-4">
-                    For uploading resumes (General or Domain-specific), please head to the Placement Profile page where you can manage all your resume uploads.
+                    For uploading resumes (General or Domain-specific), please head to the Placement Profile page where you can manage all your resume uploads, or generate one from your profile with the Resume Builder.
                   </p>
                   <Button
                     onClick={() => navigate('/placementprofile')}
@@ -609,6 +609,13 @@ const ProfilePage: React.FC = () => {
                     Go to Placement Profile
                     <ArrowRight size={16} className="ml-2" />
                   </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate('/placement/resume-builder')}
+                    className="ml-2"
+                  >
+                    Build with Resume Builder
+                  </Button>
                 </div>
               </div>
             </CardContent>
@@ -0,0 +1,479 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { Button } from '../../components/ui/button';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import {
+  FileText,
+  Download,
+  Upload,
+  ChevronUp,
+  ChevronDown,
+  Eye,
+  EyeOff,
+  ExternalLink,
+  Loader2,
+  RotateCcw
+} from 'lucide-react';
+import { auth } from '../../firebase/config';
+import { apiService, type FullStudentProfile } from '../../services/api';
+import { downloadBlob } from '../../utils/helpers';
+import {
+  RESUME_SECTION_LABELS,
+  RESUME_TEMPLATES,
+  ResumeEntry,
+  ResumeSectionId,
+  ResumeSlot,
+  ResumeTemplateId,
+  ResumeVersion,
+  applyResumeVersion,
+  buildResumeData,
+  createResumeVersion,
+  loadResumeVersions,
+  renderResumePdf,
+  saveResumeVersions
+} from '../../utils/resume';
+import toast from 'react-hot-toast';
+
+const SLOTS: ResumeSlot[] = ['general', 'domain1', 'domain2', 'domain3'];
+
+const slotDomainName = (profile: FullStudentProfile, slot: ResumeSlot) =>
+  slot === 'general' ? 'General' : (profile[slot] || '');
+
+const slotUrlField = (slot: ResumeSlot): keyof FullStudentProfile =>
+  slot === 'general' ? 'resumeGeneralURL' : `${slot}ResumeURL` as keyof FullStudentProfile;
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read file'));
+  });
+
+const ResumeBuilderPage: React.FC = () => {
+  const [profile, setProfile] = useState<FullStudentProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [slot, setSlot] = useState<ResumeSlot>('general');
+  const [versions, setVersions] = useState<Partial<Record<ResumeSlot, ResumeVersion>>>({});
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const user = auth.currentUser;
+
+  const fetchProfile = useCallback(async () => {
+    const email = user?.email;
+    if (!email) {
+      toast.error('Please login to build your resume');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const result = await apiService.getFullStudentProfile(email);
+
+      if (result.success && result.data) {
+        setProfile(result.data);
+        setVersions(loadResumeVersions(email));
+      } else {
+        toast.error('Failed to load profile');
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+      toast.error('Error loading profile');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.email]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const resumeData = useMemo(() => (profile ? buildResumeData(profile) : null), [profile]);
+
+  const version = useMemo(
+    () => versions[slot] || createResumeVersion(slot, profile ? slotDomainName(profile, slot) : ''),
+    [versions, slot, profile]
+  );
+
+  const tailored = useMemo(
+    () => (resumeData ? applyResumeVersion(resumeData, version) : null),
+    [resumeData, version]
+  );
+
+  // Re-render the preview shortly after the last edit
+  useEffect(() => {
+    if (!tailored) return;
+    let url: string | null = null;
+    const timer = setTimeout(() => {
+      url = URL.createObjectURL(renderResumePdf(tailored, version));
+      setPreviewUrl(url);
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [tailored, version]);
+
+  const updateVersion = (updates: Partial<ResumeVersion>) => {
+    if (!user?.email) return;
+    const next = { ...versions, [slot]: { ...version, ...updates, updatedAt: new Date().toISOString() } };
+    setVersions(next);
+    saveResumeVersions(user.email, next);
+  };
+
+  const resetVersion = () => {
+    if (!user?.email || !window.confirm('Reset this version to the profile defaults?')) return;
+    const next = { ...versions };
+    delete next[slot];
+    setVersions(next);
+    saveResumeVersions(user.email, next);
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= version.sectionOrder.length) return;
+    const order = [...version.sectionOrder];
+    [order[index], order[target]] = [order[target], order[index]];
+    updateVersion({ sectionOrder: order });
+  };
+
+  const toggleSection = (section: ResumeSectionId) => {
+    const hidden = version.hiddenSections.includes(section)
+      ? version.hiddenSections.filter(s => s !== section)
+      : [...version.hiddenSections, section];
+    updateVersion({ hiddenSections: hidden });
+  };
+
+  const toggleEntry = (entryId: string) => {
+    const excluded = version.excludedEntryIds.includes(entryId)
+      ? version.excludedEntryIds.filter(id => id !== entryId)
+      : [...version.excludedEntryIds, entryId];
+    updateVersion({ excludedEntryIds: excluded });
+  };
+
+  const toggleSkill = (skill: string) => {
+    const highlighted = version.highlightedSkills.includes(skill)
+      ? version.highlightedSkills.filter(s => s !== skill)
+      : [...version.highlightedSkills, skill];
+    updateVersion({ highlightedSkills: highlighted });
+  };
+
+  const fileName = () => `${(profile?.fullName || 'Resume').trim()} - ${version.domainName || 'General'}.pdf`;
+
+  const handleDownload = () => {
+    if (!tailored) return;
+    downloadBlob(renderResumePdf(tailored, version), fileName());
+  };
+
+  // Same upload path as the Placement Profile page, then record the URL on the profile
+  const handleSaveToProfile = async () => {
+    if (!user?.email || !profile || !tailored) return;
+    if (slot !== 'general' && !profile[slot]) {
+      toast.error('Select this domain on your Placement Profile first');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      toast.loading('Uploading resume...', { id: 'resume-upload' });
+
+      const pdfData = await blobToDataUrl(renderResumePdf(tailored, version));
+      const domainNumber = slot === 'general' ? 0 : parseInt(slot.replace('domain', ''));
+      const result = await apiService.uploadResumePDF(user.email, pdfData, domainNumber, fileName(), version.domainName);
+      // The backend returns fileUrl at the top level of the response
+      const fileUrl = (result as { fileUrl?: string }).fileUrl || result.data?.fileUrl;
+
+      if (!result.success || !fileUrl) {
+        toast.error(result.error || 'Failed to upload resume', { id: 'resume-upload' });
+        return;
+      }
+
+      const updatedProfile = { ...profile, [slotUrlField(slot)]: fileUrl };
+      const saveResult = await apiService.updateStudentProfile(user.email, updatedProfile);
+      if (saveResult.success) {
+        setProfile(updatedProfile);
+        toast.success('Resume saved to your profile', { id: 'resume-upload' });
+      } else {
+        toast.error(saveResult.error || 'Resume uploaded but the profile was not updated', { id: 'resume-upload' });
+      }
+    } catch (error) {
+      console.error('Error uploading generated resume:', error);
+      toast.error('Error uploading resume', { id: 'resume-upload' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="w-12 h-12 border-3 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
+          <p className="text-sm text-muted-foreground">Loading profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile || !resumeData) {
+    return (
+      <Card>
+        <CardContent className="py-16 text-center text-muted-foreground">
+          Your placement profile could not be loaded.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const allSkills = [...resumeData.techSkills, ...resumeData.softSkills];
+  const currentUrl = profile[slotUrlField(slot)] as string | undefined;
+
+  const renderEntryToggles = (entries: ResumeEntry[], withBullets: boolean) => (
+    <div className="space-y-3">
+      {entries.map(item => {
+        const included = !version.excludedEntryIds.includes(item.id);
+        return (
+          <div key={item.id} className="space-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={included}
+                onChange={() => toggleEntry(item.id)}
+                className="w-4 h-4"
+              />
+              <span className="font-medium">{item.title}</span>
+              {item.subtitle && <span className="text-muted-foreground">· {item.subtitle}</span>}
+            </label>
+            {withBullets && included && (
+              <Textarea
+                value={version.entryBullets[item.id] ?? item.description ?? ''}
+                onChange={(e) => updateVersion({ entryBullets: { ...version.entryBullets, [item.id]: e.target.value } })}
+                placeholder="One achievement per line, tailored to this domain"
+                rows={3}
+                className="text-sm"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Resume Builder</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Generate resumes in the school format from your placement profile, tailored for each domain
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleDownload}>
+            <Download size={16} className="mr-2" />
+            Download PDF
+          </Button>
+          <Button onClick={handleSaveToProfile} disabled={uploading}>
+            {uploading ? <Loader2 size={16} className="mr-2 animate-spin" /> : <Upload size={16} className="mr-2" />}
+            Save to Profile
+          </Button>
+        </div>
+      </div>
+
+      {/* Version tabs */}
+      <div className="border-b">
+        <div className="flex gap-6 overflow-x-auto">
+          {SLOTS.map(s => {
+            const domainName = slotDomainName(profile, s);
+            return (
+              <button
+                key={s}
+                onClick={() => setSlot(s)}
+                disabled={!domainName}
+                className={`relative pb-3 text-sm font-medium whitespace-nowrap transition-colors disabled:opacity-40 ${
+                  slot === s ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'
+                }`}
+                title={domainName ? undefined : 'Select this domain on your Placement Profile'}
+              >
+                {domainName || `Domain ${s.replace('domain', '')}`}
+                {versions[s] && <Badge variant="secondary" className="ml-2 text-xs">Tailored</Badge>}
+                {slot === s && <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600"></span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Editor */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Template</CardTitle>
+                {versions[slot] && (
+                  <Button variant="ghost" size="sm" onClick={resetVersion}>
+                    <RotateCcw size={14} className="mr-1" />
+                    Reset
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-3">
+                {(Object.keys(RESUME_TEMPLATES) as ResumeTemplateId[]).map(id => (
+                  <button
+                    key={id}
+                    onClick={() => updateVersion({ template: id })}
+                    className={`p-3 border rounded-lg text-left transition-colors ${
+                      version.template === id ? 'border-blue-600 bg-blue-50 dark:bg-blue-950/30' : 'hover:bg-accent'
+                    }`}
+                  >
+                    <p className="text-sm font-semibold">{RESUME_TEMPLATES[id].label}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{RESUME_TEMPLATES[id].description}</p>
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Textarea
+                value={version.summary}
+                onChange={(e) => updateVersion({ summary: e.target.value })}
+                placeholder={resumeData.summary || 'A short pitch for this domain'}
+                rows={4}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to use the About Me from your profile.</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Sections</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {version.sectionOrder.map((section, index) => {
+                const hidden = version.hiddenSections.includes(section);
+                return (
+                  <div key={section} className="flex items-center gap-2 p-2 border rounded-lg">
+                    <div className="flex flex-col">
+                      <button onClick={() => moveSection(index, -1)} disabled={index === 0} className="disabled:opacity-30" title="Move up">
+                        <ChevronUp size={14} />
+                      </button>
+                      <button onClick={() => moveSection(index, 1)} disabled={index === version.sectionOrder.length - 1} className="disabled:opacity-30" title="Move down">
+                        <ChevronDown size={14} />
+                      </button>
+                    </div>
+                    <span className={`flex-1 text-sm ${hidden ? 'text-muted-foreground line-through' : ''}`}>
+                      {RESUME_SECTION_LABELS[section]}
+                    </span>
+                    <button onClick={() => toggleSection(section)} className="p-1 hover:bg-accent rounded" title={hidden ? 'Show section' : 'Hide section'}>
+                      {hidden ? <EyeOff size={16} /> : <Eye size={16} />}
+                    </button>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {resumeData.experience.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Experience</CardTitle>
+              </CardHeader>
+              <CardContent>{renderEntryToggles(resumeData.experience, true)}</CardContent>
+            </Card>
+          )}
+
+          {resumeData.projects.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Projects</CardTitle>
+              </CardHeader>
+              <CardContent>{renderEntryToggles(resumeData.projects, true)}</CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Education</CardTitle>
+            </CardHeader>
+            <CardContent>{renderEntryToggles(resumeData.education, false)}</CardContent>
+          </Card>
+
+          {allSkills.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Skills to lead with</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {allSkills.map(skill => {
+                    const position = version.highlightedSkills.indexOf(skill);
+                    return (
+                      <button
+                        key={skill}
+                        onClick={() => toggleSkill(skill)}
+                        className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                          position >= 0 ? 'bg-blue-600 text-white border-blue-600' : 'hover:bg-accent'
+                        }`}
+                      >
+                        {position >= 0 && `${position + 1}. `}{skill}
+                      </button>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Content comes from your Placement Profile - update details there. Tailoring choices are saved on this device.
+          </p>
+        </div>
+
+        {/* Preview */}
+        <div className="lg:sticky lg:top-4 self-start space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="flex items-center gap-2">
+              <FileText size={16} />
+              Preview
+            </Label>
+            {currentUrl && (
+              <a
+                href={currentUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-blue-600 hover:underline flex items-center gap-1"
+              >
+                Current uploaded resume <ExternalLink size={12} />
+              </a>
+            )}
+          </div>
+          {previewUrl ? (
+            <iframe
+              src={previewUrl}
+              title="Resume preview"
+              className="w-full h-[80vh] border rounded-lg bg-white"
+            />
+          ) : (
+            <div className="h-[80vh] border rounded-lg flex items-center justify-center text-muted-foreground">
+              <Loader2 className="animate-spin" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeBuilderPage;
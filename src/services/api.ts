@@ -1,6 +1,7 @@
 // Students Corner type imports
 import { StudentsCornerActivity, StudentsCornerDashboardData, LeaderboardEntry } from '../types/studentsCorner';
 import { auth } from '../firebase/config';
+import type { EligibilityJob, PlacementFacts } from '../utils/eligibility';
 
 // Main Backend API - Student Portal (all features except placement)
 const BACKEND_URL = process.env.REACT_APP_BACKEND_API_URL || '';
@@ -342,6 +343,167 @@ export interface ContentItemWithAck extends ContentItem {
   acknowledgmentTimestamp?: string;
 }
 
+export interface JobEligibilityPreview {
+  eligibleCount: number;
+  audienceCount: number;
+}
+
+export type PipelineStageKind = 'active' | 'offer' | 'rejected';
+
+export interface PipelineStage {
+  name: string;
+  kind: PipelineStageKind;
+}
+
+export interface StageHistoryEntry {
+  id: string;
+  jobId: string;
+  studentEmail: string;
+  fromStage: string;
+  toStage: string;
+  note: string;
+  changedBy: string;
+  changedAt: string;
+}
+
+export interface InterviewSlot {
+  slotId: string;
+  jobId: string;
+  studentEmail: string;
+  stage: string;
+  startTime: string;
+  endTime: string;
+  location: string;
+  notes: string;
+}
+
+export interface PipelineApplicant {
+  applicationId: string;
+  jobId: string;
+  studentEmail: string;
+  studentName: string;
+  batch: string;
+  timestamp: string;
+  resumeUrl: string;
+  assignmentFileUrl: string;
+  answers: Record<string, string>;
+  stage: string;
+  stageUpdatedAt: string;
+  stageNote: string;
+  history: StageHistoryEntry[];
+  interviewSlots: InterviewSlot[];
+}
+
+// Student Profile fields offered in the applicant comparison
+export interface ApplicantProfile {
+  rollNo: string;
+  phoneNo: string;
+  currentLocation: string;
+  linkedIn: string;
+  undergraduateCollege: string;
+  undergraduateStream: string;
+  graduationYear: string;
+  techSkills: string;
+  softSkills: string;
+  certifications: string;
+  experienceType: string;
+  totalFTExperienceMonths: string;
+  totalInternshipExperienceMonths: string;
+  domain1: string;
+  domain2: string;
+  domain3: string;
+}
+
+export interface ApplicantResumeFile {
+  fileName: string;
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface JobPipeline {
+  stages: PipelineStage[];
+  applicants: PipelineApplicant[];
+}
+
+export interface StudentApplication {
+  applicationId: string;
+  jobId: string;
+  company: string;
+  role: string;
+  location: string;
+  timestamp: string;
+  status: string;
+  stageKind: PipelineStageKind;
+  stages: PipelineStage[];
+  stageNote: string;
+  resumeUrl?: string;
+  additionalFileUrl?: string;
+  history: StageHistoryEntry[];
+  interviewSlots: InterviewSlot[];
+}
+
+export type OfferType = 'FT' | 'Internship' | 'PPO';
+
+export type OfferStatus = 'Pending' | 'Accepted' | 'Declined';
+
+// Compensation fields mirror the job posting's CTC / ESOP / Bonus fields
+export interface PlacementOffer {
+  offerId: string;
+  studentEmail: string;
+  studentName: string;
+  batch: string;
+  jobId: string;
+  applicationId: string;
+  company: string;
+  role: string;
+  offerType: OfferType;
+  ctcType: string;
+  ctcValue: string | number;
+  ctcValueSecondary: string | number;
+  ctcDisplay: string;
+  esopType: string;
+  esopValue: string | number;
+  esopValueSecondary: string | number;
+  esopDisplay: string;
+  bonusType: string;
+  bonusValue: string | number;
+  bonusValueSecondary: string | number;
+  bonusDisplay: string;
+  status: OfferStatus;
+  offerDate: string;
+  notes: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PlacementOfferInput = Partial<Omit<PlacementOffer, 'offerId' | 'createdBy' | 'createdAt' | 'updatedAt'>> &
+  Pick<PlacementOffer, 'studentEmail' | 'offerType'>;
+
+export interface PlacementReportData {
+  offers: PlacementOffer[];
+  batchStudentCounts: Record<string, number>;
+}
+
+export type PlacementNotificationType = 'new_job' | 'application_update' | 'deadline' | 'info';
+
+export interface PlacementNotification {
+  id: string;
+  type: PlacementNotificationType;
+  title: string;
+  message: string;
+  jobId?: string;
+  timestamp: string;
+  read: boolean;
+  actionUrl?: string;
+  actionLabel?: string;
+}
+
+export interface PlacementNotificationFeed {
+  notifications: PlacementNotification[];
+  unreadCount: number;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -650,12 +812,139 @@ class ApiService {
   }
 
   // Get student applications
-  async getStudentApplications(studentEmail: string): Promise<ApiResponse<any[]>> {
-    return this.makeRequest<any[]>('getStudentApplications', {
+  async getStudentApplications(studentEmail: string): Promise<ApiResponse<StudentApplication[]>> {
+    return this.makeRequest<StudentApplication[]>('getStudentApplications', {
       studentEmail
     }, false, PLACEMENT_BACKEND_URL);
   }
 
+  // Eligibility rule engine
+  async getPlacementFacts(studentEmail: string): Promise<ApiResponse<PlacementFacts>> {
+    return this.makeRequest<PlacementFacts>('getPlacementFacts', {
+      studentEmail
+    }, false, PLACEMENT_BACKEND_URL);
+  }
+
+  async previewJobEligibility(job: EligibilityJob): Promise<ApiResponse<JobEligibilityPreview>> {
+    return this.makeRequest<JobEligibilityPreview>('previewJobEligibility', {
+      jobData: JSON.stringify(job)
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  // Recruitment pipeline (Admin)
+  async getJobPipeline(jobId: string): Promise<ApiResponse<JobPipeline>> {
+    return this.makeRequest<JobPipeline>('getJobPipeline', {
+      jobId
+    }, false, PLACEMENT_BACKEND_URL);
+  }
+
+  async saveJobPipelineStages(jobId: string, stages: PipelineStage[]): Promise<ApiResponse<{message: string}>> {
+    return this.makeRequest<{message: string}>('saveJobPipelineStages', {
+      jobId,
+      stages: JSON.stringify(stages)
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async moveApplicantsToStage(jobId: string, studentEmails: string[], stage: string, note?: string): Promise<ApiResponse<{movedCount: number; unchangedCount: number; notFound: string[]}>> {
+    return this.makeRequest<{movedCount: number; unchangedCount: number; notFound: string[]}>('moveApplicantsToStage', {
+      jobId,
+      studentEmails: JSON.stringify(studentEmails),
+      stage,
+      note,
+      adminEmail: auth.currentUser?.email
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async scheduleInterviewSlots(jobId: string, slots: Array<Omit<InterviewSlot, 'slotId' | 'jobId'>>): Promise<ApiResponse<{count: number; slotIds: string[]}>> {
+    return this.makeRequest<{count: number; slotIds: string[]}>('scheduleInterviewSlots', {
+      jobId,
+      slots: JSON.stringify(slots),
+      adminEmail: auth.currentUser?.email
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async deleteInterviewSlot(slotId: string): Promise<ApiResponse<{message: string}>> {
+    return this.makeRequest<{message: string}>('deleteInterviewSlot', {
+      slotId
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  // Comparison fields for selected applicants, keyed by lowercased email (Admin)
+  async getApplicantProfiles(studentEmails: string[]): Promise<ApiResponse<Record<string, ApplicantProfile>>> {
+    return this.makeRequest<Record<string, ApplicantProfile>>('getApplicantProfiles', {
+      studentEmails: JSON.stringify(studentEmails)
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async getApplicantResumeFile(jobId: string, studentEmail: string): Promise<ApiResponse<ApplicantResumeFile>> {
+    return this.makeRequest<ApplicantResumeFile>('getApplicantResumeFile', {
+      jobId,
+      studentEmail
+    }, false, PLACEMENT_BACKEND_URL);
+  }
+
+  // Update a single application's status and notify the student (Admin)
+  async updateApplicationStatus(jobId: string, studentEmail: string, status: string, note?: string): Promise<ApiResponse<{message: string}>> {
+    return this.makeRequest<{message: string}>('updateApplicationStatus', {
+      jobId,
+      studentEmail,
+      status,
+      note,
+      adminEmail: auth.currentUser?.email
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  // Placement offers
+  async getOffers(filters: { batch?: string; studentEmail?: string; jobId?: string } = {}): Promise<ApiResponse<PlacementOffer[]>> {
+    return this.makeRequest<PlacementOffer[]>('getOffers', filters, false, PLACEMENT_BACKEND_URL);
+  }
+
+  async createOffer(offerData: PlacementOfferInput): Promise<ApiResponse<PlacementOffer>> {
+    return this.makeRequest<PlacementOffer>('createOffer', {
+      offerData: JSON.stringify(offerData),
+      adminEmail: auth.currentUser?.email
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async updateOffer(offerId: string, updates: Partial<PlacementOfferInput>): Promise<ApiResponse<PlacementOffer>> {
+    return this.makeRequest<PlacementOffer>('updateOffer', {
+      offerId,
+      updates: JSON.stringify(updates)
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async deleteOffer(offerId: string): Promise<ApiResponse<{message: string}>> {
+    return this.makeRequest<{message: string}>('deleteOffer', {
+      offerId
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async getPlacementReport(): Promise<ApiResponse<PlacementReportData>> {
+    return this.makeRequest<PlacementReportData>('getPlacementReport', {}, false, PLACEMENT_BACKEND_URL);
+  }
+
+  // Placement notification feed
+  async getPlacementNotifications(studentEmail: string): Promise<ApiResponse<PlacementNotificationFeed>> {
+    return this.makeRequest<PlacementNotificationFeed>('getPlacementNotifications', {
+      studentEmail
+    }, false, PLACEMENT_BACKEND_URL);
+  }
+
+  async markNotificationsRead(studentEmail: string, notificationIds: string[], markAll: boolean = false): Promise<ApiResponse<{count: number}>> {
+    return this.makeRequest<{count: number}>('markNotificationsRead', {
+      studentEmail,
+      notificationIds: JSON.stringify(notificationIds),
+      markAll: markAll ? 'true' : undefined
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
+  async deleteNotifications(studentEmail: string, notificationIds: string[]): Promise<ApiResponse<{count: number}>> {
+    return this.makeRequest<{count: number}>('deleteNotifications', {
+      studentEmail,
+      notificationIds: JSON.stringify(notificationIds)
+    }, true, PLACEMENT_BACKEND_URL);
+  }
+
   // Get student placement profile
   async getStudentPlacementProfile(studentEmail: string): Promise<ApiResponse<any>> {
     return this.makeRequest<any>('getStudentProfile', {
@@ -1125,17 +1414,19 @@ class ApiService {
     noteContent: string;
     images?: any[];
     tags?: string[];
-  }): Promise<ApiResponse<{ message: string }>> {
+    baseRevision?: string;  // Required once the note is shared; a stale one gets `conflict`
+  }): Promise<ApiResponse<{ message?: string; noteContent?: string; revision?: string }> & { conflict?: boolean }> {
     console.log('API Service: Updating session note:', noteData.noteId);
 
     // Base64 encode the note content to preserve HTML exactly
     const encodedContent = btoa(unescape(encodeURIComponent(noteData.noteContent)));
 
-    const result = await this.makeRequest<{ message: string }>('updateNoteContent', {
+    const result = await this.makeRequest<{ message?: string; noteContent?: string; revision?: string }>('updateNoteContent', {
       studentEmail: noteData.studentId,
       noteId: noteData.noteId,
       noteContent: encodedContent,
-      isContentEncoded: true
+      isContentEncoded: true,
+      baseRevision: noteData.baseRevision
     }, true);
 
     console.log('API Service: Update note result:', result);
@@ -1227,16 +1518,22 @@ class ApiService {
   }
 
   // Update note content (for checkbox state)
-  async updateNoteContent(noteId: string, studentEmail: string, noteContent: string): Promise<ApiResponse<{ message: string; noteContent: string }>> {
+  async updateNoteContent(
+    noteId: string,
+    studentEmail: string,
+    noteContent: string,
+    baseRevision?: string  // Required once the note is shared; a stale one gets `conflict`
+  ): Promise<ApiResponse<{ message?: string; noteContent?: string; revision?: string }> & { conflict?: boolean }> {
     console.log('API Service: Updating note content for note:', noteId);
     // Base64 encode the HTML content to preserve it exactly (avoid URL encoding issues)
     const encodedContent = btoa(unescape(encodeURIComponent(noteContent)));
-    const result = await this.makeRequest<{ message: string; noteContent: string }>('updateNoteContent', {
+    const result = await this.makeRequest<{ message?: string; noteContent?: string; revision?: string }>('updateNoteContent', {
       studentEmail: studentEmail,
       studentId: studentEmail,
       noteId,
       noteContent: encodedContent,
-      isEncoded: 'true'  // Flag to tell backend this is base64 encoded
+      isEncoded: 'true',  // Flag to tell backend this is base64 encoded
+      baseRevision
     }, true); // Use POST for large content payloads
     console.log('API Service: Update note content result:', result);
     return result;
@@ -3,6 +3,8 @@
  * Handles all communication with the Assignment Backend
  */
 
+import { Rubric, GradebookWeights } from '../core/types';
+
 const ASSIGNMENT_API_URL = process.env.REACT_APP_ASSIGNMENT_BACKEND_URL || '';
 
 export interface AssignmentQuestion {
@@ -54,6 +56,8 @@ export interface AssignmentData {
   // Peer Rating & Review fields
   groupRatingRemarkEnabled?: string; // 'Yes' or 'No'
   maximumGroupMembers?: string; // Number as string
+  // Rubric grading (null clears an existing rubric on update)
+  rubric?: Rubric | null;
   // Individual questions for form submission
   q1?: string;
   q1Mandatory?: string;
@@ -136,6 +140,85 @@ export interface AverageRatingsData {
   remarks: string[];
 }
 
+export interface RubricGrade {
+  submissionId: string;
+  criterionScores: Record<string, number>; // criterionId -> score
+  criterionFeedback: Record<string, string>; // criterionId -> feedback
+  totalScore: number;
+  maxScore: number;
+  feedback: string;
+  gradedBy: string;
+  gradedAt: string;
+}
+
+export interface RubricGradeInput {
+  submissionId: string;
+  studentEmail: string;
+  studentName: string;
+  criterionScores: Record<string, number>;
+  criterionFeedback: Record<string, string>;
+  totalScore?: number; // Used only when the assignment has no rubric
+  feedback: string;
+}
+
+export interface GradableSubmission {
+  timestamp: string;
+  responseUpdated: string;
+  submissionId: string;
+  submitterEmail: string;
+  submitterName: string;
+  answers: Record<string, string>;
+  files: { name: string; url: string }[];
+  urls: { name: string; link: string }[];
+  groupName: string;
+  groupMembers: string[];
+  groupMembersEmails: string[];
+  rubricGrade: RubricGrade | null;
+}
+
+export interface SubmissionsForGrading {
+  assignmentId: string;
+  assignmentHeader: string;
+  batch: string;
+  term: string;
+  subject: string;
+  totalMarks: string;
+  rubric: Rubric | null;
+  maxScore: number;
+  submissions: GradableSubmission[];
+}
+
+export interface GradebookAssignment {
+  assignmentId: string;
+  assignmentHeader: string;
+  term: string;
+  maxScore: number;
+  hasRubric: boolean;
+  peerRatingEnabled: boolean;
+}
+
+export interface GradebookStudent {
+  studentEmail: string;
+  studentName: string;
+  rollNo: string;
+  scores: Record<string, number>; // assignmentId -> total score
+  peerRatings: Record<string, number>; // assignmentId -> average peer rating (0-5)
+}
+
+export interface SubjectGradebook {
+  batch: string;
+  term: string;
+  subject: string;
+  assignments: GradebookAssignment[];
+  students: GradebookStudent[];
+}
+
+export interface StudentGradebook {
+  batch: string;
+  subjects: SubjectGradebook[]; // Each has a single student row - the caller
+  weights: Record<string, GradebookWeights>; // Keyed "term|subject"
+}
+
 class AssignmentApiService {
   // Timeout for API requests (90 seconds to allow for large file uploads)
   private readonly REQUEST_TIMEOUT = 90000;
@@ -618,6 +701,97 @@ class AssignmentApiService {
     );
   }
 
+  /**
+   * Get latest submissions of an assignment with their rubric grades (Admin only)
+   */
+  async getSubmissionsForGrading(
+    studentEmail: string,
+    assignmentId: string
+  ): Promise<{ success: boolean; data?: SubmissionsForGrading; error?: string }> {
+    return this.makeRequest<SubmissionsForGrading>(
+      'getSubmissionsForGrading',
+      { assignmentId },
+      studentEmail
+    );
+  }
+
+  /**
+   * Save rubric scores and feedback for a submission (Admin only)
+   */
+  async saveRubricGrade(
+    graderEmail: string,
+    assignmentId: string,
+    gradeData: RubricGradeInput
+  ): Promise<{ success: boolean; data?: RubricGrade; error?: string }> {
+    return this.makeRequest<RubricGrade>(
+      'saveRubricGrade',
+      { assignmentId, gradeData },
+      graderEmail
+    );
+  }
+
+  /**
+   * Get student x assignment gradebook for a subject (Admin only)
+   */
+  async getSubjectGradebook(
+    studentEmail: string,
+    batch: string,
+    term: string,
+    subject: string
+  ): Promise<{ success: boolean; data?: SubjectGradebook; error?: string }> {
+    return this.makeRequest<SubjectGradebook>(
+      'getSubjectGradebook',
+      { batch, term, subject },
+      studentEmail
+    );
+  }
+
+  /**
+   * Get the calling student's assignment grades for all enrolled subjects
+   */
+  async getStudentGradebook(
+    studentEmail: string
+  ): Promise<{ success: boolean; data?: StudentGradebook; error?: string }> {
+    return this.makeRequest<StudentGradebook>(
+      'getStudentGradebook',
+      {},
+      studentEmail
+    );
+  }
+
+  /**
+   * Get gradebook weighting config for a batch/term/subject (null when not configured)
+   */
+  async getGradebookWeights(
+    studentEmail: string,
+    batch: string,
+    term: string,
+    subject: string
+  ): Promise<{ success: boolean; data?: GradebookWeights | null; error?: string }> {
+    return this.makeRequest<GradebookWeights | null>(
+      'getGradebookWeights',
+      { batch, term, subject },
+      studentEmail
+    );
+  }
+
+  /**
+   * Save gradebook weighting config for a batch/term/subject (Admin only)
+   */
+  async saveGradebookWeights(
+    adminEmail: string,
+    batch: string,
+    term: string,
+    subject: string,
+    config: GradebookWeights
+  ): Promise<{ success: boolean; data?: GradebookWeights; error?: string }> {
+    return this.makeRequest<GradebookWeights>(
+      'saveGradebookWeights',
+      { batch, term, subject, config },
+      adminEmail
+    );
+  }
+
   /**
    * Save new Subject Term entry (when "Others" is selected)
    */
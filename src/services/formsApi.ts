@@ -1,4 +1,5 @@
 import { auth } from '../firebase/config';
+import type { FormLogicRule } from '../utils/formLogic';
 
 // Use the same backend URL as the main API (Forms API is merged into Code.js)
 const FORMS_API_BASE_URL = process.env.REACT_APP_BACKEND_API_URL || '';
@@ -144,7 +145,7 @@ export interface Question {
   calendlyUrl?: string;
   // Conditional Logic
   hasConditionalLogic?: string | boolean;
-  conditionalRules?: any[];
+  conditionalRules?: FormLogicRule[];
   options?: QuestionOption[];
   // Group Selection
   minGroupSize?: number;
@@ -930,6 +931,114 @@ export async function getUserFormResponses(formId: string): Promise<ApiResponse<
   }
 }
 
+// ============================================================================
+// RESPONSE DRAFTS (resumable across devices, separate from submitted responses)
+// ============================================================================
+
+export interface FormDraft {
+  draftId: string;
+  formId: string;
+  userEmail: string;
+  answers: Record<string, unknown>;
+  currentIndex: number;
+  path: number[]; // question indexes visited before currentIndex
+  savedAt: string;
+  deviceType?: string;
+}
+
+export async function getFormDraft(formId: string): Promise<ApiResponse<FormDraft | null>> {
+  try {
+    const user = await waitForAuth();
+    if (!user?.email) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const params = new URLSearchParams({
+      action: 'getFormDraft',
+      formId,
+      userEmail: user.email,
+    });
+
+    const response = await fetch(`${FORMS_API_BASE_URL}?${params.toString()}`);
+    return response.json();
+  } catch (error) {
+    console.error('Error fetching form draft:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch draft',
+    };
+  }
+}
+
+/**
+ * Save the in-progress answers. Pass keepalive when saving from a pagehide handler
+ * so the request outlives the closing tab.
+ */
+export async function saveFormDraft(
+  formId: string,
+  draft: { answers: Record<string, unknown>; currentIndex: number; path: number[] },
+  keepalive = false
+): Promise<ApiResponse<{ savedAt: string }>> {
+  try {
+    const user = auth.currentUser || await waitForAuth();
+    if (!user?.email) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const response = await fetch(FORMS_API_BASE_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/plain',
+      },
+      body: JSON.stringify({
+        action: 'saveFormDraft',
+        formId,
+        userEmail: user.email,
+        answers: draft.answers,
+        currentIndex: draft.currentIndex,
+        path: draft.path,
+        deviceType: getDeviceType(),
+      }),
+      keepalive,
+    });
+    return response.json();
+  } catch (error) {
+    console.error('Error saving form draft:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save draft',
+    };
+  }
+}
+
+export async function deleteFormDraft(formId: string): Promise<ApiResponse<void>> {
+  try {
+    const user = await waitForAuth();
+    if (!user?.email) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const response = await fetch(FORMS_API_BASE_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/plain',
+      },
+      body: JSON.stringify({
+        action: 'deleteFormDraft',
+        formId,
+        userEmail: user.email,
+      }),
+    });
+    return response.json();
+  } catch (error) {
+    console.error('Error deleting form draft:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete draft',
+    };
+  }
+}
+
 // ============================================================================
 // GET FORM RESPONSES (Admin)
 // ============================================================================
@@ -130,6 +130,30 @@ export interface Session {
   screenShareOnlyLink?: string; // Google Drive link for Screen Share Only (legacy)
 }
 
+export type TranscriptFormat = 'vtt' | 'srt' | 'zoom';
+
+export interface TranscriptCue {
+  start: number; // seconds from the start of the recording
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+export interface SessionTranscript {
+  sessionId: string;
+  format: TranscriptFormat;
+  cues: TranscriptCue[];
+  uploadedAt?: string;
+}
+
+// A transcript line matching a cross-recording search
+export interface TranscriptMatch {
+  sessionId: string;
+  start: number;
+  speaker?: string;
+  text: string;
+}
+
 export interface SessionFilters {
   type?: 'live' | 'recording';
   batch?: string;
@@ -154,16 +178,18 @@ export interface Note {
   date?: string;
   startTime?: string;
   meetingId?: string;
-  noteContent: string;
+  noteContent: string; // HTML; lines carry their recording position as data-t (seconds)
   noteTitle?: string;
   noteTimestamp?: string;
-  timestamp?: string;
+  timestamp?: string; // when the note was saved (wall clock)
   noteTags?: string;
   isPinned: boolean | string;
   lastModified: string;
   updatedAt?: string;
   type?: string; // 'Live Session' or 'Recording' or 'Quick Note'
   images?: string; // Comma-separated image URLs or base64
+  revision?: string; // Changes whenever the content is saved
+  isShared?: boolean; // Shared with classmates, so content saves are merged with theirs
 }
 
 export interface NoteInput {
@@ -179,6 +205,34 @@ export interface NoteInput {
   subject?: string;
   sessionName?: string;
   isPinned?: boolean;
+  baseRevision?: string; // Revision the content was edited from; required for shared notes
+}
+
+export type NoteRole = 'view' | 'comment' | 'edit';
+
+// A note another student shared with the current one
+export interface SharedNote extends Note {
+  ownerEmail: string;
+  ownerName?: string;
+  role: NoteRole;
+  groupName?: string; // Set when shared with an assignment group
+  revision: string; // Changes whenever the content is saved
+}
+
+export interface NoteShare {
+  email: string;
+  role: NoteRole;
+  groupName?: string;
+  sharedAt?: string;
+}
+
+export interface NoteComment {
+  commentId: string;
+  noteId: string;
+  authorEmail: string;
+  authorName?: string;
+  comment: string;
+  createdAt: string;
 }
 
 export interface Student {
@@ -0,0 +1,139 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createContext, runInContext } from 'vm';
+import {
+  EligibilityCondition,
+  EligibilityGroup,
+  EligibilityJob,
+  EligibilityRule,
+  PlacementFacts,
+  describeRule,
+  evaluateCondition,
+  evaluateRule,
+  isEligibleForJob,
+  parseEligibilityRules,
+} from './eligibility';
+
+// The placement backend re-checks eligibility on apply; load it into a sandbox to keep both engines in step
+const backend: {
+  isEligibleForJob?: (job: EligibilityJob, facts: PlacementFacts) => boolean;
+  buildPlacementFacts?: (profileRow: unknown[], offers: Array<Record<string, unknown>>) => PlacementFacts;
+  Logger: { log: () => void };
+} = {
+  Logger: { log: () => undefined },
+};
+createContext(backend);
+runInContext(readFileSync(join(__dirname, '../../backend/Placement SSB Backend/Eligibility Functions.js'), 'utf8'), backend);
+
+const facts: PlacementFacts = {
+  batch: '2025',
+  offersCount: 1,
+  hasPPO: false,
+  currentOfferCTC: 12,
+  skills: ['react', 'sql'],
+  experienceMonths: 18,
+};
+
+const condition = (field: EligibilityCondition['field'], operator: EligibilityCondition['operator'], value: string): EligibilityCondition => ({
+  id: `${field}-${operator}`,
+  type: 'condition',
+  field,
+  operator,
+  value,
+});
+
+const group = (combinator: 'AND' | 'OR', rules: EligibilityRule[]): EligibilityGroup => ({ id: combinator, type: 'group', combinator, rules });
+
+describe('evaluateCondition', () => {
+  it('compares numbers and ignores incomplete values', () => {
+    expect(evaluateCondition(condition('offersCount', 'lt', '2'), facts)).toBe(true);
+    expect(evaluateCondition(condition('offersCount', 'gte', '2'), facts)).toBe(false);
+    expect(evaluateCondition(condition('currentOfferCTC', 'lte', '12'), facts)).toBe(true);
+    expect(evaluateCondition(condition('experienceMonths', 'equals', ''), facts)).toBe(true);
+  });
+
+  it('matches text, lists and booleans case-insensitively', () => {
+    expect(evaluateCondition(condition('batch', 'in', '2024, 2025'), facts)).toBe(true);
+    expect(evaluateCondition(condition('batch', 'notIn', '2025'), facts)).toBe(false);
+    expect(evaluateCondition(condition('batch', 'notEquals', ' '), facts)).toBe(true);
+    expect(evaluateCondition(condition('skills', 'includesAll', 'React, SQL'), facts)).toBe(true);
+    expect(evaluateCondition(condition('skills', 'includesAny', 'java,go'), facts)).toBe(false);
+    expect(evaluateCondition(condition('skills', 'excludesAll', 'java'), facts)).toBe(true);
+    expect(evaluateCondition(condition('hasPPO', 'is', 'false'), facts)).toBe(true);
+  });
+});
+
+describe('evaluateRule', () => {
+  const noPPO = condition('hasPPO', 'is', 'false');
+  const lowCTC = condition('currentOfferCTC', 'lt', '10');
+  const noOffers = condition('offersCount', 'equals', '0');
+  const knowsReact = condition('skills', 'includesAny', 'react');
+
+  it('lets everyone through an empty group', () => {
+    expect(evaluateRule(group('AND', []), facts)).toBe(true);
+    expect(evaluateRule(group('OR', []), facts)).toBe(true);
+  });
+
+  it('requires every rule for AND and any rule for OR', () => {
+    expect(evaluateRule(group('AND', [noPPO, lowCTC]), facts)).toBe(false);
+    expect(evaluateRule(group('OR', [noPPO, lowCTC]), facts)).toBe(true);
+    expect(evaluateRule(group('OR', [noOffers, lowCTC]), facts)).toBe(false);
+  });
+
+  it('evaluates nested groups', () => {
+    // no PPO AND (no offers OR CTC below 10 OR (React AND 12+ months))
+    const nested = group('AND', [
+      noPPO,
+      group('OR', [noOffers, lowCTC, group('AND', [knowsReact, condition('experienceMonths', 'gte', '12')])]),
+    ]);
+    expect(evaluateRule(nested, facts)).toBe(true);
+    expect(evaluateRule(nested, { ...facts, experienceMonths: 6 })).toBe(false);
+    expect(evaluateRule(nested, { ...facts, experienceMonths: 6, currentOfferCTC: 8 })).toBe(true);
+    expect(evaluateRule(nested, { ...facts, hasPPO: true })).toBe(false);
+    expect(describeRule(nested)).toBe('Has PPO is no AND (Offers count is 0 OR Current offer CTC (LPA) < 10 OR (Skills includes any of react AND Experience (months) ≥ 12))');
+  });
+});
+
+describe('isEligibleForJob', () => {
+  const rules = group('OR', [condition('offersCount', 'equals', '0'), condition('currentOfferCTC', 'lt', '10')]);
+  const jobs: Array<[string, EligibilityJob]> = [
+    ['open job', {}],
+    ['job batch', { batch: '2025' }],
+    ['other batch', { batch: '2024' }],
+    ['batch levels override the job batch', { batch: '2024', showToBatchLevels: '2024, 2025' }],
+    ['batch levels exclude the student', { batch: '2025', showToBatchLevels: '2026' }],
+    ['rules', { batch: '2025', eligibilityRules: rules }],
+  ];
+
+  it.each(jobs)('checks the audience and rules: %s', (_, job) => {
+    expect(isEligibleForJob(job, facts)).toBe(backend.isEligibleForJob!(job, facts));
+  });
+
+  it('applies the audience before the rules', () => {
+    expect(jobs.map(([, job]) => isEligibleForJob(job, facts))).toEqual([true, true, false, true, false, false]);
+    expect(isEligibleForJob({ eligibilityRules: rules }, { ...facts, offersCount: 0 })).toBe(true);
+  });
+});
+
+describe('buildPlacementFacts', () => {
+  it('takes the best non-declined offer in LPA and skips monthly stipends', () => {
+    const built = backend.buildPlacementFacts!(['s@x.com', '', '', '2025'], [
+      { offerType: 'FullTime', ctcType: 'Fixed', ctcValue: 9, status: 'Accepted' },
+      { offerType: 'Internship', ctcType: 'MonthlyStipend', ctcValue: 50, status: 'Accepted' },
+      { offerType: 'FullTime', ctcType: 'Fixed', ctcValue: 20, status: 'Declined' },
+    ]);
+    expect(built.offersCount).toBe(2);
+    expect(built.currentOfferCTC).toBe(9);
+  });
+});
+
+describe('parseEligibilityRules', () => {
+  it('accepts JSON groups and rejects blank or malformed cells', () => {
+    const rules = group('AND', [condition('hasPPO', 'is', 'false')]);
+    expect(parseEligibilityRules(JSON.stringify(rules))).toEqual(rules);
+    expect(parseEligibilityRules(rules)).toBe(rules);
+    expect(parseEligibilityRules('')).toBeNull();
+    expect(parseEligibilityRules('{not json')).toBeNull();
+    expect(parseEligibilityRules('{"type":"condition"}')).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Job eligibility rule engine
+ * Rules are AND/OR groups of conditions on a student's placement facts.
+ * Mirrored by the placement backend (Eligibility Functions.js) so the portal and
+ * submitJobApplication enforce the same result - keep the two in sync.
+ */
+
+export type EligibilityField =
+  | 'batch'
+  | 'offersCount'
+  | 'hasPPO'
+  | 'currentOfferCTC'
+  | 'skills'
+  | 'experienceMonths';
+
+export type EligibilityOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'notIn'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'is'
+  | 'includesAny'
+  | 'includesAll'
+  | 'excludesAll';
+
+export interface EligibilityCondition {
+  id: string;
+  type: 'condition';
+  field: EligibilityField;
+  operator: EligibilityOperator;
+  value: string;
+}
+
+export interface EligibilityGroup {
+  id: string;
+  type: 'group';
+  combinator: 'AND' | 'OR';
+  rules: EligibilityRule[];
+}
+
+export type EligibilityRule = EligibilityCondition | EligibilityGroup;
+
+export interface PlacementFacts {
+  batch: string;
+  offersCount: number;
+  hasPPO: boolean;
+  currentOfferCTC: number; // LPA, highest non-declined offer
+  skills: string[]; // lowercased
+  experienceMonths: number;
+}
+
+export interface EligibilityJob {
+  batch?: string;
+  showToBatchLevels?: string;
+  eligibilityRules?: EligibilityGroup | null;
+}
+
+type FieldKind = 'text' | 'number' | 'boolean' | 'list';
+
+export const ELIGIBILITY_FIELDS: Record<EligibilityField, { label: string; kind: FieldKind; hint?: string }> = {
+  batch: { label: 'Batch', kind: 'text', hint: 'Comma-separate values for "is one of"' },
+  offersCount: { label: 'Offers count', kind: 'number' },
+  hasPPO: { label: 'Has PPO', kind: 'boolean' },
+  currentOfferCTC: { label: 'Current offer CTC (LPA)', kind: 'number' },
+  skills: { label: 'Skills', kind: 'list', hint: 'Comma-separated skills' },
+  experienceMonths: { label: 'Experience (months)', kind: 'number' },
+};
+
+export const OPERATOR_LABELS: Record<EligibilityOperator, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  in: 'is one of',
+  notIn: 'is not one of',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  is: 'is',
+  includesAny: 'includes any of',
+  includesAll: 'includes all of',
+  excludesAll: 'includes none of',
+};
+
+const OPERATORS_BY_KIND: Record<FieldKind, EligibilityOperator[]> = {
+  text: ['equals', 'notEquals', 'in', 'notIn'],
+  number: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['is'],
+  list: ['includesAny', 'includesAll', 'excludesAll'],
+};
+
+export function operatorsForField(field: EligibilityField): EligibilityOperator[] {
+  return OPERATORS_BY_KIND[ELIGIBILITY_FIELDS[field].kind];
+}
+
+let ruleCounter = 0;
+const nextRuleId = () => `rule_${Date.now()}_${ruleCounter++}`;
+
+export function createCondition(field: EligibilityField = 'offersCount'): EligibilityCondition {
+  const kind = ELIGIBILITY_FIELDS[field].kind;
+  return {
+    id: nextRuleId(),
+    type: 'condition',
+    field,
+    operator: operatorsForField(field)[0],
+    value: kind === 'boolean' ? 'false' : kind === 'number' ? '0' : '',
+  };
+}
+
+export function createGroup(combinator: 'AND' | 'OR' = 'AND'): EligibilityGroup {
+  return { id: nextRuleId(), type: 'group', combinator, rules: [] };
+}
+
+const splitList = (value: string) =>
+  value.split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+
+export function evaluateCondition(condition: EligibilityCondition, facts: PlacementFacts): boolean {
+  const raw = facts[condition.field];
+  const { operator, value } = condition;
+
+  switch (ELIGIBILITY_FIELDS[condition.field].kind) {
+    case 'number': {
+      const actual = Number(raw) || 0;
+      const expected = parseFloat(value);
+      if (isNaN(expected)) return true; // incomplete condition doesn't restrict
+      if (operator === 'equals') return actual === expected;
+      if (operator === 'notEquals') return actual !== expected;
+      if (operator === 'gt') return actual > expected;
+      if (operator === 'gte') return actual >= expected;
+      if (operator === 'lt') return actual < expected;
+      if (operator === 'lte') return actual <= expected;
+      return true;
+    }
+    case 'boolean':
+      return Boolean(raw) === (value === 'true');
+    case 'list': {
+      const actual = (raw as string[]).map(s => s.toLowerCase());
+      const expected = splitList(value);
+      if (expected.length === 0) return true;
+      if (operator === 'includesAny') return expected.some(s => actual.includes(s));
+      if (operator === 'includesAll') return expected.every(s => actual.includes(s));
+      if (operator === 'excludesAll') return !expected.some(s => actual.includes(s));
+      return true;
+    }
+    default: {
+      const actual = String(raw || '').trim().toLowerCase();
+      if (operator === 'in' || operator === 'notIn') {
+        const expected = splitList(value);
+        if (expected.length === 0) return true;
+        return operator === 'in' ? expected.includes(actual) : !expected.includes(actual);
+      }
+      const expected = value.trim().toLowerCase();
+      if (!expected) return true;
+      return operator === 'equals' ? actual === expected : actual !== expected;
+    }
+  }
+}
+
+export function evaluateRule(rule: EligibilityRule, facts: PlacementFacts): boolean {
+  if (rule.type === 'condition') return evaluateCondition(rule, facts);
+  if (rule.rules.length === 0) return true;
+  return rule.combinator === 'AND'
+    ? rule.rules.every(r => evaluateRule(r, facts))
+    : rule.rules.some(r => evaluateRule(r, facts));
+}
+
+/**
+ * Audience check (job batch, or showToBatchLevels when set) followed by the job's rules
+ */
+export function isEligibleForJob(job: EligibilityJob, facts: PlacementFacts): boolean {
+  const batches = splitList(job.showToBatchLevels || job.batch || '');
+  if (batches.length > 0 && !batches.includes(facts.batch.trim().toLowerCase())) return false;
+  return job.eligibilityRules ? evaluateRule(job.eligibilityRules, facts) : true;
+}
+
+/**
+ * Jobs store rules as a JSON string in the sheet; tolerate blanks and malformed cells
+ */
+export function parseEligibilityRules(value: unknown): EligibilityGroup | null {
+  if (!value) return null;
+  if (typeof value === 'object') return value as EligibilityGroup;
+  try {
+    const parsed = JSON.parse(String(value));
+    return parsed && parsed.type === 'group' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function describeRule(rule: EligibilityRule): string {
+  if (rule.type === 'condition') {
+    const field = ELIGIBILITY_FIELDS[rule.field];
+    const value = field.kind === 'boolean' ? (rule.value === 'true' ? 'yes' : 'no') : rule.value || '…';
+    return `${field.label} ${OPERATOR_LABELS[rule.operator]} ${value}`;
+  }
+  if (rule.rules.length === 0) return 'Everyone';
+  const parts = rule.rules.map(r => (r.type === 'group' ? `(${describeRule(r)})` : describeRule(r)));
+  return parts.join(` ${rule.combinator} `);
+}
@@ -0,0 +1,269 @@
+import {
+  FormLogicCondition,
+  FormLogicGroup,
+  FormLogicNode,
+  FormLogicOperator,
+  FormLogicRule,
+  LogicQuestion,
+  analyzeFormLogic,
+  answersByIndex,
+  evaluateLogicCondition,
+  evaluateLogicNode,
+  getFirstQuestionIndex,
+  getNextQuestionIndex,
+  isQuestionVisible,
+  simulateForm
+} from './formLogic';
+
+// Operators are typed loosely so legacy spellings can be tested too
+const cond = (questionIndex: number, operator: string, value = '', compareQuestionIndex?: number): FormLogicCondition => ({
+  id: `c${questionIndex}${operator}${value}`,
+  type: 'condition',
+  questionIndex,
+  operator: operator as FormLogicOperator,
+  value,
+  compareQuestionIndex
+});
+
+const group = (combinator: 'AND' | 'OR', ...rules: FormLogicNode[]): FormLogicGroup => ({
+  id: `g${combinator}${rules.length}`,
+  type: 'group',
+  combinator,
+  rules
+});
+
+const question = (...rules: FormLogicRule[]): LogicQuestion => ({
+  questionType: 'Short Text',
+  hasConditionalLogic: rules.length > 0,
+  conditionalRules: rules
+});
+
+const rule = (action: string, condition: FormLogicGroup, targetIndex?: number): FormLogicRule => ({
+  action,
+  condition,
+  targetIndex
+});
+
+describe('evaluateLogicCondition', () => {
+  it('compares text exactly for is / is not', () => {
+    expect(evaluateLogicCondition(cond(0, 'is', 'Yes'), { 0: 'Yes' })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'is', 'Yes'), { 0: 'yes' })).toBe(false);
+    expect(evaluateLogicCondition(cond(0, 'is_not', 'Yes'), { 0: 'No' })).toBe(true);
+  });
+
+  it('accepts legacy and title-case operator names', () => {
+    expect(evaluateLogicCondition(cond(0, 'equals', 'A'), { 0: 'A' })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'Greater Than', '5'), { 0: '7' })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'is_empty'), {})).toBe(true);
+  });
+
+  it('matches contains case-insensitively on text and exactly on selections', () => {
+    expect(evaluateLogicCondition(cond(0, 'contains', 'data'), { 0: 'Big Data roles' })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'contains', 'SQL'), { 0: ['Python', 'SQL'] })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'contains', 'sql'), { 0: ['Python', 'SQL'] })).toBe(false);
+    expect(evaluateLogicCondition(cond(0, 'does_not_contain', 'Java'), { 0: ['Python'] })).toBe(true);
+  });
+
+  it('compares numbers and rejects non-numeric answers', () => {
+    expect(evaluateLogicCondition(cond(0, 'greater_than_or_equal', '10'), { 0: 10 })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'less_than', '10'), { 0: '9.5' })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'greater_than', '10'), { 0: 'many' })).toBe(false);
+  });
+
+  it('treats empty strings, whitespace and empty selections as blank but not zero', () => {
+    expect(evaluateLogicCondition(cond(0, 'is_blank'), { 0: '  ' })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'is_blank'), { 0: [] })).toBe(true);
+    expect(evaluateLogicCondition(cond(0, 'is_blank'), { 0: 0 })).toBe(false);
+    expect(evaluateLogicCondition(cond(0, 'is_not_blank'), { 0: 'x' })).toBe(true);
+  });
+
+  it('only lets negative operators match an unanswered question', () => {
+    expect(evaluateLogicCondition(cond(0, 'is', ''), {})).toBe(false);
+    expect(evaluateLogicCondition(cond(0, 'less_than', '5'), {})).toBe(false);
+    expect(evaluateLogicCondition(cond(0, 'is_not', 'Yes'), {})).toBe(true);
+  });
+
+  it('compares against another question when compareQuestionIndex is set', () => {
+    const sameEmail = cond(1, 'is', '', 0);
+    expect(evaluateLogicCondition(sameEmail, { 0: 'a@x.com', 1: 'a@x.com' })).toBe(true);
+    expect(evaluateLogicCondition(sameEmail, { 0: 'a@x.com', 1: 'b@x.com' })).toBe(false);
+    expect(evaluateLogicCondition(cond(1, 'greater_than', '', 0), { 0: '3', 1: '5' })).toBe(true);
+    expect(evaluateLogicCondition(cond(1, 'greater_than', '', 0), { 1: '5' })).toBe(false);
+  });
+});
+
+describe('evaluateLogicNode', () => {
+  const answers = { 0: 'Yes', 1: '4', 2: 'Mumbai' };
+
+  it('evaluates nested AND/OR groups', () => {
+    const node = group('AND', cond(0, 'is', 'Yes'), group('OR', cond(1, 'greater_than', '5'), cond(2, 'is', 'Mumbai')));
+    expect(evaluateLogicNode(node, answers)).toBe(true);
+    expect(evaluateLogicNode(node, { ...answers, 2: 'Pune' })).toBe(false);
+  });
+
+  it('treats an empty group as always true', () => {
+    expect(evaluateLogicNode(group('OR'), {})).toBe(true);
+  });
+});
+
+describe('isQuestionVisible', () => {
+  it('shows a question with a show rule only when the rule matches', () => {
+    const questions = [question(), question(rule('show', group('AND', cond(0, 'is', 'Yes'))))];
+    expect(isQuestionVisible(questions, 1, { 0: 'Yes' })).toBe(true);
+    expect(isQuestionVisible(questions, 1, { 0: 'No' })).toBe(false);
+  });
+
+  it('shows a question with only hide rules unless one matches', () => {
+    const questions = [question(), question(rule('hide', group('AND', cond(0, 'is', 'No'))))];
+    expect(isQuestionVisible(questions, 1, {})).toBe(true);
+    expect(isQuestionVisible(questions, 1, { 0: 'No' })).toBe(false);
+  });
+
+  it('lets the first matching rule decide', () => {
+    const questions = [question(), question(
+      { ...rule('hide', group('AND', cond(0, 'contains', 'a'))), order: 1 },
+      { ...rule('show', group('AND', cond(0, 'is', 'abc'))), order: 2 }
+    )];
+    expect(isQuestionVisible(questions, 1, { 0: 'abc' })).toBe(false);
+  });
+
+  it('reads legacy single-condition rules without an action as show rules', () => {
+    const questions: LogicQuestion[] = [
+      question(),
+      { hasConditionalLogic: 'Yes', conditionalRules: [{ questionIndex: 0, operator: 'equals', value: 'Yes' }] }
+    ];
+    expect(isQuestionVisible(questions, 1, { 0: 'Yes' })).toBe(true);
+    expect(isQuestionVisible(questions, 1, { 0: 'No' })).toBe(false);
+  });
+
+  it('ignores rules while conditional logic is switched off and always shows start/end screens', () => {
+    const rules = [rule('show', group('AND', cond(0, 'is', 'Yes')))];
+    expect(isQuestionVisible([question(), { hasConditionalLogic: false, conditionalRules: rules }], 1, {})).toBe(true);
+    expect(isQuestionVisible([question(), { questionType: 'End Screen', hasConditionalLogic: true, conditionalRules: rules }], 1, {})).toBe(true);
+  });
+});
+
+describe('getNextQuestionIndex', () => {
+  it('moves to the next question without rules', () => {
+    expect(getNextQuestionIndex([question(), question()], 0, {})).toBe(1);
+    expect(getNextQuestionIndex([question(), question()], 1, {})).toBe(2);
+  });
+
+  it('applies skip, jump and submit rules', () => {
+    const questions = [
+      question(
+        rule('submit', group('AND', cond(0, 'is', 'Stop'))),
+        rule('skip', group('AND', cond(0, 'is', 'Skip'))),
+        rule('jump', group('AND', cond(0, 'is', 'Jump')), 3)
+      ),
+      question(),
+      question(),
+      question()
+    ];
+    expect(getNextQuestionIndex(questions, 0, { 0: 'Stop' })).toBe(4);
+    expect(getNextQuestionIndex(questions, 0, { 0: 'Skip' })).toBe(2);
+    expect(getNextQuestionIndex(questions, 0, { 0: 'Jump' })).toBe(3);
+    expect(getNextQuestionIndex(questions, 0, { 0: 'Other' })).toBe(1);
+  });
+
+  it('passes over hidden questions after moving', () => {
+    const questions = [
+      question(),
+      question(rule('show', group('AND', cond(0, 'is', 'Yes')))),
+      question()
+    ];
+    expect(getNextQuestionIndex(questions, 0, { 0: 'No' })).toBe(2);
+    expect(getNextQuestionIndex(questions, 0, { 0: 'Yes' })).toBe(1);
+  });
+
+  it('falls through when a jump has no valid destination', () => {
+    const questions = [question(rule('jump', group('AND'), 9)), question()];
+    expect(getNextQuestionIndex(questions, 0, {})).toBe(1);
+  });
+});
+
+describe('simulateForm', () => {
+  it('lists the questions a respondent sees, in order', () => {
+    const questions = [
+      question(rule('jump', group('AND', cond(0, 'is', 'Fresher')), 3)),
+      question(),
+      question(rule('show', group('AND', cond(1, 'greater_than', '2')))),
+      question()
+    ];
+    expect(simulateForm(questions, { 0: 'Fresher' })).toEqual({ path: [0, 3], outcome: 'submitted' });
+    expect(simulateForm(questions, { 0: 'Experienced', 1: '1' })).toEqual({ path: [0, 1, 3], outcome: 'submitted' });
+    expect(simulateForm(questions, { 0: 'Experienced', 1: '5' })).toEqual({ path: [0, 1, 2, 3], outcome: 'submitted' });
+  });
+
+  it('starts at the first visible question', () => {
+    const questions = [question(rule('show', group('AND', cond(1, 'is', 'x')))), question()];
+    expect(getFirstQuestionIndex(questions, {})).toBe(1);
+    expect(simulateForm(questions, {}).path).toEqual([1]);
+  });
+
+  it('only lets rules see answers to questions already passed', () => {
+    const questions = [question(rule('show', group('AND', cond(1, 'is', 'x')))), question()];
+    expect(simulateForm(questions, { 1: 'x' }).path).toEqual([1]);
+  });
+
+  it('reports a loop when a jump returns to a question already shown', () => {
+    const questions = [question(), question(rule('jump', group('AND', cond(0, 'is', 'again')), 0))];
+    expect(simulateForm(questions, { 0: 'again' })).toEqual({ path: [0, 1], outcome: 'cycle', cycleAt: 0 });
+    expect(simulateForm(questions, { 0: 'done' }).outcome).toBe('submitted');
+  });
+});
+
+describe('analyzeFormLogic', () => {
+  it('finds no issues in a forward-only form', () => {
+    const questions = [
+      question(),
+      question(rule('show', group('AND', cond(0, 'is', 'Yes')))),
+      question(rule('skip', group('AND', cond(2, 'is', 'No'))))
+    ];
+    expect(analyzeFormLogic(questions)).toEqual([]);
+  });
+
+  it('flags questions passed over by an unconditional jump', () => {
+    const questions = [question(rule('jump', group('AND'), 2)), question(), question()];
+    expect(analyzeFormLogic(questions)).toEqual([
+      expect.objectContaining({ questionIndex: 1, kind: 'unreachable' })
+    ]);
+  });
+
+  it('flags questions whose rules always hide them', () => {
+    const questions = [question(), question(rule('hide', group('OR')))];
+    expect(analyzeFormLogic(questions)).toEqual([
+      expect.objectContaining({ questionIndex: 1, kind: 'unreachable' })
+    ]);
+  });
+
+  it('keeps questions after a conditional skip reachable', () => {
+    const questions = [question(rule('skip', group('AND', cond(0, 'is', 'x')))), question(), question()];
+    expect(analyzeFormLogic(questions)).toEqual([]);
+  });
+
+  it('flags jumps back to earlier questions as cycles', () => {
+    const questions = [question(), question(), question(rule('jump', group('AND', cond(2, 'is', 'retry')), 1))];
+    expect(analyzeFormLogic(questions)).toEqual([
+      expect.objectContaining({ questionIndex: 2, kind: 'cycle' })
+    ]);
+  });
+
+  it('flags references to missing, unselected or later questions', () => {
+    const questions = [
+      question(rule('show', group('AND', cond(1, 'is', 'x')))),
+      question(rule('show', group('AND', cond(7, 'is', 'x')))),
+      question(rule('hide', group('AND', cond(-1, 'is', 'x')))),
+      question(rule('jump', group('AND', cond(0, 'is', 'x'))))
+    ];
+    const issues = analyzeFormLogic(questions).filter(issue => issue.kind === 'invalid_reference');
+    expect(issues.map(issue => issue.questionIndex)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('answersByIndex', () => {
+  it('maps responses keyed by question id onto question indexes', () => {
+    const questions = [{ questionId: 'Q1' }, { id: 'Q2' }, { questionId: 'Q3' }];
+    expect(answersByIndex(questions, { Q1: 'a', Q2: ['b'] })).toEqual({ 0: 'a', 1: ['b'] });
+  });
+});
@@ -0,0 +1,521 @@
+/**
+ * Form conditional logic engine
+ * Each question can carry rules: show/hide rules decide whether the question appears,
+ * skip/jump/submit rules decide where the form goes after the question is answered.
+ * A rule's condition is an AND/OR group of conditions on earlier answers, compared to a
+ * fixed value or to another question's answer. Shared by FormFillPage and the builder's simulator.
+ */
+
+export type FormLogicOperator =
+  | 'is'
+  | 'is_not'
+  | 'contains'
+  | 'does_not_contain'
+  | 'starts_with'
+  | 'ends_with'
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'is_blank'
+  | 'is_not_blank';
+
+export type FormLogicAction = 'show' | 'hide' | 'skip' | 'jump' | 'submit';
+
+export interface FormLogicCondition {
+  id: string;
+  type: 'condition';
+  questionIndex: number;
+  operator: FormLogicOperator;
+  value: string;
+  // Set to compare against another question's answer instead of value
+  compareQuestionIndex?: number;
+}
+
+export interface FormLogicGroup {
+  id: string;
+  type: 'group';
+  combinator: 'AND' | 'OR';
+  rules: FormLogicNode[];
+}
+
+export type FormLogicNode = FormLogicCondition | FormLogicGroup;
+
+/**
+ * A rule as stored with the question
+ * Older rules only have questionIndex / operator / value (a single condition) and no action,
+ * which means "show this question if the condition is met".
+ */
+export interface FormLogicRule {
+  action?: string;
+  condition?: FormLogicGroup;
+  targetIndex?: number; // jump destination (question index)
+  order?: number;
+  questionIndex?: number;
+  operator?: string;
+  value?: string;
+}
+
+export interface LogicQuestion {
+  questionType?: string;
+  hasConditionalLogic?: string | boolean;
+  conditionalRules?: FormLogicRule[];
+}
+
+// Answers by question index
+export type FormAnswers = Record<number, unknown>;
+
+export const LOGIC_OPERATOR_LABELS: Record<FormLogicOperator, string> = {
+  is: 'is',
+  is_not: 'is not',
+  contains: 'contains',
+  does_not_contain: 'does not contain',
+  starts_with: 'starts with',
+  ends_with: 'ends with',
+  greater_than: '>',
+  greater_than_or_equal: '≥',
+  less_than: '<',
+  less_than_or_equal: '≤',
+  is_blank: 'is blank',
+  is_not_blank: 'is not blank',
+};
+
+export const LOGIC_ACTION_LABELS: Record<FormLogicAction, string> = {
+  show: 'Show this question if',
+  hide: 'Hide this question if',
+  skip: 'After answering, skip the next question if',
+  jump: 'After answering, jump to a question if',
+  submit: 'After answering, submit the form if',
+};
+
+// Operators that ignore the comparison value
+export const UNARY_OPERATORS: FormLogicOperator[] = ['is_blank', 'is_not_blank'];
+
+const OPERATOR_ALIASES: Record<string, FormLogicOperator> = {
+  equals: 'is',
+  not_equals: 'is_not',
+  is_empty: 'is_blank',
+  is_not_empty: 'is_not_blank',
+};
+
+const ACTION_ALIASES: Record<string, FormLogicAction> = {
+  show: 'show',
+  hide: 'hide',
+  skip: 'skip',
+  skip_next: 'skip',
+  jump: 'jump',
+  jump_to: 'jump',
+  go_to: 'jump',
+  submit: 'submit',
+  skip_to_end: 'submit',
+};
+
+let logicCounter = 0;
+const nextLogicId = () => `logic_${Date.now()}_${logicCounter++}`;
+
+export function createLogicCondition(questionIndex = -1): FormLogicCondition {
+  return { id: nextLogicId(), type: 'condition', questionIndex, operator: 'is', value: '' };
+}
+
+export function createLogicGroup(combinator: 'AND' | 'OR' = 'AND', rules: FormLogicNode[] = []): FormLogicGroup {
+  return { id: nextLogicId(), type: 'group', combinator, rules };
+}
+
+export function createLogicRule(action: FormLogicAction = 'show', questionIndex = -1): FormLogicRule {
+  return { action, condition: createLogicGroup('AND', [createLogicCondition(questionIndex)]) };
+}
+
+/**
+ * Accept "Greater Than", "greater_than" and the legacy aliases
+ */
+export function normalizeOperator(operator: string | undefined): FormLogicOperator | null {
+  const key = String(operator || '').trim().toLowerCase().replace(/\s+/g, '_');
+  if (OPERATOR_ALIASES[key]) return OPERATOR_ALIASES[key];
+  return key in LOGIC_OPERATOR_LABELS ? (key as FormLogicOperator) : null;
+}
+
+export function normalizeAction(action: string | undefined): FormLogicAction {
+  const key = String(action || '').trim().toLowerCase().replace(/\s+/g, '_');
+  return ACTION_ALIASES[key] || 'show';
+}
+
+/**
+ * The rule's condition group, building one from the legacy single-condition fields
+ */
+export function getRuleCondition(rule: FormLogicRule): FormLogicGroup {
+  if (rule.condition && rule.condition.type === 'group') return rule.condition;
+  const legacyIndex = Number(rule.questionIndex);
+  return {
+    id: 'legacy',
+    type: 'group',
+    combinator: 'AND',
+    rules: [{
+      id: 'legacy_condition',
+      type: 'condition',
+      questionIndex: isNaN(legacyIndex) ? -1 : legacyIndex,
+      operator: normalizeOperator(rule.operator) || 'is',
+      value: rule.value === undefined || rule.value === null ? '' : String(rule.value),
+    }],
+  };
+}
+
+export function getQuestionRules(question: LogicQuestion): FormLogicRule[] {
+  const enabled = question.hasConditionalLogic === true || question.hasConditionalLogic === 'Yes';
+  if (!enabled || !question.conditionalRules) return [];
+  return [...question.conditionalRules].sort((a, b) => (Number(a.order) || 0) - (Number(b.order) || 0));
+}
+
+const isNavigationAction = (action: FormLogicAction) => action === 'skip' || action === 'jump' || action === 'submit';
+
+const isAlwaysShown = (question: LogicQuestion) =>
+  question.questionType === 'Start Screen' || question.questionType === 'End Screen';
+
+export function isBlankAnswer(answer: unknown): boolean {
+  if (answer === undefined || answer === null) return true;
+  if (Array.isArray(answer)) return answer.length === 0;
+  if (typeof answer === 'object') return Object.keys(answer as object).length === 0;
+  return String(answer).trim() === '';
+}
+
+export function evaluateLogicCondition(condition: FormLogicCondition, answers: FormAnswers): boolean {
+  const answer = answers[condition.questionIndex];
+  const operator = normalizeOperator(condition.operator);
+
+  if (operator === 'is_blank') return isBlankAnswer(answer);
+  if (operator === 'is_not_blank') return !isBlankAnswer(answer);
+
+  const compareToQuestion = condition.compareQuestionIndex !== undefined && condition.compareQuestionIndex >= 0;
+  const expected = compareToQuestion ? answers[condition.compareQuestionIndex as number] : condition.value;
+  // With an unanswered question on either side only the negative operators hold
+  if (isBlankAnswer(answer) || (compareToQuestion && isBlankAnswer(expected))) {
+    return operator === 'is_not' || operator === 'does_not_contain';
+  }
+
+  const expectedText = String(expected ?? '');
+  const answerText = String(answer);
+
+  switch (operator) {
+    case 'is':
+      return answerText === expectedText;
+    case 'is_not':
+      return answerText !== expectedText;
+    case 'contains':
+      return Array.isArray(answer)
+        ? answer.map(String).includes(expectedText)
+        : answerText.toLowerCase().includes(expectedText.toLowerCase());
+    case 'does_not_contain':
+      return Array.isArray(answer)
+        ? !answer.map(String).includes(expectedText)
+        : !answerText.toLowerCase().includes(expectedText.toLowerCase());
+    case 'starts_with':
+      return answerText.toLowerCase().startsWith(expectedText.toLowerCase());
+    case 'ends_with':
+      return answerText.toLowerCase().endsWith(expectedText.toLowerCase());
+    case 'greater_than':
+    case 'greater_than_or_equal':
+    case 'less_than':
+    case 'less_than_or_equal': {
+      const actual = parseFloat(answerText);
+      const limit = parseFloat(expectedText);
+      if (isNaN(actual) || isNaN(limit)) return false;
+      if (operator === 'greater_than') return actual > limit;
+      if (operator === 'greater_than_or_equal') return actual >= limit;
+      if (operator === 'less_than') return actual < limit;
+      return actual <= limit;
+    }
+    default:
+      return false;
+  }
+}
+
+export function evaluateLogicNode(node: FormLogicNode, answers: FormAnswers): boolean {
+  if (node.type === 'condition') return evaluateLogicCondition(node, answers);
+  if (node.rules.length === 0) return true;
+  return node.combinator === 'AND'
+    ? node.rules.every(r => evaluateLogicNode(r, answers))
+    : node.rules.some(r => evaluateLogicNode(r, answers));
+}
+
+/**
+ * Show/hide rules are checked in order and the first one that matches decides.
+ * When none match, a question with show rules stays hidden and one with only hide rules is shown.
+ */
+export function isQuestionVisible(questions: LogicQuestion[], index: number, answers: FormAnswers): boolean {
+  const question = questions[index];
+  if (!question || isAlwaysShown(question)) return true;
+
+  const rules = getQuestionRules(question).filter(rule => !isNavigationAction(normalizeAction(rule.action)));
+  if (rules.length === 0) return true;
+
+  for (const rule of rules) {
+    if (evaluateLogicNode(getRuleCondition(rule), answers)) {
+      return normalizeAction(rule.action) === 'show';
+    }
+  }
+  return !rules.some(rule => normalizeAction(rule.action) === 'show');
+}
+
+/**
+ * Where the form goes after question `index`: the first matching skip/jump/submit rule, else the
+ * next question; hidden questions are passed over. Returns questions.length when the form should submit.
+ */
+export function getNextQuestionIndex(questions: LogicQuestion[], index: number, answers: FormAnswers): number {
+  let next = index + 1;
+
+  const rules = getQuestionRules(questions[index] || {}).filter(rule => isNavigationAction(normalizeAction(rule.action)));
+  for (const rule of rules) {
+    if (!evaluateLogicNode(getRuleCondition(rule), answers)) continue;
+
+    const action = normalizeAction(rule.action);
+    if (action === 'submit') return questions.length;
+    if (action === 'skip') {
+      next = index + 2;
+    } else {
+      const target = Number(rule.targetIndex);
+      // A jump to a missing question falls through to the next one
+      if (!isNaN(target) && target >= 0 && target < questions.length) next = target;
+    }
+    break;
+  }
+
+  while (next < questions.length && !isQuestionVisible(questions, next, answers)) {
+    next++;
+  }
+  return Math.min(next, questions.length);
+}
+
+export function getFirstQuestionIndex(questions: LogicQuestion[], answers: FormAnswers): number {
+  let first = 0;
+  while (first < questions.length && !isQuestionVisible(questions, first, answers)) {
+    first++;
+  }
+  return first;
+}
+
+export interface FormSimulation {
+  path: number[]; // question indexes in the order a respondent sees them
+  outcome: 'submitted' | 'cycle';
+  cycleAt?: number; // question shown a second time
+}
+
+/**
+ * Walk the form with a fixed set of answers. Only answers to questions already passed are
+ * visible to the rules, as when filling the form.
+ */
+export function simulateForm(questions: LogicQuestion[], answers: FormAnswers): FormSimulation {
+  const path: number[] = [];
+  const known: FormAnswers = {};
+  let current = getFirstQuestionIndex(questions, known);
+
+  while (current < questions.length) {
+    if (path.includes(current)) {
+      return { path, outcome: 'cycle', cycleAt: current };
+    }
+    path.push(current);
+    if (answers[current] !== undefined) known[current] = answers[current];
+    if (questions[current].questionType === 'End Screen') break;
+    current = getNextQuestionIndex(questions, current, known);
+  }
+
+  return { path, outcome: 'submitted' };
+}
+
+export interface FormLogicIssue {
+  questionIndex: number;
+  kind: 'invalid_reference' | 'unreachable' | 'cycle';
+  message: string;
+}
+
+// true / false when a group's result doesn't depend on answers, otherwise null
+function constantResult(node: FormLogicNode): boolean | null {
+  if (node.type === 'condition') return null;
+  if (node.rules.length === 0) return true;
+  const results = node.rules.map(constantResult);
+  if (node.combinator === 'AND') {
+    if (results.includes(false)) return false;
+    return results.every(r => r === true) ? true : null;
+  }
+  if (results.includes(true)) return true;
+  return results.every(r => r === false) ? false : null;
+}
+
+function collectConditions(node: FormLogicNode): FormLogicCondition[] {
+  return node.type === 'condition' ? [node] : node.rules.flatMap(collectConditions);
+}
+
+/**
+ * Static checks for the form builder:
+ * - conditions on missing questions, or show/hide rules on the question itself or a later one
+ *   (not answered yet when visibility is decided)
+ * - jumps to missing questions
+ * - questions no combination of answers can reach
+ * - loops created by jumping back to an earlier question
+ */
+export function analyzeFormLogic(questions: LogicQuestion[]): FormLogicIssue[] {
+  const issues: FormLogicIssue[] = [];
+  const count = questions.length;
+  const inRange = (i: number) => Number.isInteger(i) && i >= 0 && i < count;
+
+  questions.forEach((question, index) => {
+    getQuestionRules(question).forEach(rule => {
+      const action = normalizeAction(rule.action);
+      collectConditions(getRuleCondition(rule)).forEach(condition => {
+        const refs = [condition.questionIndex];
+        if (condition.compareQuestionIndex !== undefined && condition.compareQuestionIndex >= 0) {
+          refs.push(condition.compareQuestionIndex);
+        }
+        refs.forEach(ref => {
+          if (ref < 0) {
+            issues.push({ questionIndex: index, kind: 'invalid_reference', message: 'A condition has no question selected' });
+          } else if (!inRange(ref)) {
+            issues.push({ questionIndex: index, kind: 'invalid_reference', message: 'A condition refers to a question that no longer exists' });
+          } else if (!isNavigationAction(action) && ref >= index) {
+            issues.push({
+              questionIndex: index,
+              kind: 'invalid_reference',
+              message: `A ${action} condition refers to Q${ref + 1}, which is not answered before this question appears`,
+            });
+          } else if (isNavigationAction(action) && ref > index) {
+            issues.push({
+              questionIndex: index,
+              kind: 'invalid_reference',
+              message: `A ${action} condition refers to Q${ref + 1}, which is not answered yet at this point`,
+            });
+          }
+        });
+      });
+      if (action === 'jump' && !inRange(Number(rule.targetIndex))) {
+        issues.push({ questionIndex: index, kind: 'invalid_reference', message: 'A jump rule has no valid destination' });
+      }
+    });
+  });
+
+  // Whether some answers could leave a question visible / hidden, following isQuestionVisible
+  const visibilityOutcomes = (question: LogicQuestion) => {
+    const rules = getQuestionRules(question).filter(rule => !isNavigationAction(normalizeAction(rule.action)));
+    if (isAlwaysShown(question) || rules.length === 0) return { canShow: true, canHide: false };
+
+    for (const rule of rules) {
+      const result = constantResult(getRuleCondition(rule));
+      if (result === null) return { canShow: true, canHide: true };
+      if (result) {
+        const shown = normalizeAction(rule.action) === 'show';
+        return { canShow: shown, canHide: !shown };
+      }
+    }
+    const shownByDefault = !rules.some(rule => normalizeAction(rule.action) === 'show');
+    return { canShow: shownByDefault, canHide: !shownByDefault };
+  };
+  const outcomes = questions.map(visibilityOutcomes);
+  const canShow = outcomes.map(o => o.canShow);
+  const canSkip = outcomes.map(o => o.canHide);
+
+  // Questions actually shown when the form arrives at `index` (passing over hidden ones)
+  const arrivals = (index: number, seen = new Set<number>()): number[] => {
+    if (index >= count || seen.has(index)) return [];
+    seen.add(index);
+    const shown = canShow[index] ? [index] : [];
+    return canSkip[index] ? [...shown, ...arrivals(index + 1, seen)] : shown;
+  };
+
+  const successors = (index: number): number[] => {
+    if (questions[index].questionType === 'End Screen') return [];
+    const targets: number[] = [];
+    let fallsThrough = true;
+
+    for (const rule of getQuestionRules(questions[index])) {
+      const action = normalizeAction(rule.action);
+      if (!isNavigationAction(action)) continue;
+      const result = constantResult(getRuleCondition(rule));
+      if (result === false) continue;
+
+      if (action === 'skip') targets.push(...arrivals(index + 2));
+      if (action === 'jump' && inRange(Number(rule.targetIndex))) targets.push(...arrivals(Number(rule.targetIndex)));
+      if (action === 'jump' && !inRange(Number(rule.targetIndex))) targets.push(...arrivals(index + 1));
+      if (result === true) {
+        fallsThrough = false;
+        break;
+      }
+    }
+
+    if (fallsThrough) targets.push(...arrivals(index + 1));
+    return Array.from(new Set(targets));
+  };
+
+  const graph = questions.map((_, index) => successors(index));
+  const reachable = new Set<number>();
+  const queue = arrivals(0);
+  queue.forEach(i => reachable.add(i));
+  while (queue.length > 0) {
+    const index = queue.shift() as number;
+    graph[index].forEach(next => {
+      if (!reachable.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    });
+  }
+
+  questions.forEach((_, index) => {
+    if (!reachable.has(index)) {
+      issues.push({
+        questionIndex: index,
+        kind: 'unreachable',
+        message: canShow[index]
+          ? 'No combination of answers leads to this question'
+          : 'The rules on this question always hide it',
+      });
+    }
+  });
+
+  // Any edge back to an earlier (or the same) reachable question closes a loop
+  const reportedCycles = new Set<string>();
+  Array.from(reachable).sort((a, b) => a - b).forEach(index => {
+    graph[index].forEach(next => {
+      if (next > index) return;
+      const key = `${next}-${index}`;
+      if (reportedCycles.has(key)) return;
+      reportedCycles.add(key);
+      issues.push({
+        questionIndex: index,
+        kind: 'cycle',
+        message: `Jumping back to Q${next + 1} repeats Q${next + 1}–Q${index + 1}; with the same answers the form never ends`,
+      });
+    });
+  });
+
+  // One entry per message and question
+  return issues.filter((issue, i) =>
+    issues.findIndex(other => other.questionIndex === issue.questionIndex && other.message === issue.message) === i
+  );
+}
+
+/**
+ * Responses are keyed by question id in the fill page; the rules address questions by index
+ */
+export function answersByIndex(
+  questions: Array<{ id?: string; questionId?: string }>,
+  responses: Record<string, unknown>
+): FormAnswers {
+  const answers: FormAnswers = {};
+  questions.forEach((question, index) => {
+    const key = question.questionId || question.id;
+    if (key && responses[key] !== undefined) answers[index] = responses[key];
+  });
+  return answers;
+}
+
+export function describeLogicNode(node: FormLogicNode): string {
+  if (node.type === 'condition') {
+    const operator = normalizeOperator(node.operator) || 'is';
+    const question = node.questionIndex >= 0 ? `Q${node.questionIndex + 1}` : '…';
+    if (UNARY_OPERATORS.includes(operator)) return `${question} ${LOGIC_OPERATOR_LABELS[operator]}`;
+    const value = node.compareQuestionIndex !== undefined && node.compareQuestionIndex >= 0
+      ? `Q${node.compareQuestionIndex + 1}`
+      : `"${node.value}"`;
+    return `${question} ${LOGIC_OPERATOR_LABELS[operator]} ${value}`;
+  }
+  if (node.rules.length === 0) return 'always';
+  const parts = node.rules.map(r => (r.type === 'group' ? `(${describeLogicNode(r)})` : describeLogicNode(r)));
+  return parts.join(` ${node.combinator} `);
+}
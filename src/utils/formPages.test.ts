@@ -0,0 +1,48 @@
+import { FormLogicRule, LogicQuestion } from './formLogic';
+import { PAGE_BREAK_TYPE, buildFormPages, getNextPageIndex, getPageQuestionIndexes } from './formPages';
+
+const question = (...rules: FormLogicRule[]): LogicQuestion => ({
+  questionType: 'Short Text',
+  hasConditionalLogic: rules.length > 0,
+  conditionalRules: rules
+});
+
+const pageBreak = (): LogicQuestion => ({ questionType: PAGE_BREAK_TYPE });
+
+const whenAnswer = (questionIndex: number, value: string, action: string, targetIndex?: number): FormLogicRule => ({
+  action,
+  condition: {
+    id: `g${questionIndex}${value}`,
+    type: 'group',
+    combinator: 'AND',
+    rules: [{ id: `c${questionIndex}${value}`, type: 'condition', questionIndex, operator: 'is', value }]
+  },
+  targetIndex
+});
+
+describe('getPageQuestionIndexes', () => {
+  // Page 1: 0-3, page 2: 4-5
+  const questions = [
+    question(whenAnswer(0, 'Jump', 'jump', 3), whenAnswer(0, 'Skip', 'skip')),
+    question(),
+    question(),
+    question(),
+    pageBreak(),
+    question()
+  ];
+  const pages = buildFormPages(questions);
+
+  it('shows the rest of the page without rules', () => {
+    expect(getPageQuestionIndexes(questions, pages, 0, { 0: 'Other' })).toEqual([0, 1, 2, 3]);
+    expect(getPageQuestionIndexes(questions, pages, 2, {})).toEqual([2, 3]);
+  });
+
+  it('leaves out questions passed over by a jump or skip on the same page', () => {
+    expect(getPageQuestionIndexes(questions, pages, 0, { 0: 'Jump' })).toEqual([0, 3]);
+    expect(getPageQuestionIndexes(questions, pages, 0, { 0: 'Skip' })).toEqual([0, 2, 3]);
+  });
+
+  it('still moves on to the next page after a jump within the page', () => {
+    expect(getNextPageIndex(questions, pages, 0, { 0: 'Jump' })).toBe(4);
+  });
+});
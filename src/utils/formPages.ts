@@ -0,0 +1,109 @@
+/**
+ * Multi-page forms
+ * A "Page Break" question starts a new page; its text is the section title. Forms without page
+ * breaks keep one question per screen. Start and End screens always get a page of their own.
+ */
+
+import { FormAnswers, LogicQuestion, getNextQuestionIndex, isQuestionVisible } from './formLogic';
+
+export const PAGE_BREAK_TYPE = 'Page Break';
+
+export interface FormPage {
+  start: number; // first question index
+  end: number;   // one past the last question index
+}
+
+const isScreen = (question: LogicQuestion) =>
+  question.questionType === 'Start Screen' || question.questionType === 'End Screen';
+
+export function isPagedForm(questions: LogicQuestion[]): boolean {
+  return questions.some(q => q.questionType === PAGE_BREAK_TYPE);
+}
+
+export function buildFormPages(questions: LogicQuestion[]): FormPage[] {
+  if (!isPagedForm(questions)) {
+    return questions.map((_, i) => ({ start: i, end: i + 1 }));
+  }
+
+  const pages: FormPage[] = [];
+  let start = 0;
+  questions.forEach((question, i) => {
+    const startsPage = question.questionType === PAGE_BREAK_TYPE || isScreen(question) || (i > 0 && isScreen(questions[i - 1]));
+    if (startsPage && i > start) {
+      pages.push({ start, end: i });
+      start = i;
+    }
+  });
+  if (start < questions.length) pages.push({ start, end: questions.length });
+  return pages;
+}
+
+export function getPageAt(pages: FormPage[], questionIndex: number): number {
+  const page = pages.findIndex(p => questionIndex >= p.start && questionIndex < p.end);
+  return page === -1 ? pages.length - 1 : page;
+}
+
+/**
+ * Visible questions shown together when the form is at `currentIndex`: from there to the end of
+ * its page (a jump can land in the middle of a page). Skips and jumps forward within the page
+ * leave out the questions they pass over.
+ */
+export function getPageQuestionIndexes(
+  questions: LogicQuestion[],
+  pages: FormPage[],
+  currentIndex: number,
+  answers: FormAnswers
+): number[] {
+  const page = pages[getPageAt(pages, currentIndex)];
+  if (!page) return [];
+  const indexes: number[] = [];
+  let i = currentIndex;
+  while (i < page.end) {
+    if (!isQuestionVisible(questions, i, answers)) {
+      i++;
+      continue;
+    }
+    indexes.push(i);
+    const target = getNextQuestionIndex(questions, i, answers);
+    i = target > i && target < page.end ? target : i + 1;
+  }
+  return indexes;
+}
+
+/**
+ * Where the form goes after the page at `currentIndex`. Skip/jump/submit rules on the page's
+ * questions are followed in order; the first one leading off the page wins. Pages with nothing
+ * but a section title left visible are passed over. Returns questions.length to submit.
+ */
+export function getNextPageIndex(
+  questions: LogicQuestion[],
+  pages: FormPage[],
+  currentIndex: number,
+  answers: FormAnswers
+): number {
+  const seen = new Set<number>();
+  let from = currentIndex;
+
+  while (from < questions.length && !seen.has(from)) {
+    seen.add(from);
+    const page = pages[getPageAt(pages, from)];
+    const visible = getPageQuestionIndexes(questions, pages, from, answers);
+
+    let next = page.end;
+    while (next < questions.length && !isQuestionVisible(questions, next, answers)) next++;
+    for (const i of visible) {
+      const target = getNextQuestionIndex(questions, i, answers);
+      if (target < from || target >= page.end) {
+        next = target;
+        break;
+      }
+    }
+
+    if (next >= questions.length) return questions.length;
+    const landing = getPageQuestionIndexes(questions, pages, next, answers);
+    if (landing.some(i => questions[i].questionType !== PAGE_BREAK_TYPE)) return next;
+    from = next;
+  }
+
+  return Math.min(from, questions.length);
+}
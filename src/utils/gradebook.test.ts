@@ -0,0 +1,58 @@
+import {
+  DEFAULT_GRADEBOOK_WEIGHTS,
+  GradebookAssessment,
+  computeRowTotals,
+  getLetterGrade,
+  normalizeWeights
+} from './gradebook';
+
+const assessment = (id: string, category: GradebookAssessment['category'], maxScore = 10): GradebookAssessment => ({
+  id,
+  category,
+  title: id,
+  term: 'Term 1',
+  maxScore
+});
+
+describe('gradebook', () => {
+  test('weights categories and renormalises over the ones present', () => {
+    const assessments = [assessment('exam:1', 'exam'), assessment('assignment:1', 'assignment')];
+    const totals = computeRowTotals(
+      { 'exam:1': { score: 8 }, 'assignment:1': { score: 5 } },
+      assessments,
+      DEFAULT_GRADEBOOK_WEIGHTS
+    );
+    expect(totals.categoryPercents).toEqual({ exam: 80, assignment: 50 });
+    // 50/40 weights, peer absent: (80*50 + 50*40) / 90
+    expect(totals.weightedPercent).toBeCloseTo(66.67, 2);
+  });
+
+  test('counts missing scores as zero and caps scores at the maximum', () => {
+    const assessments = [assessment('exam:1', 'exam'), assessment('exam:2', 'exam')];
+    const totals = computeRowTotals({ 'exam:1': { score: 15 }, 'exam:2': { score: null } }, assessments, DEFAULT_GRADEBOOK_WEIGHTS);
+    expect(totals.categoryPercents.exam).toBe(50);
+  });
+
+  test('applies assessment weights and skips zero-weighted and zero-mark items', () => {
+    const assessments = [assessment('exam:1', 'exam'), assessment('exam:2', 'exam'), assessment('exam:3', 'exam', 0)];
+    const weights = normalizeWeights({ assessmentWeights: { 'exam:1': 3, 'exam:2': 0 } });
+    const totals = computeRowTotals({ 'exam:1': { score: 10 }, 'exam:2': { score: 0 } }, assessments, weights);
+    expect(totals.categoryPercents.exam).toBe(100);
+  });
+
+  test('is zero without assessments and averages when category weights are all zero', () => {
+    expect(computeRowTotals({}, [], DEFAULT_GRADEBOOK_WEIGHTS)).toEqual({ categoryPercents: {}, weightedPercent: 0 });
+
+    const weights = normalizeWeights({ categoryWeights: { exam: 0, assignment: 0, peer: 0 } });
+    const totals = computeRowTotals(
+      { 'exam:1': { score: 10 }, 'assignment:1': { score: 0 } },
+      [assessment('exam:1', 'exam'), assessment('assignment:1', 'assignment')],
+      weights
+    );
+    expect(totals.weightedPercent).toBe(50);
+  });
+
+  test('maps percentages to letter grades', () => {
+    expect([95, 80, 79.9, 0].map(p => getLetterGrade(p))).toEqual(['A+', 'A', 'B+', 'F']);
+  });
+});
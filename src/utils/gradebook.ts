@@ -0,0 +1,306 @@
+/**
+ * Unified gradebook calculations
+ * Merges exam scores, assignment grades and peer ratings into one student x assessment matrix
+ */
+
+import { AssessmentCategory, GradeBand, GradebookWeights } from '../core/types';
+import type { SubjectGradebook } from '../services/assignmentApi';
+import type { SubjectExamScores, StudentExamScore } from '../exam/services/examApi';
+import { createXlsx, XlsxCell } from './xlsx';
+import { downloadBlob } from './helpers';
+
+export const CATEGORY_LABELS: Record<AssessmentCategory, string> = {
+  exam: 'Exams',
+  assignment: 'Assignments',
+  peer: 'Peer Ratings',
+};
+
+export const ASSESSMENT_CATEGORIES: AssessmentCategory[] = ['exam', 'assignment', 'peer'];
+
+// Same bands as the exam result page
+export const DEFAULT_GRADE_SCALE: GradeBand[] = [
+  { letter: 'A+', minPercent: 90 },
+  { letter: 'A', minPercent: 80 },
+  { letter: 'B+', minPercent: 70 },
+  { letter: 'B', minPercent: 60 },
+  { letter: 'C', minPercent: 50 },
+  { letter: 'D', minPercent: 40 },
+  { letter: 'F', minPercent: 0 },
+];
+
+export const DEFAULT_GRADEBOOK_WEIGHTS: GradebookWeights = {
+  categoryWeights: { exam: 50, assignment: 40, peer: 10 },
+  assessmentWeights: {},
+  gradeScale: DEFAULT_GRADE_SCALE,
+};
+
+export interface GradebookAssessment {
+  id: string; // "exam:<examId>", "assignment:<assignmentId>" or "peer:<assignmentId>"
+  category: AssessmentCategory;
+  title: string;
+  term: string;
+  maxScore: number;
+}
+
+export interface GradebookCell {
+  score: number | null; // null = not attempted / not graded yet
+  pending?: boolean; // Exam attempt still awaiting manual grading
+}
+
+export interface GradebookRow {
+  studentEmail: string;
+  studentName: string;
+  rollNo: string;
+  cells: Record<string, GradebookCell>;
+  categoryPercents: Partial<Record<AssessmentCategory, number>>;
+  weightedPercent: number;
+  letterGrade: string;
+}
+
+export interface UnifiedGradebook {
+  batch: string;
+  term: string;
+  subject: string;
+  assessments: GradebookAssessment[];
+  rows: GradebookRow[];
+  weights: GradebookWeights;
+}
+
+/**
+ * Fill in any missing parts of a saved weights config with defaults
+ */
+export function normalizeWeights(weights?: Partial<GradebookWeights> | null): GradebookWeights {
+  return {
+    categoryWeights: { ...DEFAULT_GRADEBOOK_WEIGHTS.categoryWeights, ...(weights?.categoryWeights || {}) },
+    assessmentWeights: { ...(weights?.assessmentWeights || {}) },
+    gradeScale: weights?.gradeScale && weights.gradeScale.length > 0
+      ? [...weights.gradeScale].sort((a, b) => b.minPercent - a.minPercent)
+      : DEFAULT_GRADE_SCALE,
+  };
+}
+
+export function getLetterGrade(percent: number, scale: GradeBand[] = DEFAULT_GRADE_SCALE): string {
+  const sorted = [...scale].sort((a, b) => b.minPercent - a.minPercent);
+  const band = sorted.find(b => percent >= b.minPercent);
+  return band ? band.letter : sorted[sorted.length - 1]?.letter || '';
+}
+
+/**
+ * Weighted percentage for one student.
+ * Within a category each assessment's percentage is weighted by its assessment weight (default 1).
+ * Category weights are renormalised over the categories that actually have assessments,
+ * so a subject without peer ratings is not penalised. Missing scores count as zero.
+ */
+export function computeRowTotals(
+  cells: Record<string, GradebookCell>,
+  assessments: GradebookAssessment[],
+  weights: GradebookWeights
+): { categoryPercents: Partial<Record<AssessmentCategory, number>>; weightedPercent: number } {
+  const categoryPercents: Partial<Record<AssessmentCategory, number>> = {};
+
+  ASSESSMENT_CATEGORIES.forEach(category => {
+    const items = assessments.filter(a => a.category === category && a.maxScore > 0);
+    if (items.length === 0) return;
+
+    let weighted = 0;
+    let weightSum = 0;
+    items.forEach(item => {
+      const weight = weights.assessmentWeights[item.id] ?? 1;
+      if (weight <= 0) return;
+      const score = cells[item.id]?.score ?? 0;
+      weighted += (Math.min(score, item.maxScore) / item.maxScore) * 100 * weight;
+      weightSum += weight;
+    });
+
+    if (weightSum > 0) {
+      categoryPercents[category] = weighted / weightSum;
+    }
+  });
+
+  const present = (Object.keys(categoryPercents) as AssessmentCategory[]);
+  const totalCategoryWeight = present.reduce((sum, c) => sum + Math.max(0, weights.categoryWeights[c] || 0), 0);
+
+  const weightedPercent = present.length === 0
+    ? 0
+    : totalCategoryWeight > 0
+      ? present.reduce((sum, c) => sum + (categoryPercents[c] || 0) * Math.max(0, weights.categoryWeights[c] || 0), 0) / totalCategoryWeight
+      : present.reduce((sum, c) => sum + (categoryPercents[c] || 0), 0) / present.length;
+
+  return { categoryPercents, weightedPercent };
+}
+
+/**
+ * Merge the assignment gradebook and exam scores of one batch/term/subject
+ */
+export function buildUnifiedGradebook(
+  batch: string,
+  term: string,
+  subject: string,
+  assignmentBook: SubjectGradebook | null,
+  examScores: SubjectExamScores | null,
+  weights: GradebookWeights
+): UnifiedGradebook {
+  const assessments: GradebookAssessment[] = [
+    ...(examScores?.exams || []).map(exam => ({
+      id: `exam:${exam.examId}`,
+      category: 'exam' as AssessmentCategory,
+      title: exam.examTitle,
+      term: exam.term,
+      maxScore: exam.totalMarks,
+    })),
+    ...(assignmentBook?.assignments || []).map(assignment => ({
+      id: `assignment:${assignment.assignmentId}`,
+      category: 'assignment' as AssessmentCategory,
+      title: assignment.assignmentHeader,
+      term: assignment.term,
+      maxScore: assignment.maxScore,
+    })),
+    ...(assignmentBook?.assignments || [])
+      .filter(assignment => assignment.peerRatingEnabled)
+      .map(assignment => ({
+        id: `peer:${assignment.assignmentId}`,
+        category: 'peer' as AssessmentCategory,
+        title: `${assignment.assignmentHeader} (Peer)`,
+        term: assignment.term,
+        maxScore: 5,
+      })),
+  ];
+
+  // Roster comes from the assignment side (Group Members); exam-only students are appended
+  const rowsByEmail = new Map<string, Omit<GradebookRow, 'categoryPercents' | 'weightedPercent' | 'letterGrade'>>();
+
+  (assignmentBook?.students || []).forEach(student => {
+    const cells: Record<string, GradebookCell> = {};
+    (assignmentBook?.assignments || []).forEach(assignment => {
+      const score = student.scores[assignment.assignmentId];
+      cells[`assignment:${assignment.assignmentId}`] = { score: score ?? null };
+      if (assignment.peerRatingEnabled) {
+        const rating = student.peerRatings[assignment.assignmentId];
+        cells[`peer:${assignment.assignmentId}`] = { score: rating ?? null };
+      }
+    });
+    rowsByEmail.set(student.studentEmail.toLowerCase(), {
+      studentEmail: student.studentEmail,
+      studentName: student.studentName,
+      rollNo: student.rollNo,
+      cells,
+    });
+  });
+
+  (examScores?.exams || []).forEach(exam => {
+    const attempts = examScores?.scores[exam.examId] || {};
+    Object.entries(attempts).forEach(([email, attempt]) => {
+      let row = rowsByEmail.get(email.toLowerCase());
+      if (!row) {
+        row = { studentEmail: email, studentName: attempt.studentName, rollNo: '', cells: {} };
+        rowsByEmail.set(email.toLowerCase(), row);
+      }
+      row.cells[`exam:${exam.examId}`] = {
+        score: attempt.score,
+        pending: attempt.gradingStatus !== 'GRADED',
+      };
+    });
+  });
+
+  const rows: GradebookRow[] = Array.from(rowsByEmail.values())
+    .map(row => {
+      const totals = computeRowTotals(row.cells, assessments, weights);
+      return {
+        ...row,
+        ...totals,
+        letterGrade: getLetterGrade(totals.weightedPercent, weights.gradeScale),
+      };
+    })
+    .sort((a, b) => (a.rollNo || a.studentName).localeCompare(b.rollNo || b.studentName, undefined, { numeric: true }));
+
+  return { batch, term, subject, assessments, rows, weights };
+}
+
+/**
+ * Shape the current student's exam results like SubjectExamScores for one subject.
+ * Withheld results are left out entirely since the score is unknown to the student.
+ */
+export function toSubjectExamScores(
+  studentEmail: string,
+  studentName: string,
+  examScores: StudentExamScore[],
+  batch: string,
+  subject: string
+): SubjectExamScores {
+  const relevant = examScores.filter(e => e.batch === batch && e.subject === subject && !e.withheld && e.score !== null);
+  const scores: SubjectExamScores['scores'] = {};
+  relevant.forEach(exam => {
+    scores[exam.examId] = {
+      [studentEmail.toLowerCase()]: {
+        score: exam.score as number,
+        totalMarks: exam.totalMarks,
+        studentName,
+        gradingStatus: exam.gradingStatus,
+      },
+    };
+  });
+
+  return {
+    exams: relevant.map(({ examId, examTitle, examType, term, totalMarks }) => ({ examId, examTitle, examType, term, totalMarks })),
+    scores,
+  };
+}
+
+// ==================== EXPORT ====================
+
+function buildExportRows(gradebook: UnifiedGradebook): XlsxCell[][] {
+  const categories = ASSESSMENT_CATEGORIES.filter(c => gradebook.assessments.some(a => a.category === c));
+  const header: XlsxCell[] = [
+    'Roll No',
+    'Student Email',
+    'Student Name',
+    ...gradebook.assessments.map(a => `${a.title} (/${a.maxScore})`),
+    ...categories.map(c => `${CATEGORY_LABELS[c]} %`),
+    'Weighted %',
+    'Grade',
+  ];
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return [
+    header,
+    ...gradebook.rows.map(row => [
+      row.rollNo,
+      row.studentEmail,
+      row.studentName,
+      ...gradebook.assessments.map(a => {
+        const score = row.cells[a.id]?.score;
+        return score === null || score === undefined ? '' : round(score);
+      }),
+      ...categories.map(c => round(row.categoryPercents[c] ?? 0)),
+      round(row.weightedPercent),
+      row.letterGrade,
+    ]),
+  ];
+}
+
+const exportFileName = (gradebook: UnifiedGradebook) =>
+  ['gradebook', gradebook.batch, gradebook.term, gradebook.subject].filter(Boolean).join('_');
+
+export function exportGradebookCsv(gradebook: UnifiedGradebook) {
+  const csvCell = (value: XlsxCell) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const csvContent = buildExportRows(gradebook).map(row => row.map(csvCell).join(',')).join('\n');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `${exportFileName(gradebook)}.csv`);
+}
+
+export function exportGradebookXlsx(gradebook: UnifiedGradebook) {
+  const weightRows: XlsxCell[][] = [
+    ['Item', 'Weight'],
+    ...ASSESSMENT_CATEGORIES.map(c => [`${CATEGORY_LABELS[c]} (category)`, gradebook.weights.categoryWeights[c] ?? 0]),
+    ...gradebook.assessments.map(a => [a.title, gradebook.weights.assessmentWeights[a.id] ?? 1]),
+    [],
+    ['Grade', 'Min %'],
+    ...gradebook.weights.gradeScale.map(band => [band.letter, band.minPercent]),
+  ];
+
+  const blob = createXlsx([
+    { name: gradebook.subject || 'Gradebook', rows: buildExportRows(gradebook) },
+    { name: 'Weights', rows: weightRows },
+  ]);
+  downloadBlob(blob, `${exportFileName(gradebook)}.xlsx`);
+}
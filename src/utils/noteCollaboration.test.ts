@@ -0,0 +1,70 @@
+import {
+  AUTHOR_ATTR,
+  attributeChangedLines,
+  ensureLineIds,
+  mergeNoteContent,
+  sanitizeNoteHtml
+} from './noteCollaboration';
+
+const line = (id: string, text: string) => `<div data-line="${id}">${text}</div>`;
+const texts = (html: string) => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return Array.from(container.children).map(el => el.textContent);
+};
+
+describe('note collaboration', () => {
+  test('gives lines ids and re-ids lines split off another', () => {
+    const html = ensureLineIds(`intro<div data-line="a" ${AUTHOR_ATTR}="x@y.com">one</div><div data-line="a" ${AUTHOR_ATTR}="x@y.com">two</div>`);
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    const lines = Array.from(container.children);
+    expect(lines.map(l => l.textContent)).toEqual(['intro', 'one', 'two']);
+    expect(new Set(lines.map(l => l.getAttribute('data-line'))).size).toBe(3);
+    expect(lines[1].getAttribute(AUTHOR_ATTR)).toBe('x@y.com');
+    expect(lines[2].getAttribute(AUTHOR_ATTR)).toBeNull();
+  });
+
+  test('attributes only new and changed lines', () => {
+    const base = line('a', 'one') + line('b', 'two');
+    const next = attributeChangedLines(base, line('a', 'one') + line('b', 'two!') + '<div>three</div>', { email: 'me@x.com', name: 'Me' });
+    const container = document.createElement('div');
+    container.innerHTML = next;
+    expect(Array.from(container.children).map(l => l.getAttribute('data-author-label'))).toEqual([null, 'Me', 'Me']);
+  });
+
+  test('merges edits to different lines', () => {
+    const base = line('a', 'one') + line('b', 'two') + line('c', 'three');
+    const mine = line('a', 'ONE') + line('b', 'two') + line('n', 'new') + line('c', 'three');
+    const theirs = line('a', 'one') + line('c', 'THREE');
+    const result = mergeNoteContent(base, mine, theirs);
+    expect(texts(result.content)).toEqual(['ONE', 'new', 'THREE']);
+    expect(result.conflicts).toBe(0);
+  });
+
+  test('keeps both versions of a line edited on both sides', () => {
+    const base = line('a', 'one');
+    const result = mergeNoteContent(base, line('a', 'mine'), line('a', 'theirs'));
+    expect(texts(result.content)).toEqual(['theirs', 'mine']);
+    expect(result.conflicts).toBe(1);
+  });
+
+  test('keeps lines one side deleted and the other edited', () => {
+    const base = line('a', 'one') + line('b', 'two');
+    expect(texts(mergeNoteContent(base, line('a', 'one'), line('a', 'one') + line('b', 'TWO')).content)).toEqual(['one', 'TWO']);
+    expect(texts(mergeNoteContent(base, line('a', 'one') + line('b', 'TWO'), line('a', 'one')).content)).toEqual(['one', 'TWO']);
+  });
+
+  test('strips scripts from note HTML but keeps line attributes', () => {
+    const html = `<div data-line="a" ${AUTHOR_ATTR}="x@y.com" data-author-label="X"><b>one</b><img src="x" onerror="alert(1)"></div><script>alert(2)</script>`;
+    const container = document.createElement('div');
+    container.innerHTML = sanitizeNoteHtml(html);
+    const [first] = Array.from(container.children);
+    expect(container.children).toHaveLength(1);
+    expect(first.getAttribute('data-line')).toBe('a');
+    expect(first.getAttribute(AUTHOR_ATTR)).toBe('x@y.com');
+    expect(first.getAttribute('data-author-label')).toBe('X');
+    expect(first.querySelector('b')?.textContent).toBe('one');
+    expect(first.querySelector('img')?.hasAttribute('onerror')).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Co-authored notes
+ * Every top-level line of a shared note carries a stable id (data-line) and the classmate who last
+ * wrote it (data-author plus a display label). Concurrent edits are merged line by line against
+ * the version both editors started from, so two people typing in different lines never clash.
+ */
+
+import { NoteRole } from '../types';
+import { sanitizeHtml } from '../core/utils/sanitize';
+
+export const LINE_ID_ATTR = 'data-line';
+export const AUTHOR_ATTR = 'data-author';
+export const AUTHOR_LABEL_ATTR = 'data-author-label';
+
+export const NOTE_ROLE_LABELS: Record<NoteRole, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit'
+};
+
+/** Note HTML as classmates wrote it is untrusted; this keeps formatting and the line attributes */
+export const sanitizeNoteHtml = (html: string) =>
+  sanitizeHtml(html || '', { extraAttrs: [LINE_ID_ATTR, AUTHOR_ATTR, AUTHOR_LABEL_ATTR] });
+
+export const canCommentOn = (role: NoteRole | 'owner') => role !== 'view';
+export const canEditNote = (role: NoteRole | 'owner') => role === 'owner' || role === 'edit';
+
+export interface NoteAuthor {
+  email: string;
+  name: string;
+}
+
+const newLineId = () => Math.random().toString(36).slice(2, 10);
+
+const BLOCK_TAGS = ['DIV', 'P', 'UL', 'OL', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'TABLE', 'HR'];
+
+function parseLines(html: string): HTMLElement[] {
+  const container = document.createElement('div');
+  container.innerHTML = html || '';
+
+  // Loose text and inline markup at the top level become lines of their own
+  const lines: HTMLElement[] = [];
+  let loose: HTMLDivElement | null = null;
+  Array.from(container.childNodes).forEach(node => {
+    if (node instanceof HTMLElement && BLOCK_TAGS.includes(node.tagName)) {
+      lines.push(node);
+      loose = null;
+    } else if (node instanceof HTMLElement && node.tagName === 'BR') {
+      loose = null;
+    } else if (loose || node instanceof HTMLElement || node.textContent?.trim()) {
+      if (!loose) {
+        loose = document.createElement('div');
+        lines.push(loose);
+      }
+      loose.appendChild(node);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Gives every line an id, in place. Lines split with Enter copy the id (and author) of the line
+ * they came from, so repeated ids after the first get a fresh id and lose the copied author.
+ */
+export function assignLineIds(lines: Element[]): void {
+  const seen = new Set<string>();
+  lines.forEach(line => {
+    const id = line.getAttribute(LINE_ID_ATTR);
+    if (!id || seen.has(id)) {
+      line.setAttribute(LINE_ID_ATTR, newLineId());
+      if (id) {
+        line.removeAttribute(AUTHOR_ATTR);
+        line.removeAttribute(AUTHOR_LABEL_ATTR);
+      }
+    }
+    seen.add(line.getAttribute(LINE_ID_ATTR) as string);
+  });
+}
+
+export function ensureLineIds(html: string): string {
+  const lines = parseLines(html);
+  assignLineIds(lines);
+  return lines.map(line => line.outerHTML).join('');
+}
+
+interface Line {
+  id: string | null;
+  html: string; // Whole line
+  content: string; // Inner HTML, for telling whether the text changed
+}
+
+const toLines = (html: string): Line[] =>
+  parseLines(html).map(line => ({ id: line.getAttribute(LINE_ID_ATTR), html: line.outerHTML, content: line.innerHTML }));
+
+const byId = (lines: Line[]) => {
+  const map = new Map<string, Line>();
+  lines.forEach(line => {
+    if (line.id) map.set(line.id, line);
+  });
+  return map;
+};
+
+/** Marks lines that are new or changed since `base` as written by `author` */
+export function attributeChangedLines(base: string, next: string, author: NoteAuthor): string {
+  const baseLines = byId(toLines(base));
+  return parseLines(ensureLineIds(next)).map(line => {
+    const before = baseLines.get(line.getAttribute(LINE_ID_ATTR) || '');
+    if (!before || before.content !== line.innerHTML) {
+      line.setAttribute(AUTHOR_ATTR, author.email);
+      line.setAttribute(AUTHOR_LABEL_ATTR, author.name || author.email.split('@')[0]);
+    }
+    return line.outerHTML;
+  }).join('');
+}
+
+export interface MergeResult {
+  content: string;
+  // Lines both sides changed differently; both versions are kept, theirs first
+  conflicts: number;
+}
+
+/**
+ * Three-way merge of two edits of `base`. Starts from `theirs` (the saved note) and replays what
+ * `mine` changed: edited lines replace theirs unless they edited the same line too, deleted
+ * lines go unless they edited them, and added lines are placed after the line they follow in mine.
+ */
+export function mergeNoteContent(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = byId(toLines(base));
+  const mineLines = toLines(mine);
+  const mineById = byId(mineLines);
+  let conflicts = 0;
+
+  const result: Line[] = [];
+  toLines(theirs).forEach(line => {
+    const original = line.id ? baseLines.get(line.id) : undefined;
+    const mineLine = line.id ? mineById.get(line.id) : undefined;
+    if (!original || !line.id) {
+      // Added on their side
+      result.push(mineLine && mineLine.content !== line.content ? mineLine : line);
+      return;
+    }
+    const theyChanged = original.content !== line.content;
+    if (!mineLine) {
+      // Deleted on my side; keep it only if they edited it meanwhile
+      if (theyChanged) result.push(line);
+      return;
+    }
+    const iChanged = original.content !== mineLine.content;
+    if (!iChanged) {
+      result.push(line);
+    } else if (!theyChanged || line.content === mineLine.content) {
+      result.push(mineLine);
+    } else {
+      conflicts++;
+      result.push(line, { ...mineLine, id: null, html: withLineId(mineLine.html, newLineId()) });
+    }
+  });
+
+  // Lines added on my side, and lines I edited that they deleted, go after the line they follow in mine
+  const placed = new Set(result.map(line => line.id).filter(Boolean));
+  mineLines.forEach((line, index) => {
+    if (!line.id || placed.has(line.id)) return;
+    if (baseLines.get(line.id)?.content === line.content) return;
+    let at = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const previous = result.findIndex(r => r.id === mineLines[i].id);
+      if (previous !== -1) {
+        at = previous + 1;
+        break;
+      }
+    }
+    result.splice(at, 0, line);
+    placed.add(line.id);
+  });
+
+  return { content: result.map(line => line.html).join(''), conflicts };
+}
+
+function withLineId(html: string, id: string): string {
+  const [line] = parseLines(html);
+  if (!line) return html;
+  line.setAttribute(LINE_ID_ATTR, id);
+  return line.outerHTML;
+}
+
+/** CSS that names the author after each attributed line; `scope` is the note content selector */
+export function authorLabelStyles(scope: string): string {
+  return `
+    ${scope} [${AUTHOR_LABEL_ATTR}]::after {
+      content: attr(${AUTHOR_LABEL_ATTR});
+      margin-left: 0.5em;
+      padding: 0 0.35em;
+      border-radius: 0.25em;
+      font-size: 0.7em;
+      color: #a855f7;
+      background: rgba(168, 85, 247, 0.1);
+      user-select: none;
+    }
+  `;
+}
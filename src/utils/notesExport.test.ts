@@ -0,0 +1,96 @@
+import { Note } from '../types';
+import {
+  buildAnkiCsv,
+  buildMarkdownFiles,
+  extractFlashcards,
+  groupNotesForExport,
+  noteToMarkdown,
+  parseNoteHtml,
+  renderNotesPdf
+} from './notesExport';
+
+const note = (overrides: Partial<Note>): Note => ({
+  noteId: 'n',
+  noteContent: '',
+  isPinned: 'No',
+  lastModified: '2026-01-10T10:00:00Z',
+  term: 'Term 1',
+  domain: 'Finance',
+  subject: 'Corporate Finance',
+  sessionId: 's1',
+  sessionName: 'Valuation',
+  date: '2026-01-10',
+  ...overrides
+});
+
+describe('notes export', () => {
+  test('parses lines, lists and to-dos', () => {
+    const blocks = parseNoteHtml(
+      '<div data-t="75" data-t-label="1:15">Intro <b>bold</b></div><div><br></div>' +
+      '<ul><li>One<ol><li>Nested</li></ol></li></ul><div><input type="checkbox" checked>Done</div>'
+    );
+    expect(blocks.map(b => [b.kind, b.text, b.depth])).toEqual([
+      ['paragraph', 'Intro bold', 0],
+      ['paragraph', '', 0],
+      ['bullet', 'One', 0],
+      ['numbered', 'Nested', 1],
+      ['todo', 'Done', 0]
+    ]);
+    expect(blocks[0].offset).toBe(75);
+    expect(blocks[4].checked).toBe(true);
+  });
+
+  test('converts note html to markdown', () => {
+    const markdown = noteToMarkdown(note({
+      noteContent: '<div>See <a href="https://x.org">docs</a> and <i>this</i></div><ul><li>A</li><li>B</li></ul>'
+    }));
+    expect(markdown).toBe('See [docs](https://x.org) and _this_\n\n- A\n- B');
+  });
+
+  test('groups by subject and orders sessions by date with quick notes last', () => {
+    const groups = groupNotesForExport([
+      note({ noteId: 'q', sessionId: 'quick-note-1' }),
+      note({ noteId: 'b', sessionId: 's2', sessionName: 'Bonds', date: '2026-01-12' }),
+      note({ noteId: 'a', sessionId: 's1', sessionName: 'Valuation', date: '2026-01-05' }),
+      note({ noteId: 'm', subject: 'Accounting', sessionId: 's3' })
+    ]);
+    expect(groups.map(g => g.subject)).toEqual(['Accounting', 'Corporate Finance']);
+    expect(groups[1].sessions.map(s => s.title)).toEqual(['Valuation', 'Bonds', 'Quick Notes']);
+  });
+
+  test('writes one markdown file per subject with session headings', () => {
+    const [file] = buildMarkdownFiles([note({ noteTitle: 'NPV', noteContent: '<div>Cash flows</div>', noteTags: 'Exam' })]);
+    expect(file.name).toBe('Term_1/Finance/Corporate_Finance.md');
+    expect(file.data).toContain('## Valuation (10/01/2026)\n\n### NPV\n\n_Exam_\n\nCash flows');
+  });
+
+  test('renders a pdf', () => {
+    const notes = [
+      note({ noteContent: '<div>One</div>' }),
+      note({ subject: 'Accounting', noteContent: '<ul><li>Two</li></ul>' })
+    ];
+    expect(renderNotesPdf(notes, 'Term 1')).toEqual(expect.objectContaining({ type: 'application/pdf' }));
+  });
+
+  test('extracts Q:/A: flashcards', () => {
+    const cards = extractFlashcards(note({
+      noteTags: 'Quiz',
+      noteContent: '<div>Q: What is NPV?</div><div>A: Net present value</div><ul><li>Sum of discounted flows</li></ul>' +
+        '<div><br></div><div>Not part of a card</div><div>Q: IRR? A: Rate where NPV is 0</div><div>Q: No answer</div>'
+    }));
+    expect(cards).toEqual([
+      { front: 'What is NPV?', back: 'Net present value\n• Sum of discounted flows', tags: ['Term_1::Finance::Corporate_Finance', 'Quiz'] },
+      { front: 'IRR?', back: 'Rate where NPV is 0', tags: ['Term_1::Finance::Corporate_Finance', 'Quiz'] }
+    ]);
+  });
+
+  test('builds an anki csv with html fields', () => {
+    const csv = buildAnkiCsv([{ front: 'a < b "c"', back: 'one\ntwo', tags: ['x'] }]);
+    expect(csv.split('\n')).toEqual([
+      '#separator:Comma',
+      '#html:true',
+      '#tags column:3',
+      '"a &lt; b ""c""","one<br>two","x"'
+    ]);
+  });
+});
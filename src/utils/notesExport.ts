@@ -0,0 +1,542 @@
+/**
+ * Notes export
+ * A student's notes, grouped term → domain → subject → session, as a Markdown bundle (one file per
+ * subject), a printable PDF and an Anki CSV built from Q:/A: lines.
+ */
+
+import { Note } from '../types';
+import { formatDate, parseDate } from './dateUtils';
+import { downloadBlob } from './helpers';
+import { getNoteTags, isNotePinned } from './notesSearch';
+import { PdfColor, PdfDocument, PdfFont, wrapText } from './pdf';
+import { formatPlaybackTime, getLineOffset } from './playbackTime';
+import { ZipEntry, createZip } from './zip';
+
+export type NoteBlockKind = 'heading' | 'paragraph' | 'bullet' | 'numbered' | 'todo' | 'image';
+
+/** One line of a note, parsed from its HTML */
+export interface NoteBlock {
+  kind: NoteBlockKind;
+  text: string; // Plain text; the image URL for images
+  markdown: string; // Same text with inline formatting
+  depth: number; // List nesting, 0 at the top
+  level?: number; // Heading level
+  number?: number; // Position in a numbered list
+  checked?: boolean; // To-do state
+  offset?: number | null; // Recording position in seconds
+}
+
+export interface ExportSession {
+  title: string;
+  date?: string;
+  notes: Note[];
+}
+
+export interface ExportSubject {
+  term: string;
+  domain: string;
+  subject: string;
+  sessions: ExportSession[];
+}
+
+export interface Flashcard {
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+const UNSORTED = 'Unsorted';
+const QUICK_NOTES = 'Quick Notes';
+
+const BLOCK_TAGS = new Set(['DIV', 'P', 'LI', 'UL', 'OL', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'TABLE', 'TBODY', 'TR']);
+
+interface InlineBuffer {
+  text: string;
+  markdown: string;
+  checked?: boolean;
+}
+
+const emptyBuffer = (): InlineBuffer => ({ text: '', markdown: '' });
+
+const isStruck = (el: Element | null) => /line-through/.test(el?.getAttribute('style') || '');
+
+// Wraps the text in a markdown marker, keeping surrounding spaces outside it
+const wrapMarkdown = (markdown: string, marker: string) =>
+  markdown.trim() ? markdown.replace(/^(\s*)([\s\S]*?)(\s*)$/, `$1${marker}$2${marker}$3`) : markdown;
+
+function appendInline(node: Node, into: InlineBuffer): void {
+  if (node.nodeType === Node.TEXT_NODE) {
+    into.text += node.textContent || '';
+    into.markdown += node.textContent || '';
+    return;
+  }
+  if (!(node instanceof Element)) return;
+
+  if (node.tagName === 'INPUT') {
+    if ((node as HTMLInputElement).type === 'checkbox') {
+      // The checked property is not serialized; the notes page strikes through done items instead
+      into.checked = node.hasAttribute('checked') || isStruck(node.parentElement);
+    }
+    return;
+  }
+
+  const inner = emptyBuffer();
+  node.childNodes.forEach(child => appendInline(child, inner));
+  if (inner.checked !== undefined) into.checked = inner.checked;
+  into.text += inner.text;
+
+  switch (node.tagName) {
+    case 'B':
+    case 'STRONG':
+      into.markdown += wrapMarkdown(inner.markdown, '**');
+      break;
+    case 'I':
+    case 'EM':
+      into.markdown += wrapMarkdown(inner.markdown, '_');
+      break;
+    case 'S':
+    case 'DEL':
+    case 'STRIKE':
+      into.markdown += wrapMarkdown(inner.markdown, '~~');
+      break;
+    case 'CODE':
+      into.markdown += wrapMarkdown(inner.markdown, '`');
+      break;
+    case 'A': {
+      const href = node.getAttribute('href');
+      into.markdown += href && inner.text.trim() ? `[${inner.text.trim()}](${href})` : inner.markdown;
+      break;
+    }
+    default:
+      into.markdown += inner.markdown;
+  }
+}
+
+interface BlockContext {
+  kind: NoteBlockKind;
+  depth: number;
+  level?: number;
+  number?: number;
+  offset: number | null;
+}
+
+/**
+ * Note HTML as a flat list of lines. Nested lists keep their depth, to-do checkboxes become
+ * to-do lines and each line keeps the recording offset stamped on it (or on its enclosing line).
+ * Empty lines are kept as empty paragraphs since they separate flashcards.
+ */
+export function parseNoteHtml(html: string): NoteBlock[] {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+  const blocks: NoteBlock[] = [];
+  const isList = (kind: NoteBlockKind) => kind === 'bullet' || kind === 'numbered' || kind === 'todo';
+
+  const walk = (container: Element, context: BlockContext) => {
+    // Done items of the notes page's to-do lists are struck through list items
+    const struck = container.tagName === 'LI' && isStruck(container);
+    let buffer = emptyBuffer();
+    const flush = () => {
+      const text = buffer.text.replace(/\s+/g, ' ').trim();
+      if (text || buffer.checked !== undefined) {
+        const markdown = buffer.markdown.replace(/\s+/g, ' ').trim();
+        blocks.push({
+          kind: buffer.checked !== undefined ? 'todo' : context.kind,
+          text,
+          markdown: struck && buffer.checked === undefined ? wrapMarkdown(markdown, '~~') : markdown,
+          depth: context.depth,
+          level: context.level,
+          number: context.number,
+          checked: buffer.checked,
+          offset: context.offset
+        });
+      }
+      buffer = emptyBuffer();
+    };
+
+    container.childNodes.forEach(node => {
+      if (!(node instanceof Element) || !(BLOCK_TAGS.has(node.tagName) || node.tagName === 'BR' || node.tagName === 'IMG')) {
+        appendInline(node, buffer);
+        return;
+      }
+      flush();
+
+      if (node.tagName === 'BR') return;
+      if (node.tagName === 'IMG') {
+        const src = node.getAttribute('src') || '';
+        if (src) blocks.push({ kind: 'image', text: src, markdown: `![image](${src})`, depth: context.depth, offset: context.offset });
+        return;
+      }
+
+      const offset = getLineOffset(node) ?? context.offset;
+      if (node.tagName === 'UL' || node.tagName === 'OL') {
+        const depth = isList(context.kind) ? context.depth + 1 : 0;
+        Array.from(node.children)
+          .filter(child => child.tagName === 'LI')
+          .forEach((li, i) => walk(li, {
+            kind: node.tagName === 'OL' ? 'numbered' : 'bullet',
+            depth,
+            number: i + 1,
+            offset: getLineOffset(li) ?? offset
+          }));
+        return;
+      }
+
+      const heading = node.tagName.match(/^H([1-6])$/);
+      const before = blocks.length;
+      walk(node, heading ? { ...context, kind: 'heading', level: Number(heading[1]), offset } : { ...context, offset });
+      if (blocks.length === before && (node.tagName === 'DIV' || node.tagName === 'P') && context.kind === 'paragraph') {
+        blocks.push({ kind: 'paragraph', text: '', markdown: '', depth: 0, offset });
+      }
+    });
+    flush();
+  };
+
+  walk(doc.body, { kind: 'paragraph', depth: 0, offset: null });
+  return blocks;
+}
+
+const byText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+const timeOf = (value?: string) => parseDate(value)?.getTime() ?? 0;
+const isQuickNote = (note: Note) => !!note.sessionId?.startsWith('quick-note-');
+
+/**
+ * Notes grouped the way the notes page browses them. Subjects are sorted by term, domain and
+ * name, sessions by date with quick notes last, and notes oldest first so they read in order.
+ */
+export function groupNotesForExport(notes: Note[]): ExportSubject[] {
+  const subjects = new Map<string, ExportSubject>();
+  const sessions = new Map<string, ExportSession>();
+
+  notes.forEach(note => {
+    const term = note.term || UNSORTED;
+    const domain = note.domain || UNSORTED;
+    const subject = note.subject || UNSORTED;
+    const subjectKey = [term, domain, subject].join('\u0000');
+    let group = subjects.get(subjectKey);
+    if (!group) {
+      group = { term, domain, subject, sessions: [] };
+      subjects.set(subjectKey, group);
+    }
+
+    const sessionKey = `${subjectKey}\u0000${isQuickNote(note) ? QUICK_NOTES : note.sessionId || note.sessionName || ''}`;
+    let session = sessions.get(sessionKey);
+    if (!session) {
+      session = isQuickNote(note)
+        ? { title: QUICK_NOTES, notes: [] }
+        : { title: note.sessionName || note.sessionTopic || 'Session', date: note.date || note.sessionDate, notes: [] };
+      sessions.set(sessionKey, session);
+      group.sessions.push(session);
+    }
+    session.notes.push(note);
+  });
+
+  const groups = Array.from(subjects.values());
+  groups.forEach(group => {
+    group.sessions.sort((a, b) => {
+      if ((a.title === QUICK_NOTES) !== (b.title === QUICK_NOTES)) return a.title === QUICK_NOTES ? 1 : -1;
+      return timeOf(a.date) - timeOf(b.date) || byText(a.title, b.title);
+    });
+    group.sessions.forEach(session => {
+      session.notes.sort((a, b) => timeOf(a.timestamp || a.lastModified) - timeOf(b.timestamp || b.lastModified));
+    });
+  });
+  return groups.sort((a, b) => byText(a.term, b.term) || byText(a.domain, b.domain) || byText(a.subject, b.subject));
+}
+
+const sessionHeading = (session: ExportSession) =>
+  session.date ? `${session.title} (${formatDate(session.date)})` : session.title;
+
+// Extra image URLs stored next to the content; inline base64 images are left out of exports
+const getNoteImages = (note: Note) =>
+  (note.images || '').split(',').map(url => url.trim()).filter(url => /^https?:\/\//i.test(url));
+
+// ==================== MARKDOWN ====================
+
+function blockToMarkdown(block: NoteBlock): string {
+  const indent = '  '.repeat(block.depth);
+  const time = block.offset !== null && block.offset !== undefined ? `\`${formatPlaybackTime(block.offset)}\` ` : '';
+  switch (block.kind) {
+    case 'heading':
+      // Subject, session and note title take the first three levels
+      return `${'#'.repeat(Math.min(6, (block.level || 1) + 3))} ${block.markdown}`;
+    case 'bullet':
+      return `${indent}- ${time}${block.markdown}`;
+    case 'numbered':
+      return `${indent}${block.number || 1}. ${time}${block.markdown}`;
+    case 'todo':
+      return `${indent}- [${block.checked ? 'x' : ' '}] ${time}${block.markdown}`;
+    case 'image':
+      return /^data:/i.test(block.text) ? '' : block.markdown;
+    default:
+      return `${time}${block.markdown}`;
+  }
+}
+
+/** Note content as Markdown; list lines stay together, other lines become paragraphs */
+export function noteToMarkdown(note: Note): string {
+  const blocks = parseNoteHtml(note.noteContent);
+  let markdown = '';
+  let previousWasList = false;
+  blocks.forEach(block => {
+    const line = blockToMarkdown(block);
+    if (!line.trim()) return;
+    const isListLine = block.kind === 'bullet' || block.kind === 'numbered' || block.kind === 'todo';
+    if (markdown) markdown += isListLine && previousWasList ? '\n' : '\n\n';
+    markdown += line;
+    previousWasList = isListLine;
+  });
+  getNoteImages(note).forEach(url => {
+    markdown += `${markdown ? '\n\n' : ''}![image](${url})`;
+  });
+  return markdown;
+}
+
+export function subjectToMarkdown(group: ExportSubject): string {
+  const parts = [`# ${group.subject}`, `${group.term} / ${group.domain}`];
+  group.sessions.forEach(session => {
+    parts.push(`## ${sessionHeading(session)}`);
+    session.notes.forEach(note => {
+      parts.push(`### ${note.noteTitle || 'Untitled note'}`);
+      const meta = [...getNoteTags(note), ...(isNotePinned(note) ? ['Pinned'] : [])];
+      if (meta.length > 0) parts.push(`_${meta.join(' · ')}_`);
+      const content = noteToMarkdown(note);
+      if (content) parts.push(content);
+    });
+  });
+  return parts.join('\n\n') + '\n';
+}
+
+// Windows-safe path part; keeps letters of any script
+const safePathPart = (value: string) =>
+  value.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_') || UNSORTED;
+
+/** `Term/Domain/Subject.md` files for the bundle */
+export function buildMarkdownFiles(notes: Note[]): ZipEntry[] {
+  return groupNotesForExport(notes).map(group => ({
+    name: `${[group.term, group.domain].map(safePathPart).join('/')}/${safePathPart(group.subject)}.md`,
+    data: subjectToMarkdown(group)
+  }));
+}
+
+// ==================== PDF ====================
+
+const MARGIN = 50;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 14;
+const MUTED: PdfColor = [0.4, 0.4, 0.4];
+const ACCENT: PdfColor = [0.15, 0.35, 0.7];
+
+/** Printable notes: a title, then each subject from a new page with its sessions and notes */
+export function renderNotesPdf(notes: Note[], title: string): Blob {
+  const pdf = new PdfDocument();
+  const left = MARGIN;
+  const right = pdf.width - MARGIN;
+  const contentWidth = right - left;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pdf.height - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const paragraph = (text: string, font: PdfFont = 'regular', indent = 0, size = BODY_SIZE, color: PdfColor = [0, 0, 0]) => {
+    wrapText(text, font, size, contentWidth - indent).forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      y += LINE_HEIGHT;
+      pdf.text(line, left + indent, y, { font, size, color });
+    });
+  };
+
+  // A line with a marker (bullet, number, checkbox) in front of its first row
+  const marked = (marker: string, text: string, indent: number) => {
+    wrapText(text, 'regular', BODY_SIZE, contentWidth - indent - 16).forEach((line, index) => {
+      ensureSpace(LINE_HEIGHT);
+      y += LINE_HEIGHT;
+      if (index === 0) pdf.text(marker, left + indent, y, { size: BODY_SIZE });
+      pdf.text(line, left + indent + 16, y, { size: BODY_SIZE });
+    });
+  };
+
+  const heading = (text: string, size: number, color: PdfColor, gap: number) => {
+    ensureSpace(gap + size + LINE_HEIGHT * 2);
+    y += gap;
+    wrapText(text, 'bold', size, contentWidth).forEach(line => {
+      y += size + 2;
+      pdf.text(line, left, y, { font: 'bold', size, color });
+    });
+  };
+
+  const noteBody = (note: Note) => {
+    parseNoteHtml(note.noteContent).forEach(block => {
+      const indent = block.depth * 14;
+      switch (block.kind) {
+        case 'heading':
+          ensureSpace(LINE_HEIGHT * 2);
+          y += 4;
+          paragraph(block.text, 'bold', indent);
+          break;
+        case 'bullet':
+          marked('•', block.text, indent);
+          break;
+        case 'numbered':
+          marked(`${block.number || 1}.`, block.text, indent);
+          break;
+        case 'todo':
+          marked(block.checked ? '[x]' : '[ ]', block.text, indent);
+          break;
+        case 'image':
+          if (/^https?:\/\//i.test(block.text)) {
+            ensureSpace(LINE_HEIGHT);
+            y += LINE_HEIGHT;
+            const width = pdf.text('[Image]', left + indent, y, { size: BODY_SIZE, color: ACCENT });
+            pdf.link(left + indent, y - BODY_SIZE, width, BODY_SIZE + 2, block.text);
+          }
+          break;
+        default:
+          if (block.text) {
+            paragraph(block.text, 'regular', indent);
+          } else {
+            y += LINE_HEIGHT / 2;
+          }
+      }
+    });
+  };
+
+  y += 22;
+  pdf.text(title, left, y, { font: 'bold', size: 22 });
+  y += LINE_HEIGHT + 4;
+  pdf.text(`Exported ${formatDate(new Date())}`, left, y, { size: BODY_SIZE, color: MUTED });
+
+  groupNotesForExport(notes).forEach((group, index) => {
+    if (index > 0) {
+      pdf.addPage();
+      y = MARGIN;
+    } else {
+      y += LINE_HEIGHT;
+    }
+    heading(group.subject, 18, ACCENT, 8);
+    paragraph(`${group.term} · ${group.domain}`, 'regular', 0, BODY_SIZE, MUTED);
+    pdf.line(left, y + 6, right, y + 6, ACCENT, 0.6);
+    y += 6;
+
+    group.sessions.forEach(session => {
+      heading(sessionHeading(session), 14, [0, 0, 0], 18);
+      session.notes.forEach(note => {
+        heading(note.noteTitle || 'Untitled note', 11, [0, 0, 0], 10);
+        const meta = [...getNoteTags(note), ...(isNotePinned(note) ? ['Pinned'] : [])];
+        if (meta.length > 0) paragraph(meta.join(' · '), 'italic', 0, BODY_SIZE - 1, MUTED);
+        noteBody(note);
+      });
+    });
+  });
+
+  return pdf.toBlob();
+}
+
+// ==================== ANKI ====================
+
+const QUESTION_PATTERN = /^Q\s*:\s*/i;
+const ANSWER_PATTERN = /^A\s*:\s*/i;
+const INLINE_ANSWER_PATTERN = /\s+A\s*:\s*/i;
+
+// Anki tags can't contain spaces; `::` nests them in Anki's browser
+const toAnkiTag = (value: string) => value.trim().replace(/\s+/g, '_');
+
+/**
+ * Flashcards from a note's lines. `Q: ...` starts a card and `A: ...` starts its answer, either on
+ * a later line or the same one. Lines after either extend it; an empty line, a heading or the
+ * next `Q:` ends the card. Cards without an answer are dropped.
+ */
+export function extractFlashcards(note: Note): Flashcard[] {
+  const tags = [
+    [note.term, note.domain, note.subject].filter(Boolean).map(part => toAnkiTag(String(part))).join('::'),
+    ...getNoteTags(note).map(toAnkiTag)
+  ].filter(Boolean);
+
+  const cards: Flashcard[] = [];
+  let front: string[] = [];
+  let back: string[] = [];
+  let inAnswer = false;
+  let open = false;
+
+  const finish = () => {
+    if (open && front.length > 0 && back.some(line => line.trim())) {
+      cards.push({ front: front.join('\n'), back: back.join('\n'), tags });
+    }
+    front = [];
+    back = [];
+    inAnswer = false;
+    open = false;
+  };
+
+  parseNoteHtml(note.noteContent).forEach(block => {
+    const text = block.text.trim();
+    if (!text || block.kind === 'heading' || block.kind === 'image') {
+      finish();
+      return;
+    }
+    if (QUESTION_PATTERN.test(text)) {
+      finish();
+      open = true;
+      const [question, ...answer] = text.replace(QUESTION_PATTERN, '').split(INLINE_ANSWER_PATTERN);
+      front.push(question);
+      if (answer.length > 0) {
+        back.push(answer.join(' A: '));
+        inAnswer = true;
+      }
+      return;
+    }
+    if (!open) return;
+    if (ANSWER_PATTERN.test(text) && !inAnswer) {
+      inAnswer = true;
+      back.push(text.replace(ANSWER_PATTERN, ''));
+      return;
+    }
+    const line = block.kind === 'bullet' || block.kind === 'todo' ? `• ${text}` : block.kind === 'numbered' ? `${block.number}. ${text}` : text;
+    (inAnswer ? back : front).push(line);
+  });
+  finish();
+
+  return cards;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Anki import file: front, back and tags columns, with header lines telling Anki the separator,
+ * that fields are HTML (line breaks become <br>) and which column holds the tags.
+ */
+export function buildAnkiCsv(cards: Flashcard[]): string {
+  const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const field = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+  const header = ['#separator:Comma', '#html:true', '#tags column:3'];
+  return [
+    ...header,
+    ...cards.map(card => [field(card.front), field(card.back), card.tags.join(' ')].map(csvCell).join(','))
+  ].join('\n');
+}
+
+// ==================== DOWNLOADS ====================
+
+const exportFileName = (scope: string) => ['notes', scope].filter(Boolean).join('_');
+
+export function exportNotesMarkdown(notes: Note[], scope: string) {
+  downloadBlob(createZip(buildMarkdownFiles(notes)), `${exportFileName(scope)}.zip`);
+}
+
+export function exportNotesPdf(notes: Note[], scope: string) {
+  downloadBlob(renderNotesPdf(notes, scope || 'My Notes'), `${exportFileName(scope)}.pdf`);
+}
+
+/** Downloads the flashcard file and returns how many cards it has; nothing is downloaded for none */
+export function exportNotesAnki(notes: Note[], scope: string): number {
+  const cards = groupNotesForExport(notes).flatMap(group =>
+    group.sessions.flatMap(session => session.notes.flatMap(extractFlashcards))
+  );
+  if (cards.length > 0) {
+    downloadBlob(new Blob([buildAnkiCsv(cards)], { type: 'text/csv;charset=utf-8;' }), `${exportFileName(scope)}_flashcards.csv`);
+  }
+  return cards.length;
+}
@@ -0,0 +1,89 @@
+import {
+  SearchableNote,
+  buildNotesIndex,
+  filterNotes,
+  getNoteLink,
+  searchNotes,
+  stripNoteHtml,
+  tokenize
+} from './notesSearch';
+
+const notes: SearchableNote[] = [
+  {
+    noteId: 'n1',
+    noteTitle: 'Topic: Demand curves',
+    noteContent: '<div>Price <b>elasticity</b> of demand</div><ul><li>Inelastic goods</li></ul>',
+    noteTags: 'Exam, Important',
+    term: 'Term 1',
+    domain: 'Economics',
+    subject: 'Micro',
+    isPinned: 'Yes',
+    lastModified: '2026-01-10T10:00:00Z'
+  },
+  {
+    noteId: 'n2',
+    noteTitle: 'Pointers: Market structure',
+    noteContent: '<p>Monopoly pricing and demand elasticity</p>',
+    noteTags: 'Quiz',
+    term: 'Term 1',
+    domain: 'Economics',
+    subject: 'Micro',
+    isPinned: 'No',
+    lastModified: '2026-01-12T10:00:00Z'
+  },
+  {
+    noteId: 'n3',
+    noteTitle: 'Question: Cash flows',
+    noteContent: 'Discounted cash flow &amp; NPV',
+    term: 'Term 2',
+    domain: 'Finance',
+    subject: 'Corporate Finance',
+    isPinned: 'No',
+    lastModified: '2026-02-01T10:00:00Z'
+  }
+];
+
+describe('notes search', () => {
+  const index = buildNotesIndex(notes);
+  const ids = (query: string, filters = {}) => searchNotes(index, query, filters).map(r => r.note.noteId);
+
+  test('strips html and tokenizes', () => {
+    expect(stripNoteHtml('<div>a</div><div>b&nbsp;&amp; c</div>')).toBe('a b & c');
+    expect(tokenize('Café-Market 2026')).toEqual(['cafe', 'market', '2026']);
+  });
+
+  test('ranks title matches above content matches', () => {
+    expect(ids('demand')).toEqual(['n1', 'n2']);
+  });
+
+  test('matches prefixes and typos', () => {
+    expect(ids('elast')).toEqual(expect.arrayContaining(['n1', 'n2']));
+    expect(ids('monoploy')).toEqual(['n2']);
+  });
+
+  test('requires every query word', () => {
+    expect(ids('demand monopoly')).toEqual(['n2']);
+    expect(ids('demand npv')).toEqual([]);
+  });
+
+  test('applies filters', () => {
+    expect(ids('demand', { pinnedOnly: true })).toEqual(['n1']);
+    expect(ids('', { tag: 'Quiz' })).toEqual(['n2']);
+    expect(ids('', { term: 'Term 2' })).toEqual(['n3']);
+  });
+
+  test('highlights matched words in snippets', () => {
+    const [result] = searchNotes(index, 'npv');
+    expect(result.snippet.filter(s => s.match).map(s => s.text)).toEqual(['NPV']);
+  });
+
+  test('filters a list in its original order', () => {
+    expect(filterNotes(notes, 'elasticity').map(n => n.noteId)).toEqual(['n1', 'n2']);
+    expect(filterNotes(notes, '  ')).toBe(notes);
+  });
+
+  test('links to the subject page', () => {
+    expect(getNoteLink(notes[2])).toBe('/my-notes/Term%202/Finance/Corporate%20Finance?note=n3');
+    expect(getNoteLink({ term: 'Term 1' })).toBe('/my-notes/Term%201');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Client-side full-text search over a student's notes
+ * Notes are tokenized once into an inverted index. Query words match whole words, prefixes (so
+ * results show up while typing) and near misses; every word has to match somewhere in the note.
+ * Results are ranked by which field matched and how well, and carry highlighted snippets.
+ */
+
+export interface SearchableNote {
+  noteId?: string;
+  noteTitle?: string;
+  noteContent?: string;
+  noteTags?: string;
+  tags?: string[];
+  sessionName?: string;
+  term?: string;
+  domain?: string;
+  subject?: string;
+  isPinned?: boolean | string;
+  lastModified?: string;
+  timestamp?: string;
+}
+
+export interface NotesSearchFilters {
+  term?: string;
+  domain?: string;
+  subject?: string;
+  tag?: string;
+  pinnedOnly?: boolean;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface NotesSearchResult<T extends SearchableNote> {
+  note: T;
+  score: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+type SearchField = 'title' | 'tags' | 'session' | 'content';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 4, tags: 3, session: 2, content: 1 };
+const MATCH_WEIGHTS = { exact: 1, prefix: 0.7, fuzzy: 0.4 };
+// Extra score when the whole query appears as typed
+const PHRASE_BONUS = 2;
+const SNIPPET_LENGTH = 160;
+
+const WORD_PATTERN = /[A-Za-z0-9\u00C0-\u024F]+/g;
+
+interface IndexedNote<T> {
+  note: T;
+  title: string;
+  content: string;
+  // All searchable text, lowercased, for phrase matches
+  text: string;
+}
+
+export interface NotesIndex<T extends SearchableNote> {
+  docs: Array<IndexedNote<T>>;
+  // token -> doc index -> best field weight it appears in, times (1 + log of its count)
+  postings: Map<string, Map<number, number>>;
+}
+
+const ENTITIES: Record<string, string> = { '&nbsp;': ' ', '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+export function stripNoteHtml(html: string): string {
+  return html
+    .replace(/<(br|\/div|\/p|\/li|\/h[1-6])[^>]*>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;|&amp;|&lt;|&gt;|&quot;|&#39;/g, entity => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const normalizeWord = (word: string) => word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(normalizeWord);
+}
+
+export function getNoteTags(note: SearchableNote): string[] {
+  if (Array.isArray(note.tags)) return note.tags;
+  return (note.noteTags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+export function isNotePinned(note: SearchableNote): boolean {
+  return note.isPinned === true || ['yes', 'true'].includes(String(note.isPinned).toLowerCase());
+}
+
+// Levenshtein distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const maxEditsFor = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+export function buildNotesIndex<T extends SearchableNote>(notes: T[]): NotesIndex<T> {
+  const postings = new Map<string, Map<number, number>>();
+
+  const docs = notes.map((note, docIndex) => {
+    const title = note.noteTitle || '';
+    const content = stripNoteHtml(note.noteContent || '');
+    const tags = getNoteTags(note).join(' ');
+    const fields: Record<SearchField, string> = { title, tags, session: note.sessionName || '', content };
+
+    (Object.keys(fields) as SearchField[]).forEach(field => {
+      const counts = new Map<string, number>();
+      tokenize(fields[field]).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+      counts.forEach((count, token) => {
+        const weight = FIELD_WEIGHTS[field] * (1 + Math.log(count));
+        let docs = postings.get(token);
+        if (!docs) {
+          docs = new Map();
+          postings.set(token, docs);
+        }
+        docs.set(docIndex, Math.max(docs.get(docIndex) || 0, weight));
+      });
+    });
+
+    return { note, title, content, text: Object.values(fields).join(' ').toLowerCase() };
+  });
+
+  return { docs, postings };
+}
+
+// Index tokens a query word matches, with how well
+function expandQueryWord(index: NotesIndex<SearchableNote>, word: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  const maxEdits = maxEditsFor(word);
+  index.postings.forEach((_, token) => {
+    if (token === word) {
+      matches.set(token, MATCH_WEIGHTS.exact);
+    } else if (word.length >= 2 && token.startsWith(word)) {
+      matches.set(token, MATCH_WEIGHTS.prefix);
+    } else if (maxEdits > 0 && editDistance(word, token, maxEdits) <= maxEdits) {
+      matches.set(token, MATCH_WEIGHTS.fuzzy);
+    }
+  });
+  return matches;
+}
+
+export function matchesFilters(note: SearchableNote, filters: NotesSearchFilters): boolean {
+  if (filters.term && note.term !== filters.term) return false;
+  if (filters.domain && note.domain !== filters.domain) return false;
+  if (filters.subject && note.subject !== filters.subject) return false;
+  if (filters.tag && !getNoteTags(note).includes(filters.tag)) return false;
+  if (filters.pinnedOnly && !isNotePinned(note)) return false;
+  return true;
+}
+
+/** Splits text into plain and highlighted runs; a word is highlighted when its token is in `tokens` */
+export function highlightText(text: string, tokens: Set<string>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  text.replace(WORD_PATTERN, (word, offset: number) => {
+    if (tokens.has(normalizeWord(word))) {
+      if (offset > last) segments.push({ text: text.slice(last, offset), match: false });
+      segments.push({ text: word, match: true });
+      last = offset + word.length;
+    }
+    return word;
+  });
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+// A window of the content around its first highlighted word
+function buildSnippet(content: string, tokens: Set<string>): HighlightSegment[] {
+  let start = 0;
+  const pattern = new RegExp(WORD_PATTERN.source, 'g');
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(content))) {
+    if (tokens.has(normalizeWord(found[0]))) {
+      start = Math.max(0, found.index - SNIPPET_LENGTH / 3);
+      break;
+    }
+  }
+  // Start and end on word boundaries
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    start = space === -1 ? start : space + 1;
+  }
+  let end = Math.min(content.length, start + SNIPPET_LENGTH);
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const segments = highlightText(content.slice(start, end), tokens);
+  if (start > 0) segments.unshift({ text: '… ', match: false });
+  if (end < content.length) segments.push({ text: ' …', match: false });
+  return segments;
+}
+
+const byRecency = (a: SearchableNote, b: SearchableNote) =>
+  new Date(b.lastModified || b.timestamp || 0).getTime() - new Date(a.lastModified || a.timestamp || 0).getTime();
+
+/**
+ * Ranked notes for `query` within `filters`. An empty query lists every note that passes the
+ * filters, most recently edited first.
+ */
+export function searchNotes<T extends SearchableNote>(
+  index: NotesIndex<T>,
+  query: string,
+  filters: NotesSearchFilters = {}
+): Array<NotesSearchResult<T>> {
+  const words = Array.from(new Set(tokenize(query)));
+  const allowed = index.docs.map(doc => matchesFilters(doc.note, filters));
+
+  if (words.length === 0) {
+    return index.docs
+      .filter((_, i) => allowed[i])
+      .map(doc => ({ note: doc.note, score: 0, title: [{ text: doc.title, match: false }], snippet: buildSnippet(doc.content, new Set()) }))
+      .sort((a, b) => byRecency(a.note, b.note));
+  }
+
+  const scores = new Map<number, number>();
+  const highlighted = new Set<string>();
+
+  for (let w = 0; w < words.length; w++) {
+    const wordScores = new Map<number, number>();
+    expandQueryWord(index as NotesIndex<SearchableNote>, words[w]).forEach((quality, token) => {
+      highlighted.add(token);
+      index.postings.get(token)?.forEach((weight, docIndex) => {
+        if (!allowed[docIndex]) return;
+        if (w > 0 && !scores.has(docIndex)) return;
+        wordScores.set(docIndex, Math.max(wordScores.get(docIndex) || 0, quality * weight));
+      });
+    });
+
+    // Every query word has to match
+    scores.forEach((_, docIndex) => {
+      if (!wordScores.has(docIndex)) scores.delete(docIndex);
+    });
+    wordScores.forEach((score, docIndex) => {
+      if (w === 0 || scores.has(docIndex)) scores.set(docIndex, (scores.get(docIndex) || 0) + score);
+    });
+    if (scores.size === 0) return [];
+  }
+
+  const phrase = query.trim().toLowerCase();
+  return Array.from(scores.entries())
+    .map(([docIndex, score]) => {
+      const doc = index.docs[docIndex];
+      return {
+        note: doc.note,
+        score: score + (words.length > 1 && doc.text.includes(phrase) ? PHRASE_BONUS : 0),
+        title: highlightText(doc.title, highlighted),
+        snippet: buildSnippet(doc.content, highlighted)
+      };
+    })
+    .sort((a, b) => b.score - a.score || byRecency(a.note, b.note));
+}
+
+/** Notes from `notes` matching `query`, in their original order (for filtering a visible list) */
+export function filterNotes<T extends SearchableNote>(notes: T[], query: string): T[] {
+  if (!query.trim()) return notes;
+  const matched = new Set(searchNotes(buildNotesIndex(notes), query).map(result => result.note));
+  return notes.filter(note => matched.has(note));
+}
+
+/** Notes page link for the subject a note belongs to, opened on that note */
+export function getNoteLink(note: SearchableNote): string {
+  const parts = [note.term, note.domain, note.subject];
+  const depth = parts.findIndex(part => !part);
+  const path = (depth === -1 ? parts : parts.slice(0, depth)).map(part => encodeURIComponent(String(part)));
+  const link = ['/my-notes', ...path].join('/');
+  return depth === -1 && note.noteId ? `${link}?note=${encodeURIComponent(note.noteId)}` : link;
+}
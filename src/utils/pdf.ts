@@ -0,0 +1,255 @@
+/**
+ * Minimal PDF writer
+ * Text (standard Helvetica faces, WinAnsi encoding), lines, filled rectangles and link areas on A4 pages.
+ * Coordinates are in points from the top-left corner; text y is the baseline.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { name: 'F3', baseFont: 'Helvetica-Oblique' },
+};
+
+// Standard AFM advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi code points outside Latin-1, and their widths
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '•': { code: 0x95, width: 350 }, // bullet
+  '–': { code: 0x96, width: 556 }, // en dash
+  '—': { code: 0x97, width: 1000 }, // em dash
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '…': { code: 0x85, width: 1000 }, // ellipsis
+  '€': { code: 0x80, width: 556 }, // euro
+};
+
+// Common characters the standard fonts can't draw
+const SUBSTITUTIONS: Record<string, string> = {
+  '₹': 'Rs.',
+  '\u00A0': ' ',
+  '\t': ' ',
+};
+
+/**
+ * Replace characters the standard fonts can't encode; everything left is WinAnsi-encodable
+ */
+export function toPdfSafeText(text: string): string {
+  let result = '';
+  for (const char of text) {
+    if (SUBSTITUTIONS[char] !== undefined) {
+      result += SUBSTITUTIONS[char];
+    } else if (WIN_ANSI_EXTRAS[char] || (char >= ' ' && char <= '~') || (char >= '¡' && char <= 'ÿ')) {
+      result += char;
+    } else if (char !== '\n' && char !== '\r') {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+function charWidth(char: string, font: PdfFont): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) {
+    return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  return WIN_ANSI_EXTRAS[char]?.width ?? 556;
+}
+
+export function measureText(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of toPdfSafeText(text)) width += charWidth(char, font);
+  return (width * size) / 1000;
+}
+
+/**
+ * Greedy word wrap; words longer than the line are split
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (measureText(line, font, size) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measureText(line.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    if (line) lines.push(line);
+  });
+
+  return lines;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const colorOperands = (color: PdfColor) => color.map(formatNumber).join(' ');
+
+// Encode to single-byte WinAnsi and escape string delimiters
+function encodePdfString(text: string): string {
+  let result = '';
+  for (const char of toPdfSafeText(text)) {
+    const extra = WIN_ANSI_EXTRAS[char];
+    const byteChar = extra ? String.fromCharCode(extra.code) : char;
+    result += byteChar === '(' || byteChar === ')' || byteChar === '\\' ? `\\${byteChar}` : byteChar;
+  }
+  return result;
+}
+
+interface PdfPage {
+  content: string[];
+  links: Array<{ rect: [number, number, number, number]; url: string }>;
+}
+
+export class PdfDocument {
+  readonly width = 595.28;
+  readonly height = 841.89;
+  private pages: PdfPage[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push({ content: [], links: [] });
+  }
+
+  private get current(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): number {
+    const font = options.font || 'regular';
+    const size = options.size || 10;
+    const width = measureText(text, font, size);
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+
+    this.current.content.push(
+      `BT /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ${colorOperands(options.color || [0, 0, 0])} rg ` +
+      `${formatNumber(left)} ${formatNumber(this.height - y)} Td (${encodePdfString(text)}) Tj ET`
+    );
+    return width;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0, 0, 0], lineWidth = 0.5): void {
+    this.current.content.push(
+      `${colorOperands(color)} RG ${formatNumber(lineWidth)} w ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill: PdfColor): void {
+    this.current.content.push(
+      `${colorOperands(fill)} rg ${formatNumber(x)} ${formatNumber(this.height - y - h)} ${formatNumber(w)} ${formatNumber(h)} re f`
+    );
+  }
+
+  // Clickable area opening a URL
+  link(x: number, y: number, w: number, h: number, url: string): void {
+    this.current.links.push({
+      rect: [x, this.height - y - h, x + w, this.height - y],
+      url,
+    });
+  }
+
+  toBlob(): Blob {
+    // Objects are numbered: 1 catalog, 2 page tree, 3-5 fonts, then page / content / annotation objects
+    const objects: string[] = [];
+    const fontObjects = Object.values(FONT_RESOURCES).map(f =>
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${f.baseFont} /Encoding /WinAnsiEncoding >>`
+    );
+    const fontRefs = Object.values(FONT_RESOURCES).map((f, i) => `/${f.name} ${i + 3} 0 R`).join(' ');
+
+    let nextId = 3 + fontObjects.length;
+    const pageIds: number[] = [];
+    const pageObjects: Array<[number, string]> = [];
+
+    this.pages.forEach(page => {
+      const pageId = nextId++;
+      const contentId = nextId++;
+      const annotIds = page.links.map(() => nextId++);
+      const stream = page.content.join('\n');
+
+      pageIds.push(pageId);
+      pageObjects.push([pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << ${fontRefs} >> >> /Contents ${contentId} 0 R` +
+        (annotIds.length ? ` /Annots [${annotIds.map(id => `${id} 0 R`).join(' ')}]` : '') + ' >>',
+      ]);
+      pageObjects.push([contentId, `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`]);
+      page.links.forEach((link, i) => {
+        pageObjects.push([annotIds[i],
+          `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(formatNumber).join(' ')}] /Border [0 0 0] ` +
+          `/A << /S /URI /URI (${encodePdfString(link.url)}) >> >>`,
+        ]);
+      });
+    });
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    fontObjects.forEach((obj, i) => { objects[i + 3] = obj; });
+    pageObjects.forEach(([id, obj]) => { objects[id] = obj; });
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i) & 0xff;
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+}
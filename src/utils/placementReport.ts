@@ -0,0 +1,143 @@
+/**
+ * Placement report calculations
+ * A student counts as placed once they hold an accepted FT or PPO offer; internships are reported separately.
+ * CTC figures use each placed student's best accepted FT/PPO offer, in LPA.
+ */
+
+import type { PlacementOffer, PlacementReportData } from '../services/api';
+import { downloadBlob } from './helpers';
+
+export interface CtcSummary {
+  median: number;
+  average: number;
+  highest: number;
+}
+
+export interface BatchPlacementStats extends CtcSummary {
+  batch: string;
+  totalStudents: number;
+  placedStudents: number;
+  placementPercent: number;
+  offersCount: number;
+  internshipCount: number;
+  ppoCount: number;
+}
+
+export interface CompanyPlacementStats {
+  company: string;
+  offersCount: number;
+  acceptedCount: number;
+  declinedCount: number;
+  highestCTC: number;
+}
+
+export interface PlacementReport {
+  batches: BatchPlacementStats[];
+  overall: BatchPlacementStats;
+  companies: CompanyPlacementStats[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const isFullTime = (offer: PlacementOffer) => offer.offerType === 'FT' || offer.offerType === 'PPO';
+
+// Monthly stipends aren't annual CTC, so they stay out of the CTC figures
+export function offerCTC(offer: PlacementOffer): number {
+  if (offer.ctcType === 'MonthlyStipend') return 0;
+  return parseFloat(String(offer.ctcValue)) || 0;
+}
+
+export function summarizeCTC(values: number[]): CtcSummary {
+  if (values.length === 0) return { median: 0, average: 0, highest: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    median: round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2),
+    average: round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    highest: sorted[sorted.length - 1],
+  };
+}
+
+function buildBatchStats(batch: string, totalStudents: number, offers: PlacementOffer[]): BatchPlacementStats {
+  const active = offers.filter(o => o.status !== 'Declined');
+  const bestCTCByStudent = new Map<string, number>();
+
+  offers
+    .filter(o => o.status === 'Accepted' && isFullTime(o))
+    .forEach(o => {
+      const email = o.studentEmail.toLowerCase();
+      bestCTCByStudent.set(email, Math.max(bestCTCByStudent.get(email) || 0, offerCTC(o)));
+    });
+
+  const placedStudents = bestCTCByStudent.size;
+
+  return {
+    batch,
+    totalStudents,
+    placedStudents,
+    placementPercent: totalStudents > 0 ? round((placedStudents / totalStudents) * 100) : 0,
+    offersCount: active.length,
+    internshipCount: active.filter(o => o.offerType === 'Internship').length,
+    ppoCount: active.filter(o => o.offerType === 'PPO').length,
+    ...summarizeCTC(Array.from(bestCTCByStudent.values()).filter(v => v > 0)),
+  };
+}
+
+export function buildPlacementReport(data: PlacementReportData, batchFilter = 'all'): PlacementReport {
+  const offers = batchFilter === 'all' ? data.offers : data.offers.filter(o => o.batch === batchFilter);
+  const batchNames = Array.from(new Set([
+    ...Object.keys(data.batchStudentCounts),
+    ...data.offers.map(o => o.batch).filter(Boolean),
+  ]))
+    .filter(batch => batchFilter === 'all' || batch === batchFilter)
+    .sort();
+
+  const batches = batchNames.map(batch =>
+    buildBatchStats(batch, data.batchStudentCounts[batch] || 0, offers.filter(o => o.batch === batch))
+  );
+  const overall = buildBatchStats(
+    batchFilter === 'all' ? 'All batches' : batchFilter,
+    batches.reduce((sum, b) => sum + b.totalStudents, 0),
+    offers
+  );
+
+  const companyMap = new Map<string, CompanyPlacementStats>();
+  offers.forEach(o => {
+    const key = o.company.trim();
+    const stats = companyMap.get(key) || { company: key, offersCount: 0, acceptedCount: 0, declinedCount: 0, highestCTC: 0 };
+    stats.offersCount++;
+    if (o.status === 'Accepted') stats.acceptedCount++;
+    if (o.status === 'Declined') stats.declinedCount++;
+    if (isFullTime(o)) stats.highestCTC = Math.max(stats.highestCTC, offerCTC(o));
+    companyMap.set(key, stats);
+  });
+
+  const companies = Array.from(companyMap.values())
+    .sort((a, b) => b.offersCount - a.offersCount || a.company.localeCompare(b.company));
+
+  return { batches, overall, companies };
+}
+
+export function exportPlacementReportCsv(report: PlacementReport, offers: PlacementOffer[]) {
+  const rows: Array<Array<string | number>> = [
+    ['Batch', 'Students', 'Placed', 'Placement %', 'Offers', 'Internships', 'PPOs', 'Median CTC (LPA)', 'Average CTC (LPA)', 'Highest CTC (LPA)'],
+    ...[...report.batches, report.overall].map(b => [
+      b.batch, b.totalStudents, b.placedStudents, b.placementPercent, b.offersCount,
+      b.internshipCount, b.ppoCount, b.median, b.average, b.highest,
+    ]),
+    [],
+    ['Company', 'Offers', 'Accepted', 'Declined', 'Highest CTC (LPA)'],
+    ...report.companies.map(c => [c.company, c.offersCount, c.acceptedCount, c.declinedCount, c.highestCTC]),
+    [],
+    ['Student Email', 'Student Name', 'Batch', 'Company', 'Role', 'Offer Type', 'CTC', 'ESOP', 'Bonus', 'Status', 'Offer Date'],
+    ...offers.map(o => [
+      o.studentEmail, o.studentName, o.batch, o.company, o.role, o.offerType,
+      o.ctcDisplay || String(o.ctcValue || ''), o.esopDisplay, o.bonusDisplay, o.status, o.offerDate,
+    ]),
+  ];
+
+  const csvCell = (value: string | number | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const csvContent = rows.map(row => row.map(csvCell).join(',')).join('\n');
+  const fileName = `placement_report_${report.overall.batch}_${new Date().toISOString().split('T')[0]}.csv`;
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), fileName);
+}
@@ -0,0 +1,161 @@
+/**
+ * Playback offsets on note lines
+ * Each line of a note (a block in its HTML) carries the recording position it was written at as
+ * data-t (seconds) plus a display label, so notes can jump the recording back to that moment.
+ */
+
+import { parseDate } from './dateUtils';
+
+export const OFFSET_ATTR = 'data-t';
+export const OFFSET_LABEL_ATTR = 'data-t-label';
+
+const LINE_SELECTOR = 'div, p, li, h1, h2, h3, blockquote';
+
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Seconds since a live session started, used as the recording offset while the recording does
+ * not exist yet. Returns null when the start is unknown or still in the future.
+ */
+export function getSessionOffset(date?: string, startTime?: string, now: Date = new Date()): number | null {
+  if (!date || !startTime) return null;
+  const start = parseDate(`${date} ${startTime}`) || parseDate(`${date}T${startTime}`);
+  if (!start) return null;
+  const seconds = (now.getTime() - start.getTime()) / 1000;
+  return seconds >= 0 && seconds < 24 * 3600 ? Math.floor(seconds) : null;
+}
+
+export function setLineOffset(line: HTMLElement, seconds: number): void {
+  line.setAttribute(OFFSET_ATTR, String(Math.floor(seconds)));
+  line.setAttribute(OFFSET_LABEL_ATTR, formatPlaybackTime(seconds));
+}
+
+export function getLineOffset(line: Element): number | null {
+  const value = line.getAttribute(OFFSET_ATTR);
+  if (value === null || value === '') return null;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds : null;
+}
+
+// The line (a block directly under the editor, or a list item) that contains `node`
+function getLineElement(root: HTMLElement, node: Node | null): HTMLElement | null {
+  let el: Node | null = node;
+  while (el && el !== root) {
+    if (el instanceof HTMLElement && el.parentElement) {
+      const parent = el.parentElement;
+      if (el.tagName === 'LI' || (parent === root && el.matches(LINE_SELECTOR))) return el;
+    }
+    el = el.parentNode;
+  }
+  return null;
+}
+
+/**
+ * Call from the editor's input handler. Stamps the line under the caret the first time it gets
+ * text; a fresh line (Enter) drops the offset the browser copies over from the line it split.
+ */
+export function stampLineAtCaret(root: HTMLElement, seconds: number | null, isNewLine: boolean): void {
+  const selection = window.getSelection();
+  const line = getLineElement(root, selection?.anchorNode ?? null);
+  if (!line) return;
+
+  if (isNewLine) {
+    line.removeAttribute(OFFSET_ATTR);
+    line.removeAttribute(OFFSET_LABEL_ATTR);
+  }
+  if (seconds !== null && getLineOffset(line) === null && line.textContent?.trim()) {
+    setLineOffset(line, seconds);
+  }
+}
+
+/**
+ * Call before saving. Loose text at the top level of the editor is wrapped into a line, and lines
+ * that never got an offset (pasted text, the first line before playback started) take the offset
+ * of the line above, or `fallbackSeconds`.
+ */
+export function anchorNoteLines(root: HTMLElement, fallbackSeconds: number | null): void {
+  let loose: Node[] = [];
+  const wrapLoose = (before: Node | null) => {
+    if (loose.some(n => n.textContent?.trim())) {
+      const line = document.createElement('div');
+      root.insertBefore(line, before);
+      loose.forEach(n => line.appendChild(n));
+    }
+    loose = [];
+  };
+  Array.from(root.childNodes).forEach(node => {
+    const isLine = node instanceof HTMLElement && (node.matches(LINE_SELECTOR) || node.matches('ul, ol'));
+    if (isLine) {
+      wrapLoose(node);
+    } else if (node instanceof HTMLElement && node.tagName === 'BR' && loose.length > 0) {
+      // A <br> ends a loose line
+      wrapLoose(node);
+      node.remove();
+    } else {
+      loose.push(node);
+    }
+  });
+  wrapLoose(null);
+
+  let previous = fallbackSeconds;
+  root.querySelectorAll<HTMLElement>(LINE_SELECTOR).forEach(line => {
+    if (line.querySelector(LINE_SELECTOR) || !line.textContent?.trim()) return;
+    const own = getLineOffset(line);
+    if (own !== null) {
+      previous = own;
+    } else if (previous !== null) {
+      setLineOffset(line, previous);
+    }
+  });
+}
+
+/**
+ * Offset of the line whose time label was clicked inside rendered note content. Clicks on the
+ * rest of the line return null so links and checkboxes keep working.
+ */
+export function findClickedOffset(event: { target: EventTarget | null; clientX: number }, container: Element): number | null {
+  const line = event.target instanceof HTMLElement ? event.target : null;
+  if (!line || line === container || getLineOffset(line) === null) return null;
+
+  // The label is the line's ::before box, at the start of its content box
+  const label = window.getComputedStyle(line, '::before');
+  const style = window.getComputedStyle(line);
+  const start = line.getBoundingClientRect().left + parseFloat(style.paddingLeft || '0');
+  const width = parseFloat(label.width || '0') + parseFloat(label.marginRight || '0');
+  const x = event.clientX - start;
+  return x >= 0 && x <= (width || 48) ? getLineOffset(line) : null;
+}
+
+/**
+ * Player link that opens a recording at `seconds`. Notes taken live carry the live session's id,
+ * so the session name is sent too for the player to find the matching recording.
+ */
+export function buildRecordingSeekUrl(sessionId: string, seconds: number, sessionName?: string): string {
+  const params = new URLSearchParams({ session: sessionId, t: String(Math.floor(seconds)) });
+  if (sessionName) params.set('name', sessionName);
+  return `/video-player?${params.toString()}`;
+}
+
+/** CSS that shows the stored offset in front of each line; `scope` is the note content selector */
+export function playbackOffsetStyles(scope: string, clickable: boolean): string {
+  return `
+    ${scope} [${OFFSET_LABEL_ATTR}]::before {
+      content: attr(${OFFSET_LABEL_ATTR});
+      display: inline-block;
+      margin-right: 0.5em;
+      padding: 0 0.35em;
+      border-radius: 0.25em;
+      font-size: 0.75em;
+      font-variant-numeric: tabular-nums;
+      color: #60a5fa;
+      background: rgba(59, 130, 246, 0.12);
+      ${clickable ? 'cursor: pointer;' : ''}
+    }
+  `;
+}
@@ -0,0 +1,396 @@
+/**
+ * Resume builder
+ * Turns the placement profile into resume sections, applies a per-domain tailored version
+ * (summary, section order, hidden entries, experience bullets) and renders it to PDF.
+ */
+
+import type { FullStudentProfile } from '../services/api';
+import { PdfColor, PdfDocument, PdfFont, measureText, wrapText } from './pdf';
+
+export const SCHOOL_NAME = 'Scaler School of Business';
+
+export type ResumeTemplateId = 'classic' | 'modern' | 'compact';
+
+export type ResumeSectionId =
+  | 'summary'
+  | 'education'
+  | 'experience'
+  | 'projects'
+  | 'skills'
+  | 'certifications'
+  | 'achievements';
+
+// 'general' plus the three domain resume slots of the placement profile
+export type ResumeSlot = 'general' | 'domain1' | 'domain2' | 'domain3';
+
+export interface ResumeEntry {
+  id: string;
+  title: string;
+  subtitle: string;
+  meta: string;
+  description?: string;
+  link?: string;
+}
+
+export interface ResumeData {
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: Array<{ label: string; url: string }>;
+  summary: string;
+  education: ResumeEntry[];
+  experience: ResumeEntry[];
+  projects: ResumeEntry[];
+  techSkills: string[];
+  softSkills: string[];
+  certifications: string[];
+  achievements: string[];
+}
+
+export interface ResumeVersion {
+  slot: ResumeSlot;
+  domainName: string;
+  template: ResumeTemplateId;
+  summary: string; // empty uses the profile's About Me
+  sectionOrder: ResumeSectionId[];
+  hiddenSections: ResumeSectionId[];
+  excludedEntryIds: string[];
+  entryBullets: Record<string, string>; // one bullet per line
+  highlightedSkills: string[]; // listed first, in this order
+  updatedAt?: string;
+}
+
+export const RESUME_TEMPLATES: Record<ResumeTemplateId, { label: string; description: string }> = {
+  classic: { label: 'Classic', description: 'Centered header with ruled section headings' },
+  modern: { label: 'Modern', description: 'Accent band and coloured headings' },
+  compact: { label: 'Compact', description: 'Smaller type to fit more on one page' },
+};
+
+export const RESUME_SECTION_LABELS: Record<ResumeSectionId, string> = {
+  summary: 'Summary',
+  education: 'Education',
+  experience: 'Experience',
+  projects: 'Projects',
+  skills: 'Skills',
+  certifications: 'Certifications',
+  achievements: 'Achievements',
+};
+
+export const DEFAULT_SECTION_ORDER: ResumeSectionId[] = [
+  'summary',
+  'education',
+  'experience',
+  'projects',
+  'skills',
+  'certifications',
+  'achievements',
+];
+
+const splitList = (value?: string) =>
+  (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+// Free-text fields: one item per line (or semicolon), with any typed bullet stripped
+const splitItems = (value?: string) =>
+  (value || '').split(/\r?\n|;/).map(v => v.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean);
+
+export function buildResumeData(profile: FullStudentProfile): ResumeData {
+  const experience: ResumeEntry[] = [];
+
+  ([1, 2, 3] as const).forEach(n => {
+    const company = profile[`prevCompany${n}Name`];
+    const role = profile[`prevCompany${n}Role`];
+    if (company || role) {
+      experience.push({ id: `job${n}`, title: role || '', subtitle: company || '', meta: profile[`prevCompany${n}Duration`] || '' });
+    }
+  });
+  ([1, 2, 3] as const).forEach(n => {
+    const company = profile[`internship${n}Company`];
+    const role = profile[`internship${n}Role`];
+    if (company || role) {
+      experience.push({ id: `internship${n}`, title: `${role || 'Intern'} (Internship)`, subtitle: company || '', meta: profile[`internship${n}Duration`] || '' });
+    }
+  });
+
+  const projects: ResumeEntry[] = [];
+  ([1, 2, 3] as const).forEach(n => {
+    const title = profile[`project${n}Title`];
+    if (title) {
+      projects.push({
+        id: `project${n}`,
+        title,
+        subtitle: '',
+        meta: '',
+        description: profile[`project${n}Description`] || '',
+        link: profile[`project${n}Link`] || '',
+      });
+    }
+  });
+
+  const education: ResumeEntry[] = [
+    { id: 'school', title: SCHOOL_NAME, subtitle: 'Business Program', meta: profile.batch ? `Batch ${profile.batch}` : '' },
+  ];
+  if (profile.undergraduateCollege) {
+    education.push({
+      id: 'undergraduate',
+      title: profile.undergraduateCollege,
+      subtitle: profile.undergraduateStream || '',
+      meta: profile.graduationYear || '',
+    });
+  }
+
+  const links = [
+    { label: 'LinkedIn', url: profile.linkedIn },
+    { label: 'GitHub', url: profile.github },
+    { label: 'Portfolio', url: profile.portfolioLink },
+    { label: profile.otherLink1Title || 'Link', url: profile.otherLink1URL || '' },
+    { label: profile.otherLink2Title || 'Link', url: profile.otherLink2URL || '' },
+  ].filter(link => link.url);
+
+  return {
+    name: profile.fullName || profile.email,
+    email: profile.email,
+    phone: profile.phoneNo || '',
+    location: profile.currentLocation || '',
+    links,
+    summary: profile.aboutMe || '',
+    education,
+    experience,
+    projects,
+    techSkills: splitList(profile.techSkills),
+    softSkills: splitList(profile.softSkills),
+    certifications: splitItems(profile.certifications),
+    achievements: splitItems(profile.achievements),
+  };
+}
+
+export function createResumeVersion(slot: ResumeSlot, domainName = ''): ResumeVersion {
+  return {
+    slot,
+    domainName: slot === 'general' ? 'General' : domainName,
+    template: 'classic',
+    summary: '',
+    sectionOrder: [...DEFAULT_SECTION_ORDER],
+    hiddenSections: [],
+    excludedEntryIds: [],
+    entryBullets: {},
+    highlightedSkills: [],
+  };
+}
+
+const orderSkills = (skills: string[], highlighted: string[]) => {
+  const lower = highlighted.map(s => s.toLowerCase());
+  const first = highlighted.filter(h => skills.some(s => s.toLowerCase() === h.toLowerCase()));
+  return [...first, ...skills.filter(s => !lower.includes(s.toLowerCase()))];
+};
+
+/**
+ * The resume content for a version: overrides the summary, drops excluded entries,
+ * attaches the version's experience bullets and puts highlighted skills first
+ */
+export function applyResumeVersion(data: ResumeData, version: ResumeVersion): ResumeData {
+  const keep = (entry: ResumeEntry) => !version.excludedEntryIds.includes(entry.id);
+  const withBullets = (entry: ResumeEntry): ResumeEntry =>
+    version.entryBullets[entry.id] ? { ...entry, description: version.entryBullets[entry.id] } : entry;
+
+  return {
+    ...data,
+    summary: version.summary.trim() || data.summary,
+    education: data.education.filter(keep),
+    experience: data.experience.filter(keep).map(withBullets),
+    projects: data.projects.filter(keep).map(withBullets),
+    techSkills: orderSkills(data.techSkills, version.highlightedSkills),
+    softSkills: orderSkills(data.softSkills, version.highlightedSkills),
+  };
+}
+
+interface TemplateStyle {
+  margin: number;
+  nameSize: number;
+  headingSize: number;
+  bodySize: number;
+  lineGap: number;
+  sectionGap: number;
+  accent: PdfColor;
+  centeredHeader: boolean;
+  ruledHeadings: boolean;
+  accentBand: boolean;
+}
+
+const TEMPLATE_STYLES: Record<ResumeTemplateId, TemplateStyle> = {
+  classic: {
+    margin: 50, nameSize: 20, headingSize: 11, bodySize: 10, lineGap: 4, sectionGap: 12,
+    accent: [0, 0, 0], centeredHeader: true, ruledHeadings: true, accentBand: false,
+  },
+  modern: {
+    margin: 48, nameSize: 22, headingSize: 11, bodySize: 10, lineGap: 4, sectionGap: 12,
+    accent: [0.05, 0.4, 0.55], centeredHeader: false, ruledHeadings: false, accentBand: true,
+  },
+  compact: {
+    margin: 36, nameSize: 16, headingSize: 10, bodySize: 9, lineGap: 3, sectionGap: 8,
+    accent: [0.1, 0.1, 0.1], centeredHeader: false, ruledHeadings: true, accentBand: false,
+  },
+};
+
+const MUTED: PdfColor = [0.35, 0.35, 0.35];
+
+export function renderResumePdf(data: ResumeData, version: ResumeVersion): Blob {
+  const style = TEMPLATE_STYLES[version.template];
+  const pdf = new PdfDocument();
+  const left = style.margin;
+  const right = pdf.width - style.margin;
+  const contentWidth = right - left;
+  const lineHeight = style.bodySize + style.lineGap;
+  let y = style.margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pdf.height - style.margin) {
+      pdf.addPage();
+      y = style.margin;
+    }
+  };
+
+  const paragraph = (text: string, font: PdfFont = 'regular', indent = 0, color: PdfColor = [0, 0, 0]) => {
+    wrapText(text, font, style.bodySize, contentWidth - indent).forEach(line => {
+      ensureSpace(lineHeight);
+      y += lineHeight;
+      pdf.text(line, left + indent, y, { font, size: style.bodySize, color });
+    });
+  };
+
+  const bullets = (text: string) => {
+    text.split(/\r?\n/).map(b => b.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean).forEach(bullet => {
+      const lines = wrapText(bullet, 'regular', style.bodySize, contentWidth - 12);
+      lines.forEach((line, index) => {
+        ensureSpace(lineHeight);
+        y += lineHeight;
+        if (index === 0) pdf.text('•', left + 2, y, { size: style.bodySize });
+        pdf.text(line, left + 12, y, { size: style.bodySize });
+      });
+    });
+  };
+
+  const heading = (label: string) => {
+    ensureSpace(style.headingSize + style.sectionGap + lineHeight * 2);
+    y += style.sectionGap + style.headingSize;
+    pdf.text(label.toUpperCase(), left, y, { font: 'bold', size: style.headingSize, color: style.accent });
+    if (style.ruledHeadings) {
+      pdf.line(left, y + 3, right, y + 3, style.accent, 0.6);
+      y += 3;
+    }
+  };
+
+  const entry = (item: ResumeEntry) => {
+    ensureSpace(lineHeight * 2);
+    y += lineHeight + 2;
+    const metaWidth = item.meta ? measureText(item.meta, 'regular', style.bodySize) + 12 : 0;
+    const [title] = wrapText(item.title, 'bold', style.bodySize, contentWidth - metaWidth);
+    pdf.text(title || '', left, y, { font: 'bold', size: style.bodySize });
+    if (item.meta) pdf.text(item.meta, right, y, { size: style.bodySize, color: MUTED, align: 'right' });
+    if (item.subtitle) paragraph(item.subtitle, 'italic', 0, MUTED);
+    if (item.description) bullets(item.description);
+    if (item.link) {
+      ensureSpace(lineHeight);
+      y += lineHeight;
+      const width = pdf.text(item.link, left + 12, y, { size: style.bodySize - 1, color: style.accent });
+      pdf.link(left + 12, y - style.bodySize, width, style.bodySize + 2, item.link);
+    }
+  };
+
+  // Header
+  if (style.accentBand) {
+    pdf.rect(0, 0, pdf.width, 8, style.accent);
+  }
+  const headerX = style.centeredHeader ? pdf.width / 2 : left;
+  const headerAlign = style.centeredHeader ? 'center' : 'left';
+  y += style.nameSize;
+  pdf.text(data.name, headerX, y, { font: 'bold', size: style.nameSize, align: headerAlign, color: style.accentBand ? style.accent : [0, 0, 0] });
+
+  const contact = [data.email, data.phone, data.location].filter(Boolean).join('  |  ');
+  y += lineHeight + 4;
+  pdf.text(contact, headerX, y, { size: style.bodySize, align: headerAlign, color: MUTED });
+
+  if (data.links.length > 0) {
+    y += lineHeight;
+    const linkText = data.links.map(l => `${l.label}: ${l.url}`).join('  |  ');
+    const width = measureText(linkText, 'regular', style.bodySize - 1);
+    if (width <= contentWidth) {
+      let x = style.centeredHeader ? pdf.width / 2 - width / 2 : left;
+      data.links.forEach((link, index) => {
+        const label = `${index > 0 ? '  |  ' : ''}${link.label}: ${link.url}`;
+        const labelWidth = pdf.text(label, x, y, { size: style.bodySize - 1, color: style.accent });
+        pdf.link(x, y - style.bodySize, labelWidth, style.bodySize + 2, link.url);
+        x += labelWidth;
+      });
+    } else {
+      data.links.forEach((link, index) => {
+        if (index > 0) y += lineHeight;
+        const labelWidth = pdf.text(`${link.label}: ${link.url}`, headerX, y, { size: style.bodySize - 1, align: headerAlign, color: style.accent });
+        const x = style.centeredHeader ? pdf.width / 2 - labelWidth / 2 : left;
+        pdf.link(x, y - style.bodySize, labelWidth, style.bodySize + 2, link.url);
+      });
+    }
+  }
+  y += 4;
+
+  const sections: Record<ResumeSectionId, () => void> = {
+    summary: () => {
+      if (!data.summary) return;
+      heading(RESUME_SECTION_LABELS.summary);
+      paragraph(data.summary);
+    },
+    education: () => {
+      if (data.education.length === 0) return;
+      heading(RESUME_SECTION_LABELS.education);
+      data.education.forEach(entry);
+    },
+    experience: () => {
+      if (data.experience.length === 0) return;
+      heading(RESUME_SECTION_LABELS.experience);
+      data.experience.forEach(entry);
+    },
+    projects: () => {
+      if (data.projects.length === 0) return;
+      heading(RESUME_SECTION_LABELS.projects);
+      data.projects.forEach(entry);
+    },
+    skills: () => {
+      if (data.techSkills.length === 0 && data.softSkills.length === 0) return;
+      heading(RESUME_SECTION_LABELS.skills);
+      if (data.techSkills.length > 0) paragraph(`Technical: ${data.techSkills.join(', ')}`);
+      if (data.softSkills.length > 0) paragraph(`Soft skills: ${data.softSkills.join(', ')}`);
+    },
+    certifications: () => {
+      if (data.certifications.length === 0) return;
+      heading(RESUME_SECTION_LABELS.certifications);
+      bullets(data.certifications.join('\n'));
+    },
+    achievements: () => {
+      if (data.achievements.length === 0) return;
+      heading(RESUME_SECTION_LABELS.achievements);
+      bullets(data.achievements.join('\n'));
+    },
+  };
+
+  version.sectionOrder
+    .filter(section => !version.hiddenSections.includes(section))
+    .forEach(section => sections[section]());
+
+  return pdf.toBlob();
+}
+
+// Tailored versions are kept on this device; the generated PDFs go to the profile's resume slots
+const versionsKey = (email: string) => `resumeBuilderVersions:${email.toLowerCase()}`;
+
+export function loadResumeVersions(email: string): Partial<Record<ResumeSlot, ResumeVersion>> {
+  try {
+    const stored = localStorage.getItem(versionsKey(email));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveResumeVersions(email: string, versions: Partial<Record<ResumeSlot, ResumeVersion>>) {
+  localStorage.setItem(versionsKey(email), JSON.stringify(versions));
+}
@@ -0,0 +1,169 @@
+/**
+ * Applicant comparison and shortlist bundle export for sharing with recruiters
+ */
+
+import { apiService, ApplicantProfile, PipelineApplicant } from '../services/api';
+import { createZip, ZipEntry } from './zip';
+
+export type ComparisonFieldKey = keyof ApplicantProfile | 'stage' | 'batch' | 'email';
+
+export const COMPARISON_FIELDS: Array<{ key: ComparisonFieldKey; label: string }> = [
+  { key: 'rollNo', label: 'Roll No' },
+  { key: 'email', label: 'Email' },
+  { key: 'batch', label: 'Batch' },
+  { key: 'stage', label: 'Stage' },
+  { key: 'phoneNo', label: 'Phone' },
+  { key: 'currentLocation', label: 'Location' },
+  { key: 'undergraduateCollege', label: 'UG College' },
+  { key: 'undergraduateStream', label: 'UG Stream' },
+  { key: 'graduationYear', label: 'Graduation Year' },
+  { key: 'experienceType', label: 'Experience Type' },
+  { key: 'totalFTExperienceMonths', label: 'FT Experience (months)' },
+  { key: 'totalInternshipExperienceMonths', label: 'Internship Experience (months)' },
+  { key: 'techSkills', label: 'Tech Skills' },
+  { key: 'softSkills', label: 'Soft Skills' },
+  { key: 'certifications', label: 'Certifications' },
+  { key: 'domain1', label: 'Domain 1' },
+  { key: 'domain2', label: 'Domain 2' },
+  { key: 'domain3', label: 'Domain 3' },
+  { key: 'linkedIn', label: 'LinkedIn' },
+];
+
+export const DEFAULT_COMPARISON_FIELDS: ComparisonFieldKey[] = [
+  'rollNo',
+  'batch',
+  'stage',
+  'undergraduateCollege',
+  'totalFTExperienceMonths',
+  'techSkills',
+  'domain1',
+];
+
+export function getComparisonValue(
+  applicant: PipelineApplicant,
+  profile: ApplicantProfile | undefined,
+  key: ComparisonFieldKey
+): string {
+  if (key === 'email') return applicant.studentEmail;
+  if (key === 'stage') return applicant.stage;
+  if (key === 'batch') return applicant.batch || '';
+  return profile?.[key] || '';
+}
+
+// Windows-safe file name part; keeps letters of any script
+const safeFileNamePart = (value: string) =>
+  value.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+
+/**
+ * `RollNo_Name.pdf`, falling back to the email for students without a roll number
+ * Names already used in the bundle get a numeric suffix.
+ */
+export function resumeFileName(
+  applicant: PipelineApplicant,
+  profile: ApplicantProfile | undefined,
+  usedNames: Set<string>,
+  extension = 'pdf'
+): string {
+  const prefix = safeFileNamePart(profile?.rollNo || applicant.studentEmail.split('@')[0]);
+  const name = safeFileNamePart(applicant.studentName || '');
+  const base = name ? `${prefix}_${name}` : prefix;
+
+  let fileName = `${base}.${extension}`;
+  for (let n = 2; usedNames.has(fileName.toLowerCase()); n++) {
+    fileName = `${base}_${n}.${extension}`;
+  }
+  usedNames.add(fileName.toLowerCase());
+  return fileName;
+}
+
+/**
+ * CSV with one row per applicant: chosen profile fields, chosen answers and the resume file in the bundle
+ */
+export function buildShortlistCsv(
+  applicants: PipelineApplicant[],
+  profiles: Record<string, ApplicantProfile>,
+  fields: ComparisonFieldKey[],
+  questions: string[],
+  resumeFiles: Record<string, string>
+): string {
+  const labels = fields.map(key => COMPARISON_FIELDS.find(f => f.key === key)?.label || key);
+  const rows: string[][] = [['Name', ...labels, ...questions, 'Resume File']];
+
+  applicants.forEach(applicant => {
+    const profile = profiles[applicant.studentEmail];
+    rows.push([
+      applicant.studentName,
+      ...fields.map(key => getComparisonValue(applicant, profile, key)),
+      ...questions.map(question => String(applicant.answers[question] ?? '')),
+      resumeFiles[applicant.studentEmail] || '',
+    ]);
+  });
+
+  const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export interface ShortlistBundle {
+  blob: Blob;
+  missing: string[]; // names of applicants whose resume could not be added
+}
+
+/**
+ * Fetch each applicant's submitted resume and bundle them with a CSV summary
+ * Resumes are fetched one at a time; onProgress reports how many are done.
+ */
+export async function buildShortlistBundle(
+  jobId: string,
+  applicants: PipelineApplicant[],
+  profiles: Record<string, ApplicantProfile>,
+  fields: ComparisonFieldKey[],
+  questions: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ShortlistBundle> {
+  const entries: ZipEntry[] = [];
+  const resumeFiles: Record<string, string> = {};
+  const usedNames = new Set<string>(['summary.csv']);
+  const missing: string[] = [];
+
+  for (let i = 0; i < applicants.length; i++) {
+    const applicant = applicants[i];
+    onProgress?.(i, applicants.length);
+
+    if (!applicant.resumeUrl) {
+      missing.push(applicant.studentName || applicant.studentEmail);
+      continue;
+    }
+
+    try {
+      const result = await apiService.getApplicantResumeFile(jobId, applicant.studentEmail);
+      if (!result.success || !result.data) {
+        missing.push(applicant.studentName || applicant.studentEmail);
+        continue;
+      }
+
+      const extension = result.data.fileName.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() || 'pdf';
+      const fileName = resumeFileName(applicant, profiles[applicant.studentEmail], usedNames, extension);
+      entries.push({ name: fileName, data: base64ToBytes(result.data.data) });
+      resumeFiles[applicant.studentEmail] = fileName;
+    } catch (error) {
+      console.error(`Error fetching resume for ${applicant.studentEmail}:`, error);
+      missing.push(applicant.studentName || applicant.studentEmail);
+    }
+  }
+  onProgress?.(applicants.length, applicants.length);
+
+  // BOM so Excel opens the summary as UTF-8
+  entries.unshift({
+    name: 'Summary.csv',
+    data: '\uFEFF' + buildShortlistCsv(applicants, profiles, fields, questions, resumeFiles),
+  });
+
+  return { blob: createZip(entries), missing };
+}
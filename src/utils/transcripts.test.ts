@@ -0,0 +1,40 @@
+import { detectTranscriptFormat, findCueIndex, parseTranscript } from './transcripts';
+
+describe('transcripts', () => {
+  test('parses WebVTT with voices, speaker prefixes and markup', () => {
+    const { format, cues } = parseTranscript(
+      'WEBVTT\n\nNOTE produced by Zoom\n\n1\n00:00:01.500 --> 00:00:04.000\n<v Prof. Rao>Welcome &amp; <b>hello</b></v>\n\n' +
+      '2\n00:04.000 --> 00:07.250\nAsha Menon: Can you repeat\nthe question?\n'
+    );
+    expect(format).toBe('vtt');
+    expect(cues).toEqual([
+      { start: 1.5, end: 4, speaker: 'Prof. Rao', text: 'Welcome & hello' },
+      { start: 4, end: 7.25, speaker: 'Asha Menon', text: 'Can you repeat the question?' }
+    ]);
+  });
+
+  test('parses SRT', () => {
+    const { format, cues } = parseTranscript('1\r\n01:00:02,040 --> 01:00:05,000\r\n<i>Net present value</i>\r\n\r\n');
+    expect(format).toBe('srt');
+    expect(cues).toEqual([{ start: 3602.04, end: 3605, text: 'Net present value' }]);
+  });
+
+  test('parses Zoom transcripts relative to the first line', () => {
+    const { format, cues } = parseTranscript('[Prof. Rao] 10:02:33\nGood morning\nall\n\n[Asha Menon] 10:03:03\nMorning!\n');
+    expect(format).toBe('zoom');
+    expect(cues).toEqual([
+      { start: 0, end: 30, speaker: 'Prof. Rao', text: 'Good morning all' },
+      { start: 30, end: 35, speaker: 'Asha Menon', text: 'Morning!' }
+    ]);
+  });
+
+  test('rejects unknown formats', () => {
+    expect(detectTranscriptFormat('just some text')).toBeNull();
+    expect(() => parseTranscript('just some text')).toThrow('Unrecognised transcript format');
+  });
+
+  test('finds the cue playing at a position', () => {
+    const cues = [0, 10, 20].map(start => ({ start, end: start + 5, text: String(start) }));
+    expect([-1, 0, 12, 25].map(t => findCueIndex(cues, t))).toEqual([-1, 0, 1, 2]);
+  });
+});
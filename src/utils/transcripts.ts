@@ -0,0 +1,152 @@
+/**
+ * Recording transcripts
+ * Admins upload a WebVTT, SRT or Zoom transcript export per session. It is parsed here into cues
+ * (start/end in seconds from the start of the recording) that the player highlights as it plays.
+ */
+
+import { TranscriptCue, TranscriptFormat } from '../types';
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  vtt: 'WebVTT',
+  srt: 'SRT',
+  zoom: 'Zoom transcript'
+};
+
+export const TRANSCRIPT_FILE_ACCEPT = '.vtt,.srt,.txt';
+
+// How long the last line of a Zoom export (which has no end times) stays current
+const LAST_CUE_SECONDS = 5;
+
+// 01:02:03.456, 02:03.456 (VTT) or 01:02:03,456 (SRT)
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/;
+const CUE_TIMING = new RegExp(`^\\s*${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+// [Speaker Name] 10:02:33
+const ZOOM_LINE = /^\[(.+?)\]\s+(\d{1,2}:\d{2}:\d{2})\s*$/;
+// "Speaker Name: text", how Zoom names the speaker in its VTT captions
+const SPEAKER_PREFIX = /^([A-Z][\w.'-]*(?: [\w.'-]+){0,3}):\s+/;
+
+const toSeconds = (h: string | undefined, m: string, s: string, ms?: string) =>
+  Number(h || 0) * 3600 + Number(m) * 60 + Number(s) + (ms ? Number(ms.padEnd(3, '0')) / 1000 : 0);
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export function detectTranscriptFormat(text: string): TranscriptFormat | null {
+  const content = text.replace(/^\uFEFF/, '').trimStart();
+  if (/^WEBVTT/.test(content)) return 'vtt';
+  const lines = content.split(/\r?\n/);
+  if (lines.some(line => CUE_TIMING.test(line))) return 'srt';
+  if (lines.some(line => ZOOM_LINE.test(line))) return 'zoom';
+  return null;
+}
+
+// VTT and SRT: blank-line separated blocks of an optional id, a timing line and the caption text
+function parseTimedBlocks(content: string, format: 'vtt' | 'srt'): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  content.split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) return; // header, NOTE, STYLE and REGION blocks
+
+    const timing = lines[timingIndex].match(CUE_TIMING) as RegExpMatchArray;
+    let speaker: string | undefined;
+    let text = lines.slice(timingIndex + 1).join(' ');
+
+    if (format === 'vtt') {
+      const voice = text.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/);
+      if (voice) speaker = voice[1].trim();
+      text = decodeEntities(text.replace(/<[^>]+>/g, ''));
+    } else {
+      text = text.replace(/<\/?(?:b|i|u|font)[^>]*>/g, '');
+    }
+    text = text.replace(/\s+/g, ' ').trim();
+
+    const prefix = !speaker ? text.match(SPEAKER_PREFIX) : null;
+    if (prefix) {
+      speaker = prefix[1];
+      text = text.slice(prefix[0].length);
+    }
+    if (!text) return;
+
+    cues.push({
+      start: toSeconds(timing[1], timing[2], timing[3], timing[4]),
+      end: toSeconds(timing[5], timing[6], timing[7], timing[8]),
+      ...(speaker ? { speaker } : {}),
+      text
+    });
+  });
+  return cues;
+}
+
+/**
+ * Zoom's saved meeting transcript: "[Speaker] hh:mm:ss" followed by what they said. The times are
+ * wall-clock, so offsets are counted from the first line, and each line lasts until the next one.
+ */
+function parseZoomTranscript(content: string): TranscriptCue[] {
+  const entries: Array<{ speaker: string; clock: number; lines: string[] }> = [];
+  content.split('\n').forEach(line => {
+    const header = line.match(ZOOM_LINE);
+    if (header) {
+      const [h, m, s] = header[2].split(':');
+      entries.push({ speaker: header[1].trim(), clock: toSeconds(h, m, s), lines: [] });
+    } else if (entries.length > 0 && line.trim()) {
+      entries[entries.length - 1].lines.push(line.trim());
+    }
+  });
+
+  const first = entries.length > 0 ? entries[0].clock : 0;
+  // Meetings running past midnight wrap the clock
+  const offset = (clock: number) => (clock - first + 24 * 3600) % (24 * 3600);
+
+  return entries
+    .map((entry, index) => {
+      const start = offset(entry.clock);
+      const next = entries[index + 1];
+      return {
+        start,
+        end: next ? Math.max(start, offset(next.clock)) : start + LAST_CUE_SECONDS,
+        speaker: entry.speaker,
+        text: entry.lines.join(' ')
+      };
+    })
+    .filter(cue => cue.text);
+}
+
+/** Parses an uploaded transcript; throws when the format is not recognised or it has no lines */
+export function parseTranscript(text: string): { format: TranscriptFormat; cues: TranscriptCue[] } {
+  const content = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const format = detectTranscriptFormat(content);
+  if (!format) {
+    throw new Error('Unrecognised transcript format. Upload a WebVTT, SRT or Zoom transcript file');
+  }
+
+  const cues = (format === 'zoom' ? parseZoomTranscript(content) : parseTimedBlocks(content, format))
+    .sort((a, b) => a.start - b.start);
+  if (cues.length === 0) {
+    throw new Error('The transcript has no captions');
+  }
+  return { format, cues };
+}
+
+/** Index of the cue playing at `seconds` (the last one started), or -1 before the first cue */
+export function findCueIndex(cues: TranscriptCue[], seconds: number): number {
+  let low = 0;
+  let high = cues.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (cues[mid].start <= seconds) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import { NoteComment } from '../../types';
+import { api } from '../services/api';
+import { useAuth } from '../../features/auth/hooks/useAuth';
+import { getRelativeTime } from '../../utils/dateUtils';
+
+interface NoteCommentsProps {
+  noteId: string;
+  // Classmates with the view role can read the discussion but not post
+  canComment: boolean;
+}
+
+export const NoteComments: React.FC<NoteCommentsProps> = ({ noteId, canComment }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<NoteComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    if (!user?.email) return;
+    let cancelled = false;
+
+    const loadComments = async () => {
+      try {
+        setLoading(true);
+        const response = await api.getNoteComments(user.email, noteId);
+        if (!cancelled && response.success && response.data) {
+          setComments(response.data);
+        }
+      } catch (error) {
+        console.error('Error loading note comments:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.email, noteId]);
+
+  const handlePost = async () => {
+    const comment = draft.trim();
+    if (!user?.email || !comment) return;
+
+    try {
+      setPosting(true);
+      const response = await api.addNoteComment(user.email, noteId, comment);
+      if (response.success && response.data) {
+        setComments(prev => [...prev, response.data as NoteComment]);
+        setDraft('');
+      } else {
+        toast.error(response.error || 'Failed to post comment');
+      }
+    } catch (error) {
+      console.error('Error posting note comment:', error);
+      toast.error('Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+        <MessageSquare className="w-4 h-4 text-primary" />
+        Comments
+        {comments.length > 0 && <span className="text-xs font-normal text-muted-foreground">({comments.length})</span>}
+      </h4>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No comments yet</p>
+      ) : (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {comments.map(comment => (
+            <div key={comment.commentId} className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium text-foreground">
+                  {comment.authorName || comment.authorEmail.split('@')[0]}
+                </span>
+                <span className="text-muted-foreground">{getRelativeTime(comment.createdAt)}</span>
+              </div>
+              <p className="mt-1 text-sm text-foreground whitespace-pre-wrap">{comment.comment}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canComment && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handlePost();
+            }}
+            placeholder="Add a comment..."
+            className="flex-1 px-3 py-2 text-sm rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+          <button
+            onClick={handlePost}
+            disabled={posting || !draft.trim()}
+            className="p-2 rounded-lg bg-primary text-white hover:bg-primary/90 transition-colors disabled:opacity-50"
+            title="Post comment"
+          >
+            {posting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { Session } from '../../types';
-import { useNotes } from '../hooks/useNotes';
+import React, { useState, useEffect, useRef } from 'react';
+import { Session, SharedNote } from '../../types';
+import { useNotes, useSharedNote } from '../hooks/useNotes';
 import { Save, Pin, Loader2 } from 'lucide-react';
+import { LINE_ID_ATTR, assignLineIds, authorLabelStyles, mergeNoteContent, sanitizeNoteHtml } from '../../utils/noteCollaboration';
 
-interface NoteEditorProps {
-  session: Session;
+type NoteEditorProps =
+  | { session: Session; sharedNote?: undefined; onSaved?: undefined }
+  // A classmate's note shared with the edit role
+  | { sharedNote: SharedNote; session?: undefined; onSaved?: (content: string) => void };
+
+export function NoteEditor(props: NoteEditorProps) {
+  if (props.sharedNote) {
+    return <SharedNoteEditor note={props.sharedNote} onSaved={props.onSaved} />;
+  }
+  return <SessionNoteEditor session={props.session} />;
 }
 
-export function NoteEditor({ session }: NoteEditorProps) {
+function SessionNoteEditor({ session }: { session: Session }) {
   const { currentNote, saveNote, autoSave, saving, togglePin } = useNotes(session.sessionId);
   const [content, setContent] = useState('');
   const [tags, setTags] = useState('');
@@ -26,6 +35,7 @@ export function NoteEditor({ session }: NoteEditorProps) {
     // Auto-save
     autoSave({
       studentId: '', // Will be set in the hook
+      noteId: currentNote?.noteId,
       sessionId: session.sessionId,
       batch: session.batch,
       term: session.term,
@@ -41,6 +51,7 @@ export function NoteEditor({ session }: NoteEditorProps) {
   const handleManualSave = async () => {
     await saveNote({
       studentId: '', // Will be set in the hook
+      noteId: currentNote?.noteId,
       sessionId: session.sessionId,
       batch: session.batch,
       term: session.term,
@@ -131,3 +142,132 @@ export function NoteEditor({ session }: NoteEditorProps) {
     </div>
   );
 }
+
+// Saves this long after the last keystroke
+const SHARED_SAVE_DELAY = 2000;
+
+/**
+ * Swaps the editor's HTML, keeping the caret on the same line (by line id) and character offset
+ */
+function replaceContentKeepingCaret(editor: HTMLElement, html: string) {
+  const selection = window.getSelection();
+  let lineId: string | null = null;
+  let offset = 0;
+  if (selection && selection.rangeCount > 0 && editor.contains(selection.anchorNode)) {
+    const range = selection.getRangeAt(0);
+    const line = Array.from(editor.children).find(child => child.contains(range.startContainer));
+    if (line) {
+      lineId = line.getAttribute(LINE_ID_ATTR);
+      const before = document.createRange();
+      before.selectNodeContents(line);
+      before.setEnd(range.startContainer, range.startOffset);
+      offset = before.toString().length;
+    }
+  }
+
+  editor.innerHTML = sanitizeNoteHtml(html);
+
+  const line = lineId ? Array.from(editor.children).find(child => child.getAttribute(LINE_ID_ATTR) === lineId) : null;
+  if (!line || !selection) return;
+
+  const caret = document.createRange();
+  const walker = document.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let node = walker.nextNode();
+  while (node && remaining > (node.textContent || '').length) {
+    remaining -= (node.textContent || '').length;
+    node = walker.nextNode();
+  }
+  if (node) {
+    caret.setStart(node, remaining);
+  } else {
+    caret.selectNodeContents(line);
+  }
+  caret.collapse(node ? true : false);
+  selection.removeAllRanges();
+  selection.addRange(caret);
+}
+
+/**
+ * Co-authoring a shared note. Edits save a moment after typing stops; lines classmates saved in
+ * the meantime are merged in and appear in place, each line labelled with who wrote it.
+ */
+function SharedNoteEditor({ note, onSaved }: { note: SharedNote; onSaved?: (content: string) => void }) {
+  const { initialContent, saving, lastSaved, save } = useSharedNote(note);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const dirtyRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savingRef = useRef(false);
+  const initialContentRef = useRef(initialContent);
+
+  // Loaded once; after that the editor is kept in step by flush()
+  useEffect(() => {
+    if (editorRef.current) editorRef.current.innerHTML = sanitizeNoteHtml(initialContentRef.current);
+  }, []);
+
+  const flush = async () => {
+    const editor = editorRef.current;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (!editor || !dirtyRef.current || savingRef.current) return;
+
+    dirtyRef.current = false;
+    savingRef.current = true;
+    assignLineIds(Array.from(editor.children));
+    const sent = editor.innerHTML;
+    const stored = await save(sent);
+    savingRef.current = false;
+
+    if (stored === null) {
+      dirtyRef.current = true;
+      return;
+    }
+    if (editorRef.current) {
+      const current = editorRef.current.innerHTML;
+      // Keystrokes made while saving are replayed onto the stored version and saved next
+      const next = current === sent ? stored : mergeNoteContent(sent, current, stored).content;
+      if (next !== current) replaceContentKeepingCaret(editorRef.current, next);
+      if (current !== sent) scheduleSave();
+    }
+    onSaved?.(stored);
+  };
+
+  const flushRef = useRef(flush);
+  flushRef.current = flush;
+
+  const scheduleSave = () => {
+    dirtyRef.current = true;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => flushRef.current(), SHARED_SAVE_DELAY);
+  };
+
+  // Save pending edits when the editor closes
+  useEffect(() => () => {
+    flushRef.current();
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <style>{authorLabelStyles('.shared-note-editor')}</style>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        onInput={scheduleSave}
+        onBlur={() => flush()}
+        className="shared-note-editor note-content min-h-[200px] max-h-[50vh] overflow-y-auto p-3 rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+      />
+      <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+        {saving ? (
+          <>
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Saving...
+          </>
+        ) : lastSaved ? (
+          `Saved at ${lastSaved.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`
+        ) : (
+          'Changes save automatically'
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ChevronDown, Download, FileText, FileType, Layers } from 'lucide-react';
+import { Note } from '../../types';
+import { exportNotesAnki, exportNotesMarkdown, exportNotesPdf } from '../../utils/notesExport';
+
+interface NotesExportMenuProps {
+  notes: Note[];
+  // What the notes cover, e.g. the current subject; used for file names and the PDF title
+  scope: string;
+}
+
+type ExportFormat = 'markdown' | 'pdf' | 'anki';
+
+const FORMATS: Array<{ format: ExportFormat; label: string; description: string; icon: React.ElementType }> = [
+  { format: 'markdown', label: 'Markdown', description: 'ZIP with one file per subject', icon: FileText },
+  { format: 'pdf', label: 'PDF', description: 'Printable, one subject per page', icon: FileType },
+  { format: 'anki', label: 'Anki flashcards', description: 'CSV from Q: / A: lines', icon: Layers }
+];
+
+export const NotesExportMenu: React.FC<NotesExportMenuProps> = ({ notes, scope }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = (format: ExportFormat) => {
+    setOpen(false);
+    try {
+      if (format === 'markdown') {
+        exportNotesMarkdown(notes, scope);
+      } else if (format === 'pdf') {
+        exportNotesPdf(notes, scope);
+      } else {
+        const count = exportNotesAnki(notes, scope);
+        if (count === 0) {
+          toast.error('No flashcards found. Start a line with "Q:" and its answer with "A:"');
+          return;
+        }
+        toast.success(`Exported ${count} flashcard${count === 1 ? '' : 's'}`);
+        return;
+      }
+      toast.success(`Exported ${notes.length} note${notes.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+      toast.error('Failed to export notes');
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        disabled={notes.length === 0}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/10 hover:bg-primary/20 border border-primary/20 text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-3.5 h-3.5" />
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 z-20 rounded-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-lg overflow-hidden">
+          {FORMATS.map(({ format, label, description, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-primary/10 transition-colors"
+            >
+              <Icon className="w-4 h-4 mt-0.5 text-primary" />
+              <span>
+                <span className="block text-sm font-medium text-foreground">{label}</span>
+                <span className="block text-xs text-muted-foreground">{description}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
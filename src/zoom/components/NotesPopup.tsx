@@ -8,6 +8,9 @@ import {
 } from 'lucide-react';
 import { auth } from '../../firebase/config';
 import { api } from '../../services/api';
+import { anchorNoteLines, getSessionOffset, playbackOffsetStyles, stampLineAtCaret } from '../../utils/playbackTime';
+import { filterNotes } from '../../utils/notesSearch';
+import { saveNoteEdit } from '../hooks/useNotes';
 import toast from 'react-hot-toast';
 
 interface SessionInfo {
@@ -37,6 +40,8 @@ interface NoteCard {
   timestamp: string;
   isPinned?: string;  // 'Yes' or 'No'
   tags?: string[];  // Array of tags (min 1, max 3)
+  revision?: string;
+  isShared?: boolean;
 }
 
 const NOTE_TYPES = [
@@ -475,6 +480,11 @@ export function NotesPopup() {
       return;
     }
 
+    // Anchor every line to its position in the session recording
+    if (contentEditableRef.current) {
+      anchorNoteLines(contentEditableRef.current, getSessionOffset(sessionInfo.date, sessionInfo.startTime));
+    }
+
     // Format title with note type
     const formattedTitle = currentNote.noteTitle.trim()
       ? `${currentNote.noteType}: ${currentNote.noteTitle}`
@@ -668,6 +678,13 @@ export function NotesPopup() {
     contentEditableRef.current?.focus();
   };
 
+  // Stamp each line with the time since the session started (its position in the recording)
+  const handleEditorInput = (e: React.FormEvent<HTMLDivElement>) => {
+    const inputType = (e.nativeEvent as InputEvent).inputType;
+    const offset = getSessionOffset(sessionInfo?.date, sessionInfo?.startTime);
+    stampLineAtCaret(e.currentTarget, offset, inputType === 'insertParagraph');
+  };
+
   const insertTimestamp = () => {
     const timestamp = `[${currentTime.toLocaleTimeString('en-US', {
       hour: '2-digit',
@@ -756,10 +773,29 @@ export function NotesPopup() {
         ));
       }
 
-      // Save to backend
+      // Save to backend; on a shared note, classmates' edits saved meanwhile are merged in
+      const email = student.email;
       try {
-        const response = await api.updateNoteContent(noteId, student.email, updatedContent);
-        if (!response.success) {
+        const { response, content } = await saveNoteEdit(
+          {
+            base: originalContent,
+            content: updatedContent,
+            revision: noteToUpdate.revision,
+            author: noteToUpdate.isShared ? { email, name: student.name || '' } : undefined
+          },
+          (noteContent, baseRevision) => api.updateNoteContent(noteId, email, noteContent, baseRevision)
+        );
+        if (response.success) {
+          const saved = { noteContent: content, revision: response.data?.revision };
+          if (isFromPreviousSession) {
+            setPreviousSessions(prev => prev.map(session => ({
+              ...session,
+              notes: session.notes.map(note => note.noteId === noteId ? { ...note, ...saved } : note)
+            })));
+          } else {
+            setNotes(prev => prev.map(note => note.noteId === noteId ? { ...note, ...saved } : note));
+          }
+        } else {
           // Revert on error
           if (isFromPreviousSession) {
             setPreviousSessions(prev => prev.map(session => ({
@@ -823,13 +859,6 @@ export function NotesPopup() {
     setTempTags(tempTags.filter(tag => tag !== tagToRemove));
   };
 
-  // Helper function to strip HTML tags for search
-  const stripHtml = (html: string) => {
-    const tmp = document.createElement('div');
-    tmp.innerHTML = html;
-    return tmp.textContent || tmp.innerText || '';
-  };
-
   // Save tags
   const saveTags = async () => {
     if (!editingNoteId || !student?.email) return;
@@ -1104,18 +1133,7 @@ export function NotesPopup() {
                 })()}
 
                 <div className="p-4 space-y-2">
-                {notes
-                .filter(note => {
-                  // Filter by search query
-                  if (!searchQuery) return true;
-                  const query = searchQuery.toLowerCase();
-                  const plainTextContent = stripHtml(note.noteContent).toLowerCase();
-                  return (
-                    note.noteTitle.toLowerCase().includes(query) ||
-                    plainTextContent.includes(query) ||
-                    (note.tags && note.tags.some(tag => tag.toLowerCase().includes(query)))
-                  );
-                })
+                {filterNotes(notes, searchQuery)
                 .sort((a, b) => {
                 // Sort pinned notes to the top
                 if (a.isPinned === 'Yes' && b.isPinned !== 'Yes') return -1;
@@ -1297,16 +1315,7 @@ export function NotesPopup() {
                 <div className="p-4 space-y-4">
                 {previousSessions.map((session, sessionIndex) => {
                   // Filter notes for this session based on search
-                  const filteredNotes = session.notes.filter(note => {
-                    if (!searchQuery) return true;
-                    const query = searchQuery.toLowerCase();
-                    const plainTextContent = stripHtml(note.noteContent).toLowerCase();
-                    return (
-                      note.noteTitle.toLowerCase().includes(query) ||
-                      plainTextContent.includes(query) ||
-                      (note.tags && note.tags.some(tag => tag.toLowerCase().includes(query)))
-                    );
-                  });
+                  const filteredNotes = filterNotes(session.notes, searchQuery);
 
                   // Don't show session if no notes match the search
                   if (searchQuery && filteredNotes.length === 0) return null;
@@ -1670,6 +1679,7 @@ export function NotesPopup() {
             <div
               ref={contentEditableRef}
               contentEditable
+              onInput={handleEditorInput}
               onDrop={handleDrop}
               onDragOver={(e) => e.preventDefault()}
               className="w-full min-h-[200px] max-h-[300px] overflow-y-auto px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -1681,7 +1691,7 @@ export function NotesPopup() {
               data-placeholder={currentNote.noteType === 'To Do List' ? 'Enter your to-do items (press numbered list button for auto-numbering)...' : 'Type your notes here... Use toolbar for formatting'}
             />
 
-            <style>{`
+            <style>{playbackOffsetStyles('[contenteditable]', false) + `
               [contenteditable]:empty:before {
                 content: attr(data-placeholder);
                 color: #9ca3af;
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronRight, Pin, Search, X } from 'lucide-react';
+import { Note } from '../../types';
+import {
+  HighlightSegment,
+  NotesSearchFilters,
+  buildNotesIndex,
+  getNoteLink,
+  getNoteTags,
+  isNotePinned,
+  searchNotes
+} from '../../utils/notesSearch';
+
+interface NotesSearchPanelProps {
+  notes: Note[];
+  // Shown while no search is active
+  children?: React.ReactNode;
+}
+
+const MAX_RESULTS = 50;
+
+const selectClass = 'px-3 py-1.5 rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 text-xs focus:outline-none focus:ring-2 focus:ring-primary/50';
+
+const Highlighted: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, i) => segment.match
+      ? <mark key={i} className="bg-yellow-300 text-gray-900 rounded-sm">{segment.text}</mark>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>
+    )}
+  </>
+);
+
+const uniqueValues = (values: Array<string | undefined>) =>
+  Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+
+export const NotesSearchPanel: React.FC<NotesSearchPanelProps> = ({ notes, children }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<NotesSearchFilters>({});
+
+  const index = useMemo(() => buildNotesIndex(notes), [notes]);
+
+  const options = useMemo(() => {
+    const inTerm = notes.filter(n => !filters.term || n.term === filters.term);
+    const inDomain = inTerm.filter(n => !filters.domain || n.domain === filters.domain);
+    return {
+      terms: uniqueValues(notes.map(n => n.term)),
+      domains: uniqueValues(inTerm.map(n => n.domain)),
+      subjects: uniqueValues(inDomain.map(n => n.subject)),
+      tags: uniqueValues(notes.flatMap(n => getNoteTags(n)))
+    };
+  }, [notes, filters.term, filters.domain]);
+
+  const isActive = query.trim() !== '' || Object.values(filters).some(Boolean);
+
+  const results = useMemo(
+    () => (isActive ? searchNotes(index, query, filters) : []),
+    [index, query, filters, isActive]
+  );
+
+  // Changing a level clears the levels below it
+  const setLevel = (level: 'term' | 'domain' | 'subject', value: string) => {
+    setFilters(prev => {
+      const next = { ...prev, [level]: value };
+      if (level === 'term') next.domain = next.subject = '';
+      if (level === 'domain') next.subject = '';
+      return next;
+    });
+  };
+
+  const clear = () => {
+    setQuery('');
+    setFilters({});
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative overflow-hidden rounded-2xl p-4 bg-gradient-to-br from-white/70 to-white/40 dark:from-gray-900/70 dark:to-gray-800/40 backdrop-blur-2xl border border-white/20 dark:border-gray-700/30 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search all your notes..."
+            className="w-full pl-9 pr-9 py-2 rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+          {isActive && (
+            <button
+              onClick={clear}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              title="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={filters.term || ''} onChange={(e) => setLevel('term', e.target.value)} className={selectClass}>
+            <option value="">All terms</option>
+            {options.terms.map(term => <option key={term} value={term}>{term}</option>)}
+          </select>
+          <select value={filters.domain || ''} onChange={(e) => setLevel('domain', e.target.value)} className={selectClass}>
+            <option value="">All domains</option>
+            {options.domains.map(domain => <option key={domain} value={domain}>{domain}</option>)}
+          </select>
+          <select value={filters.subject || ''} onChange={(e) => setLevel('subject', e.target.value)} className={selectClass}>
+            <option value="">All subjects</option>
+            {options.subjects.map(subject => <option key={subject} value={subject}>{subject}</option>)}
+          </select>
+          <select
+            value={filters.tag || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, tag: e.target.value }))}
+            className={selectClass}
+          >
+            <option value="">Any tag</option>
+            {options.tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, pinnedOnly: !prev.pinnedOnly }))}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+              filters.pinnedOnly
+                ? 'bg-primary text-white border-primary'
+                : 'bg-primary/10 hover:bg-primary/20 border-primary/20 text-primary'
+            }`}
+          >
+            <Pin className="w-3 h-3 inline mr-1" />
+            Pinned
+          </button>
+        </div>
+      </div>
+
+      {!isActive ? children : (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {results.length === 0
+              ? 'No notes match your search'
+              : `${results.length} ${results.length === 1 ? 'note' : 'notes'}${results.length > MAX_RESULTS ? `, showing the top ${MAX_RESULTS}` : ''}`}
+          </p>
+          {results.slice(0, MAX_RESULTS).map(({ note, title, snippet }) => (
+            <Link
+              key={note.noteId}
+              to={getNoteLink(note)}
+              className="block p-4 rounded-xl bg-white/80 dark:bg-gray-800/50 border border-gray-300/70 dark:border-gray-700/50 hover:border-primary/50 transition-colors"
+            >
+              <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1 flex-wrap">
+                {[note.term, note.domain, note.subject].filter(Boolean).map((part, i) => (
+                  <React.Fragment key={i}>
+                    {i > 0 && <ChevronRight className="w-3 h-3" />}
+                    <span>{part}</span>
+                  </React.Fragment>
+                ))}
+                {note.sessionName && <span className="ml-1">· {note.sessionName}</span>}
+                {isNotePinned(note) && <Pin className="w-3 h-3 ml-1 text-primary" />}
+              </div>
+              <h4 className="font-semibold text-sm text-foreground">
+                <Highlighted segments={title} />
+              </h4>
+              {snippet.length > 0 && (
+                <p className="text-sm text-foreground/80 mt-1 line-clamp-2">
+                  <Highlighted segments={snippet} />
+                </p>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
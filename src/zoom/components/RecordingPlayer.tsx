@@ -0,0 +1,224 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+
+export interface RecordingPlayerHandle {
+  // Playback position in seconds, or null when the embed does not report one
+  getCurrentTime: () => number | null;
+  // Returns false when the embed cannot be seeked from the page
+  seekTo: (seconds: number) => boolean;
+}
+
+type RecordingSource =
+  | { kind: 'video'; src: string; fallbackSrc?: string }
+  | { kind: 'youtube' | 'vimeo' | 'iframe'; src: string };
+
+interface RecordingPlayerProps {
+  url: string;
+  title: string;
+  className?: string;
+  // Position to start from, in seconds
+  initialTime?: number;
+  onLoad?: () => void;
+}
+
+const IFRAME_SANDBOX = 'allow-forms allow-modals allow-orientation-lock allow-pointer-lock allow-presentation allow-same-origin allow-scripts allow-top-navigation allow-top-navigation-by-user-activation';
+
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+const VIMEO_ORIGIN = 'https://player.vimeo.com';
+
+// Extract file ID from Google Drive URL
+export const extractDriveFileId = (url: string): string | null => {
+  if (!url || !url.includes('drive.google.com')) return null;
+
+  // Format: https://drive.google.com/file/d/FILE_ID/...
+  const fileMatch = url.match(/\/file\/d\/([^/]+)/);
+  if (fileMatch) return fileMatch[1];
+
+  // Format: https://drive.google.com/open?id=FILE_ID
+  const openMatch = url.match(/[?&]id=([^&]+)/);
+  if (openMatch) return openMatch[1];
+
+  return null;
+};
+
+/**
+ * How a recording link is played. Drive files and direct video links play in an HTML5 video so the
+ * position is readable; YouTube and Vimeo report it over postMessage; anything else is an opaque
+ * iframe (Drive falls back to its preview iframe when the file cannot be streamed).
+ */
+export function getRecordingSource(url: string): RecordingSource {
+  const driveId = extractDriveFileId(url);
+  if (driveId) {
+    return {
+      kind: 'video',
+      src: `https://drive.google.com/uc?export=download&id=${driveId}`,
+      fallbackSrc: `https://drive.google.com/file/d/${driveId}/preview`
+    };
+  }
+
+  if (/\.(mp4|m4v|webm|mov|ogg)(\?|#|$)/i.test(url)) {
+    return { kind: 'video', src: url };
+  }
+
+  const youtubeMatch = url.match(/(?:youtube\.com\/(?:watch\?v=|embed\/|live\/)|youtu\.be\/)([\w-]{11})/);
+  if (youtubeMatch) {
+    const origin = encodeURIComponent(window.location.origin);
+    return { kind: 'youtube', src: `${YOUTUBE_ORIGIN}/embed/${youtubeMatch[1]}?enablejsapi=1&origin=${origin}` };
+  }
+
+  const vimeoMatch = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  if (vimeoMatch) {
+    return { kind: 'vimeo', src: `${VIMEO_ORIGIN}/video/${vimeoMatch[1]}` };
+  }
+
+  return { kind: 'iframe', src: url };
+}
+
+// Start position baked into the embed URL, for players that are seeked through the URL
+const withStartTime = (source: RecordingSource, seconds?: number): string => {
+  if (!seconds) return source.src;
+  const start = Math.floor(seconds);
+  if (source.kind === 'youtube') return `${source.src}&start=${start}`;
+  if (source.kind === 'vimeo') return `${source.src}#t=${start}s`;
+  return source.src;
+};
+
+const parseMessage = (data: unknown): Record<string, unknown> | null => {
+  if (typeof data === 'string') {
+    try {
+      const parsed = JSON.parse(data);
+      return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  return data && typeof data === 'object' ? data as Record<string, unknown> : null;
+};
+
+export const RecordingPlayer = forwardRef<RecordingPlayerHandle, RecordingPlayerProps>(
+  ({ url, title, className = '', initialTime, onLoad }, ref) => {
+    const source = useMemo(() => getRecordingSource(url), [url]);
+    const [videoFailed, setVideoFailed] = useState(false);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    // Last position reported by a postMessage bridge
+    const bridgeTimeRef = useRef<number | null>(null);
+
+    // Only the first render's start time is used; later seeks go through the handle
+    const initialTimeRef = useRef(initialTime);
+
+    useEffect(() => {
+      setVideoFailed(false);
+      bridgeTimeRef.current = null;
+    }, [url]);
+
+    const kind = source.kind === 'video' && videoFailed ? 'iframe' : source.kind;
+    const iframeSrc = source.kind === 'video'
+      ? source.fallbackSrc || source.src
+      : withStartTime(source, initialTimeRef.current);
+
+    const postToPlayer = (message: object, origin: string) => {
+      iframeRef.current?.contentWindow?.postMessage(JSON.stringify(message), origin);
+    };
+
+    // Position updates from YouTube and Vimeo embeds
+    useEffect(() => {
+      if (kind !== 'youtube' && kind !== 'vimeo') return;
+
+      const handleMessage = (e: MessageEvent) => {
+        if (e.source !== iframeRef.current?.contentWindow) return;
+        const data = parseMessage(e.data);
+        if (!data) return;
+
+        if (kind === 'youtube') {
+          const info = data.info as { currentTime?: unknown } | undefined;
+          if (data.event === 'infoDelivery' && typeof info?.currentTime === 'number') {
+            bridgeTimeRef.current = info.currentTime;
+          }
+        } else if (data.event === 'ready') {
+          postToPlayer({ method: 'addEventListener', value: 'timeupdate' }, VIMEO_ORIGIN);
+        } else if (data.event === 'timeupdate' || data.event === 'playProgress') {
+          const seconds = (data.data as { seconds?: unknown } | undefined)?.seconds;
+          if (typeof seconds === 'number') bridgeTimeRef.current = seconds;
+        }
+      };
+
+      window.addEventListener('message', handleMessage);
+      return () => window.removeEventListener('message', handleMessage);
+    }, [kind]);
+
+    const handleIframeLoad = () => {
+      // Ask the embed to start reporting its state
+      if (kind === 'youtube') {
+        postToPlayer({ event: 'listening', id: 1, channel: 'widget' }, YOUTUBE_ORIGIN);
+      } else if (kind === 'vimeo') {
+        postToPlayer({ method: 'addEventListener', value: 'timeupdate' }, VIMEO_ORIGIN);
+      }
+      onLoad?.();
+    };
+
+    useImperativeHandle(ref, () => ({
+      getCurrentTime: () => {
+        if (kind === 'video') return videoRef.current ? videoRef.current.currentTime : null;
+        return bridgeTimeRef.current;
+      },
+      seekTo: (seconds: number) => {
+        const target = Math.max(0, seconds);
+        if (kind === 'video' && videoRef.current) {
+          videoRef.current.currentTime = target;
+          videoRef.current.play().catch(() => undefined);
+          return true;
+        }
+        if (kind === 'youtube') {
+          postToPlayer({ event: 'command', func: 'seekTo', args: [target, true] }, YOUTUBE_ORIGIN);
+          postToPlayer({ event: 'command', func: 'playVideo', args: [] }, YOUTUBE_ORIGIN);
+          bridgeTimeRef.current = target;
+          return true;
+        }
+        if (kind === 'vimeo') {
+          postToPlayer({ method: 'setCurrentTime', value: target }, VIMEO_ORIGIN);
+          postToPlayer({ method: 'play' }, VIMEO_ORIGIN);
+          bridgeTimeRef.current = target;
+          return true;
+        }
+        return false;
+      }
+    }), [kind]);
+
+    if (kind === 'video') {
+      return (
+        <video
+          ref={videoRef}
+          src={source.src}
+          title={title}
+          className={`bg-black ${className}`}
+          controls
+          controlsList="nodownload"
+          playsInline
+          preload="metadata"
+          onLoadedMetadata={() => {
+            if (initialTimeRef.current && videoRef.current) {
+              videoRef.current.currentTime = initialTimeRef.current;
+            }
+            onLoad?.();
+          }}
+          onError={() => setVideoFailed(true)}
+        />
+      );
+    }
+
+    return (
+      <iframe
+        ref={iframeRef}
+        sandbox={IFRAME_SANDBOX}
+        src={iframeSrc}
+        title={title}
+        className={`bg-black ${className}`}
+        allow="autoplay; fullscreen"
+        onLoad={handleIframeLoad}
+        style={{ border: 'none' }}
+      />
+    );
+  }
+);
+
+RecordingPlayer.displayName = 'RecordingPlayer';
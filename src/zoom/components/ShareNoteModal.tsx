@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Loader2, Search, Share2, Trash2, UserPlus, Users, X } from 'lucide-react';
+import { Note, NoteRole, NoteShare } from '../../types';
+import { StudentMention } from '../../types/studentsCorner';
+import { api } from '../services/api';
+import { apiService } from '../../services/api';
+import { assignmentApiService } from '../../services/assignmentApi';
+import { useAuth } from '../../features/auth/hooks/useAuth';
+import { NOTE_ROLE_LABELS } from '../../utils/noteCollaboration';
+import { NoteComments } from './NoteComments';
+
+interface ShareNoteModalProps {
+  note: Note;
+  onClose: () => void;
+}
+
+const ROLES = Object.keys(NOTE_ROLE_LABELS) as NoteRole[];
+
+export const ShareNoteModal: React.FC<ShareNoteModalProps> = ({ note, onClose }) => {
+  const { user } = useAuth();
+  const [shares, setShares] = useState<NoteShare[]>([]);
+  const [classmates, setClassmates] = useState<StudentMention[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState<NoteRole>('view');
+  const [updating, setUpdating] = useState(false);
+
+  const loadShares = useCallback(async () => {
+    const email = user?.email;
+    if (!email) return;
+    const response = await api.getNoteShares(email, note.noteId);
+    if (response.success && response.data) {
+      setShares(response.data);
+    }
+  }, [user?.email, note.noteId]);
+
+  useEffect(() => {
+    if (!user?.email) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [, studentsResponse] = await Promise.all([
+          loadShares(),
+          apiService.getStudentsForMentions(user.email)
+        ]);
+        if (studentsResponse.success && studentsResponse.data) {
+          setClassmates(studentsResponse.data);
+        }
+      } catch (error) {
+        console.error('Error loading note sharing:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [user?.email, loadShares]);
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    const shared = new Set(shares.map(share => share.email.toLowerCase()));
+    return classmates
+      .filter(student =>
+        student.email.toLowerCase() !== user?.email?.toLowerCase() &&
+        !shared.has(student.email.toLowerCase()) &&
+        (student.fullName.toLowerCase().includes(q) || student.email.toLowerCase().includes(q))
+      )
+      .slice(0, 6);
+  }, [query, classmates, shares, user?.email]);
+
+  const nameFor = (email: string) =>
+    classmates.find(student => student.email.toLowerCase() === email.toLowerCase())?.fullName || email;
+
+  const share = async (recipients: Array<{ email: string; role: NoteRole }>, groupName?: string) => {
+    if (!user?.email || recipients.length === 0) return false;
+
+    try {
+      setUpdating(true);
+      const response = await api.shareNote(user.email, note.noteId, recipients, groupName);
+      if (!response.success) {
+        toast.error(response.error || 'Failed to share note');
+        return false;
+      }
+      await loadShares();
+      return true;
+    } catch (error) {
+      console.error('Error sharing note:', error);
+      toast.error('Failed to share note');
+      return false;
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleAddClassmate = async (student: StudentMention) => {
+    if (await share([{ email: student.email, role }])) {
+      setQuery('');
+      toast.success(`Shared with ${student.fullName}`);
+    }
+  };
+
+  const handleShareWithGroup = async () => {
+    if (!user?.email) return;
+    if (!note.batch || !note.subject) {
+      toast.error('This note is not linked to a subject');
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      const result = await assignmentApiService.getGroupMembersBySubjectGroup(user.email, note.batch, note.subject);
+      const members = (result.data || []).filter(member => member.email.toLowerCase() !== user.email.toLowerCase());
+      if (!result.success || members.length === 0) {
+        toast.error(result.error || `You are not in a group for ${note.subject}`);
+        return;
+      }
+      const groupName = result.groupName || undefined;
+      if (await share(members.map(member => ({ email: member.email, role })), groupName)) {
+        toast.success(`Shared with ${groupName || 'your group'}`);
+      }
+    } catch (error) {
+      console.error('Error sharing note with group:', error);
+      toast.error('Failed to share note');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRoleChange = (email: string, newRole: NoteRole) => {
+    const existing = shares.find(s => s.email === email);
+    share([{ email, role: newRole }], existing?.groupName);
+  };
+
+  const handleRemove = async (email: string) => {
+    if (!user?.email) return;
+
+    try {
+      setUpdating(true);
+      const response = await api.removeNoteShare(user.email, note.noteId, email);
+      if (response.success) {
+        setShares(prev => prev.filter(s => s.email !== email));
+      } else {
+        toast.error(response.error || 'Failed to remove access');
+      }
+    } catch (error) {
+      console.error('Error removing note share:', error);
+      toast.error('Failed to remove access');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-foreground">
+              <Share2 className="w-5 h-5 text-primary" />
+              Share note
+            </h3>
+            <p className="text-xs text-muted-foreground">{note.noteTitle || note.sessionName || 'Untitled note'}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <input
+                      type="text"
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      placeholder="Search classmates..."
+                      className="w-full pl-9 pr-3 py-2 text-sm rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-primary/50"
+                    />
+                  </div>
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as NoteRole)}
+                    className="px-2 py-2 text-sm rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700"
+                  >
+                    {ROLES.map(r => (
+                      <option key={r} value={r}>{NOTE_ROLE_LABELS[r]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {matches.length > 0 && (
+                  <div className="rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                    {matches.map(student => (
+                      <button
+                        key={student.email}
+                        onClick={() => handleAddClassmate(student)}
+                        disabled={updating}
+                        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-primary/10 transition-colors disabled:opacity-50"
+                      >
+                        <span>
+                          <span className="block text-sm text-foreground">{student.fullName}</span>
+                          <span className="block text-xs text-muted-foreground">{student.email}</span>
+                        </span>
+                        <UserPlus className="w-4 h-4 text-primary" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <button
+                  onClick={handleShareWithGroup}
+                  disabled={updating}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/10 hover:bg-primary/20 border border-primary/20 text-primary transition-colors disabled:opacity-50"
+                >
+                  <Users className="w-3.5 h-3.5" />
+                  Share with my {note.subject ? `${note.subject} ` : ''}group
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-foreground">People with access</h4>
+                {shares.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Only you can see this note</p>
+                ) : (
+                  shares.map(s => (
+                    <div key={s.email} className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm text-foreground truncate">{nameFor(s.email)}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {s.email}
+                          {s.groupName && ` · ${s.groupName}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <select
+                          value={s.role}
+                          onChange={(e) => handleRoleChange(s.email, e.target.value as NoteRole)}
+                          disabled={updating}
+                          className="px-2 py-1 text-xs rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700"
+                        >
+                          {ROLES.map(r => (
+                            <option key={r} value={r}>{NOTE_ROLE_LABELS[r]}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleRemove(s.email)}
+                          disabled={updating}
+                          className="p-1 rounded-lg text-red-500 hover:bg-red-500/10 disabled:opacity-50"
+                          title="Remove access"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {shares.length > 0 && (
+                <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+                  <NoteComments noteId={note.noteId} canComment />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
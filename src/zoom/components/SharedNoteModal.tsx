@@ -0,0 +1,65 @@
+import React from 'react';
+import { Calendar, Users, X } from 'lucide-react';
+import { SharedNote } from '../../types';
+import { NoteEditor } from './NoteEditor';
+import { NoteComments } from './NoteComments';
+import { NOTE_ROLE_LABELS, authorLabelStyles, canCommentOn, canEditNote, sanitizeNoteHtml } from '../../utils/noteCollaboration';
+
+interface SharedNoteModalProps {
+  note: SharedNote;
+  onClose: () => void;
+  onSaved?: (content: string) => void;
+}
+
+/** A note a classmate shared; what can be done with it depends on the role they granted */
+export const SharedNoteModal: React.FC<SharedNoteModalProps> = ({ note, onClose, onSaved }) => (
+  <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+    <div
+      className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold text-foreground truncate">
+            {note.noteTitle || note.sessionName || 'Untitled note'}
+          </h3>
+          <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Users className="w-3 h-3" />
+              {note.ownerName || note.ownerEmail}
+              {note.groupName && ` · ${note.groupName}`}
+            </span>
+            {note.sessionName && (
+              <span className="flex items-center gap-1">
+                <Calendar className="w-3 h-3" />
+                {note.subject ? `${note.subject} · ` : ''}{note.sessionName}
+              </span>
+            )}
+            <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary">{NOTE_ROLE_LABELS[note.role]}</span>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-5">
+        {canEditNote(note.role) ? (
+          <NoteEditor sharedNote={note} onSaved={onSaved} />
+        ) : (
+          <>
+            <style>{authorLabelStyles('.shared-note-view')}</style>
+            <div
+              className="shared-note-view note-content text-sm text-foreground"
+              dangerouslySetInnerHTML={{ __html: sanitizeNoteHtml(note.noteContent) }}
+            />
+          </>
+        )}
+
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+          <NoteComments noteId={note.noteId} canComment={canCommentOn(note.role)} />
+        </div>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,129 @@
+import React, { RefObject, useEffect, useMemo, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Captions, Search, X } from 'lucide-react';
+import { TranscriptCue } from '../../types';
+import { RecordingPlayerHandle } from './RecordingPlayer';
+import { findCueIndex } from '../../utils/transcripts';
+import { formatPlaybackTime } from '../../utils/playbackTime';
+
+interface TranscriptPaneProps {
+  cues: TranscriptCue[];
+  playerRef: RefObject<RecordingPlayerHandle | null>;
+  // Filter to start with, e.g. the search that led to this recording
+  initialQuery?: string;
+  onClose: () => void;
+}
+
+// How often the player position is read to move the highlight
+const POSITION_POLL_MS = 500;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function highlight(text: string, words: string[]): React.ReactNode {
+  if (words.length === 0) return text;
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi');
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-yellow-300/70 text-inherit rounded-sm">{part}</mark> : part
+  );
+}
+
+/**
+ * Captions of the recording beside the player: the line being spoken is highlighted and kept in
+ * view, and clicking a line seeks the player to it
+ */
+export function TranscriptPane({ cues, playerRef, initialQuery = '', onClose }: TranscriptPaneProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // False for embeds that do not report their position
+  const [synced, setSynced] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const seconds = playerRef.current?.getCurrentTime() ?? null;
+      setSynced(seconds !== null);
+      setActiveIndex(seconds === null ? -1 : findCueIndex(cues, seconds));
+    }, POSITION_POLL_MS);
+    return () => clearInterval(interval);
+  }, [cues, playerRef]);
+
+  const words = useMemo(() => query.toLowerCase().split(/\s+/).filter(Boolean), [query]);
+
+  const visible = useMemo(() => {
+    const indexed = cues.map((cue, index) => ({ cue, index }));
+    if (words.length === 0) return indexed;
+    return indexed.filter(({ cue }) => {
+      const text = cue.text.toLowerCase();
+      return words.every(word => text.includes(word));
+    });
+  }, [cues, words]);
+
+  // Keep the spoken line in view, scrolling only the list
+  useEffect(() => {
+    const list = listRef.current;
+    const line = list?.querySelector<HTMLElement>(`[data-cue="${activeIndex}"]`);
+    if (!list || !line) return;
+    if (line.offsetTop < list.scrollTop || line.offsetTop + line.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = line.offsetTop - list.clientHeight / 3;
+    }
+  }, [activeIndex]);
+
+  const handleSeek = (cue: TranscriptCue) => {
+    if (!playerRef.current?.seekTo(cue.start)) {
+      toast.error('This recording cannot be seeked from the page');
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-white">
+          <Captions className="w-4 h-4 text-primary" />
+          Transcript
+        </h2>
+        <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="px-4 py-2 border-b border-gray-700">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400 pointer-events-none" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search transcript..."
+            className="w-full pl-8 pr-3 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-sm text-white placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+        </div>
+        {!synced && (
+          <p className="mt-2 text-xs text-gray-400">This player does not report its position, so lines are not highlighted</p>
+        )}
+      </div>
+
+      <div ref={listRef} className="relative flex-1 overflow-y-auto px-2 py-2">
+        {visible.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-gray-400 text-center">No lines match "{query}"</p>
+        ) : (
+          visible.map(({ cue, index }) => (
+            <button
+              key={index}
+              data-cue={index}
+              onClick={() => handleSeek(cue)}
+              className={`w-full flex gap-3 px-2 py-1.5 rounded-lg text-left text-sm transition-colors ${
+                index === activeIndex ? 'bg-primary/20 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+              }`}
+            >
+              <span className="flex-shrink-0 w-12 text-xs text-blue-400 tabular-nums pt-0.5">{formatPlaybackTime(cue.start)}</span>
+              <span>
+                {cue.speaker && <span className="block text-xs font-medium text-gray-400">{cue.speaker}</span>}
+                {highlight(cue.text, words)}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
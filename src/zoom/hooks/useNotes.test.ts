@@ -0,0 +1,50 @@
+import { saveNoteEdit } from './useNotes';
+
+jest.mock('../services/api', () => ({ api: {} }));
+jest.mock('../../features/auth/hooks/useAuth', () => ({ useAuth: () => ({ user: null }) }));
+jest.mock('react-hot-toast', () => Object.assign(jest.fn(), { error: jest.fn(), success: jest.fn() }));
+
+const line = (id: string, text: string) => `<div data-line="${id}">${text}</div>`;
+const texts = (html: string) => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return Array.from(container.children).map(el => el.textContent);
+};
+const author = { email: 'owner@x.com', name: 'Owner' };
+
+describe('saveNoteEdit', () => {
+  test('merges into a classmate\'s newer save and retries with its revision', async () => {
+    const base = line('a', 'one') + line('b', 'two');
+    const theirs = line('a', 'one') + line('b', 'TWO');
+    const send = jest.fn()
+      .mockResolvedValueOnce({ success: false, conflict: true, data: { noteContent: theirs, revision: 'r2' } })
+      .mockResolvedValueOnce({ success: true, data: { revision: 'r3' } });
+
+    const { response, content } = await saveNoteEdit({ base, content: line('a', 'ONE') + line('b', 'two'), revision: 'r1', author }, send);
+
+    expect(response).toEqual({ success: true, data: { revision: 'r3' } });
+    expect(send.mock.calls.map(call => call[1])).toEqual(['r1', 'r2']);
+    expect(send.mock.calls[1][0]).toBe(content);
+    expect(texts(content)).toEqual(['ONE', 'TWO']);
+  });
+
+  test('sends unshared notes as they are and returns conflicts it cannot merge', async () => {
+    const conflict = { success: false, conflict: true, error: 'The note was changed by someone else', data: { noteContent: 'theirs', revision: 'r2' } };
+    const send = jest.fn().mockResolvedValue(conflict);
+
+    const { response, content } = await saveNoteEdit({ base: 'one', content: 'one!', revision: 'r1' }, send);
+
+    expect(content).toBe('one!');
+    expect(response).toBe(conflict);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  test('gives up when every retry conflicts', async () => {
+    const send = jest.fn().mockResolvedValue({ success: false, conflict: true, data: { noteContent: line('a', 'x'), revision: 'r' } });
+
+    const { response } = await saveNoteEdit({ base: line('a', 'one'), content: line('a', 'mine'), author }, send);
+
+    expect(response.success).toBe(false);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,9 +1,65 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Note, NoteInput } from '../../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ApiResponse, Note, NoteInput, SharedNote } from '../../types';
 import { api } from '../services/api';
 import { useAuth } from '../../features/auth/hooks/useAuth';
 import toast from 'react-hot-toast';
 import { debounce } from '../../utils/helpers';
+import { NoteAuthor, attributeChangedLines, ensureLineIds, mergeNoteContent } from '../../utils/noteCollaboration';
+
+// Attempts before giving up when others keep saving in between
+const MAX_SAVE_ATTEMPTS = 3;
+
+export interface NoteEdit {
+  base: string; // Content as loaded, which the edit was made from
+  content: string;
+  revision?: string; // Revision of `base`
+  author?: NoteAuthor; // Set for shared notes: changed lines are attributed and conflicts merged
+}
+
+type RevisionedResponse<T> = ApiResponse<T> & { conflict?: boolean };
+
+/**
+ * Sends an edit with the revision it was based on. When someone else saved first, the edits are
+ * merged line by line into their version and sent again. Resolves with the last response and the
+ * content it stored; API failures are returned, not thrown.
+ */
+export async function saveNoteEdit<T extends { revision?: string; noteContent?: string }>(
+  edit: NoteEdit,
+  send: (content: string, baseRevision?: string) => Promise<RevisionedResponse<T>>
+): Promise<{ response: RevisionedResponse<T>; content: string }> {
+  let base = edit.author ? ensureLineIds(edit.base) : edit.base;
+  let content = edit.author ? attributeChangedLines(base, edit.content, edit.author) : edit.content;
+  let revision = edit.revision;
+  let conflicts = 0;
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const response = await send(content, revision);
+
+    if (response.success) {
+      if (conflicts > 0) {
+        toast(`${conflicts} line${conflicts === 1 ? ' was' : 's were'} edited by someone else too; both versions were kept`);
+      }
+      return { response, content };
+    }
+
+    // Without line attribution there is nothing to merge on (the note was shared after it loaded)
+    if (!response.conflict || !response.data || !edit.author) {
+      return { response, content };
+    }
+
+    // Someone saved first: replay our edits on top of their version
+    const merged = mergeNoteContent(base, content, response.data.noteContent || '');
+    conflicts += merged.conflicts;
+    base = response.data.noteContent || '';
+    revision = response.data.revision;
+    content = ensureLineIds(merged.content);
+  }
+
+  return {
+    response: { success: false, error: 'The note is being edited a lot right now; please try saving again' },
+    content,
+  };
+}
 
 export function useNotes(sessionId?: string) {
   const { user } = useAuth();
@@ -11,6 +67,9 @@ export function useNotes(sessionId?: string) {
   const [currentNote, setCurrentNote] = useState<Note | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  // Read through a ref because autoSave keeps the saveNote of the render it was created in
+  const loadedNotesRef = useRef<Note[]>([]);
+  loadedNotesRef.current = currentNote ? [currentNote, ...notes] : notes;
 
   useEffect(() => {
     if (user?.email) {
@@ -52,14 +111,28 @@ export function useNotes(sessionId?: string) {
 
       console.log('🔧 useNotes.saveNote called with:', noteData);
 
-      const response = await api.saveNote({
-        ...noteData,
-        studentId: user.email,
-      });
+      const email = user.email;
+      const loaded = noteData.noteId ? loadedNotesRef.current.find(note => note.noteId === noteData.noteId) : undefined;
+      const { response, content } = await saveNoteEdit(
+        {
+          base: loaded?.noteContent || '',
+          content: noteData.noteContent,
+          revision: loaded?.revision,
+          author: loaded?.isShared ? { email, name: user.name || '' } : undefined,
+        },
+        (noteContent, baseRevision) => api.saveNote({ ...noteData, studentId: email, noteContent, baseRevision })
+      );
 
       console.log('🔧 API response:', response);
 
       if (response.success && response.data) {
+        if (loaded) {
+          const revision = response.data.revision;
+          setNotes(prevNotes =>
+            prevNotes.map(note => (note.noteId === loaded.noteId ? { ...note, noteContent: content, revision } : note))
+          );
+          setCurrentNote(prev => (prev?.noteId === loaded.noteId ? { ...prev, noteContent: content, revision } : prev));
+        }
         if (!skipRefetch) {
           toast.success('Note saved successfully');
           await fetchNotes();
@@ -194,6 +267,80 @@ export function useNotesHierarchy() {
   return { hierarchy, loading, refetch: fetchHierarchy };
 }
 
+export function useSharedNotes() {
+  const { user } = useAuth();
+  const [sharedNotes, setSharedNotes] = useState<SharedNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const email = user?.email;
+
+  const fetchSharedNotes = useCallback(async () => {
+    if (!email) return;
+
+    try {
+      setLoading(true);
+      const response = await api.getSharedNotes(email);
+
+      if (response.success && response.data) {
+        setSharedNotes(response.data);
+      }
+    } catch (error) {
+      console.error('Error fetching shared notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    fetchSharedNotes();
+  }, [fetchSharedNotes]);
+
+  return { sharedNotes, loading, refetch: fetchSharedNotes };
+}
+
+/**
+ * Saving a co-authored note through saveNoteEdit.
+ * `save` resolves with the content now stored (which the editor should show), or null on failure.
+ */
+export function useSharedNote(note: Pick<SharedNote, 'noteId' | 'noteContent' | 'revision'>) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  // The stored content and revision the editor's changes are relative to
+  const baseRef = useRef(ensureLineIds(note.noteContent || ''));
+  const revisionRef = useRef(note.revision);
+
+  const save = async (editorContent: string): Promise<string | null> => {
+    if (!user?.email) return null;
+
+    setSaving(true);
+    try {
+      const email = user.email;
+      const { response, content } = await saveNoteEdit(
+        { base: baseRef.current, content: editorContent, revision: revisionRef.current, author: { email, name: user.name || '' } },
+        (noteContent, baseRevision) => api.updateSharedNote(email, note.noteId, noteContent, baseRevision || '')
+      );
+
+      if (!response.success || !response.data) {
+        toast.error(response.error || 'Failed to save note');
+        return null;
+      }
+
+      baseRef.current = content;
+      revisionRef.current = response.data.revision;
+      setLastSaved(new Date());
+      return content;
+    } catch (error) {
+      console.error('Error saving shared note:', error);
+      toast.error('Failed to save note');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return { initialContent: baseRef.current, saving, lastSaved, save };
+}
+
 export function useNoteSearch() {
   const { user } = useAuth();
   const [results, setResults] = useState<Note[]>([]);
@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
-import { Session, SessionFilters } from '../../types';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Session, SessionFilters, TranscriptMatch } from '../../types';
 import { api } from '../services/api';
 import toast from 'react-hot-toast';
+import { debounce } from '../../utils/helpers';
 
 export function useSessions(filters?: SessionFilters) {
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -103,3 +104,41 @@ export function useRecordings(filters?: Omit<SessionFilters, 'type'>) {
 
   return { recordings, loading, refetch: fetchRecordings };
 }
+
+// Shorter queries match too many caption lines to be useful
+const MIN_TRANSCRIPT_QUERY_LENGTH = 3;
+
+export function useTranscriptSearch(batch?: string) {
+  const [results, setResults] = useState<TranscriptMatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Only the latest search may set results
+  const latestQueryRef = useRef('');
+
+  const search = useMemo(
+    () => debounce(async (query: string) => {
+      const trimmed = query.trim();
+      latestQueryRef.current = trimmed;
+      if (!batch || trimmed.length < MIN_TRANSCRIPT_QUERY_LENGTH) {
+        setResults([]);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const response = await api.searchTranscripts(batch, trimmed);
+
+        if (latestQueryRef.current === trimmed && response.success && response.data) {
+          setResults(response.data);
+        }
+      } catch (error) {
+        console.error('Error searching transcripts:', error);
+      } finally {
+        if (latestQueryRef.current === trimmed) setLoading(false);
+      }
+    }, 400),
+    [batch]
+  );
+
+  return { results, loading, search };
+}
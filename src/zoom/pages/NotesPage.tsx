@@ -1,6 +1,11 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
-import { Note } from '../../types';
-import { useNotes } from '../hooks/useNotes';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Note, SharedNote } from '../../types';
+import { useNotes, useSharedNotes } from '../hooks/useNotes';
+import { NotesSearchPanel } from '../components/NotesSearchPanel';
+import { NotesExportMenu } from '../components/NotesExportMenu';
+import { ShareNoteModal } from '../components/ShareNoteModal';
+import { SharedNoteModal } from '../components/SharedNoteModal';
 import { useAuth } from '../../features/auth/hooks/useAuth';
 import toast from 'react-hot-toast';
 import {
@@ -22,8 +27,13 @@ import {
   List,
   ListOrdered,
   Link as LinkIcon,
-  Loader2
+  Loader2,
+  Share2,
+  Users
 } from 'lucide-react';
+import { buildRecordingSeekUrl, findClickedOffset, playbackOffsetStyles } from '../../utils/playbackTime';
+import { filterNotes, isNotePinned } from '../../utils/notesSearch';
+import { NOTE_ROLE_LABELS } from '../../utils/noteCollaboration';
 
 // Predefined tag options
 const PREDEFINED_TAGS = [
@@ -61,12 +71,40 @@ interface FilterChip {
 export function NotesPage() {
   const { user } = useAuth();
   const { notes, loading, saveNote, togglePin, refetch, updateNoteContent } = useNotes();
-  const [navigation, setNavigation] = useState<{
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { term, domain, subject } = useParams();
+
+  // Where the student is browsing comes from the URL (/my-notes/:term/:domain/:subject)
+  const navigation = useMemo<{
     level: 'term' | 'domain' | 'subject' | 'notes';
     term?: string;
     domain?: string;
     subject?: string;
-  }>({ level: 'term' });
+  }>(() => ({
+    level: subject ? 'notes' : domain ? 'subject' : term ? 'domain' : 'term',
+    term,
+    domain,
+    subject
+  }), [term, domain, subject]);
+
+  const setNavigation = (next: { term?: string; domain?: string; subject?: string }) => {
+    const parts = [next.term, next.domain, next.subject].filter((part): part is string => !!part);
+    navigate(['/my-notes', ...parts.map(encodeURIComponent)].join('/'));
+  };
+
+  // Note opened from a search result (?note=), scrolled to and outlined once it renders
+  const focusedNoteId = searchParams.get('note');
+  useEffect(() => {
+    if (!focusedNoteId || loading) return;
+    if (notes.find(n => n.noteId === focusedNoteId)?.sessionId?.startsWith('quick-note-')) {
+      setQuickNoteExpanded(true);
+    }
+    const timer = setTimeout(() => {
+      document.getElementById(`note-${focusedNoteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [focusedNoteId, loading, notes]);
 
   // Notes view state
   const [searchQuery, setSearchQuery] = useState('');
@@ -87,6 +125,20 @@ export function NotesPage() {
   // Countdown timer for newly saved notes
   const [newNoteSaving, setNewNoteSaving] = useState<{noteId: string, secondsRemaining: number} | null>(null);
 
+  // Sharing: the owner's share dialog, and notes classmates shared with this student
+  const { sharedNotes, loading: sharedNotesLoading, refetch: refetchSharedNotes } = useSharedNotes();
+  const [sharingNote, setSharingNote] = useState<Note | null>(null);
+  const [openSharedNote, setOpenSharedNote] = useState<SharedNote | null>(null);
+  const [sharedNoteEdited, setSharedNoteEdited] = useState(false);
+
+  const closeSharedNote = () => {
+    setOpenSharedNote(null);
+    if (sharedNoteEdited) {
+      setSharedNoteEdited(false);
+      refetchSharedNotes();
+    }
+  };
+
   // Countdown effect - tick every second
   useEffect(() => {
     if (!newNoteSaving) return;
@@ -191,6 +243,9 @@ export function NotesPage() {
     });
   }, [notes, navigation]);
 
+  // Exports cover whatever is being browsed
+  const exportScope = navigation.subject || navigation.domain || navigation.term || 'All notes';
+
   // Group notes by term/domain/subject based on navigation level
   const groupedData = useMemo(() => {
     if (navigation.level === 'term') {
@@ -272,21 +327,10 @@ export function NotesPage() {
 
     let sessions = { ...sessionNotes };
 
-    // Apply search query filter
+    // Apply search query filter (title, content, tags and session name)
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
       Object.keys(sessions).forEach(sessionId => {
-        sessions[sessionId] = sessions[sessionId].filter(note => {
-          // Search in note title, content, and tags
-          const searchableText = [
-            note.noteTitle,
-            note.noteContent,
-            note.noteTags,
-            note.sessionName
-          ].filter(Boolean).join(' ').toLowerCase();
-
-          return searchableText.includes(query);
-        });
+        sessions[sessionId] = filterNotes(sessions[sessionId], searchQuery);
 
         // Remove empty sessions
         if (sessions[sessionId].length === 0) {
@@ -300,7 +344,7 @@ export function NotesPage() {
       Object.keys(sessions).forEach(sessionId => {
         sessions[sessionId] = sessions[sessionId].filter(note => {
           for (const filter of activeFilters) {
-            if (filter.type === 'pinned' && !note.isPinned) return false;
+            if (filter.type === 'pinned' && !isNotePinned(note)) return false;
             if (filter.type === 'tag' && filter.value && !note.noteTags?.includes(filter.value)) return false;
           }
           return true;
@@ -323,24 +367,13 @@ export function NotesPage() {
     let filtered = [...quickNotes];
 
     // Apply search query filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(note => {
-        const searchableText = [
-          note.noteTitle,
-          note.noteContent,
-          note.noteTags
-        ].filter(Boolean).join(' ').toLowerCase();
-
-        return searchableText.includes(query);
-      });
-    }
+    filtered = filterNotes(filtered, searchQuery);
 
     // Apply filter chips
     if (activeFilters.length > 0) {
       filtered = filtered.filter(note => {
         for (const filter of activeFilters) {
-          if (filter.type === 'pinned' && !note.isPinned) return false;
+          if (filter.type === 'pinned' && !isNotePinned(note)) return false;
           if (filter.type === 'tag' && filter.value && !note.noteTags?.includes(filter.value)) return false;
         }
         return true;
@@ -399,23 +432,23 @@ export function NotesPage() {
   // Navigation handlers
   const handleNavigate = (level: 'term' | 'domain' | 'subject' | 'notes', _key?: string) => {
     if (level === 'term') {
-      setNavigation({ level: 'term' });
+      setNavigation({});
     } else if (level === 'domain') {
-      setNavigation({ level: 'domain', term: navigation.term });
+      setNavigation({ term: navigation.term });
     } else if (level === 'subject') {
-      setNavigation({ level: 'subject', term: navigation.term, domain: navigation.domain });
+      setNavigation({ term: navigation.term, domain: navigation.domain });
     } else if (level === 'notes') {
-      setNavigation({ ...navigation, level: 'notes' });
+      setNavigation(navigation);
     }
   };
 
   const handleSelectItem = (key: string) => {
     if (navigation.level === 'term') {
-      setNavigation({ level: 'domain', term: key });
+      setNavigation({ term: key });
     } else if (navigation.level === 'domain') {
-      setNavigation({ level: 'subject', term: navigation.term, domain: key });
+      setNavigation({ term: navigation.term, domain: key });
     } else if (navigation.level === 'subject') {
-      setNavigation({ level: 'notes', term: navigation.term, domain: navigation.domain, subject: key });
+      setNavigation({ term: navigation.term, domain: navigation.domain, subject: key });
     }
   };
 
@@ -541,6 +574,17 @@ export function NotesPage() {
     await togglePin(noteId);
   };
 
+  // Clicking a line's time label opens the session recording at that moment
+  const handleOffsetClick = (e: React.MouseEvent<HTMLElement>, note: Note) => {
+    if (!note.sessionId || note.sessionId.startsWith('quick-note-')) return false;
+    const seconds = findClickedOffset(e, e.currentTarget);
+    if (seconds === null) return false;
+    e.preventDefault();
+    e.stopPropagation();
+    window.open(buildRecordingSeekUrl(note.sessionId, seconds, note.sessionName), '_blank');
+    return true;
+  };
+
   const handleToggleTodo = async (todo: TodoItem) => {
     // Find the note containing this todo
     const note = notes?.find(n => n.noteId === todo.noteId);
@@ -738,34 +782,86 @@ export function NotesPage() {
         </div>
 
         {/* Title */}
-        <div>
-          <h1 className="text-2xl font-bold text-foreground mb-1">
-            {navigation.level === 'term' && 'Select Term'}
-            {navigation.level === 'domain' && 'Select Domain'}
-            {navigation.level === 'subject' && 'Select Subject'}
-          </h1>
-          <p className="text-sm text-muted-foreground">Browse your notes by category</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-1">
+              {navigation.level === 'term' && 'Select Term'}
+              {navigation.level === 'domain' && 'Select Domain'}
+              {navigation.level === 'subject' && 'Select Subject'}
+            </h1>
+            <p className="text-sm text-muted-foreground">Browse your notes by category</p>
+          </div>
+          <NotesExportMenu notes={filteredNotesByNav} scope={exportScope} />
         </div>
 
-        {/* Grid of items */}
-        {loading ? (
-          <div className="flex items-center justify-center h-64">
-            <Loader2 className="w-8 h-8 animate-spin text-primary" />
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {groupedData.map(item => (
-              <button
-                key={item.key}
-                onClick={() => handleSelectItem(item.key)}
-                className="relative overflow-hidden rounded-2xl p-6 bg-gradient-to-br from-white/70 to-white/40 dark:from-gray-900/70 dark:to-gray-800/40 backdrop-blur-2xl border border-white/20 dark:border-gray-700/30 text-left hover:scale-105 transition-all duration-200 group"
-              >
-                <h3 className="text-lg font-semibold text-foreground mb-2 group-hover:text-primary transition-colors">{item.key}</h3>
-                <p className="text-sm text-muted-foreground">{item.count} {item.count === 1 ? 'note' : 'notes'}</p>
-                <ChevronRight className="absolute top-6 right-6 w-5 h-5 text-muted-foreground group-hover:text-primary group-hover:translate-x-1 transition-all" />
-              </button>
-            ))}
-          </div>
+        {/* Search across all notes, replacing the grid while active */}
+        <NotesSearchPanel notes={notes}>
+          {/* Grid of items */}
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {groupedData.map(item => (
+                <button
+                  key={item.key}
+                  onClick={() => handleSelectItem(item.key)}
+                  className="relative overflow-hidden rounded-2xl p-6 bg-gradient-to-br from-white/70 to-white/40 dark:from-gray-900/70 dark:to-gray-800/40 backdrop-blur-2xl border border-white/20 dark:border-gray-700/30 text-left hover:scale-105 transition-all duration-200 group"
+                >
+                  <h3 className="text-lg font-semibold text-foreground mb-2 group-hover:text-primary transition-colors">{item.key}</h3>
+                  <p className="text-sm text-muted-foreground">{item.count} {item.count === 1 ? 'note' : 'notes'}</p>
+                  <ChevronRight className="absolute top-6 right-6 w-5 h-5 text-muted-foreground group-hover:text-primary group-hover:translate-x-1 transition-all" />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Notes classmates shared with this student */}
+          {navigation.level === 'term' && (sharedNotesLoading || sharedNotes.length > 0) && (
+            <div className="mt-8">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground mb-3">
+                <Users className="w-5 h-5 text-primary" />
+                Shared with me
+              </h2>
+              {sharedNotesLoading ? (
+                <div className="flex items-center justify-center h-24">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {sharedNotes.map(note => (
+                    <button
+                      key={note.noteId}
+                      onClick={() => setOpenSharedNote(note)}
+                      className="rounded-2xl p-4 bg-gradient-to-br from-white/70 to-white/40 dark:from-gray-900/70 dark:to-gray-800/40 backdrop-blur-2xl border border-white/20 dark:border-gray-700/30 text-left hover:scale-105 transition-all duration-200 group"
+                    >
+                      <h3 className="text-sm font-semibold text-foreground mb-1 truncate group-hover:text-primary transition-colors">
+                        {note.noteTitle || note.sessionName || 'Untitled note'}
+                      </h3>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[note.subject, note.sessionName].filter(Boolean).join(' · ')}
+                      </p>
+                      <div className="flex items-center justify-between gap-2 mt-3 text-xs">
+                        <span className="text-muted-foreground truncate">{note.ownerName || note.ownerEmail}</span>
+                        <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary flex-shrink-0">
+                          {NOTE_ROLE_LABELS[note.role]}
+                        </span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </NotesSearchPanel>
+
+        {openSharedNote && (
+          <SharedNoteModal
+            note={openSharedNote}
+            onClose={closeSharedNote}
+            onSaved={() => setSharedNoteEdited(true)}
+          />
         )}
       </div>
     );
@@ -774,6 +870,7 @@ export function NotesPage() {
   // Render notes view with session grouping
   return (
     <div className="h-screen flex flex-col">
+      <style>{playbackOffsetStyles('.note-content', true)}</style>
       {/* Fixed Header */}
       <div className="flex-shrink-0 p-6 pb-0 space-y-4">
         {/* Breadcrumb */}
@@ -791,6 +888,9 @@ export function NotesPage() {
           </button>
           <ChevronRight className="w-4 h-4 text-foreground/50" />
           <span className="text-foreground font-semibold">{navigation.subject}</span>
+          <div className="ml-auto">
+            <NotesExportMenu notes={filteredNotesByNav} scope={exportScope} />
+          </div>
         </div>
 
       {/* Header with Search */}
@@ -1123,7 +1223,7 @@ export function NotesPage() {
                       const displayTitle = titleParts.length > 1 ? titleParts.slice(1).join(':').trim() : noteTitle;
 
                       return (
-                        <div key={note.noteId} className="p-4 rounded-lg bg-white/90 dark:bg-gray-800/60 border border-amber-300/70 dark:border-amber-700/50 group shadow-sm hover:shadow-md transition-shadow">
+                        <div key={note.noteId} id={`note-${note.noteId}`} className={`p-4 rounded-lg bg-white/90 dark:bg-gray-800/60 border border-amber-300/70 dark:border-amber-700/50 group shadow-sm hover:shadow-md transition-shadow ${focusedNoteId === note.noteId ? 'ring-2 ring-primary' : ''}`}>
                           {/* Compact Header */}
                           <div className="flex items-center justify-between mb-2 gap-3">
                             <div className="flex items-center gap-2 flex-1 min-w-0">
@@ -1163,6 +1263,16 @@ export function NotesPage() {
                               >
                                 <Pin className={`w-3.5 h-3.5 ${note.isPinned === 'Yes' || note.isPinned === true ? 'fill-amber-500' : ''}`} />
                               </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setSharingNote(note);
+                                }}
+                                className="p-1 rounded text-muted-foreground hover:text-primary hover:bg-primary/10 transition-colors"
+                                title="Share with classmates"
+                              >
+                                <Share2 className="w-3.5 h-3.5" />
+                              </button>
                             </div>
                           </div>
 
@@ -1199,10 +1309,11 @@ export function NotesPage() {
 
                           {/* Note Content - Truncated */}
                           <div
-                            className="text-sm text-foreground prose prose-sm dark:prose-invert max-w-none line-clamp-3 mb-2"
+                            className="note-content text-sm text-foreground prose prose-sm dark:prose-invert max-w-none line-clamp-3 mb-2"
                             dangerouslySetInnerHTML={{
                               __html: highlightSearchMatches(note.noteContent)
                             }}
+                            onClick={(e) => handleOffsetClick(e, note)}
                           />
 
                           {/* Image Thumbnails */}
@@ -1304,7 +1415,7 @@ export function NotesPage() {
                         const noteType = titleParts[0]?.trim() || 'Topic';
                         const displayTitle = titleParts.length > 1 ? titleParts.slice(1).join(':').trim() : noteTitle;
 
-                        return <div key={note.noteId} className="p-3 rounded-lg bg-white/80 dark:bg-gray-800/50 border border-gray-300/70 dark:border-gray-700/50 group shadow-sm">
+                        return <div key={note.noteId} id={`note-${note.noteId}`} className={`p-3 rounded-lg bg-white/80 dark:bg-gray-800/50 border border-gray-300/70 dark:border-gray-700/50 group shadow-sm ${focusedNoteId === note.noteId ? 'ring-2 ring-primary' : ''}`}>
                           {/* Compact Header - Title, Type, and Timestamp in one line */}
                           <div className="flex items-center justify-between mb-2 gap-3">
                             <div className="flex items-center gap-2 flex-1 min-w-0">
@@ -1391,11 +1502,13 @@ export function NotesPage() {
 
                           {/* Note Content */}
                           <div
-                            className="text-sm text-foreground prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-2 prose-a:text-primary prose-a:underline prose-a:cursor-pointer"
+                            className="note-content text-sm text-foreground prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-2 prose-a:text-primary prose-a:underline prose-a:cursor-pointer"
                             dangerouslySetInnerHTML={{
                               __html: highlightSearchMatches(note.noteContent)
                             }}
                             onClick={(e) => {
+                              if (handleOffsetClick(e, note)) return;
+
                               const target = e.target as HTMLElement;
 
                               // Handle hyperlink clicks
@@ -1493,6 +1606,10 @@ export function NotesPage() {
         </div>
       </div>
 
+      {sharingNote && (
+        <ShareNoteModal note={sharingNote} onClose={() => setSharingNote(null)} />
+      )}
+
       {/* Image Modal */}
       {imageModalOpen && (
         <div
@@ -1,14 +1,44 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../features/auth/hooks/useAuth';
-import { useRecordings } from '../hooks/useSessions';
-import { Session } from '../../types';
+import { useRecordings, useTranscriptSearch } from '../hooks/useSessions';
+import { Session, TranscriptMatch } from '../../types';
 import {
   Video, Folder, ChevronRight, ChevronDown, Play, Monitor,
-  Users, Layout, RefreshCw, Search, X, AlertCircle, FileText
+  Users, Layout, RefreshCw, Search, X, AlertCircle, FileText, Captions, Loader2
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useActivityTracker } from '../../hooks/useActivityTracker';
+import { formatPlaybackTime } from '../../utils/playbackTime';
+
+/**
+ * Opens the player in a new tab with the chosen views. `seek` starts it at a transcript line and
+ * opens the transcript filtered to the search that found it.
+ */
+function openVideoPlayer(session: Session, views: string[], seek?: { t: number; q: string }) {
+  const viewParams = encodeURIComponent(JSON.stringify({
+    sessionId: session.sessionId,
+    sessionName: session.sessionName,
+    term: session.term,
+    domain: session.domain,
+    subject: session.subject,
+    views,
+    // Include file fields
+    file1: session.file1,
+    file1Name: session.file1Name,
+    file2: session.file2,
+    file2Name: session.file2Name,
+    file3: session.file3,
+    file3Name: session.file3Name,
+    file4: session.file4,
+    file4Name: session.file4Name,
+    file5: session.file5,
+    file5Name: session.file5Name
+  }));
+  const seekParams = seek ? `&t=${Math.floor(seek.t)}&q=${encodeURIComponent(seek.q)}` : '';
+
+  window.open(`/video-player?data=${viewParams}${seekParams}`, '_blank');
+}
 
 interface ViewSelectionModalProps {
   session: Session;
@@ -400,6 +430,33 @@ export function RecordingsPage() {
     });
   }, [recordings, filters]);
 
+  // The search box also finds what was said, in recordings that have a transcript
+  const { results: transcriptResults, loading: transcriptLoading, search: searchTranscripts } = useTranscriptSearch(student?.batch);
+
+  useEffect(() => {
+    searchTranscripts(filters.sessionName);
+  }, [filters.sessionName, searchTranscripts]);
+
+  // Transcript matches grouped by recording, within the term/domain/subject filters
+  const transcriptHits = useMemo(() => {
+    const groups: Array<{ recording: Session; matches: TranscriptMatch[] }> = [];
+    transcriptResults.forEach(match => {
+      const recording = recordings.find(rec => String(rec.sessionId) === match.sessionId);
+      if (!recording) return;
+      if (filters.term !== 'all' && recording.term !== filters.term) return;
+      if (filters.domain !== 'all' && recording.domain !== filters.domain) return;
+      if (filters.subject !== 'all' && recording.subject !== filters.subject) return;
+
+      let group = groups.find(g => g.recording === recording);
+      if (!group) {
+        group = { recording, matches: [] };
+        groups.push(group);
+      }
+      group.matches.push(match);
+    });
+    return groups;
+  }, [transcriptResults, recordings, filters.term, filters.domain, filters.subject]);
+
   // Organize filtered recordings into folder structure and sort by time
   const folderStructure = useMemo(() => {
     const structure: Record<string, Record<string, Record<string, Session[]>>> = {};
@@ -545,30 +602,22 @@ export function RecordingsPage() {
     }).filter(Boolean) as string[];
 
     // Open video player in new tab with selected views
-    const viewParams = encodeURIComponent(JSON.stringify({
-      sessionId: selectedSession.sessionId,
-      sessionName: selectedSession.sessionName,
-      term: selectedSession.term,
-      domain: selectedSession.domain,
-      subject: selectedSession.subject,
-      views: viewLinks,
-      // Include file fields
-      file1: selectedSession.file1,
-      file1Name: selectedSession.file1Name,
-      file2: selectedSession.file2,
-      file2Name: selectedSession.file2Name,
-      file3: selectedSession.file3,
-      file3Name: selectedSession.file3Name,
-      file4: selectedSession.file4,
-      file4Name: selectedSession.file4Name,
-      file5: selectedSession.file5,
-      file5Name: selectedSession.file5Name
-    }));
-
-    window.open(`/video-player?data=${viewParams}`, '_blank');
+    openVideoPlayer(selectedSession, viewLinks);
     setSelectedSession(null);
   };
 
+  // Open the recording at the matching line, with every available view
+  const handleTranscriptMatchClick = (recording: Session, match: TranscriptMatch) => {
+    const duration = typeof recording.duration === 'number'
+      ? recording.duration
+      : parseInt(String(recording.duration)) || 0;
+    trackRecordingOpened(recording.sessionId || '', recording.sessionName || 'Unknown Recording', duration);
+
+    const views = [recording.speakerViewLink, recording.screenShareLink, recording.activeSpeakerLink, recording.galleryViewLink]
+      .filter((link): link is string => !!link);
+    openVideoPlayer(recording, views, { t: match.start, q: filters.sessionName.trim() });
+  };
+
   // Handle recording click - auto-play if only one video, else show modal
   const handleRecordingClick = (recording: Session) => {
     // Track recording opened
@@ -592,27 +641,7 @@ export function RecordingsPage() {
 
     // If only one video available, play it directly
     if (availableVideos.length === 1) {
-      const viewParams = encodeURIComponent(JSON.stringify({
-        sessionId: recording.sessionId,
-        sessionName: recording.sessionName,
-        term: recording.term,
-        domain: recording.domain,
-        subject: recording.subject,
-        views: [availableVideos[0].link],
-        // Include file fields
-        file1: recording.file1,
-        file1Name: recording.file1Name,
-        file2: recording.file2,
-        file2Name: recording.file2Name,
-        file3: recording.file3,
-        file3Name: recording.file3Name,
-        file4: recording.file4,
-        file4Name: recording.file4Name,
-        file5: recording.file5,
-        file5Name: recording.file5Name
-      }));
-
-      window.open(`/video-player?data=${viewParams}`, '_blank');
+      openVideoPlayer(recording, [availableVideos[0].link as string]);
     } else {
       // Multiple videos available, show selection modal
       setSelectedSession(recording);
@@ -783,16 +812,16 @@ export function RecordingsPage() {
                 </select>
               </div>
 
-              {/* Session Name Search */}
+              {/* Session Name and Transcript Search */}
               <div>
-                <label className="text-xs font-medium text-muted-foreground mb-2 block">Session Name</label>
+                <label className="text-xs font-medium text-muted-foreground mb-2 block">Search</label>
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
                   <input
                     type="text"
                     value={filters.sessionName}
                     onChange={(e) => setFilters({ ...filters, sessionName: e.target.value })}
-                    placeholder="Search..."
+                    placeholder="Session name or what was said..."
                     className="w-full pl-9 pr-3 py-2 rounded-lg bg-white/50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
                   />
                 </div>
@@ -802,6 +831,44 @@ export function RecordingsPage() {
         </div>
       )}
 
+      {/* Transcript Matches */}
+      {(transcriptLoading || transcriptHits.length > 0) && (
+        <div className="relative overflow-hidden rounded-2xl p-6 bg-gradient-to-br from-white/70 to-white/40 dark:from-gray-900/70 dark:to-gray-800/40 backdrop-blur-2xl border border-white/20 dark:border-gray-700/30">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-4">
+            <Captions className="w-4 h-4 text-primary" />
+            Said in recordings
+            {transcriptLoading && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+          </h3>
+          <div className="space-y-4">
+            {transcriptHits.map(({ recording, matches }) => (
+              <div key={recording.sessionId}>
+                <p className="text-sm font-medium text-foreground">{recording.sessionName}</p>
+                <p className="text-xs text-muted-foreground mb-2">
+                  {[recording.subject, recording.date ? new Date(recording.date).toLocaleDateString() : ''].filter(Boolean).join(' • ')}
+                </p>
+                <div className="space-y-1">
+                  {matches.map(match => (
+                    <button
+                      key={`${match.sessionId}-${match.start}`}
+                      onClick={() => handleTranscriptMatchClick(recording, match)}
+                      className="w-full flex gap-3 px-3 py-2 rounded-lg text-left text-sm hover:bg-primary/10 transition-colors"
+                    >
+                      <span className="flex-shrink-0 w-14 text-xs text-primary font-medium tabular-nums pt-0.5">
+                        {formatPlaybackTime(match.start)}
+                      </span>
+                      <span className="text-foreground/80">
+                        {match.speaker && <span className="font-medium text-foreground">{match.speaker}: </span>}
+                        {match.text}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Folder Structure */}
       {recordings.length === 0 ? (
         <div className="relative overflow-hidden rounded-2xl p-12">
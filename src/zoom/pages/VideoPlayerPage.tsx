@@ -4,10 +4,20 @@ import {
   FileText, X, ChevronRight, ChevronDown, BookOpen, StickyNote, Plus, Save, Edit2,
   Bold, Italic, List, Tag, Strikethrough, Heading1, Heading2, HelpCircle, CheckSquare,
   Key, AlertCircle, ListOrdered, Indent, Outdent, Clock,
-  Image as ImageIcon, Pin, Search
+  Image as ImageIcon, Pin, Search, Captions
 } from 'lucide-react';
 import { useAuth } from '../../features/auth/hooks/useAuth';
 import { api } from '../../services/api';
+import { api as zoomApi } from '../services/api';
+import { RecordingPlayer, RecordingPlayerHandle, extractDriveFileId } from '../components/RecordingPlayer';
+import { TranscriptPane } from '../components/TranscriptPane';
+import {
+  anchorNoteLines, buildRecordingSeekUrl, findClickedOffset, formatPlaybackTime,
+  playbackOffsetStyles, stampLineAtCaret
+} from '../../utils/playbackTime';
+import { filterNotes } from '../../utils/notesSearch';
+import { saveNoteEdit } from '../hooks/useNotes';
+import { Session, TranscriptCue } from '../../types';
 import toast from 'react-hot-toast';
 
 interface SessionData {
@@ -32,9 +42,12 @@ interface NoteCard {
   date?: string;
   startTime?: string;
   type?: string;
+  revision?: string;
+  isShared?: boolean;
 }
 
 interface SessionGroup {
+  sessionId?: string;
   sessionName: string;
   date: string;
   startTime: string;
@@ -67,26 +80,11 @@ const PREDEFINED_TAGS = [
   'URL(s)'
 ];
 
-// Extract file ID from Google Drive URL
-const extractFileId = (url: string): string | null => {
-  if (!url || !url.includes('drive.google.com')) return null;
-
-  // Format: https://drive.google.com/file/d/FILE_ID/...
-  const fileMatch = url.match(/\/file\/d\/([^/]+)/);
-  if (fileMatch) return fileMatch[1];
-
-  // Format: https://drive.google.com/open?id=FILE_ID
-  const openMatch = url.match(/[?&]id=([^&]+)/);
-  if (openMatch) return openMatch[1];
-
-  return null;
-};
-
 // Convert Google Drive URL to proper embed format for iframe embedding
 const convertToEmbedUrl = (url: string): string => {
   if (!url) return '';
 
-  const fileId = extractFileId(url);
+  const fileId = extractDriveFileId(url);
   if (fileId) {
     // Use preview format for iframe embedding
     return `https://drive.google.com/file/d/${fileId}/preview`;
@@ -95,6 +93,20 @@ const convertToEmbedUrl = (url: string): string => {
   return url;
 };
 
+const VIEW_LABELS = ['Speaker View', 'Screen Share', 'Screen Share + Speaker', 'Gallery View'];
+
+// Player data for a recording opened by id (links from notes carry only the session and offset)
+const toSessionData = (recording: Session): SessionData => ({
+  ...(recording as unknown as Record<string, string>),
+  sessionId: recording.sessionId,
+  sessionName: recording.sessionName,
+  term: recording.term,
+  domain: recording.domain,
+  subject: recording.subject,
+  views: [recording.speakerViewLink, recording.screenShareLink, recording.activeSpeakerLink, recording.galleryViewLink]
+    .filter((link): link is string => !!link)
+});
+
 export function VideoPlayerPage() {
   const [searchParams] = useSearchParams();
   const { student } = useAuth();
@@ -141,6 +153,12 @@ export function VideoPlayerPage() {
   const [currentTime, setCurrentTime] = useState(new Date());
   const editorRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const playerRef = useRef<RecordingPlayerHandle>(null);
+  // Where the player starts: the ?t= offset, then the position kept across view switches
+  const [playerStartTime, setPlayerStartTime] = useState(() => Number(searchParams.get('t')) || 0);
+  const [transcriptCues, setTranscriptCues] = useState<TranscriptCue[] | null>(null);
+  // Opened straight away when arriving from a transcript search (?q=)
+  const [showTranscript, setShowTranscript] = useState(() => !!searchParams.get('q'));
 
   // Update timestamp every minute
   useEffect(() => {
@@ -233,45 +251,85 @@ export function VideoPlayerPage() {
   }, [isDragging]);
 
   useEffect(() => {
+    const applySessionData = (data: SessionData) => {
+      setSessionData(data);
+
+      // Create video list (the player picks the embed for each link)
+      const videoList = data.views.map((url, index) => ({
+        id: `video-${index}`,
+        url,
+        label: VIEW_LABELS[index] || `View ${index + 1}`
+      }));
+
+      // Create files list from file1-file5
+      const filesList: { id: string; url: string; label: string; name: string }[] = [];
+      const dataRecord = data as unknown as Record<string, string>;
+      for (let i = 1; i <= 5; i++) {
+        const fileUrl = dataRecord[`file${i}`];
+        const fileName = dataRecord[`file${i}Name`];
+        if (fileUrl && fileUrl.trim()) {
+          filesList.push({
+            id: `file-${i}`,
+            url: convertToEmbedUrl(fileUrl),
+            label: `File ${i}`,
+            name: fileName || `File ${i}`
+          });
+        }
+      }
+
+      setVideos(videoList);
+      setFiles(filesList);
+    };
+
     const dataParam = searchParams.get('data');
+    const sessionParam = searchParams.get('session');
     if (dataParam) {
       try {
-        const data: SessionData = JSON.parse(decodeURIComponent(dataParam));
-        setSessionData(data);
-
-        // Create video list
-        const viewLabels = ['Speaker View', 'Screen Share', 'Screen Share + Speaker', 'Gallery View'];
-        const videoList = data.views.map((url, index) => ({
-          id: `video-${index}`,
-          url: convertToEmbedUrl(url),
-          label: viewLabels[index] || `View ${index + 1}`
-        }));
-
-        // Create files list from file1-file5
-        const filesList: { id: string; url: string; label: string; name: string }[] = [];
-        const dataRecord = data as unknown as Record<string, string>;
-        for (let i = 1; i <= 5; i++) {
-          const fileUrl = dataRecord[`file${i}`];
-          const fileName = dataRecord[`file${i}Name`];
-          if (fileUrl && fileUrl.trim()) {
-            filesList.push({
-              id: `file-${i}`,
-              url: convertToEmbedUrl(fileUrl),
-              label: `File ${i}`,
-              name: fileName || `File ${i}`
-            });
-          }
-        }
-
-        setVideos(videoList);
-        setFiles(filesList);
-        setIsLoading(false);
+        applySessionData(JSON.parse(decodeURIComponent(dataParam)));
       } catch (error) {
         console.error('Failed to parse video player data:', error);
-        setIsLoading(false);
       }
+      setIsLoading(false);
+    } else if (sessionParam && student?.batch) {
+      // Opened from a note: look the recording up by id, or by name for notes taken live
+      const sessionName = searchParams.get('name');
+      zoomApi.getRecordings({ batch: student.batch })
+        .then(response => {
+          const recordings = response.data?.sessions || [];
+          const recording = recordings.find(s => s.sessionId === sessionParam)
+            || (sessionName ? recordings.find(s => s.sessionName === sessionName) : undefined);
+          if (recording) {
+            applySessionData(toSessionData(recording));
+          } else {
+            toast.error('Recording not found');
+          }
+        })
+        .catch(error => {
+          console.error('Failed to load recording:', error);
+          toast.error('Failed to load recording');
+        })
+        .finally(() => setIsLoading(false));
     }
-  }, [searchParams]);
+  }, [searchParams, student?.batch]);
+
+  // Transcript of the open recording, if an admin attached one
+  useEffect(() => {
+    const sessionId = sessionData?.sessionId;
+    setTranscriptCues(null);
+    if (!sessionId) return;
+
+    let cancelled = false;
+    zoomApi.getSessionTranscript(sessionId)
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setTranscriptCues(response.data.cues);
+        }
+      })
+      .catch(error => console.error('Failed to load transcript:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionData?.sessionId]);
 
   // Disable right-click on video player
   useEffect(() => {
@@ -290,16 +348,52 @@ export function VideoPlayerPage() {
     editorRef.current?.focus();
   };
 
-  // Insert timestamp
+  // Insert timestamp (recording position when the player reports one, else the clock)
   const insertTimestamp = () => {
-    const timestamp = `[${currentTime.toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false
-    })}] `;
+    const position = playerRef.current?.getCurrentTime();
+    const timestamp = position != null
+      ? `[${formatPlaybackTime(position)}] `
+      : `[${currentTime.toLocaleTimeString('en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false
+      })}] `;
     document.execCommand('insertText', false, timestamp);
   };
 
+  // Stamp each note line with the recording position it was written at
+  const handleEditorInput = (e: React.FormEvent<HTMLDivElement>) => {
+    const inputType = (e.nativeEvent as InputEvent).inputType;
+    stampLineAtCaret(e.currentTarget, playerRef.current?.getCurrentTime() ?? null, inputType === 'insertParagraph');
+  };
+
+  // Editor HTML with every line anchored to the recording
+  const getAnchoredContent = () => {
+    if (!editorRef.current) return '';
+    anchorNoteLines(editorRef.current, playerRef.current?.getCurrentTime() ?? null);
+    return editorRef.current.innerHTML;
+  };
+
+  // Clicking a line's time label seeks this recording, or opens the recording the note was taken on
+  const handleOffsetClick = (e: React.MouseEvent<HTMLElement>, sessionId?: string) => {
+    const seconds = findClickedOffset(e, e.currentTarget);
+    if (seconds === null) return false;
+    e.stopPropagation();
+    if (!sessionId || sessionId === sessionData?.sessionId) {
+      if (!playerRef.current?.seekTo(seconds)) {
+        toast.error('This recording cannot be seeked from the page');
+      }
+    } else {
+      window.open(buildRecordingSeekUrl(sessionId, seconds), '_blank');
+    }
+    return true;
+  };
+
+  const switchVideo = (index: number) => {
+    setPlayerStartTime(playerRef.current?.getCurrentTime() ?? 0);
+    setSelectedVideoIndex(index);
+  };
+
   // Image handling
   const handleFiles = (files: File[]) => {
     files.forEach(file => {
@@ -319,13 +413,6 @@ export function VideoPlayerPage() {
     handleFiles(files);
   };
 
-  // Helper function to strip HTML tags for search
-  const stripHtml = (html: string) => {
-    const tmp = document.createElement('div');
-    tmp.innerHTML = html;
-    return tmp.textContent || tmp.innerText || '';
-  };
-
   // Open tags modal for a note
   const openTagsModal = (note: NoteCard) => {
     setEditingNoteId(note.noteId || null);
@@ -551,6 +638,7 @@ export function VideoPlayerPage() {
               );
 
               pastRecordingSessionsMap[session.sessionId] = {
+                sessionId: session.sessionId,
                 sessionName: session.sessionName,
                 date: session.date,
                 startTime: session.startTime,
@@ -618,7 +706,7 @@ export function VideoPlayerPage() {
   const saveRecordingNote = async () => {
     if (!student?.email || !sessionData) return;
 
-    const htmlContent = editorRef.current?.innerHTML || '';
+    const htmlContent = getAnchoredContent();
     const contentText = editorRef.current?.innerText || '';
 
     if (!noteTitle.trim() && !contentText.trim()) {
@@ -776,7 +864,7 @@ export function VideoPlayerPage() {
   const updateRecordingNote = async () => {
     if (!student?.email || !editingNoteId) return;
 
-    const htmlContent = editorRef.current?.innerHTML || '';
+    const htmlContent = getAnchoredContent();
     const contentText = editorRef.current?.innerText || '';
 
     if (!noteTitle.trim() && !contentText.trim()) {
@@ -800,7 +888,17 @@ export function VideoPlayerPage() {
         tags: noteTags
       };
 
-      const response = await api.updateSessionNote(noteData);
+      // On a shared note, classmates' edits saved since it was opened are merged in
+      const loaded = recordingNotes.find(note => note.noteId === editingNoteId);
+      const { response, content } = await saveNoteEdit(
+        {
+          base: loaded?.noteContent || '',
+          content: htmlContent,
+          revision: loaded?.revision,
+          author: loaded?.isShared ? { email: student.email, name: student.name || '' } : undefined
+        },
+        (noteContent, baseRevision) => api.updateSessionNote({ ...noteData, noteContent, baseRevision })
+      );
 
       if (response.success) {
         toast.success('Note updated successfully');
@@ -808,7 +906,7 @@ export function VideoPlayerPage() {
         // Update note in the list
         setRecordingNotes(prev => prev.map(note =>
           note.noteId === editingNoteId
-            ? { ...note, noteType: noteType, noteTitle: formattedTitle, noteContent: htmlContent, images: noteImages, tags: noteTags }
+            ? { ...note, noteType: noteType, noteTitle: formattedTitle, noteContent: content, revision: response.data?.revision, images: noteImages, tags: noteTags }
             : note
         ));
 
@@ -823,7 +921,7 @@ export function VideoPlayerPage() {
           editorRef.current.innerHTML = '';
         }
       } else {
-        toast.error(response.message || 'Failed to update note');
+        toast.error(response.error || response.message || 'Failed to update note');
       }
     } catch (error) {
       console.error('Error updating note:', error);
@@ -861,7 +959,7 @@ export function VideoPlayerPage() {
   if (!sessionData || videos.length === 0) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
-        <div className="text-white text-lg">Loading video player...</div>
+        <div className="text-white text-lg">{isLoading ? 'Loading video player...' : 'Recording not available'}</div>
       </div>
     );
   }
@@ -883,23 +981,40 @@ export function VideoPlayerPage() {
               </p>
             </div>
 
-            {/* Notes Button */}
-            <button
-              onClick={toggleNotesSidebar}
-              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-                showNotesSidebar
-                  ? 'bg-primary text-white shadow-lg shadow-primary/30'
-                  : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700 hover:text-white'
-              }`}
-            >
-              <FileText className="w-4 h-4" />
-              <span>Notes</span>
-              {(totalLiveNotes > 0 || recordingNotes.length > 0) && (
-                <span className="px-1.5 py-0.5 bg-white/20 rounded text-xs">
-                  {totalLiveNotes + recordingNotes.length}
-                </span>
+            <div className="flex items-center gap-2">
+              {/* Transcript Button */}
+              {transcriptCues && (
+                <button
+                  onClick={() => setShowTranscript(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                    showTranscript
+                      ? 'bg-primary text-white shadow-lg shadow-primary/30'
+                      : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700 hover:text-white'
+                  }`}
+                >
+                  <Captions className="w-4 h-4" />
+                  <span>Transcript</span>
+                </button>
               )}
-            </button>
+
+              {/* Notes Button */}
+              <button
+                onClick={toggleNotesSidebar}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  showNotesSidebar
+                    ? 'bg-primary text-white shadow-lg shadow-primary/30'
+                    : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700 hover:text-white'
+                }`}
+              >
+                <FileText className="w-4 h-4" />
+                <span>Notes</span>
+                {(totalLiveNotes > 0 || recordingNotes.length > 0) && (
+                  <span className="px-1.5 py-0.5 bg-white/20 rounded text-xs">
+                    {totalLiveNotes + recordingNotes.length}
+                  </span>
+                )}
+              </button>
+            </div>
           </div>
 
           {/* Video & File Selector Buttons */}
@@ -912,7 +1027,7 @@ export function VideoPlayerPage() {
                   {videos.map((video, index) => (
                     <button
                       key={video.id}
-                      onClick={() => setSelectedVideoIndex(index)}
+                      onClick={() => switchVideo(index)}
                       className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                         selectedVideoIndex === index
                           ? 'bg-primary text-white'
@@ -967,7 +1082,7 @@ export function VideoPlayerPage() {
         <div
           id="video-content-area"
           className={`relative bg-black transition-all duration-300 ${
-            showNotesSidebar ? 'flex-1' : 'w-full'
+            showNotesSidebar || (showTranscript && transcriptCues) ? 'flex-1' : 'w-full'
           }`}
         >
           {/* Loading Spinner */}
@@ -992,14 +1107,14 @@ export function VideoPlayerPage() {
                   <div className="absolute top-2 left-2 z-10 px-2 py-1 bg-blue-600/90 text-white text-xs font-medium rounded">
                     Video: {selectedVideo.label}
                   </div>
-                  <iframe
-                    sandbox="allow-forms allow-modals allow-orientation-lock allow-pointer-lock allow-presentation allow-same-origin allow-scripts allow-top-navigation allow-top-navigation-by-user-activation"
-                    src={selectedVideo.url}
+                  <RecordingPlayer
+                    key={selectedVideo.url}
+                    ref={playerRef}
+                    url={selectedVideo.url}
                     title={selectedVideo.label}
-                    className="w-full h-full bg-black"
-                    allow="autoplay"
+                    className="w-full h-full"
+                    initialTime={playerStartTime}
                     onLoad={() => setIsLoading(false)}
-                    style={{ border: 'none' }}
                   />
                 </div>
               )}
@@ -1046,25 +1161,38 @@ export function VideoPlayerPage() {
           ) : (
             /* Single View: Video Only */
             selectedVideo && (
-              <iframe
-                sandbox="allow-forms allow-modals allow-orientation-lock allow-pointer-lock allow-presentation allow-same-origin allow-scripts allow-top-navigation allow-top-navigation-by-user-activation"
-                src={selectedVideo.url}
+              <RecordingPlayer
+                key={selectedVideo.url}
+                ref={playerRef}
+                url={selectedVideo.url}
                 title={selectedVideo.label}
-                className="w-full h-full bg-black"
-                allow="autoplay"
+                className="w-full h-full"
+                initialTime={playerStartTime}
                 onLoad={() => setIsLoading(false)}
-                style={{ border: 'none' }}
               />
             )
           )}
         </div>
 
+        {/* Transcript Pane */}
+        {showTranscript && transcriptCues && (
+          <div className="w-80 h-full bg-gradient-to-br from-gray-900 to-gray-800 border-l border-gray-700">
+            <TranscriptPane
+              cues={transcriptCues}
+              playerRef={playerRef}
+              initialQuery={searchParams.get('q') || ''}
+              onClose={() => setShowTranscript(false)}
+            />
+          </div>
+        )}
+
         {/* Notes Sidebar */}
         <div className={`h-full bg-gradient-to-br from-gray-900 to-gray-800 border-l border-gray-700 transition-all duration-300 ease-in-out overflow-hidden ${
           showNotesSidebar ? 'w-96' : 'w-0'
         }`}>
           {showNotesSidebar && (
             <div className="h-full flex flex-col">
+              <style>{playbackOffsetStyles('[data-note-id]', true) + playbackOffsetStyles('[contenteditable]', false)}</style>
               {/* Sidebar Header */}
               <div className="flex-shrink-0 p-4 border-b border-gray-700 bg-gray-800/50 backdrop-blur-sm">
                 <div className="flex items-center justify-between">
@@ -1356,6 +1484,7 @@ export function VideoPlayerPage() {
                               <div
                                 ref={editorRef}
                                 contentEditable
+                                onInput={handleEditorInput}
                                 onDrop={handleDrop}
                                 onDragOver={(e) => e.preventDefault()}
                                 className="w-full min-h-[200px] max-h-[300px] overflow-y-auto px-3 py-2 bg-gray-900/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-green-500 text-sm"
@@ -1458,16 +1587,7 @@ export function VideoPlayerPage() {
                           <div className="max-h-96 overflow-y-auto space-y-3">
                             {(() => {
                               // Filter notes based on search
-                              const filteredNotes = recordingSearchQuery
-                                ? recordingNotes.filter(note => {
-                                    const searchLower = recordingSearchQuery.toLowerCase();
-                                    return (
-                                      note.noteTitle.toLowerCase().includes(searchLower) ||
-                                      stripHtml(note.noteContent).toLowerCase().includes(searchLower) ||
-                                      (note.tags && note.tags.some(tag => tag.toLowerCase().includes(searchLower)))
-                                    );
-                                  })
-                                : recordingNotes;
+                              const filteredNotes = filterNotes(recordingNotes, recordingSearchQuery);
 
                               // Sort: Pinned first, then by timestamp
                               const sortedNotes = [...filteredNotes].sort((a, b) => {
@@ -1596,6 +1716,7 @@ export function VideoPlayerPage() {
                                       className="text-sm text-gray-300 prose prose-sm dark:prose-invert max-w-none [&_ol]:list-decimal [&_ul]:list-disc [&_li]:ml-4"
                                       dangerouslySetInnerHTML={{ __html: note.noteContent }}
                                       onClick={(e) => {
+                                        if (handleOffsetClick(e)) return;
                                         if (note.noteType === 'To Do List') {
                                           const target = e.target as HTMLElement;
                                           if (target.tagName === 'LI') {
@@ -1721,6 +1842,7 @@ export function VideoPlayerPage() {
                                               className="text-sm text-gray-300 prose prose-sm dark:prose-invert max-w-none [&_ol]:list-decimal [&_ul]:list-disc [&_li]:ml-4"
                                               dangerouslySetInnerHTML={{ __html: note.noteContent }}
                                               onClick={(e) => {
+                                                if (handleOffsetClick(e, session.sessionId)) return;
                                                 if (note.noteType === 'To Do List') {
                                                   const target = e.target as HTMLElement;
                                                   if (target.tagName === 'LI') {
@@ -1,4 +1,4 @@
-import { Session, SessionFilters, Note, NoteInput, Student, ApiResponse, SSBCalendarEvent } from '../../types';
+import { Session, SessionFilters, Note, NoteInput, Student, ApiResponse, SSBCalendarEvent, SharedNote, NoteShare, NoteComment, NoteRole, SessionTranscript, TranscriptCue, TranscriptFormat, TranscriptMatch } from '../../types';
 
 const API_BASE_URL = process.env.REACT_APP_BACKEND_API_URL || '';
 
@@ -98,7 +98,13 @@ class ApiService {
     return this.request(`${API_BASE_URL}?${params.toString()}`);
   }
 
-  async saveNote(noteData: NoteInput): Promise<ApiResponse<{ noteId: string; action: 'created' | 'updated' }>> {
+  /**
+   * Creates or updates a note. Content updates to a shared note must carry `baseRevision`; when it
+   * is out of date `conflict` is set and `data` holds the current content and revision
+   */
+  async saveNote(
+    noteData: NoteInput
+  ): Promise<ApiResponse<{ noteId: string; action: 'created' | 'updated'; revision?: string; noteContent?: string }> & { conflict?: boolean }> {
     return this.request(`${API_BASE_URL}`, {
       method: 'POST',
       body: JSON.stringify({
@@ -149,6 +155,84 @@ class ApiService {
     return this.request(`${API_BASE_URL}?${params.toString()}`);
   }
 
+  // ==================== SHARED NOTES ====================
+
+  private postAction<T>(action: string, studentEmail: string, body: object = {}): Promise<ApiResponse<T>> {
+    return this.request(`${API_BASE_URL}`, {
+      method: 'POST',
+      body: JSON.stringify({ action, studentEmail, ...body }),
+    });
+  }
+
+  async shareNote(
+    studentEmail: string,
+    noteId: string,
+    recipients: Array<{ email: string; role: NoteRole }>,
+    groupName?: string
+  ): Promise<ApiResponse<{ shared: number }>> {
+    return this.postAction('shareNote', studentEmail, { noteId, recipients, groupName });
+  }
+
+  async removeNoteShare(studentEmail: string, noteId: string, recipientEmail: string): Promise<ApiResponse<null>> {
+    return this.postAction('removeNoteShare', studentEmail, { noteId, recipientEmail });
+  }
+
+  async getNoteShares(studentEmail: string, noteId: string): Promise<ApiResponse<NoteShare[]>> {
+    return this.postAction('getNoteShares', studentEmail, { noteId });
+  }
+
+  async getSharedNotes(studentEmail: string): Promise<ApiResponse<SharedNote[]>> {
+    return this.postAction('getSharedNotes', studentEmail);
+  }
+
+  /**
+   * Saves only if the note is still at `baseRevision`; otherwise `conflict` is set and `data`
+   * holds the current content and revision to merge with
+   */
+  async updateSharedNote(
+    studentEmail: string,
+    noteId: string,
+    noteContent: string,
+    baseRevision: string
+  ): Promise<ApiResponse<{ revision: string; lastModified?: string; noteContent?: string }> & { conflict?: boolean }> {
+    return this.postAction('updateSharedNote', studentEmail, { noteId, noteContent, baseRevision });
+  }
+
+  async getNoteComments(studentEmail: string, noteId: string): Promise<ApiResponse<NoteComment[]>> {
+    return this.postAction('getNoteComments', studentEmail, { noteId });
+  }
+
+  async addNoteComment(studentEmail: string, noteId: string, comment: string): Promise<ApiResponse<NoteComment>> {
+    return this.postAction('addNoteComment', studentEmail, { noteId, comment });
+  }
+
+  // ==================== TRANSCRIPTS ====================
+
+  async getSessionTranscript(sessionId: string): Promise<ApiResponse<SessionTranscript | null>> {
+    const params = new URLSearchParams({ action: 'getSessionTranscript', sessionId });
+    return this.request(`${API_BASE_URL}?${params.toString()}`);
+  }
+
+  async searchTranscripts(batch: string, query: string): Promise<ApiResponse<TranscriptMatch[]>> {
+    const params = new URLSearchParams({ action: 'searchTranscripts', batch, query });
+    return this.request(`${API_BASE_URL}?${params.toString()}`);
+  }
+
+  /** Admin only; replaces the session's earlier transcript if there was one */
+  async saveSessionTranscript(
+    adminEmail: string,
+    session: Pick<Session, 'sessionId' | 'batch'>,
+    format: TranscriptFormat,
+    cues: TranscriptCue[]
+  ): Promise<ApiResponse<{ sessionId: string; cueCount: number; replaced: boolean }>> {
+    return this.postAction('saveSessionTranscript', adminEmail, {
+      sessionId: session.sessionId,
+      batch: session.batch,
+      format,
+      cues
+    });
+  }
+
   // ==================== STUDENTS ====================
 
   async getStudent(email: string): Promise<ApiResponse<{ student: Student }>> {